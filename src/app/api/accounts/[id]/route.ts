@@ -0,0 +1,192 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { AccountUpdateSchema } from '@/lib/schemas';
+import { recordAuditEvent } from '@/lib/audit';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { ensureActiveSpace } from '@/lib/spaces';
+
+const ParamsSchema = z.object({
+    id: z.string().uuid('ID de cuenta inválido'),
+});
+
+async function countAccountMovements(supabase: any, spaceId: string, accountId: string) {
+    const { count, error } = await supabase
+        .from('transactions')
+        .select('id', { count: 'exact', head: true })
+        .eq('space_id', spaceId)
+        .or(`account_id.eq.${accountId},transfer_account_id.eq.${accountId}`);
+
+    if (error) throw new Error(error.message);
+    return count || 0;
+}
+
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/accounts/[id]', 'PUT');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de cuenta inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const payload = await req.json();
+        const validated = AccountUpdateSchema.parse(payload);
+
+        const { data: existingAccount, error: existingError } = await supabase
+            .from('accounts')
+            .select('*')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (existingError) return NextResponse.json({ error: existingError.message }, { status: 500 });
+        if (!existingAccount) return NextResponse.json({ error: 'Cuenta no encontrada' }, { status: 404 });
+
+        // Changing the currency would silently reinterpret every stored movement of the account.
+        if (validated.currency && validated.currency !== existingAccount.currency) {
+            const movements = await countAccountMovements(supabase, activeSpaceId, existingAccount.id);
+            if (movements > 0) {
+                return NextResponse.json({ error: 'No se puede cambiar la moneda de una cuenta con movimientos' }, { status: 409 });
+            }
+        }
+
+        if (validated.is_default === false && existingAccount.is_default) {
+            return NextResponse.json({ error: 'Elegí otra cuenta por defecto antes de quitar esta' }, { status: 409 });
+        }
+        if (validated.is_archived && existingAccount.is_default) {
+            return NextResponse.json({ error: 'No se puede archivar la cuenta por defecto' }, { status: 409 });
+        }
+
+        if (validated.is_default && !existingAccount.is_default) {
+            await supabase
+                .from('accounts')
+                .update({ is_default: false })
+                .eq('space_id', activeSpaceId)
+                .eq('is_default', true);
+        }
+
+        const { data: updatedAccount, error: updateError } = await supabase
+            .from('accounts')
+            .update(validated)
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .select('*')
+            .single();
+
+        if (updateError) return NextResponse.json({ error: updateError.message }, { status: 500 });
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'account',
+            entityId: updatedAccount.id,
+            action: 'update',
+            beforeData: existingAccount,
+            afterData: updatedAccount,
+        });
+
+        logInfo('account_updated', {
+            ...context,
+            userId: session.user.id,
+            accountId: updatedAccount.id,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(updatedAccount);
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('account_update_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'Datos inválidos' }, { status: 400 });
+    }
+}
+
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/accounts/[id]', 'DELETE');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de cuenta inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const { data: existingAccount, error: existingError } = await supabase
+            .from('accounts')
+            .select('*')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (existingError) return NextResponse.json({ error: existingError.message }, { status: 500 });
+        if (!existingAccount) return NextResponse.json({ error: 'Cuenta no encontrada' }, { status: 404 });
+
+        if (existingAccount.is_default) {
+            return NextResponse.json({ error: 'No se puede eliminar la cuenta por defecto' }, { status: 409 });
+        }
+
+        const movements = await countAccountMovements(supabase, activeSpaceId, existingAccount.id);
+        if (movements > 0) {
+            return NextResponse.json({
+                error: 'La cuenta tiene movimientos registrados. Archivala en lugar de eliminarla.',
+            }, { status: 409 });
+        }
+
+        const { error: deleteError } = await supabase
+            .from('accounts')
+            .delete()
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId);
+
+        if (deleteError) return NextResponse.json({ error: deleteError.message }, { status: 500 });
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'account',
+            entityId: existingAccount.id,
+            action: 'delete',
+            beforeData: existingAccount,
+        });
+
+        logInfo('account_deleted', {
+            ...context,
+            userId: session.user.id,
+            accountId: existingAccount.id,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({ success: true, id: existingAccount.id });
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('account_delete_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'No se pudo eliminar la cuenta' }, { status: 400 });
+    }
+}
@@ -0,0 +1,151 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { AccountInputSchema } from '@/lib/schemas';
+import { createRequestContext, logError, logInfo, logWarn } from '@/lib/observability';
+import { recordAuditEvent } from '@/lib/audit';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { buildSnapshotRateLookup } from '@/lib/currency';
+import {
+    computeAccountBalances,
+    ensureDefaultAccount,
+    isMissingAccountsTableError,
+    loadAccountMovements,
+    type AccountRow,
+} from '@/lib/accounts';
+
+export async function GET(req: Request) {
+    const context = createRequestContext('/api/accounts', 'GET');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+        const includeArchived = new URL(req.url).searchParams.get('include_archived') === '1';
+
+        await ensureDefaultAccount(supabase as any, activeSpaceId, session.user.id);
+
+        let accountsQuery = supabase
+            .from('accounts')
+            .select('*')
+            .eq('space_id', activeSpaceId)
+            .order('is_default', { ascending: false })
+            .order('created_at', { ascending: true });
+
+        if (!includeArchived) accountsQuery = accountsQuery.eq('is_archived', false);
+
+        const { data: accounts, error: accountsError } = await accountsQuery;
+
+        if (accountsError) {
+            if (isMissingAccountsTableError(accountsError.message)) {
+                logWarn('accounts_table_missing_returning_empty', {
+                    ...context,
+                    userId: session.user.id,
+                    reason: accountsError.message,
+                });
+                return NextResponse.json([]);
+            }
+            return NextResponse.json({ error: accountsError.message }, { status: 500 });
+        }
+
+        const { data: movements, error: movementsError } = await loadAccountMovements(supabase as any, activeSpaceId);
+
+        if (movementsError) return NextResponse.json({ error: movementsError.message }, { status: 500 });
+
+        const rateLookup = buildSnapshotRateLookup(movements || []);
+        const withBalances = computeAccountBalances((accounts || []) as AccountRow[], movements || [], rateLookup);
+
+        logInfo('accounts_loaded', {
+            ...context,
+            userId: session.user.id,
+            count: withBalances.length,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(withBalances);
+    } catch (error) {
+        logError('accounts_get_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: 'Error al cargar cuentas' }, { status: 500 });
+    }
+}
+
+export async function POST(req: Request) {
+    const context = createRequestContext('/api/accounts', 'POST');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const payload = await req.json();
+        const validated = AccountInputSchema.parse(payload);
+
+        // Only one default account per space: the new default replaces the previous one.
+        if (validated.is_default) {
+            await supabase
+                .from('accounts')
+                .update({ is_default: false })
+                .eq('space_id', activeSpaceId)
+                .eq('is_default', true);
+        }
+
+        const { data, error } = await supabase
+            .from('accounts')
+            .insert({
+                ...validated,
+                is_default: Boolean(validated.is_default),
+                user_id: session.user.id,
+                space_id: activeSpaceId,
+            })
+            .select()
+            .single();
+
+        if (error) {
+            if (isMissingAccountsTableError(error.message)) {
+                return NextResponse.json({
+                    error: 'El módulo de cuentas no está inicializado en la base.',
+                    hint: 'Ejecuta supabase-accounts.sql en Supabase SQL Editor.',
+                }, { status: 503 });
+            }
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'account',
+            entityId: data.id,
+            action: 'create',
+            afterData: data,
+        });
+
+        logInfo('account_created', {
+            ...context,
+            userId: session.user.id,
+            accountId: data.id,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({ ...data, balance: Number(data.opening_balance || 0), movements_count: 0, missing_rates: 0 });
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('account_create_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'Datos inválidos' }, { status: 400 });
+    }
+}
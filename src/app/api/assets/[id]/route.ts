@@ -0,0 +1,175 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { AssetUpdateSchema } from '@/lib/schemas';
+import { recordAuditEvent } from '@/lib/audit';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { ensureActiveSpace } from '@/lib/spaces';
+
+const ParamsSchema = z.object({
+    id: z.string().uuid('ID de bien inválido'),
+});
+
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/assets/[id]', 'PUT');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de bien inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const payload = await req.json();
+        const validated = AssetUpdateSchema.parse(payload);
+
+        const { data: existingAsset, error: existingError } = await supabase
+            .from('assets')
+            .select('*')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (existingError) return NextResponse.json({ error: existingError.message }, { status: 500 });
+        if (!existingAsset) return NextResponse.json({ error: 'Bien no encontrado' }, { status: 404 });
+
+        const mode = validated.valuation_mode || existingAsset.valuation_mode;
+        const accountId = validated.account_id !== undefined ? validated.account_id : existingAsset.account_id;
+        const value = validated.value !== undefined ? validated.value : existingAsset.value;
+
+        if (mode === 'account') {
+            if (!accountId) return NextResponse.json({ error: 'Elegí la cuenta de la que toma el valor' }, { status: 400 });
+            const { data: account } = await supabase
+                .from('accounts')
+                .select('id')
+                .eq('id', accountId)
+                .eq('space_id', activeSpaceId)
+                .maybeSingle();
+            if (!account) return NextResponse.json({ error: 'Cuenta no encontrada' }, { status: 404 });
+        } else if (value == null) {
+            return NextResponse.json({ error: 'El valor es requerido' }, { status: 400 });
+        }
+
+        // A new manual value without its own date is a valuation as of today.
+        const revalued = mode === 'manual' && validated.value !== undefined && Number(validated.value) !== Number(existingAsset.value);
+        const changes = {
+            ...validated,
+            ...(mode === 'account' ? { value: null, valued_at: null } : { account_id: null }),
+            ...(revalued && !validated.valued_at ? { valued_at: new Date().toISOString().slice(0, 10) } : {}),
+            updated_at: new Date().toISOString(),
+        };
+
+        const { data: updatedAsset, error: updateError } = await supabase
+            .from('assets')
+            .update(changes)
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .select('*')
+            .single();
+
+        if (updateError) return NextResponse.json({ error: updateError.message }, { status: 500 });
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'asset',
+            entityId: updatedAsset.id,
+            action: 'update',
+            beforeData: existingAsset,
+            afterData: updatedAsset,
+        });
+
+        logInfo('asset_updated', {
+            ...context,
+            userId: session.user.id,
+            assetId: updatedAsset.id,
+            revalued,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(updatedAsset);
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('asset_update_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'Datos inválidos' }, { status: 400 });
+    }
+}
+
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/assets/[id]', 'DELETE');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de bien inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const { data: existingAsset, error: existingError } = await supabase
+            .from('assets')
+            .select('*')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (existingError) return NextResponse.json({ error: existingError.message }, { status: 500 });
+        if (!existingAsset) return NextResponse.json({ error: 'Bien no encontrado' }, { status: 404 });
+
+        // Stored snapshots keep the totals they were taken with; only the live figure changes.
+        const { error: deleteError } = await supabase
+            .from('assets')
+            .delete()
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId);
+
+        if (deleteError) return NextResponse.json({ error: deleteError.message }, { status: 500 });
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'asset',
+            entityId: existingAsset.id,
+            action: 'delete',
+            beforeData: existingAsset,
+        });
+
+        logInfo('asset_deleted', {
+            ...context,
+            userId: session.user.id,
+            assetId: existingAsset.id,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({ success: true, id: existingAsset.id });
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('asset_delete_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'No se pudo eliminar el bien' }, { status: 400 });
+    }
+}
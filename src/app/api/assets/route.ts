@@ -0,0 +1,142 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { AssetInputSchema } from '@/lib/schemas';
+import { createRequestContext, logError, logInfo, logWarn } from '@/lib/observability';
+import { recordAuditEvent } from '@/lib/audit';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { isMissingNetWorthTableError } from '@/lib/net-worth';
+
+export async function GET(req: Request) {
+    const context = createRequestContext('/api/assets', 'GET');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+        const includeArchived = new URL(req.url).searchParams.get('include_archived') === '1';
+
+        let query = supabase
+            .from('assets')
+            .select('*')
+            .eq('space_id', activeSpaceId)
+            .order('created_at', { ascending: true });
+
+        if (!includeArchived) query = query.eq('is_archived', false);
+
+        const { data, error } = await query;
+
+        if (error) {
+            if (isMissingNetWorthTableError(error.message)) {
+                logWarn('assets_table_missing_returning_empty', {
+                    ...context,
+                    userId: session.user.id,
+                    reason: error.message,
+                });
+                return NextResponse.json([]);
+            }
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+
+        logInfo('assets_loaded', {
+            ...context,
+            userId: session.user.id,
+            count: data?.length || 0,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(data || []);
+    } catch (error) {
+        logError('assets_get_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: 'Error al cargar bienes' }, { status: 500 });
+    }
+}
+
+export async function POST(req: Request) {
+    const context = createRequestContext('/api/assets', 'POST');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const payload = await req.json();
+        const validated = AssetInputSchema.parse(payload);
+
+        if (validated.valuation_mode === 'account') {
+            const { data: account } = await supabase
+                .from('accounts')
+                .select('id')
+                .eq('id', validated.account_id as string)
+                .eq('space_id', activeSpaceId)
+                .maybeSingle();
+            if (!account) return NextResponse.json({ error: 'Cuenta no encontrada' }, { status: 404 });
+        }
+
+        // A derived asset follows its account, so a manual value would only go stale.
+        const { data, error } = await supabase
+            .from('assets')
+            .insert({
+                ...validated,
+                value: validated.valuation_mode === 'manual' ? validated.value : null,
+                account_id: validated.valuation_mode === 'account' ? validated.account_id : null,
+                valued_at: validated.valuation_mode === 'manual'
+                    ? validated.valued_at || new Date().toISOString().slice(0, 10)
+                    : null,
+                user_id: session.user.id,
+                space_id: activeSpaceId,
+            })
+            .select()
+            .single();
+
+        if (error) {
+            if (isMissingNetWorthTableError(error.message)) {
+                return NextResponse.json({
+                    error: 'La tabla de bienes no está inicializada en la base.',
+                    hint: 'Ejecuta supabase-net-worth.sql en Supabase SQL Editor.',
+                }, { status: 503 });
+            }
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'asset',
+            entityId: data.id,
+            action: 'create',
+            afterData: data,
+        });
+
+        logInfo('asset_created', {
+            ...context,
+            userId: session.user.id,
+            assetId: data.id,
+            assetClass: data.asset_class,
+            valuationMode: data.valuation_mode,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(data);
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('asset_create_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'Datos inválidos' }, { status: 400 });
+    }
+}
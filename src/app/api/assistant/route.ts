@@ -7,6 +7,24 @@ import { generateGeminiContentWithFallback } from '@/lib/gemini';
 import { recordAuditEvent } from '@/lib/audit';
 import { estimateTokenCount, recordAssistantUsageEvent, resolveAssistantEntitlement } from '@/lib/assistant-entitlements';
 import { ensureActiveSpace } from '@/lib/spaces';
+import { buildSnapshotRateLookup, normalizeCurrency, resolveFxSnapshot, type FxSnapshot } from '@/lib/currency';
+import { computeAccountBalances, convertAccountBalance, loadAccountMovements, type AccountRow } from '@/lib/accounts';
+import { createInstallmentPlan, isMissingInstallmentsTableError } from '@/lib/installments';
+import { loadCategoryRules, withCategoryRules } from '@/lib/category-rules';
+import { createCategoryLineage, loadCategories, normalizeCategoryName } from '@/lib/categories';
+import { attachSplits, expandSplitRows, loadSplitsByTransaction } from '@/lib/splits';
+import { loadIndexValues } from '@/lib/indexes';
+import { buildDeflator, deflateAmount, missingDeflatorMonths, parseRealTermsSettings } from '@/lib/inflation';
+import { computeNetWorth, isMissingNetWorthTableError, type AssetRow, type NetWorthDebtRow } from '@/lib/net-worth';
+import { loadHoldingValuations } from '@/lib/investments';
+import { lateCharges, obligationAmountDue } from '@/lib/obligations';
+import {
+    createDefaultRateProvider,
+    createSupabaseFxRateStore,
+    getExchangeRate,
+    type ExchangeRateProvider,
+    type FxRateStore,
+} from '@/lib/exchange-rates';
 
 type AssistantRequestPayload = {
     message?: string;
@@ -16,14 +34,23 @@ type AssistantRequestPayload = {
         sizeBytes?: number;
         extraction?: unknown;
     };
+    // Sent when the user reports in real terms; summaries are then also given in pesos of `base_month`.
+    realTerms?: {
+        series?: string;
+        base_month?: string;
+    };
 };
 
 type TransactionRow = {
-    type: 'income' | 'expense';
+    id?: string;
+    type: 'income' | 'expense' | 'transfer';
     amount: number;
     category: string;
     description: string;
     date: string;
+    currency?: 'ARS' | 'USD' | null;
+    original_amount?: number | null;
+    fx_rate?: number | null;
 };
 
 type QuickAction =
@@ -67,7 +94,7 @@ type QuickAction =
     };
 
 type AppliedAction = {
-    type: 'transaction' | 'debt' | 'obligation';
+    type: 'transaction' | 'debt' | 'obligation' | 'installment_plan';
     id: string;
     summary: string;
 };
@@ -586,29 +613,24 @@ function cardSpecificExtraPercent(cardBrand: 'visa' | 'mastercard' | 'amex' | 'u
     return 0;
 }
 
-async function fetchJsonWithTimeout(url: string, timeoutMs = 3500) {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), timeoutMs);
-
-    try {
-        const response = await fetch(url, {
-            method: 'GET',
-            cache: 'no-store',
-            signal: controller.signal,
-        });
+type UsdRateSources = {
+    store: FxRateStore | null;
+    provider: ExchangeRateProvider;
+};
 
-        if (!response.ok) return null;
-        return await response.json().catch(() => null);
-    } finally {
-        clearTimeout(timeout);
-    }
+function createUsdRateSources(supabase: SupabaseClient, spaceId: string): UsdRateSources {
+    return {
+        store: createSupabaseFxRateStore(supabase, spaceId),
+        provider: createDefaultRateProvider(),
+    };
 }
 
 async function convertUsdToArs(params: {
     usdAmount: number;
     cardBrand: 'visa' | 'mastercard' | 'amex' | 'unknown';
+    rates: UsdRateSources;
 }) {
-    const { usdAmount, cardBrand } = params;
+    const { usdAmount, cardBrand, rates } = params;
 
     if (usdAmount <= 0) {
         return {
@@ -620,27 +642,23 @@ async function convertUsdToArs(params: {
         };
     }
 
-    const cardRateResponse = await fetchJsonWithTimeout('https://dolarapi.com/v1/dolares/tarjeta');
-    const apiCardRate = Number(cardRateResponse?.venta);
+    const cardQuote = await getExchangeRate({ ...rates, request: { rateType: 'tarjeta' } });
     const cardExtra = cardSpecificExtraPercent(cardBrand);
 
-    if (Number.isFinite(apiCardRate) && apiCardRate > 0) {
-        const effectiveRate = apiCardRate * (1 + cardExtra / 100);
+    if (cardQuote) {
+        const effectiveRate = cardQuote.sell * (1 + cardExtra / 100);
         return {
             arsAmount: usdAmount * effectiveRate,
             rateUsed: effectiveRate,
-            source: 'dolarapi_tarjeta',
+            source: cardQuote.source,
             taxesAppliedPercent: cardExtra,
             cardBrand,
         };
     }
 
-    const officialRateResponse = await fetchJsonWithTimeout('https://dolarapi.com/v1/dolares/oficial');
-    const apiOfficialRate = Number(officialRateResponse?.venta);
-    const fallbackOfficialRate = parseEnvNumber(process.env.ARG_USD_OFFICIAL_RATE, 1250);
-    const officialRate = Number.isFinite(apiOfficialRate) && apiOfficialRate > 0
-        ? apiOfficialRate
-        : fallbackOfficialRate;
+    // The chain ends in the env fallback, which is never persisted: a later request can still store the real quote.
+    const officialQuote = await getExchangeRate({ ...rates, request: { rateType: 'oficial' } });
+    const officialRate = officialQuote?.sell ?? 0;
 
     const taxesPercent = getDefaultTaxPercent() + cardExtra;
     const effectiveRate = officialRate * (1 + taxesPercent / 100);
@@ -648,7 +666,7 @@ async function convertUsdToArs(params: {
     return {
         arsAmount: usdAmount * effectiveRate,
         rateUsed: effectiveRate,
-        source: Number.isFinite(apiOfficialRate) && apiOfficialRate > 0 ? 'dolarapi_oficial_plus_taxes' : 'env_fallback_plus_taxes',
+        source: `${officialQuote?.source || 'none'}_plus_taxes`,
         taxesAppliedPercent: taxesPercent,
         cardBrand,
     };
@@ -669,14 +687,13 @@ async function applyDocumentQuickAction(params: {
     const cardBrand = detectCardBrand(message);
     const requiresUsdConversion = entries.some((entry) => entry.currency === 'USD');
     const usdRateInfo = requiresUsdConversion
-        ? await convertUsdToArs({ usdAmount: 1, cardBrand })
+        ? await convertUsdToArs({ usdAmount: 1, cardBrand, rates: createUsdRateSources(supabase, spaceId) })
         : null;
 
-    const insertPayload: Array<{
+    const insertPayload: Array<FxSnapshot & {
         user_id: string;
         space_id: string;
         type: 'income' | 'expense';
-        amount: number;
         category: string;
         description: string;
         date: string;
@@ -686,35 +703,40 @@ async function applyDocumentQuickAction(params: {
     let convertedUsdTotal = 0;
 
     for (const entry of entries) {
-        let amountArs = entry.amount;
-        let description = entry.description;
+        let fxSnapshot: FxSnapshot;
 
         if (entry.currency === 'USD') {
             const rate = usdRateInfo?.rateUsed || 0;
             if (rate <= 0) continue;
-            amountArs = Number((entry.amount * rate).toFixed(2));
+            fxSnapshot = resolveFxSnapshot({
+                currency: 'USD',
+                original_amount: entry.amount,
+                fx_rate: rate,
+                fx_source: usdRateInfo?.source,
+            });
             convertedUsdCount += 1;
             convertedUsdTotal += entry.amount;
-
-            description = `${entry.description} | USD ${entry.amount.toFixed(2)} convertido a ARS (TC ${rate.toFixed(2)}${usdRateInfo?.taxesAppliedPercent ? `, imp. ${usdRateInfo.taxesAppliedPercent.toFixed(1)}%` : ''})`;
+        } else {
+            fxSnapshot = resolveFxSnapshot({ amount: entry.amount });
         }
 
         insertPayload.push({
             user_id: userId,
             space_id: spaceId,
             type: entry.type,
-            amount: amountArs,
+            ...fxSnapshot,
             category: entry.category,
-            description,
+            description: entry.description,
             date: entry.date,
         });
     }
 
     if (!insertPayload.length) return [];
 
+    const categoryRules = await loadCategoryRules(supabase, spaceId);
     const { data: insertedRows, error } = await supabase
         .from('transactions')
-        .insert(insertPayload)
+        .insert(insertPayload.map((row) => withCategoryRules(categoryRules, row)))
         .select('id, type, amount, category');
 
     if (error || !insertedRows?.length) {
@@ -766,6 +788,25 @@ async function applyDocumentQuickAction(params: {
     return summaries;
 }
 
+async function resolveCardIdByBrand(
+    supabase: SupabaseClient,
+    spaceId: string,
+    cardBrand: 'visa' | 'mastercard' | 'amex' | 'unknown'
+) {
+    if (cardBrand === 'unknown') return null;
+
+    const { data, error } = await supabase
+        .from('credit_cards')
+        .select('id')
+        .eq('space_id', spaceId)
+        .eq('is_archived', false)
+        .ilike('card_brand', cardBrand);
+
+    // Only link when the brand points to a single card; otherwise the plan stays unassigned.
+    if (error || data?.length !== 1) return null;
+    return data[0].id as string;
+}
+
 async function applyQuickAction(params: {
     supabase: SupabaseClient;
     userId: string;
@@ -783,9 +824,19 @@ async function applyQuickAction(params: {
         const conversion = await convertUsdToArs({
             usdAmount: payload.upfront_usd_amount,
             cardBrand: payload.card_brand,
+            rates: createUsdRateSources(supabase, spaceId),
         });
 
         const upfrontTotalArs = payload.upfront_ars_amount + conversion.arsAmount;
+        // Mixed ARS + USD down payments are stored in ARS; a USD-only one keeps its original snapshot.
+        const upfrontSnapshot = payload.upfront_ars_amount <= 0 && payload.upfront_usd_amount > 0
+            ? resolveFxSnapshot({
+                currency: 'USD',
+                original_amount: payload.upfront_usd_amount,
+                fx_rate: conversion.rateUsed,
+                fx_source: conversion.source,
+            })
+            : null;
 
         if (payload.was_paid_now && upfrontTotalArs > 0) {
             const descriptionSegments = [
@@ -804,7 +855,7 @@ async function applyQuickAction(params: {
                     user_id: userId,
                     space_id: spaceId,
                     type: 'expense',
-                    amount: Number(upfrontTotalArs.toFixed(2)),
+                    ...(upfrontSnapshot || resolveFxSnapshot({ amount: upfrontTotalArs })),
                     category: 'Tarjeta',
                     description: descriptionSegments,
                     date: payload.paid_date,
@@ -841,7 +892,54 @@ async function applyQuickAction(params: {
             });
         }
 
+        let planCreated = false;
         if (payload.future_installments > 0 && payload.future_installment_amount_ars > 0) {
+            const billedThrough = Math.max(0, payload.total_installments - payload.future_installments);
+            const cardId = await resolveCardIdByBrand(supabase, spaceId, payload.card_brand);
+            const { plan, charges, error: planError } = await createInstallmentPlan(supabase, spaceId, userId, {
+                card_id: cardId,
+                description: payload.plan_name,
+                purchase_date: payload.paid_date,
+                // The next pending cuota falls one month after the message date.
+                first_charge_date: addMonthsIsoDate(payload.paid_date, 1 - billedThrough),
+                total_installments: payload.total_installments,
+                installment_amount: payload.future_installment_amount_ars,
+                currency: 'ARS',
+                billed_through: billedThrough,
+                source: 'assistant',
+            });
+
+            if (plan) {
+                planCreated = true;
+                await recordAuditEvent({
+                    supabase,
+                    userId,
+                    spaceId,
+                    entityType: 'installment_plan',
+                    entityId: plan.id,
+                    action: 'create',
+                    afterData: plan,
+                    metadata: {
+                        source: 'assistant_installment_plan',
+                        charges: charges.length,
+                    },
+                });
+
+                actions.push({
+                    type: 'installment_plan',
+                    id: plan.id,
+                    summary: `Plan en cuotas creado: ${payload.future_installments} cuota(s) pendientes de ${formatMoney(payload.future_installment_amount_ars)}${cardId ? ' en tu tarjeta' : ''}.`,
+                });
+            } else if (!isMissingInstallmentsTableError(planError)) {
+                logWarn('assistant_installment_plan_create_warning', {
+                    userId,
+                    reason: planError || 'No se pudo crear el plan de cuotas',
+                });
+            }
+        }
+
+        // Without the installments module the pending cuotas are kept as a debt plus one obligation per month.
+        if (!planCreated && payload.future_installments > 0 && payload.future_installment_amount_ars > 0) {
             const totalFutureAmount = payload.future_installments * payload.future_installment_amount_ars;
             const nextPaymentDate = addMonthsIsoDate(payload.paid_date, 1);
 
@@ -921,38 +1019,40 @@ async function applyQuickAction(params: {
     }
 
     if (detectedAction.type === 'transaction') {
-        let persistedAmount = detectedAction.payload.amount;
-        let convertedDescriptionSuffix = '';
+        let fxSnapshot = resolveFxSnapshot({ amount: detectedAction.payload.amount });
         let fxMetadata: Record<string, unknown> | null = null;
 
         if (detectedAction.payload.currency === 'USD') {
             const conversion = await convertUsdToArs({
                 usdAmount: detectedAction.payload.amount,
                 cardBrand: detectedAction.payload.card_brand || detectCardBrand(message),
+                rates: createUsdRateSources(supabase, spaceId),
+            });
+            fxSnapshot = resolveFxSnapshot({
+                currency: 'USD',
+                original_amount: detectedAction.payload.amount,
+                fx_rate: conversion.rateUsed,
+                fx_source: conversion.source,
             });
-            persistedAmount = Number(conversion.arsAmount.toFixed(2));
-            convertedDescriptionSuffix = ` | USD ${detectedAction.payload.amount.toFixed(2)} convertido a ARS (TC ${conversion.rateUsed.toFixed(2)}${conversion.taxesAppliedPercent ? `, imp. ${conversion.taxesAppliedPercent.toFixed(1)}%` : ''})`;
             fxMetadata = {
-                source: conversion.source,
-                rate: conversion.rateUsed,
                 taxes_percent: conversion.taxesAppliedPercent,
                 card_brand: conversion.cardBrand,
-                original_currency: 'USD',
-                original_amount: detectedAction.payload.amount,
             };
         }
+        const persistedAmount = fxSnapshot.amount;
 
+        const categoryRules = await loadCategoryRules(supabase, spaceId);
         const { data, error } = await supabase
             .from('transactions')
-            .insert({
+            .insert(withCategoryRules(categoryRules, {
                 type: detectedAction.payload.type,
-                amount: persistedAmount,
-                description: `${detectedAction.payload.description}${convertedDescriptionSuffix}`,
+                ...fxSnapshot,
+                description: detectedAction.payload.description,
                 category: detectedAction.payload.category,
                 date: detectedAction.payload.date,
                 user_id: userId,
                 space_id: spaceId,
-            })
+            }))
             .select()
             .single();
 
@@ -1172,10 +1272,15 @@ export async function POST(req: Request) {
             obligationsResult,
             budgetsResult,
             recurringResult,
+            accountsResult,
+            movementsResult,
+            assetsResult,
+            investments,
+            categories,
         ] = await Promise.all([
             supabase
                 .from('transactions')
-                .select('type, amount, category, description, date')
+                .select('id, type, amount, category, description, date, currency, original_amount, fx_rate')
                 .eq('space_id', activeSpaceId)
                 .order('date', { ascending: false })
                 .limit(300),
@@ -1191,7 +1296,7 @@ export async function POST(req: Request) {
                 .order('created_at', { ascending: false }),
             supabase
                 .from('obligations')
-                .select('id, title, amount, due_date, status, category, minimum_payment')
+                .select('*')
                 .eq('space_id', activeSpaceId)
                 .order('due_date', { ascending: true }),
             supabase
@@ -1205,6 +1310,20 @@ export async function POST(req: Request) {
                 .eq('space_id', activeSpaceId)
                 .eq('is_active', true)
                 .order('next_run', { ascending: true }),
+            supabase
+                .from('accounts')
+                .select('id, name, kind, currency, opening_balance, opening_date, is_default, is_archived')
+                .eq('space_id', activeSpaceId)
+                .eq('is_archived', false),
+            // Account balances need every movement, not just the recent window used for the rest of the context.
+            loadAccountMovements(supabase as any, activeSpaceId),
+            supabase
+                .from('assets')
+                .select('id, name, asset_class, valuation_mode, currency, value, account_id, is_archived')
+                .eq('space_id', activeSpaceId)
+                .eq('is_archived', false),
+            loadHoldingValuations(supabase as any, activeSpaceId, new Date().toISOString().slice(0, 10)),
+            loadCategories(supabase as any, activeSpaceId),
         ]);
 
         if (transactionsResult.error) logWarn('assistant_transactions_query_warning', { ...logContext, userId: user.id, reason: transactionsResult.error.message });
@@ -1213,11 +1332,28 @@ export async function POST(req: Request) {
         if (obligationsResult.error) logWarn('assistant_obligations_query_warning', { ...logContext, userId: user.id, reason: obligationsResult.error.message });
         if (budgetsResult.error) logWarn('assistant_budgets_query_warning', { ...logContext, userId: user.id, reason: budgetsResult.error.message });
         if (recurringResult.error) logWarn('assistant_recurring_query_warning', { ...logContext, userId: user.id, reason: recurringResult.error.message });
+        if (accountsResult.error) logWarn('assistant_accounts_query_warning', { ...logContext, userId: user.id, reason: accountsResult.error.message });
+        if (movementsResult.error) logWarn('assistant_movements_query_warning', { ...logContext, userId: user.id, reason: movementsResult.error.message });
+        if (assetsResult.error && !isMissingNetWorthTableError(assetsResult.error.message)) {
+            logWarn('assistant_assets_query_warning', { ...logContext, userId: user.id, reason: assetsResult.error.message });
+        }
 
         const transactions = (transactionsResult.data || []) as TransactionRow[];
         const debts = (debtsResult.data || []) as any[];
         const goals = (goalsResult.data || []) as any[];
-        const obligations = (obligationsResult.data || []) as any[];
+        // Past due obligations count with their late charges, as in the calendar.
+        const today = new Date().toISOString().slice(0, 10);
+        const obligations = ((obligationsResult.data || []) as any[]).map((obligation) => ({
+            id: obligation.id,
+            title: obligation.title,
+            amount: obligation.amount,
+            due_date: obligation.due_date,
+            status: obligation.status,
+            category: obligation.category,
+            minimum_payment: obligation.minimum_payment,
+            late_charges: lateCharges(obligation, today).total,
+            amount_due: obligationAmountDue(obligation, today),
+        }));
         const budgets = (budgetsResult.data || []) as any[];
         const recurring = (recurringResult.data || []) as any[];
 
@@ -1227,30 +1363,69 @@ export async function POST(req: Request) {
         const totalExpenses = transactions
             .filter((transaction) => transaction.type === 'expense')
             .reduce((accumulator, transaction) => accumulator + parseNumber(transaction.amount), 0);
-        const balance = totalIncome - totalExpenses;
+        const movements = movementsResult.data || [];
+        const rateLookup = buildSnapshotRateLookup(movements);
+        const accountBalances = computeAccountBalances((accountsResult.data || []) as AccountRow[], movements, rateLookup);
+        const accounts = accountBalances
+            .map((account) => ({
+                name: account.name,
+                kind: account.kind,
+                currency: normalizeCurrency(account.currency),
+                balance: account.balance,
+                balanceArs: convertAccountBalance(account.balance, normalizeCurrency(account.currency), 'ARS', rateLookup),
+                isDefault: Boolean(account.is_default),
+            }));
+        // With accounts the balance is the sum of what each one holds; without them, the old income - expense proxy.
+        const balance = accounts.length
+            ? accounts.reduce((accumulator, account) => accumulator + (account.balanceArs ?? 0), 0)
+            : totalIncome - totalExpenses;
+        const usdTransactions = transactions.filter((transaction) => transaction.currency === 'USD');
+        const usdOriginalTotal = usdTransactions.reduce(
+            (accumulator, transaction) => accumulator + parseNumber(transaction.original_amount),
+            0
+        );
 
         const activeDebts = debts.filter((debt) => parseNumber(debt.total_amount) > 0 && parseNumber(debt.remaining_installments) > 0);
-        const pendingObligations = obligations.filter((obligation) => obligation.status === 'pending');
+        const pendingObligations = obligations.filter((obligation) => obligation.status === 'pending' || obligation.status === 'overdue');
         const overdueObligations = pendingObligations.filter((obligation) => {
             const days = daysUntil(obligation.due_date);
             return days !== null && days < 0;
         });
         const totalActiveDebt = activeDebts.reduce((accumulator, debt) => accumulator + parseNumber(debt.total_amount), 0);
-        const totalPendingObligations = pendingObligations.reduce((accumulator, obligation) => accumulator + parseNumber(obligation.amount), 0);
-        const netWorthProxy = balance - totalActiveDebt;
+        const totalPendingObligations = pendingObligations.reduce((accumulator, obligation) => accumulator + obligation.amount_due, 0);
+        // Accounts, assets (property, vehicles, investments, USD), holdings and debts, as on the Patrimonio page.
+        const netWorth = computeNetWorth({
+            accounts: accountBalances,
+            assets: (assetsResult.data || []) as AssetRow[],
+            debts: activeDebts as NetWorthDebtRow[],
+            investments,
+            currency: 'ARS',
+            lookup: rateLookup,
+            asOf: new Date().toISOString().slice(0, 10),
+        });
         const liquidityAfterObligations = balance - totalPendingObligations;
 
         const monthExpenses = transactions.filter(
             (transaction) => transaction.type === 'expense' && typeof transaction.date === 'string' && transaction.date.startsWith(month)
         );
-        const spentByCategory = monthExpenses.reduce<Record<string, number>>((accumulator, transaction) => {
-            const key = String(transaction.category || 'otros').toLowerCase();
-            accumulator[key] = (accumulator[key] || 0) + parseNumber(transaction.amount);
+        // Split tickets count towards each line's category.
+        const monthSplits = await loadSplitsByTransaction(
+            supabase as any,
+            activeSpaceId,
+            monthExpenses.map((transaction) => transaction.id).filter((id): id is string => Boolean(id))
+        );
+        const monthExpenseLines = attachSplits(monthExpenses, monthSplits).flatMap((transaction) => expandSplitRows(transaction));
+        // Each expense also counts towards its parent categories, so a budget on "Alimentación" covers "Supermercado".
+        const lineageOf = createCategoryLineage(categories);
+        const spentByCategory = monthExpenseLines.reduce<Record<string, number>>((accumulator, transaction) => {
+            for (const key of lineageOf(transaction.category || 'otros')) {
+                accumulator[key] = (accumulator[key] || 0) + parseNumber(transaction.amount);
+            }
             return accumulator;
         }, {});
 
         const budgetUsage = budgets.map((budget) => {
-            const categoryKey = String(budget.category || 'otros').toLowerCase();
+            const categoryKey = normalizeCategoryName(budget.category || 'otros');
             const spent = spentByCategory[categoryKey] || 0;
             const limitAmount = parseNumber(budget.limit_amount);
             const usage = limitAmount > 0 ? (spent / limitAmount) * 100 : 0;
@@ -1266,13 +1441,61 @@ export async function POST(req: Request) {
             };
         });
 
+        const realTermsSettings = body.realTerms ? parseRealTermsSettings({ ...body.realTerms, enabled: true }) : null;
+        const deflator = realTermsSettings
+            ? buildDeflator(await loadIndexValues(supabase, activeSpaceId, [realTermsSettings.series]), realTermsSettings)
+            : null;
+        const monthlyTotals = new Map<string, { income: number; expense: number; income_real: number; expense_real: number }>();
+        if (deflator) {
+            for (const transaction of transactions) {
+                if (typeof transaction.date !== 'string' || (transaction.type !== 'income' && transaction.type !== 'expense')) continue;
+                const key = transaction.date.slice(0, 7);
+                const totals = monthlyTotals.get(key) || { income: 0, expense: 0, income_real: 0, expense_real: 0 };
+                const amount = parseNumber(transaction.amount);
+                totals[transaction.type] += amount;
+                totals[`${transaction.type}_real`] += deflateAmount(amount, transaction.date, deflator);
+                monthlyTotals.set(key, totals);
+            }
+        }
+        const realTerms = deflator
+            ? {
+                series: deflator.series,
+                base_month: deflator.base_month,
+                base_value: deflator.base.value,
+                monthly: Array.from(monthlyTotals.entries())
+                    .sort(([a], [b]) => b.localeCompare(a))
+                    .slice(0, 6)
+                    .map(([key, totals]) => {
+                        // Months without CPI have no real figures rather than nominal ones passed off as real.
+                        const factor = deflator.factorFor(`${key}-01`);
+                        return {
+                            month: key,
+                            deflator: factor != null ? Number(factor.toFixed(4)) : null,
+                            income: Number(totals.income.toFixed(2)),
+                            expense: Number(totals.expense.toFixed(2)),
+                            income_real: factor != null ? Number(totals.income_real.toFixed(2)) : null,
+                            expense_real: factor != null ? Number(totals.expense_real.toFixed(2)) : null,
+                        };
+                    }),
+                budgets: deflator.factorFor(`${month}-01`) != null
+                    ? budgetUsage.slice(0, 20).map((budget) => ({
+                        category: budget.category,
+                        spent_real: Number(deflateAmount(budget.spent, `${month}-01`, deflator).toFixed(2)),
+                        limit_real: Number(deflateAmount(budget.limit_amount, `${month}-01`, deflator).toFixed(2)),
+                    }))
+                    : [],
+                missing_months: missingDeflatorMonths(deflator, Array.from(monthlyTotals.keys())),
+            }
+            : null;
+
         const reminders: string[] = [];
 
         for (const obligation of pendingObligations.slice(0, 8)) {
             const days = daysUntil(obligation.due_date);
             if (days === null) continue;
             if (days < 0) {
-                reminders.push(`⚠️ ${obligation.title} está vencida por ${Math.abs(days)} día(s) (${formatMoney(parseNumber(obligation.amount))}).`);
+                const charges = obligation.late_charges > 0 ? `, incluye ${formatMoney(obligation.late_charges)} de recargo` : '';
+                reminders.push(`⚠️ ${obligation.title} está vencida por ${Math.abs(days)} día(s) (${formatMoney(obligation.amount_due)}${charges}).`);
                 continue;
             }
             if (days <= 7) {
@@ -1296,6 +1519,12 @@ export async function POST(req: Request) {
             reminders.push(`🔁 ${item.description} se ejecuta en ${days} día(s) por ${formatMoney(parseNumber(item.amount))}.`);
         }
 
+        for (const deposit of investments.filter((item) => item.kind === 'plazo_fijo' && item.status === 'active')) {
+            const days = daysUntil(String(deposit.maturity_date));
+            if (days === null || days < 0 || days > 7) continue;
+            reminders.push(`🏦 Vence el plazo fijo ${deposit.name} en ${days} día(s), intereses ${formatMoney(deposit.interest || 0)}${deposit.currency !== 'ARS' ? ` ${deposit.currency}` : ''}.`);
+        }
+
         const assistantContext = {
             summary: {
                 balance,
@@ -1303,20 +1532,39 @@ export async function POST(req: Request) {
                 totalExpenses,
                 totalActiveDebt,
                 totalPendingObligations,
-                netWorthProxy,
+                netWorth: netWorth.net_worth,
+                netWorthAssets: netWorth.assets,
+                netWorthLiabilities: netWorth.liabilities,
                 liquidityAfterObligations,
+                baseCurrency: 'ARS',
+                usdMovementsCount: usdTransactions.length,
+                usdMovementsOriginalTotal: Number(usdOriginalTotal.toFixed(2)),
                 overdueObligations: overdueObligations.length,
                 pendingObligationsCount: pendingObligations.length,
                 activeDebtsCount: activeDebts.length,
                 goalsCount: goals.length,
             },
+            accounts,
             debts: activeDebts.slice(0, 15),
             obligations: obligations.slice(0, 20),
             budgets: budgetUsage.slice(0, 20),
             recurring: recurring.slice(0, 20),
             goals: goals.slice(0, 20),
+            investments: investments.slice(0, 20).map((holding) => ({
+                name: holding.name,
+                kind: holding.kind,
+                symbol: holding.symbol,
+                currency: holding.currency,
+                quantity: holding.quantity,
+                costBasis: holding.cost_basis,
+                marketValue: holding.market_value,
+                unrealized: holding.unrealized,
+                maturityDate: holding.maturity_date,
+                interest: holding.interest,
+            })),
             recentTransactions: transactions.slice(0, 40),
             reminders: reminders.slice(0, 12),
+            realTerms,
             actionsApplied,
             attachedDocument: documentContext,
         };
@@ -1330,6 +1578,7 @@ Reglas de veracidad:
 - NO inventes montos, fechas, entidades o movimientos del usuario.
 - Si falta un dato del usuario, dilo explícitamente y pregunta lo mínimo necesario.
 - Puedes dar recomendaciones generales (educativas) cuando falte información, pero acláralo como general.
+- Si "realTerms" no es null, el usuario pidió ver montos reales: al comparar meses o presupuestos usa los campos *_real (pesos constantes de realTerms.base_month, deflactados con realTerms.series) y menciona el mes base. Los meses de realTerms.missing_months no tienen índice cargado: no los compares en términos reales y avisá que faltan esos valores.
 
 Modo Analista de Resumen de Tarjeta (cuando haya adjunto):
 - Si "attachedDocument.extraction.type" es "credit_card", actúa como Analista de Finanzas Personales especializado en optimización de flujo de caja y gestión de deuda.
@@ -1347,6 +1596,8 @@ Cómo responder:
 
 Si "actionsApplied" viene con elementos, confirma claramente qué se registró automáticamente.
 Si "attachedDocument" existe, úsalo como fuente principal de contexto documental (y menciona qué detectaste del documento).
+Si "accounts" trae cuentas, usa sus saldos ("balance" en la moneda de cada cuenta) para hablar de liquidez; las transferencias entre cuentas no son ingresos ni gastos.
+Si "investments" trae tenencias, "marketValue" ya está sumado en "summary.netWorth"; un plazo fijo no es liquidez hasta su "maturityDate" y al vencer acredita "interest" como ingreso.
 
 Prioriza:
 - vencimientos próximos o vencidos
@@ -1357,7 +1608,7 @@ Prioriza:
 Guía adicional para Resumen de Tarjeta:
 - Empieza con una extracción estructurada (Emisor/Marca, Totales ARS/USD, Vencimiento, Pago mínimo, TNA/TEA/CFT, Límite disponible).
 - Cuotas y "arrastre" 3-6 meses: si existe "installment_projection" úsalo; si no, estima usando "installments" (monto por cuota x cuotas restantes).
-- Recomendación por escenarios (usa "summary.netWorthProxy" y "summary.liquidityAfterObligations" como proxy de patrimonio/liquidez; si no alcanza, pregunta "¿cuánto efectivo/ahorros tenés disponibles para pagar hoy?"):
+- Recomendación por escenarios (usa "summary.netWorth" (con su desglose por tipo de activo y pasivo) y "summary.liquidityAfterObligations" para patrimonio/liquidez; los inmuebles y vehículos no son liquidez; si no alcanza, pregunta "¿cuánto efectivo/ahorros tenés disponibles para pagar hoy?"):
   - Alta liquidez: si el usuario puede cubrir el total, prioriza "Pago total" (evita intereses; más aún si CFT es alto).
   - Liquidez media: si cubrir el total aprieta, sugiere pagar mínimo + extra y buscar planes/promos a 0% (si existen) para reemplazar financiamiento caro.
   - Baja liquidez: prioriza evitar mora (pago mínimo), reduce gastos y compara alternativas de financiamiento más baratas que el CFT de la tarjeta si las hay.
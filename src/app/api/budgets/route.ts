@@ -4,6 +4,9 @@ import { BudgetInputSchema } from '@/lib/schemas';
 import { createRequestContext, logError, logInfo, logWarn } from '@/lib/observability';
 import { recordAuditEvent } from '@/lib/audit';
 import { ensureActiveSpace } from '@/lib/spaces';
+import { buildSnapshotRateLookup, normalizeCurrency, sumInReportingCurrency, type CurrencyCode, type FxRateLookup } from '@/lib/currency';
+import { createCategoryLineage, loadCategories, normalizeCategoryName } from '@/lib/categories';
+import { attachSplits, expandSplitRows, loadSplitsByTransaction } from '@/lib/splits';
 
 function getMonthRange(month: string) {
     const [year, monthPart] = month.split('-').map(Number);
@@ -63,7 +66,7 @@ export async function GET(req: Request) {
 
         const { data: transactions, error: txError } = await supabase
             .from('transactions')
-            .select('category, amount, type, date')
+            .select('id, category, amount, type, date, currency, original_amount, fx_rate')
             .eq('space_id', activeSpaceId)
             .eq('type', 'expense')
             .gte('date', startDate)
@@ -71,18 +74,61 @@ export async function GET(req: Request) {
 
         if (txError) return NextResponse.json({ error: txError.message }, { status: 500 });
 
-        const spentByCategory = new Map<string, number>();
-        (transactions || []).forEach((transaction: any) => {
-            const previous = spentByCategory.get(transaction.category) || 0;
-            spentByCategory.set(transaction.category, previous + Number(transaction.amount || 0));
-        });
+        // A split ticket counts towards each line's category.
+        const splitsByTransaction = await loadSplitsByTransaction(
+            supabase as any,
+            activeSpaceId,
+            (transactions || []).map((transaction: any) => transaction.id)
+        );
+        const expenseRows = attachSplits(transactions || [], splitsByTransaction).flatMap((transaction: any) => expandSplitRows(transaction));
+
+        // A budget on a parent category rolls up the spending of its subcategories; names match ignoring case and accents.
+        const lineageOf = createCategoryLineage(await loadCategories(supabase as any, activeSpaceId));
+
+        // Spending is converted into each budget's currency with the snapshots stored on the movements, or with the
+        // official quote stored for the month when no movement carries one.
+        const snapshotLookup = buildSnapshotRateLookup(expenseRows);
+        let quoteLookup: FxRateLookup = () => null;
+        if ((budgets || []).some((budget: any) => normalizeCurrency(budget.currency) !== 'ARS')) {
+            const { data: quotes, error: quotesError } = await supabase
+                .from('fx_rates')
+                .select('currency, rate_date, sell')
+                .eq('space_id', activeSpaceId)
+                .eq('rate_type', 'oficial')
+                .lte('rate_date', endDate)
+                .order('rate_date', { ascending: false })
+                .limit(62);
+            if (quotesError) {
+                logWarn('budgets_fx_rates_load_failed', { ...context, userId: session.user.id, reason: quotesError.message });
+            }
+            quoteLookup = buildSnapshotRateLookup((quotes || []).map((quote: any) => ({
+                amount: 0,
+                date: quote.rate_date,
+                currency: quote.currency,
+                fx_rate: quote.sell,
+            })));
+        }
+        const rateLookup: FxRateLookup = (currency, date) => snapshotLookup(currency, date) ?? quoteLookup(currency, date);
+
+        // Movements still without a rate are counted so the budget can be flagged as incomplete.
+        const spentByCategoryAndCurrency = new Map<string, { total: number; missingRates: number }>();
+        const spentFor = (category: string, currency: CurrencyCode) => {
+            const categoryKey = normalizeCategoryName(category);
+            const key = `${categoryKey}|${currency}`;
+            if (!spentByCategoryAndCurrency.has(key)) {
+                const rows = expenseRows.filter((transaction: any) => lineageOf(transaction.category).includes(categoryKey));
+                spentByCategoryAndCurrency.set(key, sumInReportingCurrency(rows, currency, rateLookup));
+            }
+            return spentByCategoryAndCurrency.get(key) || { total: 0, missingRates: 0 };
+        };
 
         const enriched = (budgets || []).map((budget: any) => {
-            const spent = spentByCategory.get(budget.category) || 0;
+            const { total: spent, missingRates } = spentFor(budget.category, normalizeCurrency(budget.currency));
             const usage = budget.limit_amount > 0 ? (spent / budget.limit_amount) * 100 : 0;
             return {
                 ...budget,
                 spent,
+                missingRates,
                 remaining: Math.max(0, Number(budget.limit_amount) - spent),
                 usage,
                 isAlert: usage >= Number(budget.alert_threshold || 80),
@@ -2,6 +2,11 @@ import { NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase-server';
 import { ensureActiveSpace } from '@/lib/spaces';
 import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { projectCommittedByMonth, type InstallmentChargeRow } from '@/lib/installments';
+import { buildIndexLookup, loadIndexValues } from '@/lib/indexes';
+import { depositInterest } from '@/lib/investments';
+import { lateCharges } from '@/lib/obligations';
+import { describeRecurrence, expandRecurrence, recurrenceAmountFactor, recurrenceIndexSeries, resolveRecurrence } from '@/lib/recurrence';
 
 type CalendarItem =
     | {
@@ -13,6 +18,9 @@ type CalendarItem =
         status: 'pending' | 'overdue' | 'paid' | string;
         category: string | null;
         minimum_payment: number | null;
+        // Late fee and interest already included in `amount`.
+        late_charges: number;
+        days_overdue: number;
     }
     | {
         kind: 'debt';
@@ -32,6 +40,27 @@ type CalendarItem =
         type: 'income' | 'expense' | string;
         frequency: string;
         category: string | null;
+    }
+    | {
+        kind: 'installment';
+        id: string;
+        plan_id: string;
+        title: string;
+        amount: number;
+        currency: string;
+        due_date: string;
+        installment_number: number;
+        total_installments: number;
+    }
+    | {
+        kind: 'maturity';
+        id: string;
+        title: string;
+        amount: number;
+        currency: string;
+        due_date: string;
+        principal: number;
+        interest: number;
     };
 
 function isoToday() {
@@ -72,11 +101,13 @@ export async function GET(req: Request) {
 
         const from = isoToday();
         const to = addDaysIso(from, days);
+        const currentMonth = from.slice(0, 7);
 
-        const [obligationsResult, debtsResult, recurringResult] = await Promise.all([
+        const [obligationsResult, debtsResult, recurringResult, installmentsResult, depositsResult] = await Promise.all([
             supabase
                 .from('obligations')
-                .select('id, title, amount, due_date, status, category, minimum_payment')
+                // All columns: the late fee ones only exist after supabase-late-fees.sql.
+                .select('*')
                 .eq('space_id', activeSpaceId)
                 .in('status', ['pending', 'overdue'])
                 .lte('due_date', to)
@@ -91,29 +122,64 @@ export async function GET(req: Request) {
                 .limit(800),
             supabase
                 .from('recurring_transactions')
-                .select('id, type, amount, description, category, frequency, next_run, is_active')
+                .select('*')
                 .eq('space_id', activeSpaceId)
                 .eq('is_active', true)
                 .lte('next_run', to)
                 .order('next_run', { ascending: true })
                 .limit(800),
+            // Also feeds the committed projection, so it reaches past `to`.
+            supabase
+                .from('installment_charges')
+                .select('id, plan_id, installment_number, due_date, amount, currency, status, installment_plans(description, total_installments)')
+                .eq('space_id', activeSpaceId)
+                .neq('status', 'cancelled')
+                .gte('due_date', `${currentMonth}-01`)
+                .order('due_date', { ascending: true })
+                .limit(2000),
+            supabase
+                .from('investment_holdings')
+                .select('id, name, currency, principal, tna, start_date, maturity_date')
+                .eq('space_id', activeSpaceId)
+                .eq('kind', 'plazo_fijo')
+                .eq('status', 'active')
+                .lte('maturity_date', to)
+                .order('maturity_date', { ascending: true })
+                .limit(800),
         ]);
 
         const obligations = (obligationsResult.data || []) as any[];
         const debts = (debtsResult.data || []) as any[];
         const recurring = (recurringResult.data || []) as any[];
+        // Missing installments tables just leave the calendar without cuotas.
+        const installmentCharges = (installmentsResult.data || []) as any[];
+        const deposits = (depositsResult.data || []) as any[];
+        const upcomingCharges = installmentCharges.filter((row) => (
+            row.status === 'scheduled' && row.due_date >= from && row.due_date <= to
+        ));
+        const indexLookup = buildIndexLookup(
+            await loadIndexValues(supabase as any, activeSpaceId, recurrenceIndexSeries(recurring.map((row) => resolveRecurrence(row))), {
+                until: to,
+            })
+        );
 
         const items: CalendarItem[] = [
-            ...obligations.map((row) => ({
-                kind: 'obligation' as const,
-                id: String(row.id),
-                title: String(row.title || 'Obligación'),
-                amount: toNumber(row.amount),
-                due_date: String(row.due_date),
-                status: row.status,
-                category: row.category ?? null,
-                minimum_payment: row.minimum_payment != null ? toNumber(row.minimum_payment) : null,
-            })),
+            // Overdue obligations show what is owed today, charges included.
+            ...obligations.map((row) => {
+                const charges = lateCharges(row, from);
+                return {
+                    kind: 'obligation' as const,
+                    id: String(row.id),
+                    title: String(row.title || 'Obligación'),
+                    amount: toNumber(row.amount) + charges.total,
+                    due_date: String(row.due_date),
+                    status: row.status,
+                    category: row.category ?? null,
+                    minimum_payment: row.minimum_payment != null ? toNumber(row.minimum_payment) : null,
+                    late_charges: charges.total,
+                    days_overdue: charges.days_overdue,
+                };
+            }),
             ...debts.map((row) => ({
                 kind: 'debt' as const,
                 id: String(row.id),
@@ -123,16 +189,46 @@ export async function GET(req: Request) {
                 category: row.category ?? null,
                 remaining_installments: row.remaining_installments != null ? Number(row.remaining_installments) : null,
             })),
-            ...recurring.map((row) => ({
-                kind: 'recurring' as const,
+            // Every occurrence inside the range, expanded with the same engine the runner uses.
+            ...recurring.flatMap((row) => {
+                const spec = resolveRecurrence(row);
+                const start = String(row.start_date || row.next_run);
+                return expandRecurrence(spec, start, { from: String(row.next_run), to, limit: 120 }).map(({ date }) => ({
+                    kind: 'recurring' as const,
+                    id: String(row.id),
+                    title: String(row.description || 'Recurrente'),
+                    amount: toNumber(row.amount) * recurrenceAmountFactor(spec, start, date, indexLookup),
+                    due_date: date,
+                    type: String(row.type || 'expense'),
+                    frequency: describeRecurrence(spec),
+                    category: row.category ?? null,
+                }));
+            }),
+            ...upcomingCharges.map((row) => ({
+                kind: 'installment' as const,
                 id: String(row.id),
-                title: String(row.description || 'Recurrente'),
+                plan_id: String(row.plan_id),
+                title: String(row.installment_plans?.description || 'Cuota'),
                 amount: toNumber(row.amount),
-                due_date: String(row.next_run),
-                type: String(row.type || 'expense'),
-                frequency: String(row.frequency || 'monthly'),
-                category: row.category ?? null,
+                currency: String(row.currency || 'ARS'),
+                due_date: String(row.due_date),
+                installment_number: Number(row.installment_number),
+                total_installments: Number(row.installment_plans?.total_installments || row.installment_number),
             })),
+            ...deposits.map((row) => {
+                const principal = toNumber(row.principal);
+                const interest = depositInterest(principal, toNumber(row.tna), String(row.start_date), String(row.maturity_date));
+                return {
+                    kind: 'maturity' as const,
+                    id: String(row.id),
+                    title: String(row.name || 'Plazo fijo'),
+                    amount: principal + interest,
+                    currency: String(row.currency || 'ARS'),
+                    due_date: String(row.maturity_date),
+                    principal,
+                    interest,
+                };
+            }),
         ]
             .filter((item) => typeof item.due_date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(item.due_date))
             .sort((a, b) => a.due_date.localeCompare(b.due_date));
@@ -144,6 +240,8 @@ export async function GET(req: Request) {
             obligations: obligations.length,
             debts: debts.length,
             recurring: recurring.length,
+            installments: upcomingCharges.length,
+            deposits: deposits.length,
             total: items.length,
             durationMs: Date.now() - startedAt,
         });
@@ -151,6 +249,7 @@ export async function GET(req: Request) {
         return NextResponse.json({
             range: { from, to, days },
             items,
+            committed: projectCommittedByMonth(installmentCharges as InstallmentChargeRow[], currentMonth),
         });
     } catch (error) {
         logError('calendar_get_exception', error, { ...context, durationMs: Date.now() - startedAt });
@@ -0,0 +1,268 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { CardStatementPaymentSchema } from '@/lib/schemas';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { recordAuditEvent } from '@/lib/audit';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { TRANSFER_CATEGORY, accountsBelongToSpace, ensureDefaultAccount } from '@/lib/accounts';
+import {
+    CARD_PAYMENT_CATEGORY,
+    resolveStatementPaymentStatus,
+    statementAmountDue,
+    statementPaymentType,
+    statementTotal,
+    type CardStatementRow,
+} from '@/lib/credit-cards';
+import { recordPayment, type PaymentRow } from '@/lib/payments';
+
+const ParamsSchema = z.object({
+    id: z.string().uuid('ID de resumen inválido'),
+});
+
+function isoToday() {
+    return new Date().toISOString().split('T')[0];
+}
+
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/card-statements/[id]/pay', 'POST');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de resumen inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const body = await req.json().catch(() => ({}));
+        const validated = CardStatementPaymentSchema.parse(body);
+
+        const { data: statement, error: statementError } = await supabase
+            .from('card_statements')
+            .select('*')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (statementError) return NextResponse.json({ error: statementError.message }, { status: 500 });
+        if (!statement) return NextResponse.json({ error: 'Resumen no encontrado' }, { status: 404 });
+
+        const { data: card, error: cardError } = await supabase
+            .from('credit_cards')
+            .select('*')
+            .eq('id', statement.card_id)
+            .eq('space_id', activeSpaceId)
+            .single();
+
+        if (cardError || !card) return NextResponse.json({ error: 'Tarjeta no encontrada' }, { status: 404 });
+
+        const beforeStatement = statement as CardStatementRow;
+        const amountDue = statementAmountDue(beforeStatement);
+        if (amountDue <= 0) {
+            return NextResponse.json({ error: 'El resumen no tiene saldo pendiente.' }, { status: 409 });
+        }
+
+        const paymentAmount = Number(Math.min(validated.payment_amount ?? amountDue, amountDue).toFixed(2));
+        const paymentDate = validated.payment_date || isoToday();
+
+        const fromAccountId = validated.from_account_id
+            || await ensureDefaultAccount(supabase as any, activeSpaceId, session.user.id);
+        if (!fromAccountId) {
+            return NextResponse.json({ error: 'No se encontró una cuenta desde la cual pagar.' }, { status: 409 });
+        }
+        if (fromAccountId === card.account_id) {
+            return NextResponse.json({ error: 'Elegí una cuenta distinta a la de la tarjeta para pagar.' }, { status: 400 });
+        }
+        const ownsAccounts = await accountsBelongToSpace(supabase as any, activeSpaceId, [fromAccountId]);
+        if (!ownsAccounts) return NextResponse.json({ error: 'Cuenta inválida para este espacio' }, { status: 400 });
+
+        const paymentType = statementPaymentType(beforeStatement);
+        const description = (validated.description || '').trim()
+            || `Pago de resumen ${card.name} (cierre ${beforeStatement.closing_date})`;
+
+        const { data: transaction, error: transactionError } = await supabase
+            .from('transactions')
+            .insert({
+                user_id: session.user.id,
+                space_id: activeSpaceId,
+                type: paymentType,
+                amount: paymentAmount,
+                description,
+                category: paymentType === 'transfer' ? TRANSFER_CATEGORY : CARD_PAYMENT_CATEGORY,
+                date: paymentDate,
+                account_id: fromAccountId,
+                transfer_account_id: paymentType === 'transfer' ? card.account_id : null,
+            })
+            .select()
+            .single();
+
+        if (transactionError || !transaction) {
+            return NextResponse.json(
+                { error: transactionError?.message || 'No se pudo registrar la transacción del pago.' },
+                { status: 500 }
+            );
+        }
+
+        const rollbackTransaction = () => supabase
+            .from('transactions')
+            .delete()
+            .eq('id', transaction.id)
+            .eq('space_id', activeSpaceId);
+
+        const paidAmount = Number((Number(beforeStatement.paid_amount || 0) + paymentAmount).toFixed(2));
+        const { data: updatedStatement, error: updateStatementError } = await supabase
+            .from('card_statements')
+            .update({
+                paid_amount: paidAmount,
+                status: resolveStatementPaymentStatus(statementTotal(beforeStatement), paidAmount),
+            })
+            .eq('id', beforeStatement.id)
+            .eq('space_id', activeSpaceId)
+            .select()
+            .single();
+
+        if (updateStatementError || !updatedStatement) {
+            await rollbackTransaction();
+            return NextResponse.json({ error: updateStatementError?.message || 'No se pudo actualizar el resumen.' }, { status: 500 });
+        }
+
+        let beforeObligation: Record<string, unknown> | null = null;
+        let updatedObligation: Record<string, unknown> | null = null;
+        let payment: PaymentRow | null = null;
+        if (beforeStatement.obligation_id) {
+            const { data: obligation } = await supabase
+                .from('obligations')
+                .select('*')
+                .eq('id', beforeStatement.obligation_id)
+                .eq('space_id', activeSpaceId)
+                .maybeSingle();
+
+            if (obligation && obligation.status !== 'paid') {
+                const remaining = Math.max(Number(obligation.amount || 0) - paymentAmount, 0);
+                const { data: obligationAfter, error: obligationError } = await supabase
+                    .from('obligations')
+                    .update(remaining <= 0
+                        ? { status: 'paid' }
+                        : { status: 'pending', amount: Number(remaining.toFixed(2)) })
+                    .eq('id', obligation.id)
+                    .eq('space_id', activeSpaceId)
+                    .select()
+                    .single();
+
+                if (obligationError || !obligationAfter) {
+                    // Best-effort rollback so the statement and its obligation never disagree.
+                    await supabase
+                        .from('card_statements')
+                        .update({ paid_amount: beforeStatement.paid_amount, status: beforeStatement.status })
+                        .eq('id', beforeStatement.id)
+                        .eq('space_id', activeSpaceId);
+                    await rollbackTransaction();
+
+                    return NextResponse.json({ error: obligationError?.message || 'No se pudo actualizar la obligación.' }, { status: 500 });
+                }
+
+                beforeObligation = obligation;
+                updatedObligation = obligationAfter;
+
+                // The obligation keeps the payment in its history; undoing it also takes it off this statement.
+                payment = await recordPayment(supabase as any, {
+                    spaceId: activeSpaceId,
+                    userId: session.user.id,
+                    kind: 'obligation',
+                    itemId: obligation.id,
+                    transactionId: transaction.id,
+                    amount: paymentAmount,
+                    paymentDate,
+                    balanceBefore: Number(obligation.amount || 0),
+                    balanceAfter: remaining,
+                    before: obligation,
+                });
+            }
+        }
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'transaction',
+            entityId: transaction.id,
+            action: 'create',
+            afterData: transaction,
+            metadata: {
+                source: 'card_statement_payment',
+                statementId: beforeStatement.id,
+            },
+        });
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'card_statement',
+            entityId: beforeStatement.id,
+            action: 'update',
+            beforeData: beforeStatement,
+            afterData: updatedStatement,
+            metadata: {
+                paymentAmount,
+                paymentDate,
+                transactionId: transaction.id,
+            },
+        });
+
+        if (updatedObligation) {
+            await recordAuditEvent({
+                supabase,
+                userId: session.user.id,
+                spaceId: activeSpaceId,
+                entityType: 'obligation',
+                entityId: String(updatedObligation.id),
+                action: 'update',
+                beforeData: beforeObligation,
+                afterData: updatedObligation,
+                metadata: {
+                    source: 'card_statement_payment',
+                    statementId: beforeStatement.id,
+                    transactionId: transaction.id,
+                    paymentId: payment?.id ?? null,
+                },
+            });
+        }
+
+        const remaining = statementAmountDue(updatedStatement as CardStatementRow);
+
+        logInfo('card_statement_paid', {
+            ...context,
+            userId: session.user.id,
+            statementId: beforeStatement.id,
+            transactionId: transaction.id,
+            paymentType,
+            remaining,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({
+            statement: updatedStatement,
+            transaction,
+            obligation: updatedObligation,
+            payment,
+            remaining,
+        });
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('card_statement_pay_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'No se pudo registrar el pago.' }, { status: 400 });
+    }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { ensureActiveSpace } from '@/lib/spaces';
+import {
+    resolveStatementPhase,
+    statementAmountDue,
+    statementTotal,
+    type CardStatementRow,
+} from '@/lib/credit-cards';
+
+const ParamsSchema = z.object({
+    id: z.string().uuid('ID de resumen inválido'),
+});
+
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/card-statements/[id]', 'GET');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de resumen inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const { data: statement, error: statementError } = await supabase
+            .from('card_statements')
+            .select('*')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (statementError) return NextResponse.json({ error: statementError.message }, { status: 500 });
+        if (!statement) return NextResponse.json({ error: 'Resumen no encontrado' }, { status: 404 });
+
+        const { data: lines, error: linesError } = await supabase
+            .from('transactions')
+            .select('*')
+            .eq('space_id', activeSpaceId)
+            .eq('card_statement_id', statement.id)
+            .order('date', { ascending: true });
+
+        if (linesError) return NextResponse.json({ error: linesError.message }, { status: 500 });
+
+        logInfo('card_statement_loaded', {
+            ...context,
+            userId: session.user.id,
+            statementId: statement.id,
+            lines: lines?.length || 0,
+            durationMs: Date.now() - startedAt,
+        });
+
+        const row = statement as CardStatementRow;
+        return NextResponse.json({
+            ...row,
+            total: statementTotal(row),
+            amount_due: statementAmountDue(row),
+            phase: resolveStatementPhase(row),
+            lines: lines || [],
+        });
+    } catch (error) {
+        logError('card_statement_get_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: 'Error al cargar el resumen' }, { status: 500 });
+    }
+}
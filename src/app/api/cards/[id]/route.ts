@@ -0,0 +1,168 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { CreditCardUpdateSchema } from '@/lib/schemas';
+import { recordAuditEvent } from '@/lib/audit';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { assignCardCharges, type CreditCardRow } from '@/lib/credit-cards';
+
+const ParamsSchema = z.object({
+    id: z.string().uuid('ID de tarjeta inválido'),
+});
+
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/cards/[id]', 'PUT');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de tarjeta inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const payload = await req.json();
+        const validated = CreditCardUpdateSchema.parse(payload);
+
+        const { data: existingCard, error: existingError } = await supabase
+            .from('credit_cards')
+            .select('*')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (existingError) return NextResponse.json({ error: existingError.message }, { status: 500 });
+        if (!existingCard) return NextResponse.json({ error: 'Tarjeta no encontrada' }, { status: 404 });
+
+        const { data: updatedCard, error: updateError } = await supabase
+            .from('credit_cards')
+            .update(validated)
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .select('*')
+            .single();
+
+        if (updateError) return NextResponse.json({ error: updateError.message }, { status: 500 });
+
+        // New cycle rules move charges to the statements they now fall into.
+        const rulesChanged = updatedCard.closing_day !== existingCard.closing_day || updatedCard.due_day !== existingCard.due_day;
+        if (rulesChanged) {
+            await assignCardCharges(supabase as any, activeSpaceId, session.user.id, updatedCard as CreditCardRow);
+        }
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'credit_card',
+            entityId: updatedCard.id,
+            action: 'update',
+            beforeData: existingCard,
+            afterData: updatedCard,
+        });
+
+        logInfo('credit_card_updated', {
+            ...context,
+            userId: session.user.id,
+            cardId: updatedCard.id,
+            rulesChanged,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(updatedCard);
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('credit_card_update_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'Datos inválidos' }, { status: 400 });
+    }
+}
+
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/cards/[id]', 'DELETE');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de tarjeta inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const { data: existingCard, error: existingError } = await supabase
+            .from('credit_cards')
+            .select('*')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (existingError) return NextResponse.json({ error: existingError.message }, { status: 500 });
+        if (!existingCard) return NextResponse.json({ error: 'Tarjeta no encontrada' }, { status: 404 });
+
+        const { count: statementsCount, error: countError } = await supabase
+            .from('card_statements')
+            .select('id', { count: 'exact', head: true })
+            .eq('space_id', activeSpaceId)
+            .eq('card_id', existingCard.id);
+
+        if (countError) return NextResponse.json({ error: countError.message }, { status: 500 });
+        if ((statementsCount || 0) > 0) {
+            return NextResponse.json({
+                error: 'La tarjeta tiene resúmenes registrados. Archivala en lugar de eliminarla.',
+            }, { status: 409 });
+        }
+
+        const { error: deleteError } = await supabase
+            .from('credit_cards')
+            .delete()
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId);
+
+        if (deleteError) return NextResponse.json({ error: deleteError.message }, { status: 500 });
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'credit_card',
+            entityId: existingCard.id,
+            action: 'delete',
+            beforeData: existingCard,
+        });
+
+        logInfo('credit_card_deleted', {
+            ...context,
+            userId: session.user.id,
+            cardId: existingCard.id,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({ success: true, id: existingCard.id });
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('credit_card_delete_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'No se pudo eliminar la tarjeta' }, { status: 400 });
+    }
+}
@@ -0,0 +1,201 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { CreditCardInputSchema } from '@/lib/schemas';
+import { createRequestContext, logError, logInfo, logWarn } from '@/lib/observability';
+import { recordAuditEvent } from '@/lib/audit';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { accountsBelongToSpace } from '@/lib/accounts';
+import {
+    assignCardCharges,
+    getStatementCycle,
+    isMissingCardsTableError,
+    resolveStatementPhase,
+    statementAmountDue,
+    statementTotal,
+    type CardStatementRow,
+    type CreditCardRow,
+} from '@/lib/credit-cards';
+
+const STATEMENTS_PER_CARD = 6;
+
+export async function GET(req: Request) {
+    const context = createRequestContext('/api/cards', 'GET');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+        const includeArchived = new URL(req.url).searchParams.get('include_archived') === '1';
+
+        let cardsQuery = supabase
+            .from('credit_cards')
+            .select('*')
+            .eq('space_id', activeSpaceId)
+            .order('created_at', { ascending: true });
+
+        if (!includeArchived) cardsQuery = cardsQuery.eq('is_archived', false);
+
+        const { data: cards, error: cardsError } = await cardsQuery;
+
+        if (cardsError) {
+            if (isMissingCardsTableError(cardsError.message)) {
+                logWarn('credit_cards_table_missing_returning_empty', {
+                    ...context,
+                    userId: session.user.id,
+                    reason: cardsError.message,
+                });
+                return NextResponse.json([]);
+            }
+            return NextResponse.json({ error: cardsError.message }, { status: 500 });
+        }
+
+        const { data: statements, error: statementsError } = await supabase
+            .from('card_statements')
+            .select('*')
+            .eq('space_id', activeSpaceId)
+            .order('closing_date', { ascending: false });
+
+        if (statementsError) return NextResponse.json({ error: statementsError.message }, { status: 500 });
+
+        const today = new Date().toISOString().slice(0, 10);
+        const withStatements = ((cards || []) as CreditCardRow[]).map((card) => ({
+            ...card,
+            current_cycle: getStatementCycle(card, today),
+            statements: ((statements || []) as CardStatementRow[])
+                .filter((statement) => statement.card_id === card.id)
+                .slice(0, STATEMENTS_PER_CARD)
+                .map((statement) => ({
+                    ...statement,
+                    total: statementTotal(statement),
+                    amount_due: statementAmountDue(statement),
+                    phase: resolveStatementPhase(statement, today),
+                })),
+        }));
+
+        logInfo('credit_cards_loaded', {
+            ...context,
+            userId: session.user.id,
+            count: withStatements.length,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(withStatements);
+    } catch (error) {
+        logError('credit_cards_get_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: 'Error al cargar tarjetas' }, { status: 500 });
+    }
+}
+
+export async function POST(req: Request) {
+    const context = createRequestContext('/api/cards', 'POST');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const payload = await req.json();
+        const validated = CreditCardInputSchema.parse(payload);
+
+        // Every card owns an account so its charges can be assigned to statements.
+        let accountId = validated.account_id ?? null;
+        let createdAccountId: string | null = null;
+        if (accountId) {
+            const ownsAccount = await accountsBelongToSpace(supabase as any, activeSpaceId, [accountId]);
+            if (!ownsAccount) return NextResponse.json({ error: 'Cuenta inválida para este espacio' }, { status: 400 });
+        } else {
+            const { data: account, error: accountError } = await supabase
+                .from('accounts')
+                .insert({
+                    space_id: activeSpaceId,
+                    user_id: session.user.id,
+                    name: validated.name,
+                    kind: 'credit_card',
+                    currency: 'ARS',
+                    opening_balance: 0,
+                })
+                .select('id')
+                .single();
+
+            if (accountError || !account) {
+                return NextResponse.json({ error: accountError?.message || 'No se pudo crear la cuenta de la tarjeta' }, { status: 500 });
+            }
+            accountId = account.id as string;
+            createdAccountId = accountId;
+        }
+
+        const { data, error } = await supabase
+            .from('credit_cards')
+            .insert({
+                ...validated,
+                account_id: accountId,
+                user_id: session.user.id,
+                space_id: activeSpaceId,
+            })
+            .select()
+            .single();
+
+        if (error) {
+            if (createdAccountId) {
+                await supabase
+                    .from('accounts')
+                    .delete()
+                    .eq('id', createdAccountId)
+                    .eq('space_id', activeSpaceId);
+            }
+            if (isMissingCardsTableError(error.message)) {
+                return NextResponse.json({
+                    error: 'El módulo de tarjetas no está inicializado en la base.',
+                    hint: 'Ejecuta supabase-cards.sql en Supabase SQL Editor.',
+                }, { status: 503 });
+            }
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+
+        // Charges already recorded on a linked account are grouped into statements right away.
+        const assignedCharges = createdAccountId
+            ? 0
+            : await assignCardCharges(supabase as any, activeSpaceId, session.user.id, data as CreditCardRow);
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'credit_card',
+            entityId: data.id,
+            action: 'create',
+            afterData: data,
+        });
+
+        logInfo('credit_card_created', {
+            ...context,
+            userId: session.user.id,
+            cardId: data.id,
+            assignedCharges,
+            durationMs: Date.now() - startedAt,
+        });
+
+        const today = new Date().toISOString().slice(0, 10);
+        return NextResponse.json({ ...data, current_cycle: getStatementCycle(data, today), statements: [] });
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('credit_card_create_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'Datos inválidos' }, { status: 400 });
+    }
+}
@@ -0,0 +1,176 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { CategoryUpdateSchema } from '@/lib/schemas';
+import { recordAuditEvent } from '@/lib/audit';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { loadCategories, validateCategoryParent } from '@/lib/categories';
+
+const ParamsSchema = z.object({
+    id: z.string().uuid('ID de categoría inválido'),
+});
+
+const CATEGORY_SELECT = 'id, name, parent_id, kind, icon, color, is_archived, created_at';
+
+// Tables whose rows point at a category; a category in use is archived instead of deleted.
+const CATEGORY_USAGE_TABLES = ['transactions', 'budgets', 'recurring_transactions', 'debts'];
+
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/categories/[id]', 'PUT');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de categoría inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const payload = await req.json();
+        const validated = CategoryUpdateSchema.parse(payload);
+
+        const categories = await loadCategories(supabase as any, activeSpaceId);
+        const existingCategory = categories.find((category) => category.id === parsedParams.data.id);
+        if (!existingCategory) return NextResponse.json({ error: 'Categoría no encontrada' }, { status: 404 });
+
+        const kind = validated.kind ?? existingCategory.kind;
+        const parentId = validated.parent_id !== undefined ? validated.parent_id : existingCategory.parent_id;
+        const parentError = validateCategoryParent(categories, { categoryId: existingCategory.id, parentId, kind });
+        if (parentError) return NextResponse.json({ error: parentError }, { status: 400 });
+
+        if (kind !== existingCategory.kind && categories.some((category) => category.parent_id === existingCategory.id)) {
+            return NextResponse.json({ error: 'No se puede cambiar el tipo de una categoría con subcategorías' }, { status: 400 });
+        }
+
+        const { data: updatedCategory, error: updateError } = await supabase
+            .from('categories')
+            .update(validated)
+            .eq('id', existingCategory.id)
+            .eq('space_id', activeSpaceId)
+            .select(CATEGORY_SELECT)
+            .single();
+
+        if (updateError) {
+            if (updateError.code === '23505') {
+                return NextResponse.json({ error: 'Ya existe una categoría con ese nombre' }, { status: 409 });
+            }
+            return NextResponse.json({ error: updateError.message }, { status: 500 });
+        }
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'category',
+            entityId: updatedCategory.id,
+            action: 'update',
+            beforeData: existingCategory,
+            afterData: updatedCategory,
+        });
+
+        logInfo('category_updated', {
+            ...context,
+            userId: session.user.id,
+            categoryId: updatedCategory.id,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(updatedCategory);
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('category_update_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'Datos inválidos' }, { status: 400 });
+    }
+}
+
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/categories/[id]', 'DELETE');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de categoría inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const { data: existingCategory, error: existingError } = await supabase
+            .from('categories')
+            .select(CATEGORY_SELECT)
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (existingError) return NextResponse.json({ error: existingError.message }, { status: 500 });
+        if (!existingCategory) return NextResponse.json({ error: 'Categoría no encontrada' }, { status: 404 });
+
+        const usage = await Promise.all(CATEGORY_USAGE_TABLES.map((table) => (
+            supabase
+                .from(table)
+                .select('id', { count: 'exact', head: true })
+                .eq('space_id', activeSpaceId)
+                .eq('category_id', existingCategory.id)
+        )));
+        const inUse = usage.reduce((total, result) => total + (result.count || 0), 0);
+        if (inUse > 0) {
+            return NextResponse.json({
+                error: `La categoría se usa en ${inUse} registros; archivala para ocultarla sin perder el historial.`,
+            }, { status: 409 });
+        }
+
+        // Subcategories become top-level categories (on delete set null).
+        const { error: deleteError } = await supabase
+            .from('categories')
+            .delete()
+            .eq('id', existingCategory.id)
+            .eq('space_id', activeSpaceId);
+
+        if (deleteError) return NextResponse.json({ error: deleteError.message }, { status: 500 });
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'category',
+            entityId: existingCategory.id,
+            action: 'delete',
+            beforeData: existingCategory,
+        });
+
+        logInfo('category_deleted', {
+            ...context,
+            userId: session.user.id,
+            categoryId: existingCategory.id,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({ success: true, id: existingCategory.id });
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('category_delete_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'No se pudo eliminar la categoría' }, { status: 400 });
+    }
+}
@@ -0,0 +1,121 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { CategoryInputSchema } from '@/lib/schemas';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { recordAuditEvent } from '@/lib/audit';
+import { ensureActiveSpace } from '@/lib/spaces';
+import {
+    ensureSpaceCategories,
+    isMissingCategoriesTableError,
+    loadCategories,
+    validateCategoryParent,
+} from '@/lib/categories';
+
+export async function GET() {
+    const context = createRequestContext('/api/categories', 'GET');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        // Without supabase-categories.sql this resolves to an empty list and the forms fall back to free text.
+        const categories = await ensureSpaceCategories(supabase as any, activeSpaceId, session.user.id);
+
+        logInfo('categories_loaded', {
+            ...context,
+            userId: session.user.id,
+            count: categories.length,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(categories);
+    } catch (error) {
+        logError('categories_get_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: 'Error al cargar categorías' }, { status: 500 });
+    }
+}
+
+export async function POST(req: Request) {
+    const context = createRequestContext('/api/categories', 'POST');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const payload = await req.json();
+        const validated = CategoryInputSchema.parse(payload);
+
+        if (validated.parent_id) {
+            const categories = await loadCategories(supabase as any, activeSpaceId);
+            const parentError = validateCategoryParent(categories, { parentId: validated.parent_id, kind: validated.kind });
+            if (parentError) return NextResponse.json({ error: parentError }, { status: 400 });
+        }
+
+        const { data, error } = await supabase
+            .from('categories')
+            .insert({
+                ...validated,
+                parent_id: validated.parent_id || null,
+                icon: validated.icon || null,
+                color: validated.color || null,
+                space_id: activeSpaceId,
+                user_id: session.user.id,
+            })
+            .select('id, name, parent_id, kind, icon, color, is_archived, created_at')
+            .single();
+
+        if (error) {
+            if (isMissingCategoriesTableError(error.message)) {
+                return NextResponse.json({
+                    error: 'Las categorías no están inicializadas en la base.',
+                    hint: 'Ejecuta supabase-categories.sql en Supabase SQL Editor.',
+                }, { status: 503 });
+            }
+            if (error.code === '23505') {
+                return NextResponse.json({ error: 'Ya existe una categoría con ese nombre' }, { status: 409 });
+            }
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'category',
+            entityId: data.id,
+            action: 'create',
+            afterData: data,
+        });
+
+        logInfo('category_created', {
+            ...context,
+            userId: session.user.id,
+            categoryId: data.id,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(data);
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('category_create_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'Datos inválidos' }, { status: 400 });
+    }
+}
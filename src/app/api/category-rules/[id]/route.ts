@@ -0,0 +1,160 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { CategoryRuleUpdateSchema } from '@/lib/schemas';
+import { recordAuditEvent } from '@/lib/audit';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { accountsBelongToSpace } from '@/lib/accounts';
+
+const ParamsSchema = z.object({
+    id: z.string().uuid('ID de regla inválido'),
+});
+
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/category-rules/[id]', 'PUT');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de regla inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const payload = await req.json();
+        const validated = CategoryRuleUpdateSchema.parse(payload);
+
+        const ownsAccounts = await accountsBelongToSpace(supabase as any, activeSpaceId, [
+            validated.account_id,
+            validated.transfer_account_id,
+        ]);
+        if (!ownsAccounts) return NextResponse.json({ error: 'Cuenta inválida para este espacio' }, { status: 400 });
+
+        const { data: existingRule, error: existingError } = await supabase
+            .from('category_rules')
+            .select('*')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (existingError) return NextResponse.json({ error: existingError.message }, { status: 500 });
+        if (!existingRule) return NextResponse.json({ error: 'Regla no encontrada' }, { status: 404 });
+
+        const { data: updatedRule, error: updateError } = await supabase
+            .from('category_rules')
+            .update(validated)
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .select()
+            .single();
+
+        if (updateError) {
+            // The table checks keep at least one action and a consistent amount range after partial updates.
+            if (updateError.code === '23514') {
+                return NextResponse.json({ error: 'La regla necesita al menos una acción y un rango de montos válido' }, { status: 400 });
+            }
+            return NextResponse.json({ error: updateError.message }, { status: 500 });
+        }
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'category_rule',
+            entityId: updatedRule.id,
+            action: 'update',
+            beforeData: existingRule,
+            afterData: updatedRule,
+        });
+
+        logInfo('category_rule_updated', {
+            ...context,
+            userId: session.user.id,
+            ruleId: updatedRule.id,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(updatedRule);
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('category_rule_update_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'Datos inválidos' }, { status: 400 });
+    }
+}
+
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/category-rules/[id]', 'DELETE');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de regla inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const { data: existingRule, error: existingError } = await supabase
+            .from('category_rules')
+            .select('*')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (existingError) return NextResponse.json({ error: existingError.message }, { status: 500 });
+        if (!existingRule) return NextResponse.json({ error: 'Regla no encontrada' }, { status: 404 });
+
+        const { error: deleteError } = await supabase
+            .from('category_rules')
+            .delete()
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId);
+
+        if (deleteError) return NextResponse.json({ error: deleteError.message }, { status: 500 });
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'category_rule',
+            entityId: existingRule.id,
+            action: 'delete',
+            beforeData: existingRule,
+        });
+
+        logInfo('category_rule_deleted', {
+            ...context,
+            userId: session.user.id,
+            ruleId: existingRule.id,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({ success: true, id: existingRule.id });
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('category_rule_delete_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'No se pudo eliminar la regla' }, { status: 400 });
+    }
+}
@@ -0,0 +1,158 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { CategoryRuleApplySchema } from '@/lib/schemas';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { recordAuditEvent } from '@/lib/audit';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { syncCardCharge } from '@/lib/credit-cards';
+import {
+    isMissingCategoryRulesTableError,
+    loadCategoryRules,
+    planRuleReapply,
+    type RuleReapplyRow,
+} from '@/lib/category-rules';
+
+const HISTORY_SELECT = 'id, date, type, amount, description, category, account_id, transfer_account_id, tags, card_statement_id';
+const PAGE_SIZE = 1000;
+const MAX_PAGES = 20;
+const MAX_APPLIED_CHANGES = 500;
+
+type HistoryRow = RuleReapplyRow & { card_statement_id?: string | null };
+
+/**
+ * Re-runs the active rules over past movements. With `dry_run` (the default) it only returns the diff;
+ * confirming with the previewed `transaction_ids` applies exactly those rows.
+ */
+export async function POST(req: Request) {
+    const context = createRequestContext('/api/category-rules/apply', 'POST');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const body = await req.json().catch(() => ({}));
+        const validated = CategoryRuleApplySchema.parse(body);
+
+        const rules = await loadCategoryRules(supabase as any, activeSpaceId);
+        if (!rules.length) {
+            return NextResponse.json({ dry_run: validated.dry_run, scanned: 0, total: 0, applied: 0, changes: [] });
+        }
+
+        const rows: HistoryRow[] = [];
+        for (let page = 0; page < MAX_PAGES; page += 1) {
+            let query = supabase
+                .from('transactions')
+                .select(HISTORY_SELECT)
+                .eq('space_id', activeSpaceId);
+            if (validated.from) query = query.gte('date', validated.from);
+            if (validated.transaction_ids?.length) query = query.in('id', validated.transaction_ids);
+
+            const { data, error } = await query
+                .order('date', { ascending: false })
+                .order('id', { ascending: true })
+                .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+            if (error) {
+                if (isMissingCategoryRulesTableError(error.message)) {
+                    return NextResponse.json({
+                        error: 'Las reglas de categorización no están inicializadas en la base.',
+                        hint: 'Ejecuta supabase-category-rules.sql en Supabase SQL Editor.',
+                    }, { status: 503 });
+                }
+                return NextResponse.json({ error: error.message }, { status: 500 });
+            }
+
+            rows.push(...((data || []) as HistoryRow[]));
+            if (!data || data.length < PAGE_SIZE) break;
+        }
+
+        const changes = planRuleReapply(rules, rows);
+
+        if (validated.dry_run) {
+            logInfo('category_rules_dry_run', {
+                ...context,
+                userId: session.user.id,
+                scanned: rows.length,
+                changes: changes.length,
+                durationMs: Date.now() - startedAt,
+            });
+
+            return NextResponse.json({
+                dry_run: true,
+                scanned: rows.length,
+                total: changes.length,
+                applied: 0,
+                changes: changes.slice(0, MAX_APPLIED_CHANGES),
+            });
+        }
+
+        const rowsById = new Map(rows.map((row) => [row.id, row]));
+        const applied: string[] = [];
+
+        for (const change of changes.slice(0, MAX_APPLIED_CHANGES)) {
+            const { data: updated, error: updateError } = await supabase
+                .from('transactions')
+                .update({
+                    type: change.after.type,
+                    category: change.after.category,
+                    account_id: change.after.account_id,
+                    transfer_account_id: change.after.transfer_account_id,
+                    tags: change.after.tags,
+                })
+                .eq('id', change.id)
+                .eq('space_id', activeSpaceId)
+                .select()
+                .single();
+
+            if (updateError || !updated) continue;
+            applied.push(change.id);
+
+            const previous = rowsById.get(change.id);
+            if (previous?.card_statement_id || change.after.type !== change.before.type) {
+                await syncCardCharge(supabase as any, activeSpaceId, session.user.id, updated, previous?.card_statement_id);
+            }
+
+            await recordAuditEvent({
+                supabase,
+                userId: session.user.id,
+                spaceId: activeSpaceId,
+                entityType: 'transaction',
+                entityId: change.id,
+                action: 'update',
+                beforeData: previous,
+                afterData: updated,
+                metadata: { source: 'category_rules_reapply', ruleIds: change.matched_rule_ids },
+            });
+        }
+
+        logInfo('category_rules_reapplied', {
+            ...context,
+            userId: session.user.id,
+            scanned: rows.length,
+            changes: changes.length,
+            applied: applied.length,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({
+            dry_run: false,
+            scanned: rows.length,
+            total: changes.length,
+            applied: applied.length,
+            changes: changes.filter((change) => applied.includes(change.id)),
+        });
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('category_rules_apply_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'No se pudieron aplicar las reglas' }, { status: 400 });
+    }
+}
@@ -0,0 +1,129 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { CategoryRuleInputSchema } from '@/lib/schemas';
+import { createRequestContext, logError, logInfo, logWarn } from '@/lib/observability';
+import { recordAuditEvent } from '@/lib/audit';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { accountsBelongToSpace } from '@/lib/accounts';
+import { isMissingCategoryRulesTableError } from '@/lib/category-rules';
+
+export async function GET() {
+    const context = createRequestContext('/api/category-rules', 'GET');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const { data, error } = await supabase
+            .from('category_rules')
+            .select('*')
+            .eq('space_id', activeSpaceId)
+            .order('priority', { ascending: true })
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            if (isMissingCategoryRulesTableError(error.message)) {
+                logWarn('category_rules_table_missing_returning_empty', {
+                    ...context,
+                    userId: session.user.id,
+                    reason: error.message,
+                });
+                return NextResponse.json([]);
+            }
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+
+        logInfo('category_rules_loaded', {
+            ...context,
+            userId: session.user.id,
+            count: data?.length || 0,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(data || []);
+    } catch (error) {
+        logError('category_rules_get_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: 'Error al cargar reglas de categorización' }, { status: 500 });
+    }
+}
+
+export async function POST(req: Request) {
+    const context = createRequestContext('/api/category-rules', 'POST');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const payload = await req.json();
+        const validated = CategoryRuleInputSchema.parse(payload);
+
+        const ownsAccounts = await accountsBelongToSpace(supabase as any, activeSpaceId, [
+            validated.account_id,
+            validated.transfer_account_id,
+        ]);
+        if (!ownsAccounts) return NextResponse.json({ error: 'Cuenta inválida para este espacio' }, { status: 400 });
+
+        const { data, error } = await supabase
+            .from('category_rules')
+            .insert({
+                ...validated,
+                description_pattern: validated.description_pattern || null,
+                set_category: validated.set_category || null,
+                space_id: activeSpaceId,
+                user_id: session.user.id,
+            })
+            .select()
+            .single();
+
+        if (error) {
+            if (isMissingCategoryRulesTableError(error.message)) {
+                return NextResponse.json({
+                    error: 'Las reglas de categorización no están inicializadas en la base.',
+                    hint: 'Ejecuta supabase-category-rules.sql en Supabase SQL Editor.',
+                }, { status: 503 });
+            }
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'category_rule',
+            entityId: data.id,
+            action: 'create',
+            afterData: data,
+        });
+
+        logInfo('category_rule_created', {
+            ...context,
+            userId: session.user.id,
+            ruleId: data.id,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(data);
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('category_rule_create_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'Datos inválidos' }, { status: 400 });
+    }
+}
@@ -4,6 +4,13 @@ import { createClient } from '@/lib/supabase-server';
 import { createRequestContext, logError, logInfo } from '@/lib/observability';
 import { recordAuditEvent } from '@/lib/audit';
 import { ensureActiveSpace } from '@/lib/spaces';
+import { upsertStatementFromDocument } from '@/lib/credit-cards';
+import { reconcileStatementInstallments } from '@/lib/installments';
+import { flagInsertedDuplicates } from '@/lib/duplicates';
+import { loadCategoryRules, withCategoryRules } from '@/lib/category-rules';
+import { financingWarning, loadExtractionRates } from '@/lib/card-financing';
+import { recordPayment, type PaymentRow } from '@/lib/payments';
+import { resolveFxSnapshot, toSnapshotBase } from '@/lib/currency';
 
 const CopilotConfirmationSchema = z.object({
     title: z.string().min(1, 'El título es obligatorio'),
@@ -16,6 +23,9 @@ const CopilotConfirmationSchema = z.object({
     total_installments: z.coerce.number().int().optional().nullable(),
     remaining_installments: z.coerce.number().int().optional().nullable(),
     debt_next_payment_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().nullable(),
+    // The amounts above are in this currency; rows are stored in ARS with its snapshot.
+    currency: z.enum(['ARS', 'USD']).default('ARS'),
+    fx_rate: z.coerce.number().positive().optional().nullable(),
     document_type: z.enum(['credit_card', 'invoice', 'bank_statement', 'other']).default('other'),
     extraction_id: z.string().uuid().optional().nullable(),
     document_id: z.string().uuid().optional().nullable(),
@@ -23,6 +33,18 @@ const CopilotConfirmationSchema = z.object({
     mark_paid: z.boolean().optional().default(false),
     payment_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().nullable(),
     payment_description: z.string().optional().nullable(),
+    card_last4: z.string().regex(/^\d{4}$/).optional().nullable(),
+    card_brand: z.string().optional().nullable(),
+    issuer: z.string().optional().nullable(),
+    closing_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().nullable(),
+    installments: z.array(z.object({
+        description: z.string().min(1),
+        merchant: z.string().optional().nullable(),
+        total_installments: z.coerce.number().int().positive().optional().nullable(),
+        remaining_installments: z.coerce.number().int().min(0).optional().nullable(),
+        installment_amount: z.coerce.number().positive().optional().nullable(),
+        currency: z.string().optional().nullable(),
+    })).optional().default([]),
 });
 
 function todayIsoDate() {
@@ -47,7 +69,27 @@ export async function POST(req: Request) {
         const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
 
         const body = await req.json();
-        const validated = CopilotConfirmationSchema.parse(body);
+        const parsed = CopilotConfirmationSchema.parse(body);
+        const fxSnapshot = resolveFxSnapshot({
+            amount: parsed.amount,
+            currency: parsed.currency,
+            fx_rate: parsed.fx_rate ?? null,
+            fx_source: 'copilot',
+        });
+        const toBase = (value?: number | null) => (value != null ? toSnapshotBase(value, fxSnapshot.fx_rate) : value);
+        const validated = {
+            ...parsed,
+            amount: fxSnapshot.amount,
+            payment_amount: toBase(parsed.payment_amount),
+            minimum_payment: toBase(parsed.minimum_payment),
+            monthly_payment: toBase(parsed.monthly_payment),
+        };
+        const fxFields = {
+            currency: fxSnapshot.currency,
+            original_amount: fxSnapshot.original_amount,
+            fx_rate: fxSnapshot.fx_rate,
+            fx_source: fxSnapshot.fx_source,
+        };
 
         const paymentDate = validated.payment_date || todayIsoDate();
         const shouldCreateDebt = validated.create_debt && !validated.mark_paid;
@@ -64,6 +106,7 @@ export async function POST(req: Request) {
                 status: 'pending',
                 category: validated.category || 'Varios',
                 minimum_payment: validated.minimum_payment ?? null,
+                ...fxFields,
             })
             .select()
             .single();
@@ -98,6 +141,7 @@ export async function POST(req: Request) {
                     total_installments: totalInstallments,
                     category: validated.category || 'Deuda',
                     next_payment_date: nextPaymentDate,
+                    ...fxFields,
                 })
                 .select()
                 .single();
@@ -116,6 +160,7 @@ export async function POST(req: Request) {
         }
 
         let transaction: any = null;
+        let payment: PaymentRow | null = null;
         if (validated.mark_paid) {
             const paymentDescription = (validated.payment_description || '').trim()
                 || `Pago confirmado desde resumen: ${validated.title}`;
@@ -131,17 +176,23 @@ export async function POST(req: Request) {
                 return NextResponse.json({ error: 'Monto de pago inválido.' }, { status: 400 });
             }
 
+            const categoryRules = await loadCategoryRules(supabase as any, activeSpaceId);
             const { data: createdTransaction, error: transactionError } = await supabase
                 .from('transactions')
-                .insert({
+                .insert(withCategoryRules(categoryRules, {
                     user_id: session.user.id,
                     space_id: activeSpaceId,
                     type: 'expense',
-                    amount: paymentAmount,
+                    ...resolveFxSnapshot({
+                        amount: parsed.payment_amount ?? parsed.amount,
+                        currency: parsed.currency,
+                        fx_rate: fxSnapshot.fx_rate,
+                        fx_source: 'copilot',
+                    }),
                     description: paymentDescription,
                     category: validated.category || 'Deudas',
                     date: paymentDate,
-                })
+                }))
                 .select()
                 .single();
 
@@ -213,8 +264,75 @@ export async function POST(req: Request) {
             }
 
             obligationFinal = updatedObligation;
+
+            payment = await recordPayment(supabase as any, {
+                spaceId: activeSpaceId,
+                userId: session.user.id,
+                kind: 'obligation',
+                itemId: obligation.id,
+                transactionId: createdTransaction.id,
+                source: 'copilot',
+                amount: paymentAmount,
+                paymentDate,
+                balanceBefore: Number(validated.amount),
+                balanceAfter: remaining,
+                before: obligation,
+            });
+        }
+
+        // Credit card statements also become a card_statements row linked to the obligation,
+        // so paying the statement later settles the obligation too.
+        const statement = validated.document_type === 'credit_card'
+            ? await upsertStatementFromDocument(supabase as any, activeSpaceId, session.user.id, {
+                title: validated.title,
+                last4: validated.card_last4 ?? null,
+                issuer: validated.issuer ?? null,
+                card_brand: validated.card_brand ?? null,
+                closing_date: validated.closing_date ?? null,
+                due_date: validated.due_date,
+                declared_total: validated.amount,
+                minimum_payment: validated.minimum_payment ?? null,
+                paid_amount: transaction ? Number(validated.payment_amount ?? validated.amount) : 0,
+                obligation_id: obligation.id,
+                extraction_id: validated.extraction_id ?? null,
+            })
+            : null;
+
+        // Paying a card statement only in part finances the rest at the statement rates.
+        let financing = null;
+        if (validated.document_type === 'credit_card' && remainingAfterPayment != null && remainingAfterPayment > 0) {
+            const rates = await loadExtractionRates(supabase as any, validated.extraction_id ? [validated.extraction_id] : []);
+            financing = financingWarning(
+                {
+                    balance: Number(validated.amount),
+                    minimum_payment: validated.minimum_payment ?? null,
+                    rates: validated.extraction_id ? rates.get(validated.extraction_id) ?? null : null,
+                },
+                Number(validated.payment_amount ?? validated.amount)
+            );
         }
 
+        // Cuotas listed on the statement settle their scheduled charge, or start a plan if they are new.
+        const installmentsReconciled = statement?.id
+            ? await reconcileStatementInstallments(supabase as any, activeSpaceId, session.user.id, {
+                cardId: statement.card_id,
+                statementId: statement.id,
+                closingDate: statement.closing_date,
+                installments: validated.installments,
+                extractionId: validated.extraction_id ?? null,
+            })
+            : null;
+
+        // The same payment may already exist (loaded by hand or generated by a recurring rule).
+        const flaggedDuplicates = transaction?.id
+            ? await flagInsertedDuplicates(supabase as any, {
+                spaceId: activeSpaceId,
+                userId: session.user.id,
+                source: 'copilot',
+                rows: [transaction],
+            })
+            : 0;
+
         await recordAuditEvent({
             supabase,
             userId: session.user.id,
@@ -246,6 +364,23 @@ export async function POST(req: Request) {
             });
         }
 
+        if (statement?.id) {
+            await recordAuditEvent({
+                supabase,
+                userId: session.user.id,
+                spaceId: activeSpaceId,
+                entityType: 'card_statement',
+                entityId: statement.id,
+                action: 'update',
+                afterData: statement,
+                metadata: {
+                    source: 'copilot_confirm',
+                    linkedObligationId: obligation.id,
+                    installments: installmentsReconciled,
+                },
+            });
+        }
+
         if (transaction?.id) {
             await recordAuditEvent({
                 supabase,
@@ -278,6 +413,8 @@ export async function POST(req: Request) {
                         paymentDate,
                         transactionId: transaction.id,
                         remaining: remainingAfterPayment,
+                        financing,
+                        paymentId: payment?.id ?? null,
                     },
                 });
             }
@@ -289,6 +426,10 @@ export async function POST(req: Request) {
             obligationId: obligation.id,
             debtId: debt?.id || null,
             transactionId: transaction?.id || null,
+            statementId: statement?.id || null,
+            installmentsMatched: installmentsReconciled?.matched ?? 0,
+            installmentsCreated: installmentsReconciled?.created ?? 0,
+            flaggedDuplicates,
             durationMs: Date.now() - startedAt,
         });
 
@@ -296,11 +437,17 @@ export async function POST(req: Request) {
             obligation: obligationFinal,
             debt,
             transaction,
+            payment,
+            statement,
+            installments: installmentsReconciled,
             remaining: remainingAfterPayment,
+            financing,
+            flaggedDuplicates,
             links: {
                 obligationId: obligation.id,
                 debtId: debt?.id ?? null,
                 transactionId: transaction?.id ?? null,
+                statementId: statement?.id ?? null,
             },
         });
     } catch (error: any) {
@@ -0,0 +1,153 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { createRequestContext, logError, logInfo, logWarn } from '@/lib/observability';
+import { recordAuditEvent } from '@/lib/audit';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { resolveFxSnapshot } from '@/lib/currency';
+import { accountsBelongToSpace } from '@/lib/accounts';
+import { syncCardCharge } from '@/lib/credit-cards';
+import { flagInsertedDuplicates } from '@/lib/duplicates';
+import { loadCategoryRules } from '@/lib/category-rules';
+import { MAX_SPLIT_LINES, primarySplitCategory, replaceTransactionSplits } from '@/lib/splits';
+import { categorizeReceiptItems, receiptRuleTags, receiptTotal } from '@/lib/receipts';
+
+const ReceiptConfirmationSchema = z.object({
+    merchant: z.string().trim().min(1, 'El comercio es obligatorio').max(120),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido'),
+    currency: z.enum(['ARS', 'USD']).default('ARS'),
+    fx_rate: z.coerce.number().positive().optional().nullable(),
+    account_id: z.string().uuid('Cuenta inválida').optional().nullable(),
+    notes: z.string().trim().max(2000).optional().nullable(),
+    // A blank category is filled by the space's rules, like the verifier does before showing the line.
+    items: z.array(z.object({
+        description: z.string().trim().min(1, 'Cada línea necesita una descripción').max(200),
+        amount: z.coerce.number().positive('Cada línea debe tener un monto positivo'),
+        category: z.string().trim().max(60).optional().nullable(),
+    })).min(1, 'El ticket necesita al menos una línea').max(MAX_SPLIT_LINES, `Máximo ${MAX_SPLIT_LINES} líneas`),
+    document_id: z.string().uuid().optional().nullable(),
+    extraction_id: z.string().uuid().optional().nullable(),
+});
+
+export async function POST(req: Request) {
+    const context = createRequestContext('/api/copilot/receipt', 'POST');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) {
+            return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+        }
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const body = await req.json();
+        const validated = ReceiptConfirmationSchema.parse(body);
+
+        const ownsAccount = await accountsBelongToSpace(supabase as any, activeSpaceId, [validated.account_id]);
+        if (!ownsAccount) return NextResponse.json({ error: 'Cuenta inválida para este espacio' }, { status: 400 });
+
+        const total = receiptTotal(validated.items);
+        const fxSnapshot = resolveFxSnapshot({
+            amount: total,
+            currency: validated.currency,
+            fx_rate: validated.fx_rate ?? null,
+            fx_source: 'receipt',
+        });
+        const fxRate = Number(fxSnapshot.fx_rate) || 1;
+
+        const categoryRules = await loadCategoryRules(supabase as any, activeSpaceId);
+        const ruleLines = categorizeReceiptItems(categoryRules, validated.items, fxRate);
+        const lines = validated.items.map((item, index) => ({
+            description: item.description,
+            amount: item.amount,
+            category: item.category || ruleLines[index].category,
+        }));
+        const tags = receiptRuleTags(categoryRules, validated.merchant, lines, fxRate);
+
+        const { data: transaction, error: transactionError } = await supabase
+            .from('transactions')
+            .insert({
+                ...fxSnapshot,
+                user_id: session.user.id,
+                space_id: activeSpaceId,
+                type: 'expense',
+                description: validated.merchant,
+                category: primarySplitCategory(lines) || lines[0].category,
+                date: validated.date,
+                account_id: validated.account_id ?? null,
+                ...(validated.notes ? { notes: validated.notes } : {}),
+                // Only sent when a rule added tags, so spaces without supabase-category-rules.sql keep working.
+                ...(tags.length ? { tags } : {}),
+            })
+            .select()
+            .single();
+
+        if (transactionError || !transaction) {
+            return NextResponse.json({ error: transactionError?.message || 'No se pudo registrar el gasto del ticket.' }, { status: 500 });
+        }
+
+        await syncCardCharge(supabase as any, activeSpaceId, session.user.id, transaction);
+
+        // A single line is a plain movement; with several, each one counts for its own category.
+        let created = transaction;
+        if (lines.length > 1) {
+            const splitResult = await replaceTransactionSplits(supabase as any, {
+                spaceId: activeSpaceId,
+                userId: session.user.id,
+                transaction,
+                lines,
+            });
+            if (splitResult.error) {
+                logWarn('receipt_splits_create_failed', { ...context, userId: session.user.id, transactionId: transaction.id, reason: splitResult.error });
+            } else {
+                created = { ...transaction, category: splitResult.category, splits: splitResult.splits };
+            }
+        }
+
+        const flaggedDuplicates = await flagInsertedDuplicates(supabase as any, {
+            spaceId: activeSpaceId,
+            userId: session.user.id,
+            source: 'copilot',
+            rows: [transaction],
+        });
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'transaction',
+            entityId: transaction.id,
+            action: 'create',
+            afterData: created,
+            metadata: {
+                source: 'copilot_receipt',
+                documentId: validated.document_id ?? null,
+                extractionId: validated.extraction_id ?? null,
+                lines: lines.length,
+            },
+        });
+
+        logInfo('copilot_receipt_saved', {
+            ...context,
+            userId: session.user.id,
+            transactionId: transaction.id,
+            lines: lines.length,
+            flaggedDuplicates,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({ transaction: created, flaggedDuplicates });
+    } catch (error: any) {
+        logError('copilot_receipt_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: error.errors || error.message || 'No se pudo guardar el ticket.' }, { status: 400 });
+    }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase-service';
+import { ensureCronAuthorized } from '@/lib/cron';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { previousMonthEnd, saveNetWorthSnapshot } from '@/lib/net-worth';
+
+/**
+ * Monthly net worth job: on the 1st it closes the month that just ended for every space, with account
+ * balances up to its last day. Running it again the same month replaces those snapshots.
+ */
+async function snapshotAllSpaces(req: Request, method: 'GET' | 'POST') {
+    const context = createRequestContext('/api/cron/net-worth', method);
+    const startedAt = Date.now();
+
+    try {
+        const auth = ensureCronAuthorized(req.headers);
+        if (!auth.ok) {
+            return NextResponse.json({ error: auth.error }, { status: auth.status });
+        }
+
+        const supabase = createServiceClient();
+        if (!supabase) {
+            return NextResponse.json({ error: 'Falta SUPABASE_SERVICE_ROLE_KEY en el entorno.' }, { status: 503 });
+        }
+
+        const asOf = previousMonthEnd(new Date().toISOString().slice(0, 10));
+        const { data: spaces, error: spacesError } = await supabase.from('spaces').select('id').limit(5000);
+        if (spacesError) return NextResponse.json({ error: spacesError.message }, { status: 500 });
+
+        let saved = 0;
+        const failures: { space_id: string; error: string }[] = [];
+
+        for (const space of (spaces || []) as Array<{ id: string }>) {
+            try {
+                const result = await saveNetWorthSnapshot(supabase, { spaceId: space.id, userId: null, trigger: 'cron', asOf });
+                // Without the migration no space can store anything, so there is no point in going on.
+                if (!result.snapshot) {
+                    return NextResponse.json({ as_of: asOf, spaces: 0, saved: 0, warning: result.warning });
+                }
+                saved += 1;
+            } catch (error) {
+                logError('net_worth_cron_space_failed', error, { ...context, spaceId: space.id });
+                failures.push({ space_id: space.id, error: error instanceof Error ? error.message : String(error) });
+            }
+        }
+
+        logInfo('net_worth_cron_completed', {
+            ...context,
+            asOf,
+            spaces: spaces?.length || 0,
+            saved,
+            failedSpaces: failures.length,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({ as_of: asOf, spaces: spaces?.length || 0, saved, failures });
+    } catch (error) {
+        logError('net_worth_cron_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: 'Error al guardar el patrimonio mensual' }, { status: 500 });
+    }
+}
+
+export async function GET(req: Request) {
+    return snapshotAllSpaces(req, 'GET');
+}
+
+export async function POST(req: Request) {
+    return snapshotAllSpaces(req, 'POST');
+}
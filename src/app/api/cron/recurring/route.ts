@@ -0,0 +1,165 @@
+import { NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase-service';
+import { ensureCronAuthorized } from '@/lib/cron';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { isMissingRecurringTableError, runRecurringForSpace, type RecurringRunSummary } from '@/lib/recurring';
+import { isMissingInvestmentsTableError, settleMaturedDeposits, type DepositSettlement } from '@/lib/investments';
+import { markOverdueObligations, type OverdueTransition } from '@/lib/obligations';
+import { createDolarApiProvider, createSupabaseFxRateStore, refreshDailyQuotes } from '@/lib/exchange-rates';
+
+/**
+ * Runs the due recurring rules of every space with the service role. Spaces are processed one at a time and
+ * a failing space does not stop the others; each one leaves its own row in `recurring_runs`. Plazos fijos
+ * that reached their maturity are settled in the same pass, pending obligations past their due date become overdue
+ * and today's exchange rates are stored for every space.
+ */
+async function runAllSpaces(req: Request, method: 'GET' | 'POST') {
+    const context = createRequestContext('/api/cron/recurring', method);
+    const startedAt = Date.now();
+
+    try {
+        const auth = ensureCronAuthorized(req.headers);
+        if (!auth.ok) {
+            return NextResponse.json({ error: auth.error }, { status: auth.status });
+        }
+
+        const supabase = createServiceClient();
+        if (!supabase) {
+            return NextResponse.json({ error: 'Falta SUPABASE_SERVICE_ROLE_KEY en el entorno.' }, { status: 503 });
+        }
+
+        const today = new Date().toISOString().slice(0, 10);
+        const { data: dueRules, error: dueError } = await supabase
+            .from('recurring_transactions')
+            .select('space_id')
+            .eq('is_active', true)
+            .lte('next_run', today)
+            .limit(5000);
+
+        if (dueError) {
+            if (isMissingRecurringTableError(dueError.message)) {
+                return NextResponse.json({ spaces: 0, generated: 0, warning: 'Falta tabla recurring_transactions' });
+            }
+            return NextResponse.json({ error: dueError.message }, { status: 500 });
+        }
+
+        const { data: dueDeposits, error: depositsError } = await supabase
+            .from('investment_holdings')
+            .select('space_id')
+            .eq('kind', 'plazo_fijo')
+            .eq('status', 'active')
+            .lte('maturity_date', today)
+            .limit(5000);
+
+        if (depositsError && !isMissingInvestmentsTableError(depositsError.message)) {
+            return NextResponse.json({ error: depositsError.message }, { status: 500 });
+        }
+
+        const { data: lateObligations, error: lateError } = await supabase
+            .from('obligations')
+            .select('space_id')
+            .eq('status', 'pending')
+            .lt('due_date', today)
+            .limit(5000);
+
+        if (lateError) return NextResponse.json({ error: lateError.message }, { status: 500 });
+
+        const spaceIds = Array.from(new Set((dueRules || []).map((row: any) => row.space_id as string)));
+        const summaries: RecurringRunSummary[] = [];
+        const failures: { space_id: string; error: string }[] = [];
+
+        for (const spaceId of spaceIds) {
+            try {
+                summaries.push(await runRecurringForSpace(supabase, { spaceId, userId: null, trigger: 'cron', today }));
+            } catch (error) {
+                logError('recurring_cron_space_failed', error, { ...context, spaceId });
+                failures.push({ space_id: spaceId, error: error instanceof Error ? error.message : String(error) });
+            }
+        }
+
+        const depositSpaceIds = Array.from(new Set((dueDeposits || []).map((row: any) => row.space_id as string)));
+        const settlements: DepositSettlement[] = [];
+
+        for (const spaceId of depositSpaceIds) {
+            try {
+                settlements.push(...await settleMaturedDeposits(supabase, { spaceId, userId: null, today }));
+            } catch (error) {
+                logError('deposit_cron_space_failed', error, { ...context, spaceId });
+                failures.push({ space_id: spaceId, error: error instanceof Error ? error.message : String(error) });
+            }
+        }
+        const maturedDeposits = settlements.filter((settlement) => !settlement.error).length;
+
+        const lateSpaceIds = Array.from(new Set((lateObligations || []).map((row: any) => row.space_id as string)));
+        const overdue: OverdueTransition[] = [];
+
+        for (const spaceId of lateSpaceIds) {
+            try {
+                overdue.push(...await markOverdueObligations(supabase, { spaceId, userId: null, today }));
+            } catch (error) {
+                logError('overdue_cron_space_failed', error, { ...context, spaceId });
+                failures.push({ space_id: spaceId, error: error instanceof Error ? error.message : String(error) });
+            }
+        }
+
+        // Stored quotes keep conversions reproducible even on days nobody asked for a rate.
+        let quotesSaved = 0;
+        try {
+            const { data: spaces, error: spacesError } = await supabase.from('spaces').select('id').limit(5000);
+            if (spacesError) throw new Error(spacesError.message);
+
+            quotesSaved = await refreshDailyQuotes({
+                stores: (spaces || []).map((space: any) => createSupabaseFxRateStore(supabase, space.id as string)),
+                provider: createDolarApiProvider(),
+                date: today,
+            });
+        } catch (error) {
+            logError('fx_refresh_cron_failed', error, context);
+        }
+
+        const generated = summaries.reduce((sum, summary) => sum + summary.generated, 0);
+        const skipped = summaries.reduce((sum, summary) => sum + summary.skipped, 0);
+        const failedRules = summaries.reduce((sum, summary) => sum + summary.failed, 0);
+        const warning = summaries.find((summary) => summary.warning)?.warning;
+
+        logInfo('recurring_cron_completed', {
+            ...context,
+            spaces: spaceIds.length,
+            generated,
+            skipped,
+            failedRules,
+            maturedDeposits,
+            overdueObligations: overdue.length,
+            quotesSaved,
+            failedSpaces: failures.length,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({
+            run_date: today,
+            spaces: spaceIds.length,
+            generated,
+            skipped,
+            failed_rules: failedRules,
+            matured_deposits: maturedDeposits,
+            overdue_obligations: overdue.length,
+            fx_quotes_saved: quotesSaved,
+            failures,
+            ...(warning ? { warning } : {}),
+        });
+    } catch (error) {
+        logError('recurring_cron_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: 'Error al ejecutar recurrencias programadas' }, { status: 500 });
+    }
+}
+
+export async function GET(req: Request) {
+    return runAllSpaces(req, 'GET');
+}
+
+export async function POST(req: Request) {
+    return runAllSpaces(req, 'POST');
+}
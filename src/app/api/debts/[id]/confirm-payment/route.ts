@@ -1,8 +1,20 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase-server';
-import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { createRequestContext, logError, logInfo, logWarn } from '@/lib/observability';
 import { recordAuditEvent } from '@/lib/audit';
 import { ensureActiveSpace } from '@/lib/spaces';
+import { loadLatestIndexValue } from '@/lib/indexes';
+import { recordPayment } from '@/lib/payments';
+import { originalAmountAt, paymentFxSnapshot } from '@/lib/currency';
+import {
+    UVA_SERIES,
+    allocateLoanPayment,
+    isMissingLoanColumnError,
+    loanDebtFields,
+    loanStateFromDebt,
+    uvaValueError,
+    type PrepaymentMode,
+} from '@/lib/loans';
 
 type ObligationRecord = {
     id: string;
@@ -152,28 +164,89 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
             return NextResponse.json({ error: 'Monto de pago inválido.' }, { status: 400 });
         }
 
-        const paymentAmount = Math.min(requestedPayment, currentTotalAmount);
-        const updatedTotalAmount = Math.max(currentTotalAmount - paymentAmount, 0);
-
-        // Keep the debt "alive" until the outstanding amount is fully paid.
-        // This avoids marking the debt as settled when the last planned installment was paid partially.
-        let updatedRemainingInstallments = Math.max(effectiveRemainingInstallments - 1, 0);
-        if (updatedTotalAmount > 0 && updatedRemainingInstallments === 0) {
-            updatedRemainingInstallments = 1;
+        // Loans split the payment into interest and capital following their amortization schedule.
+        const loanState = loanStateFromDebt(debt);
+        const prepaymentMode: PrepaymentMode = body?.prepayment_mode === 'reduce_installment' ? 'reduce_installment' : 'reduce_term';
+        let unitValue = 1;
+        if (loanState?.system === 'uva') {
+            // Only the value of the payment day (or the last one before it) converts the payment.
+            const { data: uva, error: uvaError } = await loadLatestIndexValue(supabase as any, activeSpaceId, UVA_SERIES, paymentDate);
+            if (uvaError) {
+                return NextResponse.json({ error: uvaError.message }, { status: 500 });
+            }
+            const staleError = uvaValueError(uva, paymentDate);
+            if (staleError || !uva) {
+                return NextResponse.json({ error: staleError }, { status: 409 });
+            }
+            unitValue = uva.value;
         }
 
-        const updatedNextPaymentDate =
-            updatedTotalAmount > 0
-                ? addMonth(toIsoDate(String(debt.next_payment_date)))
-                : paymentDate;
+        let paymentAmount: number;
+        let loanAllocation: ReturnType<typeof allocateLoanPayment> | null = null;
+        let debtChanges: Record<string, unknown>;
+
+        if (loanState) {
+            // Partial payments already made toward this installment count toward it (in loan units).
+            const { data: earlierPayments, error: earlierPaymentsError } = await supabase
+                .from('loan_payments')
+                .select('interest, principal, unit_value')
+                .eq('debt_id', id)
+                .eq('space_id', activeSpaceId)
+                .eq('installment_number', loanState.next_number);
+            if (earlierPaymentsError && !isMissingLoanColumnError(earlierPaymentsError.message)) {
+                return NextResponse.json({ error: earlierPaymentsError.message }, { status: 500 });
+            }
+            const earlier = ((earlierPayments || []) as any[]).reduce((sum: { interest: number; principal: number }, row) => {
+                const rowUnit = Number(row.unit_value) > 0 ? Number(row.unit_value) : 1;
+                return {
+                    interest: sum.interest + toNumericAmount(row.interest) / rowUnit,
+                    principal: sum.principal + toNumericAmount(row.principal) / rowUnit,
+                };
+            }, { interest: 0, principal: 0 });
+            const interestSettled = earlier.interest > 0 || earlier.principal > 0;
+
+            // The last installment carries its interest on top of the capital left.
+            const maxPayment = (loanState.balance * (1 + (interestSettled ? 0 : loanState.monthly_rate))) * unitValue;
+            paymentAmount = Number(Math.min(requestedPayment, maxPayment).toFixed(2));
+            loanAllocation = allocateLoanPayment(loanState, paymentAmount / unitValue, prepaymentMode, { earlier });
+            const fields = loanDebtFields(loanAllocation.next, unitValue);
+            debtChanges = {
+                ...fields,
+                // While the installment is still due, what is left of it is the next payment.
+                monthly_payment: Number((loanAllocation.installment_due * unitValue).toFixed(2)),
+                next_payment_date: fields.total_amount > 0 ? fields.next_payment_date : paymentDate,
+            };
+        } else {
+            paymentAmount = Math.min(requestedPayment, currentTotalAmount);
+            const updatedTotalAmount = Math.max(currentTotalAmount - paymentAmount, 0);
+
+            // Keep the debt "alive" until the outstanding amount is fully paid.
+            // This avoids marking the debt as settled when the last planned installment was paid partially.
+            let updatedRemainingInstallments = Math.max(effectiveRemainingInstallments - 1, 0);
+            if (updatedTotalAmount > 0 && updatedRemainingInstallments === 0) {
+                updatedRemainingInstallments = 1;
+            }
 
-        const { data: updatedDebt, error: updateError } = await supabase
-            .from('debts')
-            .update({
+            const updatedNextPaymentDate =
+                updatedTotalAmount > 0
+                    ? addMonth(toIsoDate(String(debt.next_payment_date)))
+                    : paymentDate;
+
+            debtChanges = {
                 total_amount: updatedTotalAmount,
                 remaining_installments: updatedRemainingInstallments,
                 next_payment_date: updatedNextPaymentDate,
-            })
+            };
+        }
+
+        // Foreign debts keep the original amount in step (the snapshot trigger only syncs ARS rows).
+        if ('original_amount' in debt) {
+            debtChanges.original_amount = originalAmountAt(Number(debtChanges.total_amount), debt);
+        }
+
+        const { data: updatedDebt, error: updateError } = await supabase
+            .from('debts')
+            .update(debtChanges)
             .eq('id', id)
             .eq('space_id', activeSpaceId)
             .select()
@@ -193,7 +266,8 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
                 user_id: session.user.id,
                 space_id: activeSpaceId,
                 type: 'expense',
-                amount: paymentAmount,
+                // A payment of a foreign debt is recorded in its currency, at its rate.
+                ...paymentFxSnapshot(paymentAmount, debt),
                 description: transactionDescription,
                 category: debt.category || 'Deudas',
                 date: paymentDate,
@@ -208,6 +282,8 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
                     total_amount: previousDebt.total_amount,
                     remaining_installments: previousDebt.remaining_installments,
                     next_payment_date: previousDebt.next_payment_date,
+                    ...('original_amount' in previousDebt ? { original_amount: previousDebt.original_amount } : {}),
+                    ...(loanState ? { principal_balance: previousDebt.principal_balance, monthly_payment: previousDebt.monthly_payment } : {}),
                 })
                 .eq('id', id)
                 .eq('space_id', activeSpaceId);
@@ -253,6 +329,56 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
             }
         }
 
+        const payment = await recordPayment(supabase as any, {
+            spaceId: activeSpaceId,
+            userId: session.user.id,
+            kind: 'debt',
+            itemId: updatedDebt.id,
+            transactionId: paymentTransaction.id,
+            amount: paymentAmount,
+            paymentDate,
+            balanceBefore: currentTotalAmount,
+            balanceAfter: Number(updatedDebt.total_amount || 0),
+            before: previousDebt,
+            linkedObligation: matchedObligationId && matchedObligation ? { id: matchedObligationId, status: matchedObligation.status } : null,
+        });
+
+        let loanPayment: any = null;
+        if (loanState && loanAllocation) {
+            const { data: insertedLoanPayment, error: loanPaymentError } = await supabase
+                .from('loan_payments')
+                .insert({
+                    space_id: activeSpaceId,
+                    debt_id: updatedDebt.id,
+                    transaction_id: paymentTransaction.id,
+                    // payment_id comes with supabase-payments.sql, like the payments row itself.
+                    ...(payment ? { payment_id: payment.id } : {}),
+                    installment_number: loanState.next_number,
+                    payment_date: paymentDate,
+                    amount: paymentAmount,
+                    interest: Number((loanAllocation.interest * unitValue).toFixed(2)),
+                    principal: Number((loanAllocation.principal * unitValue).toFixed(2)),
+                    prepayment: Number((loanAllocation.prepayment * unitValue).toFixed(2)),
+                    prepayment_mode: loanAllocation.prepayment > 0 ? prepaymentMode : null,
+                    unit_value: loanState.system === 'uva' ? unitValue : null,
+                    balance_after: loanAllocation.next.balance,
+                    created_by: session.user.id,
+                })
+                .select()
+                .single();
+
+            // The debt is already updated; a missing breakdown only hides the split in the schedule.
+            if (loanPaymentError) {
+                logWarn('loan_payment_allocation_failed', {
+                    ...context,
+                    debtId: updatedDebt.id,
+                    reason: loanPaymentError.message,
+                });
+            } else {
+                loanPayment = insertedLoanPayment;
+            }
+        }
+
         await recordAuditEvent({
             supabase,
             userId: session.user.id,
@@ -265,6 +391,14 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
             metadata: {
                 paymentAmount,
                 paymentDate,
+                paymentId: payment?.id ?? null,
+                ...(loanAllocation ? {
+                    interest: loanAllocation.interest,
+                    principal: loanAllocation.principal,
+                    prepayment: loanAllocation.prepayment,
+                    prepaymentMode: loanAllocation.prepayment > 0 ? prepaymentMode : null,
+                    capitalizedInterest: loanAllocation.capitalized,
+                } : {}),
             },
         });
 
@@ -309,6 +443,8 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
         return NextResponse.json({
             debt: updatedDebt,
             transaction: paymentTransaction,
+            payment,
+            loanPayment,
             obligationUpdated: Boolean(matchedObligationId),
             obligationId: matchedObligationId,
         });
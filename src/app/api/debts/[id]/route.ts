@@ -5,6 +5,11 @@ import { DebtUpdateSchema } from '@/lib/schemas';
 import { recordAuditEvent } from '@/lib/audit';
 import { createRequestContext, logError, logInfo } from '@/lib/observability';
 import { ensureActiveSpace } from '@/lib/spaces';
+import { isMissingDebtRateColumnError } from '@/lib/debt-payoff';
+import { loanDebtFields, loanStateFromDebt } from '@/lib/loans';
+import { fromSnapshotBase, resolveFxSnapshotUpdate, toSnapshotBase } from '@/lib/currency';
+
+const LOAN_SCHEDULE_FIELDS = ['total_amount', 'monthly_payment', 'remaining_installments', 'total_installments', 'next_payment_date'];
 
 const ParamsSchema = z.object({
     id: z.string().uuid('ID de deuda inválido'),
@@ -42,15 +47,71 @@ export async function PUT(req: Request, { params }: { params: Promise<{ id: stri
         if (existingError) return NextResponse.json({ error: existingError.message }, { status: 500 });
         if (!existingDebt) return NextResponse.json({ error: 'Deuda no encontrada' }, { status: 404 });
 
+        // Before supabase-debt-rates.sql the row has no rate columns: clearing a rate there is a no-op.
+        const {
+            annual_rate: annualRate,
+            rate_kind: rateKind,
+            currency,
+            original_amount: originalAmount,
+            fx_rate: fxRate,
+            fx_source: fxSource,
+            ...editable
+        } = validated;
+        // A loan's balance, installment and term come from its amortization schedule, not from manual edits.
+        const changes = existingDebt.loan_system
+            ? Object.fromEntries(Object.entries(editable).filter(([key]) => !LOAN_SCHEDULE_FIELDS.includes(key)))
+            : editable;
+        const hasRateColumns = 'annual_rate' in existingDebt;
+        const rateChanges = {
+            ...(annualRate !== undefined && (hasRateColumns || annualRate !== null) ? { annual_rate: annualRate } : {}),
+            ...(rateKind !== undefined && (hasRateColumns || annualRate != null) ? { rate_kind: rateKind } : {}),
+        };
+
+        // A new rate reshapes the loan installment; the peso/UVA ratio is the one of the stored balance.
+        const loanState = Object.keys(rateChanges).length ? loanStateFromDebt({ ...existingDebt, ...rateChanges }) : null;
+        const balance = Number(existingDebt.principal_balance || 0);
+        const installment = loanState && balance > 0
+            ? { monthly_payment: loanDebtFields(loanState, Number(existingDebt.total_amount || 0) / balance).monthly_payment }
+            : {};
+
+        // Amounts are edited in the debt's currency and stored in ARS; a loan keeps the snapshot it was created with.
+        const fxSnapshot = existingDebt.loan_system ? null : resolveFxSnapshotUpdate(
+            { amount: editable.total_amount, currency, original_amount: originalAmount, fx_rate: fxRate, fx_source: fxSource },
+            { ...existingDebt, amount: existingDebt.total_amount }
+        );
+        const previousRate = Number(existingDebt.fx_rate) || 1;
+        const snapshotRate = fxSnapshot?.fx_rate ?? previousRate;
+        // A new rate also reprices the installment when it is not edited.
+        const monthlyPayment = editable.monthly_payment
+            ?? (fxSnapshot ? fromSnapshotBase(Number(existingDebt.monthly_payment || 0), previousRate) : null);
+        const money = existingDebt.loan_system ? {} : {
+            ...(fxSnapshot ? {
+                total_amount: fxSnapshot.amount,
+                currency: fxSnapshot.currency,
+                original_amount: fxSnapshot.original_amount,
+                fx_rate: fxSnapshot.fx_rate,
+                fx_source: fxSnapshot.fx_source,
+            } : {}),
+            ...(monthlyPayment != null ? { monthly_payment: toSnapshotBase(monthlyPayment, snapshotRate) } : {}),
+        };
+
         const { data: updatedDebt, error: updateError } = await supabase
             .from('debts')
-            .update(validated)
+            .update({ ...changes, ...money, ...rateChanges, ...installment })
             .eq('id', parsedParams.data.id)
             .eq('space_id', activeSpaceId)
             .select('*')
             .single();
 
-        if (updateError) return NextResponse.json({ error: updateError.message }, { status: 500 });
+        if (updateError) {
+            if (isMissingDebtRateColumnError(updateError.message)) {
+                return NextResponse.json({
+                    error: 'La tasa de interés de las deudas no está inicializada en la base.',
+                    hint: 'Ejecuta supabase-debt-rates.sql en Supabase SQL Editor.',
+                }, { status: 503 });
+            }
+            return NextResponse.json({ error: updateError.message }, { status: 500 });
+        }
 
         await recordAuditEvent({
             supabase,
@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { createRequestContext, logError, logInfo, logWarn } from '@/lib/observability';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { buildIndexLookup, loadIndexValues } from '@/lib/indexes';
+import { UVA_SERIES, buildAmortizationSchedule, isMissingLoanColumnError, loanStateFromDebt } from '@/lib/loans';
+
+const ParamsSchema = z.object({
+    id: z.string().uuid('ID de deuda inválido'),
+});
+
+/** Amortization table of a loan from its current state, with the interest/capital split of past payments. */
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/debts/[id]/schedule', 'GET');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de deuda inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const { data: debt, error: debtError } = await supabase
+            .from('debts')
+            .select('*')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (debtError) return NextResponse.json({ error: debtError.message }, { status: 500 });
+        if (!debt) return NextResponse.json({ error: 'Deuda no encontrada' }, { status: 404 });
+
+        const state = loanStateFromDebt(debt);
+        if (!state) return NextResponse.json({ error: 'La deuda no es un préstamo con sistema de amortización.' }, { status: 409 });
+
+        // Future UVA installments are shown at the last known value.
+        let unitValue: number | null = null;
+        if (state.system === 'uva') {
+            const today = new Date().toISOString().split('T')[0];
+            const lookup = buildIndexLookup(await loadIndexValues(supabase as any, activeSpaceId, [UVA_SERIES]));
+            unitValue = lookup(UVA_SERIES, today)?.value ?? null;
+        }
+
+        const { data: payments, error: paymentsError } = await supabase
+            .from('loan_payments')
+            .select('*')
+            .eq('debt_id', debt.id)
+            .eq('space_id', activeSpaceId)
+            .order('installment_number', { ascending: true })
+            .order('created_at', { ascending: true });
+
+        if (paymentsError && !isMissingLoanColumnError(paymentsError.message)) {
+            return NextResponse.json({ error: paymentsError.message }, { status: 500 });
+        }
+        if (paymentsError) {
+            logWarn('loan_payments_table_missing_returning_empty', {
+                ...context,
+                userId: session.user.id,
+                reason: paymentsError.message,
+            });
+        }
+
+        const schedule = buildAmortizationSchedule(state);
+
+        logInfo('loan_schedule_loaded', {
+            ...context,
+            userId: session.user.id,
+            debtId: debt.id,
+            rows: schedule.length,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({ state, unit_value: unitValue, schedule, payments: payments || [] });
+    } catch (error) {
+        logError('loan_schedule_get_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: 'Error al cargar la tabla de amortización' }, { status: 500 });
+    }
+}
@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { LoanInputSchema } from '@/lib/schemas';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { recordAuditEvent } from '@/lib/audit';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { buildIndexLookup, loadIndexValues } from '@/lib/indexes';
+import { UVA_SERIES, isMissingLoanColumnError, loanDebtFields, loanStateFromTerms } from '@/lib/loans';
+
+export async function POST(req: Request) {
+    const context = createRequestContext('/api/debts/loans', 'POST');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const body = await req.json();
+        const validated = LoanInputSchema.parse(body);
+
+        // A UVA loan is priced in pesos with the last UVA value loaded in Índices.
+        let unitValue = 1;
+        if (validated.loan_system === 'uva') {
+            const today = new Date().toISOString().split('T')[0];
+            const lookup = buildIndexLookup(await loadIndexValues(supabase as any, activeSpaceId, [UVA_SERIES]));
+            const uva = lookup(UVA_SERIES, today);
+            if (!uva) {
+                return NextResponse.json({ error: 'Cargá la serie UVA en Índices para convertir las cuotas a pesos.' }, { status: 409 });
+            }
+            unitValue = uva.value;
+        }
+
+        const state = loanStateFromTerms(validated);
+        const { data, error } = await supabase
+            .from('debts')
+            .insert([{
+                user_id: session.user.id,
+                space_id: activeSpaceId,
+                name: validated.name,
+                category: validated.category,
+                loan_system: validated.loan_system,
+                principal: validated.principal,
+                annual_rate: validated.annual_rate,
+                rate_kind: validated.rate_kind,
+                total_installments: validated.total_installments,
+                ...loanDebtFields(state, unitValue),
+            }])
+            .select()
+            .single();
+
+        if (error) {
+            if (isMissingLoanColumnError(error.message)) {
+                return NextResponse.json({
+                    error: 'Los préstamos no están inicializados en la base.',
+                    hint: 'Ejecuta supabase-loans.sql en Supabase SQL Editor.',
+                }, { status: 503 });
+            }
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'debt',
+            entityId: data.id,
+            action: 'create',
+            afterData: data,
+            metadata: {
+                source: 'loan',
+                paidInstallments: validated.paid_installments,
+                unitValue,
+            },
+        });
+
+        logInfo('loan_created', {
+            ...context,
+            userId: session.user.id,
+            debtId: data.id,
+            loanSystem: validated.loan_system,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(data);
+    } catch (err: unknown) {
+        const error = err as { errors?: unknown; message?: string };
+        logError('loan_create_exception', err, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: error.errors || error.message || 'Datos inválidos' }, { status: 400 });
+    }
+}
@@ -4,6 +4,8 @@ import { NextResponse } from 'next/server';
 import { createRequestContext, logError, logInfo } from '@/lib/observability';
 import { recordAuditEvent } from '@/lib/audit';
 import { ensureActiveSpace } from '@/lib/spaces';
+import { isMissingDebtRateColumnError } from '@/lib/debt-payoff';
+import { resolveFxSnapshot, toSnapshotBase } from '@/lib/currency';
 
 export async function GET() {
     const context = createRequestContext('/api/debts', 'GET');
@@ -56,13 +58,44 @@ export async function POST(req: Request) {
         const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
 
         const body = await req.json();
-        const validatedData = DebtInputSchema.parse(body);
+        const {
+            annual_rate: annualRate,
+            rate_kind: rateKind,
+            currency,
+            original_amount: originalAmount,
+            fx_rate: fxRate,
+            fx_source: fxSource,
+            ...validatedData
+        } = DebtInputSchema.parse(body);
+        // The rate columns come with supabase-debt-rates.sql; a debt without a rate is stored without them.
+        const rate = annualRate != null ? { annual_rate: annualRate, rate_kind: rateKind || 'tna' } : {};
+        // Both the total and the installment are entered in the debt's currency and stored in ARS.
+        const { amount: totalAmount, ...fxSnapshot } = resolveFxSnapshot({
+            amount: validatedData.total_amount,
+            currency,
+            original_amount: originalAmount,
+            fx_rate: fxRate,
+            fx_source: fxSource,
+        });
+        const money = {
+            ...fxSnapshot,
+            total_amount: totalAmount,
+            monthly_payment: toSnapshotBase(validatedData.monthly_payment, fxSnapshot.fx_rate),
+        };
         const { data, error } = await supabase
             .from('debts')
-            .insert([{ ...validatedData, user_id: session.user.id, space_id: activeSpaceId }])
+            .insert([{ ...validatedData, ...money, ...rate, user_id: session.user.id, space_id: activeSpaceId }])
             .select()
             .single();
-        if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+        if (error) {
+            if (isMissingDebtRateColumnError(error.message)) {
+                return NextResponse.json({
+                    error: 'La tasa de interés de las deudas no está inicializada en la base.',
+                    hint: 'Ejecuta supabase-debt-rates.sql en Supabase SQL Editor.',
+                }, { status: 503 });
+            }
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
 
         await recordAuditEvent({
             supabase,
@@ -0,0 +1,162 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { FxRateInputSchema } from '@/lib/schemas';
+import { createRequestContext, logError, logInfo, logWarn } from '@/lib/observability';
+import { recordAuditEvent } from '@/lib/audit';
+import { ensureActiveSpace } from '@/lib/spaces';
+import {
+    FX_RATE_TYPES,
+    createDolarApiProvider,
+    createSupabaseFxRateStore,
+    getExchangeRate,
+    type FxRateType,
+} from '@/lib/exchange-rates';
+
+function isMissingFxRatesTableError(message?: string | null) {
+    if (!message) return false;
+    const value = message.toLowerCase();
+    return value.includes('fx_rates') && (value.includes('schema cache') || value.includes('does not exist'));
+}
+
+function parseRateType(value: string | null): FxRateType | null {
+    return FX_RATE_TYPES.includes(value as FxRateType) ? value as FxRateType : null;
+}
+
+export async function GET(req: Request) {
+    const context = createRequestContext('/api/fx-rates', 'GET');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const params = new URL(req.url).searchParams;
+        const rateType = parseRateType(params.get('rate_type'));
+        const from = params.get('from');
+        const to = params.get('to');
+
+        // `refresh=1` stores today's quotes for every rate type before listing (existing rows for today are kept).
+        if (params.get('refresh') === '1') {
+            const store = createSupabaseFxRateStore(supabase, activeSpaceId);
+            const provider = createDolarApiProvider();
+            await Promise.all(
+                (rateType ? [rateType] : FX_RATE_TYPES).map((type) => getExchangeRate({ store, provider, request: { rateType: type } }))
+            );
+        }
+
+        let query = supabase
+            .from('fx_rates')
+            .select('*')
+            .eq('space_id', activeSpaceId)
+            .order('rate_date', { ascending: false })
+            .limit(500);
+
+        if (rateType) query = query.eq('rate_type', rateType);
+        if (from) query = query.gte('rate_date', from);
+        if (to) query = query.lte('rate_date', to);
+
+        const { data, error } = await query;
+
+        if (error) {
+            if (isMissingFxRatesTableError(error.message)) {
+                logWarn('fx_rates_table_missing_returning_empty', {
+                    ...context,
+                    userId: session.user.id,
+                    reason: error.message,
+                });
+                return NextResponse.json([]);
+            }
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+
+        logInfo('fx_rates_loaded', {
+            ...context,
+            userId: session.user.id,
+            count: data?.length || 0,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(data || []);
+    } catch (error) {
+        logError('fx_rates_get_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: 'Error al cargar cotizaciones' }, { status: 500 });
+    }
+}
+
+export async function POST(req: Request) {
+    const context = createRequestContext('/api/fx-rates', 'POST');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const payload = await req.json();
+        const validated = FxRateInputSchema.parse(payload);
+
+        // Manual entries overwrite whatever was stored for that day and rate type.
+        const { data, error } = await supabase
+            .from('fx_rates')
+            .upsert({
+                ...validated,
+                buy: validated.buy ?? null,
+                source: 'manual',
+                space_id: activeSpaceId,
+                created_by: session.user.id,
+            }, {
+                onConflict: 'space_id,currency,rate_type,rate_date',
+            })
+            .select()
+            .single();
+
+        if (error) {
+            if (isMissingFxRatesTableError(error.message)) {
+                return NextResponse.json({
+                    error: 'El historial de cotizaciones no está inicializado en la base.',
+                    hint: 'Ejecuta supabase-currency.sql en Supabase SQL Editor.',
+                }, { status: 503 });
+            }
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'fx_rate',
+            entityId: data.id,
+            action: 'create',
+            afterData: data,
+        });
+
+        logInfo('fx_rate_upserted', {
+            ...context,
+            userId: session.user.id,
+            rateType: data.rate_type,
+            rateDate: data.rate_date,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(data);
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('fx_rate_upsert_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'Datos inválidos' }, { status: 400 });
+    }
+}
@@ -0,0 +1,152 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { ImportProfileUpdateSchema } from '@/lib/schemas';
+import { recordAuditEvent } from '@/lib/audit';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { ensureActiveSpace } from '@/lib/spaces';
+
+const ParamsSchema = z.object({
+    id: z.string().uuid('ID de perfil inválido'),
+});
+
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/import-profiles/[id]', 'PUT');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de perfil inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const payload = await req.json();
+        const validated = ImportProfileUpdateSchema.parse(payload);
+
+        const { data: existingProfile, error: existingError } = await supabase
+            .from('import_profiles')
+            .select('id, name, bank, mapping')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (existingError) return NextResponse.json({ error: existingError.message }, { status: 500 });
+        if (!existingProfile) return NextResponse.json({ error: 'Perfil no encontrado' }, { status: 404 });
+
+        const { data: updatedProfile, error: updateError } = await supabase
+            .from('import_profiles')
+            .update(validated)
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .select('id, name, bank, mapping')
+            .single();
+
+        if (updateError) {
+            if (updateError.code === '23505') {
+                return NextResponse.json({ error: 'Ya existe un perfil con ese nombre' }, { status: 409 });
+            }
+            return NextResponse.json({ error: updateError.message }, { status: 500 });
+        }
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'import_profile',
+            entityId: updatedProfile.id,
+            action: 'update',
+            beforeData: existingProfile,
+            afterData: updatedProfile,
+        });
+
+        logInfo('import_profile_updated', {
+            ...context,
+            userId: session.user.id,
+            profileId: updatedProfile.id,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(updatedProfile);
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('import_profile_update_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'Datos inválidos' }, { status: 400 });
+    }
+}
+
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/import-profiles/[id]', 'DELETE');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de perfil inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const { data: existingProfile, error: existingError } = await supabase
+            .from('import_profiles')
+            .select('id, name, bank, mapping')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (existingError) return NextResponse.json({ error: existingError.message }, { status: 500 });
+        if (!existingProfile) return NextResponse.json({ error: 'Perfil no encontrado' }, { status: 404 });
+
+        const { error: deleteError } = await supabase
+            .from('import_profiles')
+            .delete()
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId);
+
+        if (deleteError) return NextResponse.json({ error: deleteError.message }, { status: 500 });
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'import_profile',
+            entityId: existingProfile.id,
+            action: 'delete',
+            beforeData: existingProfile,
+        });
+
+        logInfo('import_profile_deleted', {
+            ...context,
+            userId: session.user.id,
+            profileId: existingProfile.id,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({ success: true, id: existingProfile.id });
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('import_profile_delete_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'No se pudo eliminar el perfil' }, { status: 400 });
+    }
+}
@@ -0,0 +1,123 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { ImportProfileInputSchema } from '@/lib/schemas';
+import { createRequestContext, logError, logInfo, logWarn } from '@/lib/observability';
+import { recordAuditEvent } from '@/lib/audit';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { BUILTIN_IMPORT_PROFILES, isMissingImportProfilesTableError } from '@/lib/bank-import';
+
+export async function GET() {
+    const context = createRequestContext('/api/import-profiles', 'GET');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const { data, error } = await supabase
+            .from('import_profiles')
+            .select('id, name, bank, mapping')
+            .eq('space_id', activeSpaceId)
+            .order('name', { ascending: true });
+
+        if (error) {
+            if (isMissingImportProfilesTableError(error.message)) {
+                logWarn('import_profiles_table_missing_returning_builtin', {
+                    ...context,
+                    userId: session.user.id,
+                    reason: error.message,
+                });
+                return NextResponse.json(BUILTIN_IMPORT_PROFILES);
+            }
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+
+        logInfo('import_profiles_loaded', {
+            ...context,
+            userId: session.user.id,
+            count: data?.length || 0,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json([...BUILTIN_IMPORT_PROFILES, ...(data || [])]);
+    } catch (error) {
+        logError('import_profiles_get_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: 'Error al cargar perfiles de importación' }, { status: 500 });
+    }
+}
+
+export async function POST(req: Request) {
+    const context = createRequestContext('/api/import-profiles', 'POST');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const payload = await req.json();
+        const validated = ImportProfileInputSchema.parse(payload);
+
+        const { data, error } = await supabase
+            .from('import_profiles')
+            .insert({
+                ...validated,
+                bank: validated.bank || null,
+                space_id: activeSpaceId,
+                user_id: session.user.id,
+            })
+            .select('id, name, bank, mapping')
+            .single();
+
+        if (error) {
+            if (isMissingImportProfilesTableError(error.message)) {
+                return NextResponse.json({
+                    error: 'Los perfiles de importación no están inicializados en la base.',
+                    hint: 'Ejecuta supabase-import-profiles.sql en Supabase SQL Editor.',
+                }, { status: 503 });
+            }
+            if (error.code === '23505') {
+                return NextResponse.json({ error: 'Ya existe un perfil con ese nombre' }, { status: 409 });
+            }
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'import_profile',
+            entityId: data.id,
+            action: 'create',
+            afterData: data,
+        });
+
+        logInfo('import_profile_created', {
+            ...context,
+            userId: session.user.id,
+            profileId: data.id,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(data);
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('import_profile_create_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'Datos inválidos' }, { status: 400 });
+    }
+}
@@ -0,0 +1,157 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { IndexValuesInputSchema } from '@/lib/schemas';
+import { createRequestContext, logError, logInfo, logWarn } from '@/lib/observability';
+import { recordAuditEvent } from '@/lib/audit';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { isMissingIndexValuesTableError, selectIndexValues, summarizeIndexSeries } from '@/lib/indexes';
+
+export async function GET(req: Request) {
+    const context = createRequestContext('/api/indexes', 'GET');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const params = new URL(req.url).searchParams;
+        const series = params.get('series');
+        // `all=1` sends the whole series in date order (the deflator needs every month), not just the latest values.
+        const wantsAll = params.get('all') === '1';
+
+        // The summary needs every series; the value list is only sent for the requested one, latest first.
+        const { data: summaryRows, error } = await selectIndexValues(supabase as any, activeSpaceId);
+
+        if (error) {
+            if (isMissingIndexValuesTableError(error.message)) {
+                logWarn('index_values_table_missing_returning_empty', {
+                    ...context,
+                    userId: session.user.id,
+                    reason: error.message,
+                });
+                return NextResponse.json({ series: summarizeIndexSeries([]), values: [] });
+            }
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+
+        let values: any[] = [];
+        if (series && wantsAll) {
+            const { data: seriesRows, error: seriesError } = await selectIndexValues(supabase as any, activeSpaceId, {
+                series: [series.toUpperCase()],
+            });
+
+            if (seriesError) return NextResponse.json({ error: seriesError.message }, { status: 500 });
+            values = seriesRows;
+        } else if (series) {
+            const { data: seriesRows, error: seriesError } = await supabase
+                .from('index_values')
+                .select('id, series, date, value, source')
+                .eq('space_id', activeSpaceId)
+                .eq('series', series.toUpperCase())
+                .order('date', { ascending: false })
+                .limit(500);
+
+            if (seriesError) return NextResponse.json({ error: seriesError.message }, { status: 500 });
+            values = (seriesRows || []).map((row: any) => ({ ...row, value: Number(row.value) }));
+        }
+
+        logInfo('index_values_loaded', {
+            ...context,
+            userId: session.user.id,
+            count: summaryRows.length,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({ series: summarizeIndexSeries(summaryRows), values });
+    } catch (error) {
+        logError('index_values_get_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: 'Error al cargar índices' }, { status: 500 });
+    }
+}
+
+export async function POST(req: Request) {
+    const context = createRequestContext('/api/indexes', 'POST');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const payload = await req.json();
+        const validated = IndexValuesInputSchema.parse(payload);
+
+        // A value loaded again for the same day replaces the stored one (corrections, re-uploaded CSVs).
+        const byDate = new Map(validated.values.map((row) => [row.date, row.value]));
+        const rows = Array.from(byDate.entries()).map(([date, value]) => ({
+            space_id: activeSpaceId,
+            series: validated.series,
+            date,
+            value,
+            source: validated.source,
+            created_by: session.user.id,
+            updated_at: new Date().toISOString(),
+        }));
+
+        const { data, error } = await supabase
+            .from('index_values')
+            .upsert(rows, { onConflict: 'space_id,series,date' })
+            .select('id');
+
+        if (error) {
+            if (isMissingIndexValuesTableError(error.message)) {
+                return NextResponse.json({
+                    error: 'La tabla de índices no está inicializada en la base.',
+                    hint: 'Ejecuta supabase-indexes.sql en Supabase SQL Editor.',
+                }, { status: 503 });
+            }
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+
+        const dates = rows.map((row) => row.date).sort();
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'index_series',
+            entityId: validated.series,
+            action: 'update',
+            metadata: {
+                source: validated.source,
+                saved: data?.length || 0,
+                from: dates[0],
+                to: dates[dates.length - 1],
+            },
+        });
+
+        logInfo('index_values_upserted', {
+            ...context,
+            userId: session.user.id,
+            series: validated.series,
+            source: validated.source,
+            saved: data?.length || 0,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({ series: validated.series, saved: data?.length || 0 });
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('index_values_upsert_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'Datos inválidos' }, { status: 400 });
+    }
+}
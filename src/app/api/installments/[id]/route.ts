@@ -0,0 +1,159 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { InstallmentPlanUpdateSchema } from '@/lib/schemas';
+import { recordAuditEvent } from '@/lib/audit';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { ensureActiveSpace } from '@/lib/spaces';
+
+const ParamsSchema = z.object({
+    id: z.string().uuid('ID de plan inválido'),
+});
+
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/installments/[id]', 'PUT');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de plan inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const payload = await req.json();
+        const validated = InstallmentPlanUpdateSchema.parse(payload);
+
+        const { data: existingPlan, error: existingError } = await supabase
+            .from('installment_plans')
+            .select('*')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (existingError) return NextResponse.json({ error: existingError.message }, { status: 500 });
+        if (!existingPlan) return NextResponse.json({ error: 'Plan de cuotas no encontrado' }, { status: 404 });
+
+        const { data: updatedPlan, error: updateError } = await supabase
+            .from('installment_plans')
+            .update(validated)
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .select('*')
+            .single();
+
+        if (updateError) return NextResponse.json({ error: updateError.message }, { status: 500 });
+
+        // Cancelling (e.g. an early payoff) drops the charges that were not billed yet from the projection.
+        if (validated.status === 'cancelled') {
+            const { error: chargesError } = await supabase
+                .from('installment_charges')
+                .update({ status: 'cancelled' })
+                .eq('space_id', activeSpaceId)
+                .eq('plan_id', updatedPlan.id)
+                .eq('status', 'scheduled');
+
+            if (chargesError) return NextResponse.json({ error: chargesError.message }, { status: 500 });
+        }
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'installment_plan',
+            entityId: updatedPlan.id,
+            action: 'update',
+            beforeData: existingPlan,
+            afterData: updatedPlan,
+        });
+
+        logInfo('installment_plan_updated', {
+            ...context,
+            userId: session.user.id,
+            planId: updatedPlan.id,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(updatedPlan);
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('installment_plan_update_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'Datos inválidos' }, { status: 400 });
+    }
+}
+
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/installments/[id]', 'DELETE');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de plan inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const { data: existingPlan, error: existingError } = await supabase
+            .from('installment_plans')
+            .select('*')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (existingError) return NextResponse.json({ error: existingError.message }, { status: 500 });
+        if (!existingPlan) return NextResponse.json({ error: 'Plan de cuotas no encontrado' }, { status: 404 });
+
+        const { error: deleteError } = await supabase
+            .from('installment_plans')
+            .delete()
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId);
+
+        if (deleteError) return NextResponse.json({ error: deleteError.message }, { status: 500 });
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'installment_plan',
+            entityId: existingPlan.id,
+            action: 'delete',
+            beforeData: existingPlan,
+        });
+
+        logInfo('installment_plan_deleted', {
+            ...context,
+            userId: session.user.id,
+            planId: existingPlan.id,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({ success: true, id: existingPlan.id });
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('installment_plan_delete_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'No se pudo eliminar el plan' }, { status: 400 });
+    }
+}
@@ -0,0 +1,156 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { InstallmentPlanInputSchema } from '@/lib/schemas';
+import { createRequestContext, logError, logInfo, logWarn } from '@/lib/observability';
+import { recordAuditEvent } from '@/lib/audit';
+import { ensureActiveSpace } from '@/lib/spaces';
+import {
+    INVALID_CARD_ERROR,
+    createInstallmentPlan,
+    isMissingInstallmentsTableError,
+    projectCommittedByMonth,
+    type InstallmentChargeRow,
+    type InstallmentPlanRow,
+} from '@/lib/installments';
+
+function clamp(n: number, min: number, max: number) {
+    return Math.max(min, Math.min(max, n));
+}
+
+export async function GET(req: Request) {
+    const context = createRequestContext('/api/installments', 'GET');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+        const months = clamp(Number(new URL(req.url).searchParams.get('months') || 6), 1, 24);
+        const currentMonth = new Date().toISOString().slice(0, 7);
+
+        const { data: plans, error: plansError } = await supabase
+            .from('installment_plans')
+            .select('*')
+            .eq('space_id', activeSpaceId)
+            .neq('status', 'cancelled')
+            .order('purchase_date', { ascending: false });
+
+        if (plansError) {
+            if (isMissingInstallmentsTableError(plansError.message)) {
+                logWarn('installments_table_missing_returning_empty', {
+                    ...context,
+                    userId: session.user.id,
+                    reason: plansError.message,
+                });
+                return NextResponse.json({ plans: [], committed: projectCommittedByMonth([], currentMonth, months) });
+            }
+            return NextResponse.json({ error: plansError.message }, { status: 500 });
+        }
+
+        const { data: charges, error: chargesError } = await supabase
+            .from('installment_charges')
+            .select('plan_id, installment_number, charge_date, due_date, amount, currency, status, card_statement_id')
+            .eq('space_id', activeSpaceId)
+            .neq('status', 'cancelled')
+            .order('installment_number', { ascending: true });
+
+        if (chargesError) return NextResponse.json({ error: chargesError.message }, { status: 500 });
+
+        const chargeRows = (charges || []) as InstallmentChargeRow[];
+        const withProgress = ((plans || []) as InstallmentPlanRow[]).map((plan) => {
+            const planCharges = chargeRows.filter((charge) => charge.plan_id === plan.id);
+            const pending = planCharges.filter((charge) => charge.status === 'scheduled');
+            return {
+                ...plan,
+                billed_installments: planCharges.length - pending.length,
+                remaining_installments: pending.length,
+                remaining_amount: Number(pending.reduce((sum, charge) => sum + Number(charge.amount || 0), 0).toFixed(2)),
+                next_charge: pending[0] ?? null,
+            };
+        });
+
+        // Billed charges stay committed until their statement is due.
+        const committed = projectCommittedByMonth(chargeRows, currentMonth, months);
+
+        logInfo('installments_loaded', {
+            ...context,
+            userId: session.user.id,
+            count: withProgress.length,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({ plans: withProgress, committed });
+    } catch (error) {
+        logError('installments_get_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: 'Error al cargar compras en cuotas' }, { status: 500 });
+    }
+}
+
+export async function POST(req: Request) {
+    const context = createRequestContext('/api/installments', 'POST');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const payload = await req.json();
+        const { paid_installments: paidInstallments, ...validated } = InstallmentPlanInputSchema.parse(payload);
+
+        const { plan, charges, error } = await createInstallmentPlan(supabase as any, activeSpaceId, session.user.id, {
+            ...validated,
+            billed_through: paidInstallments,
+            source: 'manual',
+        });
+
+        if (!plan) {
+            if (isMissingInstallmentsTableError(error)) {
+                return NextResponse.json({
+                    error: 'El módulo de cuotas no está inicializado en la base.',
+                    hint: 'Ejecuta supabase-installments.sql en Supabase SQL Editor.',
+                }, { status: 503 });
+            }
+            return NextResponse.json({ error }, { status: error === INVALID_CARD_ERROR ? 400 : 500 });
+        }
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'installment_plan',
+            entityId: plan.id,
+            action: 'create',
+            afterData: plan,
+            metadata: { charges: charges.length },
+        });
+
+        logInfo('installment_plan_created', {
+            ...context,
+            userId: session.user.id,
+            planId: plan.id,
+            charges: charges.length,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({ ...plan, charges });
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('installment_plan_create_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'Datos inválidos' }, { status: 400 });
+    }
+}
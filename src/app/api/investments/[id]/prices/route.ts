@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { InvestmentPricesInputSchema } from '@/lib/schemas';
+import { recordAuditEvent } from '@/lib/audit';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { ensureActiveSpace } from '@/lib/spaces';
+
+const ParamsSchema = z.object({
+    id: z.string().uuid('ID de inversión inválido'),
+});
+
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/investments/[id]/prices', 'POST');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de inversión inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const payload = await req.json();
+        const validated = InvestmentPricesInputSchema.parse(payload);
+
+        const { data: holding, error: holdingError } = await supabase
+            .from('investment_holdings')
+            .select('id, kind')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (holdingError) return NextResponse.json({ error: holdingError.message }, { status: 500 });
+        if (!holding) return NextResponse.json({ error: 'Inversión no encontrada' }, { status: 404 });
+        if (holding.kind === 'plazo_fijo') {
+            return NextResponse.json({ error: 'Un plazo fijo se valúa con su TNA, no con cotizaciones' }, { status: 400 });
+        }
+
+        // A price loaded again for the same day replaces the stored one, like index values do.
+        const byDate = new Map(validated.prices.map((row) => [row.date, row.price]));
+        const rows = Array.from(byDate.entries()).map(([date, price]) => ({
+            space_id: activeSpaceId,
+            holding_id: holding.id,
+            date,
+            price,
+            source: validated.source,
+            created_by: session.user.id,
+            updated_at: new Date().toISOString(),
+        }));
+
+        const { data, error } = await supabase
+            .from('investment_prices')
+            .upsert(rows, { onConflict: 'holding_id,date' })
+            .select('id');
+
+        if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+
+        const dates = rows.map((row) => row.date).sort();
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'investment_holding',
+            entityId: holding.id,
+            action: 'update',
+            metadata: {
+                event: 'prices_loaded',
+                source: validated.source,
+                saved: data?.length || 0,
+                from: dates[0],
+                to: dates[dates.length - 1],
+            },
+        });
+
+        logInfo('investment_prices_upserted', {
+            ...context,
+            userId: session.user.id,
+            holdingId: holding.id,
+            source: validated.source,
+            saved: data?.length || 0,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({ holding_id: holding.id, saved: data?.length || 0 });
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('investment_prices_upsert_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'Datos inválidos' }, { status: 400 });
+    }
+}
@@ -0,0 +1,175 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { InvestmentHoldingUpdateSchema } from '@/lib/schemas';
+import { recordAuditEvent } from '@/lib/audit';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { ensureActiveSpace } from '@/lib/spaces';
+
+const ParamsSchema = z.object({
+    id: z.string().uuid('ID de inversión inválido'),
+});
+
+const DEPOSIT_TERMS = ['principal', 'tna', 'start_date', 'maturity_date'] as const;
+
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/investments/[id]', 'PUT');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de inversión inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const payload = await req.json();
+        const validated = InvestmentHoldingUpdateSchema.parse(payload);
+
+        const { data: existingHolding, error: existingError } = await supabase
+            .from('investment_holdings')
+            .select('*')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (existingError) return NextResponse.json({ error: existingError.message }, { status: 500 });
+        if (!existingHolding) return NextResponse.json({ error: 'Inversión no encontrada' }, { status: 404 });
+
+        if (validated.account_id) {
+            const { data: account } = await supabase
+                .from('accounts')
+                .select('id')
+                .eq('id', validated.account_id)
+                .eq('space_id', activeSpaceId)
+                .maybeSingle();
+            if (!account) return NextResponse.json({ error: 'Cuenta no encontrada' }, { status: 404 });
+        }
+
+        const changesTerms = DEPOSIT_TERMS.some((field) => validated[field] !== undefined);
+        if (existingHolding.kind === 'plazo_fijo') {
+            // The interest movement was booked with the old terms; editing them now would leave it out of sync.
+            if (changesTerms && existingHolding.status !== 'active') {
+                return NextResponse.json({ error: 'El plazo fijo ya venció; sus condiciones no se pueden editar' }, { status: 409 });
+            }
+            const start = validated.start_date ?? existingHolding.start_date;
+            const maturity = validated.maturity_date ?? existingHolding.maturity_date;
+            if (validated.principal === null || validated.tna === null || !start || !maturity || maturity <= start) {
+                return NextResponse.json({ error: 'El vencimiento debe ser posterior a la constitución' }, { status: 400 });
+            }
+        } else if (changesTerms) {
+            return NextResponse.json({ error: 'Solo un plazo fijo tiene capital, TNA y vencimiento' }, { status: 400 });
+        }
+
+        const { data: updatedHolding, error: updateError } = await supabase
+            .from('investment_holdings')
+            .update({ ...validated, updated_at: new Date().toISOString() })
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .select('*')
+            .single();
+
+        if (updateError) return NextResponse.json({ error: updateError.message }, { status: 500 });
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'investment_holding',
+            entityId: updatedHolding.id,
+            action: 'update',
+            beforeData: existingHolding,
+            afterData: updatedHolding,
+        });
+
+        logInfo('investment_holding_updated', {
+            ...context,
+            userId: session.user.id,
+            holdingId: updatedHolding.id,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(updatedHolding);
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('investment_holding_update_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'Datos inválidos' }, { status: 400 });
+    }
+}
+
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/investments/[id]', 'DELETE');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de inversión inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const { data: existingHolding, error: existingError } = await supabase
+            .from('investment_holdings')
+            .select('*')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (existingError) return NextResponse.json({ error: existingError.message }, { status: 500 });
+        if (!existingHolding) return NextResponse.json({ error: 'Inversión no encontrada' }, { status: 404 });
+
+        // Trades and prices go with the holding; a booked interest movement stays in the ledger.
+        const { error: deleteError } = await supabase
+            .from('investment_holdings')
+            .delete()
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId);
+
+        if (deleteError) return NextResponse.json({ error: deleteError.message }, { status: 500 });
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'investment_holding',
+            entityId: existingHolding.id,
+            action: 'delete',
+            beforeData: existingHolding,
+        });
+
+        logInfo('investment_holding_deleted', {
+            ...context,
+            userId: session.user.id,
+            holdingId: existingHolding.id,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({ success: true, id: existingHolding.id });
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('investment_holding_delete_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'No se pudo eliminar la inversión' }, { status: 400 });
+    }
+}
@@ -0,0 +1,87 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { recordAuditEvent } from '@/lib/audit';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { computePosition, type InvestmentTradeRow } from '@/lib/investments';
+
+const ParamsSchema = z.object({
+    id: z.string().uuid('ID de inversión inválido'),
+    tradeId: z.string().uuid('ID de operación inválido'),
+});
+
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string; tradeId: string }> }) {
+    const context = createRequestContext('/api/investments/[id]/trades/[tradeId]', 'DELETE');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de operación inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const { data: trades, error: tradesError } = await supabase
+            .from('investment_trades')
+            .select('*')
+            .eq('holding_id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .order('date', { ascending: true })
+            .order('created_at', { ascending: true });
+
+        if (tradesError) return NextResponse.json({ error: tradesError.message }, { status: 500 });
+
+        const existingTrade = (trades || []).find((trade: any) => trade.id === parsedParams.data.tradeId);
+        if (!existingTrade) return NextResponse.json({ error: 'Operación no encontrada' }, { status: 404 });
+
+        // Removing a purchase cannot leave a later sale without the units it sold.
+        const remaining = (trades || []).filter((trade: any) => trade.id !== existingTrade.id) as InvestmentTradeRow[];
+        if (computePosition(remaining).oversold > 0) {
+            return NextResponse.json({ error: 'Sin esta compra, una venta posterior quedaría sin unidades' }, { status: 409 });
+        }
+
+        const { error: deleteError } = await supabase
+            .from('investment_trades')
+            .delete()
+            .eq('id', existingTrade.id)
+            .eq('space_id', activeSpaceId);
+
+        if (deleteError) return NextResponse.json({ error: deleteError.message }, { status: 500 });
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'investment_trade',
+            entityId: existingTrade.id,
+            action: 'delete',
+            beforeData: existingTrade,
+        });
+
+        logInfo('investment_trade_deleted', {
+            ...context,
+            userId: session.user.id,
+            holdingId: parsedParams.data.id,
+            tradeId: existingTrade.id,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({ success: true, id: existingTrade.id });
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('investment_trade_delete_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'No se pudo eliminar la operación' }, { status: 400 });
+    }
+}
@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { InvestmentTradeInputSchema } from '@/lib/schemas';
+import { recordAuditEvent } from '@/lib/audit';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { validateTrade, type InvestmentTradeRow } from '@/lib/investments';
+
+const ParamsSchema = z.object({
+    id: z.string().uuid('ID de inversión inválido'),
+});
+
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/investments/[id]/trades', 'POST');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de inversión inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const payload = await req.json();
+        const validated = InvestmentTradeInputSchema.parse(payload);
+
+        const { data: holding, error: holdingError } = await supabase
+            .from('investment_holdings')
+            .select('id, kind, status')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (holdingError) return NextResponse.json({ error: holdingError.message }, { status: 500 });
+        if (!holding) return NextResponse.json({ error: 'Inversión no encontrada' }, { status: 404 });
+        if (holding.kind === 'plazo_fijo') {
+            return NextResponse.json({ error: 'Un plazo fijo no admite compras ni ventas' }, { status: 400 });
+        }
+
+        const { data: trades, error: tradesError } = await supabase
+            .from('investment_trades')
+            .select('side, date, quantity, price, fees')
+            .eq('holding_id', holding.id)
+            .order('date', { ascending: true })
+            .order('created_at', { ascending: true });
+
+        if (tradesError) return NextResponse.json({ error: tradesError.message }, { status: 500 });
+
+        const conflict = validateTrade((trades || []) as InvestmentTradeRow[], validated);
+        if (conflict) return NextResponse.json({ error: conflict }, { status: 409 });
+
+        const { data, error } = await supabase
+            .from('investment_trades')
+            .insert({
+                ...validated,
+                holding_id: holding.id,
+                space_id: activeSpaceId,
+                created_by: session.user.id,
+            })
+            .select()
+            .single();
+
+        if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'investment_trade',
+            entityId: data.id,
+            action: 'create',
+            afterData: data,
+        });
+
+        logInfo('investment_trade_created', {
+            ...context,
+            userId: session.user.id,
+            holdingId: holding.id,
+            tradeId: data.id,
+            side: data.side,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(data);
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('investment_trade_create_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'Datos inválidos' }, { status: 400 });
+    }
+}
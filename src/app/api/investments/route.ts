@@ -0,0 +1,180 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { InvestmentHoldingInputSchema } from '@/lib/schemas';
+import { createRequestContext, logError, logInfo, logWarn } from '@/lib/observability';
+import { recordAuditEvent } from '@/lib/audit';
+import { ensureActiveSpace } from '@/lib/spaces';
+import {
+    isMissingInvestmentsTableError,
+    valueHoldings,
+    type InvestmentHoldingRow,
+    type InvestmentPriceRow,
+    type InvestmentTradeRow,
+} from '@/lib/investments';
+
+export async function GET(req: Request) {
+    const context = createRequestContext('/api/investments', 'GET');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+        const includeClosed = new URL(req.url).searchParams.get('include_closed') === '1';
+
+        let query = supabase
+            .from('investment_holdings')
+            .select('*')
+            .eq('space_id', activeSpaceId)
+            .order('created_at', { ascending: true });
+
+        if (!includeClosed) query = query.neq('status', 'closed');
+
+        const { data: holdings, error } = await query;
+
+        if (error) {
+            if (isMissingInvestmentsTableError(error.message)) {
+                logWarn('investment_holdings_table_missing_returning_empty', {
+                    ...context,
+                    userId: session.user.id,
+                    reason: error.message,
+                });
+                return NextResponse.json({ holdings: [], trades: [], available: false });
+            }
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+
+        const holdingIds = (holdings || []).map((holding: any) => holding.id as string);
+        const [tradesResult, pricesResult] = holdingIds.length
+            ? await Promise.all([
+                supabase
+                    .from('investment_trades')
+                    .select('*')
+                    .eq('space_id', activeSpaceId)
+                    .in('holding_id', holdingIds)
+                    .order('date', { ascending: true })
+                    .order('created_at', { ascending: true }),
+                supabase
+                    .from('investment_prices')
+                    .select('holding_id, date, price')
+                    .eq('space_id', activeSpaceId)
+                    .in('holding_id', holdingIds),
+            ])
+            : [{ data: [], error: null }, { data: [], error: null }];
+
+        if (tradesResult.error) return NextResponse.json({ error: tradesResult.error.message }, { status: 500 });
+        if (pricesResult.error) return NextResponse.json({ error: pricesResult.error.message }, { status: 500 });
+
+        const today = new Date().toISOString().slice(0, 10);
+        const valuations = valueHoldings(
+            (holdings || []) as InvestmentHoldingRow[],
+            (tradesResult.data || []) as InvestmentTradeRow[],
+            (pricesResult.data || []) as InvestmentPriceRow[],
+            today
+        );
+
+        logInfo('investment_holdings_loaded', {
+            ...context,
+            userId: session.user.id,
+            count: holdings?.length || 0,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({
+            holdings: (holdings || []).map((holding: any, index: number) => ({ ...holding, valuation: valuations[index] })),
+            trades: tradesResult.data || [],
+            available: true,
+        });
+    } catch (error) {
+        logError('investment_holdings_get_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: 'Error al cargar inversiones' }, { status: 500 });
+    }
+}
+
+export async function POST(req: Request) {
+    const context = createRequestContext('/api/investments', 'POST');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const payload = await req.json();
+        const validated = InvestmentHoldingInputSchema.parse(payload);
+
+        if (validated.account_id) {
+            const { data: account } = await supabase
+                .from('accounts')
+                .select('id')
+                .eq('id', validated.account_id)
+                .eq('space_id', activeSpaceId)
+                .maybeSingle();
+            if (!account) return NextResponse.json({ error: 'Cuenta no encontrada' }, { status: 404 });
+        }
+
+        // Deposit terms only mean something for a plazo fijo; market holdings are valued by trades and prices.
+        const isDeposit = validated.kind === 'plazo_fijo';
+        const { data, error } = await supabase
+            .from('investment_holdings')
+            .insert({
+                ...validated,
+                principal: isDeposit ? validated.principal : null,
+                tna: isDeposit ? validated.tna : null,
+                start_date: isDeposit ? validated.start_date : null,
+                maturity_date: isDeposit ? validated.maturity_date : null,
+                user_id: session.user.id,
+                space_id: activeSpaceId,
+            })
+            .select()
+            .single();
+
+        if (error) {
+            if (isMissingInvestmentsTableError(error.message)) {
+                return NextResponse.json({
+                    error: 'La tabla de inversiones no está inicializada en la base.',
+                    hint: 'Ejecuta supabase-investments.sql en Supabase SQL Editor.',
+                }, { status: 503 });
+            }
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'investment_holding',
+            entityId: data.id,
+            action: 'create',
+            afterData: data,
+        });
+
+        logInfo('investment_holding_created', {
+            ...context,
+            userId: session.user.id,
+            holdingId: data.id,
+            kind: data.kind,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(data);
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('investment_holding_create_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'Datos inválidos' }, { status: 400 });
+    }
+}
@@ -0,0 +1,143 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { createRequestContext, logError, logInfo, logWarn } from '@/lib/observability';
+import { recordAuditEvent } from '@/lib/audit';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { normalizeCurrency } from '@/lib/currency';
+import {
+    isMissingNetWorthTableError,
+    loadNetWorth,
+    netWorthChange,
+    saveNetWorthSnapshot,
+    type NetWorthSnapshot,
+} from '@/lib/net-worth';
+
+const MAX_SNAPSHOT_MONTHS = 60;
+
+export async function GET(req: Request) {
+    const context = createRequestContext('/api/net-worth', 'GET');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+        const currency = normalizeCurrency(new URL(req.url).searchParams.get('currency'));
+        const today = new Date().toISOString().slice(0, 10);
+
+        const [{ breakdown, assetsAvailable }, snapshotsResult] = await Promise.all([
+            loadNetWorth(supabase as any, activeSpaceId, { asOf: today, currency }),
+            supabase
+                .from('net_worth_snapshots')
+                .select('month, as_of, currency, total_assets, total_liabilities, net_worth, assets, liabilities, usd_rate, trigger')
+                .eq('space_id', activeSpaceId)
+                .order('month', { ascending: false })
+                .limit(MAX_SNAPSHOT_MONTHS),
+        ]);
+
+        if (snapshotsResult.error && !isMissingNetWorthTableError(snapshotsResult.error.message)) {
+            return NextResponse.json({ error: snapshotsResult.error.message }, { status: 500 });
+        }
+        if (snapshotsResult.error) {
+            logWarn('net_worth_snapshots_table_missing', {
+                ...context,
+                userId: session.user.id,
+                reason: snapshotsResult.error.message,
+            });
+        }
+
+        const snapshots = ((snapshotsResult.data || []) as any[])
+            .map((row) => row as NetWorthSnapshot)
+            .reverse();
+
+        logInfo('net_worth_loaded', {
+            ...context,
+            userId: session.user.id,
+            currency,
+            snapshots: snapshots.length,
+            missingRates: breakdown.missing_rates,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({
+            current: breakdown,
+            snapshots,
+            change: netWorthChange(snapshots, breakdown),
+            available: assetsAvailable && !snapshotsResult.error,
+        });
+    } catch (error) {
+        logError('net_worth_get_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: 'Error al calcular el patrimonio' }, { status: 500 });
+    }
+}
+
+/**
+ * Takes the snapshot of the current month now. The monthly job closes each month again on the 1st, so this
+ * one is replaced by the month-end figure.
+ */
+export async function POST() {
+    const context = createRequestContext('/api/net-worth', 'POST');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+        const today = new Date().toISOString().slice(0, 10);
+
+        const result = await saveNetWorthSnapshot(supabase as any, {
+            spaceId: activeSpaceId,
+            userId: session.user.id,
+            trigger: 'manual',
+            asOf: today,
+        });
+
+        if (!result.snapshot) {
+            return NextResponse.json({
+                error: 'La tabla de patrimonio no está inicializada en la base.',
+                hint: result.warning,
+            }, { status: 503 });
+        }
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'net_worth_snapshot',
+            entityId: result.snapshot.month,
+            action: 'update',
+            metadata: {
+                trigger: 'manual',
+                asOf: today,
+                netWorth: result.snapshot.net_worth,
+            },
+        });
+
+        logInfo('net_worth_snapshot_saved', {
+            ...context,
+            userId: session.user.id,
+            month: result.snapshot.month,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(result.snapshot);
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('net_worth_snapshot_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'No se pudo guardar el patrimonio' }, { status: 400 });
+    }
+}
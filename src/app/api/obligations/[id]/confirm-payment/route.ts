@@ -4,11 +4,18 @@ import { createClient } from '@/lib/supabase-server';
 import { createRequestContext, logError, logInfo } from '@/lib/observability';
 import { recordAuditEvent } from '@/lib/audit';
 import { ensureActiveSpace } from '@/lib/spaces';
+import { applyObligationPaymentToStatement } from '@/lib/credit-cards';
+import { financingWarning, loadExtractionRates } from '@/lib/card-financing';
+import { recordPayment } from '@/lib/payments';
+import { isPastDue, lateCharges } from '@/lib/obligations';
+import { originalAmountAt, paymentFxSnapshot } from '@/lib/currency';
 
 const BodySchema = z.object({
     payment_amount: z.coerce.number().positive().optional().nullable(),
     payment_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().nullable(),
     description: z.string().optional().nullable(),
+    // Only work out what the payment would leave, so the financing warning can be shown before confirming.
+    dry_run: z.boolean().optional().default(false),
 });
 
 function isoToday() {
@@ -48,7 +55,10 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
         }
 
         const beforeObligation = { ...obligation };
-        const obligationAmount = Number(obligation.amount || 0);
+        const paymentDate = validated.payment_date || isoToday();
+        // Paid after the due date, what is owed includes the late charges accrued up to the payment.
+        const charges = lateCharges(obligation, paymentDate);
+        const obligationAmount = Number(obligation.amount || 0) + charges.total;
         if (!Number.isFinite(obligationAmount) || obligationAmount <= 0) {
             return NextResponse.json({ error: 'Monto de obligación inválido.' }, { status: 409 });
         }
@@ -59,7 +69,32 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
             return NextResponse.json({ error: 'Monto de pago inválido.' }, { status: 400 });
         }
 
-        const paymentDate = validated.payment_date || isoToday();
+        const remaining = Math.max(obligationAmount - paymentAmount, 0);
+
+        // A partial payment of a card statement leaves the rest financed at the statement rates.
+        let financing = null;
+        if (remaining > 0 && (obligation.extraction_id || obligation.minimum_payment != null)) {
+            const rates = await loadExtractionRates(supabase as any, [obligation.extraction_id]);
+            financing = financingWarning(
+                {
+                    balance: obligationAmount,
+                    minimum_payment: obligation.minimum_payment,
+                    rates: rates.get(obligation.extraction_id) ?? null,
+                },
+                paymentAmount
+            );
+        }
+
+        if (validated.dry_run) {
+            return NextResponse.json({
+                dry_run: true,
+                amount_due: obligationAmount,
+                payment_amount: paymentAmount,
+                remaining,
+                financing,
+            });
+        }
+
         const description = (validated.description || '').trim()
             || `Pago de obligación: ${String(obligation.title || 'Obligación')}`;
 
@@ -69,7 +104,8 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
                 user_id: session.user.id,
                 space_id: activeSpaceId,
                 type: 'expense',
-                amount: paymentAmount,
+                // A payment of a foreign obligation is recorded in its currency, at its rate.
+                ...paymentFxSnapshot(paymentAmount, obligation),
                 description,
                 category: obligation.category || 'Deudas',
                 date: paymentDate,
@@ -84,12 +120,15 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
             );
         }
 
-        const remaining = Math.max(obligationAmount - paymentAmount, 0);
-        const nextStatus = remaining <= 0 ? 'paid' : 'pending';
+        const nextStatus = remaining <= 0 ? 'paid' : isPastDue(obligation, isoToday()) ? 'overdue' : 'pending';
         const updatePayload: Record<string, unknown> = {
             status: nextStatus,
             // For partial payments, reduce the outstanding amount so Copilot/insights remain accurate.
             ...(remaining > 0 ? { amount: Number(remaining.toFixed(2)) } : {}),
+            // Foreign obligations keep the original amount in step (the snapshot trigger only syncs ARS rows).
+            ...(remaining > 0 && 'original_amount' in obligation ? { original_amount: originalAmountAt(remaining, obligation) } : {}),
+            // The charges are now part of the amount: interest restarts from the payment and the fee is not repeated.
+            ...(remaining > 0 && charges.total > 0 ? { late_interest_since: paymentDate } : {}),
         };
 
         const { data: updatedObligation, error: updateError } = await supabase
@@ -111,6 +150,21 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
             return NextResponse.json({ error: updateError?.message || 'No se pudo actualizar la obligación.' }, { status: 500 });
         }
 
+        const statement = await applyObligationPaymentToStatement(supabase as any, activeSpaceId, updatedObligation.id, paymentAmount);
+
+        const payment = await recordPayment(supabase as any, {
+            spaceId: activeSpaceId,
+            userId: session.user.id,
+            kind: 'obligation',
+            itemId: updatedObligation.id,
+            transactionId: transaction.id,
+            amount: paymentAmount,
+            paymentDate,
+            balanceBefore: obligationAmount,
+            balanceAfter: remaining,
+            before: beforeObligation,
+        });
+
         await recordAuditEvent({
             supabase,
             userId: session.user.id,
@@ -137,7 +191,11 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
             metadata: {
                 paymentAmount,
                 paymentDate,
+                lateCharges: charges.total,
                 transactionId: transaction.id,
+                statementId: statement?.id ?? null,
+                paymentId: payment?.id ?? null,
+                financing,
             },
         });
 
@@ -147,13 +205,16 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
             obligationId: updatedObligation.id,
             transactionId: transaction.id,
             remaining,
+            financedNextCharges: financing?.next_charges ?? null,
             durationMs: Date.now() - startedAt,
         });
 
         return NextResponse.json({
             obligation: updatedObligation,
             transaction,
+            payment,
             remaining,
+            financing,
         });
     } catch (error) {
         logError('obligation_payment_confirm_exception', error, {
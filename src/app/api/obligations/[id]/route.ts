@@ -5,6 +5,8 @@ import { ObligationSchema } from '@/lib/schemas';
 import { recordAuditEvent } from '@/lib/audit';
 import { createRequestContext, logError, logInfo } from '@/lib/observability';
 import { ensureActiveSpace } from '@/lib/spaces';
+import { isMissingLateFeeColumnError } from '@/lib/obligations';
+import { resolveFxSnapshotUpdate, toSnapshotBase } from '@/lib/currency';
 
 const ObligationUpdateSchema = ObligationSchema.omit({ id: true, user_id: true })
     .partial()
@@ -41,16 +43,28 @@ export async function PUT(req: Request, { params }: { params: Promise<{ id: stri
 
         const body = await req.json().catch(() => ({}));
         const changes = ObligationUpdateSchema.parse(body);
+        // Amounts are edited in the obligation's currency; the stored ones stay in ARS at the snapshot rate.
+        const fxSnapshot = resolveFxSnapshotUpdate(changes, before);
+        const fxRate = fxSnapshot?.fx_rate ?? (Number(before.fx_rate) || 1);
+        const minimumPayment = changes.minimum_payment != null
+            ? { minimum_payment: toSnapshotBase(changes.minimum_payment, fxRate) }
+            : {};
 
         const { data: updated, error: updateError } = await supabase
             .from('obligations')
-            .update(changes)
+            .update({ ...changes, ...(fxSnapshot || {}), ...minimumPayment })
             .eq('id', id)
             .eq('space_id', activeSpaceId)
             .select()
             .single();
 
         if (updateError || !updated) {
+            if (isMissingLateFeeColumnError(updateError?.message)) {
+                return NextResponse.json({
+                    error: 'Los recargos por mora no están inicializados en la base.',
+                    hint: 'Ejecuta supabase-late-fees.sql en Supabase SQL Editor.',
+                }, { status: 503 });
+            }
             return NextResponse.json({ error: updateError?.message || 'No se pudo actualizar la obligación.' }, { status: 500 });
         }
 
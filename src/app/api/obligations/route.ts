@@ -4,6 +4,9 @@ import { ObligationSchema } from '@/lib/schemas';
 import { recordAuditEvent } from '@/lib/audit';
 import { createRequestContext, logError, logInfo, logWarn } from '@/lib/observability';
 import { ensureActiveSpace } from '@/lib/spaces';
+import { loadExtractionRates } from '@/lib/card-financing';
+import { resolveFxSnapshot, toSnapshotBase } from '@/lib/currency';
+import { isMissingLateFeeColumnError, lateCharges, markOverdueObligations, obligationAmountDue } from '@/lib/obligations';
 
 export async function GET() {
     const context = createRequestContext('/api/obligations', 'GET');
@@ -20,19 +23,15 @@ export async function GET() {
 
         const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
 
+        // The daily cron does the same sweep; doing it here too keeps the list right between runs.
         const today = new Date().toISOString().split('T')[0];
-        const { error: overdueUpdateError } = await supabase
-            .from('obligations')
-            .update({ status: 'overdue' })
-            .eq('space_id', activeSpaceId)
-            .eq('status', 'pending')
-            .lt('due_date', today);
-
-        if (overdueUpdateError) {
+        try {
+            await markOverdueObligations(supabase as any, { spaceId: activeSpaceId, userId: session.user.id, today });
+        } catch (overdueUpdateError) {
             logWarn('obligations_overdue_sync_failed', {
                 ...context,
                 userId: session.user.id,
-                reason: overdueUpdateError.message,
+                reason: overdueUpdateError instanceof Error ? overdueUpdateError.message : String(overdueUpdateError),
             });
         }
 
@@ -46,14 +45,23 @@ export async function GET() {
             return NextResponse.json({ error: error.message }, { status: 500 });
         }
 
+        // Statement rates feed the card financing simulator on the client; late charges are computed as of today.
+        const rates = await loadExtractionRates(supabase as any, (data || []).map((row: any) => row.extraction_id));
+        const obligations = (data || []).map((row: any) => ({
+            ...row,
+            interest_rates: row.extraction_id ? rates.get(row.extraction_id) ?? null : null,
+            late_charges: lateCharges(row, today),
+            amount_due: obligationAmountDue(row, today),
+        }));
+
         logInfo('obligations_loaded', {
             ...context,
             userId: session.user.id,
-            count: data?.length || 0,
+            count: obligations.length,
             durationMs: Date.now() - startedAt,
         });
 
-        return NextResponse.json(data);
+        return NextResponse.json(obligations);
     } catch (error) {
         logError('obligations_get_exception', error, {
             ...context,
@@ -83,11 +91,16 @@ export async function POST(req: Request) {
             ...body,
             status: body.status || 'pending',
         });
+        const fxSnapshot = resolveFxSnapshot(validated);
 
         const { data, error } = await supabase
             .from('obligations')
             .insert({
                 ...validated,
+                ...fxSnapshot,
+                minimum_payment: validated.minimum_payment != null
+                    ? toSnapshotBase(validated.minimum_payment, fxSnapshot.fx_rate)
+                    : validated.minimum_payment,
                 user_id: session.user.id,
                 space_id: activeSpaceId,
             })
@@ -95,6 +108,12 @@ export async function POST(req: Request) {
             .single();
 
         if (error) {
+            if (isMissingLateFeeColumnError(error.message)) {
+                return NextResponse.json({
+                    error: 'Los recargos por mora no están inicializados en la base.',
+                    hint: 'Ejecuta supabase-late-fees.sql en Supabase SQL Editor.',
+                }, { status: 503 });
+            }
             return NextResponse.json({ error: error.message }, { status: 500 });
         }
 
@@ -0,0 +1,242 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { createRequestContext, logError, logInfo, logWarn } from '@/lib/observability';
+import { recordAuditEvent } from '@/lib/audit';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { applyObligationPaymentToStatement } from '@/lib/credit-cards';
+import { isMissingPaymentsTableError, paymentItem, paymentRestore } from '@/lib/payments';
+
+const ParamsSchema = z.object({
+    id: z.string().uuid('ID de pago inválido'),
+});
+
+const ITEM_TABLES = {
+    obligation: 'obligations',
+    debt: 'debts',
+} as const;
+
+/**
+ * Undoes the latest payment of an obligation or debt: the item gets back the state it had before the payment,
+ * the transaction it created is removed and the payment stays in the history marked as undone.
+ */
+export async function POST(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/payments/[id]/undo', 'POST');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de pago inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const { data: payment, error: paymentError } = await supabase
+            .from('payments')
+            .select('*')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (paymentError) {
+            if (isMissingPaymentsTableError(paymentError.message)) {
+                return NextResponse.json(
+                    { error: 'Falta la tabla de pagos.', hint: 'Ejecuta supabase-payments.sql en Supabase SQL Editor.' },
+                    { status: 503 }
+                );
+            }
+            return NextResponse.json({ error: paymentError.message }, { status: 500 });
+        }
+        if (!payment) return NextResponse.json({ error: 'Pago no encontrado' }, { status: 404 });
+        if (payment.undone_at) return NextResponse.json({ error: 'El pago ya fue deshecho.' }, { status: 409 });
+
+        const item = paymentItem(payment);
+        if (!item) return NextResponse.json({ error: 'El pago no está asociado a ninguna obligación o deuda.' }, { status: 409 });
+        const itemColumn = item.kind === 'obligation' ? 'obligation_id' : 'debt_id';
+
+        // Each payment snapshots the state the previous one left, so they can only be undone newest first.
+        const { data: latest, error: latestError } = await supabase
+            .from('payments')
+            .select('id')
+            .eq(itemColumn, item.id)
+            .eq('space_id', activeSpaceId)
+            .is('undone_at', null)
+            .order('created_at', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+        if (latestError) return NextResponse.json({ error: latestError.message }, { status: 500 });
+        if (latest?.id !== payment.id) {
+            return NextResponse.json({ error: 'Solo se puede deshacer el último pago de cada obligación o deuda.' }, { status: 409 });
+        }
+
+        const { data: beforeItem, error: itemError } = await supabase
+            .from(ITEM_TABLES[item.kind])
+            .select('*')
+            .eq('id', item.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (itemError) return NextResponse.json({ error: itemError.message }, { status: 500 });
+        if (!beforeItem) return NextResponse.json({ error: 'El ítem del pago ya no existe.' }, { status: 404 });
+
+        const restore = paymentRestore(item.kind, payment.previous_state);
+        let afterItem = beforeItem;
+        if (Object.keys(restore.fields).length > 0) {
+            const { data: restoredItem, error: restoreError } = await supabase
+                .from(ITEM_TABLES[item.kind])
+                .update(restore.fields)
+                .eq('id', item.id)
+                .eq('space_id', activeSpaceId)
+                .select()
+                .single();
+
+            if (restoreError || !restoredItem) {
+                return NextResponse.json({ error: restoreError?.message || 'No se pudo restaurar el ítem.' }, { status: 500 });
+            }
+            afterItem = restoredItem;
+        }
+
+        const { data: undonePayment, error: undoError } = await supabase
+            .from('payments')
+            .update({ undone_at: new Date().toISOString(), undone_by: session.user.id })
+            .eq('id', payment.id)
+            .eq('space_id', activeSpaceId)
+            .select()
+            .single();
+
+        if (undoError || !undonePayment) {
+            // Best-effort rollback: put the item back as the payment had left it.
+            await supabase
+                .from(ITEM_TABLES[item.kind])
+                .update(paymentRestore(item.kind, beforeItem).fields)
+                .eq('id', item.id)
+                .eq('space_id', activeSpaceId);
+
+            return NextResponse.json({ error: undoError?.message || 'No se pudo deshacer el pago.' }, { status: 500 });
+        }
+
+        if (item.kind === 'obligation') {
+            await applyObligationPaymentToStatement(supabase as any, activeSpaceId, item.id, -Number(payment.amount));
+        } else {
+            const { error: loanPaymentError } = await supabase
+                .from('loan_payments')
+                .delete()
+                .eq('payment_id', payment.id)
+                .eq('space_id', activeSpaceId);
+            if (loanPaymentError) {
+                logWarn('loan_payment_undo_failed', { ...context, paymentId: payment.id, reason: loanPaymentError.message });
+            }
+
+            if (restore.linkedObligation) {
+                const { error: obligationError } = await supabase
+                    .from('obligations')
+                    .update({ status: restore.linkedObligation.status })
+                    .eq('id', restore.linkedObligation.id)
+                    .eq('space_id', activeSpaceId);
+                if (obligationError) {
+                    logWarn('linked_obligation_reopen_failed', {
+                        ...context,
+                        paymentId: payment.id,
+                        obligationId: restore.linkedObligation.id,
+                        reason: obligationError.message,
+                    });
+                }
+            }
+        }
+
+        let transaction = null;
+        if (payment.transaction_id) {
+            const { data: deletedTransaction, error: transactionError } = await supabase
+                .from('transactions')
+                .delete()
+                .eq('id', payment.transaction_id)
+                .eq('space_id', activeSpaceId)
+                .select()
+                .maybeSingle();
+
+            if (transactionError) {
+                logWarn('payment_transaction_delete_failed', {
+                    ...context,
+                    paymentId: payment.id,
+                    transactionId: payment.transaction_id,
+                    reason: transactionError.message,
+                });
+            }
+            transaction = deletedTransaction;
+        }
+
+        if (transaction) {
+            await recordAuditEvent({
+                supabase,
+                userId: session.user.id,
+                spaceId: activeSpaceId,
+                entityType: 'transaction',
+                entityId: transaction.id,
+                action: 'delete',
+                beforeData: transaction,
+                metadata: {
+                    source: 'payment_undo',
+                    paymentId: payment.id,
+                },
+            });
+        }
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: item.kind,
+            entityId: item.id,
+            action: 'update',
+            beforeData: beforeItem,
+            afterData: afterItem,
+            metadata: {
+                source: 'payment_undo',
+                paymentId: payment.id,
+                undoneAmount: Number(payment.amount),
+                linkedObligationId: restore.linkedObligation?.id ?? null,
+            },
+        });
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'payment',
+            entityId: payment.id,
+            action: 'update',
+            beforeData: payment,
+            afterData: undonePayment,
+            metadata: {
+                source: 'payment_undo',
+            },
+        });
+
+        logInfo('payment_undone', {
+            ...context,
+            userId: session.user.id,
+            paymentId: payment.id,
+            itemKind: item.kind,
+            itemId: item.id,
+            transactionId: transaction?.id ?? null,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({ payment: undonePayment, item: afterItem, transaction });
+    } catch (error) {
+        logError('payment_undo_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: 'No se pudo deshacer el pago' }, { status: 500 });
+    }
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { createRequestContext, logError, logInfo, logWarn } from '@/lib/observability';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { isMissingPaymentsTableError } from '@/lib/payments';
+
+const FiltersSchema = z.object({
+    obligation_id: z.string().uuid().optional(),
+    debt_id: z.string().uuid().optional(),
+});
+
+/** Payments of the space, oldest first, optionally of a single obligation or debt. */
+export async function GET(req: Request) {
+    const context = createRequestContext('/api/payments', 'GET');
+    const startedAt = Date.now();
+
+    try {
+        const params = new URL(req.url).searchParams;
+        const parsedFilters = FiltersSchema.safeParse({
+            obligation_id: params.get('obligation_id') || undefined,
+            debt_id: params.get('debt_id') || undefined,
+        });
+        if (!parsedFilters.success) {
+            return NextResponse.json({ error: 'Filtro de pagos inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        let query = supabase
+            .from('payments')
+            .select('*')
+            .eq('space_id', activeSpaceId)
+            .order('created_at', { ascending: true })
+            .limit(2000);
+
+        if (parsedFilters.data.obligation_id) query = query.eq('obligation_id', parsedFilters.data.obligation_id);
+        if (parsedFilters.data.debt_id) query = query.eq('debt_id', parsedFilters.data.debt_id);
+
+        const { data, error } = await query;
+
+        if (error) {
+            if (isMissingPaymentsTableError(error.message)) {
+                logWarn('payments_table_missing_returning_empty', {
+                    ...context,
+                    userId: session.user.id,
+                    reason: error.message,
+                });
+                return NextResponse.json({ payments: [], available: false });
+            }
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+
+        const payments = data || [];
+
+        logInfo('payments_loaded', {
+            ...context,
+            userId: session.user.id,
+            count: payments.length,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({ payments, available: true });
+    } catch (error) {
+        logError('payments_get_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: 'Error al cargar pagos' }, { status: 500 });
+    }
+}
@@ -0,0 +1,317 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { ReconciliationApplySchema } from '@/lib/schemas';
+import { createRequestContext, logError, logInfo, logWarn } from '@/lib/observability';
+import { recordAuditEvent } from '@/lib/audit';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { normalizeCurrency, resolveFxSnapshot } from '@/lib/currency';
+import { syncCardCharge } from '@/lib/credit-cards';
+import { loadCategoryRules, withCategoryRules } from '@/lib/category-rules';
+import {
+    buildReconciliationPlan,
+    isMissingReconciliationTableError,
+    loadBankStatement,
+    loadReconciliationWindow,
+    statementEntriesFromExtraction,
+    statementPeriod,
+    type BankStatementSummary,
+} from '@/lib/reconciliation';
+
+const MISSING_TABLE_RESPONSE = {
+    error: 'La conciliación bancaria no está inicializada en la base.',
+    hint: 'Ejecuta supabase-reconciliation.sql en Supabase SQL Editor.',
+};
+
+export async function GET() {
+    const context = createRequestContext('/api/reconciliations', 'GET');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const { data: documents, error: documentsError } = await supabase
+            .from('documents')
+            .select('id, created_at, extractions(id, raw_json, created_at)')
+            .eq('space_id', activeSpaceId)
+            .eq('type', 'bank_statement')
+            .order('created_at', { ascending: false })
+            .limit(50);
+
+        if (documentsError) return NextResponse.json({ error: documentsError.message }, { status: 500 });
+
+        const statements: BankStatementSummary[] = (documents || []).flatMap((document: any) => {
+            const extraction = [...(document.extractions || [])]
+                .sort((a: any, b: any) => String(b.created_at).localeCompare(String(a.created_at)))[0];
+            if (!extraction) return [];
+
+            const raw = extraction.raw_json || {};
+            const entries = statementEntriesFromExtraction(raw);
+            return [{
+                extraction_id: extraction.id,
+                document_id: document.id,
+                created_at: document.created_at,
+                issuer: typeof raw.issuer === 'string' ? raw.issuer : null,
+                period_label: typeof raw.period_label === 'string' ? raw.period_label : null,
+                closing_date: statementPeriod(raw, entries).closing_date,
+                entries_count: entries.length,
+            }];
+        });
+
+        const { data: reconciliations, error: reconciliationsError } = await supabase
+            .from('reconciliations')
+            .select('*')
+            .eq('space_id', activeSpaceId)
+            .order('closing_date', { ascending: false })
+            .limit(50);
+
+        if (reconciliationsError && !isMissingReconciliationTableError(reconciliationsError.message)) {
+            return NextResponse.json({ error: reconciliationsError.message }, { status: 500 });
+        }
+        if (reconciliationsError) {
+            logWarn('reconciliations_table_missing_returning_empty', { ...context, userId: session.user.id });
+        }
+
+        logInfo('reconciliations_loaded', {
+            ...context,
+            userId: session.user.id,
+            statements: statements.length,
+            count: reconciliations?.length ?? 0,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({ statements, reconciliations: reconciliations || [] });
+    } catch (error) {
+        logError('reconciliations_get_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: 'Error al cargar conciliaciones' }, { status: 500 });
+    }
+}
+
+/**
+ * Compares a processed bank statement with an account. With `dry_run` (the default) it only returns the plan;
+ * confirming accepts the chosen matches, creates the chosen missing lines and marks the account as reconciled
+ * up to the statement closing date. The plan is rebuilt on confirm, so indexes refer to the same lines.
+ */
+export async function POST(req: Request) {
+    const context = createRequestContext('/api/reconciliations', 'POST');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const body = await req.json().catch(() => ({}));
+        const validated = ReconciliationApplySchema.parse(body);
+
+        const { data: account, error: accountError } = await supabase
+            .from('accounts')
+            .select('id, name, currency, reconciled_through')
+            .eq('id', validated.account_id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (accountError) {
+            if (isMissingReconciliationTableError(accountError.message)) {
+                return NextResponse.json(MISSING_TABLE_RESPONSE, { status: 503 });
+            }
+            return NextResponse.json({ error: accountError.message }, { status: 500 });
+        }
+        if (!account) return NextResponse.json({ error: 'Cuenta no encontrada' }, { status: 404 });
+
+        const statement = await loadBankStatement(supabase as any, activeSpaceId, validated.extraction_id);
+        if (!statement) return NextResponse.json({ error: 'Extracto no encontrado' }, { status: 404 });
+
+        const currency = normalizeCurrency(account.currency);
+        const entries = statementEntriesFromExtraction(statement.raw_json).filter((entry) => entry.currency === currency);
+        if (!entries.length) {
+            return NextResponse.json({ error: `El extracto no tiene movimientos en ${currency}` }, { status: 400 });
+        }
+
+        const window = await loadReconciliationWindow(
+            supabase as any,
+            activeSpaceId,
+            account.id,
+            statementPeriod(statement.raw_json, entries)
+        );
+        if (window.error) {
+            if (isMissingReconciliationTableError(window.error)) {
+                return NextResponse.json(MISSING_TABLE_RESPONSE, { status: 503 });
+            }
+            return NextResponse.json({ error: window.error }, { status: 500 });
+        }
+
+        const plan = buildReconciliationPlan(statement.raw_json, window.rows, account);
+
+        if (validated.dry_run) {
+            logInfo('reconciliation_dry_run', {
+                ...context,
+                userId: session.user.id,
+                accountId: account.id,
+                entries: plan.entries.length,
+                matched: plan.matched.length,
+                missingInApp: plan.missing_in_app.length,
+                missingInBank: plan.missing_in_bank.length,
+                durationMs: Date.now() - startedAt,
+            });
+
+            return NextResponse.json({ dry_run: true, account, plan });
+        }
+
+        const accepted = plan.matched.filter((pair) => validated.accept_entry_indexes.includes(pair.entry.index));
+        const toCreate = plan.missing_in_app.filter((entry) => validated.create_entry_indexes.includes(entry.index));
+
+        if (toCreate.length && currency === 'USD' && !validated.fx_rate) {
+            return NextResponse.json({ error: 'Indicá el tipo de cambio para crear movimientos en USD.' }, { status: 400 });
+        }
+
+        const closingDate = plan.closing_date as string;
+        const { data: reconciliation, error: reconciliationError } = await supabase
+            .from('reconciliations')
+            .insert({
+                space_id: activeSpaceId,
+                account_id: account.id,
+                extraction_id: statement.id,
+                user_id: session.user.id,
+                period_start: plan.period_start,
+                closing_date: closingDate,
+                statement_lines: plan.entries.length,
+                matched_count: accepted.length,
+                created_count: toCreate.length,
+                missing_in_bank_count: plan.missing_in_bank.length,
+            })
+            .select()
+            .single();
+
+        if (reconciliationError || !reconciliation) {
+            if (isMissingReconciliationTableError(reconciliationError?.message)) {
+                return NextResponse.json(MISSING_TABLE_RESPONSE, { status: 503 });
+            }
+            return NextResponse.json({ error: reconciliationError?.message || 'No se pudo registrar la conciliación.' }, { status: 500 });
+        }
+
+        if (accepted.length) {
+            const { error: acceptError } = await supabase
+                .from('transactions')
+                .update({ reconciliation_id: reconciliation.id })
+                .eq('space_id', activeSpaceId)
+                .in('id', accepted.map((pair) => pair.transaction.id));
+
+            if (acceptError) {
+                await supabase.from('reconciliations').delete().eq('id', reconciliation.id).eq('space_id', activeSpaceId);
+                return NextResponse.json({ error: acceptError.message }, { status: 500 });
+            }
+        }
+
+        let created: any[] = [];
+        if (toCreate.length) {
+            const categoryRules = await loadCategoryRules(supabase as any, activeSpaceId);
+            const { data, error: createError } = await supabase
+                .from('transactions')
+                .insert(toCreate.map((entry) => withCategoryRules(categoryRules, {
+                    user_id: session.user.id,
+                    space_id: activeSpaceId,
+                    type: entry.type,
+                    description: entry.description,
+                    category: entry.category || 'General',
+                    date: entry.date,
+                    account_id: account.id,
+                    reconciliation_id: reconciliation.id,
+                    ...resolveFxSnapshot({
+                        amount: entry.amount,
+                        currency,
+                        fx_rate: currency === 'USD' ? validated.fx_rate : null,
+                        fx_source: 'reconciliation',
+                    }),
+                })))
+                .select();
+
+            if (createError) {
+                // Undo the accepted links and the reconciliation itself: the statement is not reconciled.
+                await supabase
+                    .from('transactions')
+                    .update({ reconciliation_id: null })
+                    .eq('space_id', activeSpaceId)
+                    .eq('reconciliation_id', reconciliation.id);
+                await supabase.from('reconciliations').delete().eq('id', reconciliation.id).eq('space_id', activeSpaceId);
+                return NextResponse.json({ error: createError.message }, { status: 500 });
+            }
+
+            created = data || [];
+            // Card accounts spread the new charges over their statements like any other movement.
+            for (const row of created) {
+                await syncCardCharge(supabase as any, activeSpaceId, session.user.id, row);
+            }
+        }
+
+        // Reconciling an older statement never moves the mark backwards.
+        const reconciledThrough = account.reconciled_through && account.reconciled_through > closingDate
+            ? account.reconciled_through
+            : closingDate;
+        const { data: updatedAccount, error: updateAccountError } = await supabase
+            .from('accounts')
+            .update({ reconciled_through: reconciledThrough })
+            .eq('id', account.id)
+            .eq('space_id', activeSpaceId)
+            .select('id, name, currency, reconciled_through')
+            .single();
+
+        if (updateAccountError) {
+            logWarn('reconciliation_account_update_failed', { ...context, userId: session.user.id, accountId: account.id, reason: updateAccountError.message });
+        }
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'reconciliation',
+            entityId: reconciliation.id,
+            action: 'create',
+            afterData: reconciliation,
+            metadata: {
+                accountId: account.id,
+                extractionId: statement.id,
+                acceptedTransactionIds: accepted.map((pair) => pair.transaction.id),
+                createdTransactionIds: created.map((row) => row.id),
+                previousReconciledThrough: account.reconciled_through ?? null,
+            },
+        });
+
+        logInfo('reconciliation_completed', {
+            ...context,
+            userId: session.user.id,
+            accountId: account.id,
+            reconciliationId: reconciliation.id,
+            matched: accepted.length,
+            created: created.length,
+            missingInBank: plan.missing_in_bank.length,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({
+            dry_run: false,
+            account: updatedAccount || account,
+            reconciliation,
+            matched: accepted.length,
+            created: created.length,
+        });
+    } catch (error: any) {
+        logError('reconciliation_apply_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: error.errors || error.message || 'No se pudo conciliar el extracto.' }, { status: 400 });
+    }
+}
@@ -5,6 +5,8 @@ import { RecurringTransactionUpdateSchema } from '@/lib/schemas';
 import { recordAuditEvent } from '@/lib/audit';
 import { createRequestContext, logError, logInfo } from '@/lib/observability';
 import { ensureActiveSpace } from '@/lib/spaces';
+import { resolveFxSnapshotUpdate } from '@/lib/currency';
+import { isMissingRecurrenceColumnError, planRecurringSchedule } from '@/lib/recurrence';
 
 const ParamsSchema = z.object({
     id: z.string().uuid('ID de recurrencia inválido'),
@@ -38,11 +40,6 @@ export async function PUT(req: Request, { params }: { params: Promise<{ id: stri
         const payload = await req.json();
         const validated = RecurringTransactionUpdateSchema.parse(payload);
 
-        const nextPayload = { ...validated };
-        if (nextPayload.start_date && !nextPayload.next_run) {
-            nextPayload.next_run = nextPayload.start_date;
-        }
-
         const { data: existingRule, error: existingError } = await supabase
             .from('recurring_transactions')
             .select('*')
@@ -61,15 +58,45 @@ export async function PUT(req: Request, { params }: { params: Promise<{ id: stri
         }
         if (!existingRule) return NextResponse.json({ error: 'Regla recurrente no encontrada' }, { status: 404 });
 
+        const fxSnapshot = resolveFxSnapshotUpdate(validated, existingRule);
+
+        const nextPayload: Record<string, unknown> = { ...validated };
+        const touchesSchedule = ['frequency', 'recurrence', 'start_date', 'next_run'].some(
+            (key) => validated[key as keyof typeof validated] !== undefined
+        );
+        if (touchesSchedule) {
+            // A new start restarts the series, otherwise it continues from the pending date.
+            // Picking a plain frequency replaces a custom recurrence.
+            const clearsRecurrence = Boolean(validated.frequency) && validated.recurrence === undefined;
+            const merged = { ...existingRule, ...validated, ...(clearsRecurrence ? { recurrence: null } : {}) };
+            const schedule = planRecurringSchedule(
+                merged,
+                validated.next_run || (validated.start_date ? merged.start_date : existingRule.next_run)
+            );
+            if (!schedule) {
+                return NextResponse.json({ error: 'La regla no tiene ocurrencias: revisá la fecha de fin o la cantidad.' }, { status: 400 });
+            }
+            Object.assign(nextPayload, schedule);
+            if (clearsRecurrence && existingRule.recurrence) {
+                nextPayload.recurrence = null;
+            }
+        }
+
         const { data: updatedRule, error: updateError } = await supabase
             .from('recurring_transactions')
-            .update(nextPayload)
+            .update({ ...nextPayload, ...(fxSnapshot || {}) })
             .eq('id', parsedParams.data.id)
             .eq('space_id', activeSpaceId)
             .select('*')
             .single();
 
         if (updateError) {
+            if (isMissingRecurrenceColumnError(updateError.message)) {
+                return NextResponse.json({
+                    error: 'Las reglas de recurrencia extendidas no están inicializadas en la base.',
+                    hint: 'Ejecuta supabase-recurrence.sql en Supabase SQL Editor.',
+                }, { status: 503 });
+            }
             if (isMissingRecurringTableError(updateError.message)) {
                 return NextResponse.json({
                     error: 'El módulo de recurrencias no está inicializado en la base.',
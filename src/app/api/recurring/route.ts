@@ -4,6 +4,8 @@ import { RecurringTransactionInputSchema } from '@/lib/schemas';
 import { createRequestContext, logError, logInfo, logWarn } from '@/lib/observability';
 import { recordAuditEvent } from '@/lib/audit';
 import { ensureActiveSpace } from '@/lib/spaces';
+import { resolveFxSnapshot } from '@/lib/currency';
+import { isMissingRecurrenceColumnError, planRecurringSchedule } from '@/lib/recurrence';
 
 function isMissingRecurringTableError(message?: string | null) {
     if (!message) return false;
@@ -74,19 +76,34 @@ export async function POST(req: Request) {
 
         const payload = await req.json();
         const validated = RecurringTransactionInputSchema.parse(payload);
+        const { recurrence, ...fields } = validated;
+
+        const schedule = planRecurringSchedule(validated, validated.next_run || validated.start_date);
+        if (!schedule) {
+            return NextResponse.json({ error: 'La regla no tiene ocurrencias: revisá la fecha de fin o la cantidad.' }, { status: 400 });
+        }
 
         const { data, error } = await supabase
             .from('recurring_transactions')
             .insert({
-                ...validated,
+                ...fields,
+                ...resolveFxSnapshot(validated),
+                ...schedule,
+                // Legacy rules skip the column so they keep working before supabase-recurrence.sql.
+                ...(recurrence ? { recurrence } : {}),
                 user_id: session.user.id,
                 space_id: activeSpaceId,
-                next_run: validated.next_run || validated.start_date,
             })
             .select()
             .single();
 
         if (error) {
+            if (isMissingRecurrenceColumnError(error.message)) {
+                return NextResponse.json({
+                    error: 'Las reglas de recurrencia extendidas no están inicializadas en la base.',
+                    hint: 'Ejecuta supabase-recurrence.sql en Supabase SQL Editor.',
+                }, { status: 503 });
+            }
             if (isMissingRecurringTableError(error.message)) {
                 return NextResponse.json({
                     error: 'El módulo de recurrencias no está inicializado en la base.',
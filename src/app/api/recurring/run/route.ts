@@ -1,22 +1,9 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase-server';
 import { createRequestContext, logError, logInfo, logWarn } from '@/lib/observability';
-import { recordAuditEvent } from '@/lib/audit';
 import { ensureActiveSpace } from '@/lib/spaces';
-
-function advanceDate(dateValue: string, frequency: 'weekly' | 'biweekly' | 'monthly') {
-    const date = new Date(`${dateValue}T00:00:00.000Z`);
-    if (frequency === 'weekly') date.setUTCDate(date.getUTCDate() + 7);
-    if (frequency === 'biweekly') date.setUTCDate(date.getUTCDate() + 14);
-    if (frequency === 'monthly') date.setUTCMonth(date.getUTCMonth() + 1);
-    return date.toISOString().slice(0, 10);
-}
-
-function isMissingRecurringTableError(message?: string | null) {
-    if (!message) return false;
-    const value = message.toLowerCase();
-    return value.includes('recurring_transactions') && value.includes('schema cache');
-}
+import { runRecurringForSpace } from '@/lib/recurring';
+import { settleMaturedDeposits } from '@/lib/investments';
 
 export async function POST() {
     const context = createRequestContext('/api/recurring/run', 'POST');
@@ -32,100 +19,45 @@ export async function POST() {
         const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
 
         const today = new Date().toISOString().slice(0, 10);
-        const { data: dueRules, error: dueError } = await supabase
-            .from('recurring_transactions')
-            .select('*')
-            .eq('space_id', activeSpaceId)
-            .eq('is_active', true)
-            .lte('next_run', today);
-
-        if (dueError) {
-            if (isMissingRecurringTableError(dueError.message)) {
-                logWarn('recurring_runner_table_missing_noop', {
-                    ...context,
-                    userId: session.user.id,
-                    reason: dueError.message,
-                });
-                return NextResponse.json({
-                    generated: 0,
-                    updatedRules: 0,
-                    warning: 'Falta tabla recurring_transactions',
-                });
-            }
-            return NextResponse.json({ error: dueError.message }, { status: 500 });
-        }
-        if (!dueRules || dueRules.length === 0) {
-            return NextResponse.json({ generated: 0, updatedRules: 0 });
-        }
-
-        let generated = 0;
-        const ruleUpdates: { id: string; next_run: string }[] = [];
-
-        for (const rule of dueRules) {
-            const transactionsToCreate: any[] = [];
-            let nextRun = rule.next_run;
-
-            for (let guard = 0; guard < 24 && nextRun <= today; guard++) {
-                transactionsToCreate.push({
-                    user_id: session.user.id,
-                    space_id: activeSpaceId,
-                    type: rule.type,
-                    amount: rule.amount,
-                    description: `${rule.description} (Recurrente)`,
-                    category: rule.category,
-                    date: nextRun,
-                });
-                nextRun = advanceDate(nextRun, rule.frequency);
-            }
-
-            if (transactionsToCreate.length > 0) {
-                const { error: insertError } = await supabase
-                    .from('transactions')
-                    .insert(transactionsToCreate);
-
-                if (!insertError) {
-                    generated += transactionsToCreate.length;
-                    ruleUpdates.push({ id: rule.id, next_run: nextRun });
-                }
-            }
-        }
-
-        for (const update of ruleUpdates) {
-            await supabase
-                .from('recurring_transactions')
-                .update({
-                    next_run: update.next_run,
-                    updated_at: new Date().toISOString(),
-                })
-                .eq('id', update.id)
-                .eq('space_id', activeSpaceId);
-        }
-
-        await recordAuditEvent({
-            supabase,
+        const summary = await runRecurringForSpace(supabase as any, {
+            spaceId: activeSpaceId,
             userId: session.user.id,
+            trigger: 'manual',
+            today,
+        });
+        const deposits = await settleMaturedDeposits(supabase as any, {
             spaceId: activeSpaceId,
-            entityType: 'recurring_runner',
-            entityId: session.user.id,
-            action: 'system',
-            metadata: {
-                generated,
-                updatedRules: ruleUpdates.length,
-                runDate: today,
-            },
+            userId: session.user.id,
+            today,
         });
 
+        if (summary.warning) {
+            logWarn('recurring_runner_not_ready_noop', {
+                ...context,
+                userId: session.user.id,
+                reason: summary.warning,
+            });
+        }
+
         logInfo('recurring_run_completed', {
             ...context,
             userId: session.user.id,
-            generated,
-            updatedRules: ruleUpdates.length,
+            generated: summary.generated,
+            skipped: summary.skipped,
+            failed: summary.failed,
+            flaggedDuplicates: summary.flagged_duplicates,
+            maturedDeposits: deposits.filter((deposit) => !deposit.error).length,
             durationMs: Date.now() - startedAt,
         });
 
         return NextResponse.json({
-            generated,
-            updatedRules: ruleUpdates.length,
+            generated: summary.generated,
+            skipped: summary.skipped,
+            updatedRules: summary.results.filter((result) => result.status === 'ok').length,
+            flaggedDuplicates: summary.flagged_duplicates,
+            results: summary.results,
+            maturedDeposits: deposits,
+            ...(summary.warning ? { warning: summary.warning } : {}),
         });
     } catch (error) {
         logError('recurring_run_exception', error, {
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { recordAuditEvent } from '@/lib/audit';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { ensureActiveSpace } from '@/lib/spaces';
+
+const ParamsSchema = z.object({
+    id: z.string().uuid('ID de meta inválido'),
+    contributionId: z.string().uuid('ID de aporte inválido'),
+});
+
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string; contributionId: string }> }) {
+    const context = createRequestContext('/api/savings/[id]/contributions/[contributionId]', 'DELETE');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de aporte inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const { data: existingContribution, error: existingError } = await supabase
+            .from('goal_contributions')
+            .select('*')
+            .eq('id', parsedParams.data.contributionId)
+            .eq('goal_id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (existingError) return NextResponse.json({ error: existingError.message }, { status: 500 });
+        if (!existingContribution) return NextResponse.json({ error: 'Aporte no encontrado' }, { status: 404 });
+
+        // Only the link goes: the movement behind it stays in the ledger and the goal total drops via trigger.
+        const { error: deleteError } = await supabase
+            .from('goal_contributions')
+            .delete()
+            .eq('id', existingContribution.id)
+            .eq('space_id', activeSpaceId);
+
+        if (deleteError) return NextResponse.json({ error: deleteError.message }, { status: 500 });
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'goal_contribution',
+            entityId: existingContribution.id,
+            action: 'delete',
+            beforeData: existingContribution,
+        });
+
+        logInfo('goal_contribution_deleted', {
+            ...context,
+            userId: session.user.id,
+            goalId: existingContribution.goal_id,
+            contributionId: existingContribution.id,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({ success: true, id: existingContribution.id });
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('goal_contribution_delete_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'No se pudo eliminar el aporte' }, { status: 400 });
+    }
+}
@@ -0,0 +1,252 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { GoalContributionInputSchema } from '@/lib/schemas';
+import { recordAuditEvent } from '@/lib/audit';
+import { createRequestContext, logError, logInfo, logWarn } from '@/lib/observability';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { TRANSFER_CATEGORY, accountsBelongToSpace, validateTransferAccounts } from '@/lib/accounts';
+import { resolveFxSnapshot } from '@/lib/currency';
+import { goalTimeline, isMissingGoalContributionsTableError, projectGoal, type GoalContributionRow } from '@/lib/goals';
+
+const ParamsSchema = z.object({
+    id: z.string().uuid('ID de meta inválido'),
+});
+
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/savings/[id]/contributions', 'GET');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de meta inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const { data: goal, error: goalError } = await supabase
+            .from('savings_goals')
+            .select('*')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (goalError) return NextResponse.json({ error: goalError.message }, { status: 500 });
+        if (!goal) return NextResponse.json({ error: 'Meta no encontrada' }, { status: 404 });
+
+        const [contributionsResult, rulesResult] = await Promise.all([
+            supabase
+                .from('goal_contributions')
+                .select('*, transactions(description, type, date)')
+                .eq('goal_id', goal.id)
+                .eq('space_id', activeSpaceId)
+                .order('date', { ascending: true })
+                .order('created_at', { ascending: true }),
+            supabase
+                .from('goal_rules')
+                .select('*')
+                .eq('goal_id', goal.id)
+                .eq('space_id', activeSpaceId)
+                .order('created_at', { ascending: true }),
+        ]);
+
+        const missing = [contributionsResult.error, rulesResult.error]
+            .find((error) => error && isMissingGoalContributionsTableError(error.message));
+        if (missing) {
+            logWarn('goal_contributions_table_missing_returning_empty', {
+                ...context,
+                userId: session.user.id,
+                reason: missing.message,
+            });
+            return NextResponse.json({ contributions: [], rules: [], timeline: [], projection: null, available: false });
+        }
+        if (contributionsResult.error) return NextResponse.json({ error: contributionsResult.error.message }, { status: 500 });
+        if (rulesResult.error) return NextResponse.json({ error: rulesResult.error.message }, { status: 500 });
+
+        const contributions = (contributionsResult.data || []) as GoalContributionRow[];
+
+        logInfo('goal_contributions_loaded', {
+            ...context,
+            userId: session.user.id,
+            goalId: goal.id,
+            count: contributions.length,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({
+            contributions,
+            rules: rulesResult.data || [],
+            timeline: goalTimeline(contributions),
+            projection: projectGoal(goal, contributions, new Date().toISOString().slice(0, 10)),
+            available: true,
+        });
+    } catch (error) {
+        logError('goal_contributions_get_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: 'Error al cargar aportes' }, { status: 500 });
+    }
+}
+
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/savings/[id]/contributions', 'POST');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de meta inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const payload = await req.json();
+        const validated = GoalContributionInputSchema.parse(payload);
+
+        const { data: goal, error: goalError } = await supabase
+            .from('savings_goals')
+            .select('id, name')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (goalError) return NextResponse.json({ error: goalError.message }, { status: 500 });
+        if (!goal) return NextResponse.json({ error: 'Meta no encontrada' }, { status: 404 });
+
+        let transactionId = validated.transaction_id || null;
+        let createdTransferId: string | null = null;
+
+        if (transactionId) {
+            const { data: transaction } = await supabase
+                .from('transactions')
+                .select('id, amount')
+                .eq('id', transactionId)
+                .eq('space_id', activeSpaceId)
+                .maybeSingle();
+            if (!transaction) return NextResponse.json({ error: 'Movimiento no encontrado' }, { status: 404 });
+            if (Math.abs(validated.amount) > Number(transaction.amount) + 0.005) {
+                return NextResponse.json({ error: 'El aporte no puede superar el monto del movimiento' }, { status: 400 });
+            }
+
+            const { data: linked } = await supabase
+                .from('goal_contributions')
+                .select('id')
+                .eq('goal_id', goal.id)
+                .eq('transaction_id', transactionId)
+                .limit(1);
+            if (linked?.length) {
+                return NextResponse.json({ error: 'Ese movimiento ya aporta a esta meta' }, { status: 409 });
+            }
+        } else {
+            // Moving the money is part of contributing: the transfer is created here and the contribution points at it.
+            const transfer = {
+                type: 'transfer',
+                account_id: validated.from_account_id,
+                transfer_account_id: validated.to_account_id,
+            };
+            const transferError = validateTransferAccounts(transfer);
+            if (transferError) return NextResponse.json({ error: transferError }, { status: 400 });
+
+            const ownsAccounts = await accountsBelongToSpace(supabase as any, activeSpaceId, [transfer.account_id, transfer.transfer_account_id]);
+            if (!ownsAccounts) return NextResponse.json({ error: 'Cuenta inválida para este espacio' }, { status: 400 });
+
+            const { data: accounts } = await supabase
+                .from('accounts')
+                .select('id, currency')
+                .in('id', [transfer.account_id as string, transfer.transfer_account_id as string]);
+            if ((accounts || []).some((account: any) => account.currency && account.currency !== 'ARS')) {
+                return NextResponse.json({ error: 'Las metas son en pesos: registrá la transferencia en USD desde Cuentas y vinculala' }, { status: 400 });
+            }
+
+            const { data: created, error: transferInsertError } = await supabase
+                .from('transactions')
+                .insert({
+                    ...transfer,
+                    ...resolveFxSnapshot({ currency: 'ARS', amount: validated.amount }),
+                    description: `Ahorro para ${goal.name}`,
+                    category: TRANSFER_CATEGORY,
+                    date: validated.date,
+                    user_id: session.user.id,
+                    space_id: activeSpaceId,
+                })
+                .select('id')
+                .single();
+
+            if (transferInsertError) return NextResponse.json({ error: transferInsertError.message }, { status: 500 });
+            transactionId = created.id;
+            createdTransferId = created.id;
+        }
+
+        const { data, error } = await supabase
+            .from('goal_contributions')
+            .insert({
+                space_id: activeSpaceId,
+                goal_id: goal.id,
+                amount: validated.amount,
+                date: validated.date,
+                source: 'transaction',
+                transaction_id: transactionId,
+                notes: validated.notes || null,
+                created_by: session.user.id,
+            })
+            .select()
+            .single();
+
+        if (error) {
+            // A transfer made only for this contribution would be left behind otherwise.
+            if (createdTransferId) await supabase.from('transactions').delete().eq('id', createdTransferId);
+            if (isMissingGoalContributionsTableError(error.message)) {
+                return NextResponse.json({
+                    error: 'La tabla de aportes no está inicializada en la base.',
+                    hint: 'Ejecuta supabase-goal-contributions.sql en Supabase SQL Editor.',
+                }, { status: 503 });
+            }
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'goal_contribution',
+            entityId: data.id,
+            action: 'create',
+            afterData: data,
+            metadata: createdTransferId ? { transferId: createdTransferId } : undefined,
+        });
+
+        logInfo('goal_contribution_created', {
+            ...context,
+            userId: session.user.id,
+            goalId: goal.id,
+            contributionId: data.id,
+            createdTransfer: Boolean(createdTransferId),
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(data);
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('goal_contribution_create_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'Datos inválidos' }, { status: 400 });
+    }
+}
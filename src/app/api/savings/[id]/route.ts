@@ -5,6 +5,7 @@ import { SavingsGoalUpdateSchema } from '@/lib/schemas';
 import { recordAuditEvent } from '@/lib/audit';
 import { createRequestContext, logError, logInfo } from '@/lib/observability';
 import { ensureActiveSpace } from '@/lib/spaces';
+import { isMissingGoalContributionsTableError } from '@/lib/goals';
 
 const ParamsSchema = z.object({
     id: z.string().uuid('ID de meta inválido'),
@@ -42,13 +43,42 @@ export async function PUT(req: Request, { params }: { params: Promise<{ id: stri
         if (existingError) return NextResponse.json({ error: existingError.message }, { status: 500 });
         if (!existingGoal) return NextResponse.json({ error: 'Meta no encontrada' }, { status: 404 });
 
-        const { data: updatedGoal, error: updateError } = await supabase
-            .from('savings_goals')
-            .update(validated)
-            .eq('id', parsedParams.data.id)
-            .eq('space_id', activeSpaceId)
-            .select('*')
-            .single();
+        // The balance is the sum of the contributions: a hand-edited amount is booked as an adjustment for the
+        // difference. Spaces without the ledger keep writing current_amount directly.
+        const { current_amount: currentAmount, ...changes } = validated;
+        const delta = currentAmount !== undefined ? Number(currentAmount) - Number(existingGoal.current_amount || 0) : 0;
+        let adjusted = false;
+        if (Math.abs(delta) >= 0.01) {
+            const { error: adjustmentError } = await supabase.from('goal_contributions').insert({
+                space_id: activeSpaceId,
+                goal_id: existingGoal.id,
+                amount: Math.round(delta * 100) / 100,
+                date: new Date().toISOString().slice(0, 10),
+                source: 'adjustment',
+                notes: 'Ajuste manual del saldo',
+                created_by: session.user.id,
+            });
+            if (adjustmentError && !isMissingGoalContributionsTableError(adjustmentError.message)) {
+                return NextResponse.json({ error: adjustmentError.message }, { status: 500 });
+            }
+            adjusted = !adjustmentError;
+        }
+
+        const goalChanges = adjusted || currentAmount === undefined ? changes : validated;
+        const { data: updatedGoal, error: updateError } = Object.keys(goalChanges).length
+            ? await supabase
+                .from('savings_goals')
+                .update(goalChanges)
+                .eq('id', parsedParams.data.id)
+                .eq('space_id', activeSpaceId)
+                .select('*')
+                .single()
+            : await supabase
+                .from('savings_goals')
+                .select('*')
+                .eq('id', parsedParams.data.id)
+                .eq('space_id', activeSpaceId)
+                .single();
 
         if (updateError) return NextResponse.json({ error: updateError.message }, { status: 500 });
 
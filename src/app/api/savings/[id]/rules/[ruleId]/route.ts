@@ -0,0 +1,161 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { GoalRuleUpdateSchema } from '@/lib/schemas';
+import { recordAuditEvent } from '@/lib/audit';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { ensureActiveSpace } from '@/lib/spaces';
+
+const ParamsSchema = z.object({
+    id: z.string().uuid('ID de meta inválido'),
+    ruleId: z.string().uuid('ID de regla inválido'),
+});
+
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string; ruleId: string }> }) {
+    const context = createRequestContext('/api/savings/[id]/rules/[ruleId]', 'PUT');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de regla inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const payload = await req.json();
+        const validated = GoalRuleUpdateSchema.parse(payload);
+
+        const { data: existingRule, error: existingError } = await supabase
+            .from('goal_rules')
+            .select('*')
+            .eq('id', parsedParams.data.ruleId)
+            .eq('goal_id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (existingError) return NextResponse.json({ error: existingError.message }, { status: 500 });
+        if (!existingRule) return NextResponse.json({ error: 'Regla no encontrada' }, { status: 404 });
+
+        const mode = validated.mode || existingRule.mode;
+        const value = validated.value ?? Number(existingRule.value);
+        if (mode === 'percent' && value > 100) {
+            return NextResponse.json({ error: 'El porcentaje no puede superar 100' }, { status: 400 });
+        }
+
+        const { data: updatedRule, error: updateError } = await supabase
+            .from('goal_rules')
+            .update({
+                ...validated,
+                ...(validated.category !== undefined ? { category: validated.category || null } : {}),
+                updated_at: new Date().toISOString(),
+            })
+            .eq('id', existingRule.id)
+            .eq('space_id', activeSpaceId)
+            .select('*')
+            .single();
+
+        if (updateError) return NextResponse.json({ error: updateError.message }, { status: 500 });
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'goal_rule',
+            entityId: updatedRule.id,
+            action: 'update',
+            beforeData: existingRule,
+            afterData: updatedRule,
+        });
+
+        logInfo('goal_rule_updated', {
+            ...context,
+            userId: session.user.id,
+            ruleId: updatedRule.id,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(updatedRule);
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('goal_rule_update_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'Datos inválidos' }, { status: 400 });
+    }
+}
+
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string; ruleId: string }> }) {
+    const context = createRequestContext('/api/savings/[id]/rules/[ruleId]', 'DELETE');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de regla inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const { data: existingRule, error: existingError } = await supabase
+            .from('goal_rules')
+            .select('*')
+            .eq('id', parsedParams.data.ruleId)
+            .eq('goal_id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (existingError) return NextResponse.json({ error: existingError.message }, { status: 500 });
+        if (!existingRule) return NextResponse.json({ error: 'Regla no encontrada' }, { status: 404 });
+
+        // What the rule already saved stays as contributions; they just lose the link to it.
+        const { error: deleteError } = await supabase
+            .from('goal_rules')
+            .delete()
+            .eq('id', existingRule.id)
+            .eq('space_id', activeSpaceId);
+
+        if (deleteError) return NextResponse.json({ error: deleteError.message }, { status: 500 });
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'goal_rule',
+            entityId: existingRule.id,
+            action: 'delete',
+            beforeData: existingRule,
+        });
+
+        logInfo('goal_rule_deleted', {
+            ...context,
+            userId: session.user.id,
+            ruleId: existingRule.id,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({ success: true, id: existingRule.id });
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('goal_rule_delete_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'No se pudo eliminar la regla' }, { status: 400 });
+    }
+}
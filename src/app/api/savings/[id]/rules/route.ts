@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { GoalRuleInputSchema } from '@/lib/schemas';
+import { recordAuditEvent } from '@/lib/audit';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { isMissingGoalContributionsTableError } from '@/lib/goals';
+
+const ParamsSchema = z.object({
+    id: z.string().uuid('ID de meta inválido'),
+});
+
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/savings/[id]/rules', 'POST');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de meta inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const payload = await req.json();
+        const validated = GoalRuleInputSchema.parse(payload);
+
+        const { data: goal, error: goalError } = await supabase
+            .from('savings_goals')
+            .select('id')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (goalError) return NextResponse.json({ error: goalError.message }, { status: 500 });
+        if (!goal) return NextResponse.json({ error: 'Meta no encontrada' }, { status: 404 });
+
+        // Rules only look forward: incomes loaded before the rule existed are not allocated.
+        const { data, error } = await supabase
+            .from('goal_rules')
+            .insert({
+                ...validated,
+                category: validated.category || null,
+                goal_id: goal.id,
+                space_id: activeSpaceId,
+                created_by: session.user.id,
+            })
+            .select()
+            .single();
+
+        if (error) {
+            if (isMissingGoalContributionsTableError(error.message)) {
+                return NextResponse.json({
+                    error: 'La tabla de reglas de ahorro no está inicializada en la base.',
+                    hint: 'Ejecuta supabase-goal-contributions.sql en Supabase SQL Editor.',
+                }, { status: 503 });
+            }
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'goal_rule',
+            entityId: data.id,
+            action: 'create',
+            afterData: data,
+        });
+
+        logInfo('goal_rule_created', {
+            ...context,
+            userId: session.user.id,
+            goalId: goal.id,
+            ruleId: data.id,
+            mode: data.mode,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(data);
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('goal_rule_create_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'Datos inválidos' }, { status: 400 });
+    }
+}
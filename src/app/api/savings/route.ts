@@ -1,9 +1,10 @@
 import { createClient } from '@/lib/supabase-server';
 import { SavingsGoalInputSchema } from '@/lib/schemas';
 import { NextResponse } from 'next/server';
-import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { createRequestContext, logError, logInfo, logWarn } from '@/lib/observability';
 import { recordAuditEvent } from '@/lib/audit';
 import { ensureActiveSpace } from '@/lib/spaces';
+import { isMissingGoalContributionsTableError, projectGoal, type GoalContributionRow } from '@/lib/goals';
 
 export async function GET() {
     const context = createRequestContext('/api/savings', 'GET');
@@ -25,14 +26,34 @@ export async function GET() {
 
         if (error) return NextResponse.json({ error: error.message }, { status: 500 });
 
+        // Without the contributions ledger goals are listed as before, just without a projection.
+        const { data: contributions, error: contributionsError } = await supabase
+            .from('goal_contributions')
+            .select('goal_id, amount, date, source')
+            .eq('space_id', activeSpaceId);
+
+        if (contributionsError && !isMissingGoalContributionsTableError(contributionsError.message)) {
+            return NextResponse.json({ error: contributionsError.message }, { status: 500 });
+        }
+
+        const today = new Date().toISOString().slice(0, 10);
+        const byGoal = new Map<string, GoalContributionRow[]>();
+        for (const contribution of (contributions || []) as GoalContributionRow[]) {
+            byGoal.set(contribution.goal_id, [...(byGoal.get(contribution.goal_id) || []), contribution]);
+        }
+        const goals = (data || []).map((goal: any) => ({
+            ...goal,
+            projection: contributionsError ? null : projectGoal(goal, byGoal.get(goal.id) || [], today),
+        }));
+
         logInfo('savings_loaded', {
             ...context,
             userId: session.user.id,
-            count: data?.length || 0,
+            count: goals.length,
             durationMs: Date.now() - startedAt,
         });
 
-        return NextResponse.json(data);
+        return NextResponse.json(goals);
     } catch (error) {
         logError('savings_get_exception', error, {
             ...context,
@@ -64,6 +85,22 @@ export async function POST(req: Request) {
             .single();
         if (error) return NextResponse.json({ error: error.message }, { status: 500 });
 
+        // A starting balance enters the ledger as an adjustment; the trigger keeps current_amount equal to it.
+        if (Number(data.current_amount) > 0) {
+            const { error: openingError } = await supabase.from('goal_contributions').insert({
+                space_id: activeSpaceId,
+                goal_id: data.id,
+                amount: data.current_amount,
+                date: new Date().toISOString().slice(0, 10),
+                source: 'adjustment',
+                notes: 'Saldo inicial',
+                created_by: session.user.id,
+            });
+            if (openingError && !isMissingGoalContributionsTableError(openingError.message)) {
+                logWarn('savings_goal_opening_contribution_failed', { ...context, userId: session.user.id, goalId: data.id, reason: openingError.message });
+            }
+        }
+
         await recordAuditEvent({
             supabase,
             userId: session.user.id,
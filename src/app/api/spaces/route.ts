@@ -3,6 +3,7 @@ import { z } from 'zod';
 import { createClient } from '@/lib/supabase-server';
 import { ensureActiveSpace, listUserSpaces } from '@/lib/spaces';
 import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { ensureSpaceCategories } from '@/lib/categories';
 
 const CreateSpaceSchema = z.object({
     name: z.string().min(1).max(48),
@@ -79,6 +80,7 @@ export async function POST(req: Request) {
             return NextResponse.json({ error: memberError.message || 'No se pudo asignar el espacio.' }, { status: 500 });
         }
 
+        await ensureSpaceCategories(supabase as any, space.id, session.user.id);
         await supabase.auth.updateUser({ data: { active_space_id: space.id } });
 
         const spaces = await listUserSpaces(supabase as any, session.user.id);
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { collectTags, loadTags, type Tag } from '@/lib/tags';
+
+export async function GET() {
+    const context = createRequestContext('/api/tags', 'GET');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        let tags: Tag[] | null = await loadTags(supabase as any, activeSpaceId);
+        if (!tags) {
+            // Before supabase-transaction-details.sql the tags only live on the movements themselves.
+            const { data } = await supabase
+                .from('transactions')
+                .select('tags')
+                .eq('space_id', activeSpaceId);
+            tags = collectTags(data || []).map((tag) => ({ id: tag.name, name: tag.name, usage_count: tag.count }));
+        }
+
+        const sorted = tags
+            .filter((tag) => tag.usage_count > 0)
+            .sort((a, b) => b.usage_count - a.usage_count || a.name.localeCompare(b.name, 'es'));
+
+        logInfo('tags_loaded', {
+            ...context,
+            userId: session.user.id,
+            count: sorted.length,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(sorted);
+    } catch (error) {
+        logError('tags_get_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: 'Error al cargar etiquetas' }, { status: 500 });
+    }
+}
@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { recordAuditEvent } from '@/lib/audit';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { ATTACHMENTS_BUCKET } from '@/lib/attachments';
+
+const ParamsSchema = z.object({
+    id: z.string().uuid('ID de transacción inválido'),
+    attachmentId: z.string().uuid('ID de adjunto inválido'),
+});
+
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string; attachmentId: string }> }) {
+    const context = createRequestContext('/api/transactions/[id]/attachments/[attachmentId]', 'DELETE');
+    const startedAt = Date.now();
+
+    try {
+        const parsedParams = ParamsSchema.safeParse(await params);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de adjunto inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const { data: existingAttachment, error: existingError } = await supabase
+            .from('transaction_attachments')
+            .select('id, transaction_id, storage_path, file_name, mime_type, size_bytes, created_at')
+            .eq('id', parsedParams.data.attachmentId)
+            .eq('transaction_id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (existingError) return NextResponse.json({ error: existingError.message }, { status: 500 });
+        if (!existingAttachment) return NextResponse.json({ error: 'Adjunto no encontrado' }, { status: 404 });
+
+        // The file goes first: the storage policy that lets other members delete it checks the attachment row.
+        const { error: removeError } = await supabase.storage
+            .from(ATTACHMENTS_BUCKET)
+            .remove([existingAttachment.storage_path]);
+
+        if (removeError) return NextResponse.json({ error: removeError.message }, { status: 500 });
+
+        const { error: deleteError } = await supabase
+            .from('transaction_attachments')
+            .delete()
+            .eq('id', existingAttachment.id)
+            .eq('space_id', activeSpaceId);
+
+        if (deleteError) return NextResponse.json({ error: deleteError.message }, { status: 500 });
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'transaction_attachment',
+            entityId: existingAttachment.id,
+            action: 'delete',
+            beforeData: existingAttachment,
+            metadata: { transactionId: existingAttachment.transaction_id },
+        });
+
+        logInfo('transaction_attachment_deleted', {
+            ...context,
+            userId: session.user.id,
+            attachmentId: existingAttachment.id,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({ success: true, id: existingAttachment.id });
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('transaction_attachment_delete_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'No se pudo eliminar el adjunto' }, { status: 400 });
+    }
+}
@@ -0,0 +1,202 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { recordAuditEvent } from '@/lib/audit';
+import { createRequestContext, logError, logInfo, logWarn } from '@/lib/observability';
+import { ensureActiveSpace } from '@/lib/spaces';
+import {
+    ATTACHMENTS_BUCKET,
+    MAX_ATTACHMENT_BYTES,
+    MAX_ATTACHMENTS_PER_TRANSACTION,
+    buildAttachmentPath,
+    isAllowedAttachmentType,
+    isMissingAttachmentsTableError,
+    withSignedUrls,
+    type TransactionAttachment,
+} from '@/lib/attachments';
+
+const ParamsSchema = z.object({
+    id: z.string().uuid('ID de transacción inválido'),
+});
+
+const ATTACHMENT_SELECT = 'id, transaction_id, storage_path, file_name, mime_type, size_bytes, created_at';
+
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/transactions/[id]/attachments', 'GET');
+    const startedAt = Date.now();
+
+    try {
+        const parsedParams = ParamsSchema.safeParse(await params);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de transacción inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const { data, error } = await supabase
+            .from('transaction_attachments')
+            .select(ATTACHMENT_SELECT)
+            .eq('space_id', activeSpaceId)
+            .eq('transaction_id', parsedParams.data.id)
+            .order('created_at', { ascending: true });
+
+        if (error) {
+            if (isMissingAttachmentsTableError(error.message)) {
+                logWarn('transaction_attachments_table_missing_returning_empty', {
+                    ...context,
+                    userId: session.user.id,
+                    reason: error.message,
+                });
+                return NextResponse.json([]);
+            }
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+
+        const attachments = await withSignedUrls(supabase as any, (data || []) as TransactionAttachment[]);
+
+        logInfo('transaction_attachments_loaded', {
+            ...context,
+            userId: session.user.id,
+            transactionId: parsedParams.data.id,
+            count: attachments.length,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(attachments);
+    } catch (error) {
+        logError('transaction_attachments_get_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: 'Error al cargar adjuntos' }, { status: 500 });
+    }
+}
+
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/transactions/[id]/attachments', 'POST');
+    const startedAt = Date.now();
+
+    try {
+        const parsedParams = ParamsSchema.safeParse(await params);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de transacción inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const formData = await req.formData();
+        const file = formData.get('file');
+        if (!(file instanceof File) || file.size === 0) {
+            return NextResponse.json({ error: 'No se recibió ningún archivo' }, { status: 400 });
+        }
+        if (!isAllowedAttachmentType(file.type)) {
+            return NextResponse.json({ error: 'Solo se pueden adjuntar PDF o imágenes (JPG, PNG, WEBP)' }, { status: 400 });
+        }
+        if (file.size > MAX_ATTACHMENT_BYTES) {
+            return NextResponse.json({ error: 'El archivo supera los 10 MB' }, { status: 400 });
+        }
+
+        const { data: transaction, error: transactionError } = await supabase
+            .from('transactions')
+            .select('id')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (transactionError) return NextResponse.json({ error: transactionError.message }, { status: 500 });
+        if (!transaction) return NextResponse.json({ error: 'Transacción no encontrada' }, { status: 404 });
+
+        const { count, error: countError } = await supabase
+            .from('transaction_attachments')
+            .select('id', { count: 'exact', head: true })
+            .eq('space_id', activeSpaceId)
+            .eq('transaction_id', transaction.id);
+
+        if (countError) {
+            if (isMissingAttachmentsTableError(countError.message)) {
+                return NextResponse.json({
+                    error: 'Los adjuntos no están inicializados en la base.',
+                    hint: 'Ejecuta supabase-transaction-details.sql en Supabase SQL Editor.',
+                }, { status: 503 });
+            }
+            return NextResponse.json({ error: countError.message }, { status: 500 });
+        }
+        if ((count || 0) >= MAX_ATTACHMENTS_PER_TRANSACTION) {
+            return NextResponse.json({ error: `Máximo ${MAX_ATTACHMENTS_PER_TRANSACTION} adjuntos por movimiento` }, { status: 400 });
+        }
+
+        const storagePath = buildAttachmentPath(session.user.id, transaction.id, file.name);
+        const { error: uploadError } = await supabase.storage
+            .from(ATTACHMENTS_BUCKET)
+            .upload(storagePath, file, { contentType: file.type, upsert: false });
+
+        if (uploadError) {
+            return NextResponse.json({
+                error: `No se pudo subir el archivo: ${uploadError.message}`,
+                hint: 'Revisa el bucket documents y sus policies (supabase-advanced.sql).',
+            }, { status: 500 });
+        }
+
+        const { data: attachment, error: insertError } = await supabase
+            .from('transaction_attachments')
+            .insert({
+                space_id: activeSpaceId,
+                transaction_id: transaction.id,
+                user_id: session.user.id,
+                storage_path: storagePath,
+                file_name: file.name.slice(0, 255) || 'archivo',
+                mime_type: file.type,
+                size_bytes: file.size,
+            })
+            .select(ATTACHMENT_SELECT)
+            .single();
+
+        if (insertError) {
+            // Best effort cleanup.
+            await supabase.storage.from(ATTACHMENTS_BUCKET).remove([storagePath]);
+            return NextResponse.json({ error: insertError.message }, { status: 500 });
+        }
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'transaction_attachment',
+            entityId: attachment.id,
+            action: 'create',
+            afterData: attachment,
+            metadata: { transactionId: transaction.id },
+        });
+
+        logInfo('transaction_attachment_created', {
+            ...context,
+            userId: session.user.id,
+            transactionId: transaction.id,
+            attachmentId: attachment.id,
+            sizeBytes: file.size,
+            durationMs: Date.now() - startedAt,
+        });
+
+        const [withUrl] = await withSignedUrls(supabase as any, [attachment as TransactionAttachment]);
+        return NextResponse.json(withUrl);
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('transaction_attachment_create_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'No se pudo adjuntar el archivo' }, { status: 400 });
+    }
+}
@@ -5,6 +5,11 @@ import { TransactionUpdateSchema } from '@/lib/schemas';
 import { recordAuditEvent } from '@/lib/audit';
 import { createRequestContext, logError, logInfo } from '@/lib/observability';
 import { ensureActiveSpace } from '@/lib/spaces';
+import { resolveFxSnapshotUpdate } from '@/lib/currency';
+import { accountsBelongToSpace, validateTransferAccounts } from '@/lib/accounts';
+import { syncCardCharge } from '@/lib/credit-cards';
+import { removeTransactionAttachmentFiles } from '@/lib/attachments';
+import { loadSplitsByTransaction, replaceTransactionSplits, rescaleSplitLines, splitBaseAmount } from '@/lib/splits';
 
 const ParamsSchema = z.object({
     id: z.string().uuid('ID de transacción inválido'),
@@ -42,9 +47,24 @@ export async function PUT(req: Request, { params }: { params: Promise<{ id: stri
         if (existingError) return NextResponse.json({ error: existingError.message }, { status: 500 });
         if (!existingTransaction) return NextResponse.json({ error: 'Transacción no encontrada' }, { status: 404 });
 
+        const fxSnapshot = resolveFxSnapshotUpdate(validatedData, existingTransaction);
+
+        // Turning a transfer back into income/expense drops its destination account.
+        const accountChanges = validatedData.type && validatedData.type !== 'transfer' && validatedData.transfer_account_id === undefined
+            ? { transfer_account_id: null }
+            : {};
+        const transferError = validateTransferAccounts({ ...existingTransaction, ...validatedData, ...accountChanges });
+        if (transferError) return NextResponse.json({ error: transferError }, { status: 400 });
+
+        const ownsAccounts = await accountsBelongToSpace(supabase as any, activeSpaceId, [
+            validatedData.account_id,
+            validatedData.transfer_account_id,
+        ]);
+        if (!ownsAccounts) return NextResponse.json({ error: 'Cuenta inválida para este espacio' }, { status: 400 });
+
         const { data: updatedTransaction, error: updateError } = await supabase
             .from('transactions')
-            .update(validatedData)
+            .update({ ...validatedData, ...accountChanges, ...(fxSnapshot || {}) })
             .eq('id', parsedParams.data.id)
             .eq('space_id', activeSpaceId)
             .select('*')
@@ -52,6 +72,20 @@ export async function PUT(req: Request, { params }: { params: Promise<{ id: stri
 
         if (updateError) return NextResponse.json({ error: updateError.message }, { status: 500 });
 
+        await syncCardCharge(supabase as any, activeSpaceId, session.user.id, updatedTransaction, existingTransaction.card_statement_id);
+
+        // Split lines follow the total: they are rescaled when it changes and dropped if it stops being an expense.
+        const previousSplits = (await loadSplitsByTransaction(supabase as any, activeSpaceId, [updatedTransaction.id])).get(updatedTransaction.id) || [];
+        const newBase = splitBaseAmount(updatedTransaction);
+        if (previousSplits.length && (updatedTransaction.type !== 'expense' || newBase !== splitBaseAmount(existingTransaction))) {
+            await replaceTransactionSplits(supabase as any, {
+                spaceId: activeSpaceId,
+                userId: session.user.id,
+                transaction: { id: updatedTransaction.id, category: updatedTransaction.category },
+                lines: updatedTransaction.type === 'expense' ? rescaleSplitLines(previousSplits, newBase) : [],
+            });
+        }
+
         await recordAuditEvent({
             supabase,
             userId: session.user.id,
@@ -110,6 +144,9 @@ export async function DELETE(_req: Request, { params }: { params: Promise<{ id:
         if (existingError) return NextResponse.json({ error: existingError.message }, { status: 500 });
         if (!existingTransaction) return NextResponse.json({ error: 'Transacción no encontrada' }, { status: 404 });
 
+        // Attachment rows cascade with the transaction; their files in Storage do not.
+        await removeTransactionAttachmentFiles(supabase as any, activeSpaceId, existingTransaction.id);
+
         const { error: deleteError } = await supabase
             .from('transactions')
             .delete()
@@ -118,6 +155,10 @@ export async function DELETE(_req: Request, { params }: { params: Promise<{ id:
 
         if (deleteError) return NextResponse.json({ error: deleteError.message }, { status: 500 });
 
+        if (existingTransaction.card_statement_id) {
+            await syncCardCharge(supabase as any, activeSpaceId, session.user.id, null, existingTransaction.card_statement_id);
+        }
+
         await recordAuditEvent({
             supabase,
             userId: session.user.id,
@@ -0,0 +1,107 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { TransactionSplitsSchema } from '@/lib/schemas';
+import { recordAuditEvent } from '@/lib/audit';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { ensureActiveSpace } from '@/lib/spaces';
+import {
+    isMissingSplitsTableError,
+    loadSplitsByTransaction,
+    replaceTransactionSplits,
+    splitBaseAmount,
+    validateSplitLines,
+} from '@/lib/splits';
+
+const ParamsSchema = z.object({
+    id: z.string().uuid('ID de transacción inválido'),
+});
+
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/transactions/[id]/splits', 'PUT');
+    const startedAt = Date.now();
+
+    try {
+        const parsedParams = ParamsSchema.safeParse(await params);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de transacción inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const payload = await req.json();
+        const { splits: lines } = TransactionSplitsSchema.parse(payload);
+
+        const { data: transaction, error: transactionError } = await supabase
+            .from('transactions')
+            .select('*')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (transactionError) return NextResponse.json({ error: transactionError.message }, { status: 500 });
+        if (!transaction) return NextResponse.json({ error: 'Transacción no encontrada' }, { status: 404 });
+
+        if (lines.length) {
+            if (transaction.type !== 'expense') {
+                return NextResponse.json({ error: 'Solo los gastos se pueden dividir en categorías' }, { status: 400 });
+            }
+            const splitError = validateSplitLines(splitBaseAmount(transaction), lines);
+            if (splitError) return NextResponse.json({ error: splitError }, { status: 400 });
+        }
+
+        const previousSplits = (await loadSplitsByTransaction(supabase as any, activeSpaceId, [transaction.id])).get(transaction.id) || [];
+
+        const result = await replaceTransactionSplits(supabase as any, {
+            spaceId: activeSpaceId,
+            userId: session.user.id,
+            transaction,
+            lines,
+        });
+
+        if (result.error) {
+            if (isMissingSplitsTableError(result.error)) {
+                return NextResponse.json({
+                    error: 'La división de movimientos no está inicializada en la base.',
+                    hint: 'Ejecuta supabase-splits.sql en Supabase SQL Editor.',
+                }, { status: 503 });
+            }
+            return NextResponse.json({ error: result.error }, { status: 500 });
+        }
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'transaction',
+            entityId: transaction.id,
+            action: 'update',
+            beforeData: { category: transaction.category, splits: previousSplits },
+            afterData: { category: result.category, splits: result.splits },
+            metadata: { source: 'transaction_splits' },
+        });
+
+        logInfo('transaction_splits_updated', {
+            ...context,
+            userId: session.user.id,
+            transactionId: transaction.id,
+            lines: result.splits.length,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({ ...transaction, category: result.category, splits: result.splits });
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('transaction_splits_update_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'Datos inválidos' }, { status: 400 });
+    }
+}
@@ -0,0 +1,88 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { recordAuditEvent } from '@/lib/audit';
+import { ensureActiveSpace } from '@/lib/spaces';
+
+const ParamsSchema = z.object({
+    id: z.string().uuid('ID de revisión inválido'),
+});
+
+/**
+ * Marks a suspected pair as distinct movements. The pair stays stored so later imports do not queue it again.
+ */
+export async function POST(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/transactions/duplicates/[id]/dismiss', 'POST');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de revisión inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const { data: review, error: reviewError } = await supabase
+            .from('transaction_duplicates')
+            .select('*')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (reviewError) return NextResponse.json({ error: reviewError.message }, { status: 500 });
+        if (!review) return NextResponse.json({ error: 'Revisión no encontrada' }, { status: 404 });
+        if (review.status !== 'pending') {
+            return NextResponse.json({ error: 'Esta revisión ya fue resuelta' }, { status: 409 });
+        }
+
+        const { data: updatedReview, error: updateError } = await supabase
+            .from('transaction_duplicates')
+            .update({
+                status: 'dismissed',
+                resolved_by: session.user.id,
+                resolved_at: new Date().toISOString(),
+            })
+            .eq('id', review.id)
+            .eq('space_id', activeSpaceId)
+            .select()
+            .single();
+
+        if (updateError) return NextResponse.json({ error: updateError.message }, { status: 500 });
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'transaction_duplicate',
+            entityId: review.id,
+            action: 'update',
+            beforeData: review,
+            afterData: updatedReview,
+        });
+
+        logInfo('duplicate_review_dismissed', {
+            ...context,
+            userId: session.user.id,
+            reviewId: review.id,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(updatedReview);
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('duplicate_review_dismiss_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'No se pudo descartar el duplicado' }, { status: 400 });
+    }
+}
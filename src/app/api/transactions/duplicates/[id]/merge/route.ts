@@ -0,0 +1,144 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { DuplicateMergeSchema } from '@/lib/schemas';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { recordAuditEvent } from '@/lib/audit';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { syncCardCharge } from '@/lib/credit-cards';
+import { normalizeTagList } from '@/lib/tags';
+
+const ParamsSchema = z.object({
+    id: z.string().uuid('ID de revisión inválido'),
+});
+
+/**
+ * Resolves a suspected pair by keeping one movement and deleting the other. The review row goes away with
+ * the deleted movement (on delete cascade); the audit log keeps the removed row.
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const context = createRequestContext('/api/transactions/duplicates/[id]/merge', 'POST');
+    const startedAt = Date.now();
+
+    try {
+        const routeParams = await params;
+        const parsedParams = ParamsSchema.safeParse(routeParams);
+        if (!parsedParams.success) {
+            return NextResponse.json({ error: 'ID de revisión inválido' }, { status: 400 });
+        }
+
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const body = await req.json().catch(() => ({}));
+        const validated = DuplicateMergeSchema.parse(body);
+
+        const { data: review, error: reviewError } = await supabase
+            .from('transaction_duplicates')
+            .select('*')
+            .eq('id', parsedParams.data.id)
+            .eq('space_id', activeSpaceId)
+            .maybeSingle();
+
+        if (reviewError) return NextResponse.json({ error: reviewError.message }, { status: 500 });
+        if (!review) return NextResponse.json({ error: 'Revisión no encontrada' }, { status: 404 });
+        if (review.status !== 'pending') {
+            return NextResponse.json({ error: 'Esta revisión ya fue resuelta' }, { status: 409 });
+        }
+
+        const keptId = validated.keep === 'original' ? review.duplicate_of_id : review.transaction_id;
+        const removedId = validated.keep === 'original' ? review.transaction_id : review.duplicate_of_id;
+
+        const { data: pair, error: pairError } = await supabase
+            .from('transactions')
+            .select('*')
+            .eq('space_id', activeSpaceId)
+            .in('id', [keptId, removedId]);
+
+        if (pairError) return NextResponse.json({ error: pairError.message }, { status: 500 });
+
+        const kept = pair?.find((row: { id: string }) => row.id === keptId);
+        const removed = pair?.find((row: { id: string }) => row.id === removedId);
+        if (!kept || !removed) return NextResponse.json({ error: 'Transacción no encontrada' }, { status: 404 });
+
+        // Receipts attached to either movement end up on the one that is kept.
+        await supabase
+            .from('transaction_attachments')
+            .update({ transaction_id: kept.id })
+            .eq('transaction_id', removed.id)
+            .eq('space_id', activeSpaceId);
+
+        const { error: deleteError } = await supabase
+            .from('transactions')
+            .delete()
+            .eq('id', removed.id)
+            .eq('space_id', activeSpaceId);
+
+        if (deleteError) return NextResponse.json({ error: deleteError.message }, { status: 500 });
+
+        // The bank id survives the merge so the next import of the same file still recognizes the movement;
+        // tags and notes of the removed movement are kept too.
+        const keptChanges: Record<string, unknown> = {};
+        if (!kept.external_id && removed.external_id) keptChanges.external_id = removed.external_id;
+        if (!kept.notes && removed.notes) keptChanges.notes = removed.notes;
+        const mergedTags = normalizeTagList([...(kept.tags || []), ...(removed.tags || [])]);
+        if (mergedTags.length > (kept.tags || []).length) keptChanges.tags = mergedTags;
+
+        let keptFinal = kept;
+        if (Object.keys(keptChanges).length) {
+            const { data: updatedKept } = await supabase
+                .from('transactions')
+                .update(keptChanges)
+                .eq('id', kept.id)
+                .eq('space_id', activeSpaceId)
+                .select()
+                .single();
+            if (updatedKept) keptFinal = updatedKept;
+        }
+
+        if (removed.card_statement_id) {
+            await syncCardCharge(supabase as any, activeSpaceId, session.user.id, null, removed.card_statement_id);
+        }
+
+        await recordAuditEvent({
+            supabase,
+            userId: session.user.id,
+            spaceId: activeSpaceId,
+            entityType: 'transaction',
+            entityId: removed.id,
+            action: 'delete',
+            beforeData: removed,
+            afterData: null,
+            metadata: {
+                source: 'duplicate_merge',
+                reviewId: review.id,
+                keptId: kept.id,
+                reason: review.reason,
+                score: review.score,
+            },
+        });
+
+        logInfo('duplicate_review_merged', {
+            ...context,
+            userId: session.user.id,
+            reviewId: review.id,
+            keptId: kept.id,
+            removedId: removed.id,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({ success: true, kept: keptFinal, removed_id: removed.id });
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('duplicate_review_merge_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'No se pudo unir el duplicado' }, { status: 400 });
+    }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { createRequestContext, logError, logInfo, logWarn } from '@/lib/observability';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { isMissingDuplicatesTableError } from '@/lib/duplicates';
+
+const TRANSACTION_FIELDS = 'id, date, type, amount, currency, original_amount, fx_rate, description, category, account_id, external_id, created_at';
+const MAX_PENDING_REVIEWS = 200;
+
+export async function GET() {
+    const context = createRequestContext('/api/transactions/duplicates', 'GET');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const { data, error } = await supabase
+            .from('transaction_duplicates')
+            .select(`
+                id, score, reason, source, created_at,
+                transaction:transactions!transaction_duplicates_transaction_id_fkey(${TRANSACTION_FIELDS}),
+                original:transactions!transaction_duplicates_duplicate_of_id_fkey(${TRANSACTION_FIELDS})
+            `)
+            .eq('space_id', activeSpaceId)
+            .eq('status', 'pending')
+            .order('created_at', { ascending: false })
+            .limit(MAX_PENDING_REVIEWS);
+
+        if (error) {
+            if (isMissingDuplicatesTableError(error.message)) {
+                logWarn('duplicates_table_missing_returning_empty', {
+                    ...context,
+                    userId: session.user.id,
+                    reason: error.message,
+                });
+                return NextResponse.json([]);
+            }
+            return NextResponse.json({ error: error.message }, { status: 500 });
+        }
+
+        logInfo('duplicate_reviews_loaded', {
+            ...context,
+            userId: session.user.id,
+            count: data?.length || 0,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json(data || []);
+    } catch (error) {
+        logError('duplicate_reviews_get_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: 'Error al cargar posibles duplicados' }, { status: 500 });
+    }
+}
@@ -0,0 +1,103 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase-server';
+import { ImportMappingSchema } from '@/lib/schemas';
+import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { ensureActiveSpace } from '@/lib/spaces';
+import {
+    buildImportPreview,
+    detectImportFormat,
+    findBuiltinImportProfile,
+    resolveMaxImportRows,
+    type ImportMapping,
+} from '@/lib/bank-import';
+
+const MAX_CONTENT_LENGTH = 5_000_000;
+
+const ImportPreviewRequestSchema = z.object({
+    content: z.string().min(1, 'El archivo está vacío').max(MAX_CONTENT_LENGTH, 'El archivo es demasiado grande'),
+    file_name: z.string().max(200).optional().nullable(),
+    format: z.enum(['csv', 'ofx', 'qif']).optional().nullable(),
+    profile_id: z.string().max(80).optional().nullable(),
+    mapping: ImportMappingSchema.optional().nullable(),
+    date_format: z.enum(['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD', 'DD-MM-YYYY']).optional(),
+});
+
+/**
+ * Parses a bank export with the chosen profile and returns the rows it would insert.
+ * Nothing is written: the client confirms the mapping and sends the rows to /api/transactions/import.
+ */
+export async function POST(req: Request) {
+    const context = createRequestContext('/api/transactions/import/preview', 'POST');
+    const startedAt = Date.now();
+
+    try {
+        const supabase = await createClient();
+        if (!supabase) return NextResponse.json({ error: 'Supabase no está configurado' }, { status: 500 });
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+
+        const body = await req.json();
+        const validated = ImportPreviewRequestSchema.parse(body);
+        const format = validated.format || detectImportFormat(validated.file_name || '', validated.content);
+
+        let mapping: ImportMapping | null = validated.mapping ?? null;
+        if (!mapping && format === 'csv' && validated.profile_id) {
+            const builtin = findBuiltinImportProfile(validated.profile_id);
+            if (builtin) {
+                mapping = builtin.mapping;
+            } else {
+                const parsedId = z.string().uuid().safeParse(validated.profile_id);
+                if (!parsedId.success) return NextResponse.json({ error: 'Perfil de importación inválido' }, { status: 400 });
+
+                const { data: profile, error: profileError } = await supabase
+                    .from('import_profiles')
+                    .select('mapping')
+                    .eq('id', parsedId.data)
+                    .eq('space_id', activeSpaceId)
+                    .maybeSingle();
+
+                if (profileError) return NextResponse.json({ error: profileError.message }, { status: 500 });
+                if (!profile) return NextResponse.json({ error: 'Perfil de importación no encontrado' }, { status: 404 });
+                mapping = profile.mapping as ImportMapping;
+            }
+        }
+
+        const preview = buildImportPreview({
+            format,
+            content: validated.content,
+            mapping,
+            dateFormat: validated.date_format,
+        });
+
+        const maxRows = resolveMaxImportRows();
+        const truncated = Math.max(0, preview.rows.length - maxRows);
+
+        logInfo('transactions_import_previewed', {
+            ...context,
+            userId: session.user.id,
+            format,
+            rows: preview.rows.length,
+            skipped: preview.skipped.length,
+            truncated,
+            durationMs: Date.now() - startedAt,
+        });
+
+        return NextResponse.json({
+            ...preview,
+            rows: preview.rows.slice(0, maxRows),
+            truncated,
+            max_rows: maxRows,
+        });
+    } catch (error: unknown) {
+        const parsedError = error as { errors?: unknown; message?: string };
+        logError('transactions_import_preview_exception', error, {
+            ...context,
+            durationMs: Date.now() - startedAt,
+        });
+        return NextResponse.json({ error: parsedError.errors || parsedError.message || 'Datos inválidos' }, { status: 400 });
+    }
+}
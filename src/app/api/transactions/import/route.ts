@@ -3,17 +3,33 @@ import { createClient } from '@/lib/supabase-server';
 import { createRequestContext, logError, logInfo } from '@/lib/observability';
 import { recordAuditEvent } from '@/lib/audit';
 import { ensureActiveSpace } from '@/lib/spaces';
-
-const MAX_IMPORT_ROWS = 2000;
+import { resolveFxSnapshot } from '@/lib/currency';
+import { accountsBelongToSpace, ensureDefaultAccount } from '@/lib/accounts';
+import { assignCardCharges, type CreditCardRow } from '@/lib/credit-cards';
+import { resolveMaxImportRows } from '@/lib/bank-import';
+import { loadCategoryRules, withCategoryRules } from '@/lib/category-rules';
+import { applyGoalRules, type GoalRuleTransaction } from '@/lib/goals';
+import {
+    findDuplicateMatches,
+    loadDuplicateWindow,
+    queueDuplicateReviews,
+    resolveDuplicateConfig,
+} from '@/lib/duplicates';
 
 type TransactionType = 'income' | 'expense';
 
+// 'skip' drops exact re-imports and flags near matches; 'flag' inserts everything and queues all matches for review.
+type DuplicateMode = 'skip' | 'flag';
+
+const MAX_REPORTED_DUPLICATES = 50;
+
 type ParsedImportRow = {
     date: string;
     type: TransactionType;
     category: string;
     description: string;
     amount: number;
+    external_id?: string;
 };
 
 function parseAmount(value: unknown) {
@@ -100,6 +116,7 @@ function parseRow(row: Record<string, unknown>): ParsedImportRow | null {
     const date = toIsoDate(row.date ?? row.fecha);
     const category = pickString(row, ['category', 'categoria', 'rubro']) || 'General';
     const description = pickString(row, ['description', 'descripcion', 'detalle', 'concepto']) || 'Movimiento importado';
+    const externalId = pickString(row, ['external_id', 'fitid']).slice(0, 120);
 
     if (!type || !date || !Number.isFinite(amount) || amount <= 0) {
         return null;
@@ -111,6 +128,7 @@ function parseRow(row: Record<string, unknown>): ParsedImportRow | null {
         amount,
         category,
         description,
+        ...(externalId ? { external_id: externalId } : {}),
     };
 }
 
@@ -131,12 +149,26 @@ export async function POST(req: Request) {
         const source = typeof body?.source === 'string' && body.source.trim()
             ? body.source.trim().slice(0, 40)
             : 'excel';
-        const rawRows = Array.isArray(body?.rows) ? body.rows.slice(0, MAX_IMPORT_ROWS) : [];
+        const maxRows = resolveMaxImportRows();
+        const receivedRows = Array.isArray(body?.rows) ? body.rows : [];
+        const rawRows = receivedRows.slice(0, maxRows);
+        const truncated = receivedRows.length - rawRows.length;
+        const accountId = typeof body?.account_id === 'string' && body.account_id ? body.account_id : null;
+        const currency = body?.currency === 'USD' ? 'USD' : 'ARS';
+        const fxRate = Number(body?.fx_rate);
+        const duplicateMode: DuplicateMode = body?.duplicate_mode === 'flag' ? 'flag' : 'skip';
 
         if (rawRows.length === 0) {
             return NextResponse.json({ error: 'No se recibieron filas para importar.' }, { status: 400 });
         }
 
+        if (currency === 'USD' && !(fxRate > 0)) {
+            return NextResponse.json({ error: 'Indicá el tipo de cambio para importar movimientos en USD.' }, { status: 400 });
+        }
+
+        const ownsAccount = await accountsBelongToSpace(supabase as any, activeSpaceId, [accountId]);
+        if (!ownsAccount) return NextResponse.json({ error: 'Cuenta inválida para este espacio' }, { status: 400 });
+
         const parsedRows: ParsedImportRow[] = [];
         let skipped = 0;
 
@@ -156,21 +188,89 @@ export async function POST(req: Request) {
             );
         }
 
-        const payload = parsedRows.map((row) => ({
+        // Fingerprints include the account, so rows without one are compared as if they went to the default account.
+        const targetAccountId = accountId ?? await ensureDefaultAccount(supabase as any, activeSpaceId, session.user.id);
+
+        // Rules run before the duplicate check so a re-import compares against movements categorized the same way.
+        const categoryRules = await loadCategoryRules(supabase as any, activeSpaceId);
+        const payload = parsedRows.map((row) => withCategoryRules(categoryRules, {
             user_id: session.user.id,
             space_id: activeSpaceId,
             ...row,
+            ...(currency === 'USD'
+                ? resolveFxSnapshot({ amount: row.amount, currency, fx_rate: fxRate, fx_source: 'import' })
+                : resolveFxSnapshot({ amount: row.amount })),
+            ...(targetAccountId ? { account_id: targetAccountId } : {}),
         }));
 
-        const { data: insertedRows, error: insertError } = await supabase
-            .from('transactions')
-            .insert(payload)
-            .select('id');
+        const duplicateConfig = resolveDuplicateConfig();
+        const existingRows = await loadDuplicateWindow(
+            supabase as any,
+            activeSpaceId,
+            payload.map((row) => row.date),
+            duplicateConfig.windowDays
+        );
+        const matches = findDuplicateMatches(payload, existingRows, duplicateConfig);
+        const matchByIndex = new Map(matches.map((match) => [match.index, match]));
+        const skippedIndexes = new Set(
+            duplicateMode === 'skip'
+                ? matches.filter((match) => match.reason !== 'fuzzy').map((match) => match.index)
+                : []
+        );
+        const keptIndexes = payload.map((_, index) => index).filter((index) => !skippedIndexes.has(index));
+
+        let insertedRows: GoalRuleTransaction[] = [];
+        if (keptIndexes.length) {
+            const { data, error: insertError } = await supabase
+                .from('transactions')
+                .insert(keptIndexes.map((index) => payload[index]))
+                .select('id, type, amount, category, date');
+
+            if (insertError) {
+                return NextResponse.json({ error: insertError.message }, { status: 500 });
+            }
+            insertedRows = data || [];
+        }
 
-        if (insertError) {
-            return NextResponse.json({ error: insertError.message }, { status: 500 });
+        // Inserted rows come back in insert order, which lets each near match point at its new id.
+        const reviewEntries = keptIndexes.flatMap((payloadIndex, insertedIndex) => {
+            const match = matchByIndex.get(payloadIndex);
+            const inserted = insertedRows[insertedIndex];
+            return match && inserted
+                ? [{ transaction_id: inserted.id, duplicate_of_id: match.match_id, score: match.score, reason: match.reason }]
+                : [];
+        });
+        const flagged = await queueDuplicateReviews(supabase as any, {
+            spaceId: activeSpaceId,
+            userId: session.user.id,
+            source,
+            entries: reviewEntries,
+        });
+
+        const duplicateItems = matches.slice(0, MAX_REPORTED_DUPLICATES).map((match) => ({
+            date: payload[match.index].date,
+            description: payload[match.index].description,
+            amount: payload[match.index].amount,
+            match_id: match.match_id,
+            score: match.score,
+            reason: match.reason,
+            action: skippedIndexes.has(match.index) ? 'skipped' as const : 'flagged' as const,
+        }));
+
+        // Rows imported into a card account are spread over the statements of their purchase dates.
+        if (accountId && insertedRows.length) {
+            const { data: card } = await supabase
+                .from('credit_cards')
+                .select('*')
+                .eq('space_id', activeSpaceId)
+                .eq('account_id', accountId)
+                .maybeSingle();
+
+            if (card) await assignCardCharges(supabase as any, activeSpaceId, session.user.id, card as CreditCardRow);
         }
 
+        await applyGoalRules(supabase as any, { spaceId: activeSpaceId, userId: session.user.id, transactions: insertedRows });
+
         await recordAuditEvent({
             supabase,
             userId: session.user.id,
@@ -180,22 +280,37 @@ export async function POST(req: Request) {
             action: 'system',
             metadata: {
                 source,
-                imported: insertedRows?.length || 0,
+                imported: insertedRows.length,
                 skipped,
+                truncated,
+                accountId,
+                currency,
+                duplicateMode,
+                duplicatesSkipped: skippedIndexes.size,
+                duplicatesFlagged: flagged,
             },
         });
 
         logInfo('transactions_imported', {
             ...context,
             userId: session.user.id,
-            imported: insertedRows?.length || 0,
+            imported: insertedRows.length,
             skipped,
+            truncated,
+            duplicatesSkipped: skippedIndexes.size,
+            duplicatesFlagged: flagged,
             durationMs: Date.now() - startedAt,
         });
 
         return NextResponse.json({
-            imported: insertedRows?.length || 0,
+            imported: insertedRows.length,
             skipped,
+            truncated,
+            duplicates: {
+                skipped: skippedIndexes.size,
+                flagged,
+                items: duplicateItems,
+            },
         });
     } catch (error) {
         logError('transactions_import_exception', error, {
@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase-server';
 import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { ensureActiveSpace } from '@/lib/spaces';
+import { loadCategoryRules, withCategoryRules } from '@/lib/category-rules';
 
 type PreviewRow = {
     date: string;
@@ -264,19 +266,23 @@ export async function POST(req: Request) {
             taxesAppliedPercent = 'taxesAppliedPercent' in rateInfo ? (rateInfo.taxesAppliedPercent ?? null) : null;
         }
 
+        // The space rules win over the keyword guess, same as when the rows get registered.
+        const { activeSpaceId } = await ensureActiveSpace(supabase as any, session.user);
+        const categoryRules = await loadCategoryRules(supabase as any, activeSpaceId);
+
         const convertedRows: PreviewRow[] = rawRows.map((row) => {
-            if (row.currency !== 'USD') return row;
+            if (row.currency !== 'USD') return withCategoryRules(categoryRules, row);
             const rate = usdRateUsed || 0;
             const amountArs = rate > 0 ? Number((row.amount * rate).toFixed(2)) : row.amount;
             const suffix = rate > 0
                 ? ` | USD ${row.originalAmount.toFixed(2)} convertido a ARS (TC ${rate.toFixed(2)}${taxesAppliedPercent ? `, imp. ${taxesAppliedPercent.toFixed(1)}%` : ''})`
                 : ` | USD ${row.originalAmount.toFixed(2)} (sin conversion)`;
 
-            return {
+            return withCategoryRules(categoryRules, {
                 ...row,
                 amount: amountArs,
                 description: `${row.description}${suffix}`,
-            };
+            });
         });
 
         logInfo('transactions_preview_generated', {
@@ -1,9 +1,15 @@
 import { createClient } from '@/lib/supabase-server';
-import { TransactionInputSchema } from '@/lib/schemas';
+import { TransactionInputSchema, TransactionSplitsSchema } from '@/lib/schemas';
 import { NextResponse } from 'next/server';
-import { createRequestContext, logError, logInfo } from '@/lib/observability';
+import { createRequestContext, logError, logInfo, logWarn } from '@/lib/observability';
 import { recordAuditEvent } from '@/lib/audit';
 import { ensureActiveSpace } from '@/lib/spaces';
+import { resolveFxSnapshot } from '@/lib/currency';
+import { accountsBelongToSpace, validateTransferAccounts } from '@/lib/accounts';
+import { syncCardCharge } from '@/lib/credit-cards';
+import { loadCategoryRules, withCategoryRules } from '@/lib/category-rules';
+import { applyGoalRules } from '@/lib/goals';
+import { attachSplits, loadSplitsByTransaction, replaceTransactionSplits, splitBaseAmount, validateSplitLines } from '@/lib/splits';
 
 export async function GET() {
     const context = createRequestContext('/api/transactions', 'GET');
@@ -27,14 +33,17 @@ export async function GET() {
 
         if (error) return NextResponse.json({ error: error.message }, { status: 500 });
 
+        // Split lines travel with their movement so history and charts can show and aggregate them.
+        const transactions = attachSplits(data || [], await loadSplitsByTransaction(supabase as any, activeSpaceId));
+
         logInfo('transactions_loaded', {
             ...context,
             userId: session.user.id,
-            count: data?.length || 0,
+            count: transactions.length,
             durationMs: Date.now() - startedAt,
         });
 
-        return NextResponse.json(data);
+        return NextResponse.json(transactions);
     } catch (error) {
         logError('transactions_get_exception', error, {
             ...context,
@@ -59,15 +68,57 @@ export async function POST(req: Request) {
 
         const body = await req.json();
         const validatedData = TransactionInputSchema.parse(body);
+        const fxSnapshot = resolveFxSnapshot(validatedData);
+        const { splits: splitLines } = TransactionSplitsSchema.parse({ splits: body?.splits ?? [] });
+
+        const transferError = validateTransferAccounts(validatedData);
+        if (transferError) return NextResponse.json({ error: transferError }, { status: 400 });
+
+        const ownsAccounts = await accountsBelongToSpace(supabase as any, activeSpaceId, [
+            validatedData.account_id,
+            validatedData.transfer_account_id,
+        ]);
+        if (!ownsAccounts) return NextResponse.json({ error: 'Cuenta inválida para este espacio' }, { status: 400 });
+
+        const categoryRules = await loadCategoryRules(supabase as any, activeSpaceId);
+        const row = withCategoryRules(categoryRules, { ...validatedData, ...fxSnapshot });
+
+        if (splitLines.length) {
+            if (row.type !== 'expense') {
+                return NextResponse.json({ error: 'Solo los gastos se pueden dividir en categorías' }, { status: 400 });
+            }
+            const splitError = validateSplitLines(splitBaseAmount(row), splitLines);
+            if (splitError) return NextResponse.json({ error: splitError }, { status: 400 });
+        }
 
         const { data, error } = await supabase
             .from('transactions')
-            .insert([{ ...validatedData, user_id: session.user.id, space_id: activeSpaceId }])
+            .insert([{ ...row, user_id: session.user.id, space_id: activeSpaceId }])
             .select()
             .single();
 
         if (error) return NextResponse.json({ error: error.message }, { status: 500 });
 
+        // Charges on a credit card account land on the statement of their purchase date.
+        await syncCardCharge(supabase as any, activeSpaceId, session.user.id, data);
+        // Incomes feed the auto-save rules of the space's goals.
+        await applyGoalRules(supabase as any, { spaceId: activeSpaceId, userId: session.user.id, transactions: [data] });
+
+        let created = data;
+        if (splitLines.length) {
+            const splitResult = await replaceTransactionSplits(supabase as any, {
+                spaceId: activeSpaceId,
+                userId: session.user.id,
+                transaction: data,
+                lines: splitLines,
+            });
+            if (splitResult.error) {
+                logWarn('transaction_splits_create_failed', { ...context, userId: session.user.id, transactionId: data.id, reason: splitResult.error });
+            } else {
+                created = { ...data, category: splitResult.category, splits: splitResult.splits };
+            }
+        }
+
         await recordAuditEvent({
             supabase,
             userId: session.user.id,
@@ -75,7 +126,7 @@ export async function POST(req: Request) {
             entityType: 'transaction',
             entityId: data.id,
             action: 'create',
-            afterData: data,
+            afterData: created,
         });
 
         logInfo('transaction_created', {
@@ -85,7 +136,7 @@ export async function POST(req: Request) {
             durationMs: Date.now() - startedAt,
         });
 
-        return NextResponse.json(data);
+        return NextResponse.json(created);
     } catch (err: unknown) {
         const error = err as { errors?: unknown; message?: string };
         logError('transaction_create_exception', err, {
@@ -0,0 +1,168 @@
+'use client';
+
+export const dynamic = 'force-dynamic';
+
+import { useState } from 'react';
+import { useAccounts, type AccountWithBalance } from '@/hooks/use-accounts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { AccountForm } from '@/components/finance/account-form';
+import { TransferForm } from '@/components/finance/transfer-form';
+import { ACCOUNT_KIND_LABELS } from '@/lib/accounts';
+import { formatMoneyIn, normalizeCurrency } from '@/lib/currency';
+import { Archive, ArchiveRestore, Loader2, Star, Trash2, Wallet } from 'lucide-react';
+
+export default function AccountsPage() {
+    const [showArchived, setShowArchived] = useState(false);
+    const {
+        accounts,
+        isLoading,
+        error,
+        updateAccount,
+        deleteAccount,
+        isUpdating,
+        isDeleting,
+    } = useAccounts({ includeArchived: showArchived });
+    const [targetAccountId, setTargetAccountId] = useState<string | null>(null);
+
+    const runOnAccount = async (accountId: string, action: () => Promise<unknown>) => {
+        try {
+            setTargetAccountId(accountId);
+            await action();
+        } catch {
+            // toast handled in hook
+        } finally {
+            setTargetAccountId(null);
+        }
+    };
+
+    const handleDelete = (account: AccountWithBalance) => {
+        const approved = window.confirm(`¿Seguro que quieres eliminar la cuenta "${account.name}"?`);
+        if (!approved) return;
+        void runOnAccount(account.id, () => deleteAccount(account.id));
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h2 className="text-3xl font-bold tracking-tight">Cuentas</h2>
+                    <p className="text-muted-foreground">Saldos por cuenta y transferencias entre ellas.</p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => setShowArchived((value) => !value)}>
+                    {showArchived ? 'Ocultar archivadas' : 'Ver archivadas'}
+                </Button>
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-3">
+                <Card className="lg:col-span-2">
+                    <CardHeader>
+                        <CardTitle>Mis cuentas ({accounts.length})</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        {isLoading ? (
+                            <div className="flex justify-center p-8">
+                                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                            </div>
+                        ) : error ? (
+                            <p className="text-sm text-destructive">{error}</p>
+                        ) : accounts.length > 0 ? (
+                            <div className="space-y-3">
+                                {accounts.map((account) => {
+                                    const isBusy = targetAccountId === account.id && (isUpdating || isDeleting);
+                                    const currency = normalizeCurrency(account.currency);
+
+                                    return (
+                                        <div key={account.id} className="flex items-center justify-between gap-3 rounded-lg border p-3">
+                                            <div className="flex items-center gap-3">
+                                                <div className="rounded-full bg-primary/10 p-2 text-primary">
+                                                    <Wallet className="h-4 w-4" />
+                                                </div>
+                                                <div>
+                                                    <p className="flex items-center gap-2 font-medium">
+                                                        {account.name}
+                                                        {account.is_default && (
+                                                            <span className="rounded-full bg-primary/10 px-2 py-0.5 text-[10px] font-bold uppercase text-primary">Por defecto</span>
+                                                        )}
+                                                        {account.is_archived && (
+                                                            <span className="rounded-full bg-muted px-2 py-0.5 text-[10px] font-bold uppercase text-muted-foreground">Archivada</span>
+                                                        )}
+                                                    </p>
+                                                    <p className="text-xs text-muted-foreground">
+                                                        {ACCOUNT_KIND_LABELS[account.kind]} • {currency} • {account.movements_count} movimientos
+                                                        {account.reconciled_through
+                                                            ? ` • Conciliada al ${new Date(`${account.reconciled_through}T00:00:00`).toLocaleDateString('es-AR', { dateStyle: 'medium' })}`
+                                                            : ''}
+                                                    </p>
+                                                </div>
+                                            </div>
+
+                                            <div className="flex items-center gap-3">
+                                                <div className="text-right">
+                                                    <p className={`font-bold ${account.balance >= 0 ? 'text-emerald-500' : 'text-red-500'}`}>
+                                                        {formatMoneyIn(account.balance, currency)}
+                                                    </p>
+                                                    {account.missing_rates > 0 && (
+                                                        <p className="text-xs text-muted-foreground">{account.missing_rates} sin tipo de cambio</p>
+                                                    )}
+                                                </div>
+                                                <div className="flex items-center gap-1">
+                                                    {!account.is_default && !account.is_archived && (
+                                                        <Button
+                                                            type="button"
+                                                            variant="ghost"
+                                                            size="icon"
+                                                            className="h-8 w-8"
+                                                            title="Usar como cuenta por defecto"
+                                                            disabled={isBusy}
+                                                            onClick={() => runOnAccount(account.id, () => updateAccount({ accountId: account.id, changes: { is_default: true } }))}
+                                                        >
+                                                            <Star className="h-4 w-4" />
+                                                        </Button>
+                                                    )}
+                                                    {!account.is_default && (
+                                                        <Button
+                                                            type="button"
+                                                            variant="ghost"
+                                                            size="icon"
+                                                            className="h-8 w-8"
+                                                            title={account.is_archived ? 'Desarchivar cuenta' : 'Archivar cuenta'}
+                                                            disabled={isBusy}
+                                                            onClick={() => runOnAccount(account.id, () => updateAccount({ accountId: account.id, changes: { is_archived: !account.is_archived } }))}
+                                                        >
+                                                            {account.is_archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                                                        </Button>
+                                                    )}
+                                                    {!account.is_default && account.movements_count === 0 && (
+                                                        <Button
+                                                            type="button"
+                                                            variant="ghost"
+                                                            size="icon"
+                                                            className="h-8 w-8 text-destructive hover:text-destructive"
+                                                            title="Eliminar cuenta"
+                                                            disabled={isBusy}
+                                                            onClick={() => handleDelete(account)}
+                                                        >
+                                                            {isBusy && isDeleting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                                                        </Button>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        ) : (
+                            <p className="py-8 text-center text-sm text-muted-foreground">Todavía no hay cuentas.</p>
+                        )}
+                    </CardContent>
+                </Card>
+
+                <div className="space-y-6">
+                    <AccountForm />
+                    <TransferForm />
+                </div>
+            </div>
+        </div>
+    );
+}
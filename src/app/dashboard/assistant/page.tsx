@@ -12,6 +12,8 @@ import { Brain, Crown, FileText, Loader2, Paperclip, Send, Shield, Trash2, X } f
 import { FinFlowLogo } from '@/components/ui/finflow-logo';
 import { toast } from 'sonner';
 import { useAssistantAttachment } from '@/components/providers/assistant-attachment-provider';
+import { useRealTerms } from '@/hooks/use-real-terms';
+import { DeflatorNote, RealTermsToggle } from '@/components/finance/real-terms-toggle';
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
 
 type AssistantDocumentContext = {
@@ -114,6 +116,7 @@ type ManualStatementForm = {
 export default function AssistantPage() {
     const queryClient = useQueryClient();
     const { consumePendingDocumentContext } = useAssistantAttachment();
+    const { settings: realTerms, setSettings: setRealTerms, deflator, isUnavailable } = useRealTerms();
     const [messages, setMessages] = useState<{ role: 'user' | 'assistant'; content: string }[]>([]);
     const [input, setInput] = useState('');
     const [documentContext, setDocumentContext] = useState<AssistantDocumentContext | null>(null);
@@ -590,6 +593,8 @@ export default function AssistantPage() {
                 body: JSON.stringify({
                     message: messageToSend,
                     documentContext: documentContext ?? undefined,
+                    // The summaries sent to the model are also given in pesos of the base month.
+                    realTerms: deflator ? { series: deflator.series, base_month: deflator.base_month } : undefined,
                 }),
             });
 
@@ -637,6 +642,7 @@ export default function AssistantPage() {
                         )}
                     </CardTitle>
                     <div className="flex flex-wrap gap-2">
+                        <RealTermsToggle settings={realTerms} onChange={setRealTerms} deflator={deflator} />
                         {(billing?.plan !== 'pro') && (
                             <Button
                                 type="button"
@@ -669,6 +675,7 @@ export default function AssistantPage() {
                             </Button>
                         )}
                     </div>
+                    <DeflatorNote settings={realTerms} deflator={deflator} isUnavailable={isUnavailable} />
                 </CardHeader>
                 <CardContent className="flex-1 overflow-hidden p-0">
                     <ScrollArea className="h-full p-4">
@@ -3,7 +3,6 @@
 export const dynamic = 'force-dynamic';
 
 import { ChangeEvent, useMemo, useRef, useState } from 'react';
-import { useQueryClient } from '@tanstack/react-query';
 import { useAudit } from '@/hooks/use-audit';
 import { useTransactions } from '@/hooks/use-transactions';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -11,6 +10,8 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Loader2, ShieldCheck, FileSpreadsheet, Upload, Download } from 'lucide-react';
 import { toast } from 'sonner';
+import { BankImportSheet, type BankImportFile } from '@/components/transactions/bank-import-sheet';
+import { detectImportFormat, spreadsheetRowsToCsv } from '@/lib/bank-import';
 
 type GroupBy = 'day' | 'month' | 'year';
 
@@ -47,7 +48,6 @@ function formatGroupLabel(groupKey: string, groupBy: GroupBy) {
 }
 
 export default function AuditPage() {
-    const queryClient = useQueryClient();
     const fileInputRef = useRef<HTMLInputElement | null>(null);
     const { events, isLoading: isLoadingAudit } = useAudit(2000);
     const { transactions, isLoading: isLoadingTransactions } = useTransactions();
@@ -57,6 +57,7 @@ export default function AuditPage() {
     const [startDate, setStartDate] = useState('');
     const [endDate, setEndDate] = useState('');
     const [isImporting, setIsImporting] = useState(false);
+    const [importFile, setImportFile] = useState<BankImportFile | null>(null);
     const [isExporting, setIsExporting] = useState(false);
 
     const isLoading = isLoadingAudit || isLoadingTransactions;
@@ -131,7 +132,7 @@ export default function AuditPage() {
             const amount = toNumber(transaction.amount);
             if (transaction.type === 'income') {
                 target.income += amount;
-            } else {
+            } else if (transaction.type === 'expense') {
                 target.expense += amount;
             }
         });
@@ -217,37 +218,32 @@ export default function AuditPage() {
 
         try {
             setIsImporting(true);
-            const XLSX = await import('xlsx');
-            const buffer = await file.arrayBuffer();
-            const workbook = XLSX.read(buffer, { type: 'array' });
-            const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
-            const rows = XLSX.utils.sheet_to_json(firstSheet, { defval: null }) as Record<string, unknown>[];
+            const isSpreadsheet = /\.xlsx?$/i.test(file.name);
+            let content: string;
+
+            if (isSpreadsheet) {
+                const XLSX = await import('xlsx');
+                const buffer = await file.arrayBuffer();
+                const workbook = XLSX.read(buffer, { type: 'array', cellDates: true });
+                const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
+                const rows = XLSX.utils.sheet_to_json(firstSheet, { header: 1, raw: true, defval: null }) as unknown[][];
+                content = spreadsheetRowsToCsv(rows);
+            } else {
+                content = await file.text();
+            }
 
-            if (!rows.length) {
+            if (!content.trim()) {
                 throw new Error('El archivo no contiene filas para importar.');
             }
 
-            const response = await fetch('/api/transactions/import', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                credentials: 'include',
-                body: JSON.stringify({ rows }),
+            setImportFile({
+                name: file.name,
+                content,
+                format: isSpreadsheet ? 'csv' : detectImportFormat(file.name, content),
+                isSpreadsheet,
             });
-
-            const body = await response.json().catch(() => null);
-            if (!response.ok) {
-                throw new Error(body?.error || 'No se pudo importar el Excel.');
-            }
-
-            await Promise.all([
-                queryClient.invalidateQueries({ queryKey: ['transactions'] }),
-                queryClient.invalidateQueries({ queryKey: ['audit'] }),
-                queryClient.invalidateQueries({ queryKey: ['budgets'] }),
-            ]);
-
-            toast.success(`Importación lista: ${body.imported} movimientos cargados${body.skipped ? `, ${body.skipped} omitidos` : ''}.`);
         } catch (error) {
-            toast.error(error instanceof Error ? error.message : 'No se pudo importar el Excel.');
+            toast.error(error instanceof Error ? error.message : 'No se pudo leer el archivo.');
         } finally {
             setIsImporting(false);
         }
@@ -258,13 +254,13 @@ export default function AuditPage() {
             <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
                 <div>
                     <h2 className="text-3xl font-bold tracking-tight">Auditoría y Movimientos</h2>
-                    <p className="text-muted-foreground">Control por día, mes o año + importación/exportación en Excel.</p>
+                    <p className="text-muted-foreground">Control por día, mes o año + importación de extractos (Excel, CSV, OFX, QIF) y exportación en Excel.</p>
                 </div>
                 <div className="flex flex-wrap gap-2">
                     <input
                         ref={fileInputRef}
                         type="file"
-                        accept=".xlsx,.xls,.csv"
+                        accept=".xlsx,.xls,.csv,.ofx,.qfx,.qif"
                         className="hidden"
                         onChange={handleImportFile}
                     />
@@ -275,7 +271,7 @@ export default function AuditPage() {
                         disabled={isImporting || isLoading}
                     >
                         {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
-                        Importar Excel
+                        Importar extracto
                     </Button>
                     <Button
                         type="button"
@@ -382,8 +378,8 @@ export default function AuditPage() {
                                                         {transaction.category} • {new Date(transaction.date).toLocaleDateString('es-AR')}
                                                     </p>
                                                 </div>
-                                                <p className={`ml-3 text-sm font-semibold ${transaction.type === 'income' ? 'text-emerald-500' : 'text-red-500'}`}>
-                                                    {transaction.type === 'income' ? '+' : '-'} {formatCurrency(toNumber(transaction.amount))}
+                                                <p className={`ml-3 text-sm font-semibold ${transaction.type === 'income' ? 'text-emerald-500' : transaction.type === 'transfer' ? 'text-sky-500' : 'text-red-500'}`}>
+                                                    {transaction.type === 'income' ? '+' : transaction.type === 'transfer' ? '' : '-'} {formatCurrency(toNumber(transaction.amount))}
                                                 </p>
                                             </div>
                                         ))}
@@ -442,6 +438,8 @@ export default function AuditPage() {
                     )}
                 </CardContent>
             </Card>
+
+            <BankImportSheet file={importFile} onClose={() => setImportFile(null)} />
         </div>
     );
 }
@@ -13,7 +13,11 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
 import { cn } from '@/lib/utils';
-import { CalendarDays, CreditCard, Repeat2, Loader2, CheckCircle2, ArrowRight } from 'lucide-react';
+import { formatMoneyIn, normalizeCurrency } from '@/lib/currency';
+import type { CommittedMonth } from '@/lib/installments';
+import type { FinancingWarning } from '@/lib/card-financing';
+import { CommittedInstallmentsCard } from '@/components/finance/committed-installments-card';
+import { CalendarDays, CreditCard, Repeat2, Loader2, CheckCircle2, ArrowRight, Layers, PiggyBank } from 'lucide-react';
 
 type CalendarItem =
     | {
@@ -25,6 +29,8 @@ type CalendarItem =
         status: string;
         category: string | null;
         minimum_payment: number | null;
+        late_charges?: number;
+        days_overdue?: number;
     }
     | {
         kind: 'debt';
@@ -44,11 +50,33 @@ type CalendarItem =
         type: string;
         frequency: string;
         category: string | null;
+    }
+    | {
+        kind: 'installment';
+        id: string;
+        plan_id: string;
+        title: string;
+        amount: number;
+        currency: string;
+        due_date: string;
+        installment_number: number;
+        total_installments: number;
+    }
+    | {
+        kind: 'maturity';
+        id: string;
+        title: string;
+        amount: number;
+        currency: string;
+        due_date: string;
+        principal: number;
+        interest: number;
     };
 
 type CalendarResponse = {
     range: { from: string; to: string; days: number };
     items: CalendarItem[];
+    committed?: CommittedMonth[];
 };
 
 function isoToday() {
@@ -117,6 +145,8 @@ export default function CalendarPage() {
     const [paymentDraft, setPaymentDraft] = useState<PaymentDraft | null>(null);
     const [isPaymentOpen, setIsPaymentOpen] = useState(false);
     const [isPaying, setIsPaying] = useState(false);
+    // Financing a partial obligation payment would leave, checked before confirming it (keyed by amount and date).
+    const [financingPreview, setFinancingPreview] = useState<{ key: string; warning: FinancingWarning } | null>(null);
 
     const calendarQuery = useQuery({
         queryKey: ['calendar', activeSpaceId, days],
@@ -169,6 +199,7 @@ export default function CalendarPage() {
         setIsPaymentOpen(false);
         setPaymentDraft(null);
         setIsPaying(false);
+        setFinancingPreview(null);
     };
 
     const handleConfirmPayment = async () => {
@@ -187,6 +218,29 @@ export default function CalendarPage() {
                     ? `/api/obligations/${paymentDraft.id}/confirm-payment`
                     : `/api/debts/${paymentDraft.id}/confirm-payment`;
 
+            // A partial payment of a card statement is previewed first; confirming the same amount again pays it.
+            const previewKey = `${parsedAmount}|${paymentDraft.paymentDate || isoToday()}`;
+            if (paymentDraft.kind === 'obligation' && financingPreview?.key !== previewKey) {
+                const previewResponse = await fetch(endpoint, {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    credentials: 'include',
+                    body: JSON.stringify({
+                        payment_amount: parsedAmount,
+                        payment_date: paymentDraft.paymentDate || isoToday(),
+                        dry_run: true,
+                    }),
+                });
+                const preview = await previewResponse.json().catch(() => null);
+                if (!previewResponse.ok) {
+                    throw new Error(preview?.error || 'No se pudo confirmar el pago.');
+                }
+                if (preview?.financing) {
+                    setFinancingPreview({ key: previewKey, warning: preview.financing });
+                    return;
+                }
+            }
+
             const response = await fetch(endpoint, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
@@ -218,6 +272,12 @@ export default function CalendarPage() {
         }
     };
 
+    // Editing the amount or date after the preview drops its warning until it is checked again.
+    const paymentWarning = paymentDraft && financingPreview
+        && financingPreview.key === `${parseMoneyInput(paymentDraft.paymentAmount)}|${paymentDraft.paymentDate || isoToday()}`
+        ? financingPreview.warning
+        : null;
+
     const isLoading = isLoadingSpaces || !activeSpaceId || calendarQuery.isLoading;
     const errorMessage = spacesError || (calendarQuery.error instanceof Error ? calendarQuery.error.message : null);
 
@@ -280,6 +340,10 @@ export default function CalendarPage() {
                 </Card>
             ) : (
                 <div className="space-y-6">
+                    {calendarQuery.data?.committed?.some((row) => row.count > 0) ? (
+                        <CommittedInstallmentsCard committed={calendarQuery.data.committed} className="glass-card border-0" />
+                    ) : null}
+
                     {grouped.map((group) => (
                         <div key={group.date} className="space-y-3">
                             <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
@@ -289,7 +353,7 @@ export default function CalendarPage() {
 
                             <div className="grid gap-3">
                                 {group.items.map((item) => (
-                                    <Card key={`${item.kind}-${item.id}`} className="glass-card border-0 rounded-3xl">
+                                    <Card key={`${item.kind}-${item.id}-${item.due_date}`} className="glass-card border-0 rounded-3xl">
                                         <CardContent className="p-4 flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
                                             <div className="flex items-start gap-3 min-w-0">
                                                 <div
@@ -297,13 +361,19 @@ export default function CalendarPage() {
                                                         'mt-0.5 flex h-10 w-10 items-center justify-center rounded-2xl',
                                                         item.kind === 'obligation' ? 'bg-amber-500/10 text-amber-500' : '',
                                                         item.kind === 'debt' ? 'bg-red-500/10 text-red-500' : '',
-                                                        item.kind === 'recurring' ? 'bg-blue-500/10 text-blue-500' : ''
+                                                        item.kind === 'recurring' ? 'bg-blue-500/10 text-blue-500' : '',
+                                                        item.kind === 'installment' ? 'bg-violet-500/10 text-violet-500' : '',
+                                                        item.kind === 'maturity' ? 'bg-emerald-500/10 text-emerald-500' : ''
                                                     )}
                                                 >
                                                     {item.kind === 'obligation' ? (
                                                         <CalendarDays className="h-5 w-5" />
                                                     ) : item.kind === 'debt' ? (
                                                         <CreditCard className="h-5 w-5" />
+                                                    ) : item.kind === 'installment' ? (
+                                                        <Layers className="h-5 w-5" />
+                                                    ) : item.kind === 'maturity' ? (
+                                                        <PiggyBank className="h-5 w-5" />
                                                     ) : (
                                                         <Repeat2 className="h-5 w-5" />
                                                     )}
@@ -316,8 +386,17 @@ export default function CalendarPage() {
                                                             ? `Obligación • ${item.category || 'Deudas'} • ${String(item.status).toUpperCase()}`
                                                             : item.kind === 'debt'
                                                                 ? `Deuda • ${item.category || 'Deudas'}${item.remaining_installments != null ? ` • ${item.remaining_installments} cuota(s)` : ''}`
-                                                                : `Recurrente • ${item.category || 'General'} • ${item.frequency}`}
+                                                                : item.kind === 'installment'
+                                                                    ? `Cuota ${item.installment_number}/${item.total_installments}`
+                                                                    : item.kind === 'maturity'
+                                                                        ? `Vence plazo fijo • Intereses ${formatMoneyIn(item.interest, normalizeCurrency(item.currency))}`
+                                                                        : `Recurrente • ${item.category || 'General'} • ${item.frequency}`}
                                                     </p>
+                                                    {item.kind === 'obligation' && (item.late_charges || 0) > 0 ? (
+                                                        <p className="mt-1 text-[11px] text-destructive">
+                                                            Incluye <span className="font-semibold">{formatCurrency(item.late_charges || 0)}</span> de recargo por {item.days_overdue} día(s) de mora
+                                                        </p>
+                                                    ) : null}
                                                     {item.kind === 'obligation' && item.minimum_payment != null && item.minimum_payment > 0 ? (
                                                         <p className="mt-1 text-[11px] text-muted-foreground">
                                                             Mínimo: <span className="font-semibold text-foreground">{formatCurrency(item.minimum_payment)}</span>
@@ -328,12 +407,20 @@ export default function CalendarPage() {
 
                                             <div className="flex flex-wrap items-center justify-between gap-2">
                                                 <div className="text-right">
-                                                    <p className="text-sm font-black">{formatCurrency(Number(item.amount || 0))}</p>
+                                                    <p className="text-sm font-black">
+                                                        {item.kind === 'installment' || item.kind === 'maturity'
+                                                            ? formatMoneyIn(Number(item.amount || 0), normalizeCurrency(item.currency))
+                                                            : formatCurrency(Number(item.amount || 0))}
+                                                    </p>
                                                     <p className="text-[11px] text-muted-foreground">Monto sugerido</p>
                                                 </div>
 
                                                 {item.kind === 'recurring' ? (
                                                     <BadgeHint label="Automático" />
+                                                ) : item.kind === 'installment' ? (
+                                                    <BadgeHint label="Se paga con el resumen" />
+                                                ) : item.kind === 'maturity' ? (
+                                                    <BadgeHint label="Acredita intereses" />
                                                 ) : (
                                                     <Button
                                                         type="button"
@@ -415,6 +502,12 @@ export default function CalendarPage() {
                                 />
                             </div>
 
+                            {paymentWarning ? (
+                                <p className={cn('rounded-lg border p-3 text-xs', paymentWarning.below_minimum ? 'border-destructive/40 text-destructive' : 'border-amber-500/40 text-amber-500')}>
+                                    {paymentWarning.message}
+                                </p>
+                            ) : null}
+
                             <div className="flex flex-wrap gap-2 pt-2">
                                 {paymentDraft.kind === 'obligation' && paymentDraft.minimumPayment != null && paymentDraft.minimumPayment > 0 ? (
                                     <Button
@@ -440,7 +533,7 @@ export default function CalendarPage() {
                                 </Button>
                                 <Button type="button" disabled={isPaying} onClick={() => void handleConfirmPayment()} className="gap-2">
                                     {isPaying ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle2 className="h-4 w-4" />}
-                                    Confirmar
+                                    {paymentWarning ? 'Confirmar igual' : 'Confirmar'}
                                 </Button>
                             </div>
                         </div>
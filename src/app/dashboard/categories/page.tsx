@@ -0,0 +1,196 @@
+'use client';
+
+export const dynamic = 'force-dynamic';
+
+import { useState } from 'react';
+import { useCategories } from '@/hooks/use-categories';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CategoryForm } from '@/components/finance/category-form';
+import { buildCategoryTree, type Category, type CategoryKind } from '@/lib/categories';
+import { Archive, ArchiveRestore, Check, Loader2, Pencil, Tags, Trash2, X } from 'lucide-react';
+
+const KIND_LABELS: Record<CategoryKind, string> = {
+    expense: 'Gastos',
+    income: 'Ingresos',
+};
+
+export default function CategoriesPage() {
+    const { categories, isLoading, error, updateCategory, deleteCategory, isUpdating, isDeleting } = useCategories();
+    const [showArchived, setShowArchived] = useState(false);
+    const [targetCategoryId, setTargetCategoryId] = useState<string | null>(null);
+    const [editingCategoryId, setEditingCategoryId] = useState<string | null>(null);
+    const [draftName, setDraftName] = useState('');
+
+    const visibleCategories = categories.filter((category) => showArchived || !category.is_archived);
+    const tree = buildCategoryTree(visibleCategories);
+
+    const runOnCategory = async (categoryId: string, action: () => Promise<unknown>) => {
+        try {
+            setTargetCategoryId(categoryId);
+            await action();
+        } catch {
+            // toast handled in hook
+        } finally {
+            setTargetCategoryId(null);
+        }
+    };
+
+    const startEditing = (category: Category) => {
+        setEditingCategoryId(category.id);
+        setDraftName(category.name);
+    };
+
+    const saveName = (category: Category) => {
+        const name = draftName.trim();
+        setEditingCategoryId(null);
+        if (!name || name === category.name) return;
+        void runOnCategory(category.id, () => updateCategory({ categoryId: category.id, changes: { name } }));
+    };
+
+    const handleDelete = (category: Category) => {
+        const approved = window.confirm(`¿Seguro que quieres eliminar la categoría "${category.name}"? Sus subcategorías pasan a ser principales.`);
+        if (!approved) return;
+        void runOnCategory(category.id, () => deleteCategory(category.id));
+    };
+
+    const renderRow = (category: Category, isChild: boolean) => {
+        const isBusy = targetCategoryId === category.id && (isUpdating || isDeleting);
+        const isEditing = editingCategoryId === category.id;
+
+        return (
+            <div
+                key={category.id}
+                className={`flex items-center justify-between gap-3 rounded-lg border p-3 ${isChild ? 'ml-6' : ''} ${category.is_archived ? 'opacity-60' : ''}`}
+            >
+                <div className="flex min-w-0 items-center gap-3">
+                    <span
+                        className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full text-sm"
+                        style={{ backgroundColor: `${category.color || '#94a3b8'}22`, color: category.color || undefined }}
+                    >
+                        {category.icon || category.name.charAt(0).toUpperCase()}
+                    </span>
+                    {isEditing ? (
+                        <Input
+                            autoFocus
+                            value={draftName}
+                            maxLength={60}
+                            className="h-8"
+                            onChange={(event) => setDraftName(event.target.value)}
+                            onKeyDown={(event) => {
+                                if (event.key === 'Enter') saveName(category);
+                                if (event.key === 'Escape') setEditingCategoryId(null);
+                            }}
+                        />
+                    ) : (
+                        <p className="flex items-center gap-2 truncate font-medium">
+                            {category.name}
+                            {category.is_archived && (
+                                <span className="rounded-full bg-muted px-2 py-0.5 text-[10px] font-bold uppercase text-muted-foreground">Archivada</span>
+                            )}
+                        </p>
+                    )}
+                </div>
+
+                <div className="flex items-center gap-1">
+                    {isEditing ? (
+                        <>
+                            <Button type="button" variant="ghost" size="icon" className="h-8 w-8" title="Guardar nombre" onClick={() => saveName(category)}>
+                                <Check className="h-4 w-4" />
+                            </Button>
+                            <Button type="button" variant="ghost" size="icon" className="h-8 w-8" title="Cancelar" onClick={() => setEditingCategoryId(null)}>
+                                <X className="h-4 w-4" />
+                            </Button>
+                        </>
+                    ) : (
+                        <Button type="button" variant="ghost" size="icon" className="h-8 w-8" title="Renombrar categoría" disabled={isBusy} onClick={() => startEditing(category)}>
+                            <Pencil className="h-4 w-4" />
+                        </Button>
+                    )}
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title={category.is_archived ? 'Desarchivar categoría' : 'Archivar categoría'}
+                        disabled={isBusy}
+                        onClick={() => runOnCategory(category.id, () => updateCategory({ categoryId: category.id, changes: { is_archived: !category.is_archived } }))}
+                    >
+                        {category.is_archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        title="Eliminar categoría"
+                        disabled={isBusy}
+                        onClick={() => handleDelete(category)}
+                    >
+                        {isBusy && isDeleting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                    </Button>
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                    <h2 className="text-3xl font-bold tracking-tight">Categorías</h2>
+                    <p className="text-muted-foreground">
+                        Un presupuesto sobre una categoría principal incluye lo gastado en sus subcategorías.
+                    </p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => setShowArchived((value) => !value)}>
+                    {showArchived ? 'Ocultar archivadas' : 'Ver archivadas'}
+                </Button>
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-3">
+                <div className="space-y-6 lg:col-span-2">
+                    {isLoading ? (
+                        <div className="flex justify-center p-8">
+                            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                        </div>
+                    ) : error ? (
+                        <p className="text-sm text-destructive">{error}</p>
+                    ) : (
+                        (['expense', 'income'] as CategoryKind[]).map((kind) => {
+                            const roots = tree.filter((root) => root.kind === kind);
+
+                            return (
+                                <Card key={kind}>
+                                    <CardHeader>
+                                        <CardTitle className="flex items-center gap-2">
+                                            <Tags className="h-5 w-5" />
+                                            {KIND_LABELS[kind]} ({roots.length})
+                                        </CardTitle>
+                                    </CardHeader>
+                                    <CardContent>
+                                        {roots.length > 0 ? (
+                                            <div className="space-y-2">
+                                                {roots.map((root) => (
+                                                    <div key={root.id} className="space-y-2">
+                                                        {renderRow(root, false)}
+                                                        {root.children.map((child) => renderRow(child, true))}
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        ) : (
+                                            <p className="py-8 text-center text-sm text-muted-foreground">Todavía no hay categorías.</p>
+                                        )}
+                                    </CardContent>
+                                </Card>
+                            );
+                        })
+                    )}
+                </div>
+
+                <CategoryForm />
+            </div>
+        </div>
+    );
+}
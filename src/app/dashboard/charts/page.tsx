@@ -3,6 +3,15 @@
 export const dynamic = 'force-dynamic';
 import { useEffect, useState } from 'react';
 import { useTransactions } from '@/hooks/use-transactions';
+import { useReportingCurrency } from '@/hooks/use-reporting-currency';
+import { useRealTerms } from '@/hooks/use-real-terms';
+import { ReportingCurrencyToggle } from '@/components/finance/reporting-currency-toggle';
+import { DeflatorNote, RealTermsToggle } from '@/components/finance/real-terms-toggle';
+import { TagFilter } from '@/components/transactions/tag-filter';
+import { hasTag } from '@/lib/tags';
+import { expandSplitRows } from '@/lib/splits';
+import { buildSnapshotRateLookup, formatMoneyIn, toReportingAmount } from '@/lib/currency';
+import { deflateAmount } from '@/lib/inflation';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Loader2, PieChart as PieIcon, BarChart3 } from 'lucide-react';
 import {
@@ -22,6 +31,9 @@ import {
 export default function ChartsPage() {
     const { transactions, isLoading } = useTransactions();
     const [isMobile, setIsMobile] = useState(false);
+    const { reportingCurrency, setReportingCurrency } = useReportingCurrency();
+    const [tagFilter, setTagFilter] = useState('');
+    const { settings: realTerms, setSettings: setRealTerms, deflator, isUnavailable } = useRealTerms(reportingCurrency);
 
     useEffect(() => {
         const updateViewport = () => setIsMobile(window.innerWidth < 768);
@@ -30,13 +42,7 @@ export default function ChartsPage() {
         return () => window.removeEventListener('resize', updateViewport);
     }, []);
 
-    const formatCurrency = (amount: number) => {
-        return new Intl.NumberFormat('es-AR', {
-            style: 'currency',
-            currency: 'ARS',
-            maximumFractionDigits: 0,
-        }).format(amount);
-    };
+    const formatCurrency = (amount: number) => formatMoneyIn(amount, reportingCurrency, 0);
 
     if (isLoading) {
         return (
@@ -48,12 +54,21 @@ export default function ChartsPage() {
 
     // Process data for charts
     const categoryData: Record<string, number> = {};
-    const monthlyData: Record<string, { month: string, income: number, expense: number }> = {};
+    const monthlyData: Record<string, { month: string, key: string, income: number, expense: number }> = {};
+    const rateLookup = buildSnapshotRateLookup(transactions);
+
+    const chartRows = transactions.filter((transaction) => hasTag(transaction, tagFilter)).flatMap((transaction) => expandSplitRows(transaction));
+    // The category totals cover every month, so the note lists all of them (missing CPI months included).
+    const chartMonths = chartRows.map((row) => String(row.date).slice(0, 7));
+
+    // Split tickets are counted once per line so each category gets its share.
+    chartRows.forEach(t => {
+        // In real terms each movement is taken to pesos of the base month with the CPI of its own month.
+        const amount = deflateAmount(toReportingAmount(t, reportingCurrency, rateLookup) ?? 0, t.date, deflator);
 
-    transactions.forEach(t => {
         // Category data (expenses only)
         if (t.type === 'expense') {
-            categoryData[t.category] = (categoryData[t.category] || 0) + t.amount;
+            categoryData[t.category] = (categoryData[t.category] || 0) + amount;
         }
 
         // Monthly data
@@ -61,13 +76,13 @@ export default function ChartsPage() {
         const monthYear = date.toLocaleDateString('es-AR', { month: 'short', year: '2-digit' });
 
         if (!monthlyData[monthYear]) {
-            monthlyData[monthYear] = { month: monthYear, income: 0, expense: 0 };
+            monthlyData[monthYear] = { month: monthYear, key: String(t.date).slice(0, 7), income: 0, expense: 0 };
         }
 
         if (t.type === 'income') {
-            monthlyData[monthYear].income += t.amount;
-        } else {
-            monthlyData[monthYear].expense += t.amount;
+            monthlyData[monthYear].income += amount;
+        } else if (t.type === 'expense') {
+            monthlyData[monthYear].expense += amount;
         }
     });
 
@@ -87,10 +102,22 @@ export default function ChartsPage() {
 
     return (
         <div className="space-y-6">
-            <div className="flex items-center justify-between">
+            <div className="flex flex-wrap items-center justify-between gap-3">
                 <h2 className="text-3xl font-bold tracking-tight">Análisis Visual</h2>
+                <div className="flex items-center gap-3">
+                    <TagFilter value={tagFilter} onChange={setTagFilter} />
+                    <ReportingCurrencyToggle value={reportingCurrency} onChange={setReportingCurrency} />
+                    <RealTermsToggle settings={realTerms} onChange={setRealTerms} deflator={deflator} />
+                </div>
             </div>
 
+            <DeflatorNote
+                settings={realTerms}
+                deflator={deflator}
+                months={chartMonths}
+                isUnavailable={isUnavailable}
+            />
+
             <div className="grid gap-6 md:grid-cols-2">
                 {/* Evolution Chart */}
                 <Card className="md:col-span-2">
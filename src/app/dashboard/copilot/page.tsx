@@ -7,6 +7,7 @@ import { useRouter } from 'next/navigation';
 import { FinFlowLogo } from '@/components/ui/finflow-logo';
 import { ReceiptUploader } from '@/components/copilot/receipt-uploader';
 import { ExtractionVerifier } from '@/components/copilot/extraction-verifier';
+import type { ReceiptConfirmation } from '@/components/copilot/receipt-verifier';
 import { SetupCheck } from '@/components/copilot/setup-check';
 import { Card, CardContent } from '@/components/ui/card';
 import { ArrowRight, Brain } from 'lucide-react';
@@ -28,6 +29,7 @@ export default function CopilotPage() {
     const [step, setStep] = useState<CopilotStep>('upload');
     const [extractedData, setExtractedData] = useState<any>(null);
     const [prefillFile, setPrefillFile] = useState<File | null>(null);
+    const [savedKind, setSavedKind] = useState<'obligation' | 'receipt'>('obligation');
 
     useEffect(() => {
         const file = consumePendingFile();
@@ -86,6 +88,13 @@ export default function CopilotPage() {
                     payment_date: formData.mark_paid ? formData.payment_date : null,
                     payment_amount: formData.mark_paid ? (formData.payment_amount ?? null) : null,
                     payment_description: formData.mark_paid ? (formData.payment_description ?? null) : null,
+                    card_last4: extractedData?.card_last4 || null,
+                    card_brand: extractedData?.card_brand || null,
+                    issuer: extractedData?.issuer || null,
+                    closing_date: extractedData?.closing_date || null,
+                    installments: extractedData?.type === 'credit_card' && Array.isArray(extractedData?.installments)
+                        ? extractedData.installments
+                        : [],
                 }),
             });
 
@@ -99,17 +108,21 @@ export default function CopilotPage() {
                 queryClient.invalidateQueries({ queryKey: ['debts'] }),
                 queryClient.invalidateQueries({ queryKey: ['transactions'] }),
                 queryClient.invalidateQueries({ queryKey: ['budgets'] }),
+                queryClient.invalidateQueries({ queryKey: ['credit-cards'] }),
+                queryClient.invalidateQueries({ queryKey: ['installments'] }),
             ]);
 
             if (confirmationBody?.transaction?.id) {
                 const remaining = Number(confirmationBody?.remaining ?? 0);
                 toast.success(remaining > 0 ? 'Pago registrado. Queda saldo pendiente.' : 'Pago registrado: obligación saldada.');
+                if (confirmationBody?.financing?.message) toast.warning(confirmationBody.financing.message);
             } else if (confirmationBody?.debt?.id) {
                 toast.success('Obligación y deuda registradas correctamente.');
             } else {
                 toast.success('Obligación guardada correctamente.');
             }
 
+            setSavedKind('obligation');
             setStep('success');
 
         } catch (error: any) {
@@ -118,6 +131,43 @@ export default function CopilotPage() {
         }
     };
 
+    const handleReceiptConfirm = async (payload: ReceiptConfirmation) => {
+        try {
+            const response = await fetch('/api/copilot/receipt', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({
+                    ...payload,
+                    document_id: extractedData?._documentId || null,
+                    extraction_id: extractedData?._extractionId || null,
+                }),
+            });
+
+            const body = await response.json().catch(() => null);
+            if (!response.ok) {
+                throw new Error(body?.error || 'No se pudo guardar el ticket');
+            }
+
+            await Promise.all([
+                queryClient.invalidateQueries({ queryKey: ['transactions'] }),
+                queryClient.invalidateQueries({ queryKey: ['budgets'] }),
+                queryClient.invalidateQueries({ queryKey: ['tags'] }),
+                queryClient.invalidateQueries({ queryKey: ['credit-cards'] }),
+                queryClient.invalidateQueries({ queryKey: ['transaction-duplicates'] }),
+                queryClient.invalidateQueries({ queryKey: ['accounts'] }),
+            ]);
+
+            const lines = Array.isArray(body?.transaction?.splits) ? body.transaction.splits.length : 0;
+            toast.success(lines > 1 ? `Gasto registrado en ${lines} líneas por categoría.` : 'Gasto registrado correctamente.');
+            setSavedKind('receipt');
+            setStep('success');
+        } catch (error: any) {
+            console.error('Error saving receipt:', error);
+            toast.error('Error al guardar: ' + error.message);
+        }
+    };
+
     const handleReset = () => {
         setStep('upload');
         setExtractedData(null);
@@ -169,6 +219,7 @@ export default function CopilotPage() {
                         <ExtractionVerifier
                             data={extractedData}
                             onConfirm={handleVerificationConfirm}
+                            onConfirmReceipt={handleReceiptConfirm}
                             onCancel={handleReset}
                         />
                     </div>
@@ -182,7 +233,9 @@ export default function CopilotPage() {
                             </div>
                             <h3 className="text-xl font-bold text-green-700 dark:text-green-400">¡Guardado con éxito!</h3>
                             <p className="text-muted-foreground">
-                                Hemos añadido esta obligación a tu lista. Tu plan financiero se está actualizando...
+                                {savedKind === 'receipt'
+                                    ? 'Registramos el gasto del ticket en tu historial, dividido por categoría.'
+                                    : 'Hemos añadido esta obligación a tu lista. Tu plan financiero se está actualizando...'}
                             </p>
                             <button
                                 type="button"
@@ -5,9 +5,21 @@ export const dynamic = 'force-dynamic';
 import { FormEvent, useState } from 'react';
 import { DebtInput, Obligation } from '@/lib/schemas';
 import { useFinance } from '@/hooks/use-finance';
-import { useObligations } from '@/hooks/use-obligations';
+import { useObligations, type ObligationWithRates } from '@/hooks/use-obligations';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { DebtForm } from '@/components/finance/debt-form';
+import { CreditCardsPanel } from '@/components/finance/credit-cards-panel';
+import { InstallmentsPanel } from '@/components/finance/installments-panel';
+import { DebtPayoffPlanner } from '@/components/finance/debt-payoff-planner';
+import { DEBT_RATE_KIND_LABELS, monthlyRate, type DebtRateKind } from '@/lib/debt-payoff';
+import { LoanSchedulePanel } from '@/components/finance/loan-schedule-panel';
+import { LOAN_SYSTEM_LABELS, PREPAYMENT_MODE_LABELS, isLoanSystem, type PrepaymentMode } from '@/lib/loans';
+import { CardFinancingSimulator } from '@/components/finance/card-financing-simulator';
+import { PaymentHistoryPanel } from '@/components/finance/payment-history-panel';
+import { usePayments } from '@/hooks/use-payments';
+import { paymentItemKey } from '@/lib/payments';
+import { financingWarning, type CardRates } from '@/lib/card-financing';
+import { fromSnapshotBase, normalizeCurrency } from '@/lib/currency';
 import { Label } from '@/components/ui/label';
 import {
     Loader2,
@@ -19,6 +31,9 @@ import {
     Trash2,
     Save,
     X,
+    Percent,
+    TableProperties,
+    History,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -33,6 +48,8 @@ const emptyDebtInput: DebtInput = {
     remaining_installments: 0,
     total_installments: 1,
     next_payment_date: new Date().toISOString().split('T')[0],
+    annual_rate: null,
+    rate_kind: 'tna',
 };
 
 function isoToday() {
@@ -68,15 +85,21 @@ function parseMoneyInput(value: string) {
     return Number.isFinite(parsed) ? parsed : null;
 }
 
+// Foreign-currency debts and obligations are edited in their original currency; the API recomputes the ARS amounts.
 function toDebtInput(debt: any): DebtInput {
+    // Payments lower the ARS balance, so it is converted back instead of reusing the original amount.
+    const fxRate = normalizeCurrency(debt.currency) !== 'ARS' ? Number(debt.fx_rate) || 1 : 1;
+
     return {
         name: String(debt.name || ''),
         category: String(debt.category || ''),
-        total_amount: Number(debt.total_amount || 0),
-        monthly_payment: Number(debt.monthly_payment || 0),
+        total_amount: fromSnapshotBase(Number(debt.total_amount || 0), fxRate),
+        monthly_payment: fromSnapshotBase(Number(debt.monthly_payment || 0), fxRate),
         remaining_installments: Number(debt.remaining_installments || 0),
         total_installments: Number(debt.total_installments || 1),
         next_payment_date: String(debt.next_payment_date || new Date().toISOString().split('T')[0]),
+        annual_rate: debt.annual_rate != null ? Number(debt.annual_rate) : null,
+        rate_kind: debt.rate_kind === 'tea' ? 'tea' : 'tna',
     };
 }
 
@@ -86,6 +109,10 @@ type PaymentDraft = {
     debtCategory: string;
     totalAmount: number;
     monthlyPayment: number;
+    // Loans: the capital left plus the month's interest, and what a payment above the installment does.
+    isLoan: boolean;
+    payoffAmount: number;
+    prepaymentMode: PrepaymentMode;
     paymentAmount: string;
     paymentDate: string;
     description: string;
@@ -98,16 +125,24 @@ type ObligationEditDraft = {
     status: 'pending' | 'paid' | 'overdue';
     category: string;
     minimum_payment: string;
+    late_fee: string;
+    late_interest_rate: string;
 };
 
 function toObligationEditDraft(obligation: Obligation): ObligationEditDraft {
+    const fxRate = normalizeCurrency(obligation.currency) !== 'ARS' ? Number(obligation.fx_rate) || 1 : 1;
+    const amount = fromSnapshotBase(Number(obligation.amount || 0), fxRate);
+    const minimumPayment = obligation.minimum_payment != null ? fromSnapshotBase(Number(obligation.minimum_payment), fxRate) : null;
+
     return {
         title: String(obligation.title || ''),
-        amount: Number(obligation.amount || 0) > 0 ? String(obligation.amount) : '',
+        amount: amount > 0 ? String(amount) : '',
         due_date: String(obligation.due_date || isoToday()),
         status: (obligation.status === 'paid' || obligation.status === 'overdue') ? obligation.status : 'pending',
         category: String(obligation.category || ''),
-        minimum_payment: obligation.minimum_payment != null && Number(obligation.minimum_payment) > 0 ? String(obligation.minimum_payment) : '',
+        minimum_payment: minimumPayment != null && Number(minimumPayment) > 0 ? String(minimumPayment) : '',
+        late_fee: obligation.late_fee != null && Number(obligation.late_fee) > 0 ? String(obligation.late_fee) : '',
+        late_interest_rate: obligation.late_interest_rate != null && Number(obligation.late_interest_rate) > 0 ? String(obligation.late_interest_rate) : '',
     };
 }
 
@@ -116,6 +151,9 @@ type ObligationPaymentDraft = {
     title: string;
     category: string;
     amountDue: number;
+    minimumPayment: number | null;
+    dueDate: string;
+    rates: CardRates | null;
     paymentAmount: string;
     paymentDate: string;
     description: string;
@@ -128,6 +166,10 @@ export default function DebtsPage() {
     const [editForm, setEditForm] = useState<DebtInput>(emptyDebtInput);
     const [isPaymentSheetOpen, setIsPaymentSheetOpen] = useState(false);
     const [paymentDraft, setPaymentDraft] = useState<PaymentDraft | null>(null);
+    const [scheduleDebtId, setScheduleDebtId] = useState<string | null>(null);
+    // `paymentItemKey` of the debt or obligation whose payment history is open.
+    const [historyItemKey, setHistoryItemKey] = useState<string | null>(null);
+    const [undoingPaymentId, setUndoingPaymentId] = useState<string | null>(null);
     const [editingObligationId, setEditingObligationId] = useState<string | null>(null);
     const [obligationEditForm, setObligationEditForm] = useState<ObligationEditDraft>({
         title: '',
@@ -136,6 +178,8 @@ export default function DebtsPage() {
         status: 'pending',
         category: '',
         minimum_payment: '',
+        late_fee: '',
+        late_interest_rate: '',
     });
     const [targetObligationId, setTargetObligationId] = useState<string | null>(null);
     const [isObligationPaymentOpen, setIsObligationPaymentOpen] = useState(false);
@@ -165,6 +209,8 @@ export default function DebtsPage() {
         isConfirmingObligationPayment,
     } = useObligations();
 
+    const { historyByItem, paymentsAvailable, undoPayment } = usePayments();
+
     const formatCurrency = (amount: number) => {
         return new Intl.NumberFormat('es-AR', {
             style: 'currency',
@@ -207,6 +253,7 @@ export default function DebtsPage() {
         const totalAmount = Number(debt.total_amount || 0);
         const monthlyPayment = Number(debt.monthly_payment || 0);
         const suggested = monthlyPayment > 0 ? monthlyPayment : totalAmount;
+        const isLoan = isLoanSystem(debt.loan_system);
 
         setPaymentDraft({
             debtId: String(debt.id),
@@ -214,6 +261,9 @@ export default function DebtsPage() {
             debtCategory: String(debt.category || 'Deudas'),
             totalAmount,
             monthlyPayment,
+            isLoan,
+            payoffAmount: isLoan ? Math.round(totalAmount * (1 + monthlyRate(debt.annual_rate, debt.rate_kind)) * 100) / 100 : totalAmount,
+            prepaymentMode: 'reduce_term',
             paymentAmount: suggested > 0 ? String(suggested) : '',
             paymentDate: isoToday(),
             description: '',
@@ -245,6 +295,7 @@ export default function DebtsPage() {
                 paymentAmount: parsedAmount,
                 paymentDate,
                 description,
+                prepaymentMode: paymentDraft.isLoan ? paymentDraft.prepaymentMode : undefined,
             });
             closePaymentSheet();
         } finally {
@@ -301,13 +352,31 @@ export default function DebtsPage() {
         }
     };
 
-    const openObligationPaymentSheet = (obligation: Obligation) => {
+    const toggleHistory = (key: string) => {
+        setHistoryItemKey((current) => (current === key ? null : key));
+    };
+
+    const handleUndoPayment = async (paymentId: string) => {
+        const approved = window.confirm('¿Deshacer este pago? Se elimina el movimiento que generó y el saldo vuelve a como estaba antes.');
+        if (!approved) return;
+
+        try {
+            setUndoingPaymentId(paymentId);
+            await undoPayment(paymentId);
+        } catch {
+            // toast handled in hook
+        } finally {
+            setUndoingPaymentId(null);
+        }
+    };
+
+    const openObligationPaymentSheet = (obligation: ObligationWithRates) => {
         if (!obligation?.id) {
             toast.error('No se puede registrar el pago de esta obligación.');
             return;
         }
 
-        const amountDue = Number(obligation.amount || 0);
+        const amountDue = Number(obligation.amount_due ?? obligation.amount ?? 0);
         const minPayment = obligation.minimum_payment != null ? Number(obligation.minimum_payment) : 0;
         const suggested = minPayment > 0 ? minPayment : amountDue;
 
@@ -316,6 +385,9 @@ export default function DebtsPage() {
             title: String(obligation.title || 'Obligación'),
             category: String(obligation.category || 'Deudas'),
             amountDue,
+            minimumPayment: minPayment > 0 ? minPayment : null,
+            dueDate: String(obligation.due_date),
+            rates: obligation.interest_rates ?? null,
             paymentAmount: suggested > 0 ? String(suggested) : '',
             paymentDate: isoToday(),
             description: '',
@@ -323,6 +395,17 @@ export default function DebtsPage() {
         setIsObligationPaymentOpen(true);
     };
 
+    // Live estimate of what a partial payment leaves financed on a card statement.
+    const obligationPaymentAmount = obligationPaymentDraft ? parseMoneyInput(obligationPaymentDraft.paymentAmount) : null;
+    const obligationPaymentWarning = obligationPaymentDraft && obligationPaymentAmount && obligationPaymentAmount > 0
+        && (obligationPaymentDraft.rates || obligationPaymentDraft.minimumPayment)
+        ? financingWarning({
+            balance: obligationPaymentDraft.amountDue,
+            minimum_payment: obligationPaymentDraft.minimumPayment,
+            rates: obligationPaymentDraft.rates,
+        }, obligationPaymentAmount)
+        : null;
+
     const closeObligationPaymentSheet = () => {
         setIsObligationPaymentOpen(false);
         setObligationPaymentDraft(null);
@@ -372,6 +455,8 @@ export default function DebtsPage() {
             status: 'pending',
             category: '',
             minimum_payment: '',
+            late_fee: '',
+            late_interest_rate: '',
         });
     };
 
@@ -406,6 +491,20 @@ export default function DebtsPage() {
 
         const category = obligationEditForm.category.trim() || null;
 
+        const lateFeeRaw = obligationEditForm.late_fee.trim();
+        const lateFee = lateFeeRaw ? parseMoneyInput(lateFeeRaw) : null;
+        const lateRateRaw = obligationEditForm.late_interest_rate.trim();
+        const lateRate = lateRateRaw ? parseMoneyInput(lateRateRaw) : null;
+        if ((lateFeeRaw && (lateFee == null || lateFee < 0)) || (lateRateRaw && (lateRate == null || lateRate < 0))) {
+            toast.error('Recargo por mora inválido.');
+            return;
+        }
+        // Late fee columns are only sent when used, so editing works before supabase-late-fees.sql.
+        const editingObligation = obligations.find((item) => item.id === editingObligationId);
+        const lateChanges = lateFeeRaw || lateRateRaw || editingObligation?.late_fee != null || editingObligation?.late_interest_rate != null
+            ? { late_fee: lateFee, late_interest_rate: lateRate }
+            : {};
+
         try {
             setTargetObligationId(editingObligationId);
             await updateObligation({
@@ -417,6 +516,7 @@ export default function DebtsPage() {
                     status: obligationEditForm.status,
                     category,
                     minimum_payment: minimumPayment,
+                    ...lateChanges,
                 },
             });
             cancelEditingObligation();
@@ -450,6 +550,10 @@ export default function DebtsPage() {
                 <h2 className="text-3xl font-bold tracking-tight">Deudas y Créditos</h2>
             </div>
 
+            <CreditCardsPanel />
+
+            <InstallmentsPanel />
+
             <div className="grid gap-6 md:grid-cols-2">
                 <DebtForm />
 
@@ -474,6 +578,8 @@ export default function DebtsPage() {
                                     const isEditing = editingDebtId === debt.id;
                                     const isTargeting = targetDebtId === debt.id;
                                     const isMutating = isTargeting && (isUpdatingDebt || isDeletingDebt);
+                                    const isLoan = isLoanSystem(debt.loan_system);
+                                    const debtHistoryKey = paymentItemKey('debt', String(debt.id));
 
                                     return (
                                         <div key={debt.id} className="rounded-lg border p-4 space-y-3">
@@ -499,6 +605,18 @@ export default function DebtsPage() {
                                                     <Calendar className="w-4 h-4 text-muted-foreground" />
                                                     <span>Restan: {remainingInstallments}/{debt.total_installments}</span>
                                                 </div>
+                                                {debt.annual_rate != null && (
+                                                    <div className="flex items-center gap-2">
+                                                        <Percent className="w-4 h-4 text-muted-foreground" />
+                                                        <span>{Number(debt.annual_rate)}% {(debt.rate_kind || 'tna').toUpperCase()}</span>
+                                                    </div>
+                                                )}
+                                                {isLoan && (
+                                                    <div className="flex items-center gap-2">
+                                                        <TableProperties className="w-4 h-4 text-muted-foreground" />
+                                                        <span>{LOAN_SYSTEM_LABELS[debt.loan_system as keyof typeof LOAN_SYSTEM_LABELS]}</span>
+                                                    </div>
+                                                )}
                                             </div>
 
                                             <div className="flex items-center gap-2 text-xs text-muted-foreground">
@@ -531,6 +649,30 @@ export default function DebtsPage() {
                                                 </Button>
 
                                                 <div className="flex w-full justify-end gap-2 sm:w-auto">
+                                                    {paymentsAvailable && (
+                                                        <Button
+                                                            type="button"
+                                                            variant={historyItemKey === debtHistoryKey ? 'secondary' : 'ghost'}
+                                                            size="icon"
+                                                            onClick={() => toggleHistory(debtHistoryKey)}
+                                                            disabled={!debt.id}
+                                                            title="Historial de pagos"
+                                                        >
+                                                            <History className="h-4 w-4" />
+                                                        </Button>
+                                                    )}
+                                                    {isLoan && (
+                                                        <Button
+                                                            type="button"
+                                                            variant={scheduleDebtId === debt.id ? 'secondary' : 'ghost'}
+                                                            size="icon"
+                                                            onClick={() => setScheduleDebtId((current) => (current === debt.id ? null : debt.id ?? null))}
+                                                            disabled={!debt.id}
+                                                            title="Tabla de amortización"
+                                                        >
+                                                            <TableProperties className="h-4 w-4" />
+                                                        </Button>
+                                                    )}
                                                     <Button
                                                         type="button"
                                                         variant="ghost"
@@ -555,6 +697,16 @@ export default function DebtsPage() {
                                                 </div>
                                             </div>
 
+                                            {isLoan && debt.id && scheduleDebtId === debt.id && <LoanSchedulePanel debtId={debt.id} />}
+
+                                            {historyItemKey === debtHistoryKey && (
+                                                <PaymentHistoryPanel
+                                                    entries={historyByItem.get(debtHistoryKey) || []}
+                                                    onUndo={handleUndoPayment}
+                                                    undoingPaymentId={undoingPaymentId}
+                                                />
+                                            )}
+
                                             {isEditing && (
                                                 <form onSubmit={handleSaveEdit} className="mt-3 grid gap-3 border-t pt-4 md:grid-cols-2">
                                                     <Input
@@ -569,48 +721,71 @@ export default function DebtsPage() {
                                                         placeholder="Categoría"
                                                         required
                                                     />
+                                                    {!isLoan && (
+                                                        <>
+                                                            <Input
+                                                                type="number"
+                                                                step="0.01"
+                                                                min="0"
+                                                                value={editForm.total_amount}
+                                                                onChange={(event) => setEditForm((prev) => ({ ...prev, total_amount: Number(event.target.value) || 0 }))}
+                                                                placeholder="Monto total"
+                                                                required
+                                                            />
+                                                            <Input
+                                                                type="number"
+                                                                step="0.01"
+                                                                min="0"
+                                                                value={editForm.monthly_payment}
+                                                                onChange={(event) => setEditForm((prev) => ({ ...prev, monthly_payment: Number(event.target.value) || 0 }))}
+                                                                placeholder="Cuota mensual"
+                                                                required
+                                                            />
+                                                            <Input
+                                                                type="number"
+                                                                min="1"
+                                                                value={editForm.total_installments}
+                                                                onChange={(event) => setEditForm((prev) => ({ ...prev, total_installments: Number(event.target.value) || 1 }))}
+                                                                placeholder="Cuotas totales"
+                                                                required
+                                                            />
+                                                            <Input
+                                                                type="number"
+                                                                min="0"
+                                                                value={editForm.remaining_installments}
+                                                                onChange={(event) => setEditForm((prev) => ({ ...prev, remaining_installments: Number(event.target.value) || 0 }))}
+                                                                placeholder="Cuotas restantes"
+                                                                required
+                                                            />
+                                                        </>
+                                                    )}
                                                     <Input
                                                         type="number"
                                                         step="0.01"
                                                         min="0"
-                                                        value={editForm.total_amount}
-                                                        onChange={(event) => setEditForm((prev) => ({ ...prev, total_amount: Number(event.target.value) || 0 }))}
-                                                        placeholder="Monto total"
-                                                        required
-                                                    />
-                                                    <Input
-                                                        type="number"
-                                                        step="0.01"
-                                                        min="0"
-                                                        value={editForm.monthly_payment}
-                                                        onChange={(event) => setEditForm((prev) => ({ ...prev, monthly_payment: Number(event.target.value) || 0 }))}
-                                                        placeholder="Cuota mensual"
-                                                        required
-                                                    />
-                                                    <Input
-                                                        type="number"
-                                                        min="1"
-                                                        value={editForm.total_installments}
-                                                        onChange={(event) => setEditForm((prev) => ({ ...prev, total_installments: Number(event.target.value) || 1 }))}
-                                                        placeholder="Cuotas totales"
-                                                        required
-                                                    />
-                                                    <Input
-                                                        type="number"
-                                                        min="0"
-                                                        value={editForm.remaining_installments}
-                                                        onChange={(event) => setEditForm((prev) => ({ ...prev, remaining_installments: Number(event.target.value) || 0 }))}
-                                                        placeholder="Cuotas restantes"
-                                                        required
+                                                        value={editForm.annual_rate ?? ''}
+                                                        onChange={(event) => setEditForm((prev) => ({ ...prev, annual_rate: event.target.value === '' ? null : Number(event.target.value) }))}
+                                                        placeholder="Tasa anual % (opcional)"
                                                     />
-                                                    <div className="md:col-span-2">
-                                                        <Input
-                                                            type="date"
-                                                            value={editForm.next_payment_date}
-                                                            onChange={(event) => setEditForm((prev) => ({ ...prev, next_payment_date: event.target.value }))}
-                                                            required
-                                                        />
-                                                    </div>
+                                                    <select
+                                                        className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+                                                        value={editForm.rate_kind || 'tna'}
+                                                        onChange={(event) => setEditForm((prev) => ({ ...prev, rate_kind: event.target.value as DebtRateKind }))}
+                                                    >
+                                                        {(Object.keys(DEBT_RATE_KIND_LABELS) as DebtRateKind[]).map((kind) => (
+                                                            <option key={kind} value={kind}>{DEBT_RATE_KIND_LABELS[kind]}</option>
+                                                        ))}
+                                                    </select>
+                                                    {!isLoan && (
+                                                        <div className="md:col-span-2">
+                                                            <Input
+                                                                type="date"
+                                                                value={editForm.next_payment_date}
+                                                                onChange={(event) => setEditForm((prev) => ({ ...prev, next_payment_date: event.target.value }))}
+                                                                required
+                                                            />
+                                                        </div>
+                                                    )}
                                                     <div className="flex gap-2 md:col-span-2">
                                                         <Button type="submit" size="sm" disabled={isMutating}>
                                                             {isMutating && isUpdatingDebt ? (
@@ -639,6 +814,8 @@ export default function DebtsPage() {
             </div>
             {debtsError && <p className="text-sm text-destructive">Error de deudas: {debtsError}</p>}
 
+            <DebtPayoffPlanner />
+
             <Card>
                 <CardHeader>
                     <CardTitle className="flex flex-wrap items-center justify-between gap-2">
@@ -656,13 +833,15 @@ export default function DebtsPage() {
                     ) : obligations.length > 0 ? (
                         <div className="space-y-4">
                             {obligations.map((obligation) => {
-                                const amount = Number(obligation.amount || 0);
+                                const amount = Number(obligation.amount_due ?? obligation.amount ?? 0);
+                                const lateChargesTotal = obligation.late_charges?.total ?? 0;
                                 const minPayment = obligation.minimum_payment != null ? Number(obligation.minimum_payment) : 0;
                                 const isPaid = obligation.status === 'paid';
                                 const dueBadge = getDueBadge(String(obligation.due_date));
                                 const isEditing = editingObligationId === obligation.id;
                                 const isTargeting = targetObligationId === obligation.id;
                                 const isMutating = isTargeting && (isUpdatingObligation || isDeletingObligation);
+                                const obligationHistoryKey = paymentItemKey('obligation', String(obligation.id));
 
                                 return (
                                     <div key={obligation.id} className="rounded-lg border p-4 space-y-3">
@@ -688,6 +867,12 @@ export default function DebtsPage() {
                                             <p className={`text-xs ${dueBadge.className}`}>{dueBadge.label}</p>
                                         )}
 
+                                        {!isPaid && lateChargesTotal > 0 ? (
+                                            <p className="text-xs text-destructive">
+                                                Incluye recargo por mora: <span className="font-medium">{formatCurrency(lateChargesTotal)}</span>
+                                            </p>
+                                        ) : null}
+
                                         {minPayment > 0 ? (
                                             <p className="text-xs text-muted-foreground">
                                                 Pago mínimo: <span className="font-medium">{formatCurrency(minPayment)}</span>
@@ -707,6 +892,18 @@ export default function DebtsPage() {
                                             </Button>
 
                                             <div className="flex w-full justify-end gap-2 sm:w-auto">
+                                                {paymentsAvailable && (
+                                                    <Button
+                                                        type="button"
+                                                        variant={historyItemKey === obligationHistoryKey ? 'secondary' : 'ghost'}
+                                                        size="icon"
+                                                        onClick={() => toggleHistory(obligationHistoryKey)}
+                                                        disabled={!obligation.id}
+                                                        title="Historial de pagos"
+                                                    >
+                                                        <History className="h-4 w-4" />
+                                                    </Button>
+                                                )}
                                                 <Button
                                                     type="button"
                                                     variant="ghost"
@@ -731,6 +928,14 @@ export default function DebtsPage() {
                                             </div>
                                         </div>
 
+                                        {historyItemKey === obligationHistoryKey && (
+                                            <PaymentHistoryPanel
+                                                entries={historyByItem.get(obligationHistoryKey) || []}
+                                                onUndo={handleUndoPayment}
+                                                undoingPaymentId={undoingPaymentId}
+                                            />
+                                        )}
+
                                         {isEditing && (
                                             <form onSubmit={handleSaveObligationEdit} className="mt-3 grid gap-3 border-t pt-4 md:grid-cols-2">
                                                 <Input
@@ -775,6 +980,26 @@ export default function DebtsPage() {
                                                     disabled={isMutating}
                                                     onFocus={(event) => event.currentTarget.select()}
                                                 />
+                                                <Input
+                                                    type="text"
+                                                    inputMode="decimal"
+                                                    autoComplete="off"
+                                                    value={obligationEditForm.late_fee}
+                                                    onChange={(event) => setObligationEditForm((prev) => ({ ...prev, late_fee: event.target.value }))}
+                                                    placeholder="Recargo fijo por mora (opcional)"
+                                                    disabled={isMutating}
+                                                    onFocus={(event) => event.currentTarget.select()}
+                                                />
+                                                <Input
+                                                    type="text"
+                                                    inputMode="decimal"
+                                                    autoComplete="off"
+                                                    value={obligationEditForm.late_interest_rate}
+                                                    onChange={(event) => setObligationEditForm((prev) => ({ ...prev, late_interest_rate: event.target.value }))}
+                                                    placeholder="Punitorios % anual (opcional)"
+                                                    disabled={isMutating}
+                                                    onFocus={(event) => event.currentTarget.select()}
+                                                />
                                                 <select
                                                     value={obligationEditForm.status}
                                                     onChange={(event) => setObligationEditForm((prev) => ({ ...prev, status: event.target.value as ObligationEditDraft['status'] }))}
@@ -858,6 +1083,16 @@ export default function DebtsPage() {
                                         >
                                             Usar total
                                         </Button>
+                                        {obligationPaymentDraft.minimumPayment ? (
+                                            <Button
+                                                type="button"
+                                                variant="outline"
+                                                size="sm"
+                                                onClick={() => setObligationPaymentDraft((prev) => prev ? ({ ...prev, paymentAmount: String(prev.minimumPayment) }) : prev)}
+                                            >
+                                                Usar mínimo
+                                            </Button>
+                                        ) : null}
                                     </div>
                                 </div>
 
@@ -884,6 +1119,22 @@ export default function DebtsPage() {
                                 </div>
                             </div>
 
+                            {obligationPaymentWarning && (
+                                <p className={`rounded-lg border p-3 text-xs ${obligationPaymentWarning.below_minimum ? 'border-destructive/40 text-destructive' : 'border-amber-500/40 text-amber-500'}`}>
+                                    {obligationPaymentWarning.message}
+                                </p>
+                            )}
+
+                            {(obligationPaymentDraft.rates || obligationPaymentDraft.minimumPayment) && (
+                                <CardFinancingSimulator
+                                    balance={obligationPaymentDraft.amountDue}
+                                    minimumPayment={obligationPaymentDraft.minimumPayment}
+                                    dueDate={obligationPaymentDraft.dueDate}
+                                    rates={obligationPaymentDraft.rates}
+                                    amount={obligationPaymentAmount}
+                                />
+                            )}
+
                             <div className="flex flex-wrap justify-end gap-2">
                                 <Button
                                     type="button"
@@ -960,7 +1211,7 @@ export default function DebtsPage() {
                                             type="button"
                                             variant="outline"
                                             size="sm"
-                                            onClick={() => setPaymentDraft((prev) => prev ? ({ ...prev, paymentAmount: String(prev.totalAmount) }) : prev)}
+                                            onClick={() => setPaymentDraft((prev) => prev ? ({ ...prev, paymentAmount: String(prev.payoffAmount) }) : prev)}
                                         >
                                             Usar total
                                         </Button>
@@ -978,6 +1229,22 @@ export default function DebtsPage() {
                                     />
                                 </div>
 
+                                {paymentDraft.isLoan && (parseMoneyInput(paymentDraft.paymentAmount) || 0) > paymentDraft.monthlyPayment && (
+                                    <div className="space-y-1.5 sm:col-span-2">
+                                        <Label htmlFor="payment_prepayment_mode">El excedente sobre la cuota es un adelanto de capital</Label>
+                                        <select
+                                            id="payment_prepayment_mode"
+                                            className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+                                            value={paymentDraft.prepaymentMode}
+                                            onChange={(event) => setPaymentDraft((prev) => prev ? ({ ...prev, prepaymentMode: event.target.value as PrepaymentMode }) : prev)}
+                                        >
+                                            {(Object.keys(PREPAYMENT_MODE_LABELS) as PrepaymentMode[]).map((mode) => (
+                                                <option key={mode} value={mode}>{PREPAYMENT_MODE_LABELS[mode]}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                )}
+
                                 <div className="space-y-1.5 sm:col-span-2">
                                     <Label htmlFor="payment_description">Descripción (opcional)</Label>
                                     <Input
@@ -6,10 +6,22 @@ import { FormEvent, useMemo, useState } from 'react';
 import { useTransactions } from '@/hooks/use-transactions';
 import { Transaction, TransactionInput } from '@/lib/schemas';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Loader2, ArrowUpCircle, ArrowDownCircle, Search, FileDown, Pencil, Trash2, Save, X } from 'lucide-react';
+import { Loader2, ArrowUpCircle, ArrowDownCircle, ArrowRightLeft, Search, FileDown, Pencil, Trash2, Save, X, Paperclip, StickyNote, Split } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
+import { ReportingCurrencyToggle } from '@/components/finance/reporting-currency-toggle';
+import { useReportingCurrency } from '@/hooks/use-reporting-currency';
+import { useRealTerms } from '@/hooks/use-real-terms';
+import { DeflatorNote, RealTermsToggle } from '@/components/finance/real-terms-toggle';
+import { useAccounts } from '@/hooks/use-accounts';
+import { DuplicateReviewCard } from '@/components/transactions/duplicate-review-card';
+import { TransactionAttachments } from '@/components/transactions/transaction-attachments';
+import { TagFilter } from '@/components/transactions/tag-filter';
+import { SplitEditor } from '@/components/transactions/split-editor';
+import { formatTagList, hasTag, normalizeTagList } from '@/lib/tags';
+import { buildSnapshotRateLookup, formatMoneyIn, normalizeCurrency, sumInReportingCurrency } from '@/lib/currency';
+import { deflateAmount } from '@/lib/inflation';
 
 const currencyFormatter = new Intl.NumberFormat('es-AR', { style: 'currency', currency: 'ARS' });
 
@@ -19,15 +31,25 @@ const emptyTransactionInput: TransactionInput = {
     description: '',
     category: '',
     date: new Date().toISOString().split('T')[0],
+    currency: 'ARS',
 };
 
+// Foreign-currency rows are edited in their original currency; the API recomputes the ARS amount.
 function toEditPayload(transaction: Transaction): TransactionInput {
+    const currency = normalizeCurrency(transaction.currency);
+    const isForeign = currency !== 'ARS';
+
     return {
         type: transaction.type,
-        amount: Number(transaction.amount) || 0,
+        amount: Number(isForeign ? transaction.original_amount ?? transaction.amount : transaction.amount) || 0,
         description: transaction.description || '',
         category: transaction.category || '',
         date: transaction.date || new Date().toISOString().split('T')[0],
+        account_id: transaction.account_id ?? null,
+        transfer_account_id: transaction.transfer_account_id ?? null,
+        notes: transaction.notes ?? null,
+        currency,
+        ...(isForeign ? { fx_rate: Number(transaction.fx_rate) || null } : {}),
     };
 }
 
@@ -42,49 +64,89 @@ export default function HistoryPage() {
     } = useTransactions();
 
     const [searchTerm, setSearchTerm] = useState('');
+    const [tagFilter, setTagFilter] = useState('');
     const [isExportingCsv, setIsExportingCsv] = useState(false);
     const [isExportingPdf, setIsExportingPdf] = useState(false);
     const [editingTransactionId, setEditingTransactionId] = useState<string | null>(null);
     const [editForm, setEditForm] = useState<TransactionInput>(emptyTransactionInput);
+    const [editTags, setEditTags] = useState('');
+    const [attachmentsTransactionId, setAttachmentsTransactionId] = useState<string | null>(null);
+    const [splittingTransactionId, setSplittingTransactionId] = useState<string | null>(null);
     const [targetTransactionId, setTargetTransactionId] = useState<string | null>(null);
+    const { reportingCurrency, setReportingCurrency } = useReportingCurrency();
+    const { settings: realTerms, setSettings: setRealTerms, deflator, isUnavailable } = useRealTerms(reportingCurrency);
+    const { accounts } = useAccounts({ includeArchived: true });
+    const accountNames = useMemo(
+        () => new Map(accounts.map((account) => [account.id, account.name])),
+        [accounts]
+    );
 
     const filteredTransactions = useMemo(
         () =>
             transactions.filter((transaction) =>
-                transaction.description.toLowerCase().includes(searchTerm.toLowerCase())
-                || transaction.category.toLowerCase().includes(searchTerm.toLowerCase())
+                (transaction.description.toLowerCase().includes(searchTerm.toLowerCase())
+                    || transaction.category.toLowerCase().includes(searchTerm.toLowerCase())
+                    || (transaction.splits || []).some((split) => split.category.toLowerCase().includes(searchTerm.toLowerCase()))
+                    || (transaction.notes || '').toLowerCase().includes(searchTerm.toLowerCase()))
+                && hasTag(transaction, tagFilter)
             ),
-        [transactions, searchTerm]
+        [transactions, searchTerm, tagFilter]
+    );
+
+    const rateLookup = useMemo(() => buildSnapshotRateLookup(transactions), [transactions]);
+
+    // The deflator only exists in ARS, where the reporting amount is the stored `amount`.
+    const reportingRows = useMemo(
+        () => (deflator
+            ? transactions.map((transaction) => ({ ...transaction, amount: deflateAmount(Number(transaction.amount), transaction.date, deflator) }))
+            : transactions),
+        [transactions, deflator]
     );
 
     const totalIncome = useMemo(
-        () =>
-            transactions
-                .filter((transaction) => transaction.type === 'income')
-                .reduce((accumulator, transaction) => accumulator + Number(transaction.amount), 0),
-        [transactions]
+        () => sumInReportingCurrency(
+            reportingRows.filter((transaction) => transaction.type === 'income'),
+            reportingCurrency,
+            rateLookup
+        ),
+        [reportingRows, reportingCurrency, rateLookup]
     );
 
     const totalExpense = useMemo(
-        () =>
-            transactions
-                .filter((transaction) => transaction.type === 'expense')
-                .reduce((accumulator, transaction) => accumulator + Number(transaction.amount), 0),
-        [transactions]
+        () => sumInReportingCurrency(
+            reportingRows.filter((transaction) => transaction.type === 'expense'),
+            reportingCurrency,
+            rateLookup
+        ),
+        [reportingRows, reportingCurrency, rateLookup]
+    );
+
+    const visibleMonths = useMemo(
+        () => filteredTransactions.map((transaction) => String(transaction.date).slice(0, 7)),
+        [filteredTransactions]
     );
 
-    const balance = totalIncome - totalExpense;
+    const balance = totalIncome.total - totalExpense.total;
+    const missingRates = totalIncome.missingRates + totalExpense.missingRates;
 
     const exportCsv = () => {
         try {
             setIsExportingCsv(true);
-            const headers = ['Fecha', 'Tipo', 'Categoria', 'Descripcion', 'Monto'];
+            const headers = ['Fecha', 'Tipo', 'Categoria', 'Descripcion', 'Monto', 'Moneda', 'Monto original', 'Tipo de cambio', 'Cuenta', 'Cuenta destino', 'Etiquetas', 'Nota', 'Division'];
             const rows = filteredTransactions.map((transaction) => ([
                 transaction.date,
                 transaction.type,
                 transaction.category,
                 transaction.description,
                 String(transaction.amount),
+                normalizeCurrency(transaction.currency),
+                String(transaction.original_amount ?? transaction.amount),
+                String(transaction.fx_rate ?? 1),
+                accountNames.get(transaction.account_id || '') || '',
+                accountNames.get(transaction.transfer_account_id || '') || '',
+                formatTagList(transaction.tags),
+                transaction.notes || '',
+                (transaction.splits || []).map((split) => `${split.category}: ${split.amount}`).join('; '),
             ]));
 
             const csvContent = [headers, ...rows]
@@ -113,14 +175,15 @@ export default function HistoryPage() {
             setIsExportingPdf(true);
             const { jsPDF } = await import('jspdf');
             const doc = new jsPDF();
-            const title = `Historial Finansas - ${new Date().toLocaleDateString('es-AR')}`;
+            const title = `Historial Finansas - ${new Date().toLocaleDateString('es-AR')}${tagFilter ? ` - #${tagFilter}` : ''}`;
             doc.setFontSize(14);
             doc.text(title, 10, 12);
             doc.setFontSize(10);
 
             let y = 22;
             filteredTransactions.forEach((transaction) => {
-                const line = `${transaction.date} | ${transaction.type.toUpperCase()} | ${transaction.category} | ${transaction.description} | ${currencyFormatter.format(Number(transaction.amount))}`;
+                const tags = transaction.tags?.length ? ` | #${transaction.tags.join(' #')}` : '';
+                const line = `${transaction.date} | ${transaction.type.toUpperCase()} | ${transaction.category} | ${transaction.description} | ${currencyFormatter.format(Number(transaction.amount))}${tags}`;
                 if (y > 280) {
                     doc.addPage();
                     y = 12;
@@ -146,11 +209,13 @@ export default function HistoryPage() {
 
         setEditingTransactionId(transaction.id);
         setEditForm(toEditPayload(transaction));
+        setEditTags(formatTagList(transaction.tags));
     };
 
     const cancelEditing = () => {
         setEditingTransactionId(null);
         setEditForm(emptyTransactionInput);
+        setEditTags('');
     };
 
     const handleSaveEdit = async (event: FormEvent) => {
@@ -161,7 +226,7 @@ export default function HistoryPage() {
             setTargetTransactionId(editingTransactionId);
             await updateTransaction({
                 id: editingTransactionId,
-                changes: editForm,
+                changes: { ...editForm, tags: normalizeTagList(editTags) },
             });
             cancelEditing();
         } catch {
@@ -200,12 +265,17 @@ export default function HistoryPage() {
                     <h2 className="text-3xl font-bold tracking-tight">Historial Completo</h2>
                     <p className="text-muted-foreground">Revisa, edita o elimina tus transacciones registradas.</p>
                 </div>
-                <div className="flex items-center gap-4">
+                <div className="flex flex-wrap items-center gap-4">
+                    <ReportingCurrencyToggle value={reportingCurrency} onChange={setReportingCurrency} />
+                    <RealTermsToggle settings={realTerms} onChange={setRealTerms} deflator={deflator} />
                     <div className="hidden text-right text-sm md:block">
-                        <p className="text-muted-foreground">Balance Total</p>
+                        <p className="text-muted-foreground">Balance Total{deflator ? ' (real)' : ''}</p>
                         <p className={`text-lg font-bold ${balance >= 0 ? 'text-emerald-500' : 'text-red-500'}`}>
-                            {currencyFormatter.format(balance)}
+                            {formatMoneyIn(balance, reportingCurrency)}
                         </p>
+                        {missingRates > 0 && (
+                            <p className="text-xs text-muted-foreground">{missingRates} mov. sin tipo de cambio</p>
+                        )}
                     </div>
                     <div className="flex gap-2">
                         <Button variant="outline" size="sm" onClick={exportCsv} disabled={isExportingCsv || isLoading}>
@@ -220,14 +290,19 @@ export default function HistoryPage() {
                 </div>
             </div>
 
-            <div className="flex items-center gap-2">
+            <DeflatorNote settings={realTerms} deflator={deflator} months={visibleMonths} isUnavailable={isUnavailable} />
+
+            <DuplicateReviewCard />
+
+            <div className="flex flex-wrap items-center gap-2">
                 <Search className="h-4 w-4 text-muted-foreground" />
                 <Input
-                    placeholder="Buscar por descripción o categoría..."
+                    placeholder="Buscar por descripción, categoría o nota..."
                     value={searchTerm}
                     onChange={(event) => setSearchTerm(event.target.value)}
                     className="max-w-sm"
                 />
+                <TagFilter value={tagFilter} onChange={setTagFilter} />
             </div>
 
             <Card>
@@ -245,13 +320,20 @@ export default function HistoryPage() {
                                 const isEditing = editingTransactionId === transaction.id;
                                 const isTargeting = targetTransactionId === transaction.id;
                                 const isBusy = isTargeting && (isUpdating || isDeleting);
+                                const rowCurrency = normalizeCurrency(transaction.currency);
+                                const isTransfer = transaction.type === 'transfer';
+                                const accountLabel = isTransfer
+                                    ? `${accountNames.get(transaction.account_id || '') || 'Cuenta'} → ${accountNames.get(transaction.transfer_account_id || '') || 'Cuenta'}`
+                                    : accountNames.get(transaction.account_id || '');
 
                                 return (
                                     <div key={transaction.id || `${transaction.date}-${transaction.description}`} className="rounded-lg border p-3">
                                         <div className="flex items-center justify-between gap-3">
                                             <div className="flex items-start gap-4">
-                                                <div className={`mt-1 rounded-full p-2 ${transaction.type === 'income' ? 'bg-emerald-100 text-emerald-600' : 'bg-red-100 text-red-600'}`}>
-                                                    {transaction.type === 'income' ? <ArrowUpCircle className="h-4 w-4" /> : <ArrowDownCircle className="h-4 w-4" />}
+                                                <div className={`mt-1 rounded-full p-2 ${transaction.type === 'income' ? 'bg-emerald-100 text-emerald-600' : isTransfer ? 'bg-sky-100 text-sky-600' : 'bg-red-100 text-red-600'}`}>
+                                                    {transaction.type === 'income'
+                                                        ? <ArrowUpCircle className="h-4 w-4" />
+                                                        : isTransfer ? <ArrowRightLeft className="h-4 w-4" /> : <ArrowDownCircle className="h-4 w-4" />}
                                                 </div>
                                                 <div>
                                                     <p className="font-medium">{transaction.description}</p>
@@ -259,15 +341,81 @@ export default function HistoryPage() {
                                                         {transaction.category}
                                                         {' • '}
                                                         {new Date(transaction.date).toLocaleDateString('es-AR', { dateStyle: 'long' })}
+                                                        {accountLabel ? ` • ${accountLabel}` : ''}
                                                     </p>
+                                                    {transaction.splits?.length ? (
+                                                        <p className="mt-1 text-xs text-muted-foreground">
+                                                            {transaction.splits
+                                                                .map((split) => `${split.category} ${formatMoneyIn(Number(split.amount), rowCurrency)}`)
+                                                                .join(' • ')}
+                                                        </p>
+                                                    ) : null}
+                                                    {transaction.tags?.length ? (
+                                                        <div className="mt-1 flex flex-wrap gap-1">
+                                                            {transaction.tags.map((tag) => (
+                                                                <button
+                                                                    key={tag}
+                                                                    type="button"
+                                                                    className="rounded-full bg-primary/10 px-2 py-0.5 text-[11px] font-medium text-primary"
+                                                                    onClick={() => setTagFilter(tag)}
+                                                                >
+                                                                    #{tag}
+                                                                </button>
+                                                            ))}
+                                                        </div>
+                                                    ) : null}
+                                                    {transaction.notes && (
+                                                        <p className="mt-1 flex items-start gap-1 text-xs text-muted-foreground">
+                                                            <StickyNote className="mt-0.5 h-3 w-3 shrink-0" />
+                                                            <span className="whitespace-pre-line">{transaction.notes}</span>
+                                                        </p>
+                                                    )}
                                                 </div>
                                             </div>
 
                                             <div className="flex items-center gap-3">
-                                                <p className={`font-bold ${transaction.type === 'income' ? 'text-emerald-500' : 'text-red-500'}`}>
-                                                    {transaction.type === 'income' ? '+' : '-'} {currencyFormatter.format(Number(transaction.amount))}
-                                                </p>
+                                                <div className="text-right">
+                                                    <p className={`font-bold ${transaction.type === 'income' ? 'text-emerald-500' : isTransfer ? 'text-sky-500' : 'text-red-500'}`}>
+                                                        {transaction.type === 'income' ? '+' : isTransfer ? '' : '-'} {currencyFormatter.format(Number(transaction.amount))}
+                                                    </p>
+                                                    {deflator && deflator.factorFor(transaction.date) != null && (
+                                                        <p className="text-xs text-muted-foreground">
+                                                            {currencyFormatter.format(deflateAmount(Number(transaction.amount), transaction.date, deflator))} reales
+                                                        </p>
+                                                    )}
+                                                    {rowCurrency !== 'ARS' && (
+                                                        <p className="text-xs text-muted-foreground">
+                                                            {formatMoneyIn(Number(transaction.original_amount ?? 0), rowCurrency)}
+                                                            {' • TC '}
+                                                            {Number(transaction.fx_rate ?? 0).toLocaleString('es-AR')}
+                                                        </p>
+                                                    )}
+                                                </div>
                                                 <div className="flex items-center gap-1">
+                                                    <Button
+                                                        type="button"
+                                                        variant="ghost"
+                                                        size="icon"
+                                                        className="h-8 w-8"
+                                                        onClick={() => setAttachmentsTransactionId((current) => (current === transaction.id ? null : transaction.id || null))}
+                                                        disabled={!transaction.id}
+                                                        title="Comprobantes"
+                                                    >
+                                                        <Paperclip className="h-4 w-4" />
+                                                    </Button>
+                                                    {transaction.type === 'expense' && (
+                                                        <Button
+                                                            type="button"
+                                                            variant="ghost"
+                                                            size="icon"
+                                                            className="h-8 w-8"
+                                                            onClick={() => setSplittingTransactionId((current) => (current === transaction.id ? null : transaction.id || null))}
+                                                            disabled={!transaction.id || isBusy}
+                                                            title="Dividir en categorías"
+                                                        >
+                                                            <Split className="h-4 w-4" />
+                                                        </Button>
+                                                    )}
                                                     <Button
                                                         type="button"
                                                         variant="ghost"
@@ -294,6 +442,21 @@ export default function HistoryPage() {
                                             </div>
                                         </div>
 
+                                        {splittingTransactionId === transaction.id && transaction.id && (
+                                            <div className="mt-3 border-t pt-3">
+                                                <SplitEditor
+                                                    transaction={{ ...transaction, id: transaction.id }}
+                                                    onClose={() => setSplittingTransactionId(null)}
+                                                />
+                                            </div>
+                                        )}
+
+                                        {attachmentsTransactionId === transaction.id && transaction.id && (
+                                            <div className="mt-3 border-t pt-3">
+                                                <TransactionAttachments transactionId={transaction.id} />
+                                            </div>
+                                        )}
+
                                         {isEditing && (
                                             <form onSubmit={handleSaveEdit} className="mt-4 grid gap-3 border-t pt-4 md:grid-cols-2">
                                                 <Input
@@ -323,17 +486,76 @@ export default function HistoryPage() {
                                                     onChange={(event) => setEditForm((prev) => ({ ...prev, date: event.target.value }))}
                                                     required
                                                 />
-                                                <div className="md:col-span-2">
-                                                    <label className="mb-1 block text-xs font-medium text-muted-foreground">Tipo</label>
+                                                <div>
+                                                    <label className="mb-1 block text-xs font-medium text-muted-foreground">Moneda</label>
                                                     <select
-                                                        value={editForm.type}
-                                                        onChange={(event) => setEditForm((prev) => ({ ...prev, type: event.target.value as 'income' | 'expense' }))}
+                                                        value={editForm.currency || 'ARS'}
+                                                        onChange={(event) => setEditForm((prev) => ({ ...prev, currency: event.target.value as 'ARS' | 'USD' }))}
                                                         className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
                                                     >
-                                                        <option value="expense">Gasto</option>
-                                                        <option value="income">Ingreso</option>
+                                                        <option value="ARS">ARS</option>
+                                                        <option value="USD">USD</option>
                                                     </select>
                                                 </div>
+                                                {editForm.currency === 'USD' ? (
+                                                    <div>
+                                                        <label className="mb-1 block text-xs font-medium text-muted-foreground">Tipo de cambio</label>
+                                                        <Input
+                                                            type="number"
+                                                            step="0.01"
+                                                            min="0.01"
+                                                            value={editForm.fx_rate ?? ''}
+                                                            onChange={(event) => setEditForm((prev) => ({ ...prev, fx_rate: Number(event.target.value) || null }))}
+                                                            placeholder="ARS por USD"
+                                                            required
+                                                        />
+                                                    </div>
+                                                ) : <div className="hidden md:block" />}
+                                                {editForm.type === 'transfer' ? (
+                                                    <p className="text-xs text-muted-foreground md:col-span-2">
+                                                        Transferencia: {accountLabel}
+                                                    </p>
+                                                ) : (
+                                                    <div className="md:col-span-2">
+                                                        <label className="mb-1 block text-xs font-medium text-muted-foreground">Tipo</label>
+                                                        <select
+                                                            value={editForm.type}
+                                                            onChange={(event) => setEditForm((prev) => ({ ...prev, type: event.target.value as 'income' | 'expense' }))}
+                                                            className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+                                                        >
+                                                            <option value="expense">Gasto</option>
+                                                            <option value="income">Ingreso</option>
+                                                        </select>
+                                                    </div>
+                                                )}
+                                                {editForm.type !== 'transfer' && accounts.length > 1 && (
+                                                    <div className="md:col-span-2">
+                                                        <label className="mb-1 block text-xs font-medium text-muted-foreground">Cuenta</label>
+                                                        <select
+                                                            value={editForm.account_id || ''}
+                                                            onChange={(event) => setEditForm((prev) => ({ ...prev, account_id: event.target.value || null }))}
+                                                            className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm"
+                                                        >
+                                                            {accounts.map((account) => (
+                                                                <option key={account.id} value={account.id}>{account.name}</option>
+                                                            ))}
+                                                        </select>
+                                                    </div>
+                                                )}
+                                                <Input
+                                                    value={editTags}
+                                                    onChange={(event) => setEditTags(event.target.value)}
+                                                    placeholder="Etiquetas (separadas por coma)"
+                                                    className="md:col-span-2"
+                                                />
+                                                <textarea
+                                                    value={editForm.notes || ''}
+                                                    onChange={(event) => setEditForm((prev) => ({ ...prev, notes: event.target.value }))}
+                                                    placeholder="Nota"
+                                                    rows={2}
+                                                    maxLength={2000}
+                                                    className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm md:col-span-2"
+                                                />
                                                 <div className="flex gap-2 md:col-span-2">
                                                     <Button type="submit" size="sm" disabled={isBusy}>
                                                         {isBusy && isUpdating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
@@ -0,0 +1,230 @@
+'use client';
+
+export const dynamic = 'force-dynamic';
+
+import { useRef, useState } from 'react';
+import { useIndexes } from '@/hooks/use-indexes';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { INDEX_SERIES_PATTERN, indexSeriesName, normalizeSeriesCode, parseIndexCsv, type IndexCsvPreview } from '@/lib/indexes';
+import { Loader2, Trash2, Upload } from 'lucide-react';
+
+const selectClassName = 'h-10 w-full rounded-md border border-input bg-background px-3 text-sm';
+
+const NEW_SERIES = '__new__';
+
+function formatDate(value?: string | null) {
+    return value ? new Date(`${value}T00:00:00`).toLocaleDateString('es-AR', { dateStyle: 'medium' }) : 'sin datos';
+}
+
+function formatValue(value: number) {
+    return value.toLocaleString('es-AR', { maximumFractionDigits: 6 });
+}
+
+export default function IndexesPage() {
+    const [selected, setSelected] = useState('ICL');
+    const [customCode, setCustomCode] = useState('');
+    const series = selected === NEW_SERIES ? normalizeSeriesCode(customCode) : selected;
+    const validSeries = INDEX_SERIES_PATTERN.test(series);
+
+    const { series: summaries, values, isLoading, error, saveValues, isSaving, deleteValue, isDeleting } = useIndexes(validSeries ? series : undefined);
+    const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+    const [value, setValue] = useState('');
+    const [csvText, setCsvText] = useState('');
+    const [preview, setPreview] = useState<IndexCsvPreview | null>(null);
+    const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+    const summary = summaries.find((item) => item.series === series);
+
+    const saveManual = async () => {
+        if (!validSeries || !(Number(value) > 0)) return;
+        try {
+            await saveValues({ series, source: 'manual', values: [{ date, value: Number(value) }] });
+            setValue('');
+        } catch {
+            // toast handled in hook
+        }
+    };
+
+    const readCsv = (content: string) => {
+        setCsvText(content);
+        setPreview(content.trim() ? parseIndexCsv(content) : null);
+    };
+
+    const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (file) readCsv(await file.text());
+    };
+
+    const saveCsv = async () => {
+        if (!validSeries || !preview?.values.length) return;
+        try {
+            await saveValues({ series, source: 'csv', values: preview.values });
+            setCsvText('');
+            setPreview(null);
+        } catch {
+            // toast handled in hook
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h2 className="text-3xl font-bold tracking-tight">Índices</h2>
+                <p className="text-muted-foreground">
+                    Valores de ICL, IPC, CER o series propias para ajustar alquileres y sueldos recurrentes.
+                </p>
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-3">
+                <div className="space-y-6 lg:col-span-2">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Series</CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="grid gap-3 sm:grid-cols-2">
+                                <div className="space-y-2">
+                                    <Label htmlFor="index-series">Serie</Label>
+                                    <select
+                                        id="index-series"
+                                        className={selectClassName}
+                                        value={selected}
+                                        onChange={(event) => { setSelected(event.target.value); setPreview(null); setCsvText(''); }}
+                                    >
+                                        {summaries.map((item) => (
+                                            <option key={item.series} value={item.series}>
+                                                {item.name}{item.count ? ` • ${item.count} valores` : ''}
+                                            </option>
+                                        ))}
+                                        <option value={NEW_SERIES}>Nueva serie…</option>
+                                    </select>
+                                </div>
+                                {selected === NEW_SERIES ? (
+                                    <div className="space-y-2">
+                                        <Label htmlFor="index-custom-code">Código</Label>
+                                        <Input
+                                            id="index-custom-code"
+                                            placeholder="Ej: PARITARIA_UOM"
+                                            value={customCode}
+                                            onChange={(event) => setCustomCode(event.target.value)}
+                                        />
+                                        {customCode && !validSeries ? (
+                                            <p className="text-xs text-destructive">Usá de 2 a 20 letras, números o _.</p>
+                                        ) : null}
+                                    </div>
+                                ) : null}
+                            </div>
+
+                            {isLoading ? (
+                                <div className="flex justify-center p-8">
+                                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                                </div>
+                            ) : error ? (
+                                <p className="text-sm text-destructive">{error}</p>
+                            ) : !validSeries ? null : values.length === 0 ? (
+                                <p className="text-sm text-muted-foreground">
+                                    Todavía no hay valores de {indexSeriesName(series)}. Cargalos a mano o desde un CSV.
+                                </p>
+                            ) : (
+                                <div className="space-y-2">
+                                    <p className="text-xs text-muted-foreground">
+                                        {summary?.count || values.length} valores del {formatDate(summary?.first_date)} al {formatDate(summary?.last_date)}
+                                        {values.length < (summary?.count || 0) ? ` • se muestran los últimos ${values.length}` : ''}
+                                    </p>
+                                    <div className="max-h-[28rem] space-y-1 overflow-y-auto">
+                                        {values.map((row) => (
+                                            <div key={row.id} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2 text-sm">
+                                                <span>{formatDate(row.date)}</span>
+                                                <span className="flex items-center gap-3">
+                                                    <span className="font-medium">{formatValue(row.value)}</span>
+                                                    <span className="text-xs text-muted-foreground">{row.source === 'csv' ? 'CSV' : 'Manual'}</span>
+                                                    <Button
+                                                        type="button"
+                                                        variant="ghost"
+                                                        size="icon"
+                                                        className="h-8 w-8"
+                                                        disabled={isDeleting}
+                                                        onClick={() => void deleteValue(row.id).catch(() => undefined)}
+                                                    >
+                                                        <Trash2 className="h-4 w-4" />
+                                                    </Button>
+                                                </span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+                </div>
+
+                <div className="space-y-6">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Cargar valor</CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="index-date">Fecha</Label>
+                                <Input id="index-date" type="date" value={date} onChange={(event) => setDate(event.target.value)} />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="index-value">Valor</Label>
+                                <Input id="index-value" type="number" step="any" min="0" value={value} onChange={(event) => setValue(event.target.value)} />
+                            </div>
+                            <p className="text-xs text-muted-foreground">Si ya hay un valor para esa fecha, se reemplaza.</p>
+                            <Button type="button" className="w-full" disabled={isSaving || !validSeries || !(Number(value) > 0)} onClick={() => void saveManual()}>
+                                {isSaving && !preview ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                                Guardar
+                            </Button>
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Importar CSV</CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <p className="text-xs text-muted-foreground">
+                                Dos columnas: fecha (AAAA-MM-DD, DD/MM/AAAA o AAAA-MM para series mensuales) y valor.
+                            </p>
+                            <input ref={fileInputRef} type="file" accept=".csv,.txt" className="hidden" onChange={handleFile} />
+                            <Button type="button" variant="outline" className="w-full" onClick={() => fileInputRef.current?.click()}>
+                                <Upload className="mr-2 h-4 w-4" />
+                                Elegir archivo
+                            </Button>
+                            <textarea
+                                className="min-h-32 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                                placeholder={'fecha;valor\n2026-01-01;12,345'}
+                                value={csvText}
+                                onChange={(event) => readCsv(event.target.value)}
+                            />
+                            {preview ? (
+                                <div className="space-y-1 text-xs">
+                                    <p className="text-muted-foreground">
+                                        {preview.values.length} valores
+                                        {preview.values.length ? ` del ${formatDate(preview.values[0].date)} al ${formatDate(preview.values[preview.values.length - 1].date)}` : ''}
+                                    </p>
+                                    {preview.skipped.slice(0, 5).map((row) => (
+                                        <p key={row.line} className="text-amber-600">Línea {row.line}: {row.reason}</p>
+                                    ))}
+                                    {preview.skipped.length > 5 ? (
+                                        <p className="text-amber-600">y {preview.skipped.length - 5} líneas más sin importar</p>
+                                    ) : null}
+                                </div>
+                            ) : null}
+                            <Button type="button" className="w-full" disabled={isSaving || !validSeries || !preview?.values.length} onClick={() => void saveCsv()}>
+                                {isSaving && preview ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                                Guardar en {validSeries ? series : 'la serie'}
+                            </Button>
+                        </CardContent>
+                    </Card>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,640 @@
+'use client';
+
+export const dynamic = 'force-dynamic';
+
+import { useRef, useState } from 'react';
+import Link from 'next/link';
+import { useInvestments, type StoredHolding } from '@/hooks/use-investments';
+import { useAccounts } from '@/hooks/use-accounts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import { formatMoneyIn, normalizeCurrency, type CurrencyCode } from '@/lib/currency';
+import { parseIndexCsv, type IndexCsvPreview } from '@/lib/indexes';
+import { INVESTMENT_KINDS, INVESTMENT_KIND_LABELS, type InvestmentKind, type TradeSide } from '@/lib/investments';
+import { Archive, Loader2, Pencil, Trash2, Upload } from 'lucide-react';
+
+const selectClassName = 'h-10 w-full rounded-md border border-input bg-background px-3 text-sm';
+
+type HoldingFormState = {
+    name: string;
+    kind: InvestmentKind;
+    symbol: string;
+    currency: CurrencyCode;
+    account_id: string;
+    principal: string;
+    tna: string;
+    start_date: string;
+    maturity_date: string;
+};
+
+const EMPTY_FORM: HoldingFormState = {
+    name: '',
+    kind: 'plazo_fijo',
+    symbol: '',
+    currency: 'ARS',
+    account_id: '',
+    principal: '',
+    tna: '',
+    start_date: new Date().toISOString().split('T')[0],
+    maturity_date: '',
+};
+
+type TradeFormState = {
+    side: TradeSide;
+    date: string;
+    quantity: string;
+    price: string;
+    fees: string;
+};
+
+function emptyTrade(): TradeFormState {
+    return { side: 'buy', date: new Date().toISOString().split('T')[0], quantity: '', price: '', fees: '' };
+}
+
+function formatDate(value?: string | null) {
+    return value ? new Date(`${value}T00:00:00`).toLocaleDateString('es-AR', { dateStyle: 'medium' }) : '';
+}
+
+function formatQuantity(value: number) {
+    return value.toLocaleString('es-AR', { maximumFractionDigits: 8 });
+}
+
+export default function InvestmentsPage() {
+    const {
+        holdings,
+        trades,
+        isAvailable,
+        isLoading,
+        error,
+        addHolding,
+        isAdding,
+        updateHolding,
+        isUpdating,
+        deleteHolding,
+        isDeleting,
+        addTrade,
+        isAddingTrade,
+        deleteTrade,
+        isDeletingTrade,
+        savePrices,
+        isSavingPrices,
+    } = useInvestments();
+    const { accounts } = useAccounts();
+    const [form, setForm] = useState<HoldingFormState>(EMPTY_FORM);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [trade, setTrade] = useState<TradeFormState>(emptyTrade);
+    const [priceDate, setPriceDate] = useState(new Date().toISOString().split('T')[0]);
+    const [price, setPrice] = useState('');
+    const [csvText, setCsvText] = useState('');
+    const [preview, setPreview] = useState<IndexCsvPreview | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const selected = holdings.find((holding) => holding.id === selectedId && holding.kind !== 'plazo_fijo') || null;
+    const selectedTrades = selected ? trades.filter((row) => row.holding_id === selected.id) : [];
+    const isDeposit = form.kind === 'plazo_fijo';
+    const editing = editingId ? holdings.find((holding) => holding.id === editingId) : null;
+    const termsLocked = Boolean(editing && editing.status !== 'active');
+
+    // Totals per currency: a portfolio mixing pesos and dollars is shown side by side, not converted.
+    const totals = (['ARS', 'USD'] as CurrencyCode[]).map((currency) => {
+        const rows = holdings.filter((holding) => holding.valuation.currency === currency);
+        return {
+            currency,
+            count: rows.length,
+            market: rows.reduce((sum, holding) => sum + holding.valuation.market_value, 0),
+            unrealized: rows.reduce((sum, holding) => sum + holding.valuation.unrealized, 0),
+        };
+    }).filter((total) => total.count > 0);
+
+    const canSave = form.name.trim().length > 0 && (!isDeposit || (
+        Number(form.principal) > 0
+        && form.tna !== ''
+        && Number(form.tna) >= 0
+        && Boolean(form.start_date)
+        && form.maturity_date > form.start_date
+    ));
+    const canTrade = Number(trade.quantity) > 0 && trade.price !== '' && Number(trade.price) >= 0 && Boolean(trade.date);
+
+    const resetForm = () => {
+        setEditingId(null);
+        setForm(EMPTY_FORM);
+    };
+
+    const startEdit = (holding: StoredHolding) => {
+        setEditingId(holding.id);
+        setForm({
+            name: holding.name,
+            kind: holding.kind,
+            symbol: holding.symbol || '',
+            currency: normalizeCurrency(holding.currency),
+            account_id: holding.account_id || '',
+            principal: holding.principal != null ? String(holding.principal) : '',
+            tna: holding.tna != null ? String(holding.tna) : '',
+            start_date: holding.start_date || '',
+            maturity_date: holding.maturity_date || '',
+        });
+    };
+
+    const saveHolding = async () => {
+        if (!canSave) return;
+        const terms = isDeposit && !termsLocked
+            ? {
+                principal: Number(form.principal),
+                tna: Number(form.tna),
+                start_date: form.start_date,
+                maturity_date: form.maturity_date,
+            }
+            : {};
+        try {
+            if (editingId) {
+                await updateHolding({
+                    id: editingId,
+                    name: form.name.trim(),
+                    symbol: form.symbol.trim() || null,
+                    currency: form.currency,
+                    account_id: form.account_id || null,
+                    ...terms,
+                });
+            } else {
+                await addHolding({
+                    name: form.name.trim(),
+                    kind: form.kind,
+                    symbol: form.symbol.trim() || null,
+                    currency: form.currency,
+                    account_id: form.account_id || null,
+                    status: 'active',
+                    ...terms,
+                });
+            }
+            resetForm();
+        } catch {
+            // toast handled in hook
+        }
+    };
+
+    const saveTrade = async () => {
+        if (!selected || !canTrade) return;
+        try {
+            await addTrade({
+                holdingId: selected.id,
+                side: trade.side,
+                date: trade.date,
+                quantity: Number(trade.quantity),
+                price: Number(trade.price),
+                fees: Number(trade.fees) || 0,
+            });
+            setTrade(emptyTrade());
+        } catch {
+            // toast handled in hook
+        }
+    };
+
+    const saveManualPrice = async () => {
+        if (!selected || !(Number(price) > 0)) return;
+        try {
+            await savePrices({ holdingId: selected.id, source: 'manual', prices: [{ date: priceDate, price: Number(price) }] });
+            setPrice('');
+        } catch {
+            // toast handled in hook
+        }
+    };
+
+    const readCsv = (content: string) => {
+        setCsvText(content);
+        setPreview(content.trim() ? parseIndexCsv(content) : null);
+    };
+
+    const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (file) readCsv(await file.text());
+    };
+
+    const saveCsv = async () => {
+        if (!selected || !preview?.values.length) return;
+        try {
+            await savePrices({
+                holdingId: selected.id,
+                source: 'csv',
+                prices: preview.values.map((row) => ({ date: row.date, price: row.value })),
+            });
+            setCsvText('');
+            setPreview(null);
+        } catch {
+            // toast handled in hook
+        }
+    };
+
+    const selectHolding = (holding: StoredHolding) => {
+        if (holding.kind === 'plazo_fijo') return;
+        setSelectedId(holding.id === selectedId ? null : holding.id);
+        setTrade(emptyTrade());
+        setCsvText('');
+        setPreview(null);
+    };
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h2 className="text-3xl font-bold tracking-tight">Inversiones</h2>
+                <p className="text-muted-foreground">
+                    Plazos fijos, FCI, CEDEARs y cripto. Suman en tu{' '}
+                    <Link href="/dashboard/net-worth" className="font-medium text-primary hover:underline">patrimonio</Link>.
+                </p>
+            </div>
+
+            {isLoading ? (
+                <div className="flex justify-center p-8">
+                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+            ) : error ? (
+                <p className="text-sm text-destructive">{error}</p>
+            ) : (
+                <>
+                    {!isAvailable ? (
+                        <p className="rounded-md border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-sm text-amber-700 dark:text-amber-400">
+                            Ejecuta supabase-investments.sql en Supabase SQL Editor para cargar inversiones.
+                        </p>
+                    ) : null}
+
+                    {totals.length ? (
+                        <div className="grid gap-4 sm:grid-cols-2">
+                            {totals.map((total) => (
+                                <Card key={total.currency}>
+                                    <CardContent className="space-y-1 p-4">
+                                        <p className="text-xs text-muted-foreground">Valor actual en {total.currency}</p>
+                                        <p className="text-2xl font-bold">{formatMoneyIn(total.market, total.currency, 0)}</p>
+                                        <p className={cn('text-xs', total.unrealized >= 0 ? 'text-emerald-600' : 'text-destructive')}>
+                                            {total.unrealized >= 0 ? '+' : ''}{formatMoneyIn(total.unrealized, total.currency, 0)} sin realizar
+                                        </p>
+                                    </CardContent>
+                                </Card>
+                            ))}
+                        </div>
+                    ) : null}
+
+                    <div className="grid gap-6 lg:grid-cols-3">
+                        <div className="space-y-6 lg:col-span-2">
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle>Tenencias</CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-2">
+                                    {holdings.length === 0 ? (
+                                        <p className="text-sm text-muted-foreground">
+                                            Todavía no cargaste inversiones. Un plazo fijo se valúa con su TNA; el resto, con sus compras, ventas y cotizaciones.
+                                        </p>
+                                    ) : holdings.map((holding) => {
+                                        const valuation = holding.valuation;
+                                        const currency = valuation.currency;
+                                        return (
+                                            <div
+                                                key={holding.id}
+                                                className={cn(
+                                                    'flex items-center justify-between gap-2 rounded-md border px-3 py-2 text-sm',
+                                                    holding.id === selected?.id ? 'border-primary' : ''
+                                                )}
+                                            >
+                                                <button
+                                                    type="button"
+                                                    className="min-w-0 flex-1 text-left"
+                                                    onClick={() => selectHolding(holding)}
+                                                >
+                                                    <p className="truncate font-medium">
+                                                        {holding.name}{holding.symbol ? ` (${holding.symbol})` : ''}
+                                                    </p>
+                                                    <p className="text-xs text-muted-foreground">
+                                                        {INVESTMENT_KIND_LABELS[holding.kind]} •{' '}
+                                                        {holding.kind === 'plazo_fijo'
+                                                            ? `TNA ${Number(holding.tna)}% • ${holding.status === 'active' ? 'vence' : 'venció'} el ${formatDate(holding.maturity_date)} • capital ${formatMoneyIn(Number(holding.principal) || 0, currency)} en su cuenta • intereses ${formatMoneyIn(valuation.interest || 0, currency)}`
+                                                            : valuation.quantity > 0
+                                                                ? `${formatQuantity(valuation.quantity)} u. • costo ${formatMoneyIn(valuation.cost_basis, currency)}${valuation.price != null ? ` • ${valuation.price_source === 'quote' ? 'cotización' : 'último precio'} ${formatMoneyIn(valuation.price, currency)} al ${formatDate(valuation.price_date)}` : ''}`
+                                                                : 'sin unidades'}
+                                                    </p>
+                                                </button>
+                                                <div className="shrink-0 text-right">
+                                                    <p className="font-semibold">{formatMoneyIn(valuation.market_value, currency, 0)}</p>
+                                                    {valuation.unrealized !== 0 ? (
+                                                        <p className={cn('text-xs', valuation.unrealized >= 0 ? 'text-emerald-600' : 'text-destructive')}>
+                                                            {valuation.unrealized >= 0 ? '+' : ''}{formatMoneyIn(valuation.unrealized, currency, 0)}
+                                                        </p>
+                                                    ) : null}
+                                                </div>
+                                                <span className="flex shrink-0 items-center">
+                                                    <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => startEdit(holding)}>
+                                                        <Pencil className="h-4 w-4" />
+                                                    </Button>
+                                                    {holding.status !== 'closed' && valuation.quantity === 0 ? (
+                                                        <Button
+                                                            type="button"
+                                                            variant="ghost"
+                                                            size="icon"
+                                                            className="h-8 w-8"
+                                                            title="Cerrar"
+                                                            disabled={isUpdating}
+                                                            onClick={() => void updateHolding({ id: holding.id, status: 'closed' }).catch(() => undefined)}
+                                                        >
+                                                            <Archive className="h-4 w-4" />
+                                                        </Button>
+                                                    ) : null}
+                                                    <Button
+                                                        type="button"
+                                                        variant="ghost"
+                                                        size="icon"
+                                                        className="h-8 w-8"
+                                                        disabled={isDeleting}
+                                                        onClick={() => void deleteHolding(holding.id).then(() => { if (editingId === holding.id) resetForm(); }).catch(() => undefined)}
+                                                    >
+                                                        <Trash2 className="h-4 w-4" />
+                                                    </Button>
+                                                </span>
+                                            </div>
+                                        );
+                                    })}
+                                </CardContent>
+                            </Card>
+
+                            {selected ? (
+                                <Card>
+                                    <CardHeader>
+                                        <CardTitle>Operaciones de {selected.name}</CardTitle>
+                                    </CardHeader>
+                                    <CardContent className="space-y-4">
+                                        <div className="grid gap-2 sm:grid-cols-6">
+                                            <div className="space-y-2">
+                                                <Label htmlFor="trade-side">Tipo</Label>
+                                                <select
+                                                    id="trade-side"
+                                                    className={selectClassName}
+                                                    value={trade.side}
+                                                    onChange={(event) => setTrade((previous) => ({ ...previous, side: event.target.value as TradeSide }))}
+                                                >
+                                                    <option value="buy">Compra</option>
+                                                    <option value="sell">Venta</option>
+                                                </select>
+                                            </div>
+                                            <div className="space-y-2 sm:col-span-2">
+                                                <Label htmlFor="trade-date">Fecha</Label>
+                                                <Input id="trade-date" type="date" value={trade.date} onChange={(event) => setTrade((previous) => ({ ...previous, date: event.target.value }))} />
+                                            </div>
+                                            <div className="space-y-2">
+                                                <Label htmlFor="trade-quantity">Cantidad</Label>
+                                                <Input id="trade-quantity" type="number" step="any" min="0" value={trade.quantity} onChange={(event) => setTrade((previous) => ({ ...previous, quantity: event.target.value }))} />
+                                            </div>
+                                            <div className="space-y-2">
+                                                <Label htmlFor="trade-price">Precio</Label>
+                                                <Input id="trade-price" type="number" step="any" min="0" value={trade.price} onChange={(event) => setTrade((previous) => ({ ...previous, price: event.target.value }))} />
+                                            </div>
+                                            <div className="space-y-2">
+                                                <Label htmlFor="trade-fees">Comisiones</Label>
+                                                <Input id="trade-fees" type="number" step="any" min="0" value={trade.fees} onChange={(event) => setTrade((previous) => ({ ...previous, fees: event.target.value }))} />
+                                            </div>
+                                        </div>
+                                        <Button type="button" disabled={!canTrade || isAddingTrade} onClick={() => void saveTrade()}>
+                                            {isAddingTrade ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                                            Registrar {trade.side === 'buy' ? 'compra' : 'venta'}
+                                        </Button>
+                                        <p className="text-xs text-muted-foreground">
+                                            Las ventas consumen primero los lotes más viejos. Registrar una operación no mueve el saldo de ninguna cuenta.
+                                        </p>
+
+                                        {selectedTrades.length === 0 ? (
+                                            <p className="text-sm text-muted-foreground">Sin operaciones registradas.</p>
+                                        ) : (
+                                            <div className="max-h-[24rem] space-y-1 overflow-y-auto">
+                                                {selectedTrades.map((row) => (
+                                                    <div key={row.id} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2 text-sm">
+                                                        <span>{formatDate(row.date)} • {row.side === 'buy' ? 'Compra' : 'Venta'}</span>
+                                                        <span className="flex items-center gap-3">
+                                                            <span className="font-medium">
+                                                                {formatQuantity(Number(row.quantity))} × {formatMoneyIn(Number(row.price), selected.valuation.currency)}
+                                                            </span>
+                                                            {Number(row.fees) > 0 ? (
+                                                                <span className="text-xs text-muted-foreground">+{formatMoneyIn(Number(row.fees), selected.valuation.currency)}</span>
+                                                            ) : null}
+                                                            <Button
+                                                                type="button"
+                                                                variant="ghost"
+                                                                size="icon"
+                                                                className="h-8 w-8"
+                                                                disabled={isDeletingTrade}
+                                                                onClick={() => void deleteTrade({ holdingId: selected.id, tradeId: row.id }).catch(() => undefined)}
+                                                            >
+                                                                <Trash2 className="h-4 w-4" />
+                                                            </Button>
+                                                        </span>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
+                                        {selected.valuation.realized !== 0 ? (
+                                            <p className="text-xs text-muted-foreground">
+                                                Resultado realizado: {formatMoneyIn(selected.valuation.realized, selected.valuation.currency)}
+                                            </p>
+                                        ) : null}
+                                    </CardContent>
+                                </Card>
+                            ) : null}
+                        </div>
+
+                        <div className="space-y-6">
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle>{editingId ? 'Editar inversión' : 'Nueva inversión'}</CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-4">
+                                    <div className="space-y-2">
+                                        <Label htmlFor="holding-name">Nombre</Label>
+                                        <Input
+                                            id="holding-name"
+                                            placeholder="Ej: Plazo fijo Galicia"
+                                            value={form.name}
+                                            onChange={(event) => setForm((previous) => ({ ...previous, name: event.target.value }))}
+                                        />
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-2">
+                                        <div className="space-y-2">
+                                            <Label htmlFor="holding-kind">Tipo</Label>
+                                            <select
+                                                id="holding-kind"
+                                                className={selectClassName}
+                                                value={form.kind}
+                                                disabled={Boolean(editingId)}
+                                                onChange={(event) => setForm((previous) => ({ ...previous, kind: event.target.value as InvestmentKind }))}
+                                            >
+                                                {INVESTMENT_KINDS.map((key) => (
+                                                    <option key={key} value={key}>{INVESTMENT_KIND_LABELS[key]}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                        <div className="space-y-2">
+                                            <Label htmlFor="holding-currency">Moneda</Label>
+                                            <select
+                                                id="holding-currency"
+                                                className={selectClassName}
+                                                value={form.currency}
+                                                onChange={(event) => setForm((previous) => ({ ...previous, currency: event.target.value as CurrencyCode }))}
+                                            >
+                                                <option value="ARS">ARS</option>
+                                                <option value="USD">USD</option>
+                                            </select>
+                                        </div>
+                                    </div>
+                                    {isDeposit ? (
+                                        <>
+                                            <div className="grid grid-cols-2 gap-2">
+                                                <div className="space-y-2">
+                                                    <Label htmlFor="holding-principal">Capital</Label>
+                                                    <Input
+                                                        id="holding-principal"
+                                                        type="number"
+                                                        step="any"
+                                                        min="0"
+                                                        disabled={termsLocked}
+                                                        value={form.principal}
+                                                        onChange={(event) => setForm((previous) => ({ ...previous, principal: event.target.value }))}
+                                                    />
+                                                </div>
+                                                <div className="space-y-2">
+                                                    <Label htmlFor="holding-tna">TNA %</Label>
+                                                    <Input
+                                                        id="holding-tna"
+                                                        type="number"
+                                                        step="any"
+                                                        min="0"
+                                                        disabled={termsLocked}
+                                                        value={form.tna}
+                                                        onChange={(event) => setForm((previous) => ({ ...previous, tna: event.target.value }))}
+                                                    />
+                                                </div>
+                                            </div>
+                                            <div className="grid grid-cols-2 gap-2">
+                                                <div className="space-y-2">
+                                                    <Label htmlFor="holding-start">Constitución</Label>
+                                                    <Input
+                                                        id="holding-start"
+                                                        type="date"
+                                                        disabled={termsLocked}
+                                                        value={form.start_date}
+                                                        onChange={(event) => setForm((previous) => ({ ...previous, start_date: event.target.value }))}
+                                                    />
+                                                </div>
+                                                <div className="space-y-2">
+                                                    <Label htmlFor="holding-maturity">Vencimiento</Label>
+                                                    <Input
+                                                        id="holding-maturity"
+                                                        type="date"
+                                                        disabled={termsLocked}
+                                                        value={form.maturity_date}
+                                                        onChange={(event) => setForm((previous) => ({ ...previous, maturity_date: event.target.value }))}
+                                                    />
+                                                </div>
+                                            </div>
+                                            <p className="text-xs text-muted-foreground">
+                                                Al vencer se registra un ingreso con los intereses en la cuenta elegida y aparece en la agenda.
+                                            </p>
+                                        </>
+                                    ) : (
+                                        <div className="space-y-2">
+                                            <Label htmlFor="holding-symbol">Ticker</Label>
+                                            <Input
+                                                id="holding-symbol"
+                                                placeholder="Ej: SPY, BTC"
+                                                value={form.symbol}
+                                                onChange={(event) => setForm((previous) => ({ ...previous, symbol: event.target.value }))}
+                                            />
+                                        </div>
+                                    )}
+                                    <div className="space-y-2">
+                                        <Label htmlFor="holding-account">Cuenta</Label>
+                                        <select
+                                            id="holding-account"
+                                            className={selectClassName}
+                                            value={form.account_id}
+                                            onChange={(event) => setForm((previous) => ({ ...previous, account_id: event.target.value }))}
+                                        >
+                                            <option value="">{isDeposit ? 'Cuenta principal' : 'Sin cuenta'}</option>
+                                            {accounts.map((account) => (
+                                                <option key={account.id} value={account.id}>{account.name} ({account.currency})</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <Button type="button" className="flex-1" disabled={!canSave || isAdding || isUpdating || !isAvailable} onClick={() => void saveHolding()}>
+                                            {isAdding || isUpdating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                                            {editingId ? 'Guardar cambios' : 'Agregar'}
+                                        </Button>
+                                        {editingId ? (
+                                            <Button type="button" variant="outline" onClick={resetForm}>Cancelar</Button>
+                                        ) : null}
+                                    </div>
+                                </CardContent>
+                            </Card>
+
+                            {selected ? (
+                                <Card>
+                                    <CardHeader>
+                                        <CardTitle>Cotizaciones</CardTitle>
+                                    </CardHeader>
+                                    <CardContent className="space-y-4">
+                                        <div className="grid grid-cols-2 gap-2">
+                                            <div className="space-y-2">
+                                                <Label htmlFor="price-date">Fecha</Label>
+                                                <Input id="price-date" type="date" value={priceDate} onChange={(event) => setPriceDate(event.target.value)} />
+                                            </div>
+                                            <div className="space-y-2">
+                                                <Label htmlFor="price-value">Precio</Label>
+                                                <Input id="price-value" type="number" step="any" min="0" value={price} onChange={(event) => setPrice(event.target.value)} />
+                                            </div>
+                                        </div>
+                                        <Button type="button" className="w-full" disabled={isSavingPrices || !(Number(price) > 0)} onClick={() => void saveManualPrice()}>
+                                            {isSavingPrices && !preview ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                                            Guardar cotización
+                                        </Button>
+
+                                        <p className="text-xs text-muted-foreground">
+                                            O importá un CSV de dos columnas: fecha (AAAA-MM-DD o DD/MM/AAAA) y precio. Si ya hay una cotización para esa fecha, se reemplaza.
+                                        </p>
+                                        <input ref={fileInputRef} type="file" accept=".csv,.txt" className="hidden" onChange={handleFile} />
+                                        <Button type="button" variant="outline" className="w-full" onClick={() => fileInputRef.current?.click()}>
+                                            <Upload className="mr-2 h-4 w-4" />
+                                            Elegir archivo
+                                        </Button>
+                                        <textarea
+                                            className="min-h-24 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                                            placeholder={'fecha;precio\n2026-01-02;18500,50'}
+                                            value={csvText}
+                                            onChange={(event) => readCsv(event.target.value)}
+                                        />
+                                        {preview ? (
+                                            <div className="space-y-1 text-xs">
+                                                <p className="text-muted-foreground">
+                                                    {preview.values.length} cotizaciones
+                                                    {preview.values.length ? ` del ${formatDate(preview.values[0].date)} al ${formatDate(preview.values[preview.values.length - 1].date)}` : ''}
+                                                </p>
+                                                {preview.skipped.slice(0, 5).map((row) => (
+                                                    <p key={row.line} className="text-amber-600">Línea {row.line}: {row.reason}</p>
+                                                ))}
+                                                {preview.skipped.length > 5 ? (
+                                                    <p className="text-amber-600">y {preview.skipped.length - 5} líneas más sin importar</p>
+                                                ) : null}
+                                            </div>
+                                        ) : null}
+                                        <Button type="button" className="w-full" disabled={isSavingPrices || !preview?.values.length} onClick={() => void saveCsv()}>
+                                            {isSavingPrices && preview ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                                            Importar cotizaciones
+                                        </Button>
+                                    </CardContent>
+                                </Card>
+                            ) : null}
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
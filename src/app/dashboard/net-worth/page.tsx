@@ -0,0 +1,461 @@
+'use client';
+
+export const dynamic = 'force-dynamic';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useNetWorth, type StoredAsset } from '@/hooks/use-net-worth';
+import { useAccounts } from '@/hooks/use-accounts';
+import { useReportingCurrency } from '@/hooks/use-reporting-currency';
+import { ReportingCurrencyToggle } from '@/components/finance/reporting-currency-toggle';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { formatMoneyIn, normalizeCurrency, type CurrencyCode } from '@/lib/currency';
+import {
+    ASSET_CLASSES,
+    ASSET_CLASS_LABELS,
+    LIABILITY_CLASSES,
+    LIABILITY_CLASS_LABELS,
+    netWorthChartRows,
+    type AssetClass,
+    type AssetValuationMode,
+    type LiabilityClass,
+} from '@/lib/net-worth';
+import { Camera, Loader2, Pencil, Trash2 } from 'lucide-react';
+import {
+    Bar,
+    CartesianGrid,
+    ComposedChart,
+    Legend,
+    Line,
+    ReferenceLine,
+    ResponsiveContainer,
+    Tooltip,
+    XAxis,
+    YAxis,
+} from 'recharts';
+
+const selectClassName = 'h-10 w-full rounded-md border border-input bg-background px-3 text-sm';
+
+const CLASS_COLORS: Record<AssetClass | LiabilityClass, string> = {
+    cash: '#10b981',
+    usd_savings: '#06b6d4',
+    investment: '#3b82f6',
+    property: '#8b5cf6',
+    vehicle: '#f59e0b',
+    other: '#a1a1aa',
+    debts: '#ef4444',
+    cards: '#ec4899',
+};
+
+type AssetFormState = {
+    name: string;
+    asset_class: AssetClass;
+    valuation_mode: AssetValuationMode;
+    currency: CurrencyCode;
+    value: string;
+    account_id: string;
+    valued_at: string;
+};
+
+const EMPTY_FORM: AssetFormState = {
+    name: '',
+    asset_class: 'property',
+    valuation_mode: 'manual',
+    currency: 'USD',
+    value: '',
+    account_id: '',
+    valued_at: '',
+};
+
+function formatMonth(month: string) {
+    return new Date(`${month}-01T00:00:00`).toLocaleDateString('es-AR', { month: 'short', year: '2-digit' });
+}
+
+function formatDate(value?: string | null) {
+    return value ? new Date(`${value}T00:00:00`).toLocaleDateString('es-AR', { dateStyle: 'medium' }) : '';
+}
+
+export default function NetWorthPage() {
+    const { reportingCurrency, setReportingCurrency } = useReportingCurrency();
+    const {
+        current,
+        snapshots,
+        change,
+        isAvailable,
+        assets,
+        isLoading,
+        error,
+        addAsset,
+        isAdding,
+        updateAsset,
+        isUpdating,
+        deleteAsset,
+        isDeleting,
+        takeSnapshot,
+        isTakingSnapshot,
+    } = useNetWorth(reportingCurrency);
+    const { accounts } = useAccounts();
+    const [form, setForm] = useState<AssetFormState>(EMPTY_FORM);
+    const [editingId, setEditingId] = useState<string | null>(null);
+
+    const formatAmount = (amount: number) => formatMoneyIn(amount, reportingCurrency, 0);
+    const chartRows = netWorthChartRows(snapshots, reportingCurrency, current).map((row) => ({
+        ...row,
+        label: row.is_current ? 'Hoy' : formatMonth(row.month),
+    }));
+    // Only classes with a value somewhere in the history get a bar and a legend entry.
+    const assetKeys = ASSET_CLASSES.filter((key) => chartRows.some((row) => row[key] !== 0));
+    const liabilityKeys = LIABILITY_CLASSES.filter((key) => chartRows.some((row) => row[key] !== 0));
+    const missingUsdSnapshots = reportingCurrency === 'USD'
+        ? snapshots.filter((snapshot) => snapshot.month !== current?.as_of.slice(0, 7) && !snapshot.usd_rate).length
+        : 0;
+
+    const canSave = form.name.trim().length > 0
+        && (form.valuation_mode === 'account' ? Boolean(form.account_id) : Number(form.value) >= 0 && form.value !== '');
+
+    const startEdit = (asset: StoredAsset) => {
+        setEditingId(asset.id);
+        setForm({
+            name: asset.name,
+            asset_class: asset.asset_class,
+            valuation_mode: asset.valuation_mode,
+            currency: normalizeCurrency(asset.currency),
+            value: asset.value != null ? String(asset.value) : '',
+            account_id: asset.account_id || '',
+            valued_at: asset.valued_at || '',
+        });
+    };
+
+    const resetForm = () => {
+        setEditingId(null);
+        setForm(EMPTY_FORM);
+    };
+
+    const saveAsset = async () => {
+        if (!canSave) return;
+        const payload = {
+            name: form.name.trim(),
+            asset_class: form.asset_class,
+            valuation_mode: form.valuation_mode,
+            currency: form.currency,
+            value: form.valuation_mode === 'manual' ? Number(form.value) : null,
+            account_id: form.valuation_mode === 'account' ? form.account_id : null,
+            valued_at: form.valuation_mode === 'manual' && form.valued_at ? form.valued_at : null,
+            is_archived: false,
+        };
+        try {
+            if (editingId) await updateAsset({ id: editingId, ...payload });
+            else await addAsset(payload);
+            resetForm();
+        } catch {
+            // toast handled in hook
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                    <h2 className="text-3xl font-bold tracking-tight">Patrimonio</h2>
+                    <p className="text-muted-foreground">
+                        Cuentas, bienes y deudas del espacio, con una foto por mes para ver cómo evoluciona.
+                    </p>
+                </div>
+                <div className="flex items-center gap-3">
+                    <ReportingCurrencyToggle value={reportingCurrency} onChange={setReportingCurrency} />
+                    <Button type="button" variant="outline" disabled={isTakingSnapshot || !isAvailable} onClick={() => void takeSnapshot().catch(() => undefined)}>
+                        {isTakingSnapshot ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Camera className="mr-2 h-4 w-4" />}
+                        Guardar mes actual
+                    </Button>
+                </div>
+            </div>
+
+            {!isAvailable ? (
+                <p className="text-sm text-amber-600">
+                    Ejecuta supabase-net-worth.sql en Supabase SQL Editor para cargar bienes y guardar el historial. Mientras tanto se muestran solo cuentas y deudas.
+                </p>
+            ) : null}
+
+            {isLoading ? (
+                <div className="flex justify-center p-8">
+                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+            ) : error ? (
+                <p className="text-sm text-destructive">{error}</p>
+            ) : current ? (
+                <>
+                    <div className="grid gap-4 md:grid-cols-3">
+                        <Card>
+                            <CardHeader className="pb-2">
+                                <CardTitle className="text-sm font-medium text-muted-foreground">Activos</CardTitle>
+                            </CardHeader>
+                            <CardContent className="text-2xl font-bold">{formatAmount(current.total_assets)}</CardContent>
+                        </Card>
+                        <Card>
+                            <CardHeader className="pb-2">
+                                <CardTitle className="text-sm font-medium text-muted-foreground">Pasivos</CardTitle>
+                            </CardHeader>
+                            <CardContent className="text-2xl font-bold text-red-500">{formatAmount(current.total_liabilities)}</CardContent>
+                        </Card>
+                        <Card>
+                            <CardHeader className="pb-2">
+                                <CardTitle className="text-sm font-medium text-muted-foreground">Patrimonio neto</CardTitle>
+                            </CardHeader>
+                            <CardContent className="space-y-1">
+                                <p className="text-2xl font-bold">{formatAmount(current.net_worth)}</p>
+                                {change ? (
+                                    <p className={change.delta >= 0 ? 'text-xs text-emerald-600' : 'text-xs text-red-500'}>
+                                        {change.delta >= 0 ? '+' : ''}{formatAmount(change.delta)}
+                                        {change.percent != null ? ` (${change.percent >= 0 ? '+' : ''}${change.percent.toFixed(1)}%)` : ''} desde {formatMonth(change.month)}
+                                    </p>
+                                ) : null}
+                            </CardContent>
+                        </Card>
+                    </div>
+
+                    {current.missing_rates ? (
+                        <p className="text-xs text-amber-600">
+                            {current.missing_rates} montos en otra moneda quedaron afuera por falta de cotización registrada.
+                        </p>
+                    ) : null}
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Evolución</CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-2">
+                            {chartRows.length < 2 ? (
+                                <p className="text-sm text-muted-foreground">
+                                    El historial se arma con una foto por mes (el 1° se cierra el mes anterior). Guardá el mes actual para empezar.
+                                </p>
+                            ) : null}
+                            <div className="h-[340px] w-full min-w-0 overflow-hidden">
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <ComposedChart data={chartRows} stackOffset="sign" margin={{ top: 8, right: 4, left: 0, bottom: 0 }}>
+                                        <CartesianGrid strokeDasharray="3 3" vertical={false} opacity={0.3} />
+                                        <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fontSize: 12 }} />
+                                        <YAxis axisLine={false} tickLine={false} width={64} tickFormatter={(value) => `${value / 1000}k`} tick={{ fontSize: 12 }} />
+                                        <Tooltip
+                                            formatter={(value: any, name: any) => [formatAmount(Math.abs(Number(value))), name]}
+                                            contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)' }}
+                                        />
+                                        <Legend />
+                                        <ReferenceLine y={0} stroke="#a1a1aa" />
+                                        {assetKeys.map((key) => (
+                                            <Bar key={key} dataKey={key} name={ASSET_CLASS_LABELS[key]} stackId="net-worth" fill={CLASS_COLORS[key]} />
+                                        ))}
+                                        {liabilityKeys.map((key) => (
+                                            <Bar key={key} dataKey={key} name={LIABILITY_CLASS_LABELS[key]} stackId="net-worth" fill={CLASS_COLORS[key]} />
+                                        ))}
+                                        <Line type="monotone" dataKey="net_worth" name="Patrimonio neto" stroke="#18181b" strokeWidth={2} dot />
+                                    </ComposedChart>
+                                </ResponsiveContainer>
+                            </div>
+                            {missingUsdSnapshots ? (
+                                <p className="text-xs text-muted-foreground">
+                                    {missingUsdSnapshots} meses sin cotización USD guardada no se muestran en dólares.
+                                </p>
+                            ) : null}
+                        </CardContent>
+                    </Card>
+
+                    <div className="grid gap-6 lg:grid-cols-3">
+                        <Card className="lg:col-span-2">
+                            <CardHeader>
+                                <CardTitle>Composición</CardTitle>
+                            </CardHeader>
+                            <CardContent className="space-y-4">
+                                {[...ASSET_CLASSES, ...LIABILITY_CLASSES].map((key) => {
+                                    const items = current.items.filter((item) => item.class === key);
+                                    if (!items.length) return null;
+                                    const isLiability = (LIABILITY_CLASSES as string[]).includes(key);
+                                    const total = isLiability ? current.liabilities[key as LiabilityClass] : current.assets[key as AssetClass];
+                                    return (
+                                        <div key={key} className="space-y-1">
+                                            <div className="flex items-center justify-between text-sm font-semibold">
+                                                <span className="flex items-center gap-2">
+                                                    <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: CLASS_COLORS[key] }} />
+                                                    {isLiability ? LIABILITY_CLASS_LABELS[key as LiabilityClass] : ASSET_CLASS_LABELS[key as AssetClass]}
+                                                </span>
+                                                <span className={isLiability ? 'text-red-500' : ''}>{isLiability ? '-' : ''}{formatAmount(total)}</span>
+                                            </div>
+                                            {items.map((item) => (
+                                                <div key={`${item.source}-${item.id}`} className="flex items-center justify-between pl-5 text-xs text-muted-foreground">
+                                                    <span>
+                                                        {item.name}
+                                                        {item.source === 'account' ? ' • cuenta' : item.source === 'investment' ? ' • tenencia' : item.source === 'debt' ? ' • deuda' : ''}
+                                                    </span>
+                                                    <span>
+                                                        {item.missing_rate
+                                                            ? `${formatMoneyIn(item.original, item.currency, 0)} (sin cotización)`
+                                                            : item.currency !== reportingCurrency
+                                                                ? `${formatMoneyIn(item.original, item.currency, 0)} ≈ ${formatAmount(item.amount)}`
+                                                                : formatAmount(item.amount)}
+                                                    </span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    );
+                                })}
+                                {!current.items.length ? (
+                                    <p className="text-sm text-muted-foreground">Todavía no hay cuentas, bienes ni deudas en este espacio.</p>
+                                ) : null}
+                            </CardContent>
+                        </Card>
+
+                        <div className="space-y-6">
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle>{editingId ? 'Editar bien' : 'Agregar bien'}</CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-4">
+                                    <div className="space-y-2">
+                                        <Label htmlFor="asset-name">Nombre</Label>
+                                        <Input
+                                            id="asset-name"
+                                            placeholder="Ej: Departamento, Auto, Dólares en casa"
+                                            value={form.name}
+                                            onChange={(event) => setForm((previous) => ({ ...previous, name: event.target.value }))}
+                                        />
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label htmlFor="asset-class">Tipo</Label>
+                                        <select
+                                            id="asset-class"
+                                            className={selectClassName}
+                                            value={form.asset_class}
+                                            onChange={(event) => setForm((previous) => ({ ...previous, asset_class: event.target.value as AssetClass }))}
+                                        >
+                                            {ASSET_CLASSES.map((key) => (
+                                                <option key={key} value={key}>{ASSET_CLASS_LABELS[key]}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label htmlFor="asset-mode">Valuación</Label>
+                                        <select
+                                            id="asset-mode"
+                                            className={selectClassName}
+                                            value={form.valuation_mode}
+                                            onChange={(event) => setForm((previous) => ({ ...previous, valuation_mode: event.target.value as AssetValuationMode }))}
+                                        >
+                                            <option value="manual">Manual</option>
+                                            <option value="account">Saldo de una cuenta</option>
+                                        </select>
+                                    </div>
+                                    {form.valuation_mode === 'account' ? (
+                                        <div className="space-y-2">
+                                            <Label htmlFor="asset-account">Cuenta</Label>
+                                            <select
+                                                id="asset-account"
+                                                className={selectClassName}
+                                                value={form.account_id}
+                                                onChange={(event) => setForm((previous) => ({ ...previous, account_id: event.target.value }))}
+                                            >
+                                                <option value="">Elegí una cuenta</option>
+                                                {accounts.map((account) => (
+                                                    <option key={account.id} value={account.id}>{account.name} ({account.currency})</option>
+                                                ))}
+                                            </select>
+                                            <p className="text-xs text-muted-foreground">La cuenta deja de contarse aparte y suma en este tipo de bien.</p>
+                                        </div>
+                                    ) : (
+                                        <>
+                                            <div className="grid grid-cols-3 gap-2">
+                                                <div className="space-y-2">
+                                                    <Label htmlFor="asset-currency">Moneda</Label>
+                                                    <select
+                                                        id="asset-currency"
+                                                        className={selectClassName}
+                                                        value={form.currency}
+                                                        onChange={(event) => setForm((previous) => ({ ...previous, currency: event.target.value as CurrencyCode }))}
+                                                    >
+                                                        <option value="ARS">ARS</option>
+                                                        <option value="USD">USD</option>
+                                                    </select>
+                                                </div>
+                                                <div className="col-span-2 space-y-2">
+                                                    <Label htmlFor="asset-value">Valor</Label>
+                                                    <Input
+                                                        id="asset-value"
+                                                        type="number"
+                                                        step="any"
+                                                        min="0"
+                                                        value={form.value}
+                                                        onChange={(event) => setForm((previous) => ({ ...previous, value: event.target.value }))}
+                                                    />
+                                                </div>
+                                            </div>
+                                            <div className="space-y-2">
+                                                <Label htmlFor="asset-valued-at">Valuado el</Label>
+                                                <Input
+                                                    id="asset-valued-at"
+                                                    type="date"
+                                                    value={form.valued_at}
+                                                    onChange={(event) => setForm((previous) => ({ ...previous, valued_at: event.target.value }))}
+                                                />
+                                                <p className="text-xs text-muted-foreground">Vacío: hoy. Los valores en USD se convierten con la última cotización registrada.</p>
+                                            </div>
+                                        </>
+                                    )}
+                                    <div className="flex gap-2">
+                                        <Button type="button" className="flex-1" disabled={!canSave || isAdding || isUpdating || !isAvailable} onClick={() => void saveAsset()}>
+                                            {isAdding || isUpdating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                                            {editingId ? 'Guardar cambios' : 'Agregar'}
+                                        </Button>
+                                        {editingId ? (
+                                            <Button type="button" variant="outline" onClick={resetForm}>Cancelar</Button>
+                                        ) : null}
+                                    </div>
+                                </CardContent>
+                            </Card>
+
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle>Bienes</CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-2">
+                                    {assets.length === 0 ? (
+                                        <p className="text-sm text-muted-foreground">
+                                            Las <Link href="/dashboard/accounts" className="font-medium text-primary hover:underline">cuentas</Link> ya suman solas. Agregá inmuebles, vehículos o inversiones que no estén en una cuenta.
+                                        </p>
+                                    ) : assets.map((asset) => (
+                                        <div key={asset.id} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2 text-sm">
+                                            <div className="min-w-0">
+                                                <p className="truncate font-medium">{asset.name}</p>
+                                                <p className="text-xs text-muted-foreground">
+                                                    {ASSET_CLASS_LABELS[asset.asset_class]} •{' '}
+                                                    {asset.valuation_mode === 'account'
+                                                        ? `saldo de ${accounts.find((account) => account.id === asset.account_id)?.name || 'una cuenta eliminada'}`
+                                                        : `${formatMoneyIn(Number(asset.value) || 0, normalizeCurrency(asset.currency), 0)}${asset.valued_at ? ` al ${formatDate(asset.valued_at)}` : ''}`}
+                                                </p>
+                                            </div>
+                                            <span className="flex shrink-0 items-center">
+                                                <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => startEdit(asset)}>
+                                                    <Pencil className="h-4 w-4" />
+                                                </Button>
+                                                <Button
+                                                    type="button"
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    className="h-8 w-8"
+                                                    disabled={isDeleting}
+                                                    onClick={() => void deleteAsset(asset.id).then(() => { if (editingId === asset.id) resetForm(); }).catch(() => undefined)}
+                                                >
+                                                    <Trash2 className="h-4 w-4" />
+                                                </Button>
+                                            </span>
+                                        </div>
+                                    ))}
+                                </CardContent>
+                            </Card>
+                        </div>
+                    </div>
+                </>
+            ) : null}
+        </div>
+    );
+}
@@ -11,10 +11,12 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import {
     TrendingUp,
+    TrendingDown,
     Wallet,
     Plus,
     ArrowUpRight,
     ArrowDownLeft,
+    ArrowRightLeft,
     PieChart,
     Activity,
     AlertTriangle,
@@ -29,6 +31,8 @@ import {
     CreditCard,
     Repeat2,
     Loader2,
+    Layers,
+    PiggyBank,
 } from 'lucide-react';
 import { DashboardSkeleton } from '@/components/layout/dashboard-skeleton';
 import { cn } from '@/lib/utils';
@@ -42,11 +46,19 @@ import {
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
 import { Button } from '@/components/ui/button';
 import { useSpace } from '@/components/providers/space-provider';
+import { useReportingCurrency } from '@/hooks/use-reporting-currency';
+import { ReportingCurrencyToggle } from '@/components/finance/reporting-currency-toggle';
+import { buildSnapshotRateLookup, formatMoneyIn, normalizeCurrency, toReportingAmount, type MoneyRow } from '@/lib/currency';
+import { useAccounts } from '@/hooks/use-accounts';
+import { convertAccountBalance } from '@/lib/accounts';
+import { useInstallmentPlans } from '@/hooks/use-installments';
+import { useNetWorth } from '@/hooks/use-net-worth';
+import { CommittedInstallmentsCard } from '@/components/finance/committed-installments-card';
 
 const NET_WORTH_VISIBILITY_KEY = 'finansas-net-worth-visible';
 const DASHBOARD_WIDGETS_KEY = 'finansas-dashboard-widgets-v1';
 
-type DashboardWidgetId = 'hero' | 'quick_actions' | 'summary_cards' | 'insights' | 'agenda' | 'recent_activity';
+type DashboardWidgetId = 'hero' | 'quick_actions' | 'summary_cards' | 'insights' | 'agenda' | 'committed' | 'recent_activity';
 type DashboardWidgetState = { id: DashboardWidgetId; enabled: boolean };
 
 type CalendarPreviewItem =
@@ -78,6 +90,27 @@ type CalendarPreviewItem =
         type: 'income' | 'expense' | string;
         frequency: string;
         category: string | null;
+    }
+    | {
+        kind: 'installment';
+        id: string;
+        plan_id: string;
+        title: string;
+        amount: number;
+        currency: string;
+        due_date: string;
+        installment_number: number;
+        total_installments: number;
+    }
+    | {
+        kind: 'maturity';
+        id: string;
+        title: string;
+        amount: number;
+        currency: string;
+        due_date: string;
+        principal: number;
+        interest: number;
     };
 
 type CalendarPreviewResponse = {
@@ -89,15 +122,17 @@ const DEFAULT_DASHBOARD_WIDGETS: DashboardWidgetState[] = [
     { id: 'hero', enabled: true },
     { id: 'quick_actions', enabled: true },
     { id: 'agenda', enabled: true },
+    { id: 'committed', enabled: true },
     { id: 'summary_cards', enabled: true },
     { id: 'insights', enabled: true },
     { id: 'recent_activity', enabled: true },
 ];
 
 const DASHBOARD_WIDGET_META: Record<DashboardWidgetId, { label: string; description: string }> = {
-    hero: { label: 'Patrimonio', description: 'Tarjeta principal (balance neto).' },
+    hero: { label: 'Patrimonio', description: 'Tarjeta principal (patrimonio neto).' },
     quick_actions: { label: 'Acciones', description: 'Ingresar, gastar, adjuntar y auditoría.' },
     agenda: { label: 'Agenda', description: 'Próximos vencimientos y recurrencias.' },
+    committed: { label: 'Cuotas', description: 'Cuotas ya comprometidas por mes.' },
     summary_cards: { label: 'Resumen', description: 'Portfolio + gastos mensuales.' },
     insights: { label: 'Insights', description: 'KPIs semanales y recomendaciones.' },
     recent_activity: { label: 'Actividad', description: 'Últimos movimientos registrados.' },
@@ -167,22 +202,47 @@ export default function DashboardPage() {
     const [isNetWorthVisible, setIsNetWorthVisible] = useState(true);
     const [widgets, setWidgets] = useState<DashboardWidgetState[]>(DEFAULT_DASHBOARD_WIDGETS);
     const [isWidgetsOpen, setIsWidgetsOpen] = useState(false);
+    const { reportingCurrency, setReportingCurrency } = useReportingCurrency();
+    const { accounts } = useAccounts();
+    const installments = useInstallmentPlans();
+    const netWorth = useNetWorth(reportingCurrency, { withAssets: false });
+
+    // Amounts are converted with the FX snapshots stored on each movement, never with today's quote.
+    const rateLookup = useMemo(() => buildSnapshotRateLookup(transactions), [transactions]);
+    const toReporting = useMemo(
+        () => (row: MoneyRow) => toReportingAmount(row, reportingCurrency, rateLookup) ?? 0,
+        [rateLookup, reportingCurrency]
+    );
+
+    const accountBalances = useMemo(
+        () => accounts.map((account) => ({
+            ...account,
+            reportingBalance: convertAccountBalance(account.balance, normalizeCurrency(account.currency), reportingCurrency, rateLookup),
+        })),
+        [accounts, reportingCurrency, rateLookup]
+    );
 
     // Memoize expensive calculations
     const financialStats = useMemo(() => {
         const totalIncome = transactions
             .filter((t: any) => t.type === 'income')
-            .reduce((acc: number, t: any) => acc + t.amount, 0);
+            .reduce((acc: number, t: any) => acc + toReporting(t), 0);
 
         const totalExpenses = transactions
             .filter((t: any) => t.type === 'expense')
-            .reduce((acc: number, t: any) => acc + t.amount, 0);
+            .reduce((acc: number, t: any) => acc + toReporting(t), 0);
 
-        const totalDebt = debts.reduce((acc: number, d: any) => acc + d.total_amount, 0);
-        const balance = totalIncome - totalExpenses;
+        const totalDebt = debts.reduce(
+            (acc: number, d: any) => acc + toReporting({ ...d, amount: d.total_amount, date: d.next_payment_date }),
+            0
+        );
+        // Real balance is the sum of account balances (opening balances included); transfers cancel out.
+        const balance = accountBalances.length
+            ? accountBalances.reduce((acc, account) => acc + (account.reportingBalance ?? 0), 0)
+            : totalIncome - totalExpenses;
 
         return { totalIncome, totalExpenses, totalDebt, balance };
-    }, [transactions, debts]);
+    }, [transactions, debts, toReporting, accountBalances]);
 
     const weeklyInsights = useMemo(() => {
         const now = new Date();
@@ -202,17 +262,17 @@ export default function DashboardPage() {
 
         const currentWeekIncome = transactions
             .filter((t: any) => t.type === 'income' && inRange(t.date, startCurrent, today))
-            .reduce((acc: number, t: any) => acc + t.amount, 0);
+            .reduce((acc: number, t: any) => acc + toReporting(t), 0);
         const currentWeekExpense = transactions
             .filter((t: any) => t.type === 'expense' && inRange(t.date, startCurrent, today))
-            .reduce((acc: number, t: any) => acc + t.amount, 0);
+            .reduce((acc: number, t: any) => acc + toReporting(t), 0);
 
         const previousWeekIncome = transactions
             .filter((t: any) => t.type === 'income' && inRange(t.date, startPrevious, endPrevious))
-            .reduce((acc: number, t: any) => acc + t.amount, 0);
+            .reduce((acc: number, t: any) => acc + toReporting(t), 0);
         const previousWeekExpense = transactions
             .filter((t: any) => t.type === 'expense' && inRange(t.date, startPrevious, endPrevious))
-            .reduce((acc: number, t: any) => acc + t.amount, 0);
+            .reduce((acc: number, t: any) => acc + toReporting(t), 0);
 
         const currentNet = currentWeekIncome - currentWeekExpense;
         const previousNet = previousWeekIncome - previousWeekExpense;
@@ -245,7 +305,7 @@ export default function DashboardPage() {
             trend,
             recommendations,
         };
-    }, [transactions, budgets, recurringTransactions]);
+    }, [transactions, budgets, recurringTransactions, toReporting]);
 
     useEffect(() => {
         if (!activeSpaceId) return;
@@ -319,13 +379,7 @@ export default function DashboardPage() {
         });
     };
 
-    const formatCurrency = (amount: number) => {
-        return new Intl.NumberFormat('es-AR', {
-            style: 'currency',
-            currency: 'ARS',
-            minimumFractionDigits: 0,
-        }).format(amount);
-    };
+    const formatCurrency = (amount: number) => formatMoneyIn(amount, reportingCurrency, 0);
 
     const formatShortDate = (iso: string) => {
         const [year, month, day] = iso.split('-').map((p) => Number(p));
@@ -399,12 +453,17 @@ export default function DashboardPage() {
     }
 
     const { totalExpenses, totalDebt, balance } = financialStats;
+    // Accounts, assets and debts from the net worth engine; until it loads, accounts minus debts.
+    const netWorthTotal = netWorth.current?.net_worth ?? balance - totalDebt;
+    const netWorthChange = netWorth.change;
 
     const agendaItems = (calendarPreviewQuery.data?.items || []).slice(0, 5);
 
     const agendaIconFor = (item: CalendarPreviewItem) => {
         if (item.kind === 'recurring') return <Repeat2 className="h-5 w-5" />;
         if (item.kind === 'debt') return <CreditCard className="h-5 w-5" />;
+        if (item.kind === 'installment') return <Layers className="h-5 w-5" />;
+        if (item.kind === 'maturity') return <PiggyBank className="h-5 w-5" />;
         return <CalendarDays className="h-5 w-5" />;
     };
 
@@ -412,6 +471,7 @@ export default function DashboardPage() {
         if (item.kind === 'obligation' && item.status === 'overdue') return 'bg-red-500/10 text-red-500';
         if (item.kind === 'recurring') return 'bg-blue-500/10 text-blue-500';
         if (item.kind === 'debt') return 'bg-amber-500/10 text-amber-500';
+        if (item.kind === 'installment') return 'bg-violet-500/10 text-violet-500';
         return 'bg-emerald-500/10 text-emerald-500';
     };
 
@@ -422,6 +482,7 @@ export default function DashboardPage() {
                     <h1 className="text-2xl font-black tracking-tight">Inicio</h1>
                     <p className="text-sm text-muted-foreground">Personaliza tu dashboard y revisa vencimientos.</p>
                 </div>
+                <ReportingCurrencyToggle value={reportingCurrency} onChange={setReportingCurrency} className="ml-auto" />
                 <Button
                     type="button"
                     variant="outline"
@@ -453,13 +514,33 @@ export default function DashboardPage() {
                                 <p className="text-sm font-medium uppercase tracking-[0.2em] opacity-80">PATRIMONIO NETO TOTAL</p>
                                 <div className="flex items-baseline">
                                     <span className="text-6xl font-black tracking-tighter">
-                                        {isNetWorthVisible ? formatCurrency(balance - totalDebt).split(',')[0] : '$ ••••••'}
+                                        {isNetWorthVisible ? formatCurrency(netWorthTotal).split(',')[0] : '$ ••••••'}
                                     </span>
                                 </div>
-                                <div className="flex items-center gap-2 px-4 py-1.5 glass rounded-full text-xs font-bold">
-                                    <TrendingUp className="h-4 w-4" />
-                                    <span>+12.4% este mes</span>
-                                </div>
+                                <Link href="/dashboard/net-worth" className="flex items-center gap-2 px-4 py-1.5 glass rounded-full text-xs font-bold">
+                                    {netWorthChange && netWorthChange.delta < 0 ? <TrendingDown className="h-4 w-4" /> : <TrendingUp className="h-4 w-4" />}
+                                    <span>
+                                        {netWorthChange?.percent != null
+                                            ? `${netWorthChange.percent >= 0 ? '+' : ''}${netWorthChange.percent.toFixed(1)}% desde el cierre anterior`
+                                            : 'Ver evolución'}
+                                    </span>
+                                </Link>
+                                {accountBalances.length > 1 ? (
+                                    <div className="flex flex-wrap justify-center gap-2 pt-2">
+                                        {accountBalances.map((account) => (
+                                            <Link
+                                                key={account.id}
+                                                href="/dashboard/accounts"
+                                                className="rounded-full bg-white/10 px-3 py-1 text-xs font-semibold backdrop-blur transition hover:bg-white/20"
+                                            >
+                                                {account.name}:{' '}
+                                                {isNetWorthVisible
+                                                    ? formatMoneyIn(account.balance, normalizeCurrency(account.currency), 0)
+                                                    : '••••'}
+                                            </Link>
+                                        ))}
+                                    </div>
+                                ) : null}
                             </div>
 
                             <div className="absolute top-0 right-0 -translate-y-1/2 translate-x-1/2 w-64 h-64 bg-white/10 rounded-full blur-3xl" />
@@ -543,7 +624,7 @@ export default function DashboardPage() {
                                     <div className="space-y-2">
                                         {agendaItems.map((item) => (
                                             <div
-                                                key={`${item.kind}:${item.id}`}
+                                                key={`${item.kind}:${item.id}:${item.due_date}`}
                                                 className="flex items-center gap-3 rounded-2xl border border-white/[0.05] bg-white/[0.02] p-3"
                                             >
                                                 <div
@@ -558,16 +639,22 @@ export default function DashboardPage() {
                                                     <p className="truncate text-sm font-bold">{item.title}</p>
                                                     <p className="text-[11px] text-muted-foreground">
                                                         {formatShortDate(item.due_date)}
-                                                        {item.category ? ` • ${item.category}` : ''}
+                                                        {'category' in item && item.category ? ` • ${item.category}` : ''}
                                                         {item.kind === 'recurring' ? ` • ${item.frequency}` : ''}
                                                         {item.kind === 'debt' && item.remaining_installments != null
                                                             ? ` • ${item.remaining_installments} cuotas`
                                                             : ''}
+                                                        {item.kind === 'installment' ? ` • Cuota ${item.installment_number}/${item.total_installments}` : ''}
+                                                        {item.kind === 'maturity' ? ' • Vence plazo fijo' : ''}
                                                         {item.kind === 'obligation' && item.status === 'overdue' ? ' • Atrasado' : ''}
                                                     </p>
                                                 </div>
                                                 <div className="text-right">
-                                                    <p className="text-sm font-black">{formatCurrency(Number(item.amount || 0))}</p>
+                                                    <p className="text-sm font-black">
+                                                        {item.kind === 'installment' || item.kind === 'maturity'
+                                                            ? formatMoneyIn(Number(item.amount || 0), normalizeCurrency(item.currency))
+                                                            : formatCurrency(Number(item.amount || 0))}
+                                                    </p>
                                                     <p className="text-[10px] text-muted-foreground">Monto</p>
                                                 </div>
                                             </div>
@@ -579,6 +666,16 @@ export default function DashboardPage() {
                     </div>
                 ) : null}
 
+                {widgetEnabled('committed') ? (
+                    <div style={{ order: widgetOrder('committed') }} role="region" aria-label="Cuotas comprometidas">
+                        <CommittedInstallmentsCard
+                            committed={installments.committed}
+                            isLoading={installments.isLoading}
+                            className="glass-card rounded-[2rem] border-0"
+                        />
+                    </div>
+                ) : null}
+
                 {widgetEnabled('summary_cards') ? (
                     <div style={{ order: widgetOrder('summary_cards') }} role="region" aria-label="Resumen">
                         <div className="grid gap-6 md:grid-cols-2">
@@ -695,10 +792,14 @@ export default function DashboardPage() {
                                         <div
                                             className={cn(
                                                 'h-12 w-12 rounded-2xl flex items-center justify-center group-hover:scale-110 transition-transform',
-                                                t.type === 'income' ? 'bg-emerald-500/10 text-emerald-500' : 'bg-red-500/10 text-red-500'
+                                                t.type === 'income'
+                                                    ? 'bg-emerald-500/10 text-emerald-500'
+                                                    : t.type === 'transfer' ? 'bg-primary/10 text-primary' : 'bg-red-500/10 text-red-500'
                                             )}
                                         >
-                                            {t.type === 'income' ? <ArrowDownLeft className="h-6 w-6" /> : <ArrowUpRight className="h-6 w-6" />}
+                                            {t.type === 'income'
+                                                ? <ArrowDownLeft className="h-6 w-6" />
+                                                : t.type === 'transfer' ? <ArrowRightLeft className="h-6 w-6" /> : <ArrowUpRight className="h-6 w-6" />}
                                         </div>
                                         <div className="flex-1">
                                             <p className="font-bold text-sm">{t.description}</p>
@@ -707,7 +808,7 @@ export default function DashboardPage() {
                                         <div
                                             className={cn('text-sm font-black text-right', t.type === 'income' ? 'text-emerald-500' : 'text-foreground')}
                                         >
-                                            {t.type === 'income' ? '+' : '-'} {formatCurrency(t.amount)}
+                                            {t.type === 'income' ? '+' : t.type === 'transfer' ? '' : '-'} {formatCurrency(toReporting(t))}
                                         </div>
                                     </Card>
                                 ))}
@@ -0,0 +1,270 @@
+'use client';
+
+export const dynamic = 'force-dynamic';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useReconciliations } from '@/hooks/use-reconciliations';
+import { useAccounts } from '@/hooks/use-accounts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { formatMoneyIn, normalizeCurrency } from '@/lib/currency';
+import type { ReconciliationAccount, ReconciliationPlan } from '@/lib/reconciliation';
+import { CheckCheck, Loader2 } from 'lucide-react';
+
+const selectClassName = 'h-10 w-full rounded-md border border-input bg-background px-3 text-sm';
+
+function formatDate(value?: string | null) {
+    return value ? new Date(`${value}T00:00:00`).toLocaleDateString('es-AR', { dateStyle: 'medium' }) : 'sin fecha';
+}
+
+export default function ReconciliationPage() {
+    const { statements, reconciliations, isLoading, error, reconcile, isReconciling } = useReconciliations();
+    const { accounts } = useAccounts();
+    const [extractionId, setExtractionId] = useState('');
+    const [accountId, setAccountId] = useState('');
+    const [preview, setPreview] = useState<{ account: ReconciliationAccount; plan: ReconciliationPlan } | null>(null);
+    const [accepted, setAccepted] = useState<number[]>([]);
+    const [toCreate, setToCreate] = useState<number[]>([]);
+    const [fxRate, setFxRate] = useState('');
+
+    const selectedExtractionId = extractionId || statements[0]?.extraction_id || '';
+    const selectedAccountId = accountId
+        || accounts.find((account) => account.kind === 'bank')?.id
+        || accounts[0]?.id
+        || '';
+    const accountName = (id: string) => accounts.find((account) => account.id === id)?.name || 'Cuenta';
+    const currency = normalizeCurrency(preview?.account.currency);
+
+    const runPreview = async () => {
+        if (!selectedExtractionId || !selectedAccountId) return;
+        try {
+            const result = await reconcile({ extraction_id: selectedExtractionId, account_id: selectedAccountId, dry_run: true });
+            if (!result.dry_run) return;
+            setPreview({ account: result.account, plan: result.plan });
+            // Everything starts selected: the usual review only unticks the odd wrong match.
+            setAccepted(result.plan.matched.map((pair) => pair.entry.index));
+            setToCreate(result.plan.missing_in_app.map((entry) => entry.index));
+        } catch {
+            // toast handled in hook
+        }
+    };
+
+    const confirm = async () => {
+        if (!preview) return;
+        try {
+            await reconcile({
+                extraction_id: selectedExtractionId,
+                account_id: preview.account.id,
+                dry_run: false,
+                accept_entry_indexes: accepted,
+                create_entry_indexes: toCreate,
+                fx_rate: fxRate ? Number(fxRate) : null,
+            });
+            setPreview(null);
+        } catch {
+            // toast handled in hook
+        }
+    };
+
+    const toggle = (setter: typeof setAccepted, index: number) => {
+        setter((current) => (current.includes(index) ? current.filter((value) => value !== index) : [...current, index]));
+    };
+
+    const resetPreview = () => setPreview(null);
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h2 className="text-3xl font-bold tracking-tight">Conciliación</h2>
+                <p className="text-muted-foreground">
+                    Compará un extracto bancario procesado con los movimientos de una cuenta y marcala como conciliada.
+                </p>
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-3">
+                <div className="space-y-6 lg:col-span-2">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Extracto y cuenta</CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            {isLoading ? (
+                                <div className="flex justify-center p-8">
+                                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                                </div>
+                            ) : error ? (
+                                <p className="text-sm text-destructive">{error}</p>
+                            ) : statements.length === 0 ? (
+                                <p className="text-sm text-muted-foreground">
+                                    Todavía no hay extractos bancarios procesados. Subí uno desde{' '}
+                                    <Link href="/dashboard/copilot" className="font-medium text-primary hover:underline">Adjuntar documento</Link>.
+                                </p>
+                            ) : (
+                                <div className="grid gap-3 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+                                    <div className="space-y-2">
+                                        <Label htmlFor="reconciliation-statement">Extracto</Label>
+                                        <select
+                                            id="reconciliation-statement"
+                                            className={selectClassName}
+                                            value={selectedExtractionId}
+                                            onChange={(event) => { setExtractionId(event.target.value); resetPreview(); }}
+                                        >
+                                            {statements.map((statement) => (
+                                                <option key={statement.extraction_id} value={statement.extraction_id}>
+                                                    {[statement.issuer, statement.period_label].filter(Boolean).join(' ') || 'Extracto'}
+                                                    {` • cierre ${formatDate(statement.closing_date)} • ${statement.entries_count} líneas`}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label htmlFor="reconciliation-account">Cuenta</Label>
+                                        <select
+                                            id="reconciliation-account"
+                                            className={selectClassName}
+                                            value={selectedAccountId}
+                                            onChange={(event) => { setAccountId(event.target.value); resetPreview(); }}
+                                        >
+                                            {accounts.map((account) => (
+                                                <option key={account.id} value={account.id}>
+                                                    {account.name}
+                                                    {account.reconciled_through ? ` • conciliada al ${formatDate(account.reconciled_through)}` : ''}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <Button type="button" variant="outline" disabled={isReconciling || !selectedAccountId} onClick={() => void runPreview()}>
+                                        {isReconciling && !preview ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                                        Comparar
+                                    </Button>
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+
+                    {preview ? (
+                        <Card>
+                            <CardHeader>
+                                <CardTitle>
+                                    {preview.account.name}: {formatDate(preview.plan.period_start)} al {formatDate(preview.plan.closing_date)}
+                                </CardTitle>
+                                <p className="text-sm text-muted-foreground">
+                                    {preview.plan.entries.length} líneas del extracto • {preview.plan.matched.length} coinciden •{' '}
+                                    {preview.plan.missing_in_app.length} faltan en la app • {preview.plan.missing_in_bank.length} faltan en el banco
+                                </p>
+                            </CardHeader>
+                            <CardContent className="space-y-6">
+                                <section className="space-y-2">
+                                    <p className="text-sm font-semibold">Coinciden</p>
+                                    {preview.plan.matched.length ? preview.plan.matched.map((pair) => (
+                                        <label key={pair.entry.index} className="flex items-start gap-3 rounded-lg border p-3 text-sm">
+                                            <input
+                                                type="checkbox"
+                                                className="mt-1 h-4 w-4"
+                                                checked={accepted.includes(pair.entry.index)}
+                                                onChange={() => toggle(setAccepted, pair.entry.index)}
+                                            />
+                                            <div className="flex-1">
+                                                <div className="flex items-center justify-between gap-2">
+                                                    <p className="font-medium">{pair.entry.description}</p>
+                                                    <p className={pair.entry.type === 'income' ? 'text-emerald-500' : 'text-red-500'}>
+                                                        {pair.entry.type === 'income' ? '+' : '-'}{formatMoneyIn(pair.entry.amount, currency)}
+                                                    </p>
+                                                </div>
+                                                <p className="text-xs text-muted-foreground">
+                                                    Banco {formatDate(pair.entry.date)} ↔ App {formatDate(pair.transaction.date)}: {pair.transaction.description}
+                                                    {' '}({Math.round(pair.score * 100)}%)
+                                                </p>
+                                            </div>
+                                        </label>
+                                    )) : <p className="text-xs text-muted-foreground">Ninguna línea coincide con movimientos cargados.</p>}
+                                </section>
+
+                                <section className="space-y-2">
+                                    <p className="text-sm font-semibold">Falta en la app</p>
+                                    {preview.plan.missing_in_app.length ? preview.plan.missing_in_app.map((entry) => (
+                                        <label key={entry.index} className="flex items-start gap-3 rounded-lg border p-3 text-sm">
+                                            <input
+                                                type="checkbox"
+                                                className="mt-1 h-4 w-4"
+                                                checked={toCreate.includes(entry.index)}
+                                                onChange={() => toggle(setToCreate, entry.index)}
+                                            />
+                                            <div className="flex flex-1 items-center justify-between gap-2">
+                                                <div>
+                                                    <p className="font-medium">{entry.description}</p>
+                                                    <p className="text-xs text-muted-foreground">{formatDate(entry.date)} • se crea{entry.category ? ` en ${entry.category}` : ''}</p>
+                                                </div>
+                                                <p className={entry.type === 'income' ? 'text-emerald-500' : 'text-red-500'}>
+                                                    {entry.type === 'income' ? '+' : '-'}{formatMoneyIn(entry.amount, currency)}
+                                                </p>
+                                            </div>
+                                        </label>
+                                    )) : <p className="text-xs text-muted-foreground">Todas las líneas del extracto están cargadas.</p>}
+                                    {currency === 'USD' && toCreate.length ? (
+                                        <div className="max-w-xs space-y-2">
+                                            <Label htmlFor="reconciliation-fx-rate">Tipo de cambio para los nuevos movimientos</Label>
+                                            <Input id="reconciliation-fx-rate" type="number" step="0.01" placeholder="ARS por USD" value={fxRate} onChange={(event) => setFxRate(event.target.value)} />
+                                        </div>
+                                    ) : null}
+                                </section>
+
+                                <section className="space-y-2">
+                                    <p className="text-sm font-semibold">Falta en el banco</p>
+                                    <p className="text-xs text-muted-foreground">
+                                        Movimientos de la cuenta en el período que el extracto no muestra: pueden no haber impactado todavía o estar duplicados.
+                                    </p>
+                                    {preview.plan.missing_in_bank.length ? preview.plan.missing_in_bank.map((row) => (
+                                        <div key={row.id} className="flex items-center justify-between gap-2 rounded-lg border border-dashed p-3 text-sm">
+                                            <div>
+                                                <p className="font-medium">{row.description}</p>
+                                                <p className="text-xs text-muted-foreground">{formatDate(row.date)} • {row.category || 'Sin categoría'}</p>
+                                            </div>
+                                            <p>{formatMoneyIn(Number(row.original_amount ?? row.amount) || 0, currency)}</p>
+                                        </div>
+                                    )) : <p className="text-xs text-muted-foreground">Nada pendiente del lado del banco.</p>}
+                                </section>
+
+                                <div className="flex gap-2">
+                                    <Button type="button" disabled={isReconciling || !preview.plan.closing_date} onClick={() => void confirm()}>
+                                        {isReconciling ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCheck className="mr-2 h-4 w-4" />}
+                                        Conciliar hasta el {formatDate(preview.plan.closing_date)}
+                                    </Button>
+                                    <Button type="button" variant="ghost" disabled={isReconciling} onClick={resetPreview}>
+                                        Cancelar
+                                    </Button>
+                                </div>
+                            </CardContent>
+                        </Card>
+                    ) : null}
+                </div>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Historial</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        {reconciliations.length ? (
+                            <div className="space-y-3">
+                                {reconciliations.map((item) => (
+                                    <div key={item.id} className="rounded-lg border p-3 text-sm">
+                                        <p className="font-medium">{accountName(item.account_id)}</p>
+                                        <p className="text-xs text-muted-foreground">
+                                            Hasta el {formatDate(item.closing_date)} • {item.matched_count} confirmados • {item.created_count} creados
+                                            {item.missing_in_bank_count ? ` • ${item.missing_in_bank_count} sin impactar` : ''}
+                                        </p>
+                                    </div>
+                                ))}
+                            </div>
+                        ) : (
+                            <p className="py-8 text-center text-sm text-muted-foreground">Todavía no conciliaste ninguna cuenta.</p>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+        </div>
+    );
+}
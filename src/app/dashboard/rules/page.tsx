@@ -0,0 +1,171 @@
+'use client';
+
+export const dynamic = 'force-dynamic';
+
+import { useState } from 'react';
+import { useCategoryRules } from '@/hooks/use-category-rules';
+import { useAccounts } from '@/hooks/use-accounts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { CategoryRuleForm } from '@/components/transactions/category-rule-form';
+import { RuleReapplyCard } from '@/components/transactions/rule-reapply-card';
+import { formatMoneyIn } from '@/lib/currency';
+import type { CategoryRule } from '@/lib/category-rules';
+import { ArrowDown, ArrowUp, Loader2, Pause, Play, Trash2, Wand2 } from 'lucide-react';
+
+const TYPE_LABELS: Record<string, string> = {
+    income: 'ingresos',
+    expense: 'gastos',
+};
+
+export default function RulesPage() {
+    const { rules, isLoading, error, updateRule, deleteRule, isUpdating, isDeleting } = useCategoryRules();
+    const { accounts } = useAccounts({ includeArchived: true });
+    const [targetRuleId, setTargetRuleId] = useState<string | null>(null);
+
+    const accountName = (id?: string | null) => accounts.find((account) => account.id === id)?.name || 'cuenta';
+
+    const runOnRule = async (ruleId: string, action: () => Promise<unknown>) => {
+        try {
+            setTargetRuleId(ruleId);
+            await action();
+        } catch {
+            // toast handled in hook
+        } finally {
+            setTargetRuleId(null);
+        }
+    };
+
+    // Swapping priorities with the neighbour keeps the rest of the order untouched.
+    const move = (index: number, offset: -1 | 1) => {
+        const rule = rules[index];
+        const neighbour = rules[index + offset];
+        if (!rule || !neighbour) return;
+        const rulePriority = neighbour.priority === rule.priority ? rule.priority + offset : neighbour.priority;
+
+        void runOnRule(rule.id, async () => {
+            await updateRule({ ruleId: rule.id, changes: { priority: rulePriority } });
+            await updateRule({ ruleId: neighbour.id, changes: { priority: rule.priority } });
+        });
+    };
+
+    const handleDelete = (rule: CategoryRule) => {
+        const approved = window.confirm(`¿Seguro que quieres eliminar la regla "${rule.name}"?`);
+        if (!approved) return;
+        void runOnRule(rule.id, () => deleteRule(rule.id));
+    };
+
+    const describeConditions = (rule: CategoryRule) => {
+        const parts: string[] = [];
+        if (rule.description_pattern) parts.push(`descripción /${rule.description_pattern}/`);
+        if (rule.transaction_type) parts.push(`solo ${TYPE_LABELS[rule.transaction_type]}`);
+        if (rule.account_id) parts.push(`en ${accountName(rule.account_id)}`);
+        if (rule.amount_min != null) parts.push(`desde ${formatMoneyIn(Number(rule.amount_min), 'ARS')}`);
+        if (rule.amount_max != null) parts.push(`hasta ${formatMoneyIn(Number(rule.amount_max), 'ARS')}`);
+        return parts.length ? parts.join(' • ') : 'Todos los movimientos';
+    };
+
+    const describeActions = (rule: CategoryRule) => {
+        const parts: string[] = [];
+        if (rule.transfer_account_id) parts.push(`Transferencia con ${accountName(rule.transfer_account_id)}`);
+        else if (rule.set_category) parts.push(`Categoría ${rule.set_category}`);
+        if (rule.set_tags?.length) parts.push(`#${rule.set_tags.join(' #')}`);
+        return parts.join(' • ');
+    };
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h2 className="text-3xl font-bold tracking-tight">Reglas</h2>
+                <p className="text-muted-foreground">
+                    Categorizan automáticamente lo que cargás, importás, registrás desde documentos y las recurrencias.
+                </p>
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-3">
+                <div className="space-y-6 lg:col-span-2">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Mis reglas ({rules.length})</CardTitle>
+                            <p className="text-sm text-muted-foreground">
+                                Se evalúan de arriba hacia abajo: la primera que asigna categoría gana y las etiquetas se suman.
+                            </p>
+                        </CardHeader>
+                        <CardContent>
+                            {isLoading ? (
+                                <div className="flex justify-center p-8">
+                                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                                </div>
+                            ) : error ? (
+                                <p className="text-sm text-destructive">{error}</p>
+                            ) : rules.length > 0 ? (
+                                <div className="space-y-3">
+                                    {rules.map((rule, index) => {
+                                        const isBusy = targetRuleId === rule.id && (isUpdating || isDeleting);
+
+                                        return (
+                                            <div key={rule.id} className={`flex items-center justify-between gap-3 rounded-lg border p-3 ${rule.is_active ? '' : 'opacity-60'}`}>
+                                                <div className="flex items-center gap-3">
+                                                    <div className="rounded-full bg-primary/10 p-2 text-primary">
+                                                        <Wand2 className="h-4 w-4" />
+                                                    </div>
+                                                    <div>
+                                                        <p className="flex items-center gap-2 font-medium">
+                                                            {rule.name}
+                                                            {!rule.is_active && (
+                                                                <span className="rounded-full bg-muted px-2 py-0.5 text-[10px] font-bold uppercase text-muted-foreground">Pausada</span>
+                                                            )}
+                                                        </p>
+                                                        <p className="text-xs text-muted-foreground">{describeConditions(rule)}</p>
+                                                        <p className="text-xs font-medium">{describeActions(rule)}</p>
+                                                    </div>
+                                                </div>
+
+                                                <div className="flex items-center gap-1">
+                                                    <Button type="button" variant="ghost" size="icon" className="h-8 w-8" title="Subir prioridad" disabled={isBusy || index === 0} onClick={() => move(index, -1)}>
+                                                        <ArrowUp className="h-4 w-4" />
+                                                    </Button>
+                                                    <Button type="button" variant="ghost" size="icon" className="h-8 w-8" title="Bajar prioridad" disabled={isBusy || index === rules.length - 1} onClick={() => move(index, 1)}>
+                                                        <ArrowDown className="h-4 w-4" />
+                                                    </Button>
+                                                    <Button
+                                                        type="button"
+                                                        variant="ghost"
+                                                        size="icon"
+                                                        className="h-8 w-8"
+                                                        title={rule.is_active ? 'Pausar regla' : 'Activar regla'}
+                                                        disabled={isBusy}
+                                                        onClick={() => runOnRule(rule.id, () => updateRule({ ruleId: rule.id, changes: { is_active: !rule.is_active } }))}
+                                                    >
+                                                        {rule.is_active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                                                    </Button>
+                                                    <Button
+                                                        type="button"
+                                                        variant="ghost"
+                                                        size="icon"
+                                                        className="h-8 w-8 text-destructive hover:text-destructive"
+                                                        title="Eliminar regla"
+                                                        disabled={isBusy}
+                                                        onClick={() => handleDelete(rule)}
+                                                    >
+                                                        {isBusy && isDeleting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                                                    </Button>
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            ) : (
+                                <p className="py-8 text-center text-sm text-muted-foreground">Todavía no hay reglas.</p>
+                            )}
+                        </CardContent>
+                    </Card>
+
+                    <RuleReapplyCard />
+                </div>
+
+                <CategoryRuleForm />
+            </div>
+        </div>
+    );
+}
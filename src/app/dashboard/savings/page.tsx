@@ -5,10 +5,12 @@ export const dynamic = 'force-dynamic';
 import React, { FormEvent, useState } from 'react';
 import { SavingsGoal, SavingsGoalInput } from '@/lib/schemas';
 import { useFinance } from '@/hooks/use-finance';
+import type { GoalProjection } from '@/lib/goals';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { SavingsForm } from '@/components/finance/savings-form';
-import { Loader2, PiggyBank, Calendar, Pencil, Trash2, Save, X } from 'lucide-react';
+import { GoalLedgerPanel } from '@/components/finance/goal-ledger-panel';
+import { Loader2, PiggyBank, Calendar, Pencil, Trash2, Save, X, ListOrdered, TrendingUp } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { toast } from 'sonner';
@@ -40,6 +42,17 @@ function toGoalInput(goal: SavingsGoal): SavingsGoalInput {
     };
 }
 
+const PROJECTION_STATUS_STYLES: Record<GoalProjection['status'], { label: string; className: string }> = {
+    completed: { label: 'Cumplida', className: 'bg-emerald-500/10 text-emerald-600' },
+    on_track: { label: 'En camino', className: 'bg-emerald-500/10 text-emerald-600' },
+    behind: { label: 'Atrasada', className: 'bg-amber-500/10 text-amber-600' },
+    no_pace: { label: 'Sin aportes recientes', className: 'bg-muted text-muted-foreground' },
+};
+
+function formatIsoDate(isoDate: string) {
+    return new Date(`${isoDate}T00:00:00`).toLocaleDateString('es-AR');
+}
+
 export default function SavingsPage() {
     const {
         savingsGoals,
@@ -52,6 +65,7 @@ export default function SavingsPage() {
     } = useFinance();
 
     const [editingGoalId, setEditingGoalId] = useState<string | null>(null);
+    const [openLedgerId, setOpenLedgerId] = useState<string | null>(null);
     const [targetGoalId, setTargetGoalId] = useState<string | null>(null);
     const [editForm, setEditForm] = useState<SavingsGoalInput>(emptyGoalInput);
 
@@ -140,6 +154,8 @@ export default function SavingsPage() {
                                     const isEditing = editingGoalId === goal.id;
                                     const isTargeting = targetGoalId === goal.id;
                                     const isMutating = isTargeting && (isUpdatingGoal || isDeletingGoal);
+                                    const projection = goal.projection;
+                                    const status = projection ? PROJECTION_STATUS_STYLES[projection.status] : null;
 
                                     return (
                                         <div key={goal.id} className="p-4 border rounded-xl space-y-4 bg-card hover:shadow-md transition-shadow">
@@ -173,7 +189,37 @@ export default function SavingsPage() {
                                                 </div>
                                             )}
 
-                                            <div className="flex items-center gap-2">
+                                            {projection && status && (
+                                                <div className="space-y-1 text-xs text-muted-foreground">
+                                                    <div className="flex items-center justify-between gap-2">
+                                                        <span className="flex items-center gap-2">
+                                                            <TrendingUp className="w-3 h-3" />
+                                                            {projection.monthly_pace > 0
+                                                                ? `Ritmo: ${formatCurrency(projection.monthly_pace)}/mes`
+                                                                : 'Sin aportes en los últimos 90 días'}
+                                                        </span>
+                                                        <span className={`rounded-full px-2 py-0.5 font-medium ${status.className}`}>{status.label}</span>
+                                                    </div>
+                                                    {projection.projected_date && (
+                                                        <p>A este ritmo la completás el {formatIsoDate(projection.projected_date)}.</p>
+                                                    )}
+                                                    {projection.required_monthly != null && projection.status !== 'on_track' && (
+                                                        <p>Para llegar a la fecha límite necesitás {formatCurrency(projection.required_monthly)}/mes.</p>
+                                                    )}
+                                                </div>
+                                            )}
+
+                                            <div className="flex flex-wrap items-center gap-2">
+                                                <Button
+                                                    type="button"
+                                                    variant="outline"
+                                                    size="sm"
+                                                    onClick={() => setOpenLedgerId(openLedgerId === goal.id ? null : goal.id ?? null)}
+                                                    disabled={!goal.id}
+                                                >
+                                                    <ListOrdered className="w-4 h-4 mr-2" />
+                                                    Aportes
+                                                </Button>
                                                 <Button
                                                     type="button"
                                                     variant="outline"
@@ -201,6 +247,15 @@ export default function SavingsPage() {
                                                 </Button>
                                             </div>
 
+                                            {openLedgerId === goal.id && goal.id && (
+                                                <GoalLedgerPanel
+                                                    goalId={goal.id}
+                                                    goalName={goal.name}
+                                                    targetAmount={Number(goal.target_amount)}
+                                                    color={goal.color}
+                                                />
+                                            )}
+
                                             {isEditing && (
                                                 <form onSubmit={handleSaveEdit} className="grid gap-3 border-t pt-4 md:grid-cols-2">
                                                     <Input
@@ -2,8 +2,11 @@
 
 export const dynamic = 'force-dynamic';
 
-import { FormEvent, useState } from 'react';
+import { FormEvent, useMemo, useState } from 'react';
 import { useTransactions } from '@/hooks/use-transactions';
+import { useCategories } from '@/hooks/use-categories';
+import { useRealTerms } from '@/hooks/use-real-terms';
+import { DeflatorNote, RealTermsToggle } from '@/components/finance/real-terms-toggle';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { TransactionForm } from '@/components/transactions/transaction-form';
 import { Loader2, RefreshCcw, Pencil, Trash2, Save, X } from 'lucide-react';
@@ -15,11 +18,16 @@ import { cn } from '@/lib/utils';
 import Link from 'next/link';
 import { Input } from '@/components/ui/input';
 import { BudgetInput, RecurringTransactionInput } from '@/lib/schemas';
+import { describeRecurrence, resolveRecurrence } from '@/lib/recurrence';
+import { createCategoryLineage, normalizeCategoryName } from '@/lib/categories';
+import { expandSplitRows } from '@/lib/splits';
+import { realSpendingByMonth } from '@/lib/inflation';
 import { toast } from 'sonner';
 
 type EnrichedBudget = BudgetInput & {
     id?: string;
     spent: number;
+    missingRates: number;
     remaining: number;
     usage: number;
     isAlert: boolean;
@@ -34,6 +42,14 @@ function currentMonth() {
     return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
 }
 
+function previousMonth(month: string) {
+    const [year, monthPart] = month.split('-').map(Number);
+    const date = new Date(Date.UTC(year, monthPart - 2, 1));
+    return date.toISOString().slice(0, 7);
+}
+
+const arsFormatter = new Intl.NumberFormat('es-AR', { style: 'currency', currency: 'ARS' });
+
 const emptyBudgetInput: BudgetInput = {
     category: '',
     month: currentMonth(),
@@ -72,6 +88,31 @@ export default function TransactionsPage() {
         isUpdatingRecurring,
         isDeletingRecurring,
     } = usePlanning(currentMonth());
+    const { categories } = useCategories();
+    const { settings: realTerms, setSettings: setRealTerms, deflator, isUnavailable } = useRealTerms();
+
+    // In real terms each budget is also compared with the same category last month, both in pesos of the base month.
+    const realSpending = useMemo(() => {
+        if (!deflator) return null;
+        const expenseLines = transactions
+            .filter((transaction) => transaction.type === 'expense')
+            .flatMap((transaction) => expandSplitRows(transaction));
+        return realSpendingByMonth(expenseLines, deflator, createCategoryLineage(categories));
+    }, [transactions, categories, deflator]);
+    const budgetMonths = (budgets as EnrichedBudget[]).flatMap((budget) => [previousMonth(budget.month), budget.month]);
+
+    const realBudget = (budget: EnrichedBudget) => {
+        if (!deflator || !realSpending) return null;
+        const factor = deflator.factorFor(`${budget.month}-01`) ?? 1;
+        const spent = budget.spent * factor;
+        const previous = realSpending.get(`${previousMonth(budget.month)}|${normalizeCategoryName(budget.category)}`) || 0;
+        return {
+            spent,
+            limit: budget.limit_amount * factor,
+            previous,
+            change: previous > 0 ? ((spent - previous) / previous) * 100 : null,
+        };
+    };
 
     const [editingBudgetId, setEditingBudgetId] = useState<string | null>(null);
     const [targetBudgetId, setTargetBudgetId] = useState<string | null>(null);
@@ -145,6 +186,8 @@ export default function TransactionsPage() {
             description: String(rule.description || ''),
             category: String(rule.category || ''),
             frequency: rule.frequency,
+            // Sent back untouched so saving other fields keeps a custom recurrence.
+            recurrence: rule.recurrence ?? undefined,
             start_date: String(rule.start_date || new Date().toISOString().split('T')[0]),
             next_run: String(rule.next_run || rule.start_date || new Date().toISOString().split('T')[0]),
             is_active: Boolean(rule.is_active),
@@ -230,8 +273,8 @@ export default function TransactionsPage() {
                                             <p className="font-medium break-words">{transaction.description}</p>
                                             <p className="text-xs text-muted-foreground break-words">{transaction.category} • {transaction.date}</p>
                                         </div>
-                                        <p className={`shrink-0 font-bold ${transaction.type === 'income' ? 'text-emerald-500' : 'text-red-500'}`}>
-                                            {transaction.type === 'income' ? '+' : '-'} {new Intl.NumberFormat('es-AR', { style: 'currency', currency: 'ARS' }).format(transaction.amount)}
+                                        <p className={`shrink-0 font-bold ${transaction.type === 'income' ? 'text-emerald-500' : transaction.type === 'transfer' ? 'text-sky-500' : 'text-red-500'}`}>
+                                            {transaction.type === 'income' ? '+' : transaction.type === 'transfer' ? '' : '-'} {new Intl.NumberFormat('es-AR', { style: 'currency', currency: 'ARS' }).format(transaction.amount)}
                                         </p>
                                     </div>
                                 ))}
@@ -268,7 +311,8 @@ export default function TransactionsPage() {
                                                 <div>
                                                     <p className="font-medium">{rule.description}</p>
                                                     <p className="text-xs text-muted-foreground">
-                                                        {rule.category} • {rule.frequency} • próximo: {rule.next_run}
+                                                        {rule.category} • {describeRecurrence(resolveRecurrence(rule))} • próximo: {rule.next_run}
+                                                        {rule.is_active ? '' : ' • finalizada'}
                                                     </p>
                                                 </div>
                                                 <div className="flex items-center gap-2">
@@ -333,15 +377,21 @@ export default function TransactionsPage() {
                                                         <option value="expense">Gasto</option>
                                                         <option value="income">Ingreso</option>
                                                     </select>
-                                                    <select
-                                                        value={recurringEditForm.frequency}
-                                                        onChange={(event) => setRecurringEditForm((prev) => ({ ...prev, frequency: event.target.value as 'weekly' | 'biweekly' | 'monthly' }))}
-                                                        className="h-10 rounded-md border border-input bg-background px-3 text-sm"
-                                                    >
-                                                        <option value="weekly">Semanal</option>
-                                                        <option value="biweekly">Quincenal</option>
-                                                        <option value="monthly">Mensual</option>
-                                                    </select>
+                                                    {recurringEditForm.recurrence ? (
+                                                        <p className="flex h-10 items-center text-xs text-muted-foreground">
+                                                            {describeRecurrence(recurringEditForm.recurrence)}
+                                                        </p>
+                                                    ) : (
+                                                        <select
+                                                            value={recurringEditForm.frequency}
+                                                            onChange={(event) => setRecurringEditForm((prev) => ({ ...prev, frequency: event.target.value as 'weekly' | 'biweekly' | 'monthly' }))}
+                                                            className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+                                                        >
+                                                            <option value="weekly">Semanal</option>
+                                                            <option value="biweekly">Quincenal</option>
+                                                            <option value="monthly">Mensual</option>
+                                                        </select>
+                                                    )}
                                                     <div className="md:col-span-2 flex gap-2">
                                                         <Button type="submit" size="sm" disabled={isMutating}>
                                                             {isMutating && isUpdatingRecurring ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
@@ -369,8 +419,12 @@ export default function TransactionsPage() {
             <div className="grid gap-6 md:grid-cols-2">
                 <BudgetForm />
                 <Card>
-                    <CardHeader>
-                        <CardTitle>Presupuestos del Mes</CardTitle>
+                    <CardHeader className="space-y-3">
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                            <CardTitle>Presupuestos del Mes</CardTitle>
+                            <RealTermsToggle settings={realTerms} onChange={setRealTerms} deflator={deflator} />
+                        </div>
+                        <DeflatorNote settings={realTerms} deflator={deflator} months={budgetMonths} isUnavailable={isUnavailable} />
                     </CardHeader>
                     <CardContent>
                         {isLoadingBudgets ? (
@@ -383,6 +437,7 @@ export default function TransactionsPage() {
                                     const isEditing = editingBudgetId === budget.id;
                                     const isTargeting = targetBudgetId === budget.id;
                                     const isMutating = isTargeting && (isUpdatingBudget || isDeletingBudget);
+                                    const real = realBudget(budget);
 
                                     return (
                                         <div key={budget.id} className="space-y-2 border-b pb-3">
@@ -419,10 +474,22 @@ export default function TransactionsPage() {
                                                 </div>
                                             </div>
                                             <p className="text-xs text-muted-foreground">
-                                                Gastado {new Intl.NumberFormat('es-AR', { style: 'currency', currency: 'ARS' }).format(budget.spent)}
+                                                Gastado {arsFormatter.format(budget.spent)}
                                                 {' '}de{' '}
-                                                {new Intl.NumberFormat('es-AR', { style: 'currency', currency: 'ARS' }).format(budget.limit_amount)}
+                                                {arsFormatter.format(budget.limit_amount)}
                                             </p>
+                                            {budget.missingRates > 0 ? (
+                                                <p className="text-xs text-amber-600">
+                                                    {budget.missingRates} {budget.missingRates === 1 ? 'movimiento' : 'movimientos'} sin cotización: el gastado puede estar incompleto.
+                                                </p>
+                                            ) : null}
+                                            {real ? (
+                                                <p className="text-xs text-muted-foreground">
+                                                    Real: {arsFormatter.format(real.spent)} de {arsFormatter.format(real.limit)}
+                                                    {' • '}mes anterior {arsFormatter.format(real.previous)}
+                                                    {real.change != null ? ` (${real.change >= 0 ? '+' : ''}${real.change.toFixed(1)}%)` : ''}
+                                                </p>
+                                            ) : null}
 
                                             {isEditing && (
                                                 <form onSubmit={handleSaveBudget} className="grid gap-2 rounded-md border p-3 md:grid-cols-2">
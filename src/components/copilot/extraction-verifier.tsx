@@ -1,7 +1,7 @@
 
 'use client';
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -9,6 +9,9 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
+import { ReceiptVerifier, type ReceiptConfirmation } from '@/components/copilot/receipt-verifier';
+import { receiptItemsFromExtraction } from '@/lib/receipts';
+import { cardRatesFromExtraction, financingWarning } from '@/lib/card-financing';
 import { CheckCircle2, AlertTriangle, Calendar } from 'lucide-react';
 
 function parseMoney(value: unknown) {
@@ -83,10 +86,16 @@ type VerificationFormValues = z.infer<typeof verificationSchema>;
 interface ExtractionVerifierProps {
     data: any;
     onConfirm: (data: VerificationFormValues) => void;
+    // Receipt mode: the line items become one expense split by category.
+    onConfirmReceipt?: (payload: ReceiptConfirmation) => Promise<void> | void;
     onCancel: () => void;
 }
 
-export function ExtractionVerifier({ data, onConfirm, onCancel }: ExtractionVerifierProps) {
+export function ExtractionVerifier({ data, onConfirm, onConfirmReceipt, onCancel }: ExtractionVerifierProps) {
+    const canUseReceiptMode = Boolean(onConfirmReceipt) && data?.type !== 'credit_card' && receiptItemsFromExtraction(data).length > 0;
+    // Tickets usually come back as "other"; invoices keep the obligation flow unless the user switches.
+    const [mode, setMode] = useState<'obligation' | 'receipt'>(canUseReceiptMode && data?.type === 'other' ? 'receipt' : 'obligation');
+
     const extractedIssuer = typeof data?.issuer === 'string' ? data.issuer.trim() : '';
     const extractedBrand = typeof data?.card_brand === 'string' ? data.card_brand.trim() : '';
     const extractedPeriod = typeof data?.period_label === 'string' ? data.period_label.trim() : '';
@@ -139,10 +148,31 @@ export function ExtractionVerifier({ data, onConfirm, onCancel }: ExtractionVeri
         }
     }, [markPaid, observedAmount, observedMinimum, observedPaymentAmount, setValue]);
 
+    // Paying a card statement only in part finances the rest: estimate it before the payment is confirmed.
+    const paymentAmountValue = parseMoney(observedPaymentAmount);
+    const paymentWarning = markPaid && data?.type === 'credit_card' && paymentAmountValue && paymentAmountValue > 0
+        ? financingWarning({
+            balance: parseMoney(observedAmount) ?? 0,
+            minimum_payment: parseMoney(observedMinimum) ?? null,
+            rates: cardRatesFromExtraction(data),
+        }, paymentAmountValue)
+        : null;
+
     const onSubmit = (formData: VerificationFormValues) => {
         onConfirm(formData);
     };
 
+    if (mode === 'receipt' && canUseReceiptMode && onConfirmReceipt) {
+        return (
+            <ReceiptVerifier
+                data={data}
+                onConfirm={onConfirmReceipt}
+                onCancel={onCancel}
+                onSwitchMode={() => setMode('obligation')}
+            />
+        );
+    }
+
     return (
         <Card className="w-full max-w-2xl mx-auto border-l-4 border-l-primary shadow-lg">
             <CardHeader>
@@ -153,6 +183,11 @@ export function ExtractionVerifier({ data, onConfirm, onCancel }: ExtractionVeri
                 <p className="text-sm text-muted-foreground">
                     La IA analizó tu documento. Confirma que todo esté correcto antes de guardar.
                 </p>
+                {canUseReceiptMode ? (
+                    <button type="button" className="self-start text-xs font-medium text-primary hover:underline" onClick={() => setMode('receipt')}>
+                        Registrar como gasto con el detalle del ticket
+                    </button>
+                ) : null}
             </CardHeader>
             <CardContent>
                 {data?.type === 'credit_card' && (
@@ -294,6 +329,11 @@ export function ExtractionVerifier({ data, onConfirm, onCancel }: ExtractionVeri
                                         ) : null}
                                     </div>
                                     {errors.payment_amount && <p className="text-destructive text-xs">{errors.payment_amount.message}</p>}
+                                    {paymentWarning && (
+                                        <p className={`rounded-lg border p-3 text-xs ${paymentWarning.below_minimum ? 'border-destructive/40 text-destructive' : 'border-amber-500/40 text-amber-500'}`}>
+                                            {paymentWarning.message}
+                                        </p>
+                                    )}
                                 </div>
 
                                 <div className="space-y-2">
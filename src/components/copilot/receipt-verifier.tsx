@@ -0,0 +1,260 @@
+'use client';
+
+import { FormEvent, useEffect, useMemo, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { CategoryOptions } from '@/components/finance/category-options';
+import { useAccounts } from '@/hooks/use-accounts';
+import { useCategoryRules } from '@/hooks/use-category-rules';
+import { formatMoneyIn } from '@/lib/currency';
+import { MAX_SPLIT_LINES } from '@/lib/splits';
+import { categorizeReceiptItems, receiptItemsFromExtraction, receiptTotal, type ReceiptLine } from '@/lib/receipts';
+import { AlertTriangle, Loader2, Plus, Receipt, Trash2 } from 'lucide-react';
+
+const selectClassName = 'h-10 w-full rounded-md border border-input bg-background px-3 text-sm';
+
+type ReceiptLineDraft = {
+    description: string;
+    category: string;
+    amount: string;
+};
+
+export type ReceiptConfirmation = {
+    merchant: string;
+    date: string;
+    currency: 'ARS' | 'USD';
+    fx_rate: number | null;
+    account_id: string | null;
+    items: ReceiptLine[];
+};
+
+interface ReceiptVerifierProps {
+    data: any;
+    onConfirm: (payload: ReceiptConfirmation) => Promise<void> | void;
+    onCancel: () => void;
+    onSwitchMode?: () => void;
+}
+
+export function ReceiptVerifier({ data, onConfirm, onCancel, onSwitchMode }: ReceiptVerifierProps) {
+    const { accounts } = useAccounts();
+    const { rules, isLoading: isLoadingRules } = useCategoryRules();
+    const items = useMemo(() => receiptItemsFromExtraction(data), [data]);
+    const detectedCurrency = items.length && data?.items?.every((item: any) => item?.currency === 'USD') ? 'USD' : 'ARS';
+
+    const [merchant, setMerchant] = useState<string>(typeof data?.merchant === 'string' ? data.merchant : '');
+    const [date, setDate] = useState<string>(data?.items?.[0]?.date || new Date().toISOString().split('T')[0]);
+    const [currency, setCurrency] = useState<'ARS' | 'USD'>(detectedCurrency);
+    const [fxRate, setFxRate] = useState('');
+    const [accountId, setAccountId] = useState('');
+    const [lines, setLines] = useState<ReceiptLineDraft[] | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Rows are filled once the rules are known, so what the user reviews is what gets saved.
+    useEffect(() => {
+        if (lines || isLoadingRules) return;
+        setLines(categorizeReceiptItems(rules, items).map((line) => ({
+            description: line.description,
+            category: line.category,
+            amount: String(line.amount),
+        })));
+    }, [isLoadingRules, items, lines, rules]);
+
+    const defaultAccountId = accounts.find((account) => account.is_default)?.id || '';
+    const drafts = lines || [];
+    const parsedLines = drafts.map((line) => ({
+        description: line.description.trim(),
+        category: line.category.trim(),
+        amount: Number(line.amount) || 0,
+    }));
+    const total = receiptTotal(parsedLines);
+    const extractedTotal = Number(data?.total_amount) || 0;
+    const difference = Math.round((extractedTotal - total) * 100) / 100;
+
+    const validationError = (() => {
+        if (!merchant.trim()) return 'Indicá el comercio.';
+        if (!parsedLines.length) return 'El ticket necesita al menos una línea.';
+        if (parsedLines.some((line) => !line.description || !line.category || line.amount <= 0)) {
+            return 'Cada línea necesita descripción, categoría y un monto positivo.';
+        }
+        if (currency === 'USD' && !(Number(fxRate) > 0)) return 'Indicá el tipo de cambio.';
+        return null;
+    })();
+
+    const updateLine = (index: number, changes: Partial<ReceiptLineDraft>) => {
+        setLines((current) => (current || []).map((line, lineIndex) => (lineIndex === index ? { ...line, ...changes } : line)));
+    };
+
+    const handleSubmit = async (event: FormEvent) => {
+        event.preventDefault();
+        if (validationError) return;
+
+        try {
+            setIsSaving(true);
+            await onConfirm({
+                merchant: merchant.trim(),
+                date,
+                currency,
+                fx_rate: currency === 'USD' ? Number(fxRate) : null,
+                account_id: accountId || defaultAccountId || null,
+                items: parsedLines,
+            });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Card className="w-full max-w-2xl mx-auto border-l-4 border-l-primary shadow-lg">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Receipt className="w-6 h-6 text-primary" />
+                    Verifica el ticket
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">
+                    Se guarda como un solo gasto dividido por categoría. Las categorías ya pasaron por tus reglas; podés corregirlas.
+                </p>
+                {onSwitchMode ? (
+                    <button type="button" className="self-start text-xs font-medium text-primary hover:underline" onClick={onSwitchMode}>
+                        Registrar como obligación con vencimiento
+                    </button>
+                ) : null}
+            </CardHeader>
+            <CardContent>
+                <form id="receipt-verification-form" onSubmit={(event) => void handleSubmit(event)} className="space-y-6">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="space-y-2 md:col-span-2">
+                            <Label htmlFor="receipt-merchant">Comercio</Label>
+                            <Input id="receipt-merchant" value={merchant} onChange={(event) => setMerchant(event.target.value)} />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="receipt-date">Fecha</Label>
+                            <Input id="receipt-date" type="date" value={date} onChange={(event) => setDate(event.target.value)} />
+                        </div>
+                        {accounts.length > 1 ? (
+                            <div className="space-y-2">
+                                <Label htmlFor="receipt-account">Cuenta</Label>
+                                <select
+                                    id="receipt-account"
+                                    className={selectClassName}
+                                    value={accountId || defaultAccountId}
+                                    onChange={(event) => setAccountId(event.target.value)}
+                                >
+                                    {accounts.map((account) => (
+                                        <option key={account.id} value={account.id}>{account.name}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        ) : null}
+                        <div className="space-y-2">
+                            <Label htmlFor="receipt-currency">Moneda</Label>
+                            <select
+                                id="receipt-currency"
+                                className={selectClassName}
+                                value={currency}
+                                onChange={(event) => setCurrency(event.target.value as 'ARS' | 'USD')}
+                            >
+                                <option value="ARS">ARS</option>
+                                <option value="USD">USD</option>
+                            </select>
+                        </div>
+                        {currency === 'USD' ? (
+                            <div className="space-y-2">
+                                <Label htmlFor="receipt-fx-rate">Tipo de cambio</Label>
+                                <Input
+                                    id="receipt-fx-rate"
+                                    type="number"
+                                    step="0.01"
+                                    placeholder="ARS por USD"
+                                    value={fxRate}
+                                    onChange={(event) => setFxRate(event.target.value)}
+                                />
+                            </div>
+                        ) : null}
+                    </div>
+
+                    <div className="space-y-2">
+                        <p className="text-sm font-medium">Líneas del ticket</p>
+                        {lines ? (
+                            <>
+                                <CategoryOptions id="receipt-category-options" kind="expense" />
+                                {drafts.map((line, index) => (
+                                    <div key={index} className="grid grid-cols-[1fr_1fr_7rem_auto] items-center gap-2">
+                                        <Input
+                                            value={line.description}
+                                            placeholder="Descripción"
+                                            onChange={(event) => updateLine(index, { description: event.target.value })}
+                                        />
+                                        <Input
+                                            value={line.category}
+                                            list="receipt-category-options"
+                                            placeholder="Categoría"
+                                            onChange={(event) => updateLine(index, { category: event.target.value })}
+                                        />
+                                        <Input
+                                            type="number"
+                                            step="0.01"
+                                            min="0.01"
+                                            value={line.amount}
+                                            placeholder="Monto"
+                                            onChange={(event) => updateLine(index, { amount: event.target.value })}
+                                        />
+                                        <Button
+                                            type="button"
+                                            variant="ghost"
+                                            size="icon"
+                                            className="h-9 w-9"
+                                            title="Quitar línea"
+                                            disabled={drafts.length <= 1}
+                                            onClick={() => setLines((current) => (current || []).filter((_, lineIndex) => lineIndex !== index))}
+                                        >
+                                            <Trash2 className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+                                ))}
+                                <Button
+                                    type="button"
+                                    variant="outline"
+                                    size="sm"
+                                    disabled={drafts.length >= MAX_SPLIT_LINES}
+                                    onClick={() => setLines((current) => [...(current || []), { description: '', category: '', amount: '' }])}
+                                >
+                                    <Plus className="mr-1 h-4 w-4" />
+                                    Agregar línea
+                                </Button>
+                            </>
+                        ) : (
+                            <div className="flex justify-center p-4">
+                                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="rounded-lg border bg-muted/20 p-4 text-sm space-y-1">
+                        <div className="flex justify-between font-semibold">
+                            <span>Total del gasto</span>
+                            <span>{formatMoneyIn(total, currency)}</span>
+                        </div>
+                        {extractedTotal > 0 && Math.abs(difference) > 0.01 ? (
+                            <p className="flex items-center gap-2 text-xs text-yellow-700 dark:text-yellow-300">
+                                <AlertTriangle className="h-4 w-4 shrink-0" />
+                                El ticket dice {formatMoneyIn(extractedTotal, currency)}: las líneas difieren en {formatMoneyIn(Math.abs(difference), currency)}.
+                            </p>
+                        ) : null}
+                        {validationError && lines ? <p className="text-xs text-destructive">{validationError}</p> : null}
+                    </div>
+                </form>
+            </CardContent>
+            <CardFooter className="flex justify-between bg-muted/50 p-6">
+                <Button variant="ghost" onClick={onCancel}>
+                    Cancelar
+                </Button>
+                <Button type="submit" form="receipt-verification-form" disabled={!lines || Boolean(validationError) || isSaving}>
+                    {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                    Guardar gasto
+                </Button>
+            </CardFooter>
+        </Card>
+    );
+}
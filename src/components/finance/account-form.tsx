@@ -0,0 +1,103 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { AccountInputSchema, AccountInput } from '@/lib/schemas';
+import { ACCOUNT_KINDS, ACCOUNT_KIND_LABELS, type AccountKind } from '@/lib/accounts';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAccounts } from '@/hooks/use-accounts';
+import { Loader2 } from 'lucide-react';
+
+const defaultValues: Partial<AccountInput> = {
+    kind: 'bank',
+    currency: 'ARS',
+    opening_balance: 0,
+    opening_date: new Date().toISOString().split('T')[0],
+    is_archived: false,
+};
+
+export function AccountForm() {
+    const { addAccount, isAdding } = useAccounts();
+
+    const { register, handleSubmit, reset, setValue, watch, formState: { errors } } = useForm<AccountInput>({
+        resolver: zodResolver(AccountInputSchema),
+        defaultValues,
+    });
+    const kind = watch('kind');
+    const currency = watch('currency');
+
+    const onSubmit = async (data: AccountInput) => {
+        try {
+            await addAccount(data);
+            reset(defaultValues);
+        } catch {
+            // Error feedback is already handled by the mutation hook.
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Nueva Cuenta</CardTitle>
+            </CardHeader>
+            <CardContent>
+                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="account-name">Nombre</Label>
+                        <Input id="account-name" placeholder="Ej: Banco Galicia, Mercado Pago" {...register('name')} />
+                        {errors.name && <p className="text-xs text-destructive">{errors.name.message}</p>}
+                    </div>
+
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                        <div className="space-y-2">
+                            <Label>Tipo</Label>
+                            <Select value={kind} onValueChange={(value) => setValue('kind', value as AccountKind)}>
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Tipo de cuenta" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {ACCOUNT_KINDS.map((item) => (
+                                        <SelectItem key={item} value={item}>{ACCOUNT_KIND_LABELS[item]}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Moneda</Label>
+                            <Select value={currency} onValueChange={(value) => setValue('currency', value as 'ARS' | 'USD')}>
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Moneda" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="ARS">ARS</SelectItem>
+                                    <SelectItem value="USD">USD</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                        <div className="space-y-2">
+                            <Label htmlFor="opening_balance">Saldo inicial</Label>
+                            <Input id="opening_balance" type="number" step="0.01" {...register('opening_balance', { valueAsNumber: true })} />
+                            {errors.opening_balance && <p className="text-xs text-destructive">{errors.opening_balance.message}</p>}
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="opening_date">Fecha del saldo</Label>
+                            <Input id="opening_date" type="date" {...register('opening_date')} />
+                        </div>
+                    </div>
+
+                    <Button type="submit" className="w-full" disabled={isAdding}>
+                        {isAdding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                        Crear Cuenta
+                    </Button>
+                </form>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    DEFAULT_FINANCING_CYCLES,
+    MAX_FINANCING_CYCLES,
+    simulateCardFinancing,
+    type CardPaymentPlan,
+    type CardRates,
+} from '@/lib/card-financing';
+import { formatMoneyIn } from '@/lib/currency';
+
+const selectClassName = 'h-10 w-full rounded-md border border-input bg-background px-3 text-sm';
+
+const RATE_SOURCE_LABELS = { tna: 'TNA', tea: 'TEA', cft: 'CFT' } as const;
+
+const formatAmount = (amount: number) => formatMoneyIn(amount, 'ARS', 0);
+
+type CardFinancingSimulatorProps = {
+    balance: number;
+    minimumPayment?: number | null;
+    dueDate: string;
+    rates: CardRates | null;
+    // Amount typed in the payment form, used as the default for the "fixed amount" plan.
+    amount?: number | null;
+};
+
+export function CardFinancingSimulator({ balance, minimumPayment, dueDate, rates, amount }: CardFinancingSimulatorProps) {
+    const [mode, setMode] = useState<CardPaymentPlan['mode']>('minimum');
+    const [fixedAmount, setFixedAmount] = useState('');
+    const [cycles, setCycles] = useState(DEFAULT_FINANCING_CYCLES);
+
+    const monthlyAmount = Number(fixedAmount) > 0 ? Number(fixedAmount) : Number(amount || 0);
+    const result = useMemo(() => simulateCardFinancing({
+        balance,
+        minimum_payment: minimumPayment,
+        due_date: dueDate,
+        rates,
+        plan: mode === 'minimum' ? { mode: 'minimum' } : { mode: 'amount', amount: monthlyAmount },
+        cycles,
+    }), [balance, minimumPayment, dueDate, rates, mode, monthlyAmount, cycles]);
+
+    const lastCycle = result.cycles[result.cycles.length - 1];
+
+    return (
+        <div className="space-y-3 rounded-lg border p-3">
+            <p className="text-sm font-semibold">Simulador de financiación</p>
+
+            <div className="grid gap-3 sm:grid-cols-3">
+                <div className="space-y-1.5">
+                    <Label htmlFor="card_financing_mode">Pago mensual</Label>
+                    <select
+                        id="card_financing_mode"
+                        className={selectClassName}
+                        value={mode}
+                        onChange={(event) => setMode(event.target.value as CardPaymentPlan['mode'])}
+                    >
+                        <option value="minimum">Solo el mínimo</option>
+                        <option value="amount">Monto fijo</option>
+                    </select>
+                </div>
+                {mode === 'amount' && (
+                    <div className="space-y-1.5">
+                        <Label htmlFor="card_financing_amount">Monto por resumen</Label>
+                        <Input
+                            id="card_financing_amount"
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={fixedAmount}
+                            onChange={(event) => setFixedAmount(event.target.value)}
+                            placeholder={amount ? String(amount) : 'Ej: 50000'}
+                            className="h-10"
+                        />
+                    </div>
+                )}
+                <div className="space-y-1.5">
+                    <Label htmlFor="card_financing_cycles">Resúmenes</Label>
+                    <Input
+                        id="card_financing_cycles"
+                        type="number"
+                        min="1"
+                        max={MAX_FINANCING_CYCLES}
+                        value={cycles}
+                        onChange={(event) => setCycles(Math.min(Math.max(Number(event.target.value) || 1, 1), MAX_FINANCING_CYCLES))}
+                        className="h-10"
+                    />
+                </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+                {result.rate_source
+                    ? `Tasa mensual ${(result.monthly_rate * 100).toFixed(2)}% según la ${RATE_SOURCE_LABELS[result.rate_source]} del resumen${result.rate_source === 'cft' ? ' (ya incluye IVA)' : ' + IVA'}.`
+                    : 'El resumen no trae TNA, TEA ni CFT: la simulación no suma intereses.'}
+                {result.estimated_minimum ? ' Sin pago mínimo en el resumen, se asume el 5% del saldo.' : ''}
+                {' '}No incluye consumos nuevos.
+            </p>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                    <thead className="text-muted-foreground">
+                        <tr className="border-b text-left">
+                            <th className="py-1.5 pr-2 font-medium">Vence</th>
+                            <th className="py-1.5 pr-2 text-right font-medium">Saldo</th>
+                            <th className="py-1.5 pr-2 text-right font-medium">Pago</th>
+                            <th className="py-1.5 pr-2 text-right font-medium">Intereses</th>
+                            <th className="py-1.5 pr-2 text-right font-medium">Punitorios</th>
+                            <th className="py-1.5 text-right font-medium">IVA</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {result.cycles.map((cycle) => (
+                            <tr key={cycle.cycle} className="border-b last:border-0">
+                                <td className="py-1.5 pr-2">{new Date(`${cycle.due_date}T00:00:00`).toLocaleDateString('es-AR')}</td>
+                                <td className="py-1.5 pr-2 text-right">{formatAmount(cycle.balance)}</td>
+                                <td className="py-1.5 pr-2 text-right">{formatAmount(cycle.payment)}</td>
+                                <td className="py-1.5 pr-2 text-right">{formatAmount(cycle.interest)}</td>
+                                <td className={`py-1.5 pr-2 text-right ${cycle.punitive > 0 ? 'text-destructive' : ''}`}>{formatAmount(cycle.punitive)}</td>
+                                <td className="py-1.5 text-right">{formatAmount(cycle.taxes)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="grid gap-2 text-xs sm:grid-cols-2">
+                <p>
+                    Costo financiero: <span className="font-semibold text-destructive">
+                        {formatAmount(result.total_interest + result.total_punitive + result.total_taxes)}
+                    </span>
+                </p>
+                <p className="sm:text-right">
+                    {result.paid_off_cycle
+                        ? `Saldado en ${result.paid_off_cycle} resumen(es), pagando ${formatAmount(result.total_paid)}`
+                        : `Saldo después de ${result.cycles.length} resumen(es): ${formatAmount(lastCycle?.next_balance ?? 0)}`}
+                </p>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useCategories } from '@/hooks/use-categories';
+import type { CategoryKind } from '@/lib/categories';
+import { Loader2 } from 'lucide-react';
+
+const selectClassName = 'h-10 w-full rounded-md border border-input bg-background px-3 text-sm';
+
+export function CategoryForm() {
+    const { categories, addCategory, isAdding } = useCategories();
+    const [name, setName] = useState('');
+    const [kind, setKind] = useState<CategoryKind>('expense');
+    const [parentId, setParentId] = useState('');
+    const [icon, setIcon] = useState('');
+    const [color, setColor] = useState('#6366f1');
+
+    // Only top-level categories of the same kind can hold subcategories.
+    const parentOptions = categories.filter((category) => !category.parent_id && !category.is_archived && category.kind === kind);
+
+    const handleSubmit = async (event: FormEvent) => {
+        event.preventDefault();
+
+        try {
+            await addCategory({
+                name,
+                kind,
+                parent_id: parentId || null,
+                icon: icon.trim() || null,
+                color,
+            });
+            setName('');
+            setIcon('');
+        } catch {
+            // Error feedback is already handled by the mutation hook.
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Nueva categoría</CardTitle>
+            </CardHeader>
+            <CardContent>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="category-name">Nombre</Label>
+                        <Input id="category-name" placeholder="Ej: Gimnasio" value={name} onChange={(event) => setName(event.target.value)} required />
+                    </div>
+
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                        <div className="space-y-2">
+                            <Label htmlFor="category-kind">Tipo</Label>
+                            <select
+                                id="category-kind"
+                                value={kind}
+                                onChange={(event) => { setKind(event.target.value as CategoryKind); setParentId(''); }}
+                                className={selectClassName}
+                            >
+                                <option value="expense">Gasto</option>
+                                <option value="income">Ingreso</option>
+                            </select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="category-parent">Dentro de</Label>
+                            <select id="category-parent" value={parentId} onChange={(event) => setParentId(event.target.value)} className={selectClassName}>
+                                <option value="">Ninguna (principal)</option>
+                                {parentOptions.map((category) => (
+                                    <option key={category.id} value={category.id}>{category.icon ? `${category.icon} ` : ''}{category.name}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                        <div className="space-y-2">
+                            <Label htmlFor="category-icon">Ícono (emoji)</Label>
+                            <Input id="category-icon" placeholder="Ej: 🏋️" maxLength={16} value={icon} onChange={(event) => setIcon(event.target.value)} />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="category-color">Color</Label>
+                            <Input id="category-color" type="color" value={color} onChange={(event) => setColor(event.target.value)} />
+                        </div>
+                    </div>
+
+                    <Button type="submit" className="w-full" disabled={isAdding}>
+                        {isAdding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                        Crear categoría
+                    </Button>
+                </form>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import { useCategories } from '@/hooks/use-categories';
+import { buildCategoryTree, type CategoryKind } from '@/lib/categories';
+
+type CategoryOptionsProps = {
+    id: string;
+    kind?: CategoryKind;
+};
+
+/**
+ * Suggestions for the free-text category inputs (`<Input list={id} />`). Typing a new name still works:
+ * the database creates the category the first time it is used.
+ */
+export function CategoryOptions({ id, kind }: CategoryOptionsProps) {
+    const { categories } = useCategories();
+    const tree = buildCategoryTree(categories.filter((category) => !category.is_archived && (!kind || category.kind === kind)));
+
+    return (
+        <datalist id={id}>
+            {tree.flatMap((root) => [
+                <option key={root.id} value={root.name}>{root.icon ? `${root.icon} ${root.name}` : root.name}</option>,
+                ...root.children.map((child) => (
+                    <option key={child.id} value={child.name}>{`${root.name} › ${child.name}`}</option>
+                )),
+            ])}
+        </datalist>
+    );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { CommittedMonth } from '@/lib/installments';
+import { formatMoneyIn } from '@/lib/currency';
+import { Layers, Loader2 } from 'lucide-react';
+
+function formatMonth(month: string) {
+    return new Date(`${month}-01T00:00:00`).toLocaleDateString('es-AR', { month: 'short', year: '2-digit' });
+}
+
+export function CommittedInstallmentsCard({
+    committed,
+    isLoading = false,
+    className,
+}: {
+    committed: CommittedMonth[];
+    isLoading?: boolean;
+    className?: string;
+}) {
+    const maxArs = Math.max(0, ...committed.map((row) => row.amount_ars));
+    const hasAny = committed.some((row) => row.count > 0);
+
+    return (
+        <Card className={className}>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Layers className="h-5 w-5 text-primary" />
+                    Cuotas ya comprometidas
+                </CardTitle>
+            </CardHeader>
+            <CardContent>
+                {isLoading ? (
+                    <div className="flex justify-center p-4">
+                        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                    </div>
+                ) : !hasAny ? (
+                    <p className="text-sm text-muted-foreground">No hay cuotas pendientes en los próximos meses.</p>
+                ) : (
+                    <div className="space-y-3">
+                        {committed.map((row) => (
+                            <div key={row.month} className="space-y-1">
+                                <div className="flex items-center justify-between text-sm">
+                                    <span className="font-semibold capitalize">{formatMonth(row.month)}</span>
+                                    <span className="font-bold">
+                                        {formatMoneyIn(row.amount_ars, 'ARS', 0)}
+                                        {row.amount_usd > 0 ? ` + ${formatMoneyIn(row.amount_usd, 'USD')}` : ''}
+                                    </span>
+                                </div>
+                                <div className="h-1.5 w-full overflow-hidden rounded-full bg-muted">
+                                    <div
+                                        className="h-full rounded-full bg-primary"
+                                        style={{ width: `${maxArs > 0 ? (row.amount_ars / maxArs) * 100 : 0}%` }}
+                                    />
+                                </div>
+                                <p className="text-[11px] text-muted-foreground">{row.count} cuota(s)</p>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
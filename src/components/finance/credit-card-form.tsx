@@ -0,0 +1,99 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { CreditCardInputSchema, CreditCardInput } from '@/lib/schemas';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useCreditCards } from '@/hooks/use-credit-cards';
+import { Loader2 } from 'lucide-react';
+
+const defaultValues: Partial<CreditCardInput> = {
+    name: '',
+    issuer: '',
+    last4: null,
+    closing_day: 25,
+    due_day: 5,
+    is_archived: false,
+};
+
+export function CreditCardForm() {
+    const { addCard, isAdding } = useCreditCards();
+
+    const { register, handleSubmit, reset, formState: { errors } } = useForm<CreditCardInput>({
+        resolver: zodResolver(CreditCardInputSchema),
+        defaultValues,
+    });
+
+    const onSubmit = async (data: CreditCardInput) => {
+        try {
+            await addCard({
+                ...data,
+                issuer: data.issuer?.trim() || null,
+                last4: data.last4?.trim() || null,
+            });
+            reset(defaultValues);
+        } catch {
+            // Error feedback is already handled by the mutation hook.
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Nueva Tarjeta</CardTitle>
+            </CardHeader>
+            <CardContent>
+                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="card-name">Nombre</Label>
+                        <Input id="card-name" placeholder="Ej: Visa Galicia" {...register('name')} />
+                        {errors.name && <p className="text-xs text-destructive">{errors.name.message}</p>}
+                    </div>
+
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                        <div className="space-y-2">
+                            <Label htmlFor="card-issuer">Banco / emisor</Label>
+                            <Input id="card-issuer" placeholder="Opcional" {...register('issuer')} />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="card-last4">Últimos 4 dígitos</Label>
+                            <Input
+                                id="card-last4"
+                                inputMode="numeric"
+                                maxLength={4}
+                                placeholder="Opcional"
+                                {...register('last4', { setValueAs: (value: string) => (value ? value : null) })}
+                            />
+                            {errors.last4 && <p className="text-xs text-destructive">{errors.last4.message}</p>}
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                        <div className="space-y-2">
+                            <Label htmlFor="card-closing-day">Día de cierre</Label>
+                            <Input id="card-closing-day" type="number" min="1" max="31" {...register('closing_day', { valueAsNumber: true })} />
+                            {errors.closing_day && <p className="text-xs text-destructive">{errors.closing_day.message}</p>}
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="card-due-day">Día de vencimiento</Label>
+                            <Input id="card-due-day" type="number" min="1" max="31" {...register('due_day', { valueAsNumber: true })} />
+                            {errors.due_day && <p className="text-xs text-destructive">{errors.due_day.message}</p>}
+                        </div>
+                    </div>
+
+                    <p className="text-xs text-muted-foreground">
+                        Se crea una cuenta para la tarjeta: los gastos cargados en ella se asignan al resumen según la fecha de compra.
+                    </p>
+
+                    <Button type="submit" className="w-full" disabled={isAdding}>
+                        {isAdding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                        Crear Tarjeta
+                    </Button>
+                </form>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,283 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CreditCardForm } from '@/components/finance/credit-card-form';
+import { useAccounts } from '@/hooks/use-accounts';
+import {
+    useCardStatement,
+    useCreditCards,
+    type CardStatementSummary,
+    type CreditCardWithStatements,
+} from '@/hooks/use-credit-cards';
+import type { CardStatementPhase } from '@/lib/credit-cards';
+import { formatMoneyIn } from '@/lib/currency';
+import { Archive, ChevronDown, ChevronUp, CreditCard, Loader2, Trash2 } from 'lucide-react';
+
+const selectClassName = 'h-9 w-full rounded-md border border-input bg-background px-3 text-sm';
+
+const PHASE_LABELS: Record<CardStatementPhase, string> = {
+    open: 'Abierto',
+    closed: 'Cerrado',
+    paid: 'Pagado',
+};
+
+const PHASE_CLASSES: Record<CardStatementPhase, string> = {
+    open: 'bg-primary/10 text-primary',
+    closed: 'bg-amber-500/10 text-amber-600',
+    paid: 'bg-emerald-500/10 text-emerald-600',
+};
+
+function formatDate(isoDate: string) {
+    return new Date(`${isoDate}T00:00:00`).toLocaleDateString('es-AR', { day: '2-digit', month: '2-digit' });
+}
+
+function isoToday() {
+    return new Date().toISOString().split('T')[0];
+}
+
+function StatementLines({ statementId }: { statementId: string }) {
+    const { statement, isLoading, error } = useCardStatement(statementId);
+
+    if (isLoading) {
+        return (
+            <div className="flex justify-center p-2">
+                <Loader2 className="h-4 w-4 animate-spin text-primary" />
+            </div>
+        );
+    }
+    if (error) return <p className="text-xs text-destructive">{error}</p>;
+    if (!statement?.lines.length) {
+        return <p className="text-xs text-muted-foreground">Sin consumos cargados en este ciclo.</p>;
+    }
+
+    return (
+        <ul className="space-y-1 text-xs">
+            {statement.lines.map((line) => (
+                <li key={line.id} className="flex justify-between gap-2">
+                    <span className="truncate">{formatDate(line.date)} • {line.description}</span>
+                    <span className={line.type === 'income' ? 'text-emerald-600' : ''}>
+                        {line.type === 'income' ? '-' : ''}{formatMoneyIn(Number(line.amount), 'ARS')}
+                    </span>
+                </li>
+            ))}
+        </ul>
+    );
+}
+
+function StatementPaymentForm({
+    card,
+    statement,
+    onDone,
+}: {
+    card: CreditCardWithStatements;
+    statement: CardStatementSummary;
+    onDone: () => void;
+}) {
+    const { accounts } = useAccounts();
+    const { payStatement, isPaying } = useCreditCards();
+    const sourceAccounts = accounts.filter((account) => account.id !== card.account_id && account.kind !== 'credit_card');
+    const [fromAccountId, setFromAccountId] = useState('');
+    const [amount, setAmount] = useState(String(statement.amount_due));
+    const [date, setDate] = useState(isoToday());
+
+    const handlePay = async () => {
+        try {
+            await payStatement({
+                statementId: statement.id,
+                payment_amount: Number(amount) || null,
+                payment_date: date,
+                from_account_id: fromAccountId || null,
+            });
+            onDone();
+        } catch {
+            // Error feedback is already handled by the mutation hook.
+        }
+    };
+
+    return (
+        <div className="grid grid-cols-1 gap-2 rounded-md bg-muted/40 p-2 sm:grid-cols-4 sm:items-end">
+            <div className="space-y-1">
+                <Label className="text-xs">Desde</Label>
+                <select value={fromAccountId} onChange={(event) => setFromAccountId(event.target.value)} className={selectClassName}>
+                    <option value="">Cuenta por defecto</option>
+                    {sourceAccounts.map((account) => (
+                        <option key={account.id} value={account.id}>{account.name}</option>
+                    ))}
+                </select>
+            </div>
+            <div className="space-y-1">
+                <Label className="text-xs">Monto</Label>
+                <Input className="h-9" type="number" step="0.01" min="0.01" value={amount} onChange={(event) => setAmount(event.target.value)} />
+            </div>
+            <div className="space-y-1">
+                <Label className="text-xs">Fecha</Label>
+                <Input className="h-9" type="date" value={date} onChange={(event) => setDate(event.target.value)} />
+            </div>
+            <Button type="button" size="sm" className="h-9" disabled={isPaying} onClick={handlePay}>
+                {isPaying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                Confirmar pago
+            </Button>
+        </div>
+    );
+}
+
+function CreditCardItem({ card }: { card: CreditCardWithStatements }) {
+    const { updateCard, deleteCard, isUpdating, isDeleting } = useCreditCards();
+    const [expandedStatementId, setExpandedStatementId] = useState<string | null>(null);
+    const [payingStatementId, setPayingStatementId] = useState<string | null>(null);
+    const cycle = card.current_cycle;
+
+    const handleDelete = async () => {
+        const approved = window.confirm(`¿Seguro que quieres eliminar la tarjeta "${card.name}"?`);
+        if (!approved) return;
+        try {
+            await deleteCard(card.id);
+        } catch {
+            // toast handled in hook
+        }
+    };
+
+    const handleArchive = async () => {
+        try {
+            await updateCard({ cardId: card.id, changes: { is_archived: true } });
+        } catch {
+            // toast handled in hook
+        }
+    };
+
+    return (
+        <div className="space-y-3 rounded-lg border p-4">
+            <div className="flex items-start justify-between gap-3">
+                <div className="flex items-center gap-3">
+                    <div className="rounded-full bg-primary/10 p-2 text-primary">
+                        <CreditCard className="h-4 w-4" />
+                    </div>
+                    <div>
+                        <p className="font-bold">{card.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                            {[card.issuer, card.last4 ? `•••• ${card.last4}` : null].filter(Boolean).join(' • ') || 'Tarjeta de crédito'}
+                            {' • '}Cierra el {card.closing_day}, vence el {card.due_day}
+                        </p>
+                    </div>
+                </div>
+                <div className="flex items-center gap-1">
+                    <Button type="button" variant="ghost" size="icon" className="h-8 w-8" title="Archivar tarjeta" disabled={isUpdating} onClick={handleArchive}>
+                        <Archive className="h-4 w-4" />
+                    </Button>
+                    {card.statements.length === 0 && (
+                        <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-destructive hover:text-destructive"
+                            title="Eliminar tarjeta"
+                            disabled={isDeleting}
+                            onClick={handleDelete}
+                        >
+                            <Trash2 className="h-4 w-4" />
+                        </Button>
+                    )}
+                </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+                Ciclo actual: {formatDate(cycle.period_start)} al {formatDate(cycle.closing_date)} • vence {formatDate(cycle.due_date)}
+            </p>
+
+            {card.statements.length > 0 ? (
+                <div className="space-y-2 border-t pt-2">
+                    {card.statements.map((statement) => {
+                        const isExpanded = expandedStatementId === statement.id;
+                        const isPayingThis = payingStatementId === statement.id;
+
+                        return (
+                            <div key={statement.id} className="space-y-2">
+                                <div className="flex items-center justify-between gap-2 text-sm">
+                                    <button
+                                        type="button"
+                                        className="flex items-center gap-2 text-left"
+                                        onClick={() => setExpandedStatementId(isExpanded ? null : statement.id)}
+                                    >
+                                        {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                                        <span>Cierre {formatDate(statement.closing_date)} • vence {formatDate(statement.due_date)}</span>
+                                        <span className={`rounded-full px-2 py-0.5 text-[10px] font-bold uppercase ${PHASE_CLASSES[statement.phase]}`}>
+                                            {PHASE_LABELS[statement.phase]}
+                                        </span>
+                                    </button>
+                                    <div className="flex items-center gap-2">
+                                        <div className="text-right">
+                                            <p className="font-semibold">{formatMoneyIn(statement.total, 'ARS')}</p>
+                                            {statement.amount_due > 0 && statement.amount_due < statement.total && (
+                                                <p className="text-xs text-muted-foreground">Resta {formatMoneyIn(statement.amount_due, 'ARS')}</p>
+                                            )}
+                                        </div>
+                                        {statement.amount_due > 0 && (
+                                            <Button
+                                                type="button"
+                                                size="sm"
+                                                variant={isPayingThis ? 'ghost' : 'outline'}
+                                                onClick={() => setPayingStatementId(isPayingThis ? null : statement.id)}
+                                            >
+                                                {isPayingThis ? 'Cancelar' : 'Pagar'}
+                                            </Button>
+                                        )}
+                                    </div>
+                                </div>
+                                {isPayingThis && (
+                                    <StatementPaymentForm card={card} statement={statement} onDone={() => setPayingStatementId(null)} />
+                                )}
+                                {isExpanded && (
+                                    <div className="pl-6">
+                                        {statement.lines_count === 0 && statement.declared_total != null ? (
+                                            <p className="text-xs text-muted-foreground">Total informado por el resumen importado.</p>
+                                        ) : (
+                                            <StatementLines statementId={statement.id} />
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            ) : (
+                <p className="text-xs text-muted-foreground">Todavía no hay resúmenes. Cargá gastos en la cuenta de la tarjeta.</p>
+            )}
+        </div>
+    );
+}
+
+export function CreditCardsPanel() {
+    const { cards, isLoading, error } = useCreditCards();
+
+    return (
+        <div className="grid gap-6 md:grid-cols-2">
+            <Card>
+                <CardHeader>
+                    <CardTitle>Mis Tarjetas</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    {isLoading ? (
+                        <div className="flex justify-center p-8">
+                            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                        </div>
+                    ) : error ? (
+                        <p className="text-sm text-destructive">{error}</p>
+                    ) : cards.length > 0 ? (
+                        <div className="space-y-4">
+                            {cards.map((card) => (
+                                <CreditCardItem key={card.id} card={card} />
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="py-8 text-center text-sm text-muted-foreground">Todavía no registraste tarjetas.</p>
+                    )}
+                </CardContent>
+            </Card>
+            <CreditCardForm />
+        </div>
+    );
+}
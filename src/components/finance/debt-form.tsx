@@ -1,5 +1,6 @@
 'use client';
 
+import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { DebtInputSchema, DebtInput } from '@/lib/schemas';
@@ -7,11 +8,15 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CategoryOptions } from '@/components/finance/category-options';
+import { LoanForm } from '@/components/finance/loan-form';
 import { useFinance } from '@/hooks/use-finance';
+import { DEBT_RATE_KIND_LABELS, type DebtRateKind } from '@/lib/debt-payoff';
 import { Loader2 } from 'lucide-react';
 
 export function DebtForm() {
     const { addDebt, isAddingDebt } = useFinance();
+    const [kind, setKind] = useState<'debt' | 'loan'>('debt');
 
     const { register, handleSubmit, reset, formState: { errors } } = useForm<DebtInput>({
         resolver: zodResolver(DebtInputSchema),
@@ -19,6 +24,7 @@ export function DebtForm() {
             remaining_installments: 0,
             total_installments: 1,
             next_payment_date: new Date().toISOString().split('T')[0],
+            rate_kind: 'tna',
         }
     });
 
@@ -29,6 +35,7 @@ export function DebtForm() {
                 remaining_installments: 0,
                 total_installments: 1,
                 next_payment_date: new Date().toISOString().split('T')[0],
+                rate_kind: 'tna',
             });
         } catch {
             // Error feedback is already handled by the mutation hook.
@@ -37,61 +44,95 @@ export function DebtForm() {
 
     return (
         <Card>
-            <CardHeader>
+            <CardHeader className="flex flex-row items-center justify-between gap-3 space-y-0">
                 <CardTitle>Nueva Deuda / Crédito</CardTitle>
+                <select
+                    aria-label="Tipo de deuda"
+                    className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                    value={kind}
+                    onChange={(event) => setKind(event.target.value as 'debt' | 'loan')}
+                >
+                    <option value="debt">Deuda en cuotas</option>
+                    <option value="loan">Préstamo con amortización</option>
+                </select>
             </CardHeader>
             <CardContent>
-                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-                        <div className="space-y-2">
-                            <Label htmlFor="name">Nombre / Entidad</Label>
-                            <Input id="name" placeholder="Ej: Visa Santander" {...register('name')} />
-                            {errors.name && <p className="text-xs text-destructive">{errors.name.message}</p>}
-                        </div>
-                        <div className="space-y-2">
-                            <Label htmlFor="category">Categoría</Label>
-                            <Input id="category" placeholder="Ej: Bancaria" {...register('category')} />
-                            {errors.category && <p className="text-xs text-destructive">{errors.category.message}</p>}
+                {kind === 'loan' ? <LoanForm /> : (
+                    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                            <div className="space-y-2">
+                                <Label htmlFor="name">Nombre / Entidad</Label>
+                                <Input id="name" placeholder="Ej: Visa Santander" {...register('name')} />
+                                {errors.name && <p className="text-xs text-destructive">{errors.name.message}</p>}
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="category">Categoría</Label>
+                                <Input id="category" placeholder="Ej: Bancaria" list="debt-category-options" {...register('category')} />
+                                <CategoryOptions id="debt-category-options" kind="expense" />
+                                {errors.category && <p className="text-xs text-destructive">{errors.category.message}</p>}
+                            </div>
                         </div>
-                    </div>
 
-                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-                        <div className="space-y-2">
-                            <Label htmlFor="total_amount">Monto Total</Label>
-                            <Input id="total_amount" type="number" step="0.01" {...register('total_amount', { valueAsNumber: true })} />
-                            {errors.total_amount && <p className="text-xs text-destructive">{errors.total_amount.message}</p>}
+                        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                            <div className="space-y-2">
+                                <Label htmlFor="total_amount">Monto Total</Label>
+                                <Input id="total_amount" type="number" step="0.01" {...register('total_amount', { valueAsNumber: true })} />
+                                {errors.total_amount && <p className="text-xs text-destructive">{errors.total_amount.message}</p>}
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="monthly_payment">Cuota Mensual</Label>
+                                <Input id="monthly_payment" type="number" step="0.01" {...register('monthly_payment', { valueAsNumber: true })} />
+                                {errors.monthly_payment && <p className="text-xs text-destructive">{errors.monthly_payment.message}</p>}
+                            </div>
                         </div>
-                        <div className="space-y-2">
-                            <Label htmlFor="monthly_payment">Cuota Mensual</Label>
-                            <Input id="monthly_payment" type="number" step="0.01" {...register('monthly_payment', { valueAsNumber: true })} />
-                            {errors.monthly_payment && <p className="text-xs text-destructive">{errors.monthly_payment.message}</p>}
+
+                        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                            <div className="space-y-2">
+                                <Label htmlFor="total_installments">Cuotas Totales</Label>
+                                <Input id="total_installments" type="number" {...register('total_installments', { valueAsNumber: true })} />
+                                {errors.total_installments && <p className="text-xs text-destructive">{errors.total_installments.message}</p>}
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="remaining_installments">Cuotas Restantes</Label>
+                                <Input id="remaining_installments" type="number" {...register('remaining_installments', { valueAsNumber: true })} />
+                                {errors.remaining_installments && <p className="text-xs text-destructive">{errors.remaining_installments.message}</p>}
+                            </div>
                         </div>
-                    </div>
 
-                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-                        <div className="space-y-2">
-                            <Label htmlFor="total_installments">Cuotas Totales</Label>
-                            <Input id="total_installments" type="number" {...register('total_installments', { valueAsNumber: true })} />
-                            {errors.total_installments && <p className="text-xs text-destructive">{errors.total_installments.message}</p>}
+                        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                            <div className="space-y-2">
+                                <Label htmlFor="annual_rate">Tasa anual % (opcional)</Label>
+                                <Input
+                                    id="annual_rate"
+                                    type="number"
+                                    step="0.01"
+                                    placeholder="Ej: 85"
+                                    {...register('annual_rate', { setValueAs: (value) => (value === '' || value == null ? null : Number(value)) })}
+                                />
+                                {errors.annual_rate && <p className="text-xs text-destructive">{errors.annual_rate.message}</p>}
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="rate_kind">Tipo de tasa</Label>
+                                <select id="rate_kind" className="h-10 w-full rounded-md border border-input bg-background px-3 text-sm" {...register('rate_kind')}>
+                                    {(Object.keys(DEBT_RATE_KIND_LABELS) as DebtRateKind[]).map((kind) => (
+                                        <option key={kind} value={kind}>{DEBT_RATE_KIND_LABELS[kind]}</option>
+                                    ))}
+                                </select>
+                            </div>
                         </div>
+
                         <div className="space-y-2">
-                            <Label htmlFor="remaining_installments">Cuotas Restantes</Label>
-                            <Input id="remaining_installments" type="number" {...register('remaining_installments', { valueAsNumber: true })} />
-                            {errors.remaining_installments && <p className="text-xs text-destructive">{errors.remaining_installments.message}</p>}
+                            <Label htmlFor="next_payment_date">Próximo Vencimiento</Label>
+                            <Input id="next_payment_date" type="date" {...register('next_payment_date')} />
+                            {errors.next_payment_date && <p className="text-xs text-destructive">{errors.next_payment_date.message}</p>}
                         </div>
-                    </div>
-
-                    <div className="space-y-2">
-                        <Label htmlFor="next_payment_date">Próximo Vencimiento</Label>
-                        <Input id="next_payment_date" type="date" {...register('next_payment_date')} />
-                        {errors.next_payment_date && <p className="text-xs text-destructive">{errors.next_payment_date.message}</p>}
-                    </div>
 
-                    <Button type="submit" className="w-full" disabled={isAddingDebt}>
-                        {isAddingDebt ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
-                        Registrar Deuda
-                    </Button>
-                </form>
+                        <Button type="submit" className="w-full" disabled={isAddingDebt}>
+                            {isAddingDebt ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+                            Registrar Deuda
+                        </Button>
+                    </form>
+                )}
             </CardContent>
         </Card>
     );
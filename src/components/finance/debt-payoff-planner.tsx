@@ -0,0 +1,215 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useDebtPayoff } from '@/hooks/use-debt-payoff';
+import { useFinance } from '@/hooks/use-finance';
+import { MAX_PAYOFF_MONTHS, PAYOFF_STRATEGIES, PAYOFF_STRATEGY_LABELS, type PayoffStrategy } from '@/lib/debt-payoff';
+import { formatMoneyIn } from '@/lib/currency';
+import { ArrowDown, ArrowUp, Loader2, TrendingDown } from 'lucide-react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+
+const selectClassName = 'h-10 w-full rounded-md border border-input bg-background px-3 text-sm';
+
+const STRATEGY_COLORS: Record<PayoffStrategy, string> = {
+    avalanche: '#3b82f6',
+    snowball: '#f59e0b',
+    custom: '#8b5cf6',
+};
+
+const formatAmount = (amount: number) => formatMoneyIn(amount, 'ARS', 0);
+
+function formatMonth(month: string | null) {
+    if (!month) return 'Sin fecha';
+    return new Date(`${month}-01T00:00:00`).toLocaleDateString('es-AR', { month: 'short', year: 'numeric' });
+}
+
+export function DebtPayoffPlanner() {
+    const { debts } = useFinance();
+    const { settings, setSettings, plans, plan, isLoading } = useDebtPayoff();
+
+    const openDebts = debts.filter((debt) => Number(debt.total_amount) > 0);
+    const ratesById = new Map(openDebts.map((debt) => [debt.id, debt]));
+    const withoutRate = openDebts.filter((debt) => debt.annual_rate == null).length;
+
+    // One row per month with the total balance left under each strategy.
+    const chartRows = useMemo(() => {
+        const length = Math.max(...PAYOFF_STRATEGIES.map((strategy) => plans[strategy].months.length), 0);
+        return Array.from({ length }, (_, index) => {
+            const month = PAYOFF_STRATEGIES.map((strategy) => plans[strategy].months[index]?.month).find(Boolean) as string;
+            return {
+                label: formatMonth(month),
+                ...Object.fromEntries(PAYOFF_STRATEGIES.map((strategy) => [strategy, plans[strategy].months[index]?.total_balance ?? 0])),
+            };
+        });
+    }, [plans]);
+
+    const moveDebt = (debtId: string, offset: number) => {
+        const order = [...plans.custom.order];
+        const index = order.indexOf(debtId);
+        const target = index + offset;
+        if (index < 0 || target < 0 || target >= order.length) return;
+        [order[index], order[target]] = [order[target], order[index]];
+        setSettings({ strategy: 'custom', custom_order: order });
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <TrendingDown className="h-5 w-5" />
+                    Plan de cancelación
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                {isLoading ? (
+                    <div className="flex justify-center p-8">
+                        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                    </div>
+                ) : openDebts.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-8">No hay deudas pendientes para planificar.</p>
+                ) : (
+                    <>
+                        <div className="grid gap-4 sm:grid-cols-2">
+                            <div className="space-y-2">
+                                <Label htmlFor="payoff-extra">Extra mensual (además de las cuotas)</Label>
+                                <Input
+                                    id="payoff-extra"
+                                    type="number"
+                                    step="0.01"
+                                    min="0"
+                                    value={settings.extra_monthly || ''}
+                                    onChange={(event) => setSettings({ extra_monthly: Math.max(Number(event.target.value) || 0, 0) })}
+                                    placeholder="0"
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="payoff-strategy">Estrategia</Label>
+                                <select
+                                    id="payoff-strategy"
+                                    className={selectClassName}
+                                    value={settings.strategy}
+                                    onChange={(event) => setSettings({ strategy: event.target.value as PayoffStrategy })}
+                                >
+                                    {PAYOFF_STRATEGIES.map((strategy) => (
+                                        <option key={strategy} value={strategy}>{PAYOFF_STRATEGY_LABELS[strategy]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+
+                        {withoutRate > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                                {withoutRate} deuda(s) sin tasa se simulan sin intereses. Cargá la TNA o TEA al editarlas.
+                            </p>
+                        )}
+
+                        <div className="grid gap-3 sm:grid-cols-3">
+                            {PAYOFF_STRATEGIES.map((strategy) => {
+                                const strategyPlan = plans[strategy];
+                                const isSelected = strategy === settings.strategy;
+                                return (
+                                    <button
+                                        key={strategy}
+                                        type="button"
+                                        onClick={() => setSettings({ strategy })}
+                                        className={`rounded-lg border p-3 text-left transition-colors ${isSelected ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'}`}
+                                    >
+                                        <p className="text-xs font-semibold uppercase tracking-wider" style={{ color: STRATEGY_COLORS[strategy] }}>
+                                            {PAYOFF_STRATEGY_LABELS[strategy]}
+                                        </p>
+                                        <p className="mt-1 text-lg font-bold">{formatMonth(strategyPlan.payoff_month)}</p>
+                                        <p className="text-xs text-muted-foreground">
+                                            {strategyPlan.payoff_month ? `${strategyPlan.months.length} meses` : `Más de ${MAX_PAYOFF_MONTHS / 12} años`}
+                                            {' • '}intereses {formatAmount(strategyPlan.total_interest)}
+                                        </p>
+                                    </button>
+                                );
+                            })}
+                        </div>
+
+                        {!plan.payoff_month && (
+                            <p className="text-sm text-destructive">
+                                Con este presupuesto los intereses superan a los pagos: sumá un extra mensual o revisá las cuotas.
+                            </p>
+                        )}
+
+                        {chartRows.length > 1 && (
+                            <div className="h-64">
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <LineChart data={chartRows} margin={{ top: 8, right: 4, left: 0, bottom: 0 }}>
+                                        <CartesianGrid strokeDasharray="3 3" vertical={false} opacity={0.3} />
+                                        <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fontSize: 12 }} minTickGap={24} />
+                                        <YAxis axisLine={false} tickLine={false} width={64} tickFormatter={(value) => `${value / 1000}k`} tick={{ fontSize: 12 }} />
+                                        <Tooltip
+                                            formatter={(value: any, name: any) => [formatAmount(Number(value)), PAYOFF_STRATEGY_LABELS[name as PayoffStrategy] || name]}
+                                            contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)' }}
+                                        />
+                                        <Legend formatter={(value: any) => PAYOFF_STRATEGY_LABELS[value as PayoffStrategy] || value} />
+                                        {PAYOFF_STRATEGIES.map((strategy) => (
+                                            <Line
+                                                key={strategy}
+                                                type="monotone"
+                                                dataKey={strategy}
+                                                stroke={STRATEGY_COLORS[strategy]}
+                                                strokeWidth={strategy === settings.strategy ? 3 : 1.5}
+                                                dot={false}
+                                            />
+                                        ))}
+                                    </LineChart>
+                                </ResponsiveContainer>
+                            </div>
+                        )}
+
+                        <div className="space-y-2">
+                            <p className="text-sm font-semibold">Orden de pago</p>
+                            {plan.debts.map((result, index) => {
+                                const debt = ratesById.get(result.debt_id);
+                                const payment = plan.next_payments.find((item) => item.debt_id === result.debt_id);
+                                return (
+                                    <div key={result.debt_id} className="flex items-center justify-between gap-3 rounded-md border px-3 py-2 text-sm">
+                                        <div className="min-w-0">
+                                            <p className="truncate font-medium">{index + 1}. {result.name}</p>
+                                            <p className="text-xs text-muted-foreground">
+                                                {debt?.annual_rate != null ? `${Number(debt.annual_rate)}% ${(debt.rate_kind || 'tna').toUpperCase()}` : 'Sin tasa'}
+                                                {' • '}se cancela {formatMonth(result.payoff_month)}
+                                                {' • '}intereses {formatAmount(result.interest)}
+                                            </p>
+                                            {payment && (
+                                                <p className="text-xs">
+                                                    Este mes: {formatAmount(payment.amount)}
+                                                    {payment.extra > 0 ? ` (cuota ${formatAmount(payment.minimum)} + extra ${formatAmount(payment.extra)})` : ''}
+                                                </p>
+                                            )}
+                                        </div>
+                                        {settings.strategy === 'custom' && (
+                                            <div className="flex gap-1">
+                                                <Button type="button" variant="ghost" size="icon" className="h-7 w-7" title="Subir" disabled={index === 0} onClick={() => moveDebt(result.debt_id, -1)}>
+                                                    <ArrowUp className="h-3.5 w-3.5" />
+                                                </Button>
+                                                <Button
+                                                    type="button"
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    className="h-7 w-7"
+                                                    title="Bajar"
+                                                    disabled={index === plan.debts.length - 1}
+                                                    onClick={() => moveDebt(result.debt_id, 1)}
+                                                >
+                                                    <ArrowDown className="h-3.5 w-3.5" />
+                                                </Button>
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
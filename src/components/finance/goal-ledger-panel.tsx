@@ -0,0 +1,364 @@
+'use client';
+
+import { FormEvent, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CategoryOptions } from '@/components/finance/category-options';
+import { useGoalContributions } from '@/hooks/use-goal-contributions';
+import { useAccounts } from '@/hooks/use-accounts';
+import { useTransactions } from '@/hooks/use-transactions';
+import { GOAL_CONTRIBUTION_SOURCE_LABELS, describeGoalRule, type GoalRuleMode } from '@/lib/goals';
+import { formatMoneyIn } from '@/lib/currency';
+import { Loader2, Pause, Play, Plus, Trash2 } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+
+const selectClassName = 'h-10 w-full rounded-md border border-input bg-background px-3 text-sm';
+
+// Movements offered for linking: the latest incomes and transfers, which is where savings come from.
+const LINKABLE_TRANSACTIONS = 30;
+
+type ContributionMode = 'transfer' | 'link';
+
+function formatDate(isoDate: string) {
+    return new Date(`${isoDate}T00:00:00`).toLocaleDateString('es-AR', { day: '2-digit', month: '2-digit', year: '2-digit' });
+}
+
+const formatAmount = (amount: number) => formatMoneyIn(amount, 'ARS', 0);
+
+type GoalLedgerPanelProps = {
+    goalId: string;
+    goalName: string;
+    targetAmount: number;
+    color: string;
+};
+
+export function GoalLedgerPanel({ goalId, goalName, targetAmount, color }: GoalLedgerPanelProps) {
+    const {
+        contributions,
+        rules,
+        timeline,
+        isAvailable,
+        isLoading,
+        error,
+        addContribution,
+        isAddingContribution,
+        deleteContribution,
+        isDeletingContribution,
+        addRule,
+        isAddingRule,
+        updateRule,
+        isUpdatingRule,
+        deleteRule,
+        isDeletingRule,
+    } = useGoalContributions(goalId);
+    const { accounts } = useAccounts();
+    const { transactions } = useTransactions();
+
+    const [mode, setMode] = useState<ContributionMode>('transfer');
+    const [amount, setAmount] = useState('');
+    const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+    const [fromAccountId, setFromAccountId] = useState('');
+    const [toAccountId, setToAccountId] = useState('');
+    const [transactionId, setTransactionId] = useState('');
+    const [notes, setNotes] = useState('');
+
+    const [ruleCategory, setRuleCategory] = useState('');
+    const [ruleMode, setRuleMode] = useState<GoalRuleMode>('percent');
+    const [ruleValue, setRuleValue] = useState('10');
+
+    const pesoAccounts = accounts.filter((account) => !account.is_archived && account.currency === 'ARS');
+    const linkedIds = useMemo(() => new Set(contributions.map((contribution) => contribution.transaction_id).filter(Boolean)), [contributions]);
+    const linkable = useMemo(() => (
+        transactions
+            .filter((transaction) => transaction.id && !linkedIds.has(transaction.id) && (transaction.type === 'income' || transaction.type === 'transfer'))
+            .slice(0, LINKABLE_TRANSACTIONS)
+    ), [transactions, linkedIds]);
+
+    const chartRows = timeline.map((point) => ({ ...point, label: formatDate(point.date) }));
+
+    const handleSelectTransaction = (id: string) => {
+        setTransactionId(id);
+        const transaction = linkable.find((item) => item.id === id);
+        if (transaction) {
+            setAmount(String(transaction.amount));
+            setDate(transaction.date);
+        }
+    };
+
+    const handleContribute = async (event: FormEvent) => {
+        event.preventDefault();
+        try {
+            await addContribution({
+                amount: Number(amount),
+                date,
+                transaction_id: mode === 'link' ? transactionId : null,
+                from_account_id: mode === 'transfer' ? fromAccountId : null,
+                to_account_id: mode === 'transfer' ? toAccountId : null,
+                notes: notes.trim() || null,
+            });
+            setAmount('');
+            setTransactionId('');
+            setNotes('');
+        } catch {
+            // toast handled in hook
+        }
+    };
+
+    const handleDeleteContribution = async (contributionId: string) => {
+        const approved = window.confirm('¿Quitar este aporte de la meta? El movimiento vinculado no se elimina.');
+        if (!approved) return;
+        try {
+            await deleteContribution(contributionId);
+        } catch {
+            // toast handled in hook
+        }
+    };
+
+    const handleAddRule = async (event: FormEvent) => {
+        event.preventDefault();
+        try {
+            await addRule({
+                category: ruleCategory.trim() || null,
+                mode: ruleMode,
+                value: Number(ruleValue),
+                is_active: true,
+            });
+            setRuleCategory('');
+        } catch {
+            // toast handled in hook
+        }
+    };
+
+    const handleDeleteRule = async (ruleId: string) => {
+        const approved = window.confirm('¿Eliminar esta regla? Los aportes que ya generó se mantienen.');
+        if (!approved) return;
+        try {
+            await deleteRule(ruleId);
+        } catch {
+            // toast handled in hook
+        }
+    };
+
+    if (isLoading) {
+        return (
+            <div className="flex justify-center border-t p-4">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+        );
+    }
+
+    if (error) return <p className="border-t pt-4 text-sm text-destructive">{error}</p>;
+
+    if (!isAvailable) {
+        return (
+            <p className="border-t pt-4 text-sm text-muted-foreground">
+                Para registrar aportes y reglas de ahorro ejecuta supabase-goal-contributions.sql en Supabase SQL Editor.
+            </p>
+        );
+    }
+
+    return (
+        <div className="space-y-5 border-t pt-4">
+            {chartRows.length > 1 && (
+                <div className="h-44">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={chartRows} margin={{ top: 8, right: 4, left: 0, bottom: 0 }}>
+                            <CartesianGrid strokeDasharray="3 3" vertical={false} opacity={0.3} />
+                            <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fontSize: 11 }} />
+                            <YAxis axisLine={false} tickLine={false} width={56} tickFormatter={(value) => `${value / 1000}k`} tick={{ fontSize: 11 }} />
+                            <Tooltip
+                                formatter={(value: any) => [formatAmount(Number(value)), 'Ahorrado']}
+                                contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 12px rgba(0,0,0,0.1)' }}
+                            />
+                            <ReferenceLine y={targetAmount} stroke="#a1a1aa" strokeDasharray="4 4" />
+                            <Line type="stepAfter" dataKey="total" stroke={color} strokeWidth={2} dot={false} />
+                        </LineChart>
+                    </ResponsiveContainer>
+                </div>
+            )}
+
+            <div className="space-y-2">
+                <p className="text-sm font-semibold">Aportes</p>
+                {contributions.length > 0 ? (
+                    <div className="max-h-56 space-y-1 overflow-y-auto">
+                        {[...contributions].reverse().map((contribution) => (
+                            <div key={contribution.id} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2 text-sm">
+                                <div className="min-w-0">
+                                    <p className="truncate font-medium">
+                                        {contribution.transactions?.description || contribution.notes || GOAL_CONTRIBUTION_SOURCE_LABELS[contribution.source]}
+                                    </p>
+                                    <p className="text-xs text-muted-foreground">
+                                        {formatDate(contribution.date)} • {GOAL_CONTRIBUTION_SOURCE_LABELS[contribution.source]}
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-1">
+                                    <span className={Number(contribution.amount) < 0 ? 'font-semibold text-destructive' : 'font-semibold'}>
+                                        {formatAmount(Number(contribution.amount))}
+                                    </span>
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-7 w-7 text-destructive hover:text-destructive"
+                                        title="Quitar aporte"
+                                        disabled={isDeletingContribution}
+                                        onClick={() => handleDeleteContribution(contribution.id)}
+                                    >
+                                        <Trash2 className="h-3.5 w-3.5" />
+                                    </Button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                ) : (
+                    <p className="text-sm text-muted-foreground">Todavía no hay aportes para {goalName}.</p>
+                )}
+            </div>
+
+            <form onSubmit={handleContribute} className="grid gap-3 rounded-lg border p-3 md:grid-cols-2">
+                <div className="space-y-1 md:col-span-2">
+                    <Label htmlFor={`goal-${goalId}-mode`}>Aportar</Label>
+                    <select
+                        id={`goal-${goalId}-mode`}
+                        className={selectClassName}
+                        value={mode}
+                        onChange={(event) => setMode(event.target.value as ContributionMode)}
+                    >
+                        <option value="transfer">Transferir entre cuentas</option>
+                        <option value="link">Vincular un movimiento existente</option>
+                    </select>
+                </div>
+
+                {mode === 'transfer' ? (
+                    <>
+                        <div className="space-y-1">
+                            <Label htmlFor={`goal-${goalId}-from`}>Desde</Label>
+                            <select id={`goal-${goalId}-from`} className={selectClassName} value={fromAccountId} onChange={(event) => setFromAccountId(event.target.value)} required>
+                                <option value="">Elegí una cuenta</option>
+                                {pesoAccounts.map((account) => <option key={account.id} value={account.id}>{account.name}</option>)}
+                            </select>
+                        </div>
+                        <div className="space-y-1">
+                            <Label htmlFor={`goal-${goalId}-to`}>Hacia</Label>
+                            <select id={`goal-${goalId}-to`} className={selectClassName} value={toAccountId} onChange={(event) => setToAccountId(event.target.value)} required>
+                                <option value="">Elegí una cuenta</option>
+                                {pesoAccounts.map((account) => <option key={account.id} value={account.id}>{account.name}</option>)}
+                            </select>
+                        </div>
+                    </>
+                ) : (
+                    <div className="space-y-1 md:col-span-2">
+                        <Label htmlFor={`goal-${goalId}-transaction`}>Movimiento</Label>
+                        <select
+                            id={`goal-${goalId}-transaction`}
+                            className={selectClassName}
+                            value={transactionId}
+                            onChange={(event) => handleSelectTransaction(event.target.value)}
+                            required
+                        >
+                            <option value="">Elegí un ingreso o transferencia</option>
+                            {linkable.map((transaction) => (
+                                <option key={transaction.id} value={transaction.id}>
+                                    {formatDate(transaction.date)} • {transaction.description} • {formatAmount(Number(transaction.amount))}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                )}
+
+                <div className="space-y-1">
+                    <Label htmlFor={`goal-${goalId}-amount`}>Monto</Label>
+                    <Input
+                        id={`goal-${goalId}-amount`}
+                        type="number"
+                        step="0.01"
+                        min={mode === 'transfer' ? '0.01' : undefined}
+                        value={amount}
+                        onChange={(event) => setAmount(event.target.value)}
+                        required
+                    />
+                </div>
+                <div className="space-y-1">
+                    <Label htmlFor={`goal-${goalId}-date`}>Fecha</Label>
+                    <Input id={`goal-${goalId}-date`} type="date" value={date} onChange={(event) => setDate(event.target.value)} required />
+                </div>
+                <Input
+                    className="md:col-span-2"
+                    value={notes}
+                    onChange={(event) => setNotes(event.target.value)}
+                    placeholder="Nota (opcional)"
+                    maxLength={300}
+                />
+                <div className="md:col-span-2">
+                    <Button type="submit" size="sm" disabled={isAddingContribution}>
+                        {isAddingContribution ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                        Registrar aporte
+                    </Button>
+                </div>
+            </form>
+
+            <div className="space-y-2">
+                <p className="text-sm font-semibold">Ahorro automático</p>
+                {rules.map((rule) => (
+                    <div key={rule.id} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2 text-sm">
+                        <span className={rule.is_active === false ? 'text-muted-foreground line-through' : ''}>{describeGoalRule(rule)}</span>
+                        <div className="flex items-center gap-1">
+                            <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7"
+                                title={rule.is_active === false ? 'Reactivar regla' : 'Pausar regla'}
+                                disabled={isUpdatingRule}
+                                onClick={() => updateRule({ id: rule.id, is_active: rule.is_active === false }).catch(() => undefined)}
+                            >
+                                {rule.is_active === false ? <Play className="h-3.5 w-3.5" /> : <Pause className="h-3.5 w-3.5" />}
+                            </Button>
+                            <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7 text-destructive hover:text-destructive"
+                                title="Eliminar regla"
+                                disabled={isDeletingRule}
+                                onClick={() => handleDeleteRule(rule.id)}
+                            >
+                                <Trash2 className="h-3.5 w-3.5" />
+                            </Button>
+                        </div>
+                    </div>
+                ))}
+
+                <form onSubmit={handleAddRule} className="grid gap-2 md:grid-cols-[1fr_auto_6rem_auto]">
+                    <Input
+                        list={`goal-${goalId}-categories`}
+                        value={ruleCategory}
+                        onChange={(event) => setRuleCategory(event.target.value)}
+                        placeholder="Categoría de ingreso (vacío = todos)"
+                    />
+                    <CategoryOptions id={`goal-${goalId}-categories`} kind="income" />
+                    <select className={selectClassName} value={ruleMode} onChange={(event) => setRuleMode(event.target.value as GoalRuleMode)}>
+                        <option value="percent">%</option>
+                        <option value="fixed">$ fijo</option>
+                    </select>
+                    <Input
+                        type="number"
+                        step="0.01"
+                        min="0.01"
+                        max={ruleMode === 'percent' ? '100' : undefined}
+                        value={ruleValue}
+                        onChange={(event) => setRuleValue(event.target.value)}
+                        required
+                    />
+                    <Button type="submit" size="sm" className="h-10" disabled={isAddingRule}>
+                        {isAddingRule ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                    </Button>
+                </form>
+                <p className="text-xs text-muted-foreground">
+                    Cada ingreso que coincida aparta el monto para esta meta, sin superar lo que le falta.
+                </p>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { InstallmentPlanInputSchema, InstallmentPlanInput } from '@/lib/schemas';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useInstallmentPlans } from '@/hooks/use-installments';
+import { useCreditCards } from '@/hooks/use-credit-cards';
+import { Loader2 } from 'lucide-react';
+
+const selectClassName = 'h-10 w-full rounded-md border border-input bg-background px-3 text-sm';
+
+function isoToday() {
+    return new Date().toISOString().split('T')[0];
+}
+
+const defaultValues = (): Partial<InstallmentPlanInput> => ({
+    card_id: null,
+    description: '',
+    merchant: '',
+    purchase_date: isoToday(),
+    total_installments: 12,
+    currency: 'ARS',
+    paid_installments: 0,
+});
+
+export function InstallmentPlanForm() {
+    const { addPlan, isAdding } = useInstallmentPlans();
+    const { cards } = useCreditCards();
+    const activeCards = cards.filter((card) => !card.is_archived);
+
+    const { register, handleSubmit, reset, formState: { errors } } = useForm<InstallmentPlanInput>({
+        resolver: zodResolver(InstallmentPlanInputSchema),
+        defaultValues: defaultValues(),
+    });
+
+    const onSubmit = async (data: InstallmentPlanInput) => {
+        try {
+            await addPlan({
+                ...data,
+                card_id: data.card_id || null,
+                merchant: data.merchant?.trim() || null,
+                first_charge_date: data.first_charge_date || null,
+            });
+            reset(defaultValues());
+        } catch {
+            // Error feedback is already handled by the mutation hook.
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Nueva Compra en Cuotas</CardTitle>
+            </CardHeader>
+            <CardContent>
+                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="installment-description">Descripción</Label>
+                        <Input id="installment-description" placeholder="Ej: Heladera" {...register('description')} />
+                        {errors.description && <p className="text-xs text-destructive">{errors.description.message}</p>}
+                    </div>
+
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                        <div className="space-y-2">
+                            <Label htmlFor="installment-card">Tarjeta</Label>
+                            <select
+                                id="installment-card"
+                                className={selectClassName}
+                                {...register('card_id', { setValueAs: (value: string) => (value ? value : null) })}
+                            >
+                                <option value="">Sin tarjeta</option>
+                                {activeCards.map((card) => (
+                                    <option key={card.id} value={card.id}>
+                                        {card.name}{card.last4 ? ` •••• ${card.last4}` : ''}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="installment-merchant">Comercio</Label>
+                            <Input id="installment-merchant" placeholder="Opcional" {...register('merchant')} />
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                        <div className="space-y-2">
+                            <Label htmlFor="installment-total">Cuotas</Label>
+                            <Input id="installment-total" type="number" min="1" max="120" {...register('total_installments', { valueAsNumber: true })} />
+                            {errors.total_installments && <p className="text-xs text-destructive">{errors.total_installments.message}</p>}
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="installment-amount">Monto por cuota</Label>
+                            <Input id="installment-amount" type="number" step="0.01" {...register('installment_amount', { valueAsNumber: true })} />
+                            {errors.installment_amount && <p className="text-xs text-destructive">{errors.installment_amount.message}</p>}
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="installment-currency">Moneda</Label>
+                            <select id="installment-currency" className={selectClassName} {...register('currency')}>
+                                <option value="ARS">ARS</option>
+                                <option value="USD">USD</option>
+                            </select>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                        <div className="space-y-2">
+                            <Label htmlFor="installment-purchase-date">Fecha de compra</Label>
+                            <Input id="installment-purchase-date" type="date" {...register('purchase_date')} />
+                            {errors.purchase_date && <p className="text-xs text-destructive">{errors.purchase_date.message}</p>}
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="installment-first-charge">Primera cuota</Label>
+                            <Input
+                                id="installment-first-charge"
+                                type="date"
+                                {...register('first_charge_date', { setValueAs: (value: string) => (value ? value : null) })}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="installment-paid">Ya pagadas</Label>
+                            <Input id="installment-paid" type="number" min="0" {...register('paid_installments', { valueAsNumber: true })} />
+                            {errors.paid_installments && <p className="text-xs text-destructive">{errors.paid_installments.message}</p>}
+                        </div>
+                    </div>
+
+                    <p className="text-xs text-muted-foreground">
+                        Se programa una cuota por mes. Si no indicás la primera cuota, se toma la fecha de compra.
+                    </p>
+
+                    <Button type="submit" className="w-full" disabled={isAdding}>
+                        {isAdding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                        Registrar Compra
+                    </Button>
+                </form>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { InstallmentPlanForm } from '@/components/finance/installment-plan-form';
+import { CommittedInstallmentsCard } from '@/components/finance/committed-installments-card';
+import { useInstallmentPlans, type InstallmentPlanWithProgress } from '@/hooks/use-installments';
+import { useCreditCards } from '@/hooks/use-credit-cards';
+import { formatMoneyIn, normalizeCurrency } from '@/lib/currency';
+import { Ban, Layers, Loader2, Trash2 } from 'lucide-react';
+
+function formatDate(isoDate: string) {
+    return new Date(`${isoDate}T00:00:00`).toLocaleDateString('es-AR', { day: '2-digit', month: '2-digit', year: '2-digit' });
+}
+
+function InstallmentPlanItem({ plan, cardName }: { plan: InstallmentPlanWithProgress; cardName: string | null }) {
+    const { updatePlan, deletePlan, isUpdating, isDeleting } = useInstallmentPlans();
+    const currency = normalizeCurrency(plan.currency);
+    const progress = plan.total_installments > 0 ? (plan.billed_installments / plan.total_installments) * 100 : 0;
+
+    const handleCancel = async () => {
+        const approved = window.confirm(`¿Cancelar las cuotas pendientes de "${plan.description}"?`);
+        if (!approved) return;
+        try {
+            await updatePlan({ planId: plan.id, changes: { status: 'cancelled' } });
+        } catch {
+            // toast handled in hook
+        }
+    };
+
+    const handleDelete = async () => {
+        const approved = window.confirm(`¿Seguro que quieres eliminar "${plan.description}"?`);
+        if (!approved) return;
+        try {
+            await deletePlan(plan.id);
+        } catch {
+            // toast handled in hook
+        }
+    };
+
+    return (
+        <div className="space-y-2 rounded-lg border p-4">
+            <div className="flex items-start justify-between gap-3">
+                <div className="flex items-center gap-3">
+                    <div className="rounded-full bg-primary/10 p-2 text-primary">
+                        <Layers className="h-4 w-4" />
+                    </div>
+                    <div>
+                        <p className="font-bold">{plan.description}</p>
+                        <p className="text-xs text-muted-foreground">
+                            {[plan.merchant, cardName].filter(Boolean).join(' • ') || 'Sin tarjeta'}
+                            {' • '}{plan.total_installments} cuotas de {formatMoneyIn(Number(plan.installment_amount), currency)}
+                        </p>
+                    </div>
+                </div>
+                <div className="flex items-center gap-1">
+                    {plan.status === 'active' && (
+                        <Button type="button" variant="ghost" size="icon" className="h-8 w-8" title="Cancelar cuotas pendientes" disabled={isUpdating} onClick={handleCancel}>
+                            <Ban className="h-4 w-4" />
+                        </Button>
+                    )}
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        title="Eliminar plan"
+                        disabled={isDeleting}
+                        onClick={handleDelete}
+                    >
+                        <Trash2 className="h-4 w-4" />
+                    </Button>
+                </div>
+            </div>
+
+            <div className="h-1.5 w-full overflow-hidden rounded-full bg-muted">
+                <div className="h-full rounded-full bg-primary" style={{ width: `${progress}%` }} />
+            </div>
+
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>
+                    {plan.billed_installments}/{plan.total_installments} facturadas
+                    {plan.next_charge ? ` • próxima vence ${formatDate(plan.next_charge.due_date)}` : ''}
+                </span>
+                <span className="font-semibold text-foreground">
+                    {plan.remaining_installments > 0 ? `Resta ${formatMoneyIn(plan.remaining_amount, currency)}` : 'Completo'}
+                </span>
+            </div>
+        </div>
+    );
+}
+
+export function InstallmentsPanel() {
+    const { plans, committed, isLoading, error } = useInstallmentPlans();
+    const { cards } = useCreditCards();
+    const cardNames = new Map(cards.map((card) => [card.id, card.name]));
+
+    return (
+        <div className="grid gap-6 md:grid-cols-2">
+            <div className="space-y-6">
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Compras en Cuotas</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        {isLoading ? (
+                            <div className="flex justify-center p-8">
+                                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                            </div>
+                        ) : error ? (
+                            <p className="text-sm text-destructive">{error}</p>
+                        ) : plans.length > 0 ? (
+                            <div className="space-y-4">
+                                {plans.map((plan) => (
+                                    <InstallmentPlanItem
+                                        key={plan.id}
+                                        plan={plan}
+                                        cardName={plan.card_id ? cardNames.get(plan.card_id) ?? null : null}
+                                    />
+                                ))}
+                            </div>
+                        ) : (
+                            <p className="py-8 text-center text-sm text-muted-foreground">Todavía no registraste compras en cuotas.</p>
+                        )}
+                    </CardContent>
+                </Card>
+                <CommittedInstallmentsCard committed={committed} isLoading={isLoading} />
+            </div>
+            <InstallmentPlanForm />
+        </div>
+    );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { LoanInputSchema, LoanInput } from '@/lib/schemas';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CategoryOptions } from '@/components/finance/category-options';
+import { useLoans } from '@/hooks/use-loans';
+import { DEBT_RATE_KIND_LABELS, type DebtRateKind } from '@/lib/debt-payoff';
+import { LOAN_SYSTEMS, LOAN_SYSTEM_LABELS, loanStateFromTerms, nextInstallment } from '@/lib/loans';
+import { formatMoneyIn } from '@/lib/currency';
+import { Loader2 } from 'lucide-react';
+
+const selectClassName = 'h-10 w-full rounded-md border border-input bg-background px-3 text-sm';
+
+function loanDefaults(): Partial<LoanInput> {
+    return {
+        loan_system: 'french',
+        rate_kind: 'tna',
+        paid_installments: 0,
+        first_payment_date: new Date().toISOString().split('T')[0],
+    };
+}
+
+export function LoanForm() {
+    const { addLoan, isAddingLoan } = useLoans();
+
+    const { register, handleSubmit, reset, watch, formState: { errors } } = useForm<LoanInput>({
+        resolver: zodResolver(LoanInputSchema),
+        defaultValues: loanDefaults(),
+    });
+
+    const [system, principal, annualRate, rateKind, totalInstallments, paidInstallments, firstPaymentDate] = watch([
+        'loan_system', 'principal', 'annual_rate', 'rate_kind', 'total_installments', 'paid_installments', 'first_payment_date',
+    ]);
+    const isUva = system === 'uva';
+
+    // Installment the schedule starts with, before any payment is confirmed.
+    const preview = Number(principal) > 0 && Number(totalInstallments) > 0 && Number(paidInstallments || 0) < Number(totalInstallments)
+        ? nextInstallment(loanStateFromTerms({
+            loan_system: system,
+            principal: Number(principal),
+            annual_rate: Number(annualRate) || 0,
+            rate_kind: rateKind,
+            total_installments: Math.trunc(Number(totalInstallments)),
+            paid_installments: Math.trunc(Number(paidInstallments) || 0),
+            first_payment_date: firstPaymentDate || new Date().toISOString().split('T')[0],
+        }))
+        : null;
+
+    const onSubmit = async (data: LoanInput) => {
+        try {
+            await addLoan(data);
+            reset(loanDefaults());
+        } catch {
+            // Error feedback is already handled by the mutation hook.
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                    <Label htmlFor="loan_name">Nombre / Entidad</Label>
+                    <Input id="loan_name" placeholder="Ej: Hipotecario Banco Nación" {...register('name')} />
+                    {errors.name && <p className="text-xs text-destructive">{errors.name.message}</p>}
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="loan_category">Categoría</Label>
+                    <Input id="loan_category" placeholder="Ej: Vivienda" list="loan-category-options" {...register('category')} />
+                    <CategoryOptions id="loan-category-options" kind="expense" />
+                    {errors.category && <p className="text-xs text-destructive">{errors.category.message}</p>}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                    <Label htmlFor="loan_system">Sistema</Label>
+                    <select id="loan_system" className={selectClassName} {...register('loan_system')}>
+                        {LOAN_SYSTEMS.map((item) => (
+                            <option key={item} value={item}>{LOAN_SYSTEM_LABELS[item]}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="loan_principal">{isUva ? 'Capital en UVAs' : 'Capital'}</Label>
+                    <Input id="loan_principal" type="number" step="0.0001" {...register('principal')} />
+                    {errors.principal && <p className="text-xs text-destructive">{errors.principal.message}</p>}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                    <Label htmlFor="loan_annual_rate">Tasa anual %</Label>
+                    <Input id="loan_annual_rate" type="number" step="0.01" placeholder={isUva ? 'Ej: 4,5 (sobre UVA)' : 'Ej: 60'} {...register('annual_rate')} />
+                    {errors.annual_rate && <p className="text-xs text-destructive">{errors.annual_rate.message}</p>}
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="loan_rate_kind">Tipo de tasa</Label>
+                    <select id="loan_rate_kind" className={selectClassName} {...register('rate_kind')}>
+                        {(Object.keys(DEBT_RATE_KIND_LABELS) as DebtRateKind[]).map((kind) => (
+                            <option key={kind} value={kind}>{DEBT_RATE_KIND_LABELS[kind]}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                <div className="space-y-2">
+                    <Label htmlFor="loan_total_installments">Plazo (cuotas)</Label>
+                    <Input id="loan_total_installments" type="number" {...register('total_installments')} />
+                    {errors.total_installments && <p className="text-xs text-destructive">{errors.total_installments.message}</p>}
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="loan_paid_installments">Cuotas ya pagadas</Label>
+                    <Input id="loan_paid_installments" type="number" {...register('paid_installments')} />
+                    {errors.paid_installments && <p className="text-xs text-destructive">{errors.paid_installments.message}</p>}
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="loan_first_payment_date">Primera cuota</Label>
+                    <Input id="loan_first_payment_date" type="date" {...register('first_payment_date')} />
+                    {errors.first_payment_date && <p className="text-xs text-destructive">{errors.first_payment_date.message}</p>}
+                </div>
+            </div>
+
+            {preview != null && (
+                <p className="text-xs text-muted-foreground">
+                    Próxima cuota: <span className="font-semibold">
+                        {isUva ? `${preview.toLocaleString('es-AR', { maximumFractionDigits: 2 })} UVAs` : formatMoneyIn(preview, 'ARS', 2)}
+                    </span>
+                    {system === 'german' ? ' (baja cada mes)' : ''}
+                    {isUva ? '. Se convierte a pesos con la serie UVA cargada en Índices.' : ''}
+                </p>
+            )}
+
+            <Button type="submit" className="w-full" disabled={isAddingLoan}>
+                {isAddingLoan ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+                Registrar Préstamo
+            </Button>
+        </form>
+    );
+}
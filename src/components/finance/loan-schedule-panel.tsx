@@ -0,0 +1,167 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useLoanSchedule } from '@/hooks/use-loans';
+import { LOAN_SYSTEM_LABELS, PREPAYMENT_MODE_LABELS, scheduleTotals, simulatePrepayment, type PrepaymentMode } from '@/lib/loans';
+import { formatMoneyIn } from '@/lib/currency';
+import { Loader2 } from 'lucide-react';
+
+const PREVIEW_ROWS = 12;
+
+const formatAmount = (amount: number) => formatMoneyIn(amount, 'ARS', 0);
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('es-AR');
+
+export function LoanSchedulePanel({ debtId }: { debtId: string }) {
+    const { schedule, isLoading, error } = useLoanSchedule(debtId);
+    const [prepayment, setPrepayment] = useState('');
+    const [showAll, setShowAll] = useState(false);
+
+    const isUva = schedule?.state.system === 'uva';
+    // Loan units to pesos: the UVA value for UVA loans, 1 otherwise.
+    const unitValue = isUva ? schedule?.unit_value ?? null : 1;
+    const toPesos = (units: number) => (unitValue != null ? formatAmount(units * unitValue) : `${units.toFixed(2)} UVAs`);
+
+    const simulations = useMemo(() => {
+        const amount = Number(prepayment);
+        if (!schedule || !(amount > 0) || unitValue == null) return null;
+        const units = amount / unitValue;
+        return (['reduce_term', 'reduce_installment'] as PrepaymentMode[]).map((mode) => ({
+            mode,
+            result: simulatePrepayment(schedule.state, units, mode),
+        }));
+    }, [schedule, prepayment, unitValue]);
+
+    if (isLoading) {
+        return (
+            <div className="flex justify-center p-4">
+                <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+        );
+    }
+    if (error || !schedule) {
+        return <p className="text-xs text-destructive">{error || 'No se pudo cargar la tabla de amortización.'}</p>;
+    }
+
+    const totals = scheduleTotals(schedule.schedule);
+    const rows = showAll ? schedule.schedule : schedule.schedule.slice(0, PREVIEW_ROWS);
+
+    return (
+        <div className="space-y-4 border-t pt-4">
+            <div className="grid gap-2 text-xs sm:grid-cols-3">
+                <p>{LOAN_SYSTEM_LABELS[schedule.state.system]}</p>
+                <p>Capital pendiente: <span className="font-semibold">{toPesos(schedule.state.balance)}</span></p>
+                <p>Intereses por pagar: <span className="font-semibold">{toPesos(totals.interest)}</span></p>
+            </div>
+            {isUva && (
+                <p className="text-xs text-muted-foreground">
+                    {unitValue != null
+                        ? `Cuotas futuras al último valor UVA cargado (${unitValue.toLocaleString('es-AR')}). Saldo: ${schedule.state.balance.toLocaleString('es-AR', { maximumFractionDigits: 2 })} UVAs.`
+                        : 'Cargá la serie UVA en Índices para ver las cuotas en pesos.'}
+                </p>
+            )}
+
+            <div className="space-y-2">
+                <Label htmlFor={`prepayment-${debtId}`}>Simular adelanto de capital</Label>
+                <Input
+                    id={`prepayment-${debtId}`}
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={prepayment}
+                    onChange={(event) => setPrepayment(event.target.value)}
+                    placeholder="Monto en pesos"
+                    className="h-9"
+                />
+                {simulations && (
+                    <div className="grid gap-2 sm:grid-cols-2">
+                        {simulations.map(({ mode, result }) => (
+                            <div key={mode} className="rounded-md border p-2 text-xs">
+                                <p className="font-semibold">{PREPAYMENT_MODE_LABELS[mode]}</p>
+                                <p>Cuota: {toPesos(result.installment_before)} → {toPesos(result.installment_after)}</p>
+                                <p>Cuotas: {result.installments_before} → {result.installments_after}</p>
+                                <p className="text-emerald-600">Ahorro en intereses: {toPesos(result.interest_saved)}</p>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {schedule.payments.length > 0 && (
+                <div className="space-y-1">
+                    <p className="text-sm font-semibold">Pagos imputados</p>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-xs">
+                            <thead className="text-muted-foreground">
+                                <tr className="border-b text-left">
+                                    <th className="py-1.5 pr-2 font-medium">Cuota</th>
+                                    <th className="py-1.5 pr-2 font-medium">Fecha</th>
+                                    <th className="py-1.5 pr-2 text-right font-medium">Pagado</th>
+                                    <th className="py-1.5 pr-2 text-right font-medium">Interés</th>
+                                    <th className="py-1.5 text-right font-medium">Capital</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {schedule.payments.map((payment) => (
+                                    <tr key={payment.id} className="border-b last:border-0">
+                                        <td className="py-1.5 pr-2">{payment.installment_number}</td>
+                                        <td className="py-1.5 pr-2">{formatDate(payment.payment_date)}</td>
+                                        <td className="py-1.5 pr-2 text-right">{formatAmount(Number(payment.amount))}</td>
+                                        <td className="py-1.5 pr-2 text-right">{formatAmount(Number(payment.interest))}</td>
+                                        <td className="py-1.5 text-right">
+                                            {formatAmount(Number(payment.principal))}
+                                            {Number(payment.prepayment) > 0 && (
+                                                <span className="block text-muted-foreground">
+                                                    adelanto {formatAmount(Number(payment.prepayment))}
+                                                    {payment.prepayment_mode ? ` · ${PREPAYMENT_MODE_LABELS[payment.prepayment_mode].toLowerCase()}` : ''}
+                                                </span>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            <div className="space-y-1">
+                <p className="text-sm font-semibold">Cuotas pendientes</p>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-xs">
+                        <thead className="text-muted-foreground">
+                            <tr className="border-b text-left">
+                                <th className="py-1.5 pr-2 font-medium">Cuota</th>
+                                <th className="py-1.5 pr-2 font-medium">Vence</th>
+                                <th className="py-1.5 pr-2 text-right font-medium">Total</th>
+                                <th className="py-1.5 pr-2 text-right font-medium">Interés</th>
+                                <th className="py-1.5 pr-2 text-right font-medium">Capital</th>
+                                <th className="py-1.5 text-right font-medium">Saldo</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map((row) => (
+                                <tr key={row.number} className="border-b last:border-0">
+                                    <td className="py-1.5 pr-2">{row.number}</td>
+                                    <td className="py-1.5 pr-2">{formatDate(row.due_date)}</td>
+                                    <td className="py-1.5 pr-2 text-right font-medium">{toPesos(row.installment)}</td>
+                                    <td className="py-1.5 pr-2 text-right">{toPesos(row.interest)}</td>
+                                    <td className="py-1.5 pr-2 text-right">{toPesos(row.principal)}</td>
+                                    <td className="py-1.5 text-right">{toPesos(row.balance)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                {schedule.schedule.length > PREVIEW_ROWS && (
+                    <Button type="button" variant="ghost" size="sm" onClick={() => setShowAll((value) => !value)}>
+                        {showAll ? 'Ver menos' : `Ver las ${schedule.schedule.length} cuotas`}
+                    </Button>
+                )}
+            </div>
+        </div>
+    );
+}
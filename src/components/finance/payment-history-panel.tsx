@@ -0,0 +1,80 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { formatMoneyIn } from '@/lib/currency';
+import type { PaymentHistoryEntry } from '@/lib/payments';
+import { Loader2, Undo2 } from 'lucide-react';
+
+const SOURCE_LABELS: Record<string, string> = {
+    manual: 'Manual',
+    copilot: 'Copiloto',
+    audit: 'Histórico',
+};
+
+const formatAmount = (amount: number) => formatMoneyIn(amount, 'ARS', 0);
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('es-AR');
+
+type PaymentHistoryPanelProps = {
+    entries: PaymentHistoryEntry[];
+    onUndo: (paymentId: string) => void;
+    undoingPaymentId: string | null;
+};
+
+/** Payments of one obligation or debt with the balance each one left; the latest can be undone. */
+export function PaymentHistoryPanel({ entries, onUndo, undoingPaymentId }: PaymentHistoryPanelProps) {
+    if (entries.length === 0) {
+        return <p className="border-t pt-4 text-xs text-muted-foreground">Todavía no hay pagos registrados.</p>;
+    }
+
+    return (
+        <div className="space-y-1 border-t pt-4">
+            <p className="text-sm font-semibold">Historial de pagos</p>
+            <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                    <thead className="text-muted-foreground">
+                        <tr className="border-b text-left">
+                            <th className="py-1.5 pr-2 font-medium">Fecha</th>
+                            <th className="py-1.5 pr-2 font-medium">Origen</th>
+                            <th className="py-1.5 pr-2 text-right font-medium">Pagado</th>
+                            <th className="py-1.5 pr-2 text-right font-medium">Acumulado</th>
+                            <th className="py-1.5 pr-2 text-right font-medium">Saldo restante</th>
+                            <th className="py-1.5 text-right font-medium" aria-label="Acciones" />
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {entries.map((entry) => {
+                            const isUndone = Boolean(entry.undone_at);
+                            return (
+                                <tr key={entry.id} className={`border-b last:border-0 ${isUndone ? 'text-muted-foreground line-through' : ''}`}>
+                                    <td className="py-1.5 pr-2">{formatDate(entry.payment_date)}</td>
+                                    <td className="py-1.5 pr-2">{SOURCE_LABELS[entry.source] || entry.source}</td>
+                                    <td className="py-1.5 pr-2 text-right font-medium">{formatAmount(Number(entry.amount))}</td>
+                                    <td className="py-1.5 pr-2 text-right">{isUndone ? '—' : formatAmount(entry.paid_to_date)}</td>
+                                    <td className="py-1.5 pr-2 text-right">
+                                        {entry.balance_after != null ? formatAmount(Number(entry.balance_after)) : '—'}
+                                    </td>
+                                    <td className="py-1 text-right">
+                                        {entry.can_undo && (
+                                            <Button
+                                                type="button"
+                                                variant="ghost"
+                                                size="sm"
+                                                className="h-7 px-2"
+                                                onClick={() => onUndo(entry.id)}
+                                                disabled={undoingPaymentId != null}
+                                                title="Deshacer pago"
+                                            >
+                                                {undoingPaymentId === entry.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <Undo2 className="h-3 w-3" />}
+                                            </Button>
+                                        )}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
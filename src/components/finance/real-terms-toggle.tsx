@@ -0,0 +1,100 @@
+'use client';
+
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { deflatorMonths, missingDeflatorMonths, type Deflator, type RealTermsSettings } from '@/lib/inflation';
+import { cn } from '@/lib/utils';
+
+type RealTermsToggleProps = {
+    settings: RealTermsSettings;
+    onChange: (changes: Partial<RealTermsSettings>) => void;
+    deflator: Deflator | null;
+    className?: string;
+};
+
+const MAX_LISTED_MONTHS = 12;
+
+function formatMonth(month: string) {
+    return new Date(`${month}-01T00:00:00`).toLocaleDateString('es-AR', { month: 'short', year: 'numeric' });
+}
+
+export function RealTermsToggle({ settings, onChange, deflator, className }: RealTermsToggleProps) {
+    return (
+        <div className={cn('inline-flex items-center gap-2', className)}>
+            <div className="inline-flex items-center gap-1 rounded-full border p-1" role="group" aria-label="Montos nominales o reales">
+                {([false, true] as const).map((enabled) => (
+                    <Button
+                        key={String(enabled)}
+                        type="button"
+                        size="sm"
+                        variant={settings.enabled === enabled ? 'default' : 'ghost'}
+                        className="h-7 rounded-full px-3"
+                        onClick={() => onChange({ enabled })}
+                        aria-pressed={settings.enabled === enabled}
+                    >
+                        {enabled ? 'Real' : 'Nominal'}
+                    </Button>
+                ))}
+            </div>
+            {settings.enabled ? (
+                <Input
+                    type="month"
+                    aria-label="Mes base"
+                    className="h-9 w-[9.5rem]"
+                    value={settings.base_month || deflator?.base_month || ''}
+                    onChange={(event) => onChange({ base_month: event.target.value })}
+                />
+            ) : null}
+        </div>
+    );
+}
+
+type DeflatorNoteProps = {
+    settings: RealTermsSettings;
+    deflator: Deflator | null;
+    // Months shown on screen; their factors are listed so every real figure can be traced back.
+    months?: string[];
+    isUnavailable?: boolean;
+    className?: string;
+};
+
+export function DeflatorNote({ settings, deflator, months = [], isUnavailable, className }: DeflatorNoteProps) {
+    if (!settings.enabled) return null;
+
+    if (!deflator) {
+        return isUnavailable ? (
+            <p className={cn('text-xs text-muted-foreground', className)}>
+                Sin valores de {settings.series} para ajustar por inflación (solo aplica a montos en ARS). Cargalos en{' '}
+                <Link href="/dashboard/indexes" className="font-medium text-primary hover:underline">Índices</Link>.
+            </p>
+        ) : null;
+    }
+
+    const rows = deflatorMonths(deflator, months);
+    const missing = missingDeflatorMonths(deflator, months);
+    // Long histories only list the most recent factors; older ones follow the same formula.
+    const listed = rows.slice(-MAX_LISTED_MONTHS);
+    const estimated = rows.filter((row) => row.estimated).map((row) => formatMonth(row.month));
+
+    return (
+        <div className={cn('space-y-1 text-xs text-muted-foreground', className)}>
+            <p>
+                Pesos constantes de {formatMonth(deflator.base_month)} • {deflator.series} base {deflator.base.value.toLocaleString('es-AR')}
+                {deflator.base.estimated ? ' (último valor cargado)' : ''}
+            </p>
+            {listed.length ? (
+                <p>
+                    Deflactor{rows.length > listed.length ? ` (últimos ${listed.length} meses)` : ''}: {listed.map((row) => `${formatMonth(row.month)} ×${row.factor.toFixed(3)}`).join(' • ')}
+                </p>
+            ) : null}
+            {estimated.length ? <p>Sin {deflator.series} publicado para {estimated.join(', ')}: se usa el último valor.</p> : null}
+            {missing.length ? (
+                <p>
+                    Sin {deflator.series} para {missing.length > 3 ? `${missing.length} meses (desde ${formatMonth(missing[0])})` : missing.map(formatMonth).join(', ')}:
+                    {' '}se muestran nominales.
+                </p>
+            ) : null}
+        </div>
+    );
+}
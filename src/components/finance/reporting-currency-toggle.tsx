@@ -0,0 +1,31 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { SUPPORTED_CURRENCIES, type CurrencyCode } from '@/lib/currency';
+import { cn } from '@/lib/utils';
+
+type ReportingCurrencyToggleProps = {
+    value: CurrencyCode;
+    onChange: (currency: CurrencyCode) => void;
+    className?: string;
+};
+
+export function ReportingCurrencyToggle({ value, onChange, className }: ReportingCurrencyToggleProps) {
+    return (
+        <div className={cn('inline-flex items-center gap-1 rounded-full border p-1', className)} role="group" aria-label="Moneda de reporte">
+            {SUPPORTED_CURRENCIES.map((currency) => (
+                <Button
+                    key={currency}
+                    type="button"
+                    size="sm"
+                    variant={value === currency ? 'default' : 'ghost'}
+                    className="h-7 rounded-full px-3"
+                    onClick={() => onChange(currency)}
+                    aria-pressed={value === currency}
+                >
+                    {currency}
+                </Button>
+            ))}
+        </div>
+    );
+}
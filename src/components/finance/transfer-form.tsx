@@ -0,0 +1,130 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAccounts } from '@/hooks/use-accounts';
+import { normalizeCurrency } from '@/lib/currency';
+import { ArrowRightLeft, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+const selectClassName = 'h-10 w-full rounded-md border border-input bg-background px-3 text-sm';
+
+export function TransferForm() {
+    const { accounts, transfer, isTransferring } = useAccounts();
+    const [fromAccountId, setFromAccountId] = useState('');
+    const [toAccountId, setToAccountId] = useState('');
+    const [amount, setAmount] = useState('');
+    const [fxRate, setFxRate] = useState('');
+    const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+    const [description, setDescription] = useState('');
+
+    const fromAccount = accounts.find((account) => account.id === fromAccountId);
+    const toAccount = accounts.find((account) => account.id === toAccountId);
+    // A transfer that touches a USD account is recorded in USD with the rate used.
+    const foreignCurrency = [fromAccount, toAccount]
+        .map((account) => normalizeCurrency(account?.currency))
+        .find((currency) => currency !== 'ARS');
+
+    const handleSubmit = async (event: FormEvent) => {
+        event.preventDefault();
+        if (!fromAccountId || !toAccountId) {
+            toast.error('Elegí las cuentas de origen y destino');
+            return;
+        }
+
+        try {
+            await transfer({
+                fromAccountId,
+                toAccountId,
+                amount: Number(amount),
+                date,
+                description,
+                currency: foreignCurrency || 'ARS',
+                fx_rate: foreignCurrency ? Number(fxRate) || null : null,
+            });
+            setAmount('');
+            setFxRate('');
+            setDescription('');
+        } catch {
+            // Error feedback is already handled by the mutation hook.
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <ArrowRightLeft className="h-5 w-5" />
+                    Transferir entre cuentas
+                </CardTitle>
+            </CardHeader>
+            <CardContent>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                        <div className="space-y-2">
+                            <Label htmlFor="transfer-from">Desde</Label>
+                            <select id="transfer-from" value={fromAccountId} onChange={(event) => setFromAccountId(event.target.value)} className={selectClassName} required>
+                                <option value="">Elegir cuenta</option>
+                                {accounts.map((account) => (
+                                    <option key={account.id} value={account.id}>{account.name} ({account.currency})</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="transfer-to">Hacia</Label>
+                            <select id="transfer-to" value={toAccountId} onChange={(event) => setToAccountId(event.target.value)} className={selectClassName} required>
+                                <option value="">Elegir cuenta</option>
+                                {accounts
+                                    .filter((account) => account.id !== fromAccountId)
+                                    .map((account) => (
+                                        <option key={account.id} value={account.id}>{account.name} ({account.currency})</option>
+                                    ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                        <div className="space-y-2">
+                            <Label htmlFor="transfer-amount">Monto {foreignCurrency ? `(${foreignCurrency})` : ''}</Label>
+                            <Input id="transfer-amount" type="number" step="0.01" min="0.01" value={amount} onChange={(event) => setAmount(event.target.value)} required />
+                        </div>
+                        {foreignCurrency ? (
+                            <div className="space-y-2">
+                                <Label htmlFor="transfer-rate">Tipo de cambio</Label>
+                                <Input id="transfer-rate" type="number" step="0.01" min="0.01" placeholder="ARS por USD" value={fxRate} onChange={(event) => setFxRate(event.target.value)} required />
+                            </div>
+                        ) : (
+                            <div className="space-y-2">
+                                <Label htmlFor="transfer-date">Fecha</Label>
+                                <Input id="transfer-date" type="date" value={date} onChange={(event) => setDate(event.target.value)} required />
+                            </div>
+                        )}
+                    </div>
+
+                    {foreignCurrency ? (
+                        <div className="space-y-2">
+                            <Label htmlFor="transfer-date">Fecha</Label>
+                            <Input id="transfer-date" type="date" value={date} onChange={(event) => setDate(event.target.value)} required />
+                        </div>
+                    ) : null}
+
+                    <div className="space-y-2">
+                        <Label htmlFor="transfer-description">Detalle (opcional)</Label>
+                        <Input id="transfer-description" placeholder="Ej: Ahorro del mes" value={description} onChange={(event) => setDescription(event.target.value)} />
+                    </div>
+
+                    <Button type="submit" className="w-full" disabled={isTransferring || accounts.length < 2}>
+                        {isTransferring ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                        Registrar transferencia
+                    </Button>
+                    {accounts.length < 2 && (
+                        <p className="text-center text-xs text-muted-foreground">Necesitás al menos dos cuentas para transferir.</p>
+                    )}
+                </form>
+            </CardContent>
+        </Card>
+    );
+}
@@ -9,14 +9,21 @@ import {
     Brain,
     Bot,
     CalendarDays,
+    CheckCheck,
     CreditCard,
     Home,
+    Landmark,
+    LineChart,
     LogOut,
     Moon,
+    Percent,
     PiggyBank,
     Settings,
     Sun,
+    Tags,
     UserCircle2,
+    Wallet,
+    Wand2,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { createClient } from '@/lib/supabase-browser';
@@ -165,6 +172,55 @@ function DashboardShellInner({ children }: { children: React.ReactNode }) {
                                         <BarChart3 className="h-4 w-4" />
                                         Stats
                                     </Link>
+                                    <Link
+                                        href="/dashboard/accounts"
+                                        className="flex items-center gap-2 rounded-md px-3 py-2 text-sm hover:bg-muted"
+                                    >
+                                        <Wallet className="h-4 w-4" />
+                                        Cuentas
+                                    </Link>
+                                    <Link
+                                        href="/dashboard/net-worth"
+                                        className="flex items-center gap-2 rounded-md px-3 py-2 text-sm hover:bg-muted"
+                                    >
+                                        <Landmark className="h-4 w-4" />
+                                        Patrimonio
+                                    </Link>
+                                    <Link
+                                        href="/dashboard/investments"
+                                        className="flex items-center gap-2 rounded-md px-3 py-2 text-sm hover:bg-muted"
+                                    >
+                                        <LineChart className="h-4 w-4" />
+                                        Inversiones
+                                    </Link>
+                                    <Link
+                                        href="/dashboard/reconciliation"
+                                        className="flex items-center gap-2 rounded-md px-3 py-2 text-sm hover:bg-muted"
+                                    >
+                                        <CheckCheck className="h-4 w-4" />
+                                        Conciliación
+                                    </Link>
+                                    <Link
+                                        href="/dashboard/indexes"
+                                        className="flex items-center gap-2 rounded-md px-3 py-2 text-sm hover:bg-muted"
+                                    >
+                                        <Percent className="h-4 w-4" />
+                                        Índices
+                                    </Link>
+                                    <Link
+                                        href="/dashboard/rules"
+                                        className="flex items-center gap-2 rounded-md px-3 py-2 text-sm hover:bg-muted"
+                                    >
+                                        <Wand2 className="h-4 w-4" />
+                                        Reglas
+                                    </Link>
+                                    <Link
+                                        href="/dashboard/categories"
+                                        className="flex items-center gap-2 rounded-md px-3 py-2 text-sm hover:bg-muted"
+                                    >
+                                        <Tags className="h-4 w-4" />
+                                        Categorías
+                                    </Link>
                                 </div>
 
                                 <div className="space-y-3 p-4">
@@ -7,6 +7,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CategoryOptions } from '@/components/finance/category-options';
 import { Loader2 } from 'lucide-react';
 import { usePlanning } from '@/hooks/use-planning';
 
@@ -46,7 +47,8 @@ export function BudgetForm() {
                 <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
                     <div className="space-y-2">
                         <Label htmlFor="budget-category">Categoría</Label>
-                        <Input id="budget-category" placeholder="Ej: Comida" {...register('category')} />
+                        <Input id="budget-category" placeholder="Ej: Comida" list="budget-category-options" {...register('category')} />
+                        <CategoryOptions id="budget-category-options" kind="expense" />
                         {errors.category && <p className="text-xs text-destructive">{errors.category.message}</p>}
                     </div>
                     <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
@@ -1,20 +1,101 @@
 'use client';
 
+import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { RecurringTransactionInput, RecurringTransactionInputSchema } from '@/lib/schemas';
+import { RecurrenceSpecInput, RecurringTransactionInput, RecurringTransactionInputSchema } from '@/lib/schemas';
+import { describeRecurrence, legacyRecurrence, type BusinessDayRule, type RecurrenceFreq, type RecurrenceSpec } from '@/lib/recurrence';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CategoryOptions } from '@/components/finance/category-options';
 import { Loader2 } from 'lucide-react';
 import { usePlanning } from '@/hooks/use-planning';
+import { useIndexes } from '@/hooks/use-indexes';
+import { summarizeIndexSeries } from '@/lib/indexes';
+
+const selectClassName = 'h-10 w-full rounded-md border border-input bg-background px-3 text-sm';
+
+type RepeatPreset = 'weekly' | 'biweekly' | 'monthly' | 'bimonthly' | 'yearly' | 'last_business_day' | 'custom';
+
+type AdjustKind = 'none' | 'percent' | 'index';
+
+type RecurrenceDraft = {
+    preset: RepeatPreset;
+    freq: RecurrenceFreq;
+    interval: string;
+    monthDay: string;
+    businessDay: BusinessDayRule;
+    until: string;
+    count: string;
+    adjustKind: AdjustKind;
+    adjustEvery: string;
+    adjustPercent: string;
+    adjustIndex: string;
+    adjustBaseDate: string;
+};
+
+const emptyDraft: RecurrenceDraft = {
+    preset: 'monthly',
+    freq: 'monthly',
+    interval: '1',
+    monthDay: '',
+    businessDay: 'none',
+    until: '',
+    count: '',
+    adjustKind: 'none',
+    adjustEvery: '',
+    adjustPercent: '',
+    adjustIndex: 'ICL',
+    adjustBaseDate: '',
+};
+
+function presetSpec(draft: RecurrenceDraft): RecurrenceSpec {
+    if (draft.preset === 'bimonthly') return { freq: 'monthly', interval: 2 };
+    if (draft.preset === 'last_business_day') return { freq: 'monthly', interval: 1, month_day: -1, business_day: 'previous' };
+    if (draft.preset === 'custom') return { freq: draft.freq, interval: Math.max(1, Number(draft.interval) || 1) };
+    return legacyRecurrence(draft.preset);
+}
+
+/**
+ * Spec sent to the API, or null when the rule is a plain weekly/biweekly/monthly one that the legacy
+ * `frequency` column already describes.
+ */
+function buildRecurrence(draft: RecurrenceDraft): RecurrenceSpecInput | null {
+    const spec = presetSpec(draft);
+    const usesMonthDay = spec.freq === 'monthly' || spec.freq === 'yearly';
+    const monthDay = usesMonthDay && draft.preset !== 'last_business_day' ? Number(draft.monthDay) || null : null;
+    const every = Number(draft.adjustEvery) || 0;
+    const percent = Number(draft.adjustPercent) || 0;
+    const adjustment = every > 0 && draft.adjustKind === 'percent' && percent !== 0
+        ? { every_months: every, percent }
+        : every > 0 && draft.adjustKind === 'index' && draft.adjustIndex
+            ? { every_months: every, index: draft.adjustIndex, base_date: draft.adjustBaseDate || null }
+            : null;
+
+    const full: RecurrenceSpecInput = {
+        ...spec,
+        month_day: spec.month_day ?? monthDay,
+        business_day: spec.business_day ?? draft.businessDay,
+        until: draft.until || null,
+        count: Number(draft.count) || null,
+        adjustment,
+    };
+
+    const isPlain = ['weekly', 'biweekly', 'monthly'].includes(draft.preset)
+        && !full.month_day && full.business_day === 'none' && !full.until && !full.count && !full.adjustment;
+    return isPlain ? null : full;
+}
 
 export function RecurringForm() {
     const { addRecurring, isAddingRecurring } = usePlanning();
+    const [draft, setDraft] = useState<RecurrenceDraft>(emptyDraft);
+    const { series: loadedSeries } = useIndexes();
+    const indexSeries = loadedSeries.length ? loadedSeries : summarizeIndexSeries([]);
 
-    const { register, handleSubmit, setValue, reset, formState: { errors } } = useForm<RecurringTransactionInput>({
+    const { register, handleSubmit, reset, formState: { errors }, setValue } = useForm<RecurringTransactionInput>({
         resolver: zodResolver(RecurringTransactionInputSchema),
         defaultValues: {
             type: 'expense',
@@ -24,10 +105,19 @@ export function RecurringForm() {
         },
     });
 
+    const recurrence = buildRecurrence(draft);
+    const spec = recurrence ?? presetSpec(draft);
+    const showMonthDay = (spec.freq === 'monthly' || spec.freq === 'yearly') && draft.preset !== 'last_business_day';
+    const updateDraft = (changes: Partial<RecurrenceDraft>) => setDraft((prev) => ({ ...prev, ...changes }));
+
     const onSubmit = async (data: RecurringTransactionInput) => {
         try {
             await addRecurring({
                 ...data,
+                frequency: ['weekly', 'biweekly', 'monthly'].includes(draft.preset)
+                    ? draft.preset as RecurringTransactionInput['frequency']
+                    : 'custom',
+                recurrence,
                 next_run: data.start_date,
             });
             reset({
@@ -36,6 +126,7 @@ export function RecurringForm() {
                 start_date: new Date().toISOString().split('T')[0],
                 is_active: true,
             });
+            setDraft(emptyDraft);
         } catch {
             // handled by hook
         }
@@ -73,8 +164,8 @@ export function RecurringForm() {
                         <div className="space-y-2">
                             <Label>Frecuencia</Label>
                             <Select
-                                onValueChange={(value) => setValue('frequency', value as 'weekly' | 'biweekly' | 'monthly')}
-                                defaultValue="monthly"
+                                value={draft.preset}
+                                onValueChange={(value) => updateDraft({ preset: value as RepeatPreset })}
                             >
                                 <SelectTrigger>
                                     <SelectValue placeholder="Seleccionar frecuencia" />
@@ -83,11 +174,56 @@ export function RecurringForm() {
                                     <SelectItem value="weekly">Semanal</SelectItem>
                                     <SelectItem value="biweekly">Quincenal</SelectItem>
                                     <SelectItem value="monthly">Mensual</SelectItem>
+                                    <SelectItem value="bimonthly">Cada 2 meses</SelectItem>
+                                    <SelectItem value="yearly">Anual</SelectItem>
+                                    <SelectItem value="last_business_day">Último día hábil del mes</SelectItem>
+                                    <SelectItem value="custom">Personalizada</SelectItem>
                                 </SelectContent>
                             </Select>
                             {errors.frequency && <p className="text-xs text-destructive">{errors.frequency.message}</p>}
                         </div>
                     </div>
+                    {draft.preset === 'custom' ? (
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="recurring-interval">Cada</Label>
+                                <Input id="recurring-interval" type="number" min="1" max="60" value={draft.interval} onChange={(event) => updateDraft({ interval: event.target.value })} />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="recurring-freq">Unidad</Label>
+                                <select id="recurring-freq" className={selectClassName} value={draft.freq} onChange={(event) => updateDraft({ freq: event.target.value as RecurrenceFreq })}>
+                                    <option value="daily">Días</option>
+                                    <option value="weekly">Semanas</option>
+                                    <option value="monthly">Meses</option>
+                                    <option value="yearly">Años</option>
+                                </select>
+                            </div>
+                        </div>
+                    ) : null}
+                    {draft.preset !== 'last_business_day' ? (
+                        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                            {showMonthDay ? (
+                                <div className="space-y-2">
+                                    <Label htmlFor="recurring-month-day">Día del mes</Label>
+                                    <select id="recurring-month-day" className={selectClassName} value={draft.monthDay} onChange={(event) => updateDraft({ monthDay: event.target.value })}>
+                                        <option value="">Mismo día que la fecha inicial</option>
+                                        {Array.from({ length: 31 }, (_, index) => (
+                                            <option key={index + 1} value={String(index + 1)}>Día {index + 1}</option>
+                                        ))}
+                                        <option value="-1">Último día</option>
+                                    </select>
+                                </div>
+                            ) : null}
+                            <div className="space-y-2">
+                                <Label htmlFor="recurring-business-day">Si cae en fin de semana</Label>
+                                <select id="recurring-business-day" className={selectClassName} value={draft.businessDay} onChange={(event) => updateDraft({ businessDay: event.target.value as BusinessDayRule })}>
+                                    <option value="none">Mantener la fecha</option>
+                                    <option value="next">Pasar al siguiente hábil</option>
+                                    <option value="previous">Adelantar al hábil anterior</option>
+                                </select>
+                            </div>
+                        </div>
+                    ) : null}
                     <div className="space-y-2">
                         <Label htmlFor="recurring-description">Descripción</Label>
                         <Input id="recurring-description" placeholder="Ej: Suscripción Netflix" {...register('description')} />
@@ -96,7 +232,8 @@ export function RecurringForm() {
                     <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
                         <div className="space-y-2">
                             <Label htmlFor="recurring-category">Categoría</Label>
-                            <Input id="recurring-category" placeholder="Ej: Entretenimiento" {...register('category')} />
+                            <Input id="recurring-category" placeholder="Ej: Entretenimiento" list="recurring-category-options" {...register('category')} />
+                            <CategoryOptions id="recurring-category-options" />
                             {errors.category && <p className="text-xs text-destructive">{errors.category.message}</p>}
                         </div>
                         <div className="space-y-2">
@@ -105,6 +242,60 @@ export function RecurringForm() {
                             {errors.start_date && <p className="text-xs text-destructive">{errors.start_date.message}</p>}
                         </div>
                     </div>
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                        <div className="space-y-2">
+                            <Label htmlFor="recurring-until">Termina el (opcional)</Label>
+                            <Input id="recurring-until" type="date" value={draft.until} onChange={(event) => updateDraft({ until: event.target.value })} />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="recurring-count">Cantidad de veces (opcional)</Label>
+                            <Input id="recurring-count" type="number" min="1" placeholder="Ej: 12" value={draft.count} onChange={(event) => updateDraft({ count: event.target.value })} />
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                        <div className="space-y-2">
+                            <Label htmlFor="recurring-adjust-kind">Ajuste del monto</Label>
+                            <select id="recurring-adjust-kind" className={selectClassName} value={draft.adjustKind} onChange={(event) => updateDraft({ adjustKind: event.target.value as AdjustKind })}>
+                                <option value="none">Sin ajuste</option>
+                                <option value="percent">Porcentaje fijo</option>
+                                <option value="index">Por índice (ICL, IPC, CER...)</option>
+                            </select>
+                        </div>
+                        {draft.adjustKind !== 'none' ? (
+                            <div className="space-y-2">
+                                <Label htmlFor="recurring-adjust-every">Ajustar cada (meses)</Label>
+                                <Input id="recurring-adjust-every" type="number" min="1" placeholder="Ej: 3" value={draft.adjustEvery} onChange={(event) => updateDraft({ adjustEvery: event.target.value })} />
+                            </div>
+                        ) : null}
+                    </div>
+                    {draft.adjustKind === 'percent' ? (
+                        <div className="space-y-2">
+                            <Label htmlFor="recurring-adjust-percent">Ajuste (%)</Label>
+                            <Input id="recurring-adjust-percent" type="number" step="0.01" placeholder="Ej: 15" value={draft.adjustPercent} onChange={(event) => updateDraft({ adjustPercent: event.target.value })} />
+                        </div>
+                    ) : null}
+                    {draft.adjustKind === 'index' ? (
+                        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                            <div className="space-y-2">
+                                <Label htmlFor="recurring-adjust-index">Índice</Label>
+                                <select id="recurring-adjust-index" className={selectClassName} value={draft.adjustIndex} onChange={(event) => updateDraft({ adjustIndex: event.target.value })}>
+                                    {indexSeries.map((item) => (
+                                        <option key={item.series} value={item.series}>
+                                            {item.name}{item.last_date ? ` • último ${item.last_date}` : ' • sin valores'}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="recurring-adjust-base">Fecha base (opcional)</Label>
+                                <Input id="recurring-adjust-base" type="date" value={draft.adjustBaseDate} onChange={(event) => updateDraft({ adjustBaseDate: event.target.value })} />
+                            </div>
+                            <p className="text-xs text-muted-foreground sm:col-span-2">
+                                El monto se multiplica por el índice vigente en cada ajuste dividido el de la fecha base (si no la indicás, la fecha inicial). Cargá los valores en Índices.
+                            </p>
+                        </div>
+                    ) : null}
+                    <p className="text-xs text-muted-foreground">Se repite: {describeRecurrence(spec)}</p>
                     <Button type="submit" className="w-full" disabled={isAddingRecurring}>
                         {isAddingRecurring ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
                         Guardar Regla
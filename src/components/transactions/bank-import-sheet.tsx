@@ -0,0 +1,490 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAccounts } from '@/hooks/use-accounts';
+import { useImportProfiles } from '@/hooks/use-import-profiles';
+import { formatMoneyIn } from '@/lib/currency';
+import type {
+    ImportDateFormat,
+    ImportFormat,
+    ImportMapping,
+    ImportPreview,
+    ImportSignConvention,
+} from '@/lib/bank-import';
+import { CheckCircle2, Eye, Loader2, Save } from 'lucide-react';
+
+export type BankImportFile = {
+    name: string;
+    content: string;
+    format: ImportFormat;
+    // Spreadsheets are serialized with ISO dates and "." decimals before mapping.
+    isSpreadsheet: boolean;
+};
+
+type PreviewResponse = ImportPreview & { truncated: number; max_rows: number };
+
+const selectClassName = 'h-10 w-full rounded-md border border-input bg-background px-3 text-sm';
+
+const DATE_FORMATS: ImportDateFormat[] = ['DD/MM/YYYY', 'DD-MM-YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD'];
+
+const SIGN_LABELS: Record<ImportSignConvention, string> = {
+    negative_is_expense: 'Negativo = gasto',
+    positive_is_expense: 'Positivo = gasto',
+    split_columns: 'Columnas débito / crédito',
+    type_column: 'Columna de tipo',
+};
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+    csv: 'CSV / Excel',
+    ofx: 'OFX',
+    qif: 'QIF',
+};
+
+type ColumnKey = 'date_column' | 'description_column' | 'amount_column' | 'debit_column' | 'credit_column' | 'type_column' | 'category_column';
+
+function ColumnField({
+    id,
+    label,
+    value,
+    columns,
+    optional,
+    onChange,
+}: {
+    id: string;
+    label: string;
+    value: string | null | undefined;
+    columns: string[];
+    optional?: boolean;
+    onChange: (value: string | null) => void;
+}) {
+    const options = value && !columns.includes(value) ? [value, ...columns] : columns;
+
+    return (
+        <div className="space-y-2">
+            <Label htmlFor={id}>{label}</Label>
+            {columns.length ? (
+                <select id={id} className={selectClassName} value={value || ''} onChange={(event) => onChange(event.target.value || null)}>
+                    <option value="">{optional ? 'Ninguna' : 'Elegir columna'}</option>
+                    {options.map((column) => (
+                        <option key={column} value={column}>{column}</option>
+                    ))}
+                </select>
+            ) : (
+                <Input id={id} value={value || ''} onChange={(event) => onChange(event.target.value || null)} />
+            )}
+        </div>
+    );
+}
+
+export function BankImportSheet({ file, onClose }: { file: BankImportFile | null; onClose: () => void }) {
+    const queryClient = useQueryClient();
+    const { accounts } = useAccounts();
+    const { profiles, saveProfile, isSaving } = useImportProfiles();
+
+    const [profileId, setProfileId] = useState('');
+    const [mapping, setMapping] = useState<ImportMapping | null>(null);
+    const [qifDateFormat, setQifDateFormat] = useState<ImportDateFormat>('DD/MM/YYYY');
+    const [preview, setPreview] = useState<PreviewResponse | null>(null);
+    const [accountId, setAccountId] = useState('');
+    const [currency, setCurrency] = useState<'ARS' | 'USD'>('ARS');
+    const [fxRate, setFxRate] = useState('');
+    const [profileName, setProfileName] = useState('');
+    const [skipExactDuplicates, setSkipExactDuplicates] = useState(true);
+    const [isPreviewing, setIsPreviewing] = useState(false);
+    const [isImporting, setIsImporting] = useState(false);
+
+    useEffect(() => {
+        setPreview(null);
+        setMapping(null);
+        setCurrency('ARS');
+        setFxRate('');
+    }, [file]);
+
+    // Pick a starting profile once per file; refetching profiles after a save must not reset the edited mapping.
+    useEffect(() => {
+        if (!file || file.format !== 'csv' || mapping || !profiles.length) return;
+
+        const initial = file.isSpreadsheet ? profiles.find((profile) => profile.id === 'builtin:finansas') : null;
+        const selected = initial ?? profiles[0];
+        setProfileId(selected.id);
+        setMapping(selected.mapping);
+    }, [file, mapping, profiles]);
+
+    const selectProfile = (id: string) => {
+        const profile = profiles.find((item) => item.id === id);
+        setProfileId(id);
+        if (profile) setMapping(profile.mapping);
+        setPreview(null);
+    };
+
+    const updateMapping = (changes: Partial<ImportMapping>) => {
+        setMapping((current) => (current ? { ...current, ...changes } : current));
+        setPreview(null);
+    };
+
+    const setColumn = (key: ColumnKey) => (value: string | null) => updateMapping({ [key]: value } as Partial<ImportMapping>);
+
+    const requestPreview = async () => {
+        if (!file) return;
+        setIsPreviewing(true);
+        try {
+            const response = await fetch('/api/transactions/import/preview', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({
+                    content: file.content,
+                    file_name: file.name,
+                    format: file.format,
+                    mapping: file.format === 'csv' && mapping
+                        ? (file.isSpreadsheet ? { ...mapping, delimiter: ',', decimal_separator: '.' } : mapping)
+                        : null,
+                    date_format: qifDateFormat,
+                }),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) {
+                throw new Error(typeof body?.error === 'string' ? body.error : 'No se pudo leer el archivo con ese perfil.');
+            }
+
+            const result = body as PreviewResponse;
+            setPreview(result);
+            if (result.currency === 'USD') setCurrency('USD');
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'No se pudo generar la vista previa.');
+        } finally {
+            setIsPreviewing(false);
+        }
+    };
+
+    const handleSaveProfile = async () => {
+        if (!mapping || !profileName.trim()) return;
+        try {
+            const saved = await saveProfile({ name: profileName.trim(), bank: null, mapping });
+            setProfileId(saved.id);
+            setProfileName('');
+        } catch {
+            // toast handled in hook
+        }
+    };
+
+    const confirmImport = async () => {
+        if (!file || !preview?.rows.length) return;
+        const rate = Number(fxRate.replace(',', '.'));
+        if (currency === 'USD' && !(rate > 0)) {
+            toast.error('Indicá el tipo de cambio para importar en USD.');
+            return;
+        }
+
+        setIsImporting(true);
+        try {
+            const response = await fetch('/api/transactions/import', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({
+                    source: file.format,
+                    account_id: accountId || null,
+                    currency,
+                    fx_rate: currency === 'USD' ? rate : null,
+                    duplicate_mode: skipExactDuplicates ? 'skip' : 'flag',
+                    rows: preview.rows.map(({ date, type, category, description, amount, external_id }) => ({
+                        date,
+                        type,
+                        category,
+                        description,
+                        amount,
+                        external_id: external_id ?? null,
+                    })),
+                }),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'No se pudo importar el archivo.');
+
+            await Promise.all([
+                queryClient.invalidateQueries({ queryKey: ['transactions'] }),
+                queryClient.invalidateQueries({ queryKey: ['accounts'] }),
+                queryClient.invalidateQueries({ queryKey: ['credit-cards'] }),
+                queryClient.invalidateQueries({ queryKey: ['audit'] }),
+                queryClient.invalidateQueries({ queryKey: ['budgets'] }),
+                queryClient.invalidateQueries({ queryKey: ['transaction-duplicates'] }),
+            ]);
+
+            const duplicates = body.duplicates ?? { skipped: 0, flagged: 0 };
+            const details = [
+                body.skipped ? `${body.skipped} omitidos` : '',
+                duplicates.skipped ? `${duplicates.skipped} ya estaban cargados` : '',
+                duplicates.flagged ? `${duplicates.flagged} para revisar en Historial` : '',
+            ].filter(Boolean);
+            toast.success(`Importación lista: ${body.imported} movimientos cargados${details.length ? `, ${details.join(', ')}` : ''}.`);
+            onClose();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'No se pudo importar el archivo.');
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const columns = preview?.columns ?? [];
+    const isBusy = isPreviewing || isImporting;
+
+    return (
+        <Sheet open={Boolean(file)} onOpenChange={(open) => (open ? null : onClose())}>
+            <SheetContent side="bottom" className="max-h-[90vh] overflow-y-auto rounded-t-3xl">
+                <SheetHeader>
+                    <SheetTitle>Importar extracto</SheetTitle>
+                    <SheetDescription>
+                        {file ? `${file.name} • ${FORMAT_LABELS[file.format]}` : ''}. Revisá la vista previa antes de cargar los movimientos.
+                    </SheetDescription>
+                </SheetHeader>
+
+                {file ? (
+                    <div className="mt-5 space-y-5">
+                        {file.format === 'csv' && mapping ? (
+                            <div className="space-y-4 rounded-xl border p-4">
+                                <div className="grid gap-3 md:grid-cols-2">
+                                    <div className="space-y-2">
+                                        <Label htmlFor="import-profile">Perfil</Label>
+                                        <select id="import-profile" className={selectClassName} value={profileId} onChange={(event) => selectProfile(event.target.value)}>
+                                            {profiles.map((profile) => (
+                                                <option key={profile.id} value={profile.id}>
+                                                    {profile.name}{profile.builtin ? '' : ' (guardado)'}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label htmlFor="import-sign">Signo</Label>
+                                        <select
+                                            id="import-sign"
+                                            className={selectClassName}
+                                            value={mapping.sign_convention}
+                                            onChange={(event) => updateMapping({ sign_convention: event.target.value as ImportSignConvention })}
+                                        >
+                                            {Object.entries(SIGN_LABELS).map(([value, label]) => (
+                                                <option key={value} value={value}>{label}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                </div>
+
+                                <div className="grid gap-3 md:grid-cols-3">
+                                    <ColumnField id="import-date-column" label="Columna fecha" value={mapping.date_column} columns={columns} onChange={(value) => updateMapping({ date_column: value || '' })} />
+                                    <ColumnField id="import-description-column" label="Columna descripción" value={mapping.description_column} columns={columns} onChange={(value) => updateMapping({ description_column: value || '' })} />
+                                    {mapping.sign_convention === 'split_columns' ? (
+                                        <>
+                                            <ColumnField id="import-debit-column" label="Columna débitos" value={mapping.debit_column} columns={columns} onChange={setColumn('debit_column')} />
+                                            <ColumnField id="import-credit-column" label="Columna créditos" value={mapping.credit_column} columns={columns} onChange={setColumn('credit_column')} />
+                                        </>
+                                    ) : (
+                                        <ColumnField id="import-amount-column" label="Columna monto" value={mapping.amount_column} columns={columns} onChange={setColumn('amount_column')} />
+                                    )}
+                                    {mapping.sign_convention === 'type_column' ? (
+                                        <ColumnField id="import-type-column" label="Columna tipo" value={mapping.type_column} columns={columns} onChange={setColumn('type_column')} />
+                                    ) : null}
+                                    <ColumnField id="import-category-column" label="Columna categoría" value={mapping.category_column} columns={columns} optional onChange={setColumn('category_column')} />
+                                </div>
+
+                                <div className="grid gap-3 md:grid-cols-4">
+                                    <div className="space-y-2">
+                                        <Label htmlFor="import-date-format">Formato de fecha</Label>
+                                        <select
+                                            id="import-date-format"
+                                            className={selectClassName}
+                                            value={mapping.date_format}
+                                            onChange={(event) => updateMapping({ date_format: event.target.value as ImportDateFormat })}
+                                        >
+                                            {DATE_FORMATS.map((format) => (
+                                                <option key={format} value={format}>{format}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    {!file.isSpreadsheet ? (
+                                        <>
+                                            <div className="space-y-2">
+                                                <Label htmlFor="import-decimal">Decimales</Label>
+                                                <select
+                                                    id="import-decimal"
+                                                    className={selectClassName}
+                                                    value={mapping.decimal_separator}
+                                                    onChange={(event) => updateMapping({ decimal_separator: event.target.value as ImportMapping['decimal_separator'] })}
+                                                >
+                                                    <option value=",">Coma (1.234,56)</option>
+                                                    <option value=".">Punto (1,234.56)</option>
+                                                </select>
+                                            </div>
+                                            <div className="space-y-2">
+                                                <Label htmlFor="import-delimiter">Separador</Label>
+                                                <select
+                                                    id="import-delimiter"
+                                                    className={selectClassName}
+                                                    value={mapping.delimiter}
+                                                    onChange={(event) => updateMapping({ delimiter: event.target.value as ImportMapping['delimiter'] })}
+                                                >
+                                                    <option value="auto">Automático</option>
+                                                    <option value=";">Punto y coma</option>
+                                                    <option value=",">Coma</option>
+                                                    <option value={'\t'}>Tabulación</option>
+                                                </select>
+                                            </div>
+                                        </>
+                                    ) : null}
+                                    <div className="space-y-2">
+                                        <Label htmlFor="import-skip-rows">Filas a saltear</Label>
+                                        <Input
+                                            id="import-skip-rows"
+                                            type="number"
+                                            min="0"
+                                            max="50"
+                                            value={mapping.skip_rows}
+                                            onChange={(event) => updateMapping({ skip_rows: Math.max(0, Number(event.target.value) || 0) })}
+                                        />
+                                    </div>
+                                </div>
+
+                                <div className="flex flex-wrap items-end gap-2">
+                                    <div className="flex-1 space-y-2">
+                                        <Label htmlFor="import-profile-name">Guardar como perfil</Label>
+                                        <Input
+                                            id="import-profile-name"
+                                            value={profileName}
+                                            onChange={(event) => setProfileName(event.target.value)}
+                                            placeholder="Ej: Galicia caja de ahorro"
+                                        />
+                                    </div>
+                                    <Button type="button" variant="outline" className="gap-2" disabled={!profileName.trim() || isSaving} onClick={() => void handleSaveProfile()}>
+                                        {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                                        Guardar
+                                    </Button>
+                                </div>
+                            </div>
+                        ) : null}
+
+                        {file.format === 'qif' ? (
+                            <div className="space-y-2">
+                                <Label htmlFor="import-qif-date">Formato de fecha del QIF</Label>
+                                <select
+                                    id="import-qif-date"
+                                    className={selectClassName}
+                                    value={qifDateFormat}
+                                    onChange={(event) => {
+                                        setQifDateFormat(event.target.value as ImportDateFormat);
+                                        setPreview(null);
+                                    }}
+                                >
+                                    {DATE_FORMATS.map((format) => (
+                                        <option key={format} value={format}>{format}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        ) : null}
+
+                        <div className="grid gap-3 md:grid-cols-3">
+                            <div className="space-y-2">
+                                <Label htmlFor="import-account">Cuenta</Label>
+                                <select id="import-account" className={selectClassName} value={accountId} onChange={(event) => setAccountId(event.target.value)}>
+                                    <option value="">Cuenta principal</option>
+                                    {accounts.map((account) => (
+                                        <option key={account.id} value={account.id}>{account.name}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="import-currency">Moneda del archivo</Label>
+                                <select id="import-currency" className={selectClassName} value={currency} onChange={(event) => setCurrency(event.target.value as 'ARS' | 'USD')}>
+                                    <option value="ARS">ARS</option>
+                                    <option value="USD">USD</option>
+                                </select>
+                            </div>
+                            {currency === 'USD' ? (
+                                <div className="space-y-2">
+                                    <Label htmlFor="import-fx-rate">Tipo de cambio</Label>
+                                    <Input id="import-fx-rate" inputMode="decimal" value={fxRate} onChange={(event) => setFxRate(event.target.value)} placeholder="Ej: 1050" />
+                                </div>
+                            ) : null}
+                        </div>
+
+                        <label className="flex items-center gap-2 text-sm">
+                            <input
+                                type="checkbox"
+                                checked={skipExactDuplicates}
+                                onChange={(event) => setSkipExactDuplicates(event.target.checked)}
+                            />
+                            Omitir movimientos que ya están cargados (los parecidos quedan para revisar)
+                        </label>
+
+                        {preview ? (
+                            <div className="space-y-3">
+                                <p className="text-sm text-muted-foreground">
+                                    <span className="font-semibold text-foreground">{preview.rows.length}</span> movimientos listos
+                                    {preview.skipped.length ? ` • ${preview.skipped.length} filas omitidas` : ''}
+                                    {preview.truncated ? ` • ${preview.truncated} filas exceden el máximo de ${preview.max_rows}` : ''}
+                                </p>
+
+                                {preview.skipped.length ? (
+                                    <div className="rounded-xl border border-amber-500/30 bg-amber-500/5 p-3 text-xs text-amber-700">
+                                        {preview.skipped.slice(0, 8).map((row) => (
+                                            <p key={`${row.line}-${row.reason}`}>Línea {row.line}: {row.reason}</p>
+                                        ))}
+                                        {preview.skipped.length > 8 ? <p>…y {preview.skipped.length - 8} más.</p> : null}
+                                    </div>
+                                ) : null}
+
+                                {preview.rows.length ? (
+                                    <div className="overflow-x-auto rounded-xl border">
+                                        <table className="w-full text-sm">
+                                            <thead className="bg-muted/50 text-left text-xs text-muted-foreground">
+                                                <tr>
+                                                    <th className="px-3 py-2">Fecha</th>
+                                                    <th className="px-3 py-2">Descripción</th>
+                                                    <th className="px-3 py-2">Categoría</th>
+                                                    <th className="px-3 py-2 text-right">Monto</th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {preview.rows.slice(0, 50).map((row) => (
+                                                    <tr key={row.line} className="border-t">
+                                                        <td className="px-3 py-2 whitespace-nowrap">{row.date}</td>
+                                                        <td className="px-3 py-2">{row.description}</td>
+                                                        <td className="px-3 py-2">{row.category}</td>
+                                                        <td className={`px-3 py-2 text-right font-semibold ${row.type === 'income' ? 'text-emerald-600' : 'text-red-500'}`}>
+                                                            {row.type === 'income' ? '+' : '-'}{formatMoneyIn(row.amount, currency)}
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                        {preview.rows.length > 50 ? (
+                                            <p className="border-t px-3 py-2 text-xs text-muted-foreground">Mostrando 50 de {preview.rows.length}.</p>
+                                        ) : null}
+                                    </div>
+                                ) : null}
+                            </div>
+                        ) : null}
+
+                        <div className="flex flex-wrap gap-2 pt-2">
+                            <div className="flex-1" />
+                            <Button type="button" variant="outline" disabled={isBusy} onClick={onClose}>
+                                Cancelar
+                            </Button>
+                            <Button type="button" variant="outline" className="gap-2" disabled={isBusy} onClick={() => void requestPreview()}>
+                                {isPreviewing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Eye className="h-4 w-4" />}
+                                Vista previa
+                            </Button>
+                            <Button type="button" className="gap-2" disabled={isBusy || !preview?.rows.length} onClick={() => void confirmImport()}>
+                                {isImporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle2 className="h-4 w-4" />}
+                                Importar {preview?.rows.length ? preview.rows.length : ''}
+                            </Button>
+                        </div>
+                    </div>
+                ) : null}
+            </SheetContent>
+        </Sheet>
+    );
+}
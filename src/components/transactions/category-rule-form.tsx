@@ -0,0 +1,168 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CategoryOptions } from '@/components/finance/category-options';
+import { useAccounts } from '@/hooks/use-accounts';
+import { useCategoryRules } from '@/hooks/use-category-rules';
+import { isValidRulePattern } from '@/lib/category-rules';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+const selectClassName = 'h-10 w-full rounded-md border border-input bg-background px-3 text-sm';
+
+type RuleAction = 'category' | 'transfer';
+
+function toOptionalAmount(value: string) {
+    return value.trim() ? Number(value) : null;
+}
+
+export function CategoryRuleForm() {
+    const { accounts } = useAccounts();
+    const { rules, addRule, isAdding } = useCategoryRules();
+    const [name, setName] = useState('');
+    const [pattern, setPattern] = useState('');
+    const [transactionType, setTransactionType] = useState('');
+    const [accountId, setAccountId] = useState('');
+    const [amountMin, setAmountMin] = useState('');
+    const [amountMax, setAmountMax] = useState('');
+    const [action, setAction] = useState<RuleAction>('category');
+    const [category, setCategory] = useState('');
+    const [transferAccountId, setTransferAccountId] = useState('');
+    const [tags, setTags] = useState('');
+
+    const patternError = isValidRulePattern(pattern) ? null : 'El patrón no es una expresión regular válida';
+
+    const handleSubmit = async (event: FormEvent) => {
+        event.preventDefault();
+        if (patternError) {
+            toast.error(patternError);
+            return;
+        }
+
+        const tagList = Array.from(new Set(tags.split(',').map((tag) => tag.trim()).filter(Boolean)));
+        // New rules go last so they never override the ones the user already ordered.
+        const nextPriority = rules.reduce((max, rule) => Math.max(max, rule.priority), 0) + 10;
+
+        try {
+            await addRule({
+                name,
+                priority: nextPriority,
+                is_active: true,
+                description_pattern: pattern.trim() || null,
+                transaction_type: transactionType === 'income' || transactionType === 'expense' ? transactionType : null,
+                account_id: accountId || null,
+                amount_min: toOptionalAmount(amountMin),
+                amount_max: toOptionalAmount(amountMax),
+                set_category: action === 'category' ? category.trim() || null : null,
+                transfer_account_id: action === 'transfer' ? transferAccountId || null : null,
+                set_tags: tagList,
+            });
+            setName('');
+            setPattern('');
+            setAmountMin('');
+            setAmountMax('');
+            setCategory('');
+            setTags('');
+        } catch {
+            // Error feedback is already handled by the mutation hook.
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Nueva regla</CardTitle>
+            </CardHeader>
+            <CardContent>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="rule-name">Nombre</Label>
+                        <Input id="rule-name" placeholder="Ej: Supermercados" value={name} onChange={(event) => setName(event.target.value)} required />
+                    </div>
+
+                    <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Si el movimiento…</p>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="rule-pattern">Descripción contiene (regex)</Label>
+                        <Input id="rule-pattern" placeholder="Ej: coto|carrefour|dia" value={pattern} onChange={(event) => setPattern(event.target.value)} />
+                        {patternError && <p className="text-xs text-destructive">{patternError}</p>}
+                    </div>
+
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                        <div className="space-y-2">
+                            <Label htmlFor="rule-type">Tipo</Label>
+                            <select id="rule-type" value={transactionType} onChange={(event) => setTransactionType(event.target.value)} className={selectClassName}>
+                                <option value="">Cualquiera</option>
+                                <option value="expense">Gasto</option>
+                                <option value="income">Ingreso</option>
+                            </select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="rule-account">Cuenta</Label>
+                            <select id="rule-account" value={accountId} onChange={(event) => setAccountId(event.target.value)} className={selectClassName}>
+                                <option value="">Cualquiera</option>
+                                {accounts.map((account) => (
+                                    <option key={account.id} value={account.id}>{account.name}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                        <div className="space-y-2">
+                            <Label htmlFor="rule-min">Monto desde (ARS)</Label>
+                            <Input id="rule-min" type="number" step="0.01" min="0" value={amountMin} onChange={(event) => setAmountMin(event.target.value)} />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="rule-max">Monto hasta (ARS)</Label>
+                            <Input id="rule-max" type="number" step="0.01" min="0" value={amountMax} onChange={(event) => setAmountMax(event.target.value)} />
+                        </div>
+                    </div>
+
+                    <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Entonces…</p>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="rule-action">Acción</Label>
+                        <select id="rule-action" value={action} onChange={(event) => setAction(event.target.value as RuleAction)} className={selectClassName}>
+                            <option value="category">Asignar categoría</option>
+                            <option value="transfer">Marcar como transferencia</option>
+                        </select>
+                    </div>
+
+                    {action === 'category' ? (
+                        <div className="space-y-2">
+                            <Label htmlFor="rule-category">Categoría</Label>
+                            <Input id="rule-category" placeholder="Ej: Supermercado" list="rule-category-options" value={category} onChange={(event) => setCategory(event.target.value)} />
+                            <CategoryOptions id="rule-category-options" />
+                        </div>
+                    ) : (
+                        <div className="space-y-2">
+                            <Label htmlFor="rule-transfer">Contracuenta</Label>
+                            <select id="rule-transfer" value={transferAccountId} onChange={(event) => setTransferAccountId(event.target.value)} className={selectClassName} required>
+                                <option value="">Elegir cuenta</option>
+                                {accounts.map((account) => (
+                                    <option key={account.id} value={account.id}>{account.name} ({account.currency})</option>
+                                ))}
+                            </select>
+                            <p className="text-xs text-muted-foreground">Los gastos pasan a esta cuenta y los ingresos salen de ella.</p>
+                        </div>
+                    )}
+
+                    <div className="space-y-2">
+                        <Label htmlFor="rule-tags">Etiquetas (separadas por coma)</Label>
+                        <Input id="rule-tags" placeholder="Ej: hogar, fijo" value={tags} onChange={(event) => setTags(event.target.value)} />
+                    </div>
+
+                    <Button type="submit" className="w-full" disabled={isAdding}>
+                        {isAdding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                        Crear regla
+                    </Button>
+                </form>
+            </CardContent>
+        </Card>
+    );
+}
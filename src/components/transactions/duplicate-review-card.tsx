@@ -0,0 +1,127 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useDuplicateReviews } from '@/hooks/use-duplicates';
+import { formatMoneyIn, normalizeCurrency } from '@/lib/currency';
+import type { DuplicateReason, DuplicateReviewTransaction } from '@/lib/duplicates';
+import { Copy, Loader2 } from 'lucide-react';
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+    fingerprint: 'Mismo movimiento',
+    external_id: 'Mismo ID del banco',
+    fuzzy: 'Muy parecido',
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+    recurring: 'recurrencia',
+    copilot: 'documento',
+};
+
+function MovementSummary({ label, movement }: { label: string; movement: DuplicateReviewTransaction }) {
+    const currency = normalizeCurrency(movement.currency);
+
+    return (
+        <div className="rounded-lg bg-muted/40 p-3">
+            <p className="text-[11px] font-semibold uppercase tracking-wide text-muted-foreground">{label}</p>
+            <p className="mt-1 font-medium">{movement.description}</p>
+            <p className="text-xs text-muted-foreground">
+                {movement.category}
+                {' • '}
+                {new Date(`${movement.date}T00:00:00`).toLocaleDateString('es-AR', { dateStyle: 'medium' })}
+            </p>
+            <p className={`mt-1 text-sm font-bold ${movement.type === 'income' ? 'text-emerald-500' : 'text-red-500'}`}>
+                {currency === 'ARS'
+                    ? formatMoneyIn(Number(movement.amount), 'ARS')
+                    : formatMoneyIn(Number(movement.original_amount ?? movement.amount), currency)}
+            </p>
+        </div>
+    );
+}
+
+export function DuplicateReviewCard() {
+    const { reviews, mergeDuplicate, dismissDuplicate, isMerging, isDismissing } = useDuplicateReviews();
+    const [targetReviewId, setTargetReviewId] = useState<string | null>(null);
+
+    // A side can be missing if the movement was deleted after the fetch.
+    const pending = reviews.flatMap(({ transaction, original, ...review }) => (
+        transaction && original ? [{ ...review, transaction, original }] : []
+    ));
+    if (!pending.length) return null;
+
+    const run = async (reviewId: string, action: () => Promise<unknown>) => {
+        try {
+            setTargetReviewId(reviewId);
+            await action();
+        } catch {
+            // toast handled in hook
+        } finally {
+            setTargetReviewId(null);
+        }
+    };
+
+    return (
+        <Card className="border-amber-500/40">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Copy className="h-5 w-5 text-amber-500" />
+                    Posibles duplicados ({pending.length})
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">
+                    Unir deja un solo movimiento; si son gastos distintos, marcalos como tales y no se vuelven a sugerir.
+                </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {pending.map((review) => {
+                    const isBusy = targetReviewId === review.id && (isMerging || isDismissing);
+                    const sourceLabel = review.source ? SOURCE_LABELS[review.source] || review.source : null;
+
+                    return (
+                        <div key={review.id} className="rounded-lg border p-3">
+                            <div className="mb-3 flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+                                <span>
+                                    {REASON_LABELS[review.reason]} • coincidencia {Math.round(Number(review.score) * 100)}%
+                                    {sourceLabel ? ` • detectado en ${sourceLabel}` : ''}
+                                </span>
+                                {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
+                            </div>
+                            <div className="grid gap-3 md:grid-cols-2">
+                                <MovementSummary label="Nuevo" movement={review.transaction} />
+                                <MovementSummary label="Ya registrado" movement={review.original} />
+                            </div>
+                            <div className="mt-3 flex flex-wrap gap-2">
+                                <Button
+                                    type="button"
+                                    size="sm"
+                                    disabled={isBusy}
+                                    onClick={() => void run(review.id, () => mergeDuplicate({ reviewId: review.id, keep: 'original' }))}
+                                >
+                                    Unir (conservar el registrado)
+                                </Button>
+                                <Button
+                                    type="button"
+                                    size="sm"
+                                    variant="outline"
+                                    disabled={isBusy}
+                                    onClick={() => void run(review.id, () => mergeDuplicate({ reviewId: review.id, keep: 'duplicate' }))}
+                                >
+                                    Unir (conservar el nuevo)
+                                </Button>
+                                <Button
+                                    type="button"
+                                    size="sm"
+                                    variant="ghost"
+                                    disabled={isBusy}
+                                    onClick={() => void run(review.id, () => dismissDuplicate(review.id))}
+                                >
+                                    No es duplicado
+                                </Button>
+                            </div>
+                        </div>
+                    );
+                })}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAccounts } from '@/hooks/use-accounts';
+import { useCategoryRules } from '@/hooks/use-category-rules';
+import { formatMoneyIn } from '@/lib/currency';
+import type { RuleReapplyChange, RuleReapplyResult } from '@/lib/category-rules';
+import { History, Loader2 } from 'lucide-react';
+
+type ChangeSide = RuleReapplyChange['before'];
+
+function describeSide(side: ChangeSide, accountName: (id: string | null) => string) {
+    const label = side.type === 'transfer'
+        ? `Transferencia ${accountName(side.account_id)} → ${accountName(side.transfer_account_id)}`
+        : side.category || 'Sin categoría';
+    return side.tags.length ? `${label} • #${side.tags.join(' #')}` : label;
+}
+
+export function RuleReapplyCard() {
+    const { accounts } = useAccounts();
+    const { rules, reapplyRules, isReapplying } = useCategoryRules();
+    const [from, setFrom] = useState('');
+    const [preview, setPreview] = useState<RuleReapplyResult | null>(null);
+
+    const accountName = (id: string | null) => accounts.find((account) => account.id === id)?.name || 'cuenta';
+    const ruleName = (id: string) => rules.find((rule) => rule.id === id)?.name || 'regla';
+
+    const runPreview = async () => {
+        try {
+            setPreview(await reapplyRules({ dry_run: true, from: from || null }));
+        } catch {
+            // toast handled in hook
+        }
+    };
+
+    const confirm = async () => {
+        if (!preview?.changes.length) return;
+        try {
+            await reapplyRules({
+                dry_run: false,
+                from: from || null,
+                transaction_ids: preview.changes.map((change) => change.id),
+            });
+            setPreview(null);
+        } catch {
+            // toast handled in hook
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <History className="h-5 w-5" />
+                    Aplicar al historial
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">
+                    Primero se muestra qué cambiaría; nada se modifica hasta que confirmes.
+                </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="flex flex-wrap items-end gap-3">
+                    <div className="space-y-2">
+                        <Label htmlFor="reapply-from">Desde (opcional)</Label>
+                        <Input id="reapply-from" type="date" value={from} onChange={(event) => { setFrom(event.target.value); setPreview(null); }} />
+                    </div>
+                    <Button type="button" variant="outline" disabled={isReapplying || !rules.length} onClick={() => void runPreview()}>
+                        {isReapplying && !preview ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                        Ver cambios
+                    </Button>
+                </div>
+
+                {preview ? (
+                    preview.changes.length ? (
+                        <div className="space-y-3">
+                            <p className="text-sm text-muted-foreground">
+                                {preview.total} de {preview.scanned} movimientos cambiarían
+                                {preview.total > preview.changes.length ? ` (se aplican los primeros ${preview.changes.length})` : ''}.
+                            </p>
+                            <div className="max-h-96 space-y-2 overflow-y-auto">
+                                {preview.changes.map((change) => (
+                                    <div key={change.id} className="rounded-lg border p-3 text-sm">
+                                        <div className="flex items-center justify-between gap-2">
+                                            <p className="font-medium">{change.description}</p>
+                                            <p className="text-xs text-muted-foreground">
+                                                {formatMoneyIn(change.amount, 'ARS')} • {new Date(`${change.date}T00:00:00`).toLocaleDateString('es-AR', { dateStyle: 'medium' })}
+                                            </p>
+                                        </div>
+                                        <p className="mt-1 text-xs">
+                                            <span className="text-muted-foreground line-through">{describeSide(change.before, accountName)}</span>
+                                            {' → '}
+                                            <span className="font-semibold text-primary">{describeSide(change.after, accountName)}</span>
+                                        </p>
+                                        <p className="mt-1 text-[11px] text-muted-foreground">
+                                            Por: {change.matched_rule_ids.map(ruleName).join(', ')}
+                                        </p>
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="flex gap-2">
+                                <Button type="button" disabled={isReapplying} onClick={() => void confirm()}>
+                                    {isReapplying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                                    Aplicar {preview.changes.length} cambios
+                                </Button>
+                                <Button type="button" variant="ghost" disabled={isReapplying} onClick={() => setPreview(null)}>
+                                    Cancelar
+                                </Button>
+                            </div>
+                        </div>
+                    ) : (
+                        <p className="text-sm text-muted-foreground">
+                            Revisamos {preview.scanned} movimientos: las reglas no cambian ninguno.
+                        </p>
+                    )
+                ) : null}
+            </CardContent>
+        </Card>
+    );
+}
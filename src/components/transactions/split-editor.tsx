@@ -0,0 +1,133 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CategoryOptions } from '@/components/finance/category-options';
+import { useTransactions } from '@/hooks/use-transactions';
+import { formatMoneyIn, normalizeCurrency } from '@/lib/currency';
+import { splitBaseAmount, validateSplitLines, type TransactionWithSplits } from '@/lib/splits';
+import { Loader2, Plus, Trash2, X } from 'lucide-react';
+
+type SplitLineDraft = {
+    category: string;
+    amount: string;
+};
+
+type SplitEditorProps = {
+    transaction: TransactionWithSplits & { id: string };
+    onClose: () => void;
+};
+
+export function SplitEditor({ transaction, onClose }: SplitEditorProps) {
+    const { splitTransaction, isSplitting } = useTransactions();
+    const currency = normalizeCurrency(transaction.currency);
+    const total = splitBaseAmount(transaction);
+    const [lines, setLines] = useState<SplitLineDraft[]>(() => (
+        transaction.splits?.length
+            ? transaction.splits.map((split) => ({ category: split.category, amount: String(split.amount) }))
+            : [{ category: transaction.category, amount: String(total) }, { category: '', amount: '' }]
+    ));
+
+    const assigned = lines.reduce((accumulator, line) => accumulator + (Number(line.amount) || 0), 0);
+    const remaining = Math.round((total - assigned) * 100) / 100;
+    const parsedLines = lines.map((line) => ({ category: line.category.trim(), amount: Number(line.amount) || 0 }));
+    const validationError = validateSplitLines(total, parsedLines);
+
+    const updateLine = (index: number, changes: Partial<SplitLineDraft>) => {
+        setLines((current) => current.map((line, lineIndex) => (lineIndex === index ? { ...line, ...changes } : line)));
+    };
+
+    const save = async (splits: typeof parsedLines) => {
+        try {
+            await splitTransaction({ id: transaction.id, splits });
+            onClose();
+        } catch {
+            // toast handled in hook
+        }
+    };
+
+    const handleSubmit = (event: FormEvent) => {
+        event.preventDefault();
+        if (validationError) return;
+        void save(parsedLines);
+    };
+
+    const listId = `split-category-options-${transaction.id}`;
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-3">
+            <div className="flex items-center justify-between">
+                <p className="text-xs font-medium text-muted-foreground">Dividir {formatMoneyIn(total, currency)} en categorías</p>
+                <Button type="button" variant="ghost" size="icon" className="h-7 w-7" title="Cerrar" onClick={onClose}>
+                    <X className="h-4 w-4" />
+                </Button>
+            </div>
+
+            <CategoryOptions id={listId} kind="expense" />
+            {lines.map((line, index) => (
+                <div key={index} className="flex items-center gap-2">
+                    <Input
+                        value={line.category}
+                        list={listId}
+                        placeholder="Categoría"
+                        onChange={(event) => updateLine(index, { category: event.target.value })}
+                        required
+                    />
+                    <Input
+                        type="number"
+                        step="0.01"
+                        min="0.01"
+                        value={line.amount}
+                        placeholder="Monto"
+                        className="w-32"
+                        onChange={(event) => updateLine(index, { amount: event.target.value })}
+                        required
+                    />
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 shrink-0"
+                        title="Quitar línea"
+                        disabled={lines.length <= 2}
+                        onClick={() => setLines((current) => current.filter((_, lineIndex) => lineIndex !== index))}
+                    >
+                        <Trash2 className="h-4 w-4" />
+                    </Button>
+                </div>
+            ))}
+
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setLines((current) => [...current, { category: '', amount: remaining > 0 ? String(remaining) : '' }])}
+                >
+                    <Plus className="mr-1 h-4 w-4" />
+                    Línea
+                </Button>
+                <p className={`text-xs ${remaining === 0 ? 'text-muted-foreground' : 'text-destructive'}`}>
+                    {remaining === 0
+                        ? 'Las líneas suman el total'
+                        : remaining > 0
+                            ? `Falta asignar ${formatMoneyIn(remaining, currency)}`
+                            : `Sobran ${formatMoneyIn(-remaining, currency)}`}
+                </p>
+            </div>
+
+            <div className="flex gap-2">
+                <Button type="submit" size="sm" disabled={isSplitting || Boolean(validationError)}>
+                    {isSplitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                    Guardar división
+                </Button>
+                {transaction.splits?.length ? (
+                    <Button type="button" size="sm" variant="outline" disabled={isSplitting} onClick={() => void save([])}>
+                        Quitar división
+                    </Button>
+                ) : null}
+            </div>
+        </form>
+    );
+}
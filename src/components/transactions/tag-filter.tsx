@@ -0,0 +1,27 @@
+'use client';
+
+import { useTags } from '@/hooks/use-tags';
+
+type TagFilterProps = {
+    value: string;
+    onChange: (tag: string) => void;
+    className?: string;
+};
+
+export function TagFilter({ value, onChange, className }: TagFilterProps) {
+    const { tags } = useTags();
+
+    return (
+        <select
+            value={value}
+            onChange={(event) => onChange(event.target.value)}
+            className={className || 'h-10 rounded-md border border-input bg-background px-3 text-sm'}
+            aria-label="Filtrar por etiqueta"
+        >
+            <option value="">Todas las etiquetas</option>
+            {tags.map((tag) => (
+                <option key={tag.id} value={tag.name}>#{tag.name} ({tag.usage_count})</option>
+            ))}
+        </select>
+    );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import { ChangeEvent, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { useTransactionAttachments } from '@/hooks/use-transaction-attachments';
+import type { TransactionAttachment } from '@/lib/attachments';
+import { FileText, ImageIcon, Loader2, Paperclip, Trash2 } from 'lucide-react';
+
+function formatSize(bytes: number) {
+    if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+type TransactionAttachmentsProps = {
+    transactionId: string;
+};
+
+export function TransactionAttachments({ transactionId }: TransactionAttachmentsProps) {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const {
+        attachments,
+        isLoading,
+        error,
+        uploadAttachment,
+        isUploading,
+        deleteAttachment,
+        isDeleting,
+    } = useTransactionAttachments(transactionId);
+
+    const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+
+        try {
+            await uploadAttachment(file);
+        } catch {
+            // toast handled in hook
+        }
+    };
+
+    const handleDelete = (attachment: TransactionAttachment) => {
+        const approved = window.confirm(`¿Seguro que quieres eliminar "${attachment.file_name}"?`);
+        if (!approved) return;
+        void deleteAttachment(attachment.id).catch(() => undefined);
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+                <p className="flex items-center gap-1 text-xs font-medium text-muted-foreground">
+                    <Paperclip className="h-3.5 w-3.5" />
+                    Comprobantes ({attachments.length})
+                </p>
+                <input
+                    ref={inputRef}
+                    type="file"
+                    accept="application/pdf,image/jpeg,image/png,image/webp"
+                    className="hidden"
+                    onChange={handleFile}
+                />
+                <Button type="button" size="sm" variant="outline" disabled={isUploading} onClick={() => inputRef.current?.click()}>
+                    {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Paperclip className="mr-2 h-4 w-4" />}
+                    Adjuntar
+                </Button>
+            </div>
+
+            {isLoading ? (
+                <Loader2 className="h-4 w-4 animate-spin text-primary" />
+            ) : error ? (
+                <p className="text-xs text-destructive">{error}</p>
+            ) : attachments.length > 0 ? (
+                <div className="space-y-1">
+                    {attachments.map((attachment) => (
+                        <div key={attachment.id} className="flex items-center justify-between gap-2 rounded-md bg-muted/50 px-2 py-1 text-xs">
+                            <a
+                                href={attachment.url || undefined}
+                                target="_blank"
+                                rel="noreferrer"
+                                className={`flex min-w-0 items-center gap-2 ${attachment.url ? 'hover:underline' : 'pointer-events-none'}`}
+                            >
+                                {attachment.mime_type === 'application/pdf'
+                                    ? <FileText className="h-4 w-4 shrink-0" />
+                                    : <ImageIcon className="h-4 w-4 shrink-0" />}
+                                <span className="truncate">{attachment.file_name}</span>
+                                <span className="shrink-0 text-muted-foreground">{formatSize(attachment.size_bytes)}</span>
+                            </a>
+                            <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7 text-destructive hover:text-destructive"
+                                title="Eliminar adjunto"
+                                disabled={isDeleting}
+                                onClick={() => handleDelete(attachment)}
+                            >
+                                <Trash2 className="h-3.5 w-3.5" />
+                            </Button>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <p className="text-xs text-muted-foreground">Sin comprobantes. Podés adjuntar PDF o imágenes de hasta 10 MB.</p>
+            )}
+        </div>
+    );
+}
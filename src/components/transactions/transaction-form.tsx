@@ -9,18 +9,26 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useTransactions } from '@/hooks/use-transactions';
+import { useAccounts } from '@/hooks/use-accounts';
+import { CategoryOptions } from '@/components/finance/category-options';
 import { Loader2 } from 'lucide-react';
 
 export function TransactionForm() {
     const { addTransaction, isAdding } = useTransactions();
+    const { accounts } = useAccounts();
 
-    const { register, handleSubmit, reset, setValue, formState: { errors } } = useForm<TransactionInput>({
+    const { register, handleSubmit, reset, setValue, watch, formState: { errors } } = useForm<TransactionInput>({
         resolver: zodResolver(TransactionInputSchema),
         defaultValues: {
             type: 'expense',
+            currency: 'ARS',
             date: new Date().toISOString().split('T')[0],
         }
     });
+    const currency = watch('currency');
+    const accountId = watch('account_id');
+    const type = watch('type');
+    const defaultAccountId = accounts.find((account) => account.is_default)?.id;
 
     const onSubmit = (data: TransactionInput) => {
         addTransaction(data, {
@@ -52,6 +60,25 @@ export function TransactionForm() {
                         {errors.type && <p className="text-xs text-destructive">{errors.type.message}</p>}
                     </div>
 
+                    {accounts.length > 1 && (
+                        <div className="space-y-2">
+                            <Label>Cuenta</Label>
+                            <Select
+                                value={accountId || defaultAccountId || ''}
+                                onValueChange={(value) => setValue('account_id', value)}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Cuenta por defecto" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {accounts.map((account) => (
+                                        <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+
                     <div className="space-y-2">
                         <Label htmlFor="amount">Monto</Label>
                         <Input
@@ -64,6 +91,37 @@ export function TransactionForm() {
                         {errors.amount && <p className="text-xs text-destructive">{errors.amount.message}</p>}
                     </div>
 
+                    <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-2">
+                            <Label>Moneda</Label>
+                            <Select
+                                value={currency || 'ARS'}
+                                onValueChange={(value) => setValue('currency', value as 'ARS' | 'USD')}
+                            >
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Moneda" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="ARS">ARS</SelectItem>
+                                    <SelectItem value="USD">USD</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        {currency === 'USD' ? (
+                            <div className="space-y-2">
+                                <Label htmlFor="fx_rate">Tipo de cambio</Label>
+                                <Input
+                                    id="fx_rate"
+                                    type="number"
+                                    step="0.01"
+                                    placeholder="ARS por USD"
+                                    {...register('fx_rate', { setValueAs: (value) => (value === '' ? null : Number(value)) })}
+                                />
+                                {errors.fx_rate && <p className="text-xs text-destructive">{errors.fx_rate.message}</p>}
+                            </div>
+                        ) : null}
+                    </div>
+
                     <div className="space-y-2">
                         <Label htmlFor="description">Descripción</Label>
                         <Input id="description" placeholder="Ej: Supermercado" {...register('description')} />
@@ -72,7 +130,8 @@ export function TransactionForm() {
 
                     <div className="space-y-2">
                         <Label htmlFor="category">Categoría</Label>
-                        <Input id="category" placeholder="Ej: Comida" {...register('category')} />
+                        <Input id="category" placeholder="Ej: Comida" list="transaction-category-options" {...register('category')} />
+                        <CategoryOptions id="transaction-category-options" kind={type === 'income' ? 'income' : 'expense'} />
                         {errors.category && <p className="text-xs text-destructive">{errors.category.message}</p>}
                     </div>
 
@@ -82,6 +141,25 @@ export function TransactionForm() {
                         {errors.date && <p className="text-xs text-destructive">{errors.date.message}</p>}
                     </div>
 
+                    <div className="space-y-2">
+                        <Label htmlFor="tags">Etiquetas (separadas por coma)</Label>
+                        <Input id="tags" placeholder="Ej: vacaciones 2026, reintegrable" {...register('tags')} />
+                        {errors.tags && <p className="text-xs text-destructive">{errors.tags.message}</p>}
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="notes">Nota</Label>
+                        <textarea
+                            id="notes"
+                            rows={2}
+                            maxLength={2000}
+                            placeholder="Opcional"
+                            className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                            {...register('notes')}
+                        />
+                        {errors.notes && <p className="text-xs text-destructive">{errors.notes.message}</p>}
+                    </div>
+
                     <Button type="submit" className="w-full" disabled={isAdding}>
                         {isAdding ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
                         Guardar Transacción
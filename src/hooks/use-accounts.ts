@@ -0,0 +1,159 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Account, AccountInput, AccountUpdate, TransactionInput } from '@/lib/schemas';
+import { TRANSFER_CATEGORY } from '@/lib/accounts';
+import { useSpace } from '@/components/providers/space-provider';
+
+export type AccountWithBalance = Account & {
+    id: string;
+    balance: number;
+    movements_count: number;
+    missing_rates: number;
+    // Closing date of the last bank statement reconciled against the account (supabase-reconciliation.sql).
+    reconciled_through?: string | null;
+};
+
+type UpdateAccountInput = {
+    accountId: string;
+    changes: AccountUpdate;
+};
+
+export type TransferInput = {
+    fromAccountId: string;
+    toAccountId: string;
+    amount: number;
+    date: string;
+    description?: string;
+    currency?: TransactionInput['currency'];
+    fx_rate?: number | null;
+};
+
+export function useAccounts(options: { includeArchived?: boolean } = {}) {
+    const queryClient = useQueryClient();
+    const { activeSpaceId, isLoading: isLoadingSpaces, error: spacesError } = useSpace();
+    const includeArchived = Boolean(options.includeArchived);
+
+    const accountsQuery = useQuery({
+        queryKey: ['accounts', activeSpaceId, includeArchived],
+        queryFn: async () => {
+            const response = await fetch(`/api/accounts${includeArchived ? '?include_archived=1' : ''}`, {
+                credentials: 'include',
+                cache: 'no-store',
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'Error al cargar cuentas');
+            return (body || []) as AccountWithBalance[];
+        },
+        staleTime: 2 * 60 * 1000,
+        refetchOnMount: 'always',
+        enabled: Boolean(activeSpaceId),
+    });
+
+    const addAccount = useMutation({
+        mutationFn: async (account: AccountInput) => {
+            const response = await fetch('/api/accounts', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(account),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'Error al crear la cuenta');
+            return body as AccountWithBalance;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['accounts'] });
+            toast.success('Cuenta creada');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'Error al crear la cuenta');
+        },
+    });
+
+    const updateAccount = useMutation({
+        mutationFn: async ({ accountId, changes }: UpdateAccountInput) => {
+            const response = await fetch(`/api/accounts/${accountId}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(changes),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'No se pudo actualizar la cuenta');
+            return body as Account;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['accounts'] });
+            toast.success('Cuenta actualizada');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo actualizar la cuenta');
+        },
+    });
+
+    const deleteAccount = useMutation({
+        mutationFn: async (accountId: string) => {
+            const response = await fetch(`/api/accounts/${accountId}`, {
+                method: 'DELETE',
+                credentials: 'include',
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'No se pudo eliminar la cuenta');
+            return body as { success: boolean; id: string };
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['accounts'] });
+            toast.success('Cuenta eliminada');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo eliminar la cuenta');
+        },
+    });
+
+    const transfer = useMutation({
+        mutationFn: async (input: TransferInput) => {
+            const payload: TransactionInput = {
+                type: 'transfer',
+                amount: input.amount,
+                description: input.description?.trim() || 'Transferencia entre cuentas',
+                category: TRANSFER_CATEGORY,
+                date: input.date,
+                account_id: input.fromAccountId,
+                transfer_account_id: input.toAccountId,
+                currency: input.currency || 'ARS',
+                fx_rate: input.fx_rate ?? null,
+            };
+            const response = await fetch('/api/transactions', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(payload),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'No se pudo registrar la transferencia');
+            return body;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['accounts'] });
+            queryClient.invalidateQueries({ queryKey: ['transactions'] });
+            toast.success('Transferencia registrada');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo registrar la transferencia');
+        },
+    });
+
+    return {
+        accounts: accountsQuery.data || [],
+        isLoading: isLoadingSpaces || !activeSpaceId || accountsQuery.isLoading,
+        error: spacesError || (accountsQuery.error instanceof Error ? accountsQuery.error.message : null),
+        addAccount: addAccount.mutateAsync,
+        isAdding: addAccount.isPending,
+        updateAccount: updateAccount.mutateAsync,
+        isUpdating: updateAccount.isPending,
+        deleteAccount: deleteAccount.mutateAsync,
+        isDeleting: deleteAccount.isPending,
+        transfer: transfer.mutateAsync,
+        isTransferring: transfer.isPending,
+    };
+}
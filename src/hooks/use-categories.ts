@@ -0,0 +1,110 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type { CategoryInput, CategoryUpdate } from '@/lib/schemas';
+import type { Category } from '@/lib/categories';
+import { useSpace } from '@/components/providers/space-provider';
+
+type UpdateCategoryInput = {
+    categoryId: string;
+    changes: CategoryUpdate;
+};
+
+export function useCategories() {
+    const queryClient = useQueryClient();
+    const { activeSpaceId, isLoading: isLoadingSpaces } = useSpace();
+
+    const categoriesQuery = useQuery({
+        queryKey: ['categories', activeSpaceId],
+        queryFn: async () => {
+            const response = await fetch('/api/categories', { credentials: 'include', cache: 'no-store' });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'Error al cargar categorías');
+            return (body || []) as Category[];
+        },
+        staleTime: 5 * 60 * 1000,
+        refetchOnMount: 'always',
+        enabled: Boolean(activeSpaceId),
+    });
+
+    // Renames are copied onto every row that uses the category, so the lists showing names are refreshed too.
+    const invalidateCategoryUsers = () => {
+        queryClient.invalidateQueries({ queryKey: ['categories'] });
+        queryClient.invalidateQueries({ queryKey: ['transactions'] });
+        queryClient.invalidateQueries({ queryKey: ['budgets'] });
+        queryClient.invalidateQueries({ queryKey: ['recurring'] });
+        queryClient.invalidateQueries({ queryKey: ['debts'] });
+    };
+
+    const addCategory = useMutation({
+        mutationFn: async (category: CategoryInput) => {
+            const response = await fetch('/api/categories', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(category),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'No se pudo crear la categoría');
+            return body as Category;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['categories'] });
+            toast.success('Categoría creada');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo crear la categoría');
+        },
+    });
+
+    const updateCategory = useMutation({
+        mutationFn: async ({ categoryId, changes }: UpdateCategoryInput) => {
+            const response = await fetch(`/api/categories/${categoryId}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(changes),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'No se pudo actualizar la categoría');
+            return body as Category;
+        },
+        onSuccess: () => {
+            invalidateCategoryUsers();
+            toast.success('Categoría actualizada');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo actualizar la categoría');
+        },
+    });
+
+    const deleteCategory = useMutation({
+        mutationFn: async (categoryId: string) => {
+            const response = await fetch(`/api/categories/${categoryId}`, {
+                method: 'DELETE',
+                credentials: 'include',
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'No se pudo eliminar la categoría');
+            return body as { success: boolean; id: string };
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['categories'] });
+            toast.success('Categoría eliminada');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo eliminar la categoría');
+        },
+    });
+
+    return {
+        categories: categoriesQuery.data || [],
+        isLoading: isLoadingSpaces || !activeSpaceId || categoriesQuery.isLoading,
+        error: categoriesQuery.error instanceof Error ? categoriesQuery.error.message : null,
+        addCategory: addCategory.mutateAsync,
+        isAdding: addCategory.isPending,
+        updateCategory: updateCategory.mutateAsync,
+        isUpdating: updateCategory.isPending,
+        deleteCategory: deleteCategory.mutateAsync,
+        isDeleting: deleteCategory.isPending,
+    };
+}
@@ -0,0 +1,129 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type { CategoryRuleApply, CategoryRuleInput, CategoryRuleUpdate } from '@/lib/schemas';
+import type { CategoryRule, RuleReapplyResult } from '@/lib/category-rules';
+import { useSpace } from '@/components/providers/space-provider';
+
+type UpdateRuleInput = {
+    ruleId: string;
+    changes: CategoryRuleUpdate;
+};
+
+export function useCategoryRules() {
+    const queryClient = useQueryClient();
+    const { activeSpaceId, isLoading: isLoadingSpaces } = useSpace();
+
+    const rulesQuery = useQuery({
+        queryKey: ['category-rules', activeSpaceId],
+        queryFn: async () => {
+            const response = await fetch('/api/category-rules', { credentials: 'include', cache: 'no-store' });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'Error al cargar reglas de categorización');
+            return (body || []) as CategoryRule[];
+        },
+        staleTime: 5 * 60 * 1000,
+        refetchOnMount: 'always',
+        enabled: Boolean(activeSpaceId),
+    });
+
+    const addRule = useMutation({
+        mutationFn: async (rule: CategoryRuleInput) => {
+            const response = await fetch('/api/category-rules', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(rule),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'No se pudo crear la regla');
+            return body as CategoryRule;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['category-rules'] });
+            toast.success('Regla creada');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo crear la regla');
+        },
+    });
+
+    const updateRule = useMutation({
+        mutationFn: async ({ ruleId, changes }: UpdateRuleInput) => {
+            const response = await fetch(`/api/category-rules/${ruleId}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(changes),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'No se pudo actualizar la regla');
+            return body as CategoryRule;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['category-rules'] });
+            toast.success('Regla actualizada');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo actualizar la regla');
+        },
+    });
+
+    const deleteRule = useMutation({
+        mutationFn: async (ruleId: string) => {
+            const response = await fetch(`/api/category-rules/${ruleId}`, {
+                method: 'DELETE',
+                credentials: 'include',
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'No se pudo eliminar la regla');
+            return body as { success: boolean; id: string };
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['category-rules'] });
+            toast.success('Regla eliminada');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo eliminar la regla');
+        },
+    });
+
+    // Dry runs only read; the toast and invalidation belong to the confirmed run.
+    const reapplyRules = useMutation({
+        mutationFn: async (input: Partial<CategoryRuleApply>) => {
+            const response = await fetch('/api/category-rules/apply', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(input),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'No se pudieron aplicar las reglas');
+            return body as RuleReapplyResult;
+        },
+        onSuccess: (result) => {
+            if (result.dry_run) return;
+            queryClient.invalidateQueries({ queryKey: ['transactions'] });
+            queryClient.invalidateQueries({ queryKey: ['budgets'] });
+            queryClient.invalidateQueries({ queryKey: ['accounts'] });
+            queryClient.invalidateQueries({ queryKey: ['credit-cards'] });
+            toast.success(`Reglas aplicadas a ${result.applied} movimientos`);
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudieron aplicar las reglas');
+        },
+    });
+
+    return {
+        rules: rulesQuery.data || [],
+        isLoading: isLoadingSpaces || !activeSpaceId || rulesQuery.isLoading,
+        error: rulesQuery.error instanceof Error ? rulesQuery.error.message : null,
+        addRule: addRule.mutateAsync,
+        isAdding: addRule.isPending,
+        updateRule: updateRule.mutateAsync,
+        isUpdating: updateRule.isPending,
+        deleteRule: deleteRule.mutateAsync,
+        isDeleting: deleteRule.isPending,
+        reapplyRules: reapplyRules.mutateAsync,
+        isReapplying: reapplyRules.isPending,
+    };
+}
@@ -2,6 +2,9 @@
 import { useQuery } from '@tanstack/react-query';
 import { useFinance } from './use-finance';
 import { useTransactions } from './use-transactions';
+import { useDebtPayoff } from './use-debt-payoff';
+import { PAYOFF_STRATEGY_LABELS } from '@/lib/debt-payoff';
+import { financingWarning, type CardRates } from '@/lib/card-financing';
 import { useSpace } from '@/components/providers/space-provider';
 
 export type FinancialProfile = 'defensive' | 'balanced' | 'accelerated' | 'unknown';
@@ -31,6 +34,10 @@ interface Obligation {
     due_date: string;
     status: string;
     category: string;
+    minimum_payment?: number | string | null;
+    interest_rates?: CardRates | null;
+    // Amount plus late charges, computed by the API for past due obligations.
+    amount_due?: number;
 }
 
 function toNumber(value: unknown): number {
@@ -52,6 +59,7 @@ export function useCopilot() {
     const { activeSpaceId, isLoading: isLoadingSpaces } = useSpace();
     const { debts, savingsGoals, isLoadingGoals } = useFinance();
     const { transactions, isLoading: isLoadingTransactions } = useTransactions();
+    const { plan: payoffPlan, settings: payoffSettings } = useDebtPayoff();
 
     const { data: obligations, isLoading: isLoadingObligations } = useQuery<Obligation[]>({
         queryKey: ['obligations', activeSpaceId],
@@ -92,7 +100,7 @@ export function useCopilot() {
             toNumber((debt as any).remaining_installments) > 0
         ));
         const openObligations = (obligations || []).filter((obligation) => obligation.status !== 'paid');
-        const totalObligations = openObligations.reduce((acc, obligation) => acc + toNumber(obligation.amount), 0);
+        const totalObligations = openObligations.reduce((acc, obligation) => acc + toNumber(obligation.amount_due ?? obligation.amount), 0);
         const monthlyDebtPayments = activeDebts.reduce((acc, debt) => acc + toNumber((debt as any).monthly_payment), 0);
 
         // Simple "Capital Available" metric
@@ -145,22 +153,31 @@ export function useCopilot() {
             const daysUntilDue = Math.ceil((dueDate.getTime() - now.getTime()) / (1000 * 3600 * 24));
             if (daysUntilDue > 5) return;
 
-            const amount = toNumber(obligation.amount);
+            const amount = toNumber(obligation.amount_due ?? obligation.amount);
             const isOverdue = obligation.status === 'overdue' || daysUntilDue < 0;
             const urgencyLabel = isOverdue
                 ? `Vencida hace ${Math.abs(daysUntilDue)} día(s)`
                 : `Vence en ${daysUntilDue} día(s)`;
 
+            // Card statements: what paying only the minimum adds to the next one.
+            const minimumPayment = toNumber(obligation.minimum_payment);
+            const minimumOnly = minimumPayment > 0 && obligation.interest_rates
+                ? financingWarning({ balance: amount, minimum_payment: minimumPayment, rates: obligation.interest_rates }, minimumPayment)
+                : null;
+
             upsertAction({
                 id: `obligation-${obligation.id}`,
                 title: `Pagar ${obligation.title}`,
-                description: `${urgencyLabel} · $${amount.toFixed(0)}`,
+                description: `${urgencyLabel} · $${amount.toFixed(0)}${minimumOnly ? ` · pagando solo el mínimo suma ~$${minimumOnly.next_charges.toFixed(0)} de intereses` : ''}`,
                 type: 'payment',
                 priority: 1,
                 isCompleted: false,
             });
         });
 
+        // This month's payments of the payoff planner: the target debt gets the cuota plus the extra budget.
+        const plannedPayments = new Map(payoffPlan.next_payments.map((payment) => [payment.debt_id, payment]));
+
         activeDebts.forEach((debt) => {
             const nextPaymentDate = new Date((debt as any).next_payment_date);
             if (Number.isNaN(nextPaymentDate.getTime())) return;
@@ -171,7 +188,8 @@ export function useCopilot() {
             const debtName = String((debt as any).name || 'Tu deuda');
             if (normalizedObligationTitles.has(normalizeText(debtName))) return;
 
-            const monthlyPayment = toNumber((debt as any).monthly_payment);
+            const planned = plannedPayments.get(String((debt as any).id));
+            const monthlyPayment = planned && planned.extra > 0 ? planned.amount : toNumber((debt as any).monthly_payment);
             const urgencyLabel = daysUntilDue < 0
                 ? `Pago vencido hace ${Math.abs(daysUntilDue)} día(s)`
                 : `Próximo pago en ${daysUntilDue} día(s)`;
@@ -179,13 +197,28 @@ export function useCopilot() {
             upsertAction({
                 id: `debt-${(debt as any).id}`,
                 title: `Confirmar débito: ${debtName}`,
-                description: `${urgencyLabel} · cuota $${monthlyPayment.toFixed(0)}`,
+                description: `${urgencyLabel} · ${planned && planned.extra > 0 ? 'pago planificado' : 'cuota'} $${monthlyPayment.toFixed(0)}`,
                 type: 'payment',
                 priority: 1,
                 isCompleted: false,
             });
         });
 
+        // Without spare capital the extra budget is not there, so the plan only speaks when it can be paid.
+        if (profile !== 'defensive') {
+            payoffPlan.next_payments.filter((payment) => payment.extra > 0).forEach((payment) => {
+                if (actions.some((action) => action.id === `debt-${payment.debt_id}`)) return;
+                upsertAction({
+                    id: `payoff-${payment.debt_id}`,
+                    title: `Adelantar pago: ${payment.name}`,
+                    description: `${PAYOFF_STRATEGY_LABELS[payoffSettings.strategy]} · $${payment.extra.toFixed(0)} extra además de la cuota de $${payment.minimum.toFixed(0)}`,
+                    type: 'payment',
+                    priority: 2,
+                    isCompleted: false,
+                });
+            });
+        }
+
         if (profile === 'defensive') {
             actions.push({
                 id: 'review-subs',
@@ -0,0 +1,172 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { CardStatementPayment, CreditCard, CreditCardInput, CreditCardUpdate, Transaction } from '@/lib/schemas';
+import type { CardStatementPhase, CardStatementRow, StatementCycle } from '@/lib/credit-cards';
+import { useSpace } from '@/components/providers/space-provider';
+
+export type CardStatementSummary = CardStatementRow & {
+    total: number;
+    amount_due: number;
+    phase: CardStatementPhase;
+};
+
+export type CreditCardWithStatements = CreditCard & {
+    id: string;
+    account_id: string;
+    current_cycle: StatementCycle;
+    statements: CardStatementSummary[];
+};
+
+export type CardStatementDetail = CardStatementSummary & {
+    lines: Array<Transaction & { id: string }>;
+};
+
+type UpdateCardInput = {
+    cardId: string;
+    changes: CreditCardUpdate;
+};
+
+type PayStatementInput = CardStatementPayment & {
+    statementId: string;
+};
+
+export function useCreditCards() {
+    const queryClient = useQueryClient();
+    const { activeSpaceId, isLoading: isLoadingSpaces, error: spacesError } = useSpace();
+
+    const cardsQuery = useQuery({
+        queryKey: ['credit-cards', activeSpaceId],
+        queryFn: async () => {
+            const response = await fetch('/api/cards', { credentials: 'include', cache: 'no-store' });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'Error al cargar tarjetas');
+            return (body || []) as CreditCardWithStatements[];
+        },
+        staleTime: 2 * 60 * 1000,
+        refetchOnMount: 'always',
+        enabled: Boolean(activeSpaceId),
+    });
+
+    const addCard = useMutation({
+        mutationFn: async (card: CreditCardInput) => {
+            const response = await fetch('/api/cards', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(card),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'Error al crear la tarjeta');
+            return body as CreditCardWithStatements;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['credit-cards'] });
+            queryClient.invalidateQueries({ queryKey: ['accounts'] });
+            toast.success('Tarjeta creada');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'Error al crear la tarjeta');
+        },
+    });
+
+    const updateCard = useMutation({
+        mutationFn: async ({ cardId, changes }: UpdateCardInput) => {
+            const response = await fetch(`/api/cards/${cardId}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(changes),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'No se pudo actualizar la tarjeta');
+            return body as CreditCard;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['credit-cards'] });
+            toast.success('Tarjeta actualizada');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo actualizar la tarjeta');
+        },
+    });
+
+    const deleteCard = useMutation({
+        mutationFn: async (cardId: string) => {
+            const response = await fetch(`/api/cards/${cardId}`, {
+                method: 'DELETE',
+                credentials: 'include',
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'No se pudo eliminar la tarjeta');
+            return body as { success: boolean; id: string };
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['credit-cards'] });
+            toast.success('Tarjeta eliminada');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo eliminar la tarjeta');
+        },
+    });
+
+    const payStatement = useMutation({
+        mutationFn: async ({ statementId, ...payment }: PayStatementInput) => {
+            const response = await fetch(`/api/card-statements/${statementId}/pay`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(payment),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'No se pudo registrar el pago');
+            return body as { remaining: number };
+        },
+        onSuccess: (result) => {
+            queryClient.invalidateQueries({ queryKey: ['credit-cards'] });
+            queryClient.invalidateQueries({ queryKey: ['card-statement'] });
+            queryClient.invalidateQueries({ queryKey: ['accounts'] });
+            queryClient.invalidateQueries({ queryKey: ['transactions'] });
+            queryClient.invalidateQueries({ queryKey: ['obligations'] });
+            queryClient.invalidateQueries({ queryKey: ['payments'] });
+            toast.success(result.remaining > 0 ? 'Pago registrado. Queda saldo pendiente.' : 'Resumen pagado');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo registrar el pago');
+        },
+    });
+
+    return {
+        cards: cardsQuery.data || [],
+        isLoading: isLoadingSpaces || !activeSpaceId || cardsQuery.isLoading,
+        error: spacesError || (cardsQuery.error instanceof Error ? cardsQuery.error.message : null),
+        addCard: addCard.mutateAsync,
+        isAdding: addCard.isPending,
+        updateCard: updateCard.mutateAsync,
+        isUpdating: updateCard.isPending,
+        deleteCard: deleteCard.mutateAsync,
+        isDeleting: deleteCard.isPending,
+        payStatement: payStatement.mutateAsync,
+        isPaying: payStatement.isPending,
+    };
+}
+
+export function useCardStatement(statementId: string | null) {
+    const { activeSpaceId } = useSpace();
+
+    const statementQuery = useQuery({
+        queryKey: ['card-statement', activeSpaceId, statementId],
+        queryFn: async () => {
+            const response = await fetch(`/api/card-statements/${statementId}`, { credentials: 'include', cache: 'no-store' });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'Error al cargar el resumen');
+            return body as CardStatementDetail;
+        },
+        enabled: Boolean(activeSpaceId && statementId),
+    });
+
+    return {
+        statement: statementQuery.data || null,
+        isLoading: statementQuery.isLoading,
+        error: statementQuery.error instanceof Error ? statementQuery.error.message : null,
+    };
+}
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useFinance } from '@/hooks/use-finance';
+import {
+    DEFAULT_PAYOFF_SETTINGS,
+    PAYOFF_STRATEGIES,
+    getStoredPayoffSettings,
+    simulatePayoff,
+    storePayoffSettings,
+    type PayoffDebtRow,
+    type PayoffPlan,
+    type PayoffSettings,
+    type PayoffStrategy,
+} from '@/lib/debt-payoff';
+
+/**
+ * Payoff planner over the space debts. The setting (strategy, extra budget, custom order) lives in localStorage
+ * like the reporting preferences, so the debts page and the copilot read the same plan.
+ */
+export function useDebtPayoff() {
+    const { debts, isLoadingDebts } = useFinance();
+    const [settings, setSettingsState] = useState<PayoffSettings>(DEFAULT_PAYOFF_SETTINGS);
+
+    useEffect(() => {
+        setSettingsState(getStoredPayoffSettings());
+    }, []);
+
+    const setSettings = useCallback((changes: Partial<PayoffSettings>) => {
+        setSettingsState((current) => {
+            const next = { ...current, ...changes };
+            storePayoffSettings(next);
+            return next;
+        });
+    }, []);
+
+    const today = new Date().toISOString().split('T')[0];
+    const plans = useMemo(() => {
+        const rows = debts as PayoffDebtRow[];
+        return Object.fromEntries(
+            PAYOFF_STRATEGIES.map((strategy) => [strategy, simulatePayoff(rows, { ...settings, strategy }, today)])
+        ) as Record<PayoffStrategy, PayoffPlan>;
+    }, [debts, settings, today]);
+
+    return {
+        settings,
+        setSettings,
+        plans,
+        plan: plans[settings.strategy],
+        isLoading: isLoadingDebts,
+    };
+}
@@ -0,0 +1,85 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type { DuplicateMerge } from '@/lib/schemas';
+import type { DuplicateReview } from '@/lib/duplicates';
+import { useSpace } from '@/components/providers/space-provider';
+
+type MergeDuplicateInput = {
+    reviewId: string;
+    keep: DuplicateMerge['keep'];
+};
+
+export function useDuplicateReviews() {
+    const queryClient = useQueryClient();
+    const { activeSpaceId, isLoading: isLoadingSpaces } = useSpace();
+
+    const reviewsQuery = useQuery({
+        queryKey: ['transaction-duplicates', activeSpaceId],
+        queryFn: async () => {
+            const response = await fetch('/api/transactions/duplicates', { credentials: 'include', cache: 'no-store' });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'Error al cargar posibles duplicados');
+            return (body || []) as DuplicateReview[];
+        },
+        staleTime: 2 * 60 * 1000,
+        refetchOnMount: 'always',
+        enabled: Boolean(activeSpaceId),
+    });
+
+    const invalidateAfterMerge = () => {
+        queryClient.invalidateQueries({ queryKey: ['transaction-duplicates'] });
+        queryClient.invalidateQueries({ queryKey: ['transactions'] });
+        queryClient.invalidateQueries({ queryKey: ['budgets'] });
+        queryClient.invalidateQueries({ queryKey: ['accounts'] });
+        queryClient.invalidateQueries({ queryKey: ['credit-cards'] });
+    };
+
+    const mergeDuplicate = useMutation({
+        mutationFn: async ({ reviewId, keep }: MergeDuplicateInput) => {
+            const response = await fetch(`/api/transactions/duplicates/${reviewId}/merge`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({ keep }),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'No se pudo unir el duplicado');
+            return body as { success: boolean; removed_id: string };
+        },
+        onSuccess: () => {
+            invalidateAfterMerge();
+            toast.success('Duplicado unido: quedó un solo movimiento');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo unir el duplicado');
+        },
+    });
+
+    const dismissDuplicate = useMutation({
+        mutationFn: async (reviewId: string) => {
+            const response = await fetch(`/api/transactions/duplicates/${reviewId}/dismiss`, {
+                method: 'POST',
+                credentials: 'include',
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'No se pudo descartar el duplicado');
+            return body;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['transaction-duplicates'] });
+            toast.success('Marcados como movimientos distintos');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo descartar el duplicado');
+        },
+    });
+
+    return {
+        reviews: reviewsQuery.data || [],
+        isLoading: isLoadingSpaces || !activeSpaceId || reviewsQuery.isLoading,
+        mergeDuplicate: mergeDuplicate.mutateAsync,
+        isMerging: mergeDuplicate.isPending,
+        dismissDuplicate: dismissDuplicate.mutateAsync,
+        isDismissing: dismissDuplicate.isPending,
+    };
+}
@@ -1,5 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Debt, DebtInput, DebtUpdate, SavingsGoal, SavingsGoalInput, SavingsGoalUpdate } from '@/lib/schemas';
+import type { GoalProjection } from '@/lib/goals';
+import type { PrepaymentMode } from '@/lib/loans';
 import { toast } from 'sonner';
 import { useSpace } from '@/components/providers/space-provider';
 
@@ -8,6 +10,8 @@ type ConfirmDebtPaymentInput = {
     paymentAmount?: number;
     paymentDate?: string;
     description?: string;
+    // Loans only: what a payment above the installment does with the capital left.
+    prepaymentMode?: PrepaymentMode;
 };
 
 type UpdateDebtInput = {
@@ -15,6 +19,11 @@ type UpdateDebtInput = {
     changes: DebtUpdate;
 };
 
+// Listed goals carry their projection; it is null while supabase-goal-contributions.sql is pending.
+export type SavingsGoalWithProjection = SavingsGoal & {
+    projection?: GoalProjection | null;
+};
+
 type UpdateGoalInput = {
     goalId: string;
     changes: SavingsGoalUpdate;
@@ -43,7 +52,7 @@ export function useFinance() {
             const res = await fetch('/api/savings', { credentials: 'include', cache: 'no-store' });
             const body = await res.json().catch(() => null);
             if (!res.ok) throw new Error(body?.error || 'Error al cargar metas');
-            return (body || []) as SavingsGoal[];
+            return (body || []) as SavingsGoalWithProjection[];
         },
         staleTime: 5 * 60 * 1000,
         refetchOnMount: 'always',
@@ -59,7 +68,7 @@ export function useFinance() {
                 body: JSON.stringify(newDebt),
             });
             const body = await res.json().catch(() => null);
-            if (!res.ok) throw new Error(body?.error || 'Error al agregar deuda');
+            if (!res.ok) throw new Error(body?.hint || body?.error || 'Error al agregar deuda');
             return body;
         },
         onSuccess: () => {
@@ -101,7 +110,7 @@ export function useFinance() {
                 body: JSON.stringify(changes),
             });
             const body = await res.json().catch(() => null);
-            if (!res.ok) throw new Error(body?.error || 'No se pudo actualizar la deuda');
+            if (!res.ok) throw new Error(body?.hint || body?.error || 'No se pudo actualizar la deuda');
             return body as Debt;
         },
         onSuccess: () => {
@@ -146,6 +155,8 @@ export function useFinance() {
         },
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['savings'] });
+            // A new amount is booked as an adjustment in the goal's ledger.
+            queryClient.invalidateQueries({ queryKey: ['goal-contributions'] });
             toast.success('Meta actualizada');
         },
         onError: (error: any) => {
@@ -174,7 +185,7 @@ export function useFinance() {
 
     const confirmDebtPayment = useMutation({
         mutationFn: async (payload: ConfirmDebtPaymentInput) => {
-            const { debtId, paymentAmount, paymentDate, description } = payload;
+            const { debtId, paymentAmount, paymentDate, description, prepaymentMode } = payload;
             const res = await fetch(`/api/debts/${debtId}/confirm-payment`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
@@ -183,6 +194,7 @@ export function useFinance() {
                     payment_amount: paymentAmount,
                     payment_date: paymentDate,
                     description,
+                    prepayment_mode: prepaymentMode,
                 }),
             });
             const body = await res.json().catch(() => null);
@@ -194,6 +206,8 @@ export function useFinance() {
             queryClient.invalidateQueries({ queryKey: ['transactions'] });
             queryClient.invalidateQueries({ queryKey: ['obligations'] });
             queryClient.invalidateQueries({ queryKey: ['budgets'] });
+            queryClient.invalidateQueries({ queryKey: ['loan-schedule'] });
+            queryClient.invalidateQueries({ queryKey: ['payments'] });
 
             if (result?.obligationUpdated) {
                 toast.success('Pago confirmado y obligación marcada como pagada');
@@ -0,0 +1,174 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type { GoalContributionInput, GoalRuleInput, GoalRuleUpdate } from '@/lib/schemas';
+import type { GoalContributionRow, GoalProjection, GoalRuleRow, GoalTimelinePoint } from '@/lib/goals';
+import { useSpace } from '@/components/providers/space-provider';
+
+export type StoredGoalContribution = GoalContributionRow & {
+    id: string;
+    notes?: string | null;
+    created_at?: string;
+    transactions?: { description?: string | null; type?: string | null; date?: string | null } | null;
+};
+
+export type StoredGoalRule = GoalRuleRow & {
+    created_at?: string;
+};
+
+type GoalContributionsResponse = {
+    contributions: StoredGoalContribution[];
+    rules: StoredGoalRule[];
+    timeline: GoalTimelinePoint[];
+    projection: GoalProjection | null;
+    available: boolean;
+};
+
+export function useGoalContributions(goalId: string | null) {
+    const queryClient = useQueryClient();
+    const { activeSpaceId } = useSpace();
+
+    const contributionsQuery = useQuery({
+        queryKey: ['goal-contributions', activeSpaceId, goalId],
+        queryFn: async () => {
+            const response = await fetch(`/api/savings/${goalId}/contributions`, { credentials: 'include', cache: 'no-store' });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'Error al cargar aportes');
+            return body as GoalContributionsResponse;
+        },
+        staleTime: 60 * 1000,
+        refetchOnMount: 'always',
+        enabled: Boolean(activeSpaceId && goalId),
+    });
+
+    // Contributions move the goal balance through the ledger trigger, so the goal list is refreshed as well.
+    const invalidate = () => {
+        queryClient.invalidateQueries({ queryKey: ['goal-contributions'] });
+        queryClient.invalidateQueries({ queryKey: ['savings'] });
+    };
+
+    const addContribution = useMutation({
+        mutationFn: async (input: GoalContributionInput) => {
+            const response = await fetch(`/api/savings/${goalId}/contributions`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(input),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'No se pudo registrar el aporte');
+            return body as StoredGoalContribution;
+        },
+        onSuccess: (_data, input) => {
+            invalidate();
+            // An aporte between accounts creates the transfer too.
+            if (!input.transaction_id) {
+                queryClient.invalidateQueries({ queryKey: ['transactions'] });
+                queryClient.invalidateQueries({ queryKey: ['accounts'] });
+            }
+            toast.success('Aporte registrado');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo registrar el aporte');
+        },
+    });
+
+    const deleteContribution = useMutation({
+        mutationFn: async (contributionId: string) => {
+            const response = await fetch(`/api/savings/${goalId}/contributions/${contributionId}`, {
+                method: 'DELETE',
+                credentials: 'include',
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'No se pudo eliminar el aporte');
+            return body;
+        },
+        onSuccess: () => {
+            invalidate();
+            toast.success('Aporte eliminado');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo eliminar el aporte');
+        },
+    });
+
+    const addRule = useMutation({
+        mutationFn: async (input: GoalRuleInput) => {
+            const response = await fetch(`/api/savings/${goalId}/rules`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(input),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'No se pudo crear la regla');
+            return body as StoredGoalRule;
+        },
+        onSuccess: () => {
+            invalidate();
+            toast.success('Regla de ahorro creada');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo crear la regla');
+        },
+    });
+
+    const updateRule = useMutation({
+        mutationFn: async ({ id, ...changes }: GoalRuleUpdate & { id: string }) => {
+            const response = await fetch(`/api/savings/${goalId}/rules/${id}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(changes),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'No se pudo actualizar la regla');
+            return body as StoredGoalRule;
+        },
+        onSuccess: () => {
+            invalidate();
+            toast.success('Regla actualizada');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo actualizar la regla');
+        },
+    });
+
+    const deleteRule = useMutation({
+        mutationFn: async (ruleId: string) => {
+            const response = await fetch(`/api/savings/${goalId}/rules/${ruleId}`, {
+                method: 'DELETE',
+                credentials: 'include',
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'No se pudo eliminar la regla');
+            return body;
+        },
+        onSuccess: () => {
+            invalidate();
+            toast.success('Regla eliminada');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo eliminar la regla');
+        },
+    });
+
+    return {
+        contributions: contributionsQuery.data?.contributions || [],
+        rules: contributionsQuery.data?.rules || [],
+        timeline: contributionsQuery.data?.timeline || [],
+        projection: contributionsQuery.data?.projection || null,
+        isAvailable: contributionsQuery.data?.available ?? true,
+        isLoading: contributionsQuery.isLoading,
+        error: contributionsQuery.error instanceof Error ? contributionsQuery.error.message : null,
+        addContribution: addContribution.mutateAsync,
+        isAddingContribution: addContribution.isPending,
+        deleteContribution: deleteContribution.mutateAsync,
+        isDeletingContribution: deleteContribution.isPending,
+        addRule: addRule.mutateAsync,
+        isAddingRule: addRule.isPending,
+        updateRule: updateRule.mutateAsync,
+        isUpdatingRule: updateRule.isPending,
+        deleteRule: deleteRule.mutateAsync,
+        isDeletingRule: deleteRule.isPending,
+    };
+}
@@ -0,0 +1,99 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { ImportProfileInput, ImportProfileUpdate } from '@/lib/schemas';
+import type { ImportProfile } from '@/lib/bank-import';
+import { useSpace } from '@/components/providers/space-provider';
+
+type UpdateProfileInput = {
+    profileId: string;
+    changes: ImportProfileUpdate;
+};
+
+export function useImportProfiles() {
+    const queryClient = useQueryClient();
+    const { activeSpaceId, isLoading: isLoadingSpaces } = useSpace();
+
+    const profilesQuery = useQuery({
+        queryKey: ['import-profiles', activeSpaceId],
+        queryFn: async () => {
+            const response = await fetch('/api/import-profiles', { credentials: 'include', cache: 'no-store' });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'Error al cargar perfiles de importación');
+            return (body || []) as ImportProfile[];
+        },
+        staleTime: 5 * 60 * 1000,
+        enabled: Boolean(activeSpaceId),
+    });
+
+    const saveProfile = useMutation({
+        mutationFn: async (profile: ImportProfileInput) => {
+            const response = await fetch('/api/import-profiles', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(profile),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'No se pudo guardar el perfil');
+            return body as ImportProfile;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['import-profiles'] });
+            toast.success('Perfil de importación guardado');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo guardar el perfil');
+        },
+    });
+
+    const updateProfile = useMutation({
+        mutationFn: async ({ profileId, changes }: UpdateProfileInput) => {
+            const response = await fetch(`/api/import-profiles/${profileId}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(changes),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'No se pudo actualizar el perfil');
+            return body as ImportProfile;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['import-profiles'] });
+            toast.success('Perfil actualizado');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo actualizar el perfil');
+        },
+    });
+
+    const deleteProfile = useMutation({
+        mutationFn: async (profileId: string) => {
+            const response = await fetch(`/api/import-profiles/${profileId}`, {
+                method: 'DELETE',
+                credentials: 'include',
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'No se pudo eliminar el perfil');
+            return body as { success: boolean; id: string };
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['import-profiles'] });
+            toast.success('Perfil eliminado');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo eliminar el perfil');
+        },
+    });
+
+    return {
+        profiles: profilesQuery.data || [],
+        isLoading: isLoadingSpaces || !activeSpaceId || profilesQuery.isLoading,
+        saveProfile: saveProfile.mutateAsync,
+        isSaving: saveProfile.isPending,
+        updateProfile: updateProfile.mutateAsync,
+        isUpdating: updateProfile.isPending,
+        deleteProfile: deleteProfile.mutateAsync,
+        isDeleting: deleteProfile.isPending,
+    };
+}
@@ -0,0 +1,121 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type { IndexValuesInput } from '@/lib/schemas';
+import type { IndexSeriesSummary, IndexValue } from '@/lib/indexes';
+import { useSpace } from '@/components/providers/space-provider';
+
+export type StoredIndexValue = {
+    id: string;
+    series: string;
+    date: string;
+    value: number;
+    source: 'manual' | 'csv';
+};
+
+type IndexesResponse = {
+    series: IndexSeriesSummary[];
+    values: StoredIndexValue[];
+};
+
+export function useIndexes(series?: string) {
+    const queryClient = useQueryClient();
+    const { activeSpaceId, isLoading: isLoadingSpaces } = useSpace();
+
+    const indexesQuery = useQuery({
+        queryKey: ['indexes', activeSpaceId, series || null],
+        queryFn: async () => {
+            const query = series ? `?series=${encodeURIComponent(series)}` : '';
+            const response = await fetch(`/api/indexes${query}`, { credentials: 'include', cache: 'no-store' });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'Error al cargar índices');
+            return (body || { series: [], values: [] }) as IndexesResponse;
+        },
+        staleTime: 5 * 60 * 1000,
+        refetchOnMount: 'always',
+        enabled: Boolean(activeSpaceId),
+    });
+
+    // Indexed recurring amounts in the calendar depend on these values.
+    const invalidate = () => {
+        queryClient.invalidateQueries({ queryKey: ['indexes'] });
+        queryClient.invalidateQueries({ queryKey: ['calendar'] });
+        queryClient.invalidateQueries({ queryKey: ['calendar-preview'] });
+    };
+
+    const saveValues = useMutation({
+        mutationFn: async (input: IndexValuesInput) => {
+            const response = await fetch('/api/indexes', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(input),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'No se pudieron guardar los valores');
+            return body as { series: string; saved: number };
+        },
+        onSuccess: (result) => {
+            invalidate();
+            toast.success(`${result.saved} valores de ${result.series} guardados`);
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudieron guardar los valores');
+        },
+    });
+
+    const deleteValue = useMutation({
+        mutationFn: async (valueId: string) => {
+            const response = await fetch(`/api/indexes/${valueId}`, {
+                method: 'DELETE',
+                credentials: 'include',
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'No se pudo eliminar el valor');
+            return body as { success: boolean; id: string };
+        },
+        onSuccess: () => {
+            invalidate();
+            toast.success('Valor eliminado');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo eliminar el valor');
+        },
+    });
+
+    return {
+        series: indexesQuery.data?.series || [],
+        values: indexesQuery.data?.values || [],
+        isLoading: isLoadingSpaces || !activeSpaceId || indexesQuery.isLoading,
+        error: indexesQuery.error instanceof Error ? indexesQuery.error.message : null,
+        saveValues: saveValues.mutateAsync,
+        isSaving: saveValues.isPending,
+        deleteValue: deleteValue.mutateAsync,
+        isDeleting: deleteValue.isPending,
+    };
+}
+
+// Every stored value of one series, for computations that need the whole history (the real-terms deflator).
+export function useIndexSeries(series?: string) {
+    const { activeSpaceId, isLoading: isLoadingSpaces } = useSpace();
+
+    const seriesQuery = useQuery({
+        queryKey: ['indexes', activeSpaceId, series || null, 'all'],
+        queryFn: async () => {
+            const response = await fetch(`/api/indexes?series=${encodeURIComponent(series || '')}&all=1`, {
+                credentials: 'include',
+                cache: 'no-store',
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'Error al cargar índices');
+            return (body?.values || []) as IndexValue[];
+        },
+        staleTime: 5 * 60 * 1000,
+        refetchOnMount: 'always',
+        enabled: Boolean(activeSpaceId && series),
+    });
+
+    return {
+        values: seriesQuery.data || [],
+        isLoading: isLoadingSpaces || !activeSpaceId || (Boolean(series) && seriesQuery.isLoading),
+    };
+}
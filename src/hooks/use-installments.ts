@@ -0,0 +1,120 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { InstallmentPlanInput, InstallmentPlanUpdate } from '@/lib/schemas';
+import type { CommittedMonth, InstallmentChargeRow, InstallmentPlanRow } from '@/lib/installments';
+import { useSpace } from '@/components/providers/space-provider';
+
+export type InstallmentPlanWithProgress = InstallmentPlanRow & {
+    billed_installments: number;
+    remaining_installments: number;
+    remaining_amount: number;
+    next_charge: InstallmentChargeRow | null;
+};
+
+type InstallmentsResponse = {
+    plans: InstallmentPlanWithProgress[];
+    committed: CommittedMonth[];
+};
+
+type UpdatePlanInput = {
+    planId: string;
+    changes: InstallmentPlanUpdate;
+};
+
+export function useInstallmentPlans() {
+    const queryClient = useQueryClient();
+    const { activeSpaceId, isLoading: isLoadingSpaces, error: spacesError } = useSpace();
+
+    const plansQuery = useQuery({
+        queryKey: ['installments', activeSpaceId],
+        queryFn: async () => {
+            const response = await fetch('/api/installments', { credentials: 'include', cache: 'no-store' });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'Error al cargar compras en cuotas');
+            return body as InstallmentsResponse;
+        },
+        staleTime: 2 * 60 * 1000,
+        refetchOnMount: 'always',
+        enabled: Boolean(activeSpaceId),
+    });
+
+    const invalidate = () => {
+        queryClient.invalidateQueries({ queryKey: ['installments'] });
+        queryClient.invalidateQueries({ queryKey: ['calendar'] });
+        queryClient.invalidateQueries({ queryKey: ['calendar-preview'] });
+    };
+
+    const addPlan = useMutation({
+        mutationFn: async (plan: InstallmentPlanInput) => {
+            const response = await fetch('/api/installments', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(plan),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'Error al crear la compra en cuotas');
+            return body as InstallmentPlanRow & { charges: InstallmentChargeRow[] };
+        },
+        onSuccess: () => {
+            invalidate();
+            toast.success('Compra en cuotas registrada');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'Error al crear la compra en cuotas');
+        },
+    });
+
+    const updatePlan = useMutation({
+        mutationFn: async ({ planId, changes }: UpdatePlanInput) => {
+            const response = await fetch(`/api/installments/${planId}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(changes),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'No se pudo actualizar el plan');
+            return body as InstallmentPlanRow;
+        },
+        onSuccess: (plan) => {
+            invalidate();
+            toast.success(plan.status === 'cancelled' ? 'Plan cancelado' : 'Plan actualizado');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo actualizar el plan');
+        },
+    });
+
+    const deletePlan = useMutation({
+        mutationFn: async (planId: string) => {
+            const response = await fetch(`/api/installments/${planId}`, {
+                method: 'DELETE',
+                credentials: 'include',
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'No se pudo eliminar el plan');
+            return body as { success: boolean; id: string };
+        },
+        onSuccess: () => {
+            invalidate();
+            toast.success('Plan eliminado');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo eliminar el plan');
+        },
+    });
+
+    return {
+        plans: plansQuery.data?.plans || [],
+        committed: plansQuery.data?.committed || [],
+        isLoading: isLoadingSpaces || !activeSpaceId || plansQuery.isLoading,
+        error: spacesError || (plansQuery.error instanceof Error ? plansQuery.error.message : null),
+        addPlan: addPlan.mutateAsync,
+        isAdding: addPlan.isPending,
+        updatePlan: updatePlan.mutateAsync,
+        isUpdating: updatePlan.isPending,
+        deletePlan: deletePlan.mutateAsync,
+        isDeleting: deletePlan.isPending,
+    };
+}
@@ -0,0 +1,190 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type { InvestmentHoldingInput, InvestmentHoldingUpdate, InvestmentPricesInput, InvestmentTradeInput } from '@/lib/schemas';
+import type { HoldingValuation, InvestmentHoldingRow, InvestmentTradeRow } from '@/lib/investments';
+import { useSpace } from '@/components/providers/space-provider';
+
+export type StoredHolding = InvestmentHoldingRow & {
+    notes?: string | null;
+    interest_transaction_id?: string | null;
+    created_at?: string;
+    valuation: HoldingValuation;
+};
+
+export type StoredTrade = InvestmentTradeRow & {
+    id: string;
+    holding_id: string;
+    notes?: string | null;
+};
+
+type InvestmentsResponse = {
+    holdings: StoredHolding[];
+    trades: StoredTrade[];
+    available: boolean;
+};
+
+export function useInvestments() {
+    const queryClient = useQueryClient();
+    const { activeSpaceId, isLoading: isLoadingSpaces } = useSpace();
+
+    const investmentsQuery = useQuery({
+        queryKey: ['investments', activeSpaceId],
+        queryFn: async () => {
+            const response = await fetch('/api/investments', { credentials: 'include', cache: 'no-store' });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'Error al cargar inversiones');
+            return body as InvestmentsResponse;
+        },
+        staleTime: 60 * 1000,
+        refetchOnMount: 'always',
+        enabled: Boolean(activeSpaceId),
+    });
+
+    // Holdings feed the net worth figures, so every change refreshes them too.
+    const invalidate = () => {
+        queryClient.invalidateQueries({ queryKey: ['investments'] });
+        queryClient.invalidateQueries({ queryKey: ['net-worth'] });
+    };
+
+    const addHolding = useMutation({
+        mutationFn: async (input: InvestmentHoldingInput) => {
+            const response = await fetch('/api/investments', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(input),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'No se pudo crear la inversión');
+            return body as InvestmentHoldingRow;
+        },
+        onSuccess: () => {
+            invalidate();
+            toast.success('Inversión agregada');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo crear la inversión');
+        },
+    });
+
+    const updateHolding = useMutation({
+        mutationFn: async ({ id, ...changes }: InvestmentHoldingUpdate & { id: string }) => {
+            const response = await fetch(`/api/investments/${id}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(changes),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'No se pudo actualizar la inversión');
+            return body as InvestmentHoldingRow;
+        },
+        onSuccess: () => {
+            invalidate();
+            toast.success('Inversión actualizada');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo actualizar la inversión');
+        },
+    });
+
+    const deleteHolding = useMutation({
+        mutationFn: async (holdingId: string) => {
+            const response = await fetch(`/api/investments/${holdingId}`, {
+                method: 'DELETE',
+                credentials: 'include',
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'No se pudo eliminar la inversión');
+            return body as { success: boolean; id: string };
+        },
+        onSuccess: () => {
+            invalidate();
+            toast.success('Inversión eliminada');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo eliminar la inversión');
+        },
+    });
+
+    const addTrade = useMutation({
+        mutationFn: async ({ holdingId, ...input }: InvestmentTradeInput & { holdingId: string }) => {
+            const response = await fetch(`/api/investments/${holdingId}/trades`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(input),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'No se pudo registrar la operación');
+            return body as StoredTrade;
+        },
+        onSuccess: (trade) => {
+            invalidate();
+            toast.success(trade.side === 'buy' ? 'Compra registrada' : 'Venta registrada');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo registrar la operación');
+        },
+    });
+
+    const deleteTrade = useMutation({
+        mutationFn: async ({ holdingId, tradeId }: { holdingId: string; tradeId: string }) => {
+            const response = await fetch(`/api/investments/${holdingId}/trades/${tradeId}`, {
+                method: 'DELETE',
+                credentials: 'include',
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'No se pudo eliminar la operación');
+            return body as { success: boolean; id: string };
+        },
+        onSuccess: () => {
+            invalidate();
+            toast.success('Operación eliminada');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo eliminar la operación');
+        },
+    });
+
+    const savePrices = useMutation({
+        mutationFn: async ({ holdingId, ...input }: InvestmentPricesInput & { holdingId: string }) => {
+            const response = await fetch(`/api/investments/${holdingId}/prices`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(input),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'No se pudieron guardar las cotizaciones');
+            return body as { holding_id: string; saved: number };
+        },
+        onSuccess: (result) => {
+            invalidate();
+            toast.success(result.saved === 1 ? 'Cotización guardada' : `${result.saved} cotizaciones guardadas`);
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudieron guardar las cotizaciones');
+        },
+    });
+
+    return {
+        holdings: investmentsQuery.data?.holdings || [],
+        trades: investmentsQuery.data?.trades || [],
+        isAvailable: investmentsQuery.data?.available ?? true,
+        isLoading: isLoadingSpaces || !activeSpaceId || investmentsQuery.isLoading,
+        error: investmentsQuery.error instanceof Error ? investmentsQuery.error.message : null,
+        addHolding: addHolding.mutateAsync,
+        isAdding: addHolding.isPending,
+        updateHolding: updateHolding.mutateAsync,
+        isUpdating: updateHolding.isPending,
+        deleteHolding: deleteHolding.mutateAsync,
+        isDeleting: deleteHolding.isPending,
+        addTrade: addTrade.mutateAsync,
+        isAddingTrade: addTrade.isPending,
+        deleteTrade: deleteTrade.mutateAsync,
+        isDeletingTrade: deleteTrade.isPending,
+        savePrices: savePrices.mutateAsync,
+        isSavingPrices: savePrices.isPending,
+    };
+}
@@ -0,0 +1,82 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type { LoanInput } from '@/lib/schemas';
+import type { AmortizationRow, LoanState, PrepaymentMode } from '@/lib/loans';
+import { useSpace } from '@/components/providers/space-provider';
+
+export type StoredLoanPayment = {
+    id: string;
+    debt_id: string;
+    transaction_id: string | null;
+    installment_number: number;
+    payment_date: string;
+    amount: number | string;
+    interest: number | string;
+    principal: number | string;
+    prepayment: number | string;
+    prepayment_mode: PrepaymentMode | null;
+    unit_value: number | string | null;
+    balance_after: number | string;
+    created_at?: string;
+};
+
+type LoanScheduleResponse = {
+    state: LoanState;
+    // UVA value used for future installments; null for peso loans or when the series is not loaded.
+    unit_value: number | null;
+    schedule: AmortizationRow[];
+    payments: StoredLoanPayment[];
+};
+
+export function useLoanSchedule(debtId: string | null) {
+    const { activeSpaceId } = useSpace();
+
+    const scheduleQuery = useQuery({
+        queryKey: ['loan-schedule', activeSpaceId, debtId],
+        queryFn: async () => {
+            const response = await fetch(`/api/debts/${debtId}/schedule`, { credentials: 'include', cache: 'no-store' });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'Error al cargar la tabla de amortización');
+            return body as LoanScheduleResponse;
+        },
+        staleTime: 60 * 1000,
+        refetchOnMount: 'always',
+        enabled: Boolean(activeSpaceId && debtId),
+    });
+
+    return {
+        schedule: scheduleQuery.data ?? null,
+        isLoading: scheduleQuery.isLoading,
+        error: scheduleQuery.error instanceof Error ? scheduleQuery.error.message : null,
+    };
+}
+
+export function useLoans() {
+    const queryClient = useQueryClient();
+
+    const addLoan = useMutation({
+        mutationFn: async (input: LoanInput) => {
+            const response = await fetch('/api/debts/loans', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(input),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'No se pudo registrar el préstamo');
+            return body;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['debts'] });
+            toast.success('Préstamo registrado');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo registrar el préstamo');
+        },
+    });
+
+    return {
+        addLoan: addLoan.mutateAsync,
+        isAddingLoan: addLoan.isPending,
+    };
+}
@@ -0,0 +1,152 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type { AssetInput, AssetUpdate } from '@/lib/schemas';
+import type { CurrencyCode } from '@/lib/currency';
+import type { AssetRow, NetWorthBreakdown, NetWorthSnapshot } from '@/lib/net-worth';
+import { useSpace } from '@/components/providers/space-provider';
+
+export type StoredAsset = AssetRow & {
+    notes?: string | null;
+    created_at?: string;
+};
+
+type NetWorthResponse = {
+    current: NetWorthBreakdown;
+    snapshots: NetWorthSnapshot[];
+    change: { month: string; delta: number; percent: number | null } | null;
+    available: boolean;
+};
+
+export function useNetWorth(currency: CurrencyCode = 'ARS', options: { withAssets?: boolean } = {}) {
+    const queryClient = useQueryClient();
+    const { activeSpaceId, isLoading: isLoadingSpaces } = useSpace();
+
+    const netWorthQuery = useQuery({
+        queryKey: ['net-worth', activeSpaceId, currency],
+        queryFn: async () => {
+            const response = await fetch(`/api/net-worth?currency=${currency}`, { credentials: 'include', cache: 'no-store' });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'Error al calcular el patrimonio');
+            return body as NetWorthResponse;
+        },
+        staleTime: 60 * 1000,
+        refetchOnMount: 'always',
+        enabled: Boolean(activeSpaceId),
+    });
+
+    const assetsQuery = useQuery({
+        queryKey: ['assets', activeSpaceId],
+        queryFn: async () => {
+            const response = await fetch('/api/assets', { credentials: 'include', cache: 'no-store' });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'Error al cargar bienes');
+            return (body || []) as StoredAsset[];
+        },
+        staleTime: 5 * 60 * 1000,
+        refetchOnMount: 'always',
+        enabled: Boolean(activeSpaceId) && options.withAssets !== false,
+    });
+
+    const invalidate = () => {
+        queryClient.invalidateQueries({ queryKey: ['net-worth'] });
+        queryClient.invalidateQueries({ queryKey: ['assets'] });
+    };
+
+    const addAsset = useMutation({
+        mutationFn: async (input: AssetInput) => {
+            const response = await fetch('/api/assets', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(input),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'No se pudo crear el bien');
+            return body as StoredAsset;
+        },
+        onSuccess: () => {
+            invalidate();
+            toast.success('Bien agregado');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo crear el bien');
+        },
+    });
+
+    const updateAsset = useMutation({
+        mutationFn: async ({ id, ...changes }: AssetUpdate & { id: string }) => {
+            const response = await fetch(`/api/assets/${id}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(changes),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'No se pudo actualizar el bien');
+            return body as StoredAsset;
+        },
+        onSuccess: () => {
+            invalidate();
+            toast.success('Bien actualizado');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo actualizar el bien');
+        },
+    });
+
+    const deleteAsset = useMutation({
+        mutationFn: async (assetId: string) => {
+            const response = await fetch(`/api/assets/${assetId}`, {
+                method: 'DELETE',
+                credentials: 'include',
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'No se pudo eliminar el bien');
+            return body as { success: boolean; id: string };
+        },
+        onSuccess: () => {
+            invalidate();
+            toast.success('Bien eliminado');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo eliminar el bien');
+        },
+    });
+
+    const takeSnapshot = useMutation({
+        mutationFn: async () => {
+            const response = await fetch('/api/net-worth', {
+                method: 'POST',
+                credentials: 'include',
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'No se pudo guardar el patrimonio');
+            return body as NetWorthSnapshot;
+        },
+        onSuccess: () => {
+            invalidate();
+            toast.success('Patrimonio del mes guardado');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo guardar el patrimonio');
+        },
+    });
+
+    return {
+        current: netWorthQuery.data?.current || null,
+        snapshots: netWorthQuery.data?.snapshots || [],
+        change: netWorthQuery.data?.change || null,
+        isAvailable: netWorthQuery.data?.available ?? true,
+        assets: assetsQuery.data || [],
+        isLoading: isLoadingSpaces || !activeSpaceId || netWorthQuery.isLoading,
+        error: netWorthQuery.error instanceof Error ? netWorthQuery.error.message : null,
+        addAsset: addAsset.mutateAsync,
+        isAdding: addAsset.isPending,
+        updateAsset: updateAsset.mutateAsync,
+        isUpdating: updateAsset.isPending,
+        deleteAsset: deleteAsset.mutateAsync,
+        isDeleting: deleteAsset.isPending,
+        takeSnapshot: takeSnapshot.mutateAsync,
+        isTakingSnapshot: takeSnapshot.isPending,
+    };
+}
@@ -2,6 +2,15 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { Obligation } from '@/lib/schemas';
 import { toast } from 'sonner';
 import { useSpace } from '@/components/providers/space-provider';
+import type { CardRates, FinancingWarning } from '@/lib/card-financing';
+import type { LateCharges } from '@/lib/obligations';
+
+// Obligations created from a card statement carry the rates printed on it; past due ones, the late charges as of today.
+export type ObligationWithRates = Obligation & {
+    interest_rates?: CardRates | null;
+    late_charges?: LateCharges;
+    amount_due?: number;
+};
 
 type UpdateObligationInput = {
     id: string;
@@ -25,7 +34,7 @@ export function useObligations() {
             const res = await fetch('/api/obligations', { credentials: 'include', cache: 'no-store' });
             const body = await res.json().catch(() => null);
             if (!res.ok) throw new Error(body?.error || 'Error al cargar obligaciones');
-            return (body || []) as Obligation[];
+            return (body || []) as ObligationWithRates[];
         },
         staleTime: 5 * 60 * 1000,
         refetchOnMount: 'always',
@@ -41,7 +50,7 @@ export function useObligations() {
                 body: JSON.stringify(changes),
             });
             const body = await res.json().catch(() => null);
-            if (!res.ok) throw new Error(body?.error || 'No se pudo actualizar la obligación');
+            if (!res.ok) throw new Error(body?.hint || body?.error || 'No se pudo actualizar la obligación');
             return body as Obligation;
         },
         onSuccess: () => {
@@ -89,13 +98,16 @@ export function useObligations() {
             });
             const body = await res.json().catch(() => null);
             if (!res.ok) throw new Error(body?.error || 'No se pudo confirmar el pago');
-            return body as { obligation: Obligation; transaction: any; remaining: number };
+            return body as { obligation: Obligation; transaction: any; remaining: number; financing: FinancingWarning | null };
         },
         onSuccess: (result) => {
             queryClient.invalidateQueries({ queryKey: ['obligations'] });
             queryClient.invalidateQueries({ queryKey: ['transactions'] });
+            queryClient.invalidateQueries({ queryKey: ['credit-cards'] });
             queryClient.invalidateQueries({ queryKey: ['audit'] });
+            queryClient.invalidateQueries({ queryKey: ['payments'] });
             toast.success(result?.remaining > 0 ? 'Pago registrado. Queda saldo pendiente.' : 'Pago registrado y obligación saldada.');
+            if (result?.financing) toast.warning(result.financing.message);
         },
         onError: (error: any) => {
             toast.error(error.message || 'No se pudo confirmar el pago');
@@ -0,0 +1,66 @@
+import { useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { groupPaymentHistories, type PaymentRow } from '@/lib/payments';
+import { useSpace } from '@/components/providers/space-provider';
+
+type PaymentsResponse = {
+    payments: PaymentRow[];
+    // False until supabase-payments.sql is run.
+    available: boolean;
+};
+
+export function usePayments() {
+    const queryClient = useQueryClient();
+    const { activeSpaceId } = useSpace();
+
+    const paymentsQuery = useQuery({
+        queryKey: ['payments', activeSpaceId],
+        queryFn: async () => {
+            const response = await fetch('/api/payments', { credentials: 'include', cache: 'no-store' });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'Error al cargar pagos');
+            return body as PaymentsResponse;
+        },
+        staleTime: 60 * 1000,
+        refetchOnMount: 'always',
+        enabled: Boolean(activeSpaceId),
+    });
+
+    // History of each obligation/debt, keyed by `paymentItemKey`.
+    const historyByItem = useMemo(() => groupPaymentHistories(paymentsQuery.data?.payments || []), [paymentsQuery.data]);
+
+    const undoPayment = useMutation({
+        mutationFn: async (paymentId: string) => {
+            const response = await fetch(`/api/payments/${paymentId}/undo`, {
+                method: 'POST',
+                credentials: 'include',
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'No se pudo deshacer el pago');
+            return body;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['payments'] });
+            queryClient.invalidateQueries({ queryKey: ['debts'] });
+            queryClient.invalidateQueries({ queryKey: ['obligations'] });
+            queryClient.invalidateQueries({ queryKey: ['transactions'] });
+            queryClient.invalidateQueries({ queryKey: ['credit-cards'] });
+            queryClient.invalidateQueries({ queryKey: ['loan-schedule'] });
+            queryClient.invalidateQueries({ queryKey: ['budgets'] });
+            queryClient.invalidateQueries({ queryKey: ['audit'] });
+            toast.success('Pago deshecho');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo deshacer el pago');
+        },
+    });
+
+    return {
+        historyByItem,
+        paymentsAvailable: paymentsQuery.data?.available ?? true,
+        isLoadingPayments: paymentsQuery.isLoading,
+        undoPayment: undoPayment.mutateAsync,
+        isUndoingPayment: undoPayment.isPending,
+    };
+}
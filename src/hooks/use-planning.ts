@@ -37,6 +37,8 @@ export function usePlanning(month = currentMonth()) {
             if (!response.ok) throw new Error(body?.error || 'Error al cargar presupuestos');
             return (body || []) as Array<Budget & {
                 spent: number;
+                // Movements left out of `spent` for lack of a rate to the budget currency.
+                missingRates: number;
                 remaining: number;
                 usage: number;
                 isAlert: boolean;
@@ -196,12 +198,17 @@ export function usePlanning(month = currentMonth()) {
             });
             const body = await response.json().catch(() => null);
             if (!response.ok) throw new Error(body?.error || 'Error al ejecutar recurrencias');
-            return body as { generated: number };
+            return body as { generated: number; maturedDeposits?: { transaction_id: string | null }[] };
         },
         onSuccess: (result) => {
             if (result.generated > 0) {
                 toast.success(`Se generaron ${result.generated} transacciones automáticas`);
             }
+            const matured = (result.maturedDeposits || []).filter((deposit) => deposit.transaction_id).length;
+            if (matured > 0) {
+                toast.success(`Se acreditaron los intereses de ${matured} plazo${matured === 1 ? '' : 's'} fijo${matured === 1 ? '' : 's'}`);
+                queryClient.invalidateQueries({ queryKey: ['investments'] });
+            }
             queryClient.invalidateQueries({ queryKey: ['transactions'] });
             queryClient.invalidateQueries({ queryKey: ['budgets'] });
             queryClient.invalidateQueries({ queryKey: ['recurring'] });
@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useIndexSeries } from '@/hooks/use-indexes';
+import { BASE_CURRENCY, type CurrencyCode } from '@/lib/currency';
+import {
+    DEFAULT_REAL_TERMS,
+    buildDeflator,
+    getStoredRealTerms,
+    storeRealTerms,
+    type RealTermsSettings,
+} from '@/lib/inflation';
+
+/**
+ * Real-terms reporting setting (kept in localStorage like the reporting currency) and the deflator built from
+ * the stored CPI series. The deflator is null in nominal mode, when reporting in another currency (the CPI
+ * measures pesos) or while the series has no values.
+ */
+export function useRealTerms(reportingCurrency: CurrencyCode = BASE_CURRENCY) {
+    const [settings, setSettingsState] = useState<RealTermsSettings>(DEFAULT_REAL_TERMS);
+
+    useEffect(() => {
+        setSettingsState(getStoredRealTerms());
+    }, []);
+
+    const setSettings = useCallback((changes: Partial<RealTermsSettings>) => {
+        setSettingsState((current) => {
+            const next = { ...current, ...changes };
+            storeRealTerms(next);
+            return next;
+        });
+    }, []);
+
+    const { values, isLoading } = useIndexSeries(settings.enabled ? settings.series : undefined);
+    const deflator = useMemo(
+        () => (settings.enabled && reportingCurrency === BASE_CURRENCY ? buildDeflator(values, settings) : null),
+        [settings, values, reportingCurrency]
+    );
+
+    return {
+        settings,
+        setSettings,
+        deflator,
+        isLoadingCpi: settings.enabled && isLoading,
+        // Enabled but unusable: no CPI values yet or reporting in USD.
+        isUnavailable: settings.enabled && !isLoading && !deflator,
+    };
+}
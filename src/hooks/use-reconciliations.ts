@@ -0,0 +1,64 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type { ReconciliationApply } from '@/lib/schemas';
+import type { BankStatementSummary, ReconciliationRecord, ReconciliationResult } from '@/lib/reconciliation';
+import { useSpace } from '@/components/providers/space-provider';
+
+type ReconciliationsResponse = {
+    statements: BankStatementSummary[];
+    reconciliations: ReconciliationRecord[];
+};
+
+export function useReconciliations() {
+    const queryClient = useQueryClient();
+    const { activeSpaceId, isLoading: isLoadingSpaces } = useSpace();
+
+    const reconciliationsQuery = useQuery({
+        queryKey: ['reconciliations', activeSpaceId],
+        queryFn: async () => {
+            const response = await fetch('/api/reconciliations', { credentials: 'include', cache: 'no-store' });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'Error al cargar conciliaciones');
+            return (body || { statements: [], reconciliations: [] }) as ReconciliationsResponse;
+        },
+        staleTime: 2 * 60 * 1000,
+        refetchOnMount: 'always',
+        enabled: Boolean(activeSpaceId),
+    });
+
+    // Dry runs only read; the toast and invalidation belong to the confirmed run.
+    const reconcile = useMutation({
+        mutationFn: async (input: Partial<ReconciliationApply> & Pick<ReconciliationApply, 'extraction_id' | 'account_id'>) => {
+            const response = await fetch('/api/reconciliations', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify(input),
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'No se pudo conciliar el extracto');
+            return body as ReconciliationResult;
+        },
+        onSuccess: (result) => {
+            if (result.dry_run) return;
+            queryClient.invalidateQueries({ queryKey: ['reconciliations'] });
+            queryClient.invalidateQueries({ queryKey: ['transactions'] });
+            queryClient.invalidateQueries({ queryKey: ['budgets'] });
+            queryClient.invalidateQueries({ queryKey: ['accounts'] });
+            queryClient.invalidateQueries({ queryKey: ['credit-cards'] });
+            toast.success(`Cuenta conciliada: ${result.matched} confirmados, ${result.created} creados`);
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo conciliar el extracto');
+        },
+    });
+
+    return {
+        statements: reconciliationsQuery.data?.statements || [],
+        reconciliations: reconciliationsQuery.data?.reconciliations || [],
+        isLoading: isLoadingSpaces || !activeSpaceId || reconciliationsQuery.isLoading,
+        error: reconciliationsQuery.error instanceof Error ? reconciliationsQuery.error.message : null,
+        reconcile: reconcile.mutateAsync,
+        isReconciling: reconcile.isPending,
+    };
+}
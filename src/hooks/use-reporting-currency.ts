@@ -0,0 +1,22 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+    BASE_CURRENCY,
+    getStoredReportingCurrency,
+    storeReportingCurrency,
+    type CurrencyCode,
+} from '@/lib/currency';
+
+export function useReportingCurrency() {
+    const [reportingCurrency, setReportingCurrencyState] = useState<CurrencyCode>(BASE_CURRENCY);
+
+    useEffect(() => {
+        setReportingCurrencyState(getStoredReportingCurrency());
+    }, []);
+
+    const setReportingCurrency = useCallback((currency: CurrencyCode) => {
+        storeReportingCurrency(currency);
+        setReportingCurrencyState(currency);
+    }, []);
+
+    return { reportingCurrency, setReportingCurrency };
+}
@@ -0,0 +1,26 @@
+import { useQuery } from '@tanstack/react-query';
+import type { Tag } from '@/lib/tags';
+import { useSpace } from '@/components/providers/space-provider';
+
+export function useTags() {
+    const { activeSpaceId, isLoading: isLoadingSpaces } = useSpace();
+
+    const tagsQuery = useQuery({
+        queryKey: ['tags', activeSpaceId],
+        queryFn: async () => {
+            const response = await fetch('/api/tags', { credentials: 'include', cache: 'no-store' });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'Error al cargar etiquetas');
+            return (body || []) as Tag[];
+        },
+        staleTime: 5 * 60 * 1000,
+        refetchOnMount: 'always',
+        enabled: Boolean(activeSpaceId),
+    });
+
+    return {
+        tags: tagsQuery.data || [],
+        isLoading: isLoadingSpaces || !activeSpaceId || tagsQuery.isLoading,
+        error: tagsQuery.error instanceof Error ? tagsQuery.error.message : null,
+    };
+}
@@ -0,0 +1,74 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type { TransactionAttachment } from '@/lib/attachments';
+import { useSpace } from '@/components/providers/space-provider';
+
+export function useTransactionAttachments(transactionId: string | null) {
+    const queryClient = useQueryClient();
+    const { activeSpaceId } = useSpace();
+
+    const attachmentsQuery = useQuery({
+        queryKey: ['transaction-attachments', activeSpaceId, transactionId],
+        queryFn: async () => {
+            const response = await fetch(`/api/transactions/${transactionId}/attachments`, { credentials: 'include', cache: 'no-store' });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'Error al cargar adjuntos');
+            return (body || []) as TransactionAttachment[];
+        },
+        // Signed URLs expire after a few minutes.
+        staleTime: 2 * 60 * 1000,
+        refetchOnMount: 'always',
+        enabled: Boolean(activeSpaceId && transactionId),
+    });
+
+    const uploadAttachment = useMutation({
+        mutationFn: async (file: File) => {
+            const formData = new FormData();
+            formData.append('file', file);
+            const response = await fetch(`/api/transactions/${transactionId}/attachments`, {
+                method: 'POST',
+                credentials: 'include',
+                body: formData,
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.hint || body?.error || 'No se pudo adjuntar el archivo');
+            return body as TransactionAttachment;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['transaction-attachments'] });
+            toast.success('Archivo adjuntado');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo adjuntar el archivo');
+        },
+    });
+
+    const deleteAttachment = useMutation({
+        mutationFn: async (attachmentId: string) => {
+            const response = await fetch(`/api/transactions/${transactionId}/attachments/${attachmentId}`, {
+                method: 'DELETE',
+                credentials: 'include',
+            });
+            const body = await response.json().catch(() => null);
+            if (!response.ok) throw new Error(body?.error || 'No se pudo eliminar el adjunto');
+            return body as { success: boolean; id: string };
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['transaction-attachments'] });
+            toast.success('Adjunto eliminado');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo eliminar el adjunto');
+        },
+    });
+
+    return {
+        attachments: attachmentsQuery.data || [],
+        isLoading: attachmentsQuery.isLoading,
+        error: attachmentsQuery.error instanceof Error ? attachmentsQuery.error.message : null,
+        uploadAttachment: uploadAttachment.mutateAsync,
+        isUploading: uploadAttachment.isPending,
+        deleteAttachment: deleteAttachment.mutateAsync,
+        isDeleting: deleteAttachment.isPending,
+    };
+}
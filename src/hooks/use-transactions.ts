@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Transaction, TransactionInput, TransactionUpdate } from '@/lib/schemas';
+import { Transaction, TransactionInput, TransactionSplitLine, TransactionUpdate } from '@/lib/schemas';
 import { toast } from 'sonner';
+import type { TransactionWithSplits } from '@/lib/splits';
 import { useSpace } from '@/components/providers/space-provider';
 
 type UpdateTransactionInput = {
@@ -8,6 +9,11 @@ type UpdateTransactionInput = {
     changes: TransactionUpdate;
 };
 
+type SplitTransactionInput = {
+    id: string;
+    splits: TransactionSplitLine[];
+};
+
 export function useTransactions() {
     const queryClient = useQueryClient();
     const { activeSpaceId, isLoading: isLoadingSpaces, error: spacesError } = useSpace();
@@ -18,7 +24,7 @@ export function useTransactions() {
             const res = await fetch('/api/transactions', { credentials: 'include', cache: 'no-store' });
             const body = await res.json().catch(() => null);
             if (!res.ok) throw new Error(body?.error || 'Error al cargar transacciones');
-            return (body || []) as Transaction[];
+            return (body || []) as TransactionWithSplits[];
         },
         staleTime: 5 * 60 * 1000,
         refetchOnMount: 'always',
@@ -40,6 +46,9 @@ export function useTransactions() {
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['transactions'] });
             queryClient.invalidateQueries({ queryKey: ['budgets'] });
+            queryClient.invalidateQueries({ queryKey: ['accounts'] });
+            queryClient.invalidateQueries({ queryKey: ['credit-cards'] });
+            queryClient.invalidateQueries({ queryKey: ['tags'] });
             toast.success('Transacción agregada correctamente');
         },
         onError: (error: any) => {
@@ -62,6 +71,9 @@ export function useTransactions() {
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['transactions'] });
             queryClient.invalidateQueries({ queryKey: ['budgets'] });
+            queryClient.invalidateQueries({ queryKey: ['accounts'] });
+            queryClient.invalidateQueries({ queryKey: ['credit-cards'] });
+            queryClient.invalidateQueries({ queryKey: ['tags'] });
             toast.success('Transacción actualizada');
         },
         onError: (error: any) => {
@@ -69,6 +81,28 @@ export function useTransactions() {
         },
     });
 
+    const splitTransaction = useMutation({
+        mutationFn: async ({ id, splits }: SplitTransactionInput) => {
+            const res = await fetch(`/api/transactions/${id}/splits`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                credentials: 'include',
+                body: JSON.stringify({ splits }),
+            });
+            const body = await res.json().catch(() => null);
+            if (!res.ok) throw new Error(body?.hint || body?.error || 'No se pudo dividir la transacción');
+            return body as TransactionWithSplits;
+        },
+        onSuccess: (_transaction, { splits }) => {
+            queryClient.invalidateQueries({ queryKey: ['transactions'] });
+            queryClient.invalidateQueries({ queryKey: ['budgets'] });
+            toast.success(splits.length ? 'División guardada' : 'División eliminada');
+        },
+        onError: (error: any) => {
+            toast.error(error.message || 'No se pudo dividir la transacción');
+        },
+    });
+
     const deleteTransaction = useMutation({
         mutationFn: async (transactionId: string) => {
             const res = await fetch(`/api/transactions/${transactionId}`, {
@@ -82,6 +116,10 @@ export function useTransactions() {
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['transactions'] });
             queryClient.invalidateQueries({ queryKey: ['budgets'] });
+            queryClient.invalidateQueries({ queryKey: ['accounts'] });
+            queryClient.invalidateQueries({ queryKey: ['credit-cards'] });
+            queryClient.invalidateQueries({ queryKey: ['tags'] });
+            queryClient.invalidateQueries({ queryKey: ['transaction-duplicates'] });
             toast.success('Transacción eliminada');
         },
         onError: (error: any) => {
@@ -98,6 +136,8 @@ export function useTransactions() {
         isAdding: addTransaction.isPending,
         updateTransaction: updateTransaction.mutateAsync,
         isUpdating: updateTransaction.isPending,
+        splitTransaction: splitTransaction.mutateAsync,
+        isSplitting: splitTransaction.isPending,
         deleteTransaction: deleteTransaction.mutateAsync,
         isDeleting: deleteTransaction.isPending,
     };
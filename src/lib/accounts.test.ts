@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { computeAccountBalances, convertAccountBalance, validateTransferAccounts } from './accounts';
+import { buildSnapshotRateLookup } from './currency';
+
+const accounts = [
+    { id: 'cash', name: 'Efectivo', kind: 'cash' as const, currency: 'ARS', opening_balance: 1000 },
+    { id: 'usd', name: 'Caja USD', kind: 'bank' as const, currency: 'USD', opening_balance: 50 },
+];
+
+describe('computeAccountBalances', () => {
+    it('should apply income, expenses and transfers per account', () => {
+        const movements = [
+            { type: 'income', amount: 5000, date: '2024-01-01', account_id: 'cash' },
+            { type: 'expense', amount: 1500, date: '2024-01-02', account_id: 'cash' },
+            {
+                type: 'transfer',
+                amount: 2400,
+                date: '2024-01-03',
+                currency: 'USD',
+                original_amount: 2,
+                fx_rate: 1200,
+                account_id: 'cash',
+                transfer_account_id: 'usd',
+            },
+        ];
+
+        const [cash, usd] = computeAccountBalances(accounts, movements, buildSnapshotRateLookup(movements));
+
+        expect(cash.balance).toBe(2100);
+        expect(cash.movements_count).toBe(3);
+        expect(usd.balance).toBe(52);
+        expect(usd.movements_count).toBe(1);
+    });
+
+    it('should skip movements before the opening date', () => {
+        const [cash] = computeAccountBalances([{ ...accounts[0], opening_date: '2024-02-01' }], [
+            { type: 'expense', amount: 400, date: '2024-01-31', account_id: 'cash' },
+            { type: 'income', amount: 250, date: '2024-02-01', account_id: 'cash' },
+        ]);
+        expect(cash.balance).toBe(1250);
+        expect(cash.movements_count).toBe(1);
+    });
+
+    it('should count movements it cannot convert', () => {
+        const [, usd] = computeAccountBalances(accounts, [
+            { type: 'expense', amount: 1000, date: '2024-01-01', account_id: 'usd' },
+        ]);
+        expect(usd.balance).toBe(50);
+        expect(usd.missing_rates).toBe(1);
+    });
+});
+
+describe('convertAccountBalance', () => {
+    const lookup = buildSnapshotRateLookup([{ amount: 1000, date: '2024-01-01', currency: 'USD', fx_rate: 1000 }]);
+
+    it('should convert between base and foreign balances', () => {
+        expect(convertAccountBalance(10, 'USD', 'ARS', lookup, '2024-02-01')).toBe(10000);
+        expect(convertAccountBalance(5000, 'ARS', 'USD', lookup, '2024-02-01')).toBe(5);
+        expect(convertAccountBalance(5000, 'ARS', 'USD', null)).toBeNull();
+    });
+});
+
+describe('validateTransferAccounts', () => {
+    it('should require two different accounts for transfers', () => {
+        expect(validateTransferAccounts({ type: 'transfer', account_id: 'a' })).not.toBeNull();
+        expect(validateTransferAccounts({ type: 'transfer', account_id: 'a', transfer_account_id: 'a' })).not.toBeNull();
+        expect(validateTransferAccounts({ type: 'transfer', account_id: 'a', transfer_account_id: 'b' })).toBeNull();
+    });
+
+    it('should reject a destination account on regular movements', () => {
+        expect(validateTransferAccounts({ type: 'expense', transfer_account_id: 'b' })).not.toBeNull();
+        expect(validateTransferAccounts({ type: 'income', account_id: 'a' })).toBeNull();
+    });
+});
@@ -0,0 +1,253 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logWarn } from '@/lib/observability';
+import {
+    BASE_CURRENCY,
+    normalizeCurrency,
+    toReportingAmount,
+    type CurrencyCode,
+    type FxRateLookup,
+    type MoneyRow,
+} from '@/lib/currency';
+
+export type AccountKind = 'cash' | 'bank' | 'credit_card' | 'wallet' | 'brokerage';
+
+export const ACCOUNT_KINDS: AccountKind[] = ['cash', 'bank', 'credit_card', 'wallet', 'brokerage'];
+
+export const ACCOUNT_KIND_LABELS: Record<AccountKind, string> = {
+    cash: 'Efectivo',
+    bank: 'Cuenta bancaria',
+    credit_card: 'Tarjeta de crédito',
+    wallet: 'Billetera virtual',
+    brokerage: 'Broker / Inversiones',
+};
+
+export const DEFAULT_ACCOUNT_NAME = 'Cuenta principal';
+export const TRANSFER_CATEGORY = 'Transferencia';
+
+const MOVEMENT_SELECT = 'type, amount, date, currency, original_amount, fx_rate, account_id, transfer_account_id';
+// PostgREST caps every select at 1000 rows, so balances load the movements in pages.
+const PAGE_SIZE = 1000;
+const MAX_PAGES = 100;
+
+export type AccountRow = {
+    id: string;
+    name: string;
+    kind: AccountKind;
+    currency: string;
+    opening_balance: number | string;
+    opening_date?: string | null;
+    is_default?: boolean | null;
+    is_archived?: boolean | null;
+};
+
+export type AccountMovementRow = MoneyRow & {
+    type: string;
+    account_id?: string | null;
+    transfer_account_id?: string | null;
+};
+
+export type AccountWithBalance<T extends AccountRow = AccountRow> = T & {
+    balance: number;
+    movements_count: number;
+    missing_rates: number;
+};
+
+function toNumber(value: unknown) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : 0;
+}
+
+/**
+ * Signed effect of a movement on one account, expressed in that account's currency.
+ * Transfers are a single row: they leave `account_id` and arrive at `transfer_account_id`.
+ */
+function movementDelta(row: AccountMovementRow, accountId: string) {
+    if (row.type === 'transfer') {
+        if (row.account_id === accountId) return -1;
+        if (row.transfer_account_id === accountId) return 1;
+        return 0;
+    }
+    if (row.account_id !== accountId) return 0;
+    if (row.type === 'income') return 1;
+    if (row.type === 'expense') return -1;
+    return 0;
+}
+
+export function computeAccountBalances<T extends AccountRow>(
+    accounts: T[],
+    movements: AccountMovementRow[],
+    lookup?: FxRateLookup | null
+): AccountWithBalance<T>[] {
+    return accounts.map((account) => {
+        const currency = normalizeCurrency(account.currency);
+        let balance = toNumber(account.opening_balance);
+        let movementsCount = 0;
+        let missingRates = 0;
+
+        for (const row of movements) {
+            const sign = movementDelta(row, account.id);
+            if (sign === 0) continue;
+            // The opening balance already includes whatever happened before its date.
+            if (account.opening_date && row.date && row.date < account.opening_date) continue;
+
+            movementsCount += 1;
+            const amount = toReportingAmount(row, currency, lookup);
+            if (amount == null) {
+                missingRates += 1;
+                continue;
+            }
+            balance += sign * amount;
+        }
+
+        return {
+            ...account,
+            balance: Number(balance.toFixed(2)),
+            movements_count: movementsCount,
+            missing_rates: missingRates,
+        };
+    });
+}
+
+/**
+ * Converts an account balance (already in the account currency) into the reporting currency.
+ * Uses the latest stored snapshot for `date`; returns null when no rate is known.
+ */
+export function convertAccountBalance(
+    balance: number,
+    accountCurrency: CurrencyCode,
+    reportingCurrency: CurrencyCode,
+    lookup: FxRateLookup | null | undefined,
+    date = new Date().toISOString().slice(0, 10)
+) {
+    if (accountCurrency === reportingCurrency) return balance;
+
+    const foreignCurrency = accountCurrency === BASE_CURRENCY ? reportingCurrency : accountCurrency;
+    const rate = lookup?.(foreignCurrency, date) ?? null;
+    if (rate == null || rate <= 0) return null;
+
+    return accountCurrency === BASE_CURRENCY ? balance / rate : balance * rate;
+}
+
+/**
+ * Every movement of the space that can move an account balance, up to `until` when given. Shaped like a select
+ * result so callers handle the error as they do for their other queries.
+ */
+export async function loadAccountMovements(
+    supabase: SupabaseClient,
+    spaceId: string,
+    params: { until?: string } = {}
+): Promise<{ data: AccountMovementRow[]; error: { message: string } | null }> {
+    const rows: AccountMovementRow[] = [];
+    for (let page = 0; page < MAX_PAGES; page += 1) {
+        let query = supabase
+            .from('transactions')
+            .select(MOVEMENT_SELECT)
+            .eq('space_id', spaceId);
+        if (params.until) query = query.lte('date', params.until);
+
+        const { data, error } = await query
+            .order('date', { ascending: true })
+            .order('id', { ascending: true })
+            .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+        if (error) return { data: rows, error };
+
+        rows.push(...((data || []) as AccountMovementRow[]));
+        if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return { data: rows, error: null };
+}
+
+/**
+ * Returns an error message when the account fields are inconsistent with the movement type, or null when valid.
+ */
+export function validateTransferAccounts(input: {
+    type?: string | null;
+    account_id?: string | null;
+    transfer_account_id?: string | null;
+}) {
+    if (input.type === 'transfer') {
+        if (!input.account_id || !input.transfer_account_id) {
+            return 'Una transferencia necesita cuenta de origen y de destino';
+        }
+        if (input.account_id === input.transfer_account_id) {
+            return 'La cuenta de origen y la de destino deben ser distintas';
+        }
+        return null;
+    }
+
+    if (input.transfer_account_id) {
+        return 'Solo las transferencias pueden tener cuenta de destino';
+    }
+    return null;
+}
+
+export function isMissingAccountsTableError(message?: string | null) {
+    if (!message) return false;
+    const value = message.toLowerCase();
+    return value.includes('accounts') && (value.includes('schema cache') || value.includes('does not exist'));
+}
+
+/**
+ * Checks that every referenced account belongs to the space, so a movement cannot point at another space's account.
+ */
+export async function accountsBelongToSpace(supabase: SupabaseClient, spaceId: string, accountIds: Array<string | null | undefined>) {
+    const ids = Array.from(new Set(accountIds.filter((id): id is string => Boolean(id))));
+    if (!ids.length) return true;
+
+    const { data, error } = await supabase
+        .from('accounts')
+        .select('id')
+        .eq('space_id', spaceId)
+        .in('id', ids);
+
+    if (error) {
+        logWarn('accounts_ownership_check_failed', { spaceId, reason: error.message });
+        return false;
+    }
+
+    return (data || []).length === ids.length;
+}
+
+/**
+ * Returns the id of the space's default account, creating it on first use.
+ * The `assign_default_account` trigger does the same for inserts that skip the API.
+ */
+export async function ensureDefaultAccount(supabase: SupabaseClient, spaceId: string, userId: string) {
+    const { data: existing, error } = await supabase
+        .from('accounts')
+        .select('id')
+        .eq('space_id', spaceId)
+        .eq('is_default', true)
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+    if (error) {
+        logWarn('default_account_lookup_failed', { spaceId, userId, reason: error.message });
+        return null;
+    }
+    if (existing?.id) return existing.id as string;
+
+    const { data: created, error: createError } = await supabase
+        .from('accounts')
+        .insert({
+            space_id: spaceId,
+            user_id: userId,
+            name: DEFAULT_ACCOUNT_NAME,
+            kind: 'cash',
+            currency: BASE_CURRENCY,
+            opening_balance: 0,
+            is_default: true,
+        })
+        .select('id')
+        .single();
+
+    if (createError) {
+        logWarn('default_account_create_failed', { spaceId, userId, reason: createError.message });
+        return null;
+    }
+
+    return created.id as string;
+}
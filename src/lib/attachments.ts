@@ -0,0 +1,84 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ALLOWED_DOCUMENT_MIME_TYPES } from '@/lib/document-processing';
+import { logWarn } from '@/lib/observability';
+
+// Same limits as the `documents` bucket (supabase-advanced.sql).
+export const ATTACHMENTS_BUCKET = 'documents';
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_TRANSACTION = 10;
+const SIGNED_URL_TTL_SECONDS = 10 * 60;
+
+export type TransactionAttachment = {
+    id: string;
+    transaction_id: string;
+    storage_path: string;
+    file_name: string;
+    mime_type: string;
+    size_bytes: number;
+    created_at: string;
+    url?: string | null;
+};
+
+export function isAllowedAttachmentType(mimeType: string) {
+    return ALLOWED_DOCUMENT_MIME_TYPES.has(mimeType);
+}
+
+/**
+ * Storage policies only let a user write under their own folder, so the uploader's id goes first; the
+ * transaction id groups every receipt of a movement.
+ */
+export function buildAttachmentPath(userId: string, transactionId: string, fileName: string, now = Date.now()) {
+    const safeName = (fileName || 'archivo').replace(/[^\w.-]/g, '_').slice(-120);
+    return `${userId}/transactions/${transactionId}/${now}-${safeName}`;
+}
+
+export function isMissingAttachmentsTableError(message?: string | null) {
+    if (!message) return false;
+    const value = message.toLowerCase();
+    return value.includes('transaction_attachments')
+        && (value.includes('schema cache') || value.includes('does not exist'));
+}
+
+/**
+ * Adds a short-lived signed URL to each attachment; the bucket is private.
+ */
+export async function withSignedUrls(supabase: SupabaseClient, attachments: TransactionAttachment[]) {
+    if (!attachments.length) return attachments;
+
+    const { data, error } = await supabase.storage
+        .from(ATTACHMENTS_BUCKET)
+        .createSignedUrls(attachments.map((attachment) => attachment.storage_path), SIGNED_URL_TTL_SECONDS);
+
+    if (error) {
+        logWarn('attachments_signed_urls_failed', { reason: error.message });
+        return attachments.map((attachment) => ({ ...attachment, url: null }));
+    }
+
+    const urls = new Map((data || []).map((item) => [item.path, item.signedUrl]));
+    return attachments.map((attachment) => ({ ...attachment, url: urls.get(attachment.storage_path) || null }));
+}
+
+/**
+ * Removes the stored files of a transaction's attachments. The rows go away with the transaction (on delete
+ * cascade); the objects in Storage have to be removed explicitly.
+ */
+export async function removeTransactionAttachmentFiles(supabase: SupabaseClient, spaceId: string, transactionId: string) {
+    const { data, error } = await supabase
+        .from('transaction_attachments')
+        .select('storage_path')
+        .eq('space_id', spaceId)
+        .eq('transaction_id', transactionId);
+
+    if (error) {
+        if (!isMissingAttachmentsTableError(error.message)) {
+            logWarn('attachments_lookup_failed', { spaceId, transactionId, reason: error.message });
+        }
+        return;
+    }
+
+    const paths = (data || []).map((row: { storage_path: string }) => row.storage_path);
+    if (!paths.length) return;
+
+    const { error: removeError } = await supabase.storage.from(ATTACHMENTS_BUCKET).remove(paths);
+    if (removeError) logWarn('attachments_remove_failed', { spaceId, transactionId, reason: removeError.message });
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+    applyImportMapping,
+    detectImportFormat,
+    findBuiltinImportProfile,
+    parseImportAmount,
+    parseImportDate,
+    parseOfx,
+    parseQif,
+    spreadsheetRowsToCsv,
+} from './bank-import';
+
+describe('parseImportAmount', () => {
+    it('should read local and international separators and bank-style negatives', () => {
+        expect(parseImportAmount('$ 1.234,56', ',')).toBe(1234.56);
+        expect(parseImportAmount('1,234.56', '.')).toBe(1234.56);
+        expect(parseImportAmount('(1.500,00)', ',')).toBe(-1500);
+        expect(parseImportAmount('250,10-', ',')).toBe(-250.1);
+        expect(parseImportAmount('', ',')).toBeNaN();
+    });
+});
+
+describe('parseImportDate', () => {
+    it('should follow the profile order and reject impossible dates', () => {
+        expect(parseImportDate('05/03/2024', 'DD/MM/YYYY')).toBe('2024-03-05');
+        expect(parseImportDate('03/05/24', 'MM/DD/YYYY')).toBe('2024-03-05');
+        expect(parseImportDate('2024-03-05 10:30', 'DD/MM/YYYY')).toBe('2024-03-05');
+        expect(parseImportDate('31/02/2024', 'DD/MM/YYYY')).toBe('');
+    });
+});
+
+describe('applyImportMapping', () => {
+    it('should map split debit/credit columns and report unreadable lines', () => {
+        const content = [
+            'Movimientos de cuenta',
+            'Fecha;Descripción;Débitos;Créditos;Saldo',
+            '02/01/2024;Supermercado;15.000,50;;100.000,00',
+            '03/01/2024;Sueldo;;500.000,00;600.000,00',
+            'xx/01/2024;Roto;1,00;;0',
+        ].join('\n');
+        const galicia = findBuiltinImportProfile('builtin:galicia')!;
+
+        const preview = applyImportMapping(content, { ...galicia.mapping, skip_rows: 1 });
+
+        expect(preview.rows).toEqual([
+            { line: 3, date: '2024-01-02', type: 'expense', amount: 15000.5, description: 'Supermercado', category: 'General' },
+            { line: 4, date: '2024-01-03', type: 'income', amount: 500000, description: 'Sueldo', category: 'General' },
+        ]);
+        expect(preview.skipped).toEqual([{ line: 5, reason: 'Fecha inválida' }]);
+    });
+
+    it('should report the missing columns instead of importing nothing silently', () => {
+        const galicia = findBuiltinImportProfile('builtin:galicia')!;
+        const preview = applyImportMapping('Fecha;Concepto;Importe\n02/01/2024;Cafe;-100', galicia.mapping);
+
+        expect(preview.rows).toEqual([]);
+        expect(preview.columns).toEqual(['Fecha', 'Concepto', 'Importe']);
+        expect(preview.skipped[0].reason).toContain('Columnas no encontradas');
+    });
+});
+
+describe('parseOfx', () => {
+    it('should read SGML statements with unclosed tags', () => {
+        const content = [
+            'OFXHEADER:100',
+            '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>USD',
+            '<BANKTRANLIST>',
+            '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20240115120000<TRNAMT>-42.50<FITID>A1<NAME>Amazon<MEMO>Libros',
+            '<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20240116<TRNAMT>100.00<FITID>A2<NAME>Transferencia',
+            '</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>',
+        ].join('\n');
+
+        expect(detectImportFormat('extracto.txt', content)).toBe('ofx');
+        const preview = parseOfx(content);
+
+        expect(preview.currency).toBe('USD');
+        expect(preview.rows).toMatchObject([
+            { date: '2024-01-15', type: 'expense', amount: 42.5, description: 'Amazon - Libros', external_id: 'A1' },
+            { date: '2024-01-16', type: 'income', amount: 100, description: 'Transferencia', external_id: 'A2' },
+        ]);
+    });
+});
+
+describe('parseQif', () => {
+    it('should read records with the configured date order and top-level category', () => {
+        const content = '!Type:Bank\nD01/02/2024\nT-1,500.00\nPFarmacia\nLSalud:Medicamentos\n^\nD02/02/2024\nT2000\nPReintegro\n^\n';
+
+        const preview = parseQif(content, 'DD/MM/YYYY');
+
+        expect(preview.rows).toMatchObject([
+            { line: 2, date: '2024-02-01', type: 'expense', amount: 1500, description: 'Farmacia', category: 'Salud' },
+            { line: 7, date: '2024-02-02', type: 'income', amount: 2000, description: 'Reintegro' },
+        ]);
+    });
+});
+
+describe('spreadsheetRowsToCsv', () => {
+    it('should serialize dates as ISO and quote cells that need it', () => {
+        const csv = spreadsheetRowsToCsv([
+            ['Fecha', 'Descripcion', 'Monto'],
+            [new Date(2024, 0, 5), 'Cena, bar', 1234.5],
+        ]);
+
+        expect(csv).toBe('Fecha,Descripcion,Monto\n2024-01-05,"Cena, bar",1234.5');
+    });
+});
@@ -0,0 +1,559 @@
+export type ImportFormat = 'csv' | 'ofx' | 'qif';
+export type ImportDateFormat = 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD' | 'DD-MM-YYYY';
+export type ImportDecimalSeparator = ',' | '.';
+export type ImportDelimiter = 'auto' | ',' | ';' | '\t';
+
+// How the sign of a movement is encoded in the file.
+export type ImportSignConvention =
+    | 'negative_is_expense'
+    | 'positive_is_expense'
+    | 'split_columns'
+    | 'type_column';
+
+export type ImportMapping = {
+    delimiter: ImportDelimiter;
+    // Lines before the header row (bank name, account number, date range...).
+    skip_rows: number;
+    date_column: string;
+    description_column: string;
+    amount_column?: string | null;
+    debit_column?: string | null;
+    credit_column?: string | null;
+    type_column?: string | null;
+    category_column?: string | null;
+    date_format: ImportDateFormat;
+    decimal_separator: ImportDecimalSeparator;
+    sign_convention: ImportSignConvention;
+};
+
+export type ImportProfile = {
+    id: string;
+    name: string;
+    bank: string | null;
+    mapping: ImportMapping;
+    builtin?: boolean;
+};
+
+export type ImportPreviewRow = {
+    line: number;
+    date: string;
+    type: 'income' | 'expense';
+    amount: number;
+    description: string;
+    category: string;
+    external_id?: string | null;
+};
+
+export type ImportSkippedRow = {
+    line: number;
+    reason: string;
+};
+
+export type ImportPreview = {
+    format: ImportFormat;
+    columns: string[];
+    rows: ImportPreviewRow[];
+    skipped: ImportSkippedRow[];
+    currency?: string | null;
+};
+
+const DEFAULT_CATEGORY = 'General';
+const DEFAULT_DESCRIPTION = 'Movimiento importado';
+
+/**
+ * Presets for the exports of the banks we see most. Column names follow each home banking download;
+ * users can copy one and adjust it when their bank changes the layout.
+ */
+export const BUILTIN_IMPORT_PROFILES: ImportProfile[] = [
+    {
+        id: 'builtin:finansas',
+        name: 'Excel de Finansas',
+        bank: null,
+        builtin: true,
+        mapping: {
+            delimiter: 'auto',
+            skip_rows: 0,
+            date_column: 'Fecha',
+            description_column: 'Descripcion',
+            amount_column: 'Monto',
+            type_column: 'Tipo',
+            category_column: 'Categoria',
+            date_format: 'YYYY-MM-DD',
+            decimal_separator: '.',
+            sign_convention: 'type_column',
+        },
+    },
+    {
+        id: 'builtin:galicia',
+        name: 'Banco Galicia',
+        bank: 'galicia',
+        builtin: true,
+        mapping: {
+            delimiter: ';',
+            skip_rows: 0,
+            date_column: 'Fecha',
+            description_column: 'Descripción',
+            debit_column: 'Débitos',
+            credit_column: 'Créditos',
+            date_format: 'DD/MM/YYYY',
+            decimal_separator: ',',
+            sign_convention: 'split_columns',
+        },
+    },
+    {
+        id: 'builtin:santander',
+        name: 'Santander',
+        bank: 'santander',
+        builtin: true,
+        mapping: {
+            delimiter: ';',
+            skip_rows: 0,
+            date_column: 'Fecha',
+            description_column: 'Descripción',
+            amount_column: 'Importe',
+            date_format: 'DD/MM/YYYY',
+            decimal_separator: ',',
+            sign_convention: 'negative_is_expense',
+        },
+    },
+    {
+        id: 'builtin:bbva',
+        name: 'BBVA',
+        bank: 'bbva',
+        builtin: true,
+        mapping: {
+            delimiter: 'auto',
+            skip_rows: 0,
+            date_column: 'Fecha',
+            description_column: 'Concepto',
+            debit_column: 'Débito',
+            credit_column: 'Crédito',
+            date_format: 'DD/MM/YYYY',
+            decimal_separator: ',',
+            sign_convention: 'split_columns',
+        },
+    },
+    {
+        id: 'builtin:mercadopago',
+        name: 'Mercado Pago',
+        bank: 'mercadopago',
+        builtin: true,
+        mapping: {
+            delimiter: 'auto',
+            skip_rows: 0,
+            date_column: 'RELEASE_DATE',
+            description_column: 'TRANSACTION_TYPE',
+            amount_column: 'TRANSACTION_NET_AMOUNT',
+            date_format: 'DD-MM-YYYY',
+            decimal_separator: ',',
+            sign_convention: 'negative_is_expense',
+        },
+    },
+];
+
+export function detectImportFormat(fileName: string, content: string): ImportFormat {
+    const extension = fileName.toLowerCase().split('.').pop() || '';
+    if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+    if (extension === 'qif') return 'qif';
+
+    const head = content.slice(0, 2000).toUpperCase();
+    if (head.includes('<OFX>') || head.includes('OFXHEADER')) return 'ofx';
+    if (/^\s*!TYPE:/m.test(head)) return 'qif';
+    return 'csv';
+}
+
+function normalizeKey(value: string) {
+    return value
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Parses an amount using the profile's decimal separator. Handles currency symbols,
+ * "(1.234,56)" and trailing-minus negatives.
+ */
+export function parseImportAmount(value: string | null | undefined, decimal: ImportDecimalSeparator) {
+    if (value == null) return NaN;
+    let text = String(value).trim();
+    if (!text) return NaN;
+
+    let negative = false;
+    if (/^\(.*\)$/.test(text)) {
+        negative = true;
+        text = text.slice(1, -1);
+    }
+    if (/-\s*$/.test(text)) {
+        negative = true;
+        text = text.replace(/-\s*$/, '');
+    }
+
+    let sanitized = text.replace(/[^\d,.-]/g, '');
+    if (sanitized.startsWith('-')) {
+        negative = !negative;
+        sanitized = sanitized.slice(1);
+    }
+    if (!sanitized) return NaN;
+
+    const normalized = decimal === ','
+        ? sanitized.replace(/\./g, '').replace(',', '.')
+        : sanitized.replace(/,/g, '');
+
+    const parsed = Number(normalized);
+    if (!Number.isFinite(parsed)) return NaN;
+    return negative ? -parsed : parsed;
+}
+
+function expandYear(year: string) {
+    return year.length === 2 ? `20${year}` : year;
+}
+
+function buildIsoDate(year: string, month: string, day: string) {
+    const y = Number(expandYear(year));
+    const m = Number(month);
+    const d = Number(day);
+    if (!y || m < 1 || m > 12 || d < 1 || d > 31) return '';
+
+    const date = new Date(Date.UTC(y, m - 1, d));
+    if (date.getUTCMonth() !== m - 1) return '';
+    return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Reads a date in the profile format. ISO dates are always accepted, and any time suffix is ignored.
+ */
+export function parseImportDate(value: string | null | undefined, format: ImportDateFormat) {
+    if (!value) return '';
+    const text = String(value).trim();
+
+    const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (iso) return buildIsoDate(iso[1], iso[2], iso[3]);
+    if (format === 'YYYY-MM-DD') return '';
+
+    const parts = text.match(/^(\d{1,2})[/.\-'](\d{1,2})[/.\-'](\d{2}|\d{4})\b/);
+    if (!parts) return '';
+
+    const [, first, second, year] = parts;
+    return format === 'MM/DD/YYYY'
+        ? buildIsoDate(year, first, second)
+        : buildIsoDate(year, second, first);
+}
+
+function detectDelimiter(line: string): Exclude<ImportDelimiter, 'auto'> {
+    const counts = ([';', ',', '\t'] as const).map((candidate) => ({
+        candidate,
+        count: line.split(candidate).length - 1,
+    }));
+    counts.sort((a, b) => b.count - a.count);
+    return counts[0].count > 0 ? counts[0].candidate : ',';
+}
+
+/**
+ * Minimal RFC 4180 reader: quoted fields, escaped quotes and newlines inside quotes.
+ */
+export function parseCsvTable(content: string, delimiter: ImportDelimiter = 'auto', skipRows = 0) {
+    const text = content.replace(/^\uFEFF/, '');
+    const lines = text.split(/\r?\n/);
+    const firstDataLine = lines.slice(skipRows).find((line) => line.trim()) || '';
+    const separator = delimiter === 'auto' ? detectDelimiter(firstDataLine) : delimiter;
+
+    const rows: Array<{ line: number; cells: string[] }> = [];
+    let cells: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let line = 1;
+    let rowStartLine = 1;
+
+    const pushRow = () => {
+        cells.push(field);
+        if (rowStartLine > skipRows && cells.some((cell) => cell.trim())) {
+            rows.push({ line: rowStartLine, cells: cells.map((cell) => cell.trim()) });
+        }
+        cells = [];
+        field = '';
+    };
+
+    for (let index = 0; index < text.length; index += 1) {
+        const char = text[index];
+
+        if (inQuotes) {
+            if (char === '"' && text[index + 1] === '"') {
+                field += '"';
+                index += 1;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                if (char === '\n') line += 1;
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inQuotes = true;
+        } else if (char === separator) {
+            cells.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[index + 1] === '\n') index += 1;
+            pushRow();
+            line += 1;
+            rowStartLine = line;
+        } else {
+            field += char;
+        }
+    }
+
+    if (field || cells.length) pushRow();
+    return rows;
+}
+
+function resolveType(raw: string): 'income' | 'expense' | null {
+    const value = normalizeKey(raw);
+    if (['income', 'ingreso', 'entrada', 'credit', 'credito', 'acreditacion'].includes(value)) return 'income';
+    if (['expense', 'gasto', 'egreso', 'debit', 'debito', 'pago'].includes(value)) return 'expense';
+    return null;
+}
+
+function signedToMovement(signed: number, convention: ImportSignConvention) {
+    const isExpense = convention === 'positive_is_expense' ? signed > 0 : signed < 0;
+    return { type: isExpense ? 'expense' as const : 'income' as const, amount: Math.abs(signed) };
+}
+
+/**
+ * Applies a CSV mapping profile to a parsed table. The first non-skipped row is the header;
+ * rows that cannot be read are reported with their line number instead of being dropped silently.
+ */
+export function applyImportMapping(content: string, mapping: ImportMapping): ImportPreview {
+    const table = parseCsvTable(content, mapping.delimiter, mapping.skip_rows);
+    const [header, ...dataRows] = table;
+    const columns = header?.cells ?? [];
+    const columnIndex = new Map(columns.map((column, index) => [normalizeKey(column), index]));
+
+    const cell = (cells: string[], column?: string | null) => {
+        if (!column) return '';
+        const index = columnIndex.get(normalizeKey(column));
+        return index == null ? '' : cells[index] ?? '';
+    };
+
+    const requiredColumns = [
+        mapping.date_column,
+        mapping.description_column,
+        ...(mapping.sign_convention === 'split_columns'
+            ? [mapping.debit_column, mapping.credit_column]
+            : [mapping.amount_column]),
+        ...(mapping.sign_convention === 'type_column' ? [mapping.type_column] : []),
+    ];
+    const missing = requiredColumns.filter((column) => !column || !columnIndex.has(normalizeKey(column)));
+    if (!header || missing.length) {
+        return {
+            format: 'csv',
+            columns,
+            rows: [],
+            skipped: [{
+                line: header?.line ?? 1,
+                reason: `Columnas no encontradas: ${missing.map((column) => column || '(sin definir)').join(', ') || 'encabezado'}`,
+            }],
+        };
+    }
+
+    const rows: ImportPreviewRow[] = [];
+    const skipped: ImportSkippedRow[] = [];
+
+    for (const { line, cells } of dataRows) {
+        const date = parseImportDate(cell(cells, mapping.date_column), mapping.date_format);
+        if (!date) {
+            skipped.push({ line, reason: 'Fecha inválida' });
+            continue;
+        }
+
+        let movement: { type: 'income' | 'expense'; amount: number } | null = null;
+        if (mapping.sign_convention === 'split_columns') {
+            const debit = Math.abs(parseImportAmount(cell(cells, mapping.debit_column), mapping.decimal_separator) || 0);
+            const credit = Math.abs(parseImportAmount(cell(cells, mapping.credit_column), mapping.decimal_separator) || 0);
+            if (debit > 0 || credit > 0) {
+                movement = debit >= credit
+                    ? { type: 'expense', amount: debit - credit }
+                    : { type: 'income', amount: credit - debit };
+            }
+        } else {
+            const signed = parseImportAmount(cell(cells, mapping.amount_column), mapping.decimal_separator);
+            if (Number.isFinite(signed) && signed !== 0) {
+                if (mapping.sign_convention === 'type_column') {
+                    const type = resolveType(cell(cells, mapping.type_column));
+                    movement = type ? { type, amount: Math.abs(signed) } : null;
+                } else {
+                    movement = signedToMovement(signed, mapping.sign_convention);
+                }
+            }
+        }
+
+        if (!movement || !(movement.amount > 0)) {
+            skipped.push({ line, reason: mapping.sign_convention === 'type_column' ? 'Tipo o monto inválido' : 'Monto inválido' });
+            continue;
+        }
+
+        rows.push({
+            line,
+            date,
+            type: movement.type,
+            amount: Number(movement.amount.toFixed(2)),
+            description: cell(cells, mapping.description_column).slice(0, 200) || DEFAULT_DESCRIPTION,
+            category: cell(cells, mapping.category_column).slice(0, 60) || DEFAULT_CATEGORY,
+        });
+    }
+
+    return { format: 'csv', columns, rows, skipped };
+}
+
+function ofxField(block: string, tag: string) {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    return match?.[1]?.trim() ?? '';
+}
+
+/**
+ * Reads <STMTTRN> entries from OFX 1.x (SGML, unclosed tags) and 2.x (XML) files.
+ */
+export function parseOfx(content: string): ImportPreview {
+    const rows: ImportPreviewRow[] = [];
+    const skipped: ImportSkippedRow[] = [];
+    const currency = ofxField(content, 'CURDEF') || null;
+
+    const starts: number[] = [];
+    const pattern = /<STMTTRN>/gi;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(content))) starts.push(match.index);
+
+    for (let index = 0; index < starts.length; index += 1) {
+        const start = starts[index];
+        const end = starts[index + 1] ?? content.length;
+        const block = content.slice(start, end).split(/<\/STMTTRN>|<\/BANKTRANLIST>/i)[0];
+        const line = content.slice(0, start).split('\n').length;
+
+        const posted = ofxField(block, 'DTPOSTED');
+        const date = /^\d{8}/.test(posted)
+            ? buildIsoDate(posted.slice(0, 4), posted.slice(4, 6), posted.slice(6, 8))
+            : '';
+        const rawAmount = ofxField(block, 'TRNAMT');
+        const signed = parseImportAmount(rawAmount, rawAmount.includes(',') && !rawAmount.includes('.') ? ',' : '.');
+
+        if (!date || !Number.isFinite(signed) || signed === 0) {
+            skipped.push({ line, reason: !date ? 'Fecha inválida' : 'Monto inválido' });
+            continue;
+        }
+
+        const name = ofxField(block, 'NAME');
+        const memo = ofxField(block, 'MEMO');
+        const movement = signedToMovement(signed, 'negative_is_expense');
+
+        rows.push({
+            line,
+            date,
+            type: movement.type,
+            amount: Number(movement.amount.toFixed(2)),
+            description: ([name, memo && memo !== name ? memo : ''].filter(Boolean).join(' - ') || DEFAULT_DESCRIPTION).slice(0, 200),
+            category: DEFAULT_CATEGORY,
+            external_id: ofxField(block, 'FITID') || null,
+        });
+    }
+
+    return { format: 'ofx', columns: [], rows, skipped, currency };
+}
+
+/**
+ * Reads QIF bank/card records (D date, T/U amount, P payee, M memo, L category, ^ end of record).
+ * QIF has no standard date order, so the caller passes the one its bank uses.
+ */
+export function parseQif(content: string, dateFormat: ImportDateFormat = 'DD/MM/YYYY'): ImportPreview {
+    const rows: ImportPreviewRow[] = [];
+    const skipped: ImportSkippedRow[] = [];
+    const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+    let record: Record<string, string> = {};
+    let recordLine = 0;
+
+    const flush = () => {
+        if (!Object.keys(record).length) return;
+        const date = parseImportDate(record.D, dateFormat);
+        const signed = parseImportAmount(record.T ?? record.U, record.T?.includes(',') && !record.T.includes('.') ? ',' : '.');
+
+        if (!date || !Number.isFinite(signed) || signed === 0) {
+            skipped.push({ line: recordLine, reason: !date ? 'Fecha inválida' : 'Monto inválido' });
+        } else {
+            const movement = signedToMovement(signed, 'negative_is_expense');
+            rows.push({
+                line: recordLine,
+                date,
+                type: movement.type,
+                amount: Number(movement.amount.toFixed(2)),
+                description: ([record.P, record.M].filter(Boolean).join(' - ') || DEFAULT_DESCRIPTION).slice(0, 200),
+                category: record.L ? record.L.split(':')[0].replace(/^\[|\]$/g, '').slice(0, 60) : DEFAULT_CATEGORY,
+                external_id: record.N || null,
+            });
+        }
+        record = {};
+    };
+
+    lines.forEach((rawLine, index) => {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('!')) return;
+        if (line === '^') {
+            flush();
+            return;
+        }
+        if (!Object.keys(record).length) recordLine = index + 1;
+        const code = line[0];
+        if (!(code in record)) record[code] = line.slice(1).trim();
+    });
+    flush();
+
+    return { format: 'qif', columns: [], rows, skipped };
+}
+
+export function buildImportPreview(params: {
+    format: ImportFormat;
+    content: string;
+    mapping?: ImportMapping | null;
+    dateFormat?: ImportDateFormat;
+}): ImportPreview {
+    if (params.format === 'ofx') return parseOfx(params.content);
+    if (params.format === 'qif') return parseQif(params.content, params.dateFormat);
+    return applyImportMapping(params.content, params.mapping ?? BUILTIN_IMPORT_PROFILES[0].mapping);
+}
+
+export function findBuiltinImportProfile(id: string) {
+    return BUILTIN_IMPORT_PROFILES.find((profile) => profile.id === id) ?? null;
+}
+
+export function resolveMaxImportRows() {
+    const parsed = Number(process.env.IMPORT_MAX_ROWS);
+    return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : 2000;
+}
+
+export function isMissingImportProfilesTableError(message?: string | null) {
+    if (!message) return false;
+    const value = message.toLowerCase();
+    return value.includes('import_profiles') && (value.includes('schema cache') || value.includes('does not exist'));
+}
+
+function csvCell(value: unknown) {
+    if (value == null) return '';
+    if (value instanceof Date) {
+        // Spreadsheet dates come in local time; keep the calendar day the user sees.
+        const month = String(value.getMonth() + 1).padStart(2, '0');
+        const day = String(value.getDate()).padStart(2, '0');
+        return `${value.getFullYear()}-${month}-${day}`;
+    }
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes spreadsheet rows (read with dates as Date and numbers unformatted) so they go through the
+ * same CSV mapping: dates become ISO and numbers use "." as decimal separator.
+ */
+export function spreadsheetRowsToCsv(rows: unknown[][]) {
+    return rows.map((row) => row.map(csvCell).join(',')).join('\n');
+}
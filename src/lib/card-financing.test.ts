@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { cardMonthlyRate, cardRatesFromExtraction, financingWarning, simulateCardFinancing, type CardRates } from './card-financing';
+
+const rates: CardRates = { tna: 120, tea: 213.84, cft: 260 };
+
+describe('simulateCardFinancing', () => {
+    it('should finance the rest of the balance and add IVA when paying the minimum', () => {
+        const result = simulateCardFinancing({
+            balance: 100000,
+            minimum_payment: 10000,
+            due_date: '2026-03-10',
+            rates,
+            plan: { mode: 'minimum' },
+            cycles: 2,
+        });
+
+        expect(result.rate_source).toBe('tna');
+        expect(result.cycles[0]).toMatchObject({ due_date: '2026-03-10', payment: 10000, financed: 90000, interest: 9000, punitive: 0, taxes: 1890, next_balance: 100890 });
+        // The next minimum keeps the 10% ratio of the first statement.
+        expect(result.cycles[1]).toMatchObject({ due_date: '2026-04-10', balance: 100890, minimum: 10089 });
+        expect(result.paid_off_cycle).toBeNull();
+    });
+
+    it('should settle the balance with a fixed amount and report the cycle', () => {
+        const result = simulateCardFinancing({
+            balance: 100000,
+            minimum_payment: 10000,
+            due_date: '2026-03-10',
+            rates,
+            plan: { mode: 'amount', amount: 40000 },
+        });
+
+        expect(result.cycles.map((cycle) => cycle.next_balance)).toEqual([67260, 30558.46, 0]);
+        expect(result.paid_off_cycle).toBe(3);
+        expect(result.total_interest).toBe(8726);
+    });
+
+    it('should use the CFT without adding taxes when it is the only rate', () => {
+        const onlyCft = cardRatesFromExtraction({ interest_rates: { tna: null, tea: 0, cft: 100 } });
+        expect(onlyCft).toEqual({ tna: null, tea: null, cft: 100 });
+        expect(cardMonthlyRate(onlyCft)).toMatchObject({ source: 'cft', includesTaxes: true });
+        expect(cardMonthlyRate(onlyCft).rate).toBeCloseTo(Math.pow(2, 1 / 12) - 1, 10);
+        expect(cardRatesFromExtraction({ interest_rates: {} })).toBeNull();
+    });
+});
+
+describe('financingWarning', () => {
+    it('should warn about punitive interest below the minimum and stay quiet on a full payment', () => {
+        const statement = { balance: 100000, minimum_payment: 10000, rates };
+
+        expect(financingWarning(statement, 100000)).toBeNull();
+        const warning = financingWarning(statement, 5000);
+        // 9500 interest + 250 punitive (half rate on the unpaid 5000 of the minimum) + 21% IVA.
+        expect(warning).toMatchObject({ financed: 95000, below_minimum: true, next_charges: 11797.5 });
+        expect(warning?.message).toMatch(/no cubre el mínimo.*punitorios/);
+        expect(financingWarning({ ...statement, rates: null }, 50000)?.message).toMatch(/no trae tasas/);
+    });
+});
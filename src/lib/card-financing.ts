@@ -0,0 +1,208 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logWarn } from '@/lib/observability';
+import { addMonthsIso } from '@/lib/installments';
+
+// IVA on financing interest; the CFT already includes it.
+export const INTEREST_VAT_RATE = 0.21;
+// BCRA caps punitive interest at half the compensatory rate; statements rarely print it, so the cap is assumed.
+export const PUNITIVE_RATE_FACTOR = 0.5;
+// Used when the statement did not print a minimum payment.
+export const FALLBACK_MINIMUM_RATIO = 0.05;
+export const DEFAULT_FINANCING_CYCLES = 6;
+export const MAX_FINANCING_CYCLES = 24;
+
+// `interest_rates` of a credit card extraction, in percent.
+export type CardRates = {
+    tna: number | null;
+    tea: number | null;
+    cft: number | null;
+};
+
+export type CardRateSource = 'tna' | 'tea' | 'cft';
+
+export type CardPaymentPlan =
+    | { mode: 'minimum' }
+    | { mode: 'amount'; amount: number };
+
+export type CardFinancingInput = {
+    balance: number;
+    minimum_payment?: number | null;
+    due_date: string;
+    rates: CardRates | null;
+    plan: CardPaymentPlan;
+    cycles?: number;
+};
+
+export type CardFinancingCycle = {
+    cycle: number;
+    due_date: string;
+    balance: number;
+    minimum: number;
+    payment: number;
+    financed: number;
+    interest: number;
+    punitive: number;
+    taxes: number;
+    next_balance: number;
+};
+
+export type CardFinancingResult = {
+    monthly_rate: number;
+    rate_source: CardRateSource | null;
+    estimated_minimum: boolean;
+    cycles: CardFinancingCycle[];
+    total_interest: number;
+    total_punitive: number;
+    total_taxes: number;
+    total_paid: number;
+    // Cycle (1-based) whose payment settles the balance, null if it is still open after the simulated cycles.
+    paid_off_cycle: number | null;
+};
+
+export type FinancingWarning = {
+    financed: number;
+    below_minimum: boolean;
+    // Interest, punitive charges and IVA the financed part adds to the next statement.
+    next_charges: number;
+    message: string;
+};
+
+function toNumber(value: unknown) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function round(value: number) {
+    return Math.round(value * 100) / 100;
+}
+
+function positiveRate(value: unknown) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+export function cardRatesFromExtraction(raw: unknown): CardRates | null {
+    const rates = (raw && typeof raw === 'object' ? (raw as { interest_rates?: unknown }).interest_rates : null) as Partial<CardRates> | null;
+    if (!rates || typeof rates !== 'object') return null;
+    const parsed = { tna: positiveRate(rates.tna), tea: positiveRate(rates.tea), cft: positiveRate(rates.cft) };
+    return parsed.tna || parsed.tea || parsed.cft ? parsed : null;
+}
+
+/**
+ * Monthly financing rate of a statement. The TNA is nominal (split in 12) and the TEA effective (compounded);
+ * with only the CFT the rate already carries taxes, so no IVA is added on top.
+ */
+export function cardMonthlyRate(rates: CardRates | null): { rate: number; source: CardRateSource | null; includesTaxes: boolean } {
+    if (rates?.tna) return { rate: rates.tna / 100 / 12, source: 'tna', includesTaxes: false };
+    if (rates?.tea) return { rate: Math.pow(1 + rates.tea / 100, 1 / 12) - 1, source: 'tea', includesTaxes: false };
+    if (rates?.cft) return { rate: Math.pow(1 + rates.cft / 100, 1 / 12) - 1, source: 'cft', includesTaxes: true };
+    return { rate: 0, source: null, includesTaxes: false };
+}
+
+/**
+ * Projects the next statements when only part of the balance is paid. Whatever is left after the payment is
+ * financed for a month at the compensatory rate; the unpaid part of the minimum also pays punitive interest, and
+ * IVA applies to both. New purchases are not included. Each cycle's minimum keeps the first statement's ratio.
+ */
+export function simulateCardFinancing(input: CardFinancingInput): CardFinancingResult {
+    const { rate, source, includesTaxes } = cardMonthlyRate(input.rates);
+    const balance = Math.max(toNumber(input.balance), 0);
+    const declaredMinimum = toNumber(input.minimum_payment);
+    const estimatedMinimum = declaredMinimum <= 0;
+    const minimumRatio = balance > 0 && !estimatedMinimum ? Math.min(declaredMinimum / balance, 1) : FALLBACK_MINIMUM_RATIO;
+    const totalCycles = Math.min(Math.max(Math.trunc(input.cycles || DEFAULT_FINANCING_CYCLES), 1), MAX_FINANCING_CYCLES);
+
+    const cycles: CardFinancingCycle[] = [];
+    let current = balance;
+    let paidOffCycle: number | null = null;
+
+    for (let index = 0; index < totalCycles && current > 0; index += 1) {
+        const minimum = round(Math.min(current, current * minimumRatio));
+        const payment = round(input.plan.mode === 'minimum' ? minimum : Math.min(Math.max(input.plan.amount, 0), current));
+        const financed = round(current - payment);
+        const interest = round(financed * rate);
+        const punitive = round(Math.max(minimum - payment, 0) * rate * PUNITIVE_RATE_FACTOR);
+        const taxes = includesTaxes ? 0 : round((interest + punitive) * INTEREST_VAT_RATE);
+        const nextBalance = round(financed + interest + punitive + taxes);
+
+        cycles.push({
+            cycle: index + 1,
+            due_date: addMonthsIso(input.due_date, index),
+            balance: round(current),
+            minimum,
+            payment,
+            financed,
+            interest,
+            punitive,
+            taxes,
+            next_balance: nextBalance,
+        });
+
+        current = nextBalance;
+        if (current <= 0.005) paidOffCycle = index + 1;
+    }
+
+    const sum = (key: 'interest' | 'punitive' | 'taxes' | 'payment') => round(cycles.reduce((total, cycle) => total + cycle[key], 0));
+    return {
+        monthly_rate: rate,
+        rate_source: source,
+        estimated_minimum: estimatedMinimum,
+        cycles,
+        total_interest: sum('interest'),
+        total_punitive: sum('punitive'),
+        total_taxes: sum('taxes'),
+        total_paid: sum('payment'),
+        paid_off_cycle: balance <= 0 ? 0 : paidOffCycle,
+    };
+}
+
+/** Null when the payment covers the balance; otherwise what financing the rest costs on the next statement. */
+export function financingWarning(
+    statement: { balance: number; minimum_payment?: number | null; rates: CardRates | null },
+    payment: number
+): FinancingWarning | null {
+    const balance = toNumber(statement.balance);
+    if (payment >= balance - 0.005) return null;
+
+    const [cycle] = simulateCardFinancing({
+        balance,
+        minimum_payment: statement.minimum_payment,
+        due_date: '2000-01-01',
+        rates: statement.rates,
+        plan: { mode: 'amount', amount: payment },
+        cycles: 1,
+    }).cycles;
+    const minimum = toNumber(statement.minimum_payment);
+    const belowMinimum = minimum > 0 && payment < minimum - 0.005;
+    const nextCharges = cycle ? round(cycle.interest + cycle.punitive + cycle.taxes) : 0;
+    const financed = round(balance - payment);
+
+    const cost = cardMonthlyRate(statement.rates).source
+        ? `se estiman $${nextCharges.toFixed(0)} de ${belowMinimum ? 'intereses y punitorios' : 'intereses'} en el próximo resumen`
+        : 'el resumen no trae tasas para estimar los intereses';
+    return {
+        financed,
+        below_minimum: belowMinimum,
+        next_charges: nextCharges,
+        message: `${belowMinimum ? 'El pago no cubre el mínimo: quedan' : 'Quedan'} $${financed.toFixed(0)} financiados y ${cost}.`,
+    };
+}
+
+/** Rates of the statements behind a set of obligations, keyed by extraction id. */
+export async function loadExtractionRates(supabase: SupabaseClient, extractionIds: string[]) {
+    const rates = new Map<string, CardRates>();
+    const ids = Array.from(new Set(extractionIds.filter(Boolean)));
+    if (!ids.length) return rates;
+
+    const { data, error } = await supabase.from('extractions').select('id, raw_json').in('id', ids);
+    if (error) {
+        logWarn('card_financing_rates_load_failed', { reason: error.message });
+        return rates;
+    }
+
+    for (const row of (data || []) as { id: string; raw_json: unknown }[]) {
+        const parsed = cardRatesFromExtraction(row.raw_json);
+        if (parsed) rates.set(row.id, parsed);
+    }
+    return rates;
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+    buildCategoryTree,
+    createCategoryLineage,
+    normalizeCategoryName,
+    sumCategorySpending,
+    validateCategoryParent,
+    type Category,
+} from './categories';
+
+function category(id: string, name: string, overrides: Partial<Category> = {}): Category {
+    return {
+        id,
+        name,
+        parent_id: null,
+        kind: 'expense',
+        icon: null,
+        color: null,
+        is_archived: false,
+        ...overrides,
+    };
+}
+
+const categories = [
+    category('food', 'Alimentación'),
+    category('market', 'Supermercado', { parent_id: 'food' }),
+    category('delivery', 'Delivery', { parent_id: 'food' }),
+    category('transport', 'Transporte'),
+    category('salary', 'Salario', { kind: 'income' }),
+];
+
+describe('normalizeCategoryName', () => {
+    it('should ignore case, accents and repeated spaces', () => {
+        expect(normalizeCategoryName('  Alimentación   y  Bebidas ')).toBe('alimentacion y bebidas');
+        expect(normalizeCategoryName(null)).toBe('');
+    });
+});
+
+describe('buildCategoryTree', () => {
+    it('should nest subcategories under their parent and keep orphans as roots', () => {
+        const tree = buildCategoryTree([...categories, category('orphan', 'Huérfana', { parent_id: 'missing' })]);
+
+        expect(tree.map((node) => node.name)).toEqual(['Alimentación', 'Huérfana', 'Salario', 'Transporte']);
+        expect(tree[0].children.map((node) => node.name)).toEqual(['Delivery', 'Supermercado']);
+    });
+});
+
+describe('sumCategorySpending', () => {
+    it('should roll subcategory spending up into the parent budget', () => {
+        const rows = [
+            { category: 'supermercado', amount: 100 },
+            { category: 'Delivery', amount: 50 },
+            { category: 'ALIMENTACION', amount: 25 },
+            { category: 'Transporte', amount: 999 },
+            { category: 'Sin categoría conocida', amount: 10 },
+        ];
+
+        expect(sumCategorySpending(categories, 'Alimentación', rows, (row) => row.amount)).toBe(175);
+        expect(sumCategorySpending(categories, 'Supermercado', rows, (row) => row.amount)).toBe(100);
+        // Names outside the taxonomy still match themselves.
+        expect(sumCategorySpending(categories, 'sin categoria conocida', rows, (row) => row.amount)).toBe(10);
+        expect(createCategoryLineage(categories)('Supermercado')).toEqual(['supermercado', 'alimentacion']);
+    });
+});
+
+describe('validateCategoryParent', () => {
+    it('should only allow two levels of the same kind', () => {
+        expect(validateCategoryParent(categories, { parentId: 'food', kind: 'expense' })).toBeNull();
+        expect(validateCategoryParent(categories, { parentId: 'market', kind: 'expense' })).toMatch(/dos niveles/);
+        expect(validateCategoryParent(categories, { parentId: 'salary', kind: 'expense' })).toMatch(/mismo tipo/);
+        expect(validateCategoryParent(categories, { categoryId: 'food', parentId: 'transport', kind: 'expense' })).toMatch(/subcategorías/);
+        expect(validateCategoryParent(categories, { categoryId: 'food', parentId: 'food', kind: 'expense' })).toMatch(/propia/);
+        expect(validateCategoryParent(categories, { parentId: 'unknown', kind: 'expense' })).toMatch(/inválida/);
+    });
+});
@@ -0,0 +1,224 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logWarn } from '@/lib/observability';
+
+export type CategoryKind = 'income' | 'expense';
+
+export type Category = {
+    id: string;
+    name: string;
+    parent_id: string | null;
+    kind: CategoryKind;
+    icon: string | null;
+    color: string | null;
+    is_archived: boolean;
+    created_at?: string;
+};
+
+export type CategoryNode = Category & {
+    children: Category[];
+};
+
+type DefaultCategory = {
+    name: string;
+    kind: CategoryKind;
+    icon: string;
+    color: string;
+    children?: string[];
+};
+
+/**
+ * Seeded for every space. Mirrors seed_space_categories() in supabase-categories.sql; the leaf names match
+ * the ones the assistant and the document flow already write, so old free-text values land under a parent.
+ */
+export const DEFAULT_CATEGORIES: DefaultCategory[] = [
+    { name: 'Vivienda', kind: 'expense', icon: '🏠', color: '#6366f1', children: ['Alquiler', 'Expensas', 'Servicios', 'Mantenimiento'] },
+    { name: 'Alimentación', kind: 'expense', icon: '🛒', color: '#22c55e', children: ['Supermercado', 'Comida', 'Delivery'] },
+    { name: 'Transporte', kind: 'expense', icon: '🚗', color: '#f59e0b', children: ['Combustible', 'Transporte público', 'Taxi y apps', 'Estacionamiento'] },
+    { name: 'Salud', kind: 'expense', icon: '💊', color: '#ef4444', children: ['Prepaga', 'Farmacia'] },
+    { name: 'Educación', kind: 'expense', icon: '🎓', color: '#0ea5e9' },
+    { name: 'Ocio', kind: 'expense', icon: '🎬', color: '#a855f7', children: ['Entretenimiento', 'Suscripciones', 'Salidas', 'Viajes'] },
+    { name: 'Compras', kind: 'expense', icon: '🛍️', color: '#ec4899', children: ['Ropa', 'Tecnología', 'Regalos'] },
+    { name: 'Finanzas', kind: 'expense', icon: '💳', color: '#64748b', children: ['Tarjeta', 'Deudas', 'Impuestos', 'Comisiones', 'Ahorro'] },
+    { name: 'Mascotas', kind: 'expense', icon: '🐾', color: '#84cc16' },
+    { name: 'Otros gastos', kind: 'expense', icon: '📦', color: '#94a3b8', children: ['General', 'Varios', 'Gastos'] },
+    { name: 'Salario', kind: 'income', icon: '💼', color: '#10b981' },
+    { name: 'Freelance', kind: 'income', icon: '💻', color: '#14b8a6' },
+    { name: 'Ventas', kind: 'income', icon: '🏷️', color: '#06b6d4' },
+    { name: 'Inversiones', kind: 'income', icon: '📈', color: '#3b82f6' },
+    { name: 'Ingresos', kind: 'income', icon: '💰', color: '#22c55e' },
+];
+
+const CATEGORY_SELECT = 'id, name, parent_id, kind, icon, color, is_archived, created_at';
+
+/**
+ * Mirrors normalize_category_name() in supabase-categories.sql: names are unique per space ignoring case,
+ * accents and repeated spaces.
+ */
+export function normalizeCategoryName(value?: string | null) {
+    return (value || '')
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .trim()
+        .replace(/\s+/g, ' ');
+}
+
+export function buildCategoryTree(categories: Category[]): CategoryNode[] {
+    const byName = (a: Category, b: Category) => a.name.localeCompare(b.name, 'es');
+    const ids = new Set(categories.map((category) => category.id));
+    // Children whose parent is gone are shown as roots, like the database does with on delete set null.
+    const roots = categories.filter((category) => !category.parent_id || !ids.has(category.parent_id));
+
+    return roots.sort(byName).map((root) => ({
+        ...root,
+        children: categories.filter((category) => category.parent_id === root.id).sort(byName),
+    }));
+}
+
+/**
+ * Returns a lookup from a free-text category to the normalized names of that category and all its ancestors.
+ * Unknown names resolve to themselves, so spending still matches a budget with the same name.
+ */
+export function createCategoryLineage(categories: Category[]) {
+    const byKey = new Map(categories.map((category) => [normalizeCategoryName(category.name), category]));
+    const byId = new Map(categories.map((category) => [category.id, category]));
+    const cache = new Map<string, string[]>();
+
+    return (name?: string | null) => {
+        const key = normalizeCategoryName(name);
+        const cached = cache.get(key);
+        if (cached) return cached;
+
+        const lineage = [key];
+        let current = byKey.get(key);
+        const seen = new Set<string>();
+        while (current?.parent_id && !seen.has(current.id)) {
+            seen.add(current.id);
+            current = byId.get(current.parent_id);
+            if (current) lineage.push(normalizeCategoryName(current.name));
+        }
+
+        cache.set(key, lineage);
+        return lineage;
+    };
+}
+
+/**
+ * Total of `rows` that fall under `category` or any of its subcategories.
+ */
+export function sumCategorySpending<T extends { category?: string | null }>(
+    categories: Category[],
+    category: string,
+    rows: T[],
+    valueOf: (row: T) => number
+) {
+    const lineageOf = createCategoryLineage(categories);
+    const key = normalizeCategoryName(category);
+
+    return rows.reduce((total, row) => (
+        lineageOf(row.category).includes(key) ? total + valueOf(row) : total
+    ), 0);
+}
+
+/**
+ * Returns an error message when `parentId` cannot be the parent of `categoryId`, or null when valid.
+ * The taxonomy has two levels: roots and their subcategories, both of the same kind.
+ */
+export function validateCategoryParent(
+    categories: Category[],
+    input: { categoryId?: string | null; parentId?: string | null; kind: CategoryKind }
+) {
+    if (!input.parentId) return null;
+    if (input.parentId === input.categoryId) return 'Una categoría no puede ser su propia categoría padre';
+
+    const parent = categories.find((category) => category.id === input.parentId);
+    if (!parent) return 'Categoría padre inválida';
+    if (parent.parent_id) return 'Solo se permiten dos niveles: elegí una categoría principal como padre';
+    if (parent.kind !== input.kind) return 'La categoría padre debe ser del mismo tipo';
+    if (input.categoryId && categories.some((category) => category.parent_id === input.categoryId)) {
+        return 'Una categoría con subcategorías no puede tener categoría padre';
+    }
+
+    return null;
+}
+
+export function isMissingCategoriesTableError(message?: string | null) {
+    if (!message) return false;
+    const value = message.toLowerCase();
+    return (value.includes('categories') || value.includes('category_id'))
+        && !value.includes('category_rules')
+        && (value.includes('schema cache') || value.includes('does not exist'));
+}
+
+export async function loadCategories(supabase: SupabaseClient, spaceId: string): Promise<Category[]> {
+    const { data, error } = await supabase
+        .from('categories')
+        .select(CATEGORY_SELECT)
+        .eq('space_id', spaceId)
+        .order('name', { ascending: true });
+
+    if (error) {
+        if (!isMissingCategoriesTableError(error.message)) {
+            logWarn('categories_load_failed', { spaceId, reason: error.message });
+        }
+        return [];
+    }
+
+    return (data || []) as Category[];
+}
+
+/**
+ * Creates the default taxonomy for a space that was never seeded (no default root exists yet). Spaces that
+ * existed when supabase-categories.sql ran are seeded there. Categories the trigger already created from free
+ * text are kept, and move under their default parent when they have no subcategories of their own.
+ */
+export async function ensureSpaceCategories(supabase: SupabaseClient, spaceId: string, userId: string) {
+    const existing = await loadCategories(supabase, spaceId);
+    const existingByKey = new Map(existing.map((category) => [normalizeCategoryName(category.name), category]));
+    if (DEFAULT_CATEGORIES.some((item) => existingByKey.has(normalizeCategoryName(item.name)))) return existing;
+
+    const { data: roots, error } = await supabase
+        .from('categories')
+        .insert(DEFAULT_CATEGORIES.map(({ name, kind, icon, color }) => ({ space_id: spaceId, user_id: userId, name, kind, icon, color })))
+        .select(CATEGORY_SELECT);
+
+    if (error) {
+        if (!isMissingCategoriesTableError(error.message)) {
+            logWarn('categories_seed_failed', { spaceId, userId, reason: error.message });
+        }
+        return existing;
+    }
+
+    const rootByName = new Map(((roots || []) as Category[]).map((root) => [root.name, root]));
+    const children: Array<{ space_id: string; user_id: string; name: string; kind: CategoryKind; parent_id: string }> = [];
+    const adopted: Array<{ id: string; parent_id: string }> = [];
+
+    for (const item of DEFAULT_CATEGORIES) {
+        const parent = rootByName.get(item.name);
+        if (!parent) continue;
+
+        for (const name of item.children || []) {
+            const current = existingByKey.get(normalizeCategoryName(name));
+            if (!current) {
+                children.push({ space_id: spaceId, user_id: userId, name, kind: item.kind, parent_id: parent.id });
+            } else if (!current.parent_id && current.kind === item.kind && !existing.some((category) => category.parent_id === current.id)) {
+                adopted.push({ id: current.id, parent_id: parent.id });
+            }
+        }
+    }
+
+    if (children.length) {
+        const { error: childrenError } = await supabase.from('categories').insert(children);
+        if (childrenError) logWarn('categories_seed_children_failed', { spaceId, userId, reason: childrenError.message });
+    }
+
+    for (const item of adopted) {
+        await supabase
+            .from('categories')
+            .update({ parent_id: item.parent_id })
+            .eq('id', item.id)
+            .eq('space_id', spaceId);
+    }
+
+    return loadCategories(supabase, spaceId);
+}
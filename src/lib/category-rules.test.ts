@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+    applyCategoryRules,
+    compileRulePattern,
+    planRuleReapply,
+    withCategoryRules,
+    type CategoryRule,
+} from './category-rules';
+
+function rule(id: string, overrides: Partial<CategoryRule> = {}): CategoryRule {
+    return {
+        id,
+        name: id,
+        priority: 100,
+        is_active: true,
+        set_tags: [],
+        ...overrides,
+    };
+}
+
+describe('compileRulePattern', () => {
+    it('should ignore case and accents and reject invalid patterns', () => {
+        expect(compileRulePattern('CAFÉ|panadería')?.test('cafe martinez')).toBe(true);
+        expect(compileRulePattern('(unclosed')).toBeNull();
+        expect(compileRulePattern('  ')).toBeNull();
+    });
+
+    it('should keep uppercase escapes', () => {
+        const pattern = compileRulePattern('CUOTA\\s\\D+');
+        expect(pattern?.test('cuota abc')).toBe(true);
+        expect(pattern?.test('cuota 12')).toBe(false);
+    });
+});
+
+describe('applyCategoryRules', () => {
+    it('should let the lowest priority set the category and add tags from every match', () => {
+        const rules = [
+            rule('generic', { priority: 50, description_pattern: 'super', set_category: 'Compras', set_tags: ['hogar'] }),
+            rule('specific', { priority: 10, description_pattern: 'supermercado d[ií]a', set_category: 'Supermercado' }),
+            rule('big', { priority: 90, amount_min: 50000, set_tags: ['grande'] }),
+        ];
+
+        const outcome = applyCategoryRules(rules, { type: 'expense', amount: 60000, description: 'SUPERMERCADO DÍA', category: 'General' });
+
+        expect(outcome.category).toBe('Supermercado');
+        expect(outcome.tags).toEqual(['hogar', 'grande']);
+        expect(outcome.matched_rule_ids).toEqual(['specific', 'generic', 'big']);
+    });
+
+    it('should check type, account and amount range and skip paused rules', () => {
+        const base = { type: 'expense', amount: 1500, description: 'Uber', account_id: 'acc-1' };
+
+        expect(applyCategoryRules([rule('r', { transaction_type: 'income', set_category: 'X' })], base).matched_rule_ids).toEqual([]);
+        expect(applyCategoryRules([rule('r', { account_id: 'acc-2', set_category: 'X' })], base).matched_rule_ids).toEqual([]);
+        expect(applyCategoryRules([rule('r', { amount_max: '1000', set_category: 'X' })], base).matched_rule_ids).toEqual([]);
+        expect(applyCategoryRules([rule('r', { is_active: false, set_category: 'X' })], base).matched_rule_ids).toEqual([]);
+        expect(applyCategoryRules([rule('r', { amount_min: 1000, amount_max: 2000, set_category: 'Transporte' })], base).category).toBe('Transporte');
+    });
+
+    it('should turn matches into transfers in the right direction', () => {
+        const rules = [rule('savings', { description_pattern: 'ahorro', transfer_account_id: 'acc-savings' })];
+
+        expect(applyCategoryRules(rules, { type: 'expense', amount: 100, description: 'Ahorro', account_id: 'acc-1' })).toMatchObject({
+            type: 'transfer',
+            category: 'Transferencia',
+            account_id: 'acc-1',
+            transfer_account_id: 'acc-savings',
+        });
+        expect(applyCategoryRules(rules, { type: 'income', amount: 100, description: 'Rescate ahorro', account_id: 'acc-1' })).toMatchObject({
+            type: 'transfer',
+            account_id: 'acc-savings',
+            transfer_account_id: 'acc-1',
+        });
+        // Without a source account, or when it already is the counterpart, the transfer cannot be built.
+        expect(applyCategoryRules(rules, { type: 'expense', amount: 100, description: 'Ahorro' }).type).toBe('expense');
+        expect(applyCategoryRules(rules, { type: 'expense', amount: 100, description: 'Ahorro', account_id: 'acc-savings' }).type).toBe('expense');
+    });
+});
+
+describe('withCategoryRules', () => {
+    it('should leave rows untouched when no rule applies so the tags column is not required', () => {
+        const row = { type: 'expense', amount: 10, description: 'Kiosco', category: 'General', space_id: 's' };
+
+        expect(withCategoryRules([rule('r', { description_pattern: 'farmacia', set_category: 'Salud' })], row)).toBe(row);
+        expect(withCategoryRules([rule('r', { description_pattern: 'kiosco', set_category: 'Snacks' })], row)).toEqual({ ...row, category: 'Snacks' });
+    });
+});
+
+describe('planRuleReapply', () => {
+    it('should only report movements whose result changes', () => {
+        const rules = [rule('netflix', { description_pattern: 'netflix', set_category: 'Suscripciones', set_tags: ['streaming'] })];
+        const rows = [
+            { id: 'a', date: '2024-03-01', type: 'expense', amount: 5000, description: 'NETFLIX.COM', category: 'General', tags: [] },
+            { id: 'b', date: '2024-03-02', type: 'expense', amount: 5000, description: 'Netflix', category: 'Suscripciones', tags: ['streaming'] },
+            { id: 'c', date: '2024-03-03', type: 'expense', amount: 800, description: 'Café', category: 'General', tags: [] },
+        ];
+
+        const changes = planRuleReapply(rules, rows);
+
+        expect(changes).toHaveLength(1);
+        expect(changes[0]).toMatchObject({
+            id: 'a',
+            before: { category: 'General', tags: [] },
+            after: { category: 'Suscripciones', tags: ['streaming'] },
+            matched_rule_ids: ['netflix'],
+        });
+    });
+});
@@ -0,0 +1,274 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logWarn } from '@/lib/observability';
+import { TRANSFER_CATEGORY } from '@/lib/accounts';
+
+export type CategoryRule = {
+    id: string;
+    name: string;
+    priority: number;
+    is_active: boolean;
+    description_pattern?: string | null;
+    amount_min?: number | string | null;
+    amount_max?: number | string | null;
+    account_id?: string | null;
+    transaction_type?: 'income' | 'expense' | null;
+    set_category?: string | null;
+    set_tags?: string[] | null;
+    transfer_account_id?: string | null;
+    created_at?: string;
+};
+
+// The fields a rule looks at and may rewrite. `amount` is the ARS amount stored on the movement.
+export type RuleSubject = {
+    type: string;
+    amount: number | string;
+    description?: string | null;
+    category?: string | null;
+    account_id?: string | null;
+    transfer_account_id?: string | null;
+    tags?: string[] | null;
+};
+
+export type RuleOutcome = {
+    type: string;
+    category: string | null;
+    account_id: string | null;
+    transfer_account_id: string | null;
+    tags: string[];
+    matched_rule_ids: string[];
+};
+
+export type RuleReapplyRow = RuleSubject & {
+    id: string;
+    date: string;
+};
+
+export type RuleReapplyChange = {
+    id: string;
+    date: string;
+    description: string;
+    amount: number;
+    matched_rule_ids: string[];
+    before: Pick<RuleOutcome, 'type' | 'category' | 'account_id' | 'transfer_account_id' | 'tags'>;
+    after: Pick<RuleOutcome, 'type' | 'category' | 'account_id' | 'transfer_account_id' | 'tags'>;
+};
+
+// Response of POST /api/category-rules/apply.
+export type RuleReapplyResult = {
+    dry_run: boolean;
+    scanned: number;
+    total: number;
+    applied: number;
+    changes: RuleReapplyChange[];
+};
+
+const RULE_SELECT = 'id, name, priority, is_active, description_pattern, amount_min, amount_max, account_id, transaction_type, set_category, set_tags, transfer_account_id, created_at';
+
+function stripAccents(value?: string | null) {
+    return (value || '')
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '');
+}
+
+function foldText(value?: string | null) {
+    return stripAccents(value).toLowerCase();
+}
+
+function toOptionalNumber(value: unknown) {
+    if (value == null || value === '') return null;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Compiles a user pattern as a case- and accent-insensitive regex. Returns null when the pattern is empty or
+ * invalid; callers treat an invalid pattern as a rule that never matches.
+ */
+export function compileRulePattern(pattern?: string | null) {
+    // Lowercasing the pattern would turn escapes like \D or \S into their opposites; the `i` flag handles case.
+    const source = stripAccents(pattern).trim();
+    if (!source) return null;
+    try {
+        return new RegExp(source, 'i');
+    } catch {
+        return null;
+    }
+}
+
+export function isValidRulePattern(pattern?: string | null) {
+    return !pattern?.trim() || compileRulePattern(pattern) !== null;
+}
+
+export function sortCategoryRules<T extends Pick<CategoryRule, 'priority' | 'created_at' | 'id'>>(rules: T[]) {
+    return [...rules].sort((a, b) => (
+        a.priority - b.priority
+        || (a.created_at || '').localeCompare(b.created_at || '')
+        || a.id.localeCompare(b.id)
+    ));
+}
+
+export function ruleMatches(rule: CategoryRule, subject: RuleSubject) {
+    if (!rule.is_active) return false;
+    if (rule.transaction_type && rule.transaction_type !== subject.type) return false;
+    if (rule.account_id && rule.account_id !== subject.account_id) return false;
+
+    const amount = Math.abs(Number(subject.amount));
+    const min = toOptionalNumber(rule.amount_min);
+    const max = toOptionalNumber(rule.amount_max);
+    if (min != null && !(amount >= min)) return false;
+    if (max != null && !(amount <= max)) return false;
+
+    if (rule.description_pattern?.trim()) {
+        const pattern = compileRulePattern(rule.description_pattern);
+        if (!pattern || !pattern.test(foldText(subject.description))) return false;
+    }
+
+    return true;
+}
+
+/**
+ * Runs the rules in priority order. The first matching rule that sets the category (or marks a transfer) wins;
+ * tags from every matching rule are added. Movements that already are transfers are left untouched.
+ *
+ * A transfer action names the other account: an expense leaves the movement's account towards it, an income
+ * arrives from it. Without an account on the movement the transfer action is skipped.
+ */
+export function applyCategoryRules(rules: CategoryRule[], subject: RuleSubject): RuleOutcome {
+    const outcome: RuleOutcome = {
+        type: subject.type,
+        category: subject.category ?? null,
+        account_id: subject.account_id ?? null,
+        transfer_account_id: subject.transfer_account_id ?? null,
+        tags: Array.from(new Set(subject.tags || [])),
+        matched_rule_ids: [],
+    };
+    if (subject.type === 'transfer') return outcome;
+
+    let categoryDecided = false;
+    for (const rule of sortCategoryRules(rules)) {
+        if (!ruleMatches(rule, subject)) continue;
+
+        let applied = false;
+        if (!categoryDecided && rule.transfer_account_id && subject.account_id && rule.transfer_account_id !== subject.account_id) {
+            outcome.type = 'transfer';
+            outcome.category = TRANSFER_CATEGORY;
+            if (subject.type === 'income') {
+                outcome.account_id = rule.transfer_account_id;
+                outcome.transfer_account_id = subject.account_id;
+            } else {
+                outcome.transfer_account_id = rule.transfer_account_id;
+            }
+            categoryDecided = true;
+            applied = true;
+        } else if (!categoryDecided && rule.set_category) {
+            outcome.category = rule.set_category;
+            categoryDecided = true;
+            applied = true;
+        }
+
+        for (const tag of rule.set_tags || []) {
+            if (!outcome.tags.includes(tag)) {
+                outcome.tags.push(tag);
+                applied = true;
+            }
+        }
+
+        if (applied) outcome.matched_rule_ids.push(rule.id);
+    }
+
+    return outcome;
+}
+
+/**
+ * Returns `row` with the rule outcome merged in. `tags` is only written when a rule added some, so spaces that
+ * have not run supabase-category-rules.sql keep inserting rows without that column.
+ */
+export function withCategoryRules<T extends RuleSubject>(rules: CategoryRule[], row: T): T {
+    if (!rules.length) return row;
+
+    const outcome = applyCategoryRules(rules, row);
+    if (!outcome.matched_rule_ids.length) return row;
+
+    return {
+        ...row,
+        type: outcome.type,
+        category: outcome.category,
+        ...(outcome.type === 'transfer'
+            ? { account_id: outcome.account_id, transfer_account_id: outcome.transfer_account_id }
+            : {}),
+        ...(outcome.tags.length ? { tags: outcome.tags } : {}),
+    } as T;
+}
+
+function sameTags(a: string[], b: string[]) {
+    return a.length === b.length && a.every((tag, index) => tag === b[index]);
+}
+
+/**
+ * Dry run of the rules over stored movements: one entry per movement whose category, type, accounts or tags
+ * would change. Rules only add, so a movement keeps categories that no rule touches.
+ */
+export function planRuleReapply(rules: CategoryRule[], rows: RuleReapplyRow[]): RuleReapplyChange[] {
+    const changes: RuleReapplyChange[] = [];
+
+    for (const row of rows) {
+        const before = {
+            type: row.type,
+            category: row.category ?? null,
+            account_id: row.account_id ?? null,
+            transfer_account_id: row.transfer_account_id ?? null,
+            tags: row.tags || [],
+        };
+        const { matched_rule_ids, ...after } = applyCategoryRules(rules, row);
+        if (!matched_rule_ids.length) continue;
+
+        const changed = before.type !== after.type
+            || before.category !== after.category
+            || before.account_id !== after.account_id
+            || before.transfer_account_id !== after.transfer_account_id
+            || !sameTags(before.tags, after.tags);
+        if (!changed) continue;
+
+        changes.push({
+            id: row.id,
+            date: row.date,
+            description: row.description || '',
+            amount: Number(row.amount),
+            matched_rule_ids,
+            before,
+            after,
+        });
+    }
+
+    return changes;
+}
+
+export function isMissingCategoryRulesTableError(message?: string | null) {
+    if (!message) return false;
+    const value = message.toLowerCase();
+    return (value.includes('category_rules') || value.includes('tags'))
+        && (value.includes('schema cache') || value.includes('does not exist'));
+}
+
+/**
+ * Active rules of the space in evaluation order. Returns an empty list when the table is missing so inserts keep
+ * working before supabase-category-rules.sql runs.
+ */
+export async function loadCategoryRules(supabase: SupabaseClient, spaceId: string): Promise<CategoryRule[]> {
+    const { data, error } = await supabase
+        .from('category_rules')
+        .select(RULE_SELECT)
+        .eq('space_id', spaceId)
+        .eq('is_active', true)
+        .order('priority', { ascending: true })
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        if (!isMissingCategoryRulesTableError(error.message)) {
+            logWarn('category_rules_load_failed', { spaceId, reason: error.message });
+        }
+        return [];
+    }
+
+    return sortCategoryRules((data || []) as CategoryRule[]);
+}
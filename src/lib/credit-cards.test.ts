@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+    computeStatementTotal,
+    getStatementCycle,
+    resolveStatementPaymentStatus,
+    statementAmountDue,
+    statementPaymentType,
+} from './credit-cards';
+
+describe('getStatementCycle', () => {
+    const rules = { closing_day: 25, due_day: 5 };
+
+    it('should assign purchases up to the closing day to that statement', () => {
+        expect(getStatementCycle(rules, '2024-03-25')).toEqual({
+            period_start: '2024-02-26',
+            closing_date: '2024-03-25',
+            due_date: '2024-04-05',
+        });
+        expect(getStatementCycle(rules, '2024-03-26').closing_date).toBe('2024-04-25');
+    });
+
+    it('should roll over the year and clamp days to the month length', () => {
+        expect(getStatementCycle(rules, '2024-12-28')).toEqual({
+            period_start: '2024-12-26',
+            closing_date: '2025-01-25',
+            due_date: '2025-02-05',
+        });
+        expect(getStatementCycle({ closing_day: 31, due_day: 10 }, '2023-02-15')).toEqual({
+            period_start: '2023-02-01',
+            closing_date: '2023-02-28',
+            due_date: '2023-03-10',
+        });
+    });
+
+    it('should keep the due date in the closing month when it comes later', () => {
+        expect(getStatementCycle({ closing_day: 3, due_day: 15 }, '2024-05-02').due_date).toBe('2024-05-15');
+    });
+});
+
+describe('statement totals', () => {
+    it('should add charges and subtract refunds', () => {
+        expect(computeStatementTotal([
+            { type: 'expense', amount: 1500.5 },
+            { type: 'expense', amount: '499.5' },
+            { type: 'income', amount: 200 },
+            { type: 'transfer', amount: 1000 },
+        ])).toBe(1800);
+    });
+
+    it('should fall back to the declared total while there are no lines', () => {
+        const imported = { total_amount: 0, lines_count: 0, declared_total: 85000, paid_amount: 35000 };
+        expect(statementAmountDue(imported)).toBe(50000);
+        expect(statementPaymentType(imported)).toBe('expense');
+
+        const recorded = { ...imported, total_amount: 40000, lines_count: 3 };
+        expect(statementAmountDue(recorded)).toBe(5000);
+        expect(statementPaymentType(recorded)).toBe('transfer');
+    });
+
+    it('should derive the payment status from the paid amount', () => {
+        expect(resolveStatementPaymentStatus(1000, 0)).toBe('pending');
+        expect(resolveStatementPaymentStatus(1000, 400)).toBe('partial');
+        expect(resolveStatementPaymentStatus(1000, 1000)).toBe('paid');
+    });
+});
@@ -0,0 +1,531 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logWarn } from '@/lib/observability';
+
+export const CARD_PAYMENT_CATEGORY = 'Tarjeta de crédito';
+
+export type CardCycleRules = {
+    closing_day: number;
+    due_day: number;
+};
+
+export type StatementCycle = {
+    period_start: string;
+    closing_date: string;
+    due_date: string;
+};
+
+export type CreditCardRow = CardCycleRules & {
+    id: string;
+    name: string;
+    issuer?: string | null;
+    card_brand?: string | null;
+    last4?: string | null;
+    account_id: string;
+    is_archived?: boolean | null;
+};
+
+export type CardStatementStatus = 'pending' | 'partial' | 'paid';
+export type CardStatementPhase = 'open' | 'closed' | 'paid';
+
+export type CardStatementRow = StatementCycle & {
+    id: string;
+    card_id: string;
+    total_amount: number | string;
+    lines_count: number;
+    declared_total?: number | string | null;
+    minimum_payment?: number | string | null;
+    paid_amount: number | string;
+    status: CardStatementStatus;
+    obligation_id?: string | null;
+    extraction_id?: string | null;
+};
+
+export type StatementLineRow = {
+    type: string;
+    amount: number | string;
+};
+
+type ChargeRow = {
+    id: string;
+    type: string;
+    date: string;
+    account_id?: string | null;
+    card_statement_id?: string | null;
+};
+
+function toNumber(value: unknown) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function roundMoney(value: number) {
+    return Number(value.toFixed(2));
+}
+
+function daysInMonth(year: number, monthIndex: number) {
+    return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
+
+// Builds an ISO date, normalizing month overflow and clamping the day to the month length (day 31 → Feb 28).
+function clampedIsoDate(year: number, monthIndex: number, day: number) {
+    const normalized = new Date(Date.UTC(year, monthIndex, 1));
+    const lastDay = daysInMonth(normalized.getUTCFullYear(), normalized.getUTCMonth());
+    normalized.setUTCDate(Math.min(Math.max(1, day), lastDay));
+    return normalized.toISOString().slice(0, 10);
+}
+
+function addDays(isoDate: string, days: number) {
+    const date = new Date(`${isoDate}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+}
+
+function dateParts(isoDate: string) {
+    const [year, month, day] = isoDate.slice(0, 10).split('-').map(Number);
+    return { year, monthIndex: month - 1, day };
+}
+
+/**
+ * Statement cycle a purchase falls into. A purchase made on the closing day still belongs to that statement;
+ * the due date is the first `due_day` after the closing date.
+ */
+export function getStatementCycle(rules: CardCycleRules, purchaseDate: string): StatementCycle {
+    const { year, monthIndex, day } = dateParts(purchaseDate);
+    const closingThisMonth = clampedIsoDate(year, monthIndex, rules.closing_day);
+    const closingMonthIndex = day <= dateParts(closingThisMonth).day ? monthIndex : monthIndex + 1;
+
+    const closingDate = clampedIsoDate(year, closingMonthIndex, rules.closing_day);
+    const previousClosing = clampedIsoDate(year, closingMonthIndex - 1, rules.closing_day);
+
+    const closing = dateParts(closingDate);
+    const dueSameMonth = clampedIsoDate(closing.year, closing.monthIndex, rules.due_day);
+    const dueDate = dueSameMonth > closingDate
+        ? dueSameMonth
+        : clampedIsoDate(closing.year, closing.monthIndex + 1, rules.due_day);
+
+    return {
+        period_start: addDays(previousClosing, 1),
+        closing_date: closingDate,
+        due_date: dueDate,
+    };
+}
+
+/**
+ * Charges add to the statement and refunds (income on the card account) subtract from it.
+ */
+export function computeStatementTotal(lines: StatementLineRow[]) {
+    const total = lines.reduce((sum, line) => {
+        if (line.type === 'expense') return sum + toNumber(line.amount);
+        if (line.type === 'income') return sum - toNumber(line.amount);
+        return sum;
+    }, 0);
+    return roundMoney(total);
+}
+
+/**
+ * Statements imported from a document usually have no recorded lines: the declared total is used until
+ * charges are loaded against the card.
+ */
+export function statementTotal(statement: Pick<CardStatementRow, 'total_amount' | 'lines_count' | 'declared_total'>) {
+    if (statement.lines_count > 0 || statement.declared_total == null) return toNumber(statement.total_amount);
+    return toNumber(statement.declared_total);
+}
+
+export function statementAmountDue(statement: Pick<CardStatementRow, 'total_amount' | 'lines_count' | 'declared_total' | 'paid_amount'>) {
+    return roundMoney(Math.max(statementTotal(statement) - toNumber(statement.paid_amount), 0));
+}
+
+export function resolveStatementPaymentStatus(total: number, paidAmount: number): CardStatementStatus {
+    if (paidAmount <= 0) return 'pending';
+    return paidAmount >= total ? 'paid' : 'partial';
+}
+
+export function resolveStatementPhase(
+    statement: Pick<CardStatementRow, 'closing_date' | 'status'>,
+    today = new Date().toISOString().slice(0, 10)
+): CardStatementPhase {
+    if (statement.status === 'paid') return 'paid';
+    return statement.closing_date < today ? 'closed' : 'open';
+}
+
+/**
+ * Paying a statement whose charges were recorded on the card account is a transfer (the spending was
+ * already counted). Statements without lines, such as imported ones, are paid as an expense instead.
+ */
+export function statementPaymentType(statement: Pick<CardStatementRow, 'lines_count'>) {
+    return statement.lines_count > 0 ? 'transfer' : 'expense';
+}
+
+export function isMissingCardsTableError(message?: string | null) {
+    if (!message) return false;
+    const value = message.toLowerCase();
+    return (value.includes('credit_cards') || value.includes('card_statement'))
+        && (value.includes('schema cache') || value.includes('does not exist'));
+}
+
+/**
+ * Returns the statement row for the card cycle containing `date`, creating it on first use.
+ */
+export async function ensureCardStatement(
+    supabase: SupabaseClient,
+    spaceId: string,
+    userId: string,
+    card: CreditCardRow,
+    date: string
+) {
+    const cycle = getStatementCycle(card, date);
+
+    const findExisting = () => supabase
+        .from('card_statements')
+        .select('*')
+        .eq('space_id', spaceId)
+        .eq('card_id', card.id)
+        .eq('closing_date', cycle.closing_date)
+        .maybeSingle();
+
+    const { data: existing, error } = await findExisting();
+    if (error) {
+        logWarn('card_statement_lookup_failed', { spaceId, cardId: card.id, reason: error.message });
+        return null;
+    }
+    if (existing) return existing as CardStatementRow;
+
+    const { data: created, error: createError } = await supabase
+        .from('card_statements')
+        .insert({ ...cycle, space_id: spaceId, user_id: userId, card_id: card.id })
+        .select()
+        .single();
+
+    if (createError) {
+        // Another request may have opened the same cycle concurrently.
+        const { data: raced } = await findExisting();
+        if (raced) return raced as CardStatementRow;
+        logWarn('card_statement_create_failed', { spaceId, cardId: card.id, reason: createError.message });
+        return null;
+    }
+
+    return created as CardStatementRow;
+}
+
+/**
+ * Recomputes the statement total from its lines and keeps the payment status consistent with it.
+ */
+export async function refreshStatementTotals(supabase: SupabaseClient, spaceId: string, statementId: string) {
+    const { data: lines, error } = await supabase
+        .from('transactions')
+        .select('type, amount')
+        .eq('space_id', spaceId)
+        .eq('card_statement_id', statementId);
+
+    if (error) {
+        logWarn('card_statement_lines_failed', { spaceId, statementId, reason: error.message });
+        return null;
+    }
+
+    const { data: statement, error: statementError } = await supabase
+        .from('card_statements')
+        .select('*')
+        .eq('id', statementId)
+        .eq('space_id', spaceId)
+        .maybeSingle();
+
+    if (statementError || !statement) return null;
+
+    const next = {
+        ...statement,
+        total_amount: computeStatementTotal(lines || []),
+        lines_count: (lines || []).length,
+    } as CardStatementRow;
+
+    const { data: updated, error: updateError } = await supabase
+        .from('card_statements')
+        .update({
+            total_amount: next.total_amount,
+            lines_count: next.lines_count,
+            status: resolveStatementPaymentStatus(statementTotal(next), toNumber(next.paid_amount)),
+        })
+        .eq('id', statementId)
+        .eq('space_id', spaceId)
+        .select()
+        .single();
+
+    if (updateError) {
+        logWarn('card_statement_refresh_failed', { spaceId, statementId, reason: updateError.message });
+        return null;
+    }
+
+    return updated as CardStatementRow;
+}
+
+/**
+ * Assigns an income/expense row on a card account to the statement of its purchase date and refreshes
+ * the affected totals. `previousStatementId` is the statement the row belonged to before an edit or delete.
+ * Best-effort: failures are logged so the movement itself is never rejected.
+ */
+export async function syncCardCharge(
+    supabase: SupabaseClient,
+    spaceId: string,
+    userId: string,
+    charge: ChargeRow | null,
+    previousStatementId?: string | null
+) {
+    let statementId: string | null = null;
+
+    if (charge && charge.account_id && (charge.type === 'expense' || charge.type === 'income')) {
+        const { data: card, error } = await supabase
+            .from('credit_cards')
+            .select('*')
+            .eq('space_id', spaceId)
+            .eq('account_id', charge.account_id)
+            .maybeSingle();
+
+        if (error && !isMissingCardsTableError(error.message)) {
+            logWarn('card_lookup_failed', { spaceId, transactionId: charge.id, reason: error.message });
+        }
+
+        if (card) {
+            const statement = await ensureCardStatement(supabase, spaceId, userId, card as CreditCardRow, charge.date);
+            statementId = statement?.id ?? null;
+        }
+    }
+
+    if (charge && (charge.card_statement_id ?? null) !== statementId) {
+        const { error } = await supabase
+            .from('transactions')
+            .update({ card_statement_id: statementId })
+            .eq('id', charge.id)
+            .eq('space_id', spaceId);
+
+        if (error) {
+            logWarn('card_charge_assign_failed', { spaceId, transactionId: charge.id, reason: error.message });
+            return null;
+        }
+    }
+
+    const affected = new Set([statementId, previousStatementId ?? charge?.card_statement_id ?? null]);
+    for (const id of Array.from(affected)) {
+        if (id) await refreshStatementTotals(supabase, spaceId, id);
+    }
+
+    return statementId;
+}
+
+/**
+ * Assigns every income/expense already recorded on the card account to its statement.
+ * Used when a card is attached to an existing account or its cycle rules change.
+ */
+export async function assignCardCharges(supabase: SupabaseClient, spaceId: string, userId: string, card: CreditCardRow) {
+    const { data: charges, error } = await supabase
+        .from('transactions')
+        .select('id, type, date, card_statement_id')
+        .eq('space_id', spaceId)
+        .eq('account_id', card.account_id)
+        .in('type', ['expense', 'income']);
+
+    if (error) {
+        logWarn('card_charges_lookup_failed', { spaceId, cardId: card.id, reason: error.message });
+        return 0;
+    }
+
+    const idsByClosingDate = new Map<string, string[]>();
+    const touchedStatements = new Set<string>();
+    for (const charge of charges || []) {
+        const { closing_date } = getStatementCycle(card, charge.date);
+        idsByClosingDate.set(closing_date, [...(idsByClosingDate.get(closing_date) || []), charge.id]);
+        if (charge.card_statement_id) touchedStatements.add(charge.card_statement_id);
+    }
+
+    for (const ids of Array.from(idsByClosingDate.values())) {
+        const purchaseDate = (charges || []).find((charge) => charge.id === ids[0])?.date as string;
+        const statement = await ensureCardStatement(supabase, spaceId, userId, card, purchaseDate);
+        if (!statement) continue;
+
+        const { error: assignError } = await supabase
+            .from('transactions')
+            .update({ card_statement_id: statement.id })
+            .eq('space_id', spaceId)
+            .in('id', ids);
+
+        if (assignError) {
+            logWarn('card_charges_assign_failed', { spaceId, cardId: card.id, reason: assignError.message });
+            continue;
+        }
+        touchedStatements.add(statement.id);
+    }
+
+    for (const statementId of Array.from(touchedStatements)) {
+        await refreshStatementTotals(supabase, spaceId, statementId);
+    }
+
+    return (charges || []).length;
+}
+
+export type StatementDocumentInput = {
+    title: string;
+    last4?: string | null;
+    issuer?: string | null;
+    card_brand?: string | null;
+    closing_date?: string | null;
+    due_date: string;
+    declared_total: number;
+    minimum_payment?: number | null;
+    paid_amount?: number | null;
+    obligation_id: string;
+    extraction_id?: string | null;
+};
+
+function dayOfMonth(isoDate: string) {
+    return dateParts(isoDate).day;
+}
+
+/**
+ * Records an imported credit card statement: matches the card by its last 4 digits (creating the card and
+ * its account on first sight) and upserts the statement of that closing date, linked to the obligation.
+ * Returns null when the document does not carry enough data or the cards module is not installed.
+ */
+export async function upsertStatementFromDocument(
+    supabase: SupabaseClient,
+    spaceId: string,
+    userId: string,
+    input: StatementDocumentInput
+) {
+    if (!input.closing_date) return null;
+
+    let card: CreditCardRow | null = null;
+    if (input.last4) {
+        const { data, error } = await supabase
+            .from('credit_cards')
+            .select('*')
+            .eq('space_id', spaceId)
+            .eq('last4', input.last4)
+            .eq('is_archived', false)
+            .order('created_at', { ascending: true })
+            .limit(1)
+            .maybeSingle();
+
+        if (error) {
+            if (!isMissingCardsTableError(error.message)) {
+                logWarn('card_document_lookup_failed', { spaceId, reason: error.message });
+            }
+            return null;
+        }
+        card = data as CreditCardRow | null;
+    }
+
+    if (!card) {
+        const name = [input.issuer, input.card_brand, input.last4 ? `•${input.last4}` : null]
+            .filter(Boolean)
+            .join(' ')
+            .slice(0, 80) || input.title.slice(0, 80);
+
+        const { data: account, error: accountError } = await supabase
+            .from('accounts')
+            .insert({ space_id: spaceId, user_id: userId, name, kind: 'credit_card', currency: 'ARS', opening_balance: 0 })
+            .select('id')
+            .single();
+
+        if (accountError || !account) {
+            logWarn('card_document_account_failed', { spaceId, reason: accountError?.message });
+            return null;
+        }
+
+        const { data: created, error: cardError } = await supabase
+            .from('credit_cards')
+            .insert({
+                space_id: spaceId,
+                user_id: userId,
+                account_id: account.id,
+                name,
+                issuer: input.issuer ?? null,
+                card_brand: input.card_brand ?? null,
+                last4: input.last4 ?? null,
+                closing_day: dayOfMonth(input.closing_date),
+                due_day: dayOfMonth(input.due_date),
+            })
+            .select()
+            .single();
+
+        if (cardError || !created) {
+            await supabase.from('accounts').delete().eq('id', account.id).eq('space_id', spaceId);
+            logWarn('card_document_create_failed', { spaceId, reason: cardError?.message });
+            return null;
+        }
+        card = created as CreditCardRow;
+    }
+
+    const base = await ensureCardStatement(supabase, spaceId, userId, card, input.closing_date);
+    if (!base) return null;
+
+    const paidAmount = roundMoney(toNumber(base.paid_amount) + toNumber(input.paid_amount));
+    const next = {
+        // The closing date stays on the card rules so later charges keep finding this statement.
+        due_date: input.due_date,
+        declared_total: input.declared_total,
+        minimum_payment: input.minimum_payment ?? null,
+        obligation_id: input.obligation_id,
+        extraction_id: input.extraction_id ?? null,
+        paid_amount: paidAmount,
+    };
+
+    const { data: statement, error } = await supabase
+        .from('card_statements')
+        .update({
+            ...next,
+            status: resolveStatementPaymentStatus(statementTotal({ ...base, ...next }), paidAmount),
+        })
+        .eq('id', base.id)
+        .eq('space_id', spaceId)
+        .select()
+        .single();
+
+    if (error) {
+        logWarn('card_document_statement_failed', { spaceId, statementId: base.id, reason: error.message });
+        return null;
+    }
+
+    return statement as CardStatementRow;
+}
+
+/**
+ * Mirrors a payment made directly on an obligation onto the statement linked to it, if any.
+ */
+export async function applyObligationPaymentToStatement(
+    supabase: SupabaseClient,
+    spaceId: string,
+    obligationId: string,
+    paymentAmount: number
+) {
+    const { data: statement, error } = await supabase
+        .from('card_statements')
+        .select('*')
+        .eq('space_id', spaceId)
+        .eq('obligation_id', obligationId)
+        .maybeSingle();
+
+    if (error) {
+        if (!isMissingCardsTableError(error.message)) {
+            logWarn('card_statement_obligation_lookup_failed', { spaceId, obligationId, reason: error.message });
+        }
+        return null;
+    }
+    if (!statement) return null;
+
+    const paidAmount = roundMoney(toNumber(statement.paid_amount) + paymentAmount);
+    const { data: updated, error: updateError } = await supabase
+        .from('card_statements')
+        .update({
+            paid_amount: paidAmount,
+            status: resolveStatementPaymentStatus(statementTotal(statement as CardStatementRow), paidAmount),
+        })
+        .eq('id', statement.id)
+        .eq('space_id', spaceId)
+        .select()
+        .single();
+
+    if (updateError) {
+        logWarn('card_statement_obligation_payment_failed', { spaceId, obligationId, reason: updateError.message });
+        return null;
+    }
+
+    return updated as CardStatementRow;
+}
@@ -0,0 +1,19 @@
+import { sanitizeEnv } from '@/lib/utils';
+
+// Vercel Cron sends `Authorization: Bearer <CRON_SECRET>`; other schedulers can use `x-cron-secret`.
+export function ensureCronAuthorized(headers: Headers) {
+    const configuredSecret = sanitizeEnv(process.env.CRON_SECRET);
+    if (!configuredSecret) {
+        return { ok: false as const, status: 503, error: 'Falta CRON_SECRET en el entorno.' };
+    }
+
+    const authorization = headers.get('authorization');
+    const receivedSecret = authorization?.startsWith('Bearer ')
+        ? authorization.slice('Bearer '.length)
+        : headers.get('x-cron-secret');
+    if (!receivedSecret || receivedSecret !== configuredSecret) {
+        return { ok: false as const, status: 401, error: 'Cron secret inválido.' };
+    }
+
+    return { ok: true as const };
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+    buildSnapshotRateLookup,
+    fromSnapshotBase,
+    originalAmountAt,
+    paymentFxSnapshot,
+    resolveFxSnapshot,
+    resolveFxSnapshotUpdate,
+    toReportingAmount,
+    toSnapshotBase,
+} from './currency';
+
+describe('resolveFxSnapshot', () => {
+    it('should store base currency rows with rate 1', () => {
+        expect(resolveFxSnapshot({ amount: 1500 })).toEqual({
+            amount: 1500,
+            currency: 'ARS',
+            original_amount: 1500,
+            fx_rate: 1,
+            fx_source: 'base',
+        });
+    });
+
+    it('should convert foreign rows with the given rate', () => {
+        const snapshot = resolveFxSnapshot({ amount: 20, currency: 'USD', fx_rate: 1200.5 });
+        expect(snapshot.amount).toBe(24010);
+        expect(snapshot.original_amount).toBe(20);
+        expect(snapshot.fx_source).toBe('manual');
+    });
+
+    it('should reject foreign rows without a rate', () => {
+        expect(() => resolveFxSnapshot({ amount: 20, currency: 'USD' })).toThrow();
+    });
+});
+
+describe('resolveFxSnapshotUpdate', () => {
+    const existing = { amount: 24000, currency: 'USD', original_amount: 20, fx_rate: 1200, fx_source: 'manual' };
+
+    it('should skip updates that do not touch money fields', () => {
+        expect(resolveFxSnapshotUpdate({}, existing)).toBeNull();
+    });
+
+    it('should keep the original amount when only the rate changes', () => {
+        const snapshot = resolveFxSnapshotUpdate({ fx_rate: 1300 }, existing);
+        expect(snapshot?.amount).toBe(26000);
+        expect(snapshot?.original_amount).toBe(20);
+    });
+});
+
+describe('toSnapshotBase', () => {
+    it('should round-trip a field edited in the row currency', () => {
+        const installment = toSnapshotBase(20.1, 1187.5);
+        expect(installment).toBe(23868.75);
+        expect(toSnapshotBase(fromSnapshotBase(installment, 1187.5), 1187.5)).toBe(installment);
+    });
+});
+
+describe('paymentFxSnapshot', () => {
+    const debt = { amount: 125000, currency: 'USD', original_amount: 100, fx_rate: 1250, fx_source: 'dolarapi' };
+
+    it('should pay a foreign row in its currency at its own rate', () => {
+        expect(paymentFxSnapshot(37500, debt)).toEqual({
+            amount: 37500,
+            currency: 'USD',
+            original_amount: 30,
+            fx_rate: 1250,
+            fx_source: 'dolarapi',
+        });
+        expect(originalAmountAt(125000 - 37500, debt)).toBe(70);
+    });
+
+    it('should keep base rows in ARS', () => {
+        expect(paymentFxSnapshot(500, { amount: 1000 })).toMatchObject({ currency: 'ARS', original_amount: 500, fx_rate: 1 });
+        expect(originalAmountAt(500, { amount: 1000 })).toBe(500);
+    });
+});
+
+describe('toReportingAmount', () => {
+    const rows = [
+        { amount: 10000, date: '2024-01-10', currency: 'USD', original_amount: 10, fx_rate: 1000 },
+        { amount: 24000, date: '2024-03-10', currency: 'USD', original_amount: 20, fx_rate: 1200 },
+    ];
+    const lookup = buildSnapshotRateLookup(rows);
+
+    it('should use the row own snapshot when currencies match', () => {
+        expect(toReportingAmount(rows[1], 'USD', lookup)).toBe(20);
+    });
+
+    it('should convert base rows with the closest previous snapshot', () => {
+        expect(toReportingAmount({ amount: 5000, date: '2024-02-01' }, 'USD', lookup)).toBe(5);
+        expect(toReportingAmount({ amount: 6000, date: '2024-04-01' }, 'USD', lookup)).toBe(5);
+    });
+
+    it('should return null when there is no stored rate', () => {
+        expect(toReportingAmount({ amount: 5000, date: '2024-02-01' }, 'USD', null)).toBeNull();
+    });
+});
@@ -0,0 +1,248 @@
+export type CurrencyCode = 'ARS' | 'USD';
+
+export const BASE_CURRENCY: CurrencyCode = 'ARS';
+export const SUPPORTED_CURRENCIES: CurrencyCode[] = ['ARS', 'USD'];
+export const REPORTING_CURRENCY_STORAGE_KEY = 'finansas-reporting-currency';
+
+export type FxSnapshot = {
+    amount: number;
+    currency: CurrencyCode;
+    original_amount: number;
+    fx_rate: number;
+    fx_source: string;
+};
+
+type FxSnapshotInput = {
+    amount?: number | null;
+    currency?: string | null;
+    original_amount?: number | null;
+    fx_rate?: number | null;
+    fx_source?: string | null;
+};
+
+// Minimal shape of any stored row that carries an FX snapshot (transactions, debts, obligations, recurring rules).
+export type MoneyRow = {
+    amount: number | string;
+    date?: string | null;
+    currency?: string | null;
+    original_amount?: number | string | null;
+    fx_rate?: number | string | null;
+};
+
+export type FxRateLookup = (currency: CurrencyCode, date: string) => number | null;
+
+function toFiniteNumber(value: unknown) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+}
+
+function roundMoney(value: number) {
+    return Number(value.toFixed(2));
+}
+
+export function normalizeCurrency(value: unknown): CurrencyCode {
+    if (typeof value !== 'string') return BASE_CURRENCY;
+    const normalized = value.trim().toUpperCase();
+    if (normalized === 'USD' || normalized === 'U$S' || normalized === 'US$') return 'USD';
+    return BASE_CURRENCY;
+}
+
+/**
+ * Builds the stored FX snapshot for a money row.
+ * `amount` is always persisted in the base currency (ARS). For foreign-currency rows the caller can send
+ * `original_amount` explicitly; otherwise `amount` is interpreted as being expressed in `currency`.
+ */
+export function resolveFxSnapshot(input: FxSnapshotInput): FxSnapshot {
+    const currency = normalizeCurrency(input.currency);
+
+    if (currency === BASE_CURRENCY) {
+        const amount = toFiniteNumber(input.amount ?? input.original_amount);
+        if (amount == null || amount <= 0) {
+            throw new Error('El monto debe ser positivo');
+        }
+
+        return {
+            amount: roundMoney(amount),
+            currency,
+            original_amount: roundMoney(amount),
+            fx_rate: 1,
+            fx_source: input.fx_source?.trim() || 'base',
+        };
+    }
+
+    const originalAmount = toFiniteNumber(input.original_amount ?? input.amount);
+    if (originalAmount == null || originalAmount <= 0) {
+        throw new Error('El monto en moneda original debe ser positivo');
+    }
+
+    const fxRate = toFiniteNumber(input.fx_rate);
+    if (fxRate == null || fxRate <= 0) {
+        throw new Error(`Indicá el tipo de cambio para registrar montos en ${currency}`);
+    }
+
+    return {
+        amount: roundMoney(originalAmount * fxRate),
+        currency,
+        original_amount: roundMoney(originalAmount),
+        fx_rate: fxRate,
+        fx_source: input.fx_source?.trim() || 'manual',
+    };
+}
+
+/**
+ * Recomputes the snapshot for a partial update, or returns null when the update does not touch money fields.
+ * Edits send `amount` in the row currency, so foreign rows fall back to their stored original amount.
+ */
+export function resolveFxSnapshotUpdate(
+    changes: FxSnapshotInput,
+    existing: MoneyRow & { fx_source?: string | null }
+): FxSnapshot | null {
+    const touchesMoney = ['amount', 'currency', 'original_amount', 'fx_rate'].some(
+        (key) => changes[key as keyof FxSnapshotInput] != null
+    );
+    if (!touchesMoney) return null;
+
+    const currency = normalizeCurrency(changes.currency ?? existing.currency);
+    const fallbackAmount = currency === BASE_CURRENCY
+        ? existing.amount
+        : existing.original_amount ?? existing.amount;
+
+    return resolveFxSnapshot({
+        currency,
+        amount: changes.amount ?? toFiniteNumber(fallbackAmount),
+        original_amount: changes.original_amount,
+        fx_rate: changes.fx_rate ?? toFiniteNumber(existing.fx_rate),
+        fx_source: changes.fx_source ?? (changes.fx_rate != null ? 'manual' : existing.fx_source),
+    });
+}
+
+/**
+ * Other money fields of a row (a debt installment, a minimum payment) follow its snapshot: they are entered in the
+ * row currency and stored in ARS at the snapshot rate.
+ */
+export function toSnapshotBase(value: number, fxRate: number) {
+    return roundMoney(value * fxRate);
+}
+
+/** Inverse of `toSnapshotBase`, for forms that edit those fields in the row currency. */
+export function fromSnapshotBase(value: number, fxRate: number) {
+    return fxRate > 0 ? Number((value / fxRate).toFixed(6)) : value;
+}
+
+/** Original amount of a row whose ARS amount changed (a payment lowered it), at the row's own snapshot rate. */
+export function originalAmountAt(amount: number, row: MoneyRow) {
+    const rate = toFiniteNumber(row.fx_rate);
+    if (normalizeCurrency(row.currency) === BASE_CURRENCY || rate == null || rate <= 0) return roundMoney(amount);
+    return roundMoney(amount / rate);
+}
+
+/**
+ * Snapshot of a payment of `amount` ARS toward a stored row: the payment keeps the row currency and rate, so it
+ * lowers the row by the same original amount in reports.
+ */
+export function paymentFxSnapshot(amount: number, row: MoneyRow & { fx_source?: string | null }): FxSnapshot {
+    const currency = normalizeCurrency(row.currency);
+    const rate = toFiniteNumber(row.fx_rate);
+    if (currency === BASE_CURRENCY || rate == null || rate <= 0) return resolveFxSnapshot({ amount });
+
+    return resolveFxSnapshot({
+        currency,
+        amount,
+        original_amount: amount / rate,
+        fx_rate: rate,
+        fx_source: row.fx_source,
+    });
+}
+
+/**
+ * Rate lookup backed only by snapshots already stored on rows: for a given date it returns the closest
+ * snapshot on or before that date (or the earliest later one), never a live quote.
+ */
+export function buildSnapshotRateLookup(rows: MoneyRow[]): FxRateLookup {
+    const byCurrency = new Map<CurrencyCode, Array<{ date: string; rate: number }>>();
+
+    for (const row of rows) {
+        const currency = normalizeCurrency(row.currency);
+        const rate = toFiniteNumber(row.fx_rate);
+        if (currency === BASE_CURRENCY || rate == null || rate <= 0 || !row.date) continue;
+
+        const list = byCurrency.get(currency) || [];
+        list.push({ date: row.date, rate });
+        byCurrency.set(currency, list);
+    }
+
+    byCurrency.forEach((list) => list.sort((a, b) => a.date.localeCompare(b.date)));
+
+    return (currency, date) => {
+        const list = byCurrency.get(currency);
+        if (!list?.length) return null;
+
+        let candidate: number | null = null;
+        for (const snapshot of list) {
+            if (snapshot.date > date) break;
+            candidate = snapshot.rate;
+        }
+
+        return candidate ?? list[0].rate;
+    };
+}
+
+/**
+ * Converts a stored row into the reporting currency using its own snapshot when possible.
+ * Returns null when there is no stored rate to convert with.
+ */
+export function toReportingAmount(row: MoneyRow, reportingCurrency: CurrencyCode, lookup?: FxRateLookup | null) {
+    const baseAmount = toFiniteNumber(row.amount) ?? 0;
+    if (reportingCurrency === BASE_CURRENCY) return baseAmount;
+
+    const rowCurrency = normalizeCurrency(row.currency);
+    const originalAmount = toFiniteNumber(row.original_amount);
+    if (rowCurrency === reportingCurrency && originalAmount != null) return originalAmount;
+
+    const rate = lookup?.(reportingCurrency, row.date || '') ?? null;
+    if (rate == null || rate <= 0) return null;
+    return baseAmount / rate;
+}
+
+export function sumInReportingCurrency(rows: MoneyRow[], reportingCurrency: CurrencyCode, lookup?: FxRateLookup | null) {
+    let total = 0;
+    let missingRates = 0;
+
+    for (const row of rows) {
+        const converted = toReportingAmount(row, reportingCurrency, lookup);
+        if (converted == null) {
+            missingRates += 1;
+            continue;
+        }
+        total += converted;
+    }
+
+    return { total, missingRates };
+}
+
+export function formatMoneyIn(amount: number, currency: CurrencyCode, maximumFractionDigits = 2) {
+    return new Intl.NumberFormat('es-AR', {
+        style: 'currency',
+        currency,
+        minimumFractionDigits: Math.min(2, maximumFractionDigits),
+        maximumFractionDigits,
+    }).format(amount);
+}
+
+export function getStoredReportingCurrency(): CurrencyCode {
+    if (typeof window === 'undefined') return BASE_CURRENCY;
+    try {
+        return normalizeCurrency(window.localStorage.getItem(REPORTING_CURRENCY_STORAGE_KEY));
+    } catch {
+        return BASE_CURRENCY;
+    }
+}
+
+export function storeReportingCurrency(currency: CurrencyCode) {
+    if (typeof window === 'undefined') return;
+    try {
+        window.localStorage.setItem(REPORTING_CURRENCY_STORAGE_KEY, currency);
+    } catch {
+        // no-op
+    }
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { monthlyRate, payoffOrder, simulatePayoff, type PayoffDebtRow } from './debt-payoff';
+
+const debts: PayoffDebtRow[] = [
+    { id: 'prestamo', name: 'Préstamo', total_amount: 1000, monthly_payment: 100, annual_rate: 0 },
+    { id: 'tarjeta', name: 'Tarjeta', total_amount: 3000, monthly_payment: 100, annual_rate: 24 },
+];
+
+describe('monthlyRate', () => {
+    it('should split a nominal rate and compound an effective one', () => {
+        expect(monthlyRate(24)).toBeCloseTo(0.02, 10);
+        expect(monthlyRate(12.682503, 'tea')).toBeCloseTo(0.01, 6);
+        expect(monthlyRate(null)).toBe(0);
+    });
+});
+
+describe('simulatePayoff', () => {
+    it('should send the extra budget to the highest rate first with avalanche', () => {
+        const plan = simulatePayoff(debts, { strategy: 'avalanche', extra_monthly: 100, custom_order: [] }, '2026-01-15');
+
+        expect(plan.order).toEqual(['tarjeta', 'prestamo']);
+        expect(plan.months[0]).toMatchObject({ month: '2026-01', interest: 60, paid: 300, balances: { tarjeta: 2860, prestamo: 900 } });
+        expect(plan.next_payments).toEqual([
+            { debt_id: 'tarjeta', name: 'Tarjeta', amount: 200, minimum: 100, extra: 100 },
+            { debt_id: 'prestamo', name: 'Préstamo', amount: 100, minimum: 100, extra: 0 },
+        ]);
+        expect(plan.payoff_month).not.toBeNull();
+    });
+
+    it('should roll a settled debt payment over and cost more interest with snowball', () => {
+        const avalanche = simulatePayoff(debts, { strategy: 'avalanche', extra_monthly: 100, custom_order: [] }, '2026-01-15');
+        const snowball = simulatePayoff(debts, { strategy: 'snowball', extra_monthly: 100, custom_order: [] }, '2026-01-15');
+
+        expect(snowball.order).toEqual(['prestamo', 'tarjeta']);
+        // 1000 at 200 a month is gone in May; from June the tarjeta gets the whole 300.
+        expect(snowball.debts.find((debt) => debt.debt_id === 'prestamo')?.payoff_month).toBe('2026-05');
+        expect(snowball.months[5].paid).toBe(300);
+        expect(snowball.total_interest).toBeGreaterThan(avalanche.total_interest);
+        expect(avalanche.total_paid).toBeCloseTo(4000 + avalanche.total_interest, 2);
+    });
+
+    it('should keep a custom order and stop when the budget never covers the interest', () => {
+        expect(payoffOrder(debts, 'custom', ['prestamo', 'desconocida'])).toEqual(['prestamo', 'tarjeta']);
+
+        const plan = simulatePayoff(
+            [{ id: 'usura', name: 'Usura', total_amount: 1000, monthly_payment: 50, annual_rate: 120 }],
+            { strategy: 'avalanche', extra_monthly: 0, custom_order: [] },
+            '2026-01-01'
+        );
+        expect(plan.payoff_month).toBeNull();
+        expect(plan.months).toHaveLength(600);
+        expect(plan.debts[0].payoff_month).toBeNull();
+    });
+});
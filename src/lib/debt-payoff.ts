@@ -0,0 +1,265 @@
+export const PAYOFF_SETTINGS_STORAGE_KEY = 'finansas-payoff-plan';
+// 50 years: a budget that never covers the interest stops here instead of looping forever.
+export const MAX_PAYOFF_MONTHS = 600;
+
+export type DebtRateKind = 'tna' | 'tea';
+export type PayoffStrategy = 'avalanche' | 'snowball' | 'custom';
+
+export const PAYOFF_STRATEGIES: PayoffStrategy[] = ['avalanche', 'snowball', 'custom'];
+
+export const PAYOFF_STRATEGY_LABELS: Record<PayoffStrategy, string> = {
+    avalanche: 'Avalancha (mayor tasa primero)',
+    snowball: 'Bola de nieve (menor saldo primero)',
+    custom: 'Orden propio',
+};
+
+export const DEBT_RATE_KIND_LABELS: Record<DebtRateKind, string> = {
+    tna: 'TNA / APR (nominal)',
+    tea: 'TEA (efectiva)',
+};
+
+/**
+ * Planner setting kept in localStorage: the extra monthly budget on top of the minimum payments and, for the
+ * custom strategy, the debt ids in payoff order.
+ */
+export type PayoffSettings = {
+    strategy: PayoffStrategy;
+    extra_monthly: number;
+    custom_order: string[];
+};
+
+export const DEFAULT_PAYOFF_SETTINGS: PayoffSettings = {
+    strategy: 'avalanche',
+    extra_monthly: 0,
+    custom_order: [],
+};
+
+// Minimal shape of a stored debt; `total_amount` is the outstanding balance in ARS.
+export type PayoffDebtRow = {
+    id?: string;
+    name: string;
+    total_amount: number | string;
+    monthly_payment: number | string;
+    annual_rate?: number | string | null;
+    rate_kind?: DebtRateKind | string | null;
+};
+
+export type PayoffMonth = {
+    month: string;
+    balances: Record<string, number>;
+    total_balance: number;
+    interest: number;
+    paid: number;
+};
+
+export type PayoffDebtResult = {
+    debt_id: string;
+    name: string;
+    payoff_month: string | null;
+    interest: number;
+};
+
+export type PayoffPayment = {
+    debt_id: string;
+    name: string;
+    amount: number;
+    minimum: number;
+    extra: number;
+};
+
+export type PayoffPlan = {
+    strategy: PayoffStrategy;
+    order: string[];
+    months: PayoffMonth[];
+    debts: PayoffDebtResult[];
+    total_interest: number;
+    total_paid: number;
+    payoff_month: string | null;
+    // Payments of the first month, the ones the copilot suggests this week.
+    next_payments: PayoffPayment[];
+};
+
+function toNumber(value: unknown) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function round(value: number) {
+    return Math.round(value * 100) / 100;
+}
+
+function addMonths(month: string, count: number) {
+    const [year, monthIndex] = month.split('-').map(Number);
+    const date = new Date(Date.UTC(year, monthIndex - 1 + count, 1));
+    return date.toISOString().slice(0, 7);
+}
+
+/** Monthly rate of an annual one: a nominal rate (TNA/APR) splits in 12, an effective one (TEA) compounds. */
+export function monthlyRate(annualRate: number | string | null | undefined, kind: DebtRateKind | string | null | undefined = 'tna') {
+    const annual = toNumber(annualRate) / 100;
+    if (annual <= 0) return 0;
+    return kind === 'tea' ? Math.pow(1 + annual, 1 / 12) - 1 : annual / 12;
+}
+
+/**
+ * Order in which the extra budget goes to the debts. Avalanche takes the highest rate first, snowball the smallest
+ * balance; ties fall back to the other criterion. A custom order keeps the listed ids and appends the rest as
+ * avalanche would.
+ */
+export function payoffOrder(debts: PayoffDebtRow[], strategy: PayoffStrategy, customOrder: string[] = []) {
+    const rows = debts.filter((debt): debt is PayoffDebtRow & { id: string } => Boolean(debt.id));
+    const byRate = (a: PayoffDebtRow, b: PayoffDebtRow) => monthlyRate(b.annual_rate, b.rate_kind) - monthlyRate(a.annual_rate, a.rate_kind);
+    const byBalance = (a: PayoffDebtRow, b: PayoffDebtRow) => toNumber(a.total_amount) - toNumber(b.total_amount);
+
+    if (strategy === 'snowball') {
+        return [...rows].sort((a, b) => byBalance(a, b) || byRate(a, b)).map((debt) => debt.id);
+    }
+
+    const avalanche = [...rows].sort((a, b) => byRate(a, b) || byBalance(a, b)).map((debt) => debt.id);
+    if (strategy === 'avalanche') return avalanche;
+
+    const known = new Set(avalanche);
+    const listed = customOrder.filter((id, index) => known.has(id) && customOrder.indexOf(id) === index);
+    return [...listed, ...avalanche.filter((id) => !listed.includes(id))];
+}
+
+/**
+ * Month-by-month payoff: interest accrues on each balance, every debt gets its minimum payment and whatever is left
+ * of the budget (the minimums plus `extraMonthly`) goes to the first debt of the order still open. The budget stays
+ * constant, so the payment of a settled debt rolls over to the next one. Month one is the month of `today`.
+ */
+export function simulatePayoff(
+    debts: PayoffDebtRow[],
+    settings: Pick<PayoffSettings, 'strategy' | 'extra_monthly' | 'custom_order'>,
+    today: string
+): PayoffPlan {
+    const open = debts.filter((debt) => debt.id && toNumber(debt.total_amount) > 0);
+    const order = payoffOrder(open, settings.strategy, settings.custom_order);
+    const byId = new Map(open.map((debt) => [debt.id as string, debt]));
+    const balances = new Map(order.map((id) => [id, toNumber(byId.get(id)?.total_amount)]));
+    const interestByDebt = new Map(order.map((id) => [id, 0]));
+    const payoffMonth = new Map<string, string>();
+    const budget = order.reduce((sum, id) => sum + Math.max(toNumber(byId.get(id)?.monthly_payment), 0), 0)
+        + Math.max(toNumber(settings.extra_monthly), 0);
+
+    const months: PayoffMonth[] = [];
+    let nextPayments: PayoffPayment[] = [];
+    let month = today.slice(0, 7);
+    let totalPaid = 0;
+
+    for (let index = 0; index < MAX_PAYOFF_MONTHS && order.some((id) => (balances.get(id) || 0) > 0); index += 1) {
+        let interest = 0;
+        for (const id of order) {
+            const balance = balances.get(id) || 0;
+            if (balance <= 0) continue;
+            const debt = byId.get(id) as PayoffDebtRow;
+            const accrued = round(balance * monthlyRate(debt.annual_rate, debt.rate_kind));
+            balances.set(id, balance + accrued);
+            interestByDebt.set(id, (interestByDebt.get(id) || 0) + accrued);
+            interest += accrued;
+        }
+
+        const payments = new Map<string, { minimum: number; extra: number }>();
+        let available = budget;
+        for (const id of order) {
+            const balance = balances.get(id) || 0;
+            if (balance <= 0) continue;
+            const minimum = Math.min(Math.max(toNumber(byId.get(id)?.monthly_payment), 0), balance, available);
+            available -= minimum;
+            payments.set(id, { minimum, extra: 0 });
+        }
+        for (const id of order) {
+            if (available <= 0) break;
+            const payment = payments.get(id);
+            if (!payment) continue;
+            const extra = Math.min(available, (balances.get(id) || 0) - payment.minimum);
+            payment.extra = extra;
+            available -= extra;
+        }
+
+        let paid = 0;
+        payments.forEach((payment, id) => {
+            const amount = payment.minimum + payment.extra;
+            const balance = round((balances.get(id) || 0) - amount);
+            balances.set(id, balance > 0.005 ? balance : 0);
+            if (balance <= 0.005 && !payoffMonth.has(id)) payoffMonth.set(id, month);
+            paid += amount;
+        });
+
+        if (index === 0) {
+            nextPayments = order.filter((id) => payments.has(id)).map((id) => {
+                const payment = payments.get(id) as { minimum: number; extra: number };
+                return {
+                    debt_id: id,
+                    name: String(byId.get(id)?.name || ''),
+                    amount: round(payment.minimum + payment.extra),
+                    minimum: round(payment.minimum),
+                    extra: round(payment.extra),
+                };
+            });
+        }
+
+        totalPaid += paid;
+        months.push({
+            month,
+            balances: Object.fromEntries(order.map((id) => [id, round(balances.get(id) || 0)])),
+            total_balance: round(order.reduce((sum, id) => sum + (balances.get(id) || 0), 0)),
+            interest: round(interest),
+            paid: round(paid),
+        });
+        month = addMonths(month, 1);
+    }
+
+    const settled = order.every((id) => payoffMonth.has(id));
+    return {
+        strategy: settings.strategy,
+        order,
+        months,
+        debts: order.map((id) => ({
+            debt_id: id,
+            name: String(byId.get(id)?.name || ''),
+            payoff_month: payoffMonth.get(id) || null,
+            interest: round(interestByDebt.get(id) || 0),
+        })),
+        total_interest: round(Array.from(interestByDebt.values()).reduce((sum, value) => sum + value, 0)),
+        total_paid: round(totalPaid),
+        payoff_month: settled && months.length ? months[months.length - 1].month : null,
+        next_payments: nextPayments,
+    };
+}
+
+export function isMissingDebtRateColumnError(message?: string | null) {
+    if (!message) return false;
+    const value = message.toLowerCase();
+    return (value.includes('annual_rate') || value.includes('rate_kind'))
+        && (value.includes('schema cache') || value.includes('does not exist'));
+}
+
+export function parsePayoffSettings(value: unknown): PayoffSettings {
+    const raw = (value && typeof value === 'object' ? value : {}) as Partial<PayoffSettings>;
+    const extra = Number(raw.extra_monthly);
+    return {
+        strategy: PAYOFF_STRATEGIES.includes(raw.strategy as PayoffStrategy) ? raw.strategy as PayoffStrategy : DEFAULT_PAYOFF_SETTINGS.strategy,
+        extra_monthly: Number.isFinite(extra) && extra > 0 ? extra : 0,
+        custom_order: Array.isArray(raw.custom_order) ? raw.custom_order.filter((id): id is string => typeof id === 'string') : [],
+    };
+}
+
+export function getStoredPayoffSettings(): PayoffSettings {
+    if (typeof window === 'undefined') return DEFAULT_PAYOFF_SETTINGS;
+    try {
+        const stored = window.localStorage.getItem(PAYOFF_SETTINGS_STORAGE_KEY);
+        return stored ? parsePayoffSettings(JSON.parse(stored)) : DEFAULT_PAYOFF_SETTINGS;
+    } catch {
+        return DEFAULT_PAYOFF_SETTINGS;
+    }
+}
+
+export function storePayoffSettings(settings: PayoffSettings) {
+    if (typeof window === 'undefined') return;
+    try {
+        window.localStorage.setItem(PAYOFF_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch {
+        // no-op
+    }
+}
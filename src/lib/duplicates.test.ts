@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+    buildTransactionFingerprint,
+    descriptionSimilarity,
+    findDuplicateMatches,
+    normalizeDuplicateDescription,
+    scoreDuplicate,
+    type DuplicateConfig,
+    type StoredTransaction,
+} from './duplicates';
+
+const config: DuplicateConfig = { windowDays: 3, amountTolerance: 0.01, threshold: 0.7 };
+
+function stored(id: string, overrides: Partial<StoredTransaction> = {}): StoredTransaction {
+    return {
+        id,
+        date: '2024-03-10',
+        type: 'expense',
+        amount: 15000,
+        currency: 'ARS',
+        original_amount: 15000,
+        account_id: 'acc-1',
+        description: 'Supermercado Día',
+        ...overrides,
+    };
+}
+
+describe('normalizeDuplicateDescription', () => {
+    it('should drop accents, punctuation and the recurring suffix', () => {
+        expect(normalizeDuplicateDescription('Netflix.com (Recurrente)')).toBe('netflix com');
+        expect(normalizeDuplicateDescription('  Pagó   Súper-Día ')).toBe('pago super dia');
+    });
+});
+
+describe('buildTransactionFingerprint', () => {
+    it('should use the original amount so a USD re-import at another rate keeps its fingerprint', () => {
+        const first = buildTransactionFingerprint({ date: '2024-03-10', type: 'expense', amount: 10500, currency: 'USD', original_amount: 10, account_id: 'a', description: 'Spotify' });
+        const second = buildTransactionFingerprint({ date: '2024-03-10', type: 'expense', amount: 11000, currency: 'USD', original_amount: 10, account_id: 'a', description: 'SPOTIFY' });
+
+        expect(first).toBe(second);
+        expect(first).toBe('2024-03-10|expense|USD|10.00|a|spotify');
+    });
+});
+
+describe('scoreDuplicate', () => {
+    it('should require the window and tolerance and weight the description', () => {
+        const base = stored('x');
+
+        expect(scoreDuplicate({ ...base, date: '2024-03-14' }, base, config)).toBeNull();
+        expect(scoreDuplicate({ ...base, amount: 15300, original_amount: 15300 }, base, config)).toBeNull();
+        expect(scoreDuplicate({ ...base, account_id: 'acc-2' }, base, config)).toBeNull();
+        expect(scoreDuplicate({ ...base, description: 'SUPERMERCADO DIA SA', date: '2024-03-11' }, base, config)).toBeGreaterThan(0.7);
+        expect(scoreDuplicate({ ...base, description: 'Farmacia' }, base, config)).toBeLessThan(0.7);
+    });
+
+    it('should compare descriptions by shared words', () => {
+        expect(descriptionSimilarity('Netflix (Recurrente)', 'NETFLIX.COM')).toBeCloseTo(2 / 3);
+        expect(descriptionSimilarity('', 'Netflix')).toBe(0);
+    });
+});
+
+describe('findDuplicateMatches', () => {
+    it('should match each stored movement once so repeated rows in a file are not all skipped', () => {
+        const existing = [stored('a'), stored('b', { external_id: 'FIT-9', description: 'Transferencia', date: '2024-03-12' })];
+        const candidates = [
+            stored('new-1'),
+            stored('new-2'),
+            { ...stored('new-3'), description: 'Otra descripción', date: '2024-03-01', external_id: 'FIT-9' },
+        ];
+
+        const matches = findDuplicateMatches(candidates, existing, config);
+
+        expect(matches).toEqual([
+            { index: 0, match_id: 'a', score: 1, reason: 'fingerprint' },
+            { index: 2, match_id: 'b', score: 1, reason: 'external_id' },
+        ]);
+    });
+
+    it('should flag near matches with their score', () => {
+        const existing = [stored('a', { description: 'Netflix (Recurrente)', amount: 5000, original_amount: 5000 })];
+        const candidates = [stored('n', { description: 'NETFLIX.COM', amount: 5000, original_amount: 5000, date: '2024-03-11' })];
+
+        const [match] = findDuplicateMatches(candidates, existing, config);
+
+        expect(match).toMatchObject({ index: 0, match_id: 'a', reason: 'fuzzy' });
+        expect(match.score).toBeGreaterThanOrEqual(0.7);
+    });
+});
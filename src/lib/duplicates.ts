@@ -0,0 +1,339 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logWarn } from '@/lib/observability';
+import { normalizeCurrency } from '@/lib/currency';
+
+export type DuplicateReason = 'fingerprint' | 'external_id' | 'fuzzy';
+
+export type DuplicateCandidate = {
+    date: string;
+    type: string;
+    amount: number | string;
+    currency?: string | null;
+    original_amount?: number | string | null;
+    account_id?: string | null;
+    description?: string | null;
+    external_id?: string | null;
+};
+
+export type StoredTransaction = DuplicateCandidate & {
+    id: string;
+    fingerprint?: string | null;
+};
+
+export type DuplicateMatch = {
+    index: number;
+    match_id: string;
+    score: number;
+    reason: DuplicateReason;
+};
+
+export type DuplicateConfig = {
+    windowDays: number;
+    // Relative amount difference still considered the same movement (0.01 = 1%).
+    amountTolerance: number;
+    threshold: number;
+};
+
+export type DuplicateReviewEntry = {
+    transaction_id: string;
+    duplicate_of_id: string;
+    score: number;
+    reason: DuplicateReason;
+};
+
+export type DuplicateReviewTransaction = {
+    id: string;
+    date: string;
+    type: 'income' | 'expense' | 'transfer';
+    amount: number;
+    currency?: string | null;
+    original_amount?: number | null;
+    fx_rate?: number | null;
+    description: string;
+    category: string;
+    account_id?: string | null;
+    external_id?: string | null;
+    created_at?: string;
+};
+
+// A pending pair as returned by GET /api/transactions/duplicates: `transaction` is the newer movement.
+export type DuplicateReview = {
+    id: string;
+    score: number;
+    reason: DuplicateReason;
+    source: string | null;
+    created_at: string;
+    transaction: DuplicateReviewTransaction | null;
+    original: DuplicateReviewTransaction | null;
+};
+
+export const DUPLICATE_FUZZY_THRESHOLD = 0.7;
+
+const DUPLICATE_SELECT = 'id, date, type, amount, currency, original_amount, account_id, description, fingerprint, external_id';
+const PAGE_SIZE = 1000;
+const MAX_PAGES = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseNumber(raw: string | undefined, fallback: number) {
+    const parsed = Number(raw);
+    if (raw == null || raw === '' || !Number.isFinite(parsed)) return fallback;
+    return Math.max(0, parsed);
+}
+
+export function resolveDuplicateConfig(): DuplicateConfig {
+    return {
+        windowDays: Math.floor(parseNumber(process.env.DUPLICATE_DATE_WINDOW_DAYS, 3)),
+        amountTolerance: parseNumber(process.env.DUPLICATE_AMOUNT_TOLERANCE_PERCENT, 1) / 100,
+        threshold: DUPLICATE_FUZZY_THRESHOLD,
+    };
+}
+
+/**
+ * Mirrors normalize_transaction_description() in supabase-duplicates.sql: the stored fingerprint and the one
+ * computed here must agree for re-imports to be recognized.
+ */
+export function normalizeDuplicateDescription(value?: string | null) {
+    return (value || '')
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/\s*\(recurrente\)\s*$/, '')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim()
+        .slice(0, 80);
+}
+
+function originalAmount(row: DuplicateCandidate) {
+    return Math.abs(Number(row.original_amount ?? row.amount) || 0);
+}
+
+export function buildTransactionFingerprint(row: DuplicateCandidate) {
+    return [
+        row.date.slice(0, 10),
+        row.type,
+        normalizeCurrency(row.currency),
+        originalAmount(row).toFixed(2),
+        row.account_id || '',
+        normalizeDuplicateDescription(row.description),
+    ].join('|');
+}
+
+/**
+ * Dice coefficient over the words of both descriptions, so "NETFLIX.COM" and "Netflix (Recurrente)" still match.
+ */
+export function descriptionSimilarity(a?: string | null, b?: string | null) {
+    const left = Array.from(new Set(normalizeDuplicateDescription(a).split(' ').filter(Boolean)));
+    const right = new Set(normalizeDuplicateDescription(b).split(' ').filter(Boolean));
+    if (!left.length || !right.size) return 0;
+
+    const shared = left.filter((token) => right.has(token)).length;
+    return (2 * shared) / (left.length + right.size);
+}
+
+function daysBetween(a: string, b: string) {
+    const left = Date.parse(`${a.slice(0, 10)}T00:00:00.000Z`);
+    const right = Date.parse(`${b.slice(0, 10)}T00:00:00.000Z`);
+    return Math.round(Math.abs(left - right) / DAY_MS);
+}
+
+function accountsCompatible(a?: string | null, b?: string | null) {
+    return !a || !b || a === b;
+}
+
+/**
+ * Scores how likely `candidate` repeats `existing`: same type and account, dates inside the window and
+ * amounts inside the tolerance are required; the description carries half of the score.
+ */
+export function scoreDuplicate(candidate: DuplicateCandidate, existing: DuplicateCandidate, config: DuplicateConfig) {
+    if (candidate.type !== existing.type) return null;
+    if (!accountsCompatible(candidate.account_id, existing.account_id)) return null;
+
+    const dayDiff = daysBetween(candidate.date, existing.date);
+    if (dayDiff > config.windowDays) return null;
+
+    const sameCurrency = normalizeCurrency(candidate.currency) === normalizeCurrency(existing.currency);
+    const left = sameCurrency ? originalAmount(candidate) : Math.abs(Number(candidate.amount) || 0);
+    const right = sameCurrency ? originalAmount(existing) : Math.abs(Number(existing.amount) || 0);
+    const largest = Math.max(left, right);
+    if (!(largest > 0)) return null;
+
+    const amountDiff = Math.abs(left - right) / largest;
+    if (amountDiff > config.amountTolerance) return null;
+
+    const amountScore = config.amountTolerance > 0 ? 1 - amountDiff / config.amountTolerance : 1;
+    const dateScore = 1 - dayDiff / (config.windowDays + 1);
+    const score = 0.5 * descriptionSimilarity(candidate.description, existing.description) + 0.3 * dateScore + 0.2 * amountScore;
+    return Number(score.toFixed(3));
+}
+
+/**
+ * Pairs each candidate with at most one stored movement, and each stored movement with at most one candidate,
+ * so a file with two identical coffees on the same day is matched against two stored ones, not one.
+ * Exact matches (bank id or fingerprint) are resolved before fuzzy ones.
+ */
+export function findDuplicateMatches(
+    candidates: DuplicateCandidate[],
+    existing: StoredTransaction[],
+    config: DuplicateConfig = resolveDuplicateConfig()
+): DuplicateMatch[] {
+    const used = new Set<string>();
+    const matches: DuplicateMatch[] = [];
+    const pending: number[] = [];
+
+    const byFingerprint = new Map<string, StoredTransaction[]>();
+    existing.forEach((row) => {
+        const key = row.fingerprint || buildTransactionFingerprint(row);
+        byFingerprint.set(key, [...(byFingerprint.get(key) || []), row]);
+    });
+
+    candidates.forEach((candidate, index) => {
+        const externalId = candidate.external_id?.trim();
+        const byExternalId = externalId
+            ? existing.find((row) => !used.has(row.id)
+                && row.external_id === externalId
+                && accountsCompatible(candidate.account_id, row.account_id))
+            : undefined;
+        if (byExternalId) {
+            used.add(byExternalId.id);
+            matches.push({ index, match_id: byExternalId.id, score: 1, reason: 'external_id' });
+            return;
+        }
+
+        const sameFingerprint = (byFingerprint.get(buildTransactionFingerprint(candidate)) || [])
+            .find((row) => !used.has(row.id));
+        if (sameFingerprint) {
+            used.add(sameFingerprint.id);
+            matches.push({ index, match_id: sameFingerprint.id, score: 1, reason: 'fingerprint' });
+            return;
+        }
+
+        pending.push(index);
+    });
+
+    pending.forEach((index) => {
+        const best = existing.reduce<{ id: string; score: number } | null>((current, row) => {
+            if (used.has(row.id)) return current;
+            const score = scoreDuplicate(candidates[index], row, config);
+            if (score == null || score < config.threshold) return current;
+            return !current || score > current.score ? { id: row.id, score } : current;
+        }, null);
+
+        if (best) {
+            used.add(best.id);
+            matches.push({ index, match_id: best.id, score: best.score, reason: 'fuzzy' });
+        }
+    });
+
+    return matches.sort((a, b) => a.index - b.index);
+}
+
+export function isMissingDuplicatesTableError(message?: string | null) {
+    if (!message) return false;
+    const value = message.toLowerCase();
+    return (value.includes('transaction_duplicates') || value.includes('fingerprint') || value.includes('external_id'))
+        && (value.includes('schema cache') || value.includes('does not exist'));
+}
+
+/**
+ * Loads the space's movements around `dates`, paging past the API row limit.
+ */
+export async function loadDuplicateWindow(
+    supabase: SupabaseClient,
+    spaceId: string,
+    dates: string[],
+    windowDays: number
+): Promise<StoredTransaction[]> {
+    if (!dates.length) return [];
+    const sorted = dates.map((date) => date.slice(0, 10)).sort();
+    const shift = (date: string, days: number) => new Date(Date.parse(`${date}T00:00:00.000Z`) + days * DAY_MS).toISOString().slice(0, 10);
+    const from = shift(sorted[0], -windowDays);
+    const to = shift(sorted[sorted.length - 1], windowDays);
+
+    const rows: StoredTransaction[] = [];
+    for (let page = 0; page < MAX_PAGES; page += 1) {
+        const { data, error } = await supabase
+            .from('transactions')
+            .select(DUPLICATE_SELECT)
+            .eq('space_id', spaceId)
+            .gte('date', from)
+            .lte('date', to)
+            .order('date', { ascending: true })
+            .order('id', { ascending: true })
+            .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+        if (error) {
+            logWarn('duplicate_window_load_failed', { spaceId, reason: error.message });
+            return rows;
+        }
+
+        rows.push(...((data || []) as StoredTransaction[]));
+        if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return rows;
+}
+
+/**
+ * Adds suspected duplicates to the review queue. Pairs already queued (or dismissed) are left as they are.
+ */
+export async function queueDuplicateReviews(
+    supabase: SupabaseClient,
+    params: { spaceId: string; userId: string; source: string; entries: DuplicateReviewEntry[] }
+) {
+    if (!params.entries.length) return 0;
+
+    const { data, error } = await supabase
+        .from('transaction_duplicates')
+        .upsert(
+            params.entries.map((entry) => ({
+                ...entry,
+                space_id: params.spaceId,
+                user_id: params.userId,
+                source: params.source,
+            })),
+            { onConflict: 'transaction_id,duplicate_of_id', ignoreDuplicates: true }
+        )
+        .select('id');
+
+    if (error) {
+        logWarn(isMissingDuplicatesTableError(error.message) ? 'duplicates_table_missing_skip_queue' : 'duplicates_queue_failed', {
+            spaceId: params.spaceId,
+            userId: params.userId,
+            source: params.source,
+            reason: error.message,
+        });
+        return 0;
+    }
+
+    return data?.length || 0;
+}
+
+/**
+ * Checks rows that were just inserted against the rest of the space and queues the suspected duplicates.
+ * Used by writers that cannot skip rows up front (recurring runner, document confirmations).
+ */
+export async function flagInsertedDuplicates(
+    supabase: SupabaseClient,
+    params: { spaceId: string; userId: string; source: string; rows: StoredTransaction[] }
+) {
+    const rows = params.rows.filter((row) => row?.id && row.type !== 'transfer');
+    if (!rows.length) return 0;
+
+    const config = resolveDuplicateConfig();
+    const insertedIds = new Set(rows.map((row) => row.id));
+    const existing = (await loadDuplicateWindow(supabase, params.spaceId, rows.map((row) => row.date), config.windowDays))
+        .filter((row) => !insertedIds.has(row.id));
+
+    const matches = findDuplicateMatches(rows, existing, config);
+    return queueDuplicateReviews(supabase, {
+        spaceId: params.spaceId,
+        userId: params.userId,
+        source: params.source,
+        entries: matches.map((match) => ({
+            transaction_id: rows[match.index].id,
+            duplicate_of_id: match.match_id,
+            score: match.score,
+            reason: match.reason,
+        })),
+    });
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+    chainRateProviders,
+    createDolarApiProvider,
+    createEnvRateProvider,
+    createFixtureRateProvider,
+    createManualRateProvider,
+    createMemoryFxRateStore,
+    getExchangeRate,
+    refreshDailyQuotes,
+    type ExchangeRateProvider,
+} from './exchange-rates';
+
+const fixtures = [
+    { currency: 'USD' as const, rateType: 'oficial' as const, rateDate: '2024-01-02', buy: 800, sell: 840, source: 'fixture' },
+    { currency: 'USD' as const, rateType: 'oficial' as const, rateDate: '2024-02-01', buy: 820, sell: 860, source: 'fixture' },
+    { currency: 'USD' as const, rateType: 'blue' as const, rateDate: '2024-01-02', buy: 1000, sell: 1050, source: 'fixture' },
+];
+
+describe('createFixtureRateProvider', () => {
+    it('should answer with the latest fixture on or before the date', async () => {
+        const provider = createFixtureRateProvider(fixtures);
+        const quote = await provider.getRate({ rateType: 'oficial', date: '2024-01-20' });
+        expect(quote?.sell).toBe(840);
+        expect(quote?.rateDate).toBe('2024-01-20');
+    });
+
+    it('should return null before the first fixture', async () => {
+        const provider = createFixtureRateProvider(fixtures);
+        expect(await provider.getRate({ rateType: 'oficial', date: '2023-12-31' })).toBeNull();
+    });
+});
+
+describe('getExchangeRate', () => {
+    it('should persist provider quotes and reuse them afterwards', async () => {
+        const fixtureProvider = createFixtureRateProvider(fixtures);
+        const provider: ExchangeRateProvider = {
+            name: 'spy',
+            getRate: vi.fn((request) => fixtureProvider.getRate(request)),
+        };
+        const store = createMemoryFxRateStore();
+
+        const first = await getExchangeRate({ store, provider, request: { rateType: 'blue', date: '2024-01-05' } });
+        const second = await getExchangeRate({ store, provider, request: { rateType: 'blue', date: '2024-01-05' } });
+
+        expect(first?.sell).toBe(1050);
+        expect(second).toEqual(first);
+        expect(provider.getRate).toHaveBeenCalledTimes(1);
+        expect(store.quotes).toHaveLength(1);
+    });
+
+    it('should prefer stored rates over the provider', async () => {
+        const store = createMemoryFxRateStore([
+            { currency: 'USD', rateType: 'oficial', rateDate: '2024-02-01', buy: null, sell: 900, source: 'manual' },
+        ]);
+        const quote = await getExchangeRate({
+            store,
+            provider: createFixtureRateProvider(fixtures),
+            request: { rateType: 'oficial', date: '2024-02-01' },
+        });
+        expect(quote?.sell).toBe(900);
+        expect(quote?.source).toBe('manual');
+    });
+});
+
+describe('chainRateProviders', () => {
+    it('should fall through to the next provider', async () => {
+        const provider = chainRateProviders(
+            createFixtureRateProvider([]),
+            createManualRateProvider({ tarjeta: 1500 })
+        );
+        const quote = await provider.getRate({ rateType: 'tarjeta', date: '2024-03-01' });
+        expect(quote?.sell).toBe(1500);
+        expect(quote?.source).toBe('manual');
+    });
+
+    it('should not persist the env fallback', async () => {
+        const store = createMemoryFxRateStore();
+        const provider = chainRateProviders(createFixtureRateProvider([]), createEnvRateProvider({ ARG_USD_OFFICIAL_RATE: '1400' }));
+
+        const quote = await getExchangeRate({ store, provider, request: { rateType: 'oficial', date: '2024-03-01' } });
+
+        expect(quote).toMatchObject({ sell: 1400, source: 'env_fallback', transient: true });
+        expect(store.quotes).toHaveLength(0);
+    });
+});
+
+describe('refreshDailyQuotes', () => {
+    it('should fetch each rate type once and keep days already stored', async () => {
+        const fixtureProvider = createFixtureRateProvider(fixtures);
+        const provider: ExchangeRateProvider = {
+            name: 'spy',
+            getRate: vi.fn((request) => fixtureProvider.getRate(request)),
+        };
+        const stored = createMemoryFxRateStore([
+            { currency: 'USD', rateType: 'oficial', rateDate: '2024-02-05', buy: null, sell: 900, source: 'manual' },
+        ]);
+        const empty = createMemoryFxRateStore();
+
+        const saved = await refreshDailyQuotes({ stores: [stored, empty], provider, date: '2024-02-05' });
+
+        expect(saved).toBe(3);
+        expect(provider.getRate).toHaveBeenCalledTimes(4);
+        expect(stored.quotes.find((quote) => quote.rateType === 'oficial')?.sell).toBe(900);
+        expect(empty.quotes.map((quote) => quote.rateType).sort()).toEqual(['blue', 'oficial']);
+    });
+});
+
+describe('createDolarApiProvider', () => {
+    it('should map rate types to endpoints without hitting the network', async () => {
+        const fetchImpl = vi.fn(async () => new Response(JSON.stringify({ compra: 1100, venta: 1150 })));
+        const provider = createDolarApiProvider({ fetchImpl });
+
+        const quote = await provider.getRate({ rateType: 'mep' });
+
+        expect(fetchImpl).toHaveBeenCalledWith('https://dolarapi.com/v1/dolares/bolsa', expect.any(Object));
+        expect(quote).toMatchObject({ rateType: 'mep', buy: 1100, sell: 1150, source: 'dolarapi_mep' });
+    });
+
+    it('should not answer for past dates', async () => {
+        const fetchImpl = vi.fn();
+        const provider = createDolarApiProvider({ fetchImpl });
+        expect(await provider.getRate({ rateType: 'oficial', date: '2020-01-01' })).toBeNull();
+        expect(fetchImpl).not.toHaveBeenCalled();
+    });
+});
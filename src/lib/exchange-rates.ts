@@ -0,0 +1,308 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logWarn } from '@/lib/observability';
+import type { CurrencyCode } from '@/lib/currency';
+
+export type FxRateType = 'oficial' | 'tarjeta' | 'mep' | 'blue';
+
+export const FX_RATE_TYPES: FxRateType[] = ['oficial', 'tarjeta', 'mep', 'blue'];
+
+export type ExchangeRateQuote = {
+    currency: Exclude<CurrencyCode, 'ARS'>;
+    rateType: FxRateType;
+    rateDate: string;
+    buy: number | null;
+    sell: number;
+    source: string;
+    // Fallback quotes (env vars) are used but never stored, so the real quote of the day can still be saved later.
+    transient?: boolean;
+};
+
+export type ExchangeRateRequest = {
+    currency?: Exclude<CurrencyCode, 'ARS'>;
+    rateType: FxRateType;
+    date?: string;
+};
+
+/**
+ * Source of ARS quotes for a foreign currency. Providers return null when they cannot answer
+ * (unknown rate type, no data for the date, network failure) so they can be chained.
+ */
+export interface ExchangeRateProvider {
+    name: string;
+    getRate(request: ExchangeRateRequest): Promise<ExchangeRateQuote | null>;
+}
+
+export interface FxRateStore {
+    find(request: Required<ExchangeRateRequest>): Promise<ExchangeRateQuote | null>;
+    save(quote: ExchangeRateQuote): Promise<void>;
+}
+
+type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+function todayIso() {
+    return new Date().toISOString().slice(0, 10);
+}
+
+function toPositiveNumber(value: unknown) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+function normalizeRequest(request: ExchangeRateRequest): Required<ExchangeRateRequest> {
+    return {
+        currency: request.currency || 'USD',
+        rateType: request.rateType,
+        date: request.date || todayIso(),
+    };
+}
+
+const DOLARAPI_ENDPOINTS: Record<FxRateType, string> = {
+    oficial: 'oficial',
+    tarjeta: 'tarjeta',
+    mep: 'bolsa',
+    blue: 'blue',
+};
+
+/**
+ * dolarapi.com only publishes the current quote, so requests for past dates are left to the
+ * stored history or the next provider in the chain.
+ */
+export function createDolarApiProvider(options: { fetchImpl?: FetchLike; timeoutMs?: number; baseUrl?: string } = {}): ExchangeRateProvider {
+    const fetchImpl = options.fetchImpl || fetch;
+    const timeoutMs = options.timeoutMs ?? 3500;
+    const baseUrl = options.baseUrl || 'https://dolarapi.com/v1/dolares';
+
+    return {
+        name: 'dolarapi',
+        async getRate(request) {
+            const { currency, rateType, date } = normalizeRequest(request);
+            if (currency !== 'USD' || date !== todayIso()) return null;
+
+            const controller = new AbortController();
+            const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+            try {
+                const response = await fetchImpl(`${baseUrl}/${DOLARAPI_ENDPOINTS[rateType]}`, {
+                    method: 'GET',
+                    cache: 'no-store',
+                    signal: controller.signal,
+                });
+                if (!response.ok) return null;
+
+                const payload = await response.json().catch(() => null);
+                const sell = toPositiveNumber(payload?.venta);
+                if (!sell) return null;
+
+                return {
+                    currency,
+                    rateType,
+                    rateDate: date,
+                    buy: toPositiveNumber(payload?.compra),
+                    sell,
+                    source: `dolarapi_${rateType}`,
+                };
+            } catch (error) {
+                logWarn('fx_provider_dolarapi_failed', {
+                    rateType,
+                    reason: error instanceof Error ? error.message : String(error),
+                });
+                return null;
+            } finally {
+                clearTimeout(timeout);
+            }
+        },
+    };
+}
+
+/**
+ * Rates entered by hand (or configured through env vars such as ARG_USD_OFFICIAL_RATE).
+ * The same value is returned for any date.
+ */
+export function createManualRateProvider(rates: Partial<Record<FxRateType, number | null | undefined>>, source = 'manual'): ExchangeRateProvider {
+    return {
+        name: 'manual',
+        async getRate(request) {
+            const { currency, rateType, date } = normalizeRequest(request);
+            const sell = toPositiveNumber(rates[rateType]);
+            if (!sell) return null;
+
+            return { currency, rateType, rateDate: date, buy: null, sell, source };
+        },
+    };
+}
+
+/** The manual provider fed from ARG_USD_OFFICIAL_RATE; its quotes are transient. */
+export function createEnvRateProvider(env: Record<string, string | undefined> = process.env): ExchangeRateProvider {
+    const manual = createManualRateProvider({ oficial: Number(env.ARG_USD_OFFICIAL_RATE || 1250) }, 'env_fallback');
+
+    return {
+        name: 'env',
+        async getRate(request) {
+            const quote = await manual.getRate(request);
+            return quote ? { ...quote, transient: true } : null;
+        },
+    };
+}
+
+/**
+ * Deterministic provider for tests and offline work: answers with the latest fixture on or before the requested date.
+ */
+export function createFixtureRateProvider(fixtures: ExchangeRateQuote[]): ExchangeRateProvider {
+    const sorted = [...fixtures].sort((a, b) => a.rateDate.localeCompare(b.rateDate));
+
+    return {
+        name: 'fixture',
+        async getRate(request) {
+            const { currency, rateType, date } = normalizeRequest(request);
+            let match: ExchangeRateQuote | null = null;
+
+            for (const fixture of sorted) {
+                if (fixture.currency !== currency || fixture.rateType !== rateType) continue;
+                if (fixture.rateDate > date) break;
+                match = fixture;
+            }
+
+            return match ? { ...match, rateDate: date } : null;
+        },
+    };
+}
+
+export function chainRateProviders(...providers: ExchangeRateProvider[]): ExchangeRateProvider {
+    return {
+        name: providers.map((provider) => provider.name).join('>'),
+        async getRate(request) {
+            for (const provider of providers) {
+                const quote = await provider.getRate(request);
+                if (quote) return quote;
+            }
+            return null;
+        },
+    };
+}
+
+/** Live quotes first and the env fallback last: the chain used wherever today's rate is needed. */
+export function createDefaultRateProvider(): ExchangeRateProvider {
+    return chainRateProviders(createDolarApiProvider(), createEnvRateProvider());
+}
+
+export function createSupabaseFxRateStore(supabase: SupabaseClient, spaceId: string): FxRateStore {
+    return {
+        async find({ currency, rateType, date }) {
+            const { data, error } = await supabase
+                .from('fx_rates')
+                .select('currency, rate_type, rate_date, buy, sell, source')
+                .eq('space_id', spaceId)
+                .eq('currency', currency)
+                .eq('rate_type', rateType)
+                .eq('rate_date', date)
+                .maybeSingle();
+
+            if (error) {
+                logWarn('fx_rate_store_read_failed', { spaceId, rateType, date, reason: error.message });
+                return null;
+            }
+            if (!data) return null;
+
+            return {
+                currency: data.currency,
+                rateType: data.rate_type,
+                rateDate: data.rate_date,
+                buy: toPositiveNumber(data.buy),
+                sell: Number(data.sell),
+                source: data.source,
+            };
+        },
+        async save(quote) {
+            const { error } = await supabase.from('fx_rates').upsert(
+                {
+                    space_id: spaceId,
+                    currency: quote.currency,
+                    rate_type: quote.rateType,
+                    rate_date: quote.rateDate,
+                    buy: quote.buy,
+                    sell: quote.sell,
+                    source: quote.source,
+                },
+                { onConflict: 'space_id,currency,rate_type,rate_date' }
+            );
+
+            if (error) {
+                logWarn('fx_rate_store_write_failed', {
+                    spaceId,
+                    rateType: quote.rateType,
+                    date: quote.rateDate,
+                    reason: error.message,
+                });
+            }
+        },
+    };
+}
+
+export function createMemoryFxRateStore(initial: ExchangeRateQuote[] = []): FxRateStore & { quotes: ExchangeRateQuote[] } {
+    const quotes = [...initial];
+    const keyOf = (quote: { currency: string; rateType: string; rateDate: string }) =>
+        `${quote.currency}|${quote.rateType}|${quote.rateDate}`;
+
+    return {
+        quotes,
+        async find({ currency, rateType, date }) {
+            return quotes.find((quote) => keyOf(quote) === keyOf({ currency, rateType, rateDate: date })) || null;
+        },
+        async save(quote) {
+            const index = quotes.findIndex((stored) => keyOf(stored) === keyOf(quote));
+            if (index >= 0) quotes[index] = quote;
+            else quotes.push(quote);
+        },
+    };
+}
+
+/**
+ * Read-through lookup: a rate already stored for that day always wins, so historical conversions
+ * are reproducible; otherwise the provider is asked and its answer persisted for next time.
+ */
+export async function getExchangeRate(params: {
+    store: FxRateStore | null;
+    provider: ExchangeRateProvider;
+    request: ExchangeRateRequest;
+}): Promise<ExchangeRateQuote | null> {
+    const request = normalizeRequest(params.request);
+
+    const stored = params.store ? await params.store.find(request) : null;
+    if (stored) return stored;
+
+    const quote = await params.provider.getRate(request);
+    if (!quote) return null;
+
+    const normalizedQuote = { ...quote, rateDate: request.date };
+    if (params.store && !quote.transient) {
+        await params.store.save(normalizedQuote);
+    }
+
+    return normalizedQuote;
+}
+
+/**
+ * Stores today's quote of every rate type in each store (one per space). Each quote is fetched once and shared;
+ * days already stored are kept, as `getExchangeRate` would. Returns how many quotes were saved.
+ */
+export async function refreshDailyQuotes(params: {
+    stores: FxRateStore[];
+    provider: ExchangeRateProvider;
+    date?: string;
+}): Promise<number> {
+    let saved = 0;
+
+    for (const rateType of FX_RATE_TYPES) {
+        const request = normalizeRequest({ rateType, date: params.date });
+        const quote = await params.provider.getRate(request);
+        if (!quote || quote.transient) continue;
+
+        for (const store of params.stores) {
+            if (await store.find(request)) continue;
+            await store.save({ ...quote, rateDate: request.date });
+            saved += 1;
+        }
+    }
+
+    return saved;
+}
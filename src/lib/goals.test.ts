@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { goalRuleAllocations, goalTimeline, projectGoal, type GoalContributionRow, type GoalRuleRow } from './goals';
+
+describe('goalRuleAllocations', () => {
+    const rules: GoalRuleRow[] = [
+        { id: 'r1', goal_id: 'trip', category: 'Sueldo', mode: 'percent', value: 10 },
+        { id: 'r2', goal_id: 'fund', category: null, mode: 'fixed', value: 50000 },
+    ];
+    const goals = [
+        { id: 'trip', target_amount: 1000000, current_amount: 0 },
+        { id: 'fund', target_amount: 80000, current_amount: 0 },
+    ];
+
+    it('should take a share of matching incomes and cap each goal at what it is missing', () => {
+        const allocations = goalRuleAllocations(rules, goals, [
+            { id: 't1', type: 'income', amount: 900000, category: 'sueldo', date: '2026-03-01' },
+            { id: 't2', type: 'expense', amount: 20000, category: 'Sueldo', date: '2026-03-02' },
+            { id: 't3', type: 'income', amount: 40000, category: 'Freelance', date: '2026-03-05' },
+        ]);
+
+        expect(allocations).toEqual([
+            { goal_id: 'trip', rule_id: 'r1', transaction_id: 't1', amount: 90000, date: '2026-03-01' },
+            { goal_id: 'fund', rule_id: 'r2', transaction_id: 't1', amount: 50000, date: '2026-03-01' },
+            // A fixed amount never exceeds the income nor what the goal is missing.
+            { goal_id: 'fund', rule_id: 'r2', transaction_id: 't3', amount: 30000, date: '2026-03-05' },
+        ]);
+    });
+
+    it('should skip inactive rules and goals that are already complete', () => {
+        const allocations = goalRuleAllocations(
+            [{ ...rules[0], is_active: false }, rules[1]],
+            [goals[0], { ...goals[1], current_amount: 80000 }],
+            [{ id: 't1', type: 'income', amount: 900000, category: 'Sueldo', date: '2026-03-01' }]
+        );
+        expect(allocations).toEqual([]);
+    });
+});
+
+describe('goal progress', () => {
+    const contributions: GoalContributionRow[] = [
+        { goal_id: 'trip', amount: 100000, date: '2026-01-01', source: 'adjustment' },
+        { goal_id: 'trip', amount: 60000, date: '2026-02-01', source: 'rule' },
+        { goal_id: 'trip', amount: 60000, date: '2026-03-01', source: 'transaction' },
+        { goal_id: 'trip', amount: -20000, date: '2026-03-01', source: 'transaction' },
+    ];
+
+    it('should build a running total per day', () => {
+        expect(goalTimeline(contributions)).toEqual([
+            { date: '2026-01-01', amount: 100000, total: 100000 },
+            { date: '2026-02-01', amount: 60000, total: 160000 },
+            { date: '2026-03-01', amount: 40000, total: 200000 },
+        ]);
+    });
+
+    it('should project completion from the recent pace and compare it with the deadline', () => {
+        const goal = { id: 'trip', target_amount: 500000, current_amount: 200000, deadline: '2026-12-31' };
+        const projection = projectGoal(goal, contributions, '2026-03-31');
+
+        // 100000 over the 59 days since Feb 1 (the opening balance is not pace).
+        expect(projection.remaining).toBe(300000);
+        expect(projection.monthly_pace).toBeCloseTo(100000 / 59 * (365 / 12), 1);
+        expect(projection.projected_date).toBe('2026-09-24');
+        expect(projection.status).toBe('on_track');
+
+        const tight = projectGoal({ ...goal, deadline: '2026-06-30' }, contributions, '2026-03-31');
+        expect(tight.status).toBe('behind');
+        expect(tight.required_monthly).toBeGreaterThan(tight.monthly_pace);
+    });
+
+    it('should report goals without recent contributions and completed goals', () => {
+        const idle = projectGoal({ id: 'trip', target_amount: 500000, deadline: null }, contributions.slice(0, 1), '2026-03-31');
+        expect(idle).toMatchObject({ status: 'no_pace', projected_date: null, remaining: 400000 });
+
+        const done = projectGoal({ id: 'trip', target_amount: 150000 }, contributions, '2026-03-31');
+        expect(done).toMatchObject({ status: 'completed', remaining: 0 });
+    });
+});
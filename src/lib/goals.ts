@@ -0,0 +1,272 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logWarn } from '@/lib/observability';
+import { normalizeCategoryName } from '@/lib/categories';
+
+export type GoalRuleMode = 'percent' | 'fixed';
+export type GoalContributionSource = 'transaction' | 'rule' | 'adjustment';
+
+export type GoalRuleRow = {
+    id: string;
+    goal_id: string;
+    category?: string | null;
+    mode: GoalRuleMode;
+    value: number | string;
+    is_active?: boolean | null;
+};
+
+export type GoalContributionRow = {
+    id?: string;
+    goal_id: string;
+    amount: number | string;
+    date: string;
+    source: GoalContributionSource;
+    transaction_id?: string | null;
+    rule_id?: string | null;
+};
+
+export type GoalProgressRow = {
+    id: string;
+    target_amount: number | string;
+    current_amount?: number | string | null;
+    deadline?: string | null;
+};
+
+// Only what rule matching needs from a movement; `amount` is the ARS base amount.
+export type GoalRuleTransaction = {
+    id: string;
+    type: string;
+    amount: number | string;
+    category?: string | null;
+    date: string;
+};
+
+export type GoalAllocation = {
+    goal_id: string;
+    rule_id: string;
+    transaction_id: string;
+    amount: number;
+    date: string;
+};
+
+export type GoalTimelinePoint = {
+    date: string;
+    amount: number;
+    total: number;
+};
+
+export type GoalProjectionStatus = 'completed' | 'on_track' | 'behind' | 'no_pace';
+
+export type GoalProjection = {
+    goal_id: string;
+    remaining: number;
+    // Average monthly contribution over the pace window (adjustments excluded).
+    monthly_pace: number;
+    projected_date: string | null;
+    // Monthly contribution still needed to reach the target by the deadline.
+    required_monthly: number | null;
+    status: GoalProjectionStatus;
+};
+
+export const GOAL_PACE_WINDOW_DAYS = 90;
+// A goal with a week of history is not projected off that week alone.
+const MIN_PACE_DAYS = 30;
+const DAYS_PER_MONTH = 365 / 12;
+
+export const GOAL_CONTRIBUTION_SOURCE_LABELS: Record<GoalContributionSource, string> = {
+    transaction: 'Movimiento',
+    rule: 'Ahorro automático',
+    adjustment: 'Ajuste',
+};
+
+function toNumber(value: unknown) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function round(value: number) {
+    return Math.round(value * 100) / 100;
+}
+
+function addDays(date: string, days: number) {
+    const base = new Date(`${date}T00:00:00Z`);
+    base.setUTCDate(base.getUTCDate() + days);
+    return base.toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string) {
+    return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+export function describeGoalRule(rule: Pick<GoalRuleRow, 'mode' | 'value' | 'category'>) {
+    const amount = rule.mode === 'percent' ? `${toNumber(rule.value)}%` : `$${toNumber(rule.value).toLocaleString('es-AR')}`;
+    return `${amount} de cada ingreso${rule.category ? ` en ${rule.category}` : ''}`;
+}
+
+/**
+ * Contributions the active rules take from a batch of movements. Only incomes match; a rule without a
+ * category takes from every income. A goal never receives more than it is missing: once a batch fills it
+ * the remaining rules for that goal stop.
+ */
+export function goalRuleAllocations(
+    rules: GoalRuleRow[],
+    goals: GoalProgressRow[],
+    transactions: GoalRuleTransaction[]
+): GoalAllocation[] {
+    const remaining = new Map(goals.map((goal) => [goal.id, toNumber(goal.target_amount) - toNumber(goal.current_amount)]));
+    const activeRules = rules.filter((rule) => rule.is_active !== false && remaining.has(rule.goal_id));
+    const allocations: GoalAllocation[] = [];
+
+    const incomes = transactions
+        .filter((transaction) => transaction.type === 'income' && toNumber(transaction.amount) > 0)
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+    for (const transaction of incomes) {
+        const category = normalizeCategoryName(transaction.category);
+        for (const rule of activeRules) {
+            if (rule.category && normalizeCategoryName(rule.category) !== category) continue;
+
+            const income = toNumber(transaction.amount);
+            const wanted = rule.mode === 'percent' ? income * toNumber(rule.value) / 100 : Math.min(toNumber(rule.value), income);
+            const left = remaining.get(rule.goal_id) ?? 0;
+            const amount = round(Math.min(wanted, left));
+            if (amount <= 0) continue;
+
+            remaining.set(rule.goal_id, left - amount);
+            allocations.push({
+                goal_id: rule.goal_id,
+                rule_id: rule.id,
+                transaction_id: transaction.id,
+                amount,
+                date: transaction.date,
+            });
+        }
+    }
+
+    return allocations;
+}
+
+/** Running total of a goal, one point per day with contributions. */
+export function goalTimeline(contributions: GoalContributionRow[]): GoalTimelinePoint[] {
+    const byDate = new Map<string, number>();
+    for (const contribution of contributions) {
+        byDate.set(contribution.date, (byDate.get(contribution.date) || 0) + toNumber(contribution.amount));
+    }
+
+    let total = 0;
+    return Array.from(byDate.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, amount]) => {
+            total += amount;
+            return { date, amount: round(amount), total: round(total) };
+        });
+}
+
+/**
+ * Projects when a goal is reached at the pace of its recent contributions: the last 90 days (or since the first
+ * contribution, counted as at least 30 days). Adjustments such as the opening balance are not pace.
+ */
+export function projectGoal(goal: GoalProgressRow, contributions: GoalContributionRow[], today: string): GoalProjection {
+    const target = toNumber(goal.target_amount);
+    const current = contributions.length
+        ? contributions.reduce((sum, contribution) => sum + toNumber(contribution.amount), 0)
+        : toNumber(goal.current_amount);
+    const remaining = round(Math.max(target - current, 0));
+
+    const windowStart = addDays(today, -GOAL_PACE_WINDOW_DAYS);
+    const paced = contributions.filter((contribution) => (
+        contribution.source !== 'adjustment' && contribution.date > windowStart && contribution.date <= today
+    ));
+    const firstDate = paced.reduce<string | null>((first, contribution) => (!first || contribution.date < first ? contribution.date : first), null);
+    const paceDays = firstDate ? Math.max(daysBetween(firstDate, today) + 1, MIN_PACE_DAYS) : GOAL_PACE_WINDOW_DAYS;
+    const dailyPace = paced.reduce((sum, contribution) => sum + toNumber(contribution.amount), 0) / paceDays;
+
+    const deadline = goal.deadline ? goal.deadline.slice(0, 10) : null;
+    const daysLeft = deadline ? daysBetween(today, deadline) : null;
+    const requiredMonthly = remaining > 0 && daysLeft != null
+        ? round(remaining / Math.max(daysLeft / DAYS_PER_MONTH, 1))
+        : null;
+
+    if (remaining <= 0) {
+        return { goal_id: goal.id, remaining: 0, monthly_pace: round(dailyPace * DAYS_PER_MONTH), projected_date: null, required_monthly: null, status: 'completed' };
+    }
+    if (dailyPace <= 0) {
+        return { goal_id: goal.id, remaining, monthly_pace: 0, projected_date: null, required_monthly: requiredMonthly, status: 'no_pace' };
+    }
+
+    const projectedDate = addDays(today, Math.ceil(remaining / dailyPace));
+    return {
+        goal_id: goal.id,
+        remaining,
+        monthly_pace: round(dailyPace * DAYS_PER_MONTH),
+        projected_date: projectedDate,
+        required_monthly: requiredMonthly,
+        status: !deadline || projectedDate <= deadline ? 'on_track' : 'behind',
+    };
+}
+
+export function isMissingGoalContributionsTableError(message?: string | null) {
+    if (!message) return false;
+    const value = message.toLowerCase();
+    return (value.includes('goal_contributions') || value.includes('goal_rules'))
+        && (value.includes('schema cache') || value.includes('does not exist'));
+}
+
+/**
+ * Runs the auto-save rules of a space over movements that were just created. Best-effort like the other
+ * post-insert hooks: a failure is logged and never rejects the movements. Allocations are keyed by
+ * (rule, movement), so running it twice over the same rows saves once.
+ */
+export async function applyGoalRules(
+    supabase: SupabaseClient,
+    params: { spaceId: string; userId: string | null; transactions: GoalRuleTransaction[] }
+) {
+    if (!params.transactions.some((transaction) => transaction.type === 'income')) return 0;
+
+    const { data: rules, error: rulesError } = await supabase
+        .from('goal_rules')
+        .select('id, goal_id, category, mode, value, is_active')
+        .eq('space_id', params.spaceId)
+        .eq('is_active', true);
+
+    if (rulesError) {
+        if (!isMissingGoalContributionsTableError(rulesError.message)) {
+            logWarn('goal_rules_load_failed', { spaceId: params.spaceId, reason: rulesError.message });
+        }
+        return 0;
+    }
+    if (!rules?.length) return 0;
+
+    const { data: goals, error: goalsError } = await supabase
+        .from('savings_goals')
+        .select('id, target_amount, current_amount, deadline')
+        .eq('space_id', params.spaceId)
+        .in('id', Array.from(new Set(rules.map((rule: any) => rule.goal_id as string))));
+
+    if (goalsError) {
+        logWarn('goal_rules_goals_load_failed', { spaceId: params.spaceId, reason: goalsError.message });
+        return 0;
+    }
+
+    const allocations = goalRuleAllocations(rules as GoalRuleRow[], (goals || []) as GoalProgressRow[], params.transactions);
+    if (!allocations.length) return 0;
+
+    const { data, error } = await supabase
+        .from('goal_contributions')
+        .upsert(
+            allocations.map((allocation) => ({
+                ...allocation,
+                space_id: params.spaceId,
+                source: 'rule',
+                created_by: params.userId,
+            })),
+            { onConflict: 'rule_id,transaction_id', ignoreDuplicates: true }
+        )
+        .select('id');
+
+    if (error) {
+        logWarn('goal_rules_apply_failed', { spaceId: params.spaceId, reason: error.message });
+        return 0;
+    }
+
+    return data?.length || 0;
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { buildIndexLookup, indexRatio, parseIndexCsv, summarizeIndexSeries } from './indexes';
+
+describe('parseIndexCsv', () => {
+    it('should read daily and monthly dates with either decimal separator', () => {
+        const preview = parseIndexCsv([
+            'fecha;valor',
+            '01/03/2026;1.234,5678',
+            '2026-02;1200,10',
+            '2026-04-01;1300.25',
+        ].join('\n'));
+
+        expect(preview.values).toEqual([
+            { date: '2026-02-01', value: 1200.1 },
+            { date: '2026-03-01', value: 1234.5678 },
+            { date: '2026-04-01', value: 1300.25 },
+        ]);
+        expect(preview.skipped).toEqual([]);
+    });
+
+    it('should report unreadable lines and keep the last value of a repeated date', () => {
+        const preview = parseIndexCsv('2026-01-01,10\n2026-13-01,11\n2026-01-02,-3\n2026-01-01,12');
+
+        expect(preview.values).toEqual([{ date: '2026-01-01', value: 12 }]);
+        expect(preview.skipped.map((row) => row.line)).toEqual([2, 3]);
+    });
+});
+
+describe('buildIndexLookup', () => {
+    const lookup = buildIndexLookup([
+        { series: 'ICL', date: '2026-01-15', value: 10 },
+        { series: 'ICL', date: '2026-01-01', value: 8 },
+        { series: 'IPC', date: '2026-01-01', value: 100 },
+    ]);
+
+    it('should use the last value published on or before the date', () => {
+        expect(lookup('ICL', '2026-01-10')).toEqual({ date: '2026-01-01', value: 8 });
+        expect(lookup('ICL', '2026-02-01')).toEqual({ date: '2026-01-15', value: 10 });
+        expect(lookup('ICL', '2025-12-31')).toBeNull();
+        expect(lookup('CER', '2026-02-01')).toBeNull();
+    });
+
+    it('should compute ratios only when both values exist', () => {
+        expect(indexRatio(lookup, 'ICL', '2026-01-01', '2026-01-20')).toBeCloseTo(1.25);
+        expect(indexRatio(lookup, 'ICL', '2025-06-01', '2026-01-20')).toBeNull();
+    });
+});
+
+describe('summarizeIndexSeries', () => {
+    it('should list the built-in series even without values', () => {
+        const summary = summarizeIndexSeries([
+            { series: 'UOM', date: '2026-03-01', value: 2 },
+            { series: 'UOM', date: '2026-01-01', value: 1 },
+        ]);
+
+        expect(summary.map((item) => item.series)).toEqual(['ICL', 'IPC', 'CER', 'UVA', 'UOM']);
+        expect(summary[4]).toMatchObject({ count: 2, first_date: '2026-01-01', last_date: '2026-03-01', last_value: 2 });
+        expect(summary[0]).toMatchObject({ count: 0, last_value: null });
+    });
+});
@@ -0,0 +1,245 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logWarn } from '@/lib/observability';
+import { parseCsvTable, parseImportAmount, parseImportDate } from '@/lib/bank-import';
+
+export type IndexValue = {
+    series: string;
+    date: string;
+    value: number;
+};
+
+export type IndexSeriesSummary = {
+    series: string;
+    name: string;
+    count: number;
+    first_date: string | null;
+    last_date: string | null;
+    last_value: number | null;
+};
+
+export type IndexCsvPreview = {
+    values: Array<{ date: string; value: number }>;
+    skipped: Array<{ line: number; reason: string }>;
+};
+
+// Looks up the value of a series in effect on a date (the last one published on or before it).
+export type IndexLookup = (series: string, date: string) => { date: string; value: number } | null;
+
+export const BUILTIN_INDEX_SERIES: Array<{ code: string; name: string }> = [
+    { code: 'ICL', name: 'ICL (contratos de locación, BCRA)' },
+    { code: 'IPC', name: 'IPC (INDEC)' },
+    { code: 'CER', name: 'CER (BCRA)' },
+    { code: 'UVA', name: 'UVA (BCRA, préstamos UVA)' },
+];
+
+export const INDEX_SERIES_PATTERN = /^[A-Z0-9_]{2,20}$/;
+
+export const MAX_INDEX_VALUES_PER_UPLOAD = 5000;
+
+export function normalizeSeriesCode(value: string) {
+    return value.trim().toUpperCase().replace(/[^A-Z0-9_]+/g, '_').slice(0, 20);
+}
+
+export function indexSeriesName(code: string) {
+    return BUILTIN_INDEX_SERIES.find((series) => series.code === code)?.name || code;
+}
+
+// "1.234,56" and "1,234.56" both appear in published series; the last separator is the decimal one.
+function detectDecimal(value: string): ',' | '.' {
+    const comma = value.lastIndexOf(',');
+    const dot = value.lastIndexOf('.');
+    if (comma === -1) return '.';
+    return comma > dot ? ',' : '.';
+}
+
+// Monthly series (IPC) are often published as "2026-03" or "03/2026"; they are stored on the 1st.
+function parseIndexDate(value: string) {
+    const text = value.trim();
+    const isoMonth = text.match(/^(\d{4})-(\d{1,2})$/);
+    if (isoMonth) return parseImportDate(`${isoMonth[1]}-${isoMonth[2]}-01`, 'YYYY-MM-DD');
+    const monthYear = text.match(/^(\d{1,2})[/-](\d{4})$/);
+    if (monthYear) return parseImportDate(`${monthYear[2]}-${monthYear[1]}-01`, 'YYYY-MM-DD');
+    return parseImportDate(text, 'DD/MM/YYYY');
+}
+
+/**
+ * Reads a two column CSV (date, value). A leading header row is ignored, other unreadable lines are reported
+ * as skipped; when a date repeats the last value wins.
+ */
+export function parseIndexCsv(content: string): IndexCsvPreview {
+    const byDate = new Map<string, number>();
+    const skipped: IndexCsvPreview['skipped'] = [];
+
+    parseCsvTable(content).forEach(({ line, cells }, position) => {
+        const [rawDate = '', rawValue = ''] = cells;
+        const date = parseIndexDate(rawDate);
+        const value = parseImportAmount(rawValue, detectDecimal(rawValue.replace(/[^\d,.]/g, '')));
+        if (position === 0 && !date && Number.isNaN(value)) return;
+
+        if (!date) {
+            skipped.push({ line, reason: `Fecha inválida: ${rawDate || '(vacía)'}` });
+            return;
+        }
+        if (!(value > 0)) {
+            skipped.push({ line, reason: `Valor inválido: ${rawValue || '(vacío)'}` });
+            return;
+        }
+        byDate.set(date, value);
+    });
+
+    const values = Array.from(byDate.entries())
+        .map(([date, value]) => ({ date, value }))
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+    return { values, skipped };
+}
+
+export function buildIndexLookup(values: IndexValue[]): IndexLookup {
+    const bySeries = new Map<string, Array<{ date: string; value: number }>>();
+    values.forEach((row) => {
+        bySeries.set(row.series, [...(bySeries.get(row.series) || []), { date: row.date, value: Number(row.value) }]);
+    });
+    bySeries.forEach((rows) => rows.sort((a, b) => a.date.localeCompare(b.date)));
+
+    return (series, date) => {
+        const rows = bySeries.get(series) || [];
+        let low = 0;
+        let high = rows.length - 1;
+        let found: { date: string; value: number } | null = null;
+
+        while (low <= high) {
+            const middle = Math.floor((low + high) / 2);
+            if (rows[middle].date <= date) {
+                found = rows[middle];
+                low = middle + 1;
+            } else {
+                high = middle - 1;
+            }
+        }
+
+        return found;
+    };
+}
+
+/**
+ * Ratio between the index in effect at `date` and at `baseDate`, or null when either is missing.
+ */
+export function indexRatio(lookup: IndexLookup, series: string, baseDate: string, date: string) {
+    const base = lookup(series, baseDate);
+    const current = lookup(series, date);
+    if (!base || !current || !(base.value > 0)) return null;
+    return current.value / base.value;
+}
+
+export function summarizeIndexSeries(values: IndexValue[]): IndexSeriesSummary[] {
+    const bySeries = new Map<string, IndexValue[]>();
+    values.forEach((row) => bySeries.set(row.series, [...(bySeries.get(row.series) || []), row]));
+
+    const codes = Array.from(new Set([...BUILTIN_INDEX_SERIES.map((series) => series.code), ...Array.from(bySeries.keys())]));
+    return codes.map((code) => {
+        const rows = (bySeries.get(code) || []).slice().sort((a, b) => a.date.localeCompare(b.date));
+        const last = rows[rows.length - 1];
+        return {
+            series: code,
+            name: indexSeriesName(code),
+            count: rows.length,
+            first_date: rows[0]?.date ?? null,
+            last_date: last?.date ?? null,
+            last_value: last ? Number(last.value) : null,
+        };
+    });
+}
+
+export function isMissingIndexValuesTableError(message?: string | null) {
+    if (!message) return false;
+    const value = message.toLowerCase();
+    return value.includes('index_values') && (value.includes('schema cache') || value.includes('does not exist'));
+}
+
+// PostgREST caps every select at 1000 rows, so series are read in pages.
+const PAGE_SIZE = 1000;
+const MAX_PAGES = 100;
+
+/**
+ * Stored values in date order, of the given series or of all of them, up to `until` when given. Shaped like a
+ * select result so callers decide what a missing table means.
+ */
+export async function selectIndexValues(
+    supabase: SupabaseClient,
+    spaceId: string,
+    params: { series?: string[]; until?: string } = {}
+): Promise<{ data: IndexValue[]; error: { message: string } | null }> {
+    const rows: IndexValue[] = [];
+    for (let page = 0; page < MAX_PAGES; page += 1) {
+        let query = supabase
+            .from('index_values')
+            .select('series, date, value')
+            .eq('space_id', spaceId);
+        if (params.series) query = query.in('series', params.series);
+        if (params.until) query = query.lte('date', params.until);
+
+        const { data, error } = await query
+            .order('date', { ascending: true })
+            .order('series', { ascending: true })
+            .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+        if (error) return { data: rows, error };
+
+        rows.push(...(data || []).map((row: any) => ({ series: row.series, date: row.date, value: Number(row.value) })));
+        if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return { data: rows, error: null };
+}
+
+/**
+ * Every stored value of the given series, up to `until` when the caller only looks up earlier dates. A missing
+ * table (supabase-indexes.sql not run yet) behaves as an empty series, so indexed rules fall back to their base amount.
+ */
+export async function loadIndexValues(
+    supabase: SupabaseClient,
+    spaceId: string,
+    series: string[],
+    params: { until?: string } = {}
+): Promise<IndexValue[]> {
+    const codes = Array.from(new Set(series.filter(Boolean)));
+    if (!codes.length) return [];
+
+    const { data, error } = await selectIndexValues(supabase, spaceId, { series: codes, until: params.until });
+
+    if (error) {
+        if (!isMissingIndexValuesTableError(error.message)) {
+            logWarn('index_values_load_failed', { spaceId, reason: error.message });
+        }
+        return [];
+    }
+
+    return data;
+}
+
+/**
+ * Last stored value of one series on or before `date`, for callers that convert a single amount. Null when the
+ * series has none yet (or the table is missing); other errors are returned so the caller can fail.
+ */
+export async function loadLatestIndexValue(
+    supabase: SupabaseClient,
+    spaceId: string,
+    series: string,
+    date: string
+): Promise<{ data: IndexValue | null; error: { message: string } | null }> {
+    const { data, error } = await supabase
+        .from('index_values')
+        .select('series, date, value')
+        .eq('space_id', spaceId)
+        .eq('series', series)
+        .lte('date', date)
+        .order('date', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    if (error) {
+        return isMissingIndexValuesTableError(error.message) ? { data: null, error: null } : { data: null, error };
+    }
+
+    return { data: data ? { series: data.series, date: data.date, value: Number(data.value) } : null, error: null };
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+    buildDeflator,
+    deflateAmount,
+    deflatorMonths,
+    missingDeflatorMonths,
+    parseRealTermsSettings,
+    realSpendingByMonth,
+} from './inflation';
+import type { IndexValue } from './indexes';
+
+const cpi: IndexValue[] = [
+    { series: 'IPC', date: '2026-01-01', value: 100 },
+    { series: 'IPC', date: '2026-02-01', value: 110 },
+    { series: 'IPC', date: '2026-03-01', value: 125 },
+    { series: 'CER', date: '2026-03-01', value: 9 },
+];
+
+describe('buildDeflator', () => {
+    it('should take amounts to pesos of the base month', () => {
+        const deflator = buildDeflator(cpi, { series: 'IPC', base_month: '2026-03' });
+
+        expect(deflator?.base).toEqual({ month: '2026-03', value: 125, estimated: false });
+        expect(deflateAmount(1000, '2026-01-20', deflator)).toBeCloseTo(1250);
+        expect(deflateAmount(1000, '2026-03-05', deflator)).toBeCloseTo(1000);
+        // Before the series starts amounts stay nominal.
+        expect(deflateAmount(1000, '2025-12-31', deflator)).toBe(1000);
+        expect(deflateAmount(1000, '2026-01-20', null)).toBe(1000);
+    });
+
+    it('should default to the latest month and carry the last value into months not yet published', () => {
+        const deflator = buildDeflator(cpi, { series: 'IPC', base_month: '' });
+        expect(deflator?.base_month).toBe('2026-03');
+
+        const months = deflatorMonths(deflator!, ['2026-04', '2026-02', '2025-11', '2026-02']);
+        expect(months.map((row) => row.month)).toEqual(['2026-02', '2026-04']);
+        expect(months[0].factor).toBeCloseTo(125 / 110);
+        expect(months[1]).toMatchObject({ estimated: true, factor: 1 });
+    });
+
+    it('should list the months left nominal because the series has no value for them', () => {
+        const deflator = buildDeflator(cpi, { series: 'IPC', base_month: '2026-03' })!;
+        expect(missingDeflatorMonths(deflator, ['2026-02', '2025-11', '2025-12', '2025-11', '2026-05'])).toEqual(['2025-11', '2025-12']);
+    });
+
+    it('should return null without values for the series or the base month', () => {
+        expect(buildDeflator(cpi, { series: 'ICL', base_month: '' })).toBeNull();
+        expect(buildDeflator(cpi, { series: 'IPC', base_month: '2025-06' })).toBeNull();
+    });
+});
+
+describe('realSpendingByMonth', () => {
+    it('should add real amounts per month and category lineage', () => {
+        const deflator = buildDeflator(cpi, { series: 'IPC', base_month: '2026-02' })!;
+        const lineageOf = (category?: string | null) => (category === 'super' ? ['super', 'comida'] : [String(category)]);
+
+        const totals = realSpendingByMonth([
+            { amount: 100, date: '2026-01-10', category: 'super' },
+            { amount: '50', date: '2026-01-12', category: 'comida' },
+            { amount: 110, date: '2026-02-01', category: 'super' },
+        ], deflator, lineageOf);
+
+        expect(totals.get('2026-01|super')).toBeCloseTo(110);
+        expect(totals.get('2026-01|comida')).toBeCloseTo(165);
+        expect(totals.get('2026-02|comida')).toBeCloseTo(110);
+    });
+});
+
+describe('parseRealTermsSettings', () => {
+    it('should drop invalid stored values', () => {
+        expect(parseRealTermsSettings({ enabled: true, base_month: '2026-13x', series: 'ipc' }))
+            .toEqual({ enabled: true, base_month: '', series: 'IPC' });
+        expect(parseRealTermsSettings(null)).toEqual({ enabled: false, base_month: '', series: 'IPC' });
+    });
+});
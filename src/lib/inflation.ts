@@ -0,0 +1,160 @@
+import { INDEX_SERIES_PATTERN, buildIndexLookup, type IndexLookup, type IndexValue } from '@/lib/indexes';
+
+export const DEFAULT_CPI_SERIES = 'IPC';
+export const REAL_TERMS_STORAGE_KEY = 'finansas-real-terms';
+
+/**
+ * Reporting in constant pesos of `base_month`. An empty `base_month` means the latest month with a CPI value.
+ */
+export type RealTermsSettings = {
+    enabled: boolean;
+    base_month: string;
+    series: string;
+};
+
+export const DEFAULT_REAL_TERMS: RealTermsSettings = {
+    enabled: false,
+    base_month: '',
+    series: DEFAULT_CPI_SERIES,
+};
+
+export type MonthCpi = {
+    month: string;
+    value: number;
+    // The series has no value for the month yet, so the last published one is carried forward.
+    estimated: boolean;
+};
+
+export type Deflator = {
+    series: string;
+    base_month: string;
+    base: MonthCpi;
+    // Multiplier taking an amount of the month of `date` to pesos of the base month; null before the series starts.
+    factorFor: (date: string) => number | null;
+    cpiFor: (month: string) => MonthCpi | null;
+};
+
+export type DeflatorMonth = MonthCpi & { factor: number };
+
+function lastDayOfMonth(month: string) {
+    const [year, monthPart] = month.split('-').map(Number);
+    return new Date(Date.UTC(year, monthPart, 0)).toISOString().slice(0, 10);
+}
+
+/**
+ * CPI of a month: the value published for it (monthly series are stored on the 1st, daily ones use the last
+ * value of the month).
+ */
+export function monthCpi(lookup: IndexLookup, series: string, month: string): MonthCpi | null {
+    const found = lookup(series, lastDayOfMonth(month));
+    if (!found) return null;
+    return { month, value: found.value, estimated: found.date < `${month}-01` };
+}
+
+/**
+ * Deflator to constant pesos of `baseMonth`: real = nominal × CPI(base) / CPI(month of the movement).
+ * Returns null when the series has no value for the base month or earlier.
+ */
+export function buildDeflator(values: IndexValue[], settings: Pick<RealTermsSettings, 'series' | 'base_month'>): Deflator | null {
+    const series = settings.series || DEFAULT_CPI_SERIES;
+    const rows = values.filter((row) => row.series === series);
+    if (!rows.length) return null;
+
+    const lookup = buildIndexLookup(rows);
+    const latestMonth = rows.reduce((latest, row) => (row.date > latest ? row.date : latest), rows[0].date).slice(0, 7);
+    const baseMonth = /^\d{4}-\d{2}$/.test(settings.base_month) ? settings.base_month : latestMonth;
+    const base = monthCpi(lookup, series, baseMonth);
+    if (!base) return null;
+
+    const cache = new Map<string, MonthCpi | null>();
+    const cpiFor = (month: string) => {
+        if (!cache.has(month)) cache.set(month, monthCpi(lookup, series, month));
+        return cache.get(month) ?? null;
+    };
+
+    return {
+        series,
+        base_month: baseMonth,
+        base,
+        cpiFor,
+        factorFor: (date) => {
+            const cpi = cpiFor(date.slice(0, 7));
+            return cpi ? base.value / cpi.value : null;
+        },
+    };
+}
+
+/**
+ * Amount in constant pesos; without a deflator (nominal mode) or before the series starts it stays nominal, so
+ * screens list those months with `missingDeflatorMonths` next to the figures.
+ */
+export function deflateAmount(amount: number, date: string | null | undefined, deflator: Deflator | null) {
+    if (!deflator || !date) return amount;
+    const factor = deflator.factorFor(date);
+    return factor == null ? amount : amount * factor;
+}
+
+/**
+ * Real spending per month and category (`YYYY-MM|category key`), counting each row towards every key its
+ * lineage returns so parent categories include their subcategories, as budgets do.
+ */
+export function realSpendingByMonth(
+    rows: Array<{ amount: number | string; date?: string | null; category?: string | null }>,
+    deflator: Deflator,
+    lineageOf: (category?: string | null) => string[]
+) {
+    const totals = new Map<string, number>();
+    rows.forEach((row) => {
+        if (!row.date) return;
+        const month = row.date.slice(0, 7);
+        const amount = deflateAmount(Number(row.amount) || 0, row.date, deflator);
+        lineageOf(row.category).forEach((key) => {
+            totals.set(`${month}|${key}`, (totals.get(`${month}|${key}`) || 0) + amount);
+        });
+    });
+    return totals;
+}
+
+// Factor per month, oldest first, for showing the deflator next to the figures it was applied to.
+export function deflatorMonths(deflator: Deflator, months: string[]): DeflatorMonth[] {
+    return Array.from(new Set(months))
+        .sort()
+        .map((month) => {
+            const cpi = deflator.cpiFor(month);
+            return cpi ? { ...cpi, factor: deflator.base.value / cpi.value } : null;
+        })
+        .filter((row): row is DeflatorMonth => Boolean(row));
+}
+
+// Months (oldest first) whose amounts `deflateAmount` leaves nominal because the series has no value for them.
+export function missingDeflatorMonths(deflator: Deflator, months: string[]) {
+    return Array.from(new Set(months)).sort().filter((month) => !deflator.cpiFor(month));
+}
+
+export function parseRealTermsSettings(value: unknown): RealTermsSettings {
+    const raw = (value && typeof value === 'object' ? value : {}) as Partial<RealTermsSettings>;
+    return {
+        enabled: raw.enabled === true,
+        base_month: typeof raw.base_month === 'string' && /^\d{4}-\d{2}$/.test(raw.base_month) ? raw.base_month : '',
+        series: typeof raw.series === 'string' && INDEX_SERIES_PATTERN.test(raw.series) ? raw.series : DEFAULT_CPI_SERIES,
+    };
+}
+
+export function getStoredRealTerms(): RealTermsSettings {
+    if (typeof window === 'undefined') return DEFAULT_REAL_TERMS;
+    try {
+        const stored = window.localStorage.getItem(REAL_TERMS_STORAGE_KEY);
+        return stored ? parseRealTermsSettings(JSON.parse(stored)) : DEFAULT_REAL_TERMS;
+    } catch {
+        return DEFAULT_REAL_TERMS;
+    }
+}
+
+export function storeRealTerms(settings: RealTermsSettings) {
+    if (typeof window === 'undefined') return;
+    try {
+        window.localStorage.setItem(REAL_TERMS_STORAGE_KEY, JSON.stringify(settings));
+    } catch {
+        // no-op
+    }
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+    addMonthsIso,
+    buildInstallmentSchedule,
+    installmentNumberFromRemaining,
+    matchExtractedInstallments,
+    projectCommittedByMonth,
+    type InstallmentPlanRow,
+} from './installments';
+
+describe('buildInstallmentSchedule', () => {
+    it('should schedule one charge per month and mark the ones already paid', () => {
+        const schedule = buildInstallmentSchedule({
+            total_installments: 3,
+            installment_amount: 1000.004,
+            first_charge_date: '2024-01-31',
+            billed_through: 1,
+        });
+
+        expect(schedule.map((charge) => charge.charge_date)).toEqual(['2024-01-31', '2024-02-29', '2024-03-31']);
+        expect(schedule.map((charge) => charge.status)).toEqual(['billed', 'scheduled', 'scheduled']);
+        expect(schedule[0]).toMatchObject({ installment_number: 1, amount: 1000, currency: 'ARS', due_date: '2024-01-31' });
+    });
+
+    it('should take the due date from the card statement each charge falls into', () => {
+        const schedule = buildInstallmentSchedule(
+            { total_installments: 2, installment_amount: 500, first_charge_date: '2024-03-28' },
+            { closing_day: 25, due_day: 5 }
+        );
+
+        expect(schedule.map((charge) => charge.due_date)).toEqual(['2024-05-05', '2024-06-05']);
+    });
+});
+
+describe('projectCommittedByMonth', () => {
+    it('should group charges by due month keeping currencies apart', () => {
+        const committed = projectCommittedByMonth([
+            { due_date: '2024-05-05', amount: 1000, currency: 'ARS', status: 'scheduled' },
+            { due_date: '2024-05-20', amount: '250.5', currency: 'ARS', status: 'billed' },
+            { due_date: '2024-06-05', amount: 30, currency: 'USD', status: 'scheduled' },
+            { due_date: '2024-06-05', amount: 999, currency: 'ARS', status: 'cancelled' },
+            { due_date: '2024-04-05', amount: 999, currency: 'ARS', status: 'scheduled' },
+        ], '2024-05', 3);
+
+        expect(committed).toEqual([
+            { month: '2024-05', amount_ars: 1250.5, amount_usd: 0, count: 2 },
+            { month: '2024-06', amount_ars: 0, amount_usd: 30, count: 1 },
+            { month: '2024-07', amount_ars: 0, amount_usd: 0, count: 0 },
+        ]);
+    });
+});
+
+describe('matchExtractedInstallments', () => {
+    const plans: InstallmentPlanRow[] = [
+        {
+            id: 'fridge',
+            description: 'Heladera Samsung',
+            merchant: 'Fravega',
+            purchase_date: '2024-01-10',
+            first_charge_date: '2024-01-10',
+            total_installments: 12,
+            installment_amount: 45000,
+            currency: 'ARS',
+            status: 'active',
+        },
+        {
+            id: 'flight',
+            description: 'Pasajes Aerolineas',
+            purchase_date: '2024-02-01',
+            first_charge_date: '2024-02-01',
+            total_installments: 6,
+            installment_amount: 120,
+            currency: 'USD',
+            status: 'active',
+        },
+    ];
+
+    it('should pair statement rows with plans and derive the installment being billed', () => {
+        const { matched, unmatched } = matchExtractedInstallments([
+            { description: 'FRAVEGA HELADERA', total_installments: 12, remaining_installments: 10, installment_amount: 45500, currency: 'ARS' },
+            { description: 'NETFLIX', total_installments: 3, remaining_installments: 2, installment_amount: 5000, currency: 'ARS' },
+        ], plans);
+
+        expect(matched).toHaveLength(1);
+        expect(matched[0]).toMatchObject({ installmentNumber: 3 });
+        expect(matched[0].plan.id).toBe('fridge');
+        expect(unmatched.map((row) => row.description)).toEqual(['NETFLIX']);
+    });
+
+    it('should not match across currencies, counts or distant amounts', () => {
+        const { matched } = matchExtractedInstallments([
+            { description: 'Pasajes Aerolineas', total_installments: 6, installment_amount: 120, currency: 'ARS' },
+            { description: 'Heladera Samsung', total_installments: 18, installment_amount: 45000, currency: 'ARS' },
+            { description: 'Heladera Samsung', total_installments: 12, installment_amount: 60000, currency: 'ARS' },
+        ], plans);
+
+        expect(matched).toHaveLength(0);
+    });
+});
+
+describe('installment helpers', () => {
+    it('should count the installment being billed as remaining', () => {
+        expect(installmentNumberFromRemaining(12, 12)).toBe(1);
+        expect(installmentNumberFromRemaining(12, 10)).toBe(3);
+        expect(installmentNumberFromRemaining(12, 0)).toBe(12);
+    });
+
+    it('should clamp the day when adding months', () => {
+        expect(addMonthsIso('2024-01-31', 1)).toBe('2024-02-29');
+        expect(addMonthsIso('2024-03-15', -3)).toBe('2023-12-15');
+    });
+});
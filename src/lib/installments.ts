@@ -0,0 +1,445 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logWarn } from '@/lib/observability';
+import { normalizeCurrency, type CurrencyCode } from '@/lib/currency';
+import { getStatementCycle, type CardCycleRules, type CreditCardRow } from '@/lib/credit-cards';
+
+export type InstallmentPlanStatus = 'active' | 'completed' | 'cancelled';
+export type InstallmentChargeStatus = 'scheduled' | 'billed' | 'cancelled';
+export type InstallmentPlanSource = 'manual' | 'assistant' | 'document';
+
+export type InstallmentPlanRow = {
+    id: string;
+    card_id?: string | null;
+    description: string;
+    merchant?: string | null;
+    purchase_date: string;
+    first_charge_date: string;
+    total_installments: number;
+    installment_amount: number | string;
+    currency: string;
+    status: InstallmentPlanStatus;
+    source?: InstallmentPlanSource | null;
+};
+
+export type InstallmentChargeRow = {
+    id?: string;
+    plan_id?: string;
+    installment_number: number;
+    charge_date: string;
+    due_date: string;
+    amount: number | string;
+    currency: string;
+    status: InstallmentChargeStatus;
+    card_statement_id?: string | null;
+};
+
+export type CommittedMonth = {
+    month: string;
+    amount_ars: number;
+    amount_usd: number;
+    count: number;
+};
+
+// Shape of `extraction.installments[]` produced by document processing.
+export type ExtractedInstallment = {
+    description: string;
+    merchant?: string | null;
+    total_installments?: number | null;
+    remaining_installments?: number | null;
+    installment_amount?: number | null;
+    currency?: string | null;
+};
+
+export type InstallmentMatch = {
+    plan: InstallmentPlanRow;
+    installmentNumber: number;
+    extracted: ExtractedInstallment;
+};
+
+type ScheduleInput = {
+    total_installments: number;
+    installment_amount: number;
+    currency?: string | null;
+    first_charge_date: string;
+    // Installments up to this number were already charged before the plan was recorded.
+    billed_through?: number;
+};
+
+export const INVALID_CARD_ERROR = 'Tarjeta inválida para este espacio';
+
+const MATCH_AMOUNT_TOLERANCE = 0.02;
+const MATCH_MIN_SIMILARITY = 0.5;
+
+function toNumber(value: unknown) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function roundMoney(value: number) {
+    return Number(value.toFixed(2));
+}
+
+/**
+ * Adds months keeping the original day when possible (Jan 31 + 1 month → Feb 28/29).
+ */
+export function addMonthsIso(isoDate: string, months: number) {
+    const [year, month, day] = isoDate.slice(0, 10).split('-').map(Number);
+    const target = new Date(Date.UTC(year, month - 1 + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(day, lastDay));
+    return target.toISOString().slice(0, 10);
+}
+
+/**
+ * One scheduled charge per month. On a card, each charge is due with the statement its charge date falls into;
+ * without a card the charge date is the due date.
+ */
+export function buildInstallmentSchedule(input: ScheduleInput, card?: CardCycleRules | null): InstallmentChargeRow[] {
+    const total = Math.max(1, Math.trunc(input.total_installments));
+    const billedThrough = Math.min(total, Math.max(0, Math.trunc(input.billed_through || 0)));
+    const currency = normalizeCurrency(input.currency);
+
+    return Array.from({ length: total }, (_, index) => {
+        const chargeDate = addMonthsIso(input.first_charge_date, index);
+        return {
+            installment_number: index + 1,
+            charge_date: chargeDate,
+            due_date: card ? getStatementCycle(card, chargeDate).due_date : chargeDate,
+            amount: roundMoney(input.installment_amount),
+            currency,
+            status: index + 1 <= billedThrough ? 'billed' : 'scheduled',
+        };
+    });
+}
+
+/**
+ * Month-by-month amount already committed by installment plans, starting at `fromMonth` (YYYY-MM).
+ * Amounts stay in their own currency: USD cuotas are converted by the card at billing time.
+ */
+export function projectCommittedByMonth(
+    charges: Array<Pick<InstallmentChargeRow, 'due_date' | 'amount' | 'currency' | 'status'>>,
+    fromMonth: string,
+    months = 6
+): CommittedMonth[] {
+    const base = `${fromMonth}-01`;
+    const rows = Array.from({ length: months }, (_, index) => ({
+        month: addMonthsIso(base, index).slice(0, 7),
+        amount_ars: 0,
+        amount_usd: 0,
+        count: 0,
+    }));
+    const byMonth = new Map(rows.map((row) => [row.month, row]));
+
+    for (const charge of charges) {
+        if (charge.status === 'cancelled') continue;
+        const row = byMonth.get(charge.due_date.slice(0, 7));
+        if (!row) continue;
+
+        if (normalizeCurrency(charge.currency) === 'USD') {
+            row.amount_usd += toNumber(charge.amount);
+        } else {
+            row.amount_ars += toNumber(charge.amount);
+        }
+        row.count += 1;
+    }
+
+    return rows.map((row) => ({
+        ...row,
+        amount_ars: roundMoney(row.amount_ars),
+        amount_usd: roundMoney(row.amount_usd),
+    }));
+}
+
+/**
+ * Statements print "cuota 3/12" as 10 remaining, counting the one being billed.
+ */
+export function installmentNumberFromRemaining(total: number, remaining: number) {
+    return Math.min(total, Math.max(1, total - remaining + 1));
+}
+
+function matchTokens(value: string) {
+    return new Set(
+        value
+            .toLowerCase()
+            .normalize('NFD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .split(/[^a-z0-9]+/)
+            .filter((token) => token.length > 2 && !/^\d+$/.test(token))
+    );
+}
+
+function textSimilarity(a: string, b: string) {
+    const left = matchTokens(a);
+    const right = matchTokens(b);
+    if (!left.size || !right.size) return 0;
+    let shared = 0;
+    left.forEach((token) => {
+        if (right.has(token)) shared += 1;
+    });
+    return shared / Math.min(left.size, right.size);
+}
+
+/**
+ * Pairs installments read from a statement with the plans already recorded for that card.
+ * A plan matches when currency, installment count and amount (±2%) agree and the descriptions share words.
+ */
+export function matchExtractedInstallments(extracted: ExtractedInstallment[], plans: InstallmentPlanRow[]) {
+    const matched: InstallmentMatch[] = [];
+    const unmatched: ExtractedInstallment[] = [];
+    const usedPlans = new Set<string>();
+
+    for (const row of extracted) {
+        const amount = toNumber(row.installment_amount);
+        const currency: CurrencyCode = normalizeCurrency(row.currency);
+        const text = [row.description, row.merchant].filter(Boolean).join(' ');
+
+        let best: { plan: InstallmentPlanRow; score: number } | null = null;
+        for (const plan of plans) {
+            if (usedPlans.has(plan.id) || plan.status === 'cancelled') continue;
+            if (normalizeCurrency(plan.currency) !== currency) continue;
+            if (row.total_installments && row.total_installments !== plan.total_installments) continue;
+
+            const planAmount = toNumber(plan.installment_amount);
+            if (amount > 0 && Math.abs(planAmount - amount) > Math.max(1, planAmount * MATCH_AMOUNT_TOLERANCE)) continue;
+
+            const score = textSimilarity(text, [plan.description, plan.merchant].filter(Boolean).join(' '));
+            if (score < MATCH_MIN_SIMILARITY) continue;
+            if (!best || score > best.score) best = { plan, score };
+        }
+
+        if (!best) {
+            unmatched.push(row);
+            continue;
+        }
+
+        usedPlans.add(best.plan.id);
+        const total = best.plan.total_installments;
+        matched.push({
+            plan: best.plan,
+            installmentNumber: row.remaining_installments == null
+                ? 1
+                : installmentNumberFromRemaining(total, row.remaining_installments),
+            extracted: row,
+        });
+    }
+
+    return { matched, unmatched };
+}
+
+export function isMissingInstallmentsTableError(message?: string | null) {
+    if (!message) return false;
+    const value = message.toLowerCase();
+    return value.includes('installment_') && (value.includes('schema cache') || value.includes('does not exist'));
+}
+
+type CreatePlanInput = {
+    card_id?: string | null;
+    description: string;
+    merchant?: string | null;
+    purchase_date: string;
+    first_charge_date?: string | null;
+    total_installments: number;
+    installment_amount: number;
+    currency?: string | null;
+    billed_through?: number;
+    source: InstallmentPlanSource;
+    extraction_id?: string | null;
+};
+
+/**
+ * Inserts a plan and its monthly charges. The plan is removed again if the charges cannot be stored.
+ */
+export async function createInstallmentPlan(
+    supabase: SupabaseClient,
+    spaceId: string,
+    userId: string,
+    input: CreatePlanInput
+) {
+    let card: CreditCardRow | null = null;
+    if (input.card_id) {
+        const { data, error } = await supabase
+            .from('credit_cards')
+            .select('*')
+            .eq('id', input.card_id)
+            .eq('space_id', spaceId)
+            .maybeSingle();
+
+        if (error || !data) return { plan: null, charges: [], error: INVALID_CARD_ERROR };
+        card = data as CreditCardRow;
+    }
+
+    const firstChargeDate = input.first_charge_date || input.purchase_date;
+    const schedule = buildInstallmentSchedule({
+        total_installments: input.total_installments,
+        installment_amount: input.installment_amount,
+        currency: input.currency,
+        first_charge_date: firstChargeDate,
+        billed_through: input.billed_through,
+    }, card);
+    const isCompleted = schedule.every((charge) => charge.status === 'billed');
+
+    const { data: plan, error: planError } = await supabase
+        .from('installment_plans')
+        .insert({
+            space_id: spaceId,
+            user_id: userId,
+            card_id: card?.id ?? null,
+            description: input.description,
+            merchant: input.merchant ?? null,
+            purchase_date: input.purchase_date,
+            first_charge_date: firstChargeDate,
+            total_installments: schedule.length,
+            installment_amount: roundMoney(input.installment_amount),
+            currency: normalizeCurrency(input.currency),
+            status: isCompleted ? 'completed' : 'active',
+            source: input.source,
+            extraction_id: input.extraction_id ?? null,
+        })
+        .select()
+        .single();
+
+    if (planError || !plan) {
+        return { plan: null, charges: [], error: planError?.message || 'No se pudo crear el plan de cuotas' };
+    }
+
+    const { data: charges, error: chargesError } = await supabase
+        .from('installment_charges')
+        .insert(schedule.map((charge) => ({ ...charge, plan_id: plan.id, space_id: spaceId })))
+        .select();
+
+    if (chargesError) {
+        await supabase.from('installment_plans').delete().eq('id', plan.id).eq('space_id', spaceId);
+        return { plan: null, charges: [], error: chargesError.message };
+    }
+
+    return {
+        plan: plan as InstallmentPlanRow,
+        charges: (charges || []) as InstallmentChargeRow[],
+        error: null,
+    };
+}
+
+/**
+ * Marks every charge up to `installmentNumber` as billed, linking the current one to the statement,
+ * and completes the plan once nothing is left scheduled.
+ */
+async function markPlanBilledThrough(
+    supabase: SupabaseClient,
+    spaceId: string,
+    planId: string,
+    installmentNumber: number,
+    statementId: string
+) {
+    const { error } = await supabase
+        .from('installment_charges')
+        .update({ status: 'billed' })
+        .eq('space_id', spaceId)
+        .eq('plan_id', planId)
+        .eq('status', 'scheduled')
+        .lt('installment_number', installmentNumber);
+
+    const { error: currentError } = await supabase
+        .from('installment_charges')
+        .update({ status: 'billed', card_statement_id: statementId })
+        .eq('space_id', spaceId)
+        .eq('plan_id', planId)
+        .eq('installment_number', installmentNumber);
+
+    if (error || currentError) {
+        logWarn('installment_reconcile_update_failed', { spaceId, planId, reason: (error || currentError)?.message });
+        return false;
+    }
+
+    const { count } = await supabase
+        .from('installment_charges')
+        .select('id', { count: 'exact', head: true })
+        .eq('space_id', spaceId)
+        .eq('plan_id', planId)
+        .eq('status', 'scheduled');
+
+    if (!count) {
+        await supabase
+            .from('installment_plans')
+            .update({ status: 'completed' })
+            .eq('id', planId)
+            .eq('space_id', spaceId);
+    }
+
+    return true;
+}
+
+/**
+ * Reconciles the installments listed on an imported statement with the card's plans: known plans get
+ * their charge marked as billed on this statement, unknown ones become new plans starting from it.
+ */
+export async function reconcileStatementInstallments(
+    supabase: SupabaseClient,
+    spaceId: string,
+    userId: string,
+    params: {
+        cardId: string;
+        statementId: string;
+        closingDate: string;
+        installments: ExtractedInstallment[];
+        extractionId?: string | null;
+    }
+) {
+    const result = { matched: 0, created: 0 };
+    if (!params.installments.length) return result;
+
+    const { data: plans, error } = await supabase
+        .from('installment_plans')
+        .select('*')
+        .eq('space_id', spaceId)
+        .eq('card_id', params.cardId)
+        .neq('status', 'cancelled');
+
+    if (error) {
+        if (!isMissingInstallmentsTableError(error.message)) {
+            logWarn('installment_reconcile_lookup_failed', { spaceId, cardId: params.cardId, reason: error.message });
+        }
+        return result;
+    }
+
+    const { matched, unmatched } = matchExtractedInstallments(params.installments, (plans || []) as InstallmentPlanRow[]);
+
+    for (const match of matched) {
+        const ok = await markPlanBilledThrough(supabase, spaceId, match.plan.id, match.installmentNumber, params.statementId);
+        if (ok) result.matched += 1;
+    }
+
+    for (const row of unmatched) {
+        const amount = toNumber(row.installment_amount);
+        const total = Math.max(1, Math.trunc(toNumber(row.total_installments) || 1));
+        if (amount <= 0) continue;
+
+        const current = row.remaining_installments == null
+            ? 1
+            : installmentNumberFromRemaining(total, row.remaining_installments);
+        const firstChargeDate = addMonthsIso(params.closingDate, -(current - 1));
+
+        const created = await createInstallmentPlan(supabase, spaceId, userId, {
+            card_id: params.cardId,
+            description: row.description,
+            merchant: row.merchant ?? null,
+            purchase_date: firstChargeDate,
+            first_charge_date: firstChargeDate,
+            total_installments: total,
+            installment_amount: amount,
+            currency: row.currency,
+            billed_through: current - 1,
+            source: 'document',
+            extraction_id: params.extractionId ?? null,
+        });
+
+        if (!created.plan) {
+            logWarn('installment_reconcile_create_failed', { spaceId, cardId: params.cardId, reason: created.error });
+            continue;
+        }
+
+        await markPlanBilledThrough(supabase, spaceId, created.plan.id, current, params.statementId);
+        result.created += 1;
+    }
+
+    return result;
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { computePosition, depositInterest, dueDeposits, validateTrade, valueHoldings, type InvestmentHoldingRow, type InvestmentTradeRow } from './investments';
+
+const trades: InvestmentTradeRow[] = [
+    { holding_id: 'spy', side: 'buy', date: '2026-01-10', quantity: 10, price: 100, fees: 10 },
+    { holding_id: 'spy', side: 'buy', date: '2026-02-10', quantity: 10, price: 120 },
+    { holding_id: 'spy', side: 'sell', date: '2026-03-10', quantity: 15, price: 130, fees: 5 },
+];
+
+describe('computePosition', () => {
+    it('should consume the oldest lots first and spread buy fees over the lot', () => {
+        const position = computePosition(trades);
+
+        expect(position.quantity).toBe(5);
+        expect(position.lots).toEqual([{ date: '2026-02-10', quantity: 5, unit_cost: 120 }]);
+        expect(position.cost_basis).toBe(600);
+        // 15 × 130 − 5 − (10 × 101 + 5 × 120)
+        expect(position.realized).toBe(335);
+        expect(position.oversold).toBe(0);
+    });
+
+    it('should reject sales beyond the units held on that date', () => {
+        expect(validateTrade(trades, { side: 'sell', date: '2026-03-11', quantity: 6, price: 1 })).toMatch(/Solo hay 5/);
+        expect(validateTrade(trades, { side: 'sell', date: '2026-03-11', quantity: 5, price: 1 })).toBeNull();
+        // Selling 8 on Feb 1 leaves the March sale of 15 with only 12 units.
+        expect(validateTrade(trades, { side: 'sell', date: '2026-02-01', quantity: 8, price: 1 })).toMatch(/venta posterior/);
+    });
+});
+
+describe('valueHoldings', () => {
+    const deposit: InvestmentHoldingRow = {
+        id: 'pf',
+        name: 'Plazo fijo',
+        kind: 'plazo_fijo',
+        currency: 'ARS',
+        principal: 1000000,
+        tna: 36.5,
+        start_date: '2026-03-01',
+        maturity_date: '2026-03-31',
+        status: 'active',
+    };
+
+    it('should accrue deposit interest day by day until maturity', () => {
+        expect(depositInterest(1000000, 36.5, '2026-03-01', '2026-03-31')).toBe(30000);
+
+        const [midway] = valueHoldings([deposit], [], [], '2026-03-11');
+        // The capital stays in its account: only the accrued interest adds to the portfolio.
+        expect(midway).toMatchObject({ market_value: 10000, cost_basis: 0, price: 1010000, unrealized: 10000, interest: 30000, price_source: 'deposit' });
+
+        const [late] = valueHoldings([deposit], [], [], '2026-04-15');
+        expect(late.market_value).toBe(30000);
+        expect(dueDeposits([deposit], '2026-03-30')).toEqual([]);
+        expect(dueDeposits([deposit], '2026-03-31')).toEqual([deposit]);
+    });
+
+    it('should price market holdings with the last quote or fall back to the last trade', () => {
+        const cedear: InvestmentHoldingRow = { id: 'spy', name: 'SPY', kind: 'cedear', currency: 'ARS', status: 'active' };
+        const prices = [
+            { holding_id: 'spy', date: '2026-03-20', price: 150 },
+            { holding_id: 'spy', date: '2026-04-20', price: 170 },
+        ];
+
+        const [quoted] = valueHoldings([cedear], trades, prices, '2026-03-31');
+        expect(quoted).toMatchObject({ quantity: 5, price: 150, price_source: 'quote', market_value: 750, unrealized: 150 });
+
+        const [fromTrade] = valueHoldings([cedear], trades, prices, '2026-03-15');
+        expect(fromTrade).toMatchObject({ price: 130, price_source: 'trade', market_value: 650 });
+    });
+});
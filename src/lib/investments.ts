@@ -0,0 +1,412 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logWarn } from '@/lib/observability';
+import { recordAuditEvent } from '@/lib/audit';
+import { ensureDefaultAccount } from '@/lib/accounts';
+import { BASE_CURRENCY, normalizeCurrency, resolveFxSnapshot, type CurrencyCode } from '@/lib/currency';
+import { createDolarApiProvider, createSupabaseFxRateStore, getExchangeRate } from '@/lib/exchange-rates';
+import { buildIndexLookup } from '@/lib/indexes';
+
+export type InvestmentKind = 'plazo_fijo' | 'fci' | 'cedear' | 'stock' | 'bond' | 'crypto' | 'other';
+export type InvestmentStatus = 'active' | 'matured' | 'closed';
+export type TradeSide = 'buy' | 'sell';
+
+export const INVESTMENT_KINDS: InvestmentKind[] = ['plazo_fijo', 'fci', 'cedear', 'stock', 'bond', 'crypto', 'other'];
+
+export const INVESTMENT_KIND_LABELS: Record<InvestmentKind, string> = {
+    plazo_fijo: 'Plazo fijo',
+    fci: 'FCI',
+    cedear: 'CEDEAR',
+    stock: 'Acción',
+    bond: 'Bono / ON',
+    crypto: 'Cripto',
+    other: 'Otro',
+};
+
+export const MAX_PRICES_PER_UPLOAD = 5000;
+export const DEPOSIT_INTEREST_CATEGORY = 'Inversiones';
+
+export type InvestmentHoldingRow = {
+    id: string;
+    name: string;
+    kind: InvestmentKind;
+    symbol?: string | null;
+    currency: string;
+    account_id?: string | null;
+    principal?: number | string | null;
+    tna?: number | string | null;
+    start_date?: string | null;
+    maturity_date?: string | null;
+    status: InvestmentStatus;
+    user_id?: string | null;
+};
+
+export type InvestmentTradeRow = {
+    id?: string;
+    holding_id?: string;
+    side: TradeSide;
+    date: string;
+    quantity: number | string;
+    price: number | string;
+    fees?: number | string | null;
+};
+
+export type InvestmentPriceRow = {
+    holding_id: string;
+    date: string;
+    price: number | string;
+};
+
+export type InvestmentLot = {
+    date: string;
+    quantity: number;
+    // Unit cost with the purchase fees spread over the lot.
+    unit_cost: number;
+};
+
+export type InvestmentPosition = {
+    quantity: number;
+    cost_basis: number;
+    realized: number;
+    lots: InvestmentLot[];
+    // Units sold beyond what was held at the time; a valid history has none.
+    oversold: number;
+};
+
+export type HoldingValuation = {
+    id: string;
+    name: string;
+    kind: InvestmentKind;
+    symbol: string | null;
+    currency: CurrencyCode;
+    status: InvestmentStatus;
+    quantity: number;
+    cost_basis: number;
+    realized: number;
+    price: number | null;
+    price_date: string | null;
+    // Where the price came from: a loaded quote, the last trade, or the deposit terms.
+    price_source: 'quote' | 'trade' | 'deposit' | null;
+    market_value: number;
+    unrealized: number;
+    maturity_date: string | null;
+    interest: number | null;
+};
+
+function toNumber(value: unknown) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function round(value: number, digits = 2) {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+}
+
+function daysBetween(from: string, to: string) {
+    return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+/**
+ * Open lots, cost basis and realized result of a trade history. Sales consume the oldest lots first (FIFO);
+ * trades of the same day keep their order, so a buy and a sell loaded for one date net out.
+ */
+export function computePosition(trades: InvestmentTradeRow[]): InvestmentPosition {
+    const lots: InvestmentLot[] = [];
+    let realized = 0;
+    let oversold = 0;
+
+    trades
+        .map((trade, position) => ({ trade, position }))
+        .sort((a, b) => a.trade.date.localeCompare(b.trade.date) || a.position - b.position)
+        .forEach(({ trade }) => {
+            const quantity = toNumber(trade.quantity);
+            const fees = toNumber(trade.fees);
+            if (quantity <= 0) return;
+
+            if (trade.side === 'buy') {
+                lots.push({ date: trade.date, quantity, unit_cost: (quantity * toNumber(trade.price) + fees) / quantity });
+                return;
+            }
+
+            let remaining = quantity;
+            let consumedCost = 0;
+            while (remaining > 1e-9 && lots.length) {
+                const lot = lots[0];
+                const taken = Math.min(lot.quantity, remaining);
+                consumedCost += taken * lot.unit_cost;
+                lot.quantity -= taken;
+                remaining -= taken;
+                if (lot.quantity <= 1e-9) lots.shift();
+            }
+            oversold += remaining > 1e-9 ? remaining : 0;
+            const soldQuantity = quantity - (remaining > 1e-9 ? remaining : 0);
+            realized += soldQuantity * toNumber(trade.price) - fees - consumedCost;
+        });
+
+    return {
+        quantity: round(lots.reduce((sum, lot) => sum + lot.quantity, 0), 8),
+        cost_basis: round(lots.reduce((sum, lot) => sum + lot.quantity * lot.unit_cost, 0)),
+        realized: round(realized),
+        lots: lots.map((lot) => ({ ...lot, quantity: round(lot.quantity, 8) })),
+        oversold: round(oversold, 8),
+    };
+}
+
+/**
+ * Error message when adding `trade` would sell more units than held on its date, or null when it fits.
+ */
+export function validateTrade(trades: InvestmentTradeRow[], trade: InvestmentTradeRow) {
+    if (trade.side !== 'sell') return null;
+    const before = computePosition(trades.filter((row) => row.date <= trade.date));
+    if (toNumber(trade.quantity) - before.quantity > 1e-8) {
+        return `Solo hay ${before.quantity} unidades al ${trade.date}`;
+    }
+    // A sale in the past must not leave a later sale without units.
+    const after = computePosition([...trades, trade]);
+    return after.oversold > 0 ? 'La venta deja sin unidades a una venta posterior' : null;
+}
+
+/**
+ * Simple interest of a fixed-term deposit: principal × TNA × days / 365, as Argentine banks quote it.
+ */
+export function depositInterest(principal: number, tna: number, startDate: string, endDate: string) {
+    const days = Math.max(0, daysBetween(startDate, endDate));
+    return round(principal * (tna / 100) * (days / 365));
+}
+
+/**
+ * Values every holding on `asOf`. Market holdings use the last quote loaded on or before that date, or the
+ * last trade price; deposits accrue interest day by day until maturity. The capital of a deposit never leaves its
+ * account (it is already in that balance), so a deposit is only worth its accrued interest; `price` keeps the
+ * capital plus interest for display. Matured or closed deposits are worth nothing (their interest is already an
+ * income movement).
+ */
+export function valueHoldings(
+    holdings: InvestmentHoldingRow[],
+    trades: InvestmentTradeRow[],
+    prices: InvestmentPriceRow[],
+    asOf: string
+): HoldingValuation[] {
+    const quotes = buildIndexLookup(
+        prices.filter((row) => row.date <= asOf).map((row) => ({ series: row.holding_id, date: row.date, value: toNumber(row.price) }))
+    );
+
+    return holdings.map((holding) => {
+        const base = {
+            id: holding.id,
+            name: holding.name,
+            kind: holding.kind,
+            symbol: holding.symbol || null,
+            currency: normalizeCurrency(holding.currency),
+            status: holding.status,
+            maturity_date: holding.maturity_date || null,
+        };
+
+        if (holding.kind === 'plazo_fijo') {
+            const principal = toNumber(holding.principal);
+            const start = holding.start_date || asOf;
+            const maturity = holding.maturity_date || asOf;
+            const interest = depositInterest(principal, toNumber(holding.tna), start, maturity);
+            const isOpen = holding.status === 'active' && start <= asOf;
+            const accrued = depositInterest(principal, toNumber(holding.tna), start, asOf < maturity ? asOf : maturity);
+            return {
+                ...base,
+                quantity: isOpen ? 1 : 0,
+                cost_basis: 0,
+                realized: holding.status === 'matured' ? interest : 0,
+                price: isOpen ? round(principal + accrued) : null,
+                price_date: isOpen ? asOf : null,
+                price_source: 'deposit' as const,
+                market_value: isOpen ? accrued : 0,
+                unrealized: isOpen ? accrued : 0,
+                interest,
+            };
+        }
+
+        const holdingTrades = trades.filter((trade) => trade.holding_id === holding.id && trade.date <= asOf);
+        const position = computePosition(holdingTrades);
+        const quote = quotes(holding.id, asOf);
+        const lastTrade = [...holdingTrades].sort((a, b) => a.date.localeCompare(b.date)).pop();
+        const price = quote ? quote.value : lastTrade ? toNumber(lastTrade.price) : null;
+        const marketValue = price != null ? round(position.quantity * price) : 0;
+
+        return {
+            ...base,
+            quantity: position.quantity,
+            cost_basis: position.cost_basis,
+            realized: position.realized,
+            price,
+            price_date: quote ? quote.date : lastTrade?.date || null,
+            price_source: quote ? 'quote' as const : lastTrade ? 'trade' as const : null,
+            market_value: marketValue,
+            unrealized: price != null ? round(marketValue - position.cost_basis) : 0,
+            interest: null,
+        };
+    });
+}
+
+// Active deposits whose maturity date has arrived and still owe their interest movement.
+export function dueDeposits(holdings: InvestmentHoldingRow[], today: string) {
+    return holdings.filter((holding) => (
+        holding.kind === 'plazo_fijo'
+        && holding.status === 'active'
+        && Boolean(holding.maturity_date)
+        && (holding.maturity_date as string) <= today
+    ));
+}
+
+export function isMissingInvestmentsTableError(message?: string | null) {
+    if (!message) return false;
+    const value = message.toLowerCase();
+    return value.includes('investment_')
+        && (value.includes('schema cache') || value.includes('does not exist'));
+}
+
+/**
+ * Holdings of a space valued on `asOf`; an empty list when the investments tables are missing.
+ */
+export async function loadHoldingValuations(supabase: SupabaseClient, spaceId: string, asOf: string) {
+    const { data: holdings, error } = await supabase
+        .from('investment_holdings')
+        .select('*')
+        .eq('space_id', spaceId)
+        .neq('status', 'closed');
+
+    if (error) {
+        if (!isMissingInvestmentsTableError(error.message)) {
+            logWarn('investment_holdings_load_failed', { spaceId, reason: error.message });
+        }
+        return [];
+    }
+    if (!holdings?.length) return [];
+
+    const holdingIds = holdings.map((holding: any) => holding.id as string);
+    const [tradesResult, pricesResult] = await Promise.all([
+        supabase.from('investment_trades').select('holding_id, side, date, quantity, price, fees').in('holding_id', holdingIds).lte('date', asOf),
+        supabase.from('investment_prices').select('holding_id, date, price').in('holding_id', holdingIds).lte('date', asOf),
+    ]);
+
+    if (tradesResult.error) logWarn('investment_trades_load_failed', { spaceId, reason: tradesResult.error.message });
+    if (pricesResult.error) logWarn('investment_prices_load_failed', { spaceId, reason: pricesResult.error.message });
+
+    return valueHoldings(
+        holdings as InvestmentHoldingRow[],
+        (tradesResult.data || []) as InvestmentTradeRow[],
+        (pricesResult.data || []) as InvestmentPriceRow[],
+        asOf
+    );
+}
+
+export type DepositSettlement = {
+    holding_id: string;
+    name: string;
+    interest: number;
+    transaction_id: string | null;
+    error?: string;
+};
+
+/**
+ * Books the interest of every matured deposit as an income movement on its account (the default one when
+ * it has none) and marks the deposit as matured. The deposit is claimed first (`status = 'active'` guard),
+ * so two runs at the same time never book the interest twice; a failed insert puts it back to active.
+ */
+export async function settleMaturedDeposits(
+    supabase: SupabaseClient,
+    params: { spaceId: string; userId: string | null; today: string }
+): Promise<DepositSettlement[]> {
+    const { data, error } = await supabase
+        .from('investment_holdings')
+        .select('*')
+        .eq('space_id', params.spaceId)
+        .eq('kind', 'plazo_fijo')
+        .eq('status', 'active')
+        .lte('maturity_date', params.today);
+
+    if (error) {
+        if (isMissingInvestmentsTableError(error.message)) return [];
+        throw new Error(error.message);
+    }
+
+    const settlements: DepositSettlement[] = [];
+    for (const holding of dueDeposits((data || []) as InvestmentHoldingRow[], params.today)) {
+        const maturity = holding.maturity_date as string;
+        const interest = depositInterest(toNumber(holding.principal), toNumber(holding.tna), holding.start_date || maturity, maturity);
+        const settlement: DepositSettlement = { holding_id: holding.id, name: holding.name, interest, transaction_id: null };
+        settlements.push(settlement);
+
+        const { data: claimed } = await supabase
+            .from('investment_holdings')
+            .update({ status: 'matured', updated_at: new Date().toISOString() })
+            .eq('id', holding.id)
+            .eq('status', 'active')
+            .select('id');
+        if (!claimed?.length) {
+            settlement.error = 'Ya procesado en otra corrida';
+            continue;
+        }
+        // A 0% deposit only matures; there is no income to book.
+        if (interest <= 0) continue;
+
+        const actorId = params.userId || holding.user_id || null;
+        try {
+            const currency = normalizeCurrency(holding.currency);
+            let fxRate: number | null = null;
+            let fxSource: string | null = null;
+            if (currency !== BASE_CURRENCY) {
+                const quote = await getExchangeRate({
+                    store: createSupabaseFxRateStore(supabase, params.spaceId),
+                    provider: createDolarApiProvider(),
+                    request: { rateType: 'oficial', date: maturity },
+                });
+                if (!quote) throw new Error(`Sin cotización ${currency} para ${maturity}`);
+                fxRate = quote.sell;
+                fxSource = quote.source;
+            }
+
+            const accountId = holding.account_id
+                || (actorId ? await ensureDefaultAccount(supabase, params.spaceId, actorId) : null);
+            const { data: inserted, error: insertError } = await supabase
+                .from('transactions')
+                .insert({
+                    user_id: actorId,
+                    space_id: params.spaceId,
+                    type: 'income',
+                    ...resolveFxSnapshot({ currency, amount: interest, fx_rate: fxRate, fx_source: fxSource }),
+                    description: `Intereses plazo fijo ${holding.name}`,
+                    category: DEPOSIT_INTEREST_CATEGORY,
+                    date: maturity,
+                    account_id: accountId,
+                })
+                .select('id')
+                .single();
+            if (insertError) throw new Error(insertError.message);
+
+            settlement.transaction_id = inserted.id;
+            await supabase
+                .from('investment_holdings')
+                .update({ interest_transaction_id: inserted.id })
+                .eq('id', holding.id);
+
+            if (actorId) {
+                await recordAuditEvent({
+                    supabase,
+                    userId: actorId,
+                    spaceId: params.spaceId,
+                    entityType: 'investment_holding',
+                    entityId: holding.id,
+                    action: 'system',
+                    metadata: { event: 'deposit_matured', interest, currency, transactionId: inserted.id, maturity },
+                });
+            }
+        } catch (settleError) {
+            settlement.error = settleError instanceof Error ? settleError.message : String(settleError);
+            await supabase
+                .from('investment_holdings')
+                .update({ status: 'active', updated_at: new Date().toISOString() })
+                .eq('id', holding.id);
+            logWarn('deposit_settlement_failed', { spaceId: params.spaceId, holdingId: holding.id, reason: settlement.error });
+        }
+    }
+
+    return settlements;
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+    allocateLoanPayment,
+    buildAmortizationSchedule,
+    loanDebtFields,
+    loanStateFromDebt,
+    loanStateFromTerms,
+    scheduleTotals,
+    simulatePrepayment,
+    uvaValueError,
+    type LoanState,
+} from './loans';
+
+// 12% TNA: 1% a month.
+const french: LoanState = { system: 'french', balance: 100000, monthly_rate: 0.01, remaining_installments: 12, next_number: 1, next_date: '2026-01-10' };
+
+describe('buildAmortizationSchedule', () => {
+    it('should keep the French installment constant and close the balance', () => {
+        const rows = buildAmortizationSchedule(french);
+
+        expect(rows).toHaveLength(12);
+        expect(rows[0]).toMatchObject({ number: 1, due_date: '2026-01-10', interest: 1000 });
+        expect(rows[0].installment).toBeCloseTo(8884.88, 2);
+        expect(rows[11].installment).toBeCloseTo(8884.88, 2);
+        expect(rows[11]).toMatchObject({ due_date: '2026-12-10', balance: 0 });
+        expect(scheduleTotals(rows).interest).toBeCloseTo(6618.55, 1);
+    });
+
+    it('should amortize the same capital every month with the German system', () => {
+        const rows = buildAmortizationSchedule({ ...french, system: 'german', balance: 120000 });
+
+        expect(rows.map((row) => row.principal).every((principal) => principal === 10000)).toBe(true);
+        expect(rows[0].installment).toBe(11200);
+        expect(rows[11].installment).toBe(10100);
+        expect(scheduleTotals(rows).interest).toBe(7800);
+    });
+});
+
+describe('allocateLoanPayment', () => {
+    it('should split an installment into interest and capital', () => {
+        const allocation = allocateLoanPayment(french, 8884.88);
+
+        expect(allocation.interest).toBe(1000);
+        expect(allocation.principal).toBeCloseTo(7884.88, 2);
+        expect(allocation.prepayment).toBe(0);
+        expect(allocation.next).toMatchObject({ remaining_installments: 11, next_number: 2, next_date: '2026-02-10' });
+    });
+
+    it('should apply the excess as a prepayment that shortens the term or lowers the installment', () => {
+        const shorter = allocateLoanPayment(french, 28884.88, 'reduce_term');
+        const cheaper = allocateLoanPayment(french, 28884.88, 'reduce_installment');
+
+        expect(shorter.prepayment).toBeCloseTo(20000, 2);
+        expect(shorter.next.remaining_installments).toBe(9);
+        expect(cheaper.next.remaining_installments).toBe(11);
+        expect(buildAmortizationSchedule(cheaper.next)[0].installment).toBeLessThan(8884.88);
+    });
+
+    it('should capitalize the interest a short payment does not reach and keep the installment due', () => {
+        const allocation = allocateLoanPayment(french, 600);
+        expect(allocation).toMatchObject({ interest: 600, principal: 0, prepayment: 0, capitalized: 400 });
+        expect(allocation.next).toMatchObject({ balance: 100400, remaining_installments: 12, next_number: 1, next_date: '2026-01-10' });
+    });
+
+    it('should complete an installment split into two payments without a prepayment', () => {
+        const loan: LoanState = { ...french, balance: 1000, remaining_installments: 10 };
+
+        const first = allocateLoanPayment(loan, 50);
+        expect(first).toMatchObject({ interest: 10, principal: 40, prepayment: 0 });
+        expect(first.installment_due).toBeCloseTo(55.58, 2);
+        expect(first.next).toMatchObject({ balance: 960, next_number: 1, remaining_installments: 10 });
+
+        // The interest of the month was already paid: the rest goes to the capital the installment scheduled.
+        const second = allocateLoanPayment(first.next, 55.58, 'reduce_term', { earlier: { interest: 10, principal: 40 } });
+        expect(second).toMatchObject({ interest: 0, principal: 55.58, prepayment: 0 });
+        expect(second.next).toMatchObject({ balance: 904.42, next_number: 2, remaining_installments: 9, next_date: '2026-02-10' });
+    });
+
+    it('should still schedule the original capital after capitalizing interest', () => {
+        const loan: LoanState = { ...french, balance: 1000, remaining_installments: 10 };
+
+        const first = allocateLoanPayment(loan, 6);
+        expect(first).toMatchObject({ interest: 6, capitalized: 4 });
+        expect(first.installment_due).toBeCloseTo(95.58, 2);
+
+        const second = allocateLoanPayment(first.next, 95.58, 'reduce_term', { earlier: { interest: 6, principal: 0 } });
+        expect(second).toMatchObject({ principal: 95.58, prepayment: 0 });
+        expect(second.next).toMatchObject({ balance: 908.42, next_number: 2 });
+    });
+});
+
+describe('simulatePrepayment', () => {
+    it('should save more interest reducing the term than reducing the installment', () => {
+        const term = simulatePrepayment(french, 30000, 'reduce_term');
+        const installment = simulatePrepayment(french, 30000, 'reduce_installment');
+
+        expect(term.installments_after).toBeLessThan(term.installments_before);
+        expect(term.installment_after).toBeLessThanOrEqual(term.installment_before);
+        expect(installment.installments_after).toBe(12);
+        expect(installment.installment_after).toBeCloseTo(8884.88 * 0.7, 1);
+        expect(term.interest_saved).toBeGreaterThan(installment.interest_saved);
+    });
+});
+
+describe('loan debt rows', () => {
+    it('should start a loaded loan after its paid installments and price UVA loans in pesos', () => {
+        const state = loanStateFromTerms({
+            loan_system: 'uva',
+            principal: 10000,
+            annual_rate: 12,
+            total_installments: 12,
+            paid_installments: 3,
+            first_payment_date: '2025-10-05',
+        });
+
+        expect(state).toMatchObject({ next_number: 4, remaining_installments: 9, next_date: '2026-01-05' });
+        const fields = loanDebtFields(state, 1500);
+        expect(fields.total_amount).toBeCloseTo(state.balance * 1500, 1);
+        expect(fields.monthly_payment).toBeCloseTo(888.488 * 1500, 0);
+
+        expect(loanStateFromDebt({ ...fields, loan_system: 'uva', annual_rate: 12, total_installments: 12 })).toMatchObject({
+            next_number: 4,
+            balance: state.balance,
+        });
+        expect(loanStateFromDebt({ loan_system: null })).toBeNull();
+    });
+});
+
+describe('uvaValueError', () => {
+    it('should only convert a payment with a UVA value from the last week', () => {
+        expect(uvaValueError({ date: '2026-03-05', value: 1500 }, '2026-03-10')).toBeNull();
+        expect(uvaValueError({ date: '2026-03-03', value: 1500 }, '2026-03-10')).toBeNull();
+        expect(uvaValueError({ date: '2026-03-02', value: 1500 }, '2026-03-10')).toMatch(/2026-03-02/);
+        expect(uvaValueError(null, '2026-03-10')).toMatch(/Cargá la serie UVA/);
+    });
+});
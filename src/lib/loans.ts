@@ -0,0 +1,351 @@
+import { addMonthsIso } from '@/lib/installments';
+import { monthlyRate, type DebtRateKind } from '@/lib/debt-payoff';
+
+export type LoanSystem = 'french' | 'german' | 'uva';
+export type PrepaymentMode = 'reduce_installment' | 'reduce_term';
+
+export const LOAN_SYSTEMS: LoanSystem[] = ['french', 'german', 'uva'];
+
+export const LOAN_SYSTEM_LABELS: Record<LoanSystem, string> = {
+    french: 'Francés (cuota constante)',
+    german: 'Alemán (amortización constante)',
+    uva: 'UVA (francés en UVAs)',
+};
+
+export const PREPAYMENT_MODE_LABELS: Record<PrepaymentMode, string> = {
+    reduce_installment: 'Reducir cuota',
+    reduce_term: 'Reducir plazo',
+};
+
+// index_values series that converts the installments of a UVA loan to pesos.
+export const UVA_SERIES = 'UVA';
+
+// The UVA is published every day: a value this many days older than the payment means the series was not updated.
+export const STALE_UVA_DAYS = 7;
+
+/**
+ * Where a loan stands before its next installment. `balance` is the capital still owed in loan units: pesos for
+ * the French and German systems, UVAs for a UVA loan.
+ */
+export type LoanState = {
+    system: LoanSystem;
+    balance: number;
+    monthly_rate: number;
+    remaining_installments: number;
+    next_number: number;
+    next_date: string;
+};
+
+export type AmortizationRow = {
+    number: number;
+    due_date: string;
+    installment: number;
+    interest: number;
+    principal: number;
+    balance: number;
+};
+
+export type LoanPaymentAllocation = {
+    interest: number;
+    principal: number;
+    // Capital paid on top of the scheduled installment.
+    prepayment: number;
+    // Interest a payment short of it added to the capital.
+    capitalized: number;
+    // What the next payment is expected to be: the rest of this installment while it is due, else the next one.
+    installment_due: number;
+    next: LoanState;
+};
+
+export type PrepaymentSimulation = {
+    installment_before: number;
+    installment_after: number;
+    installments_before: number;
+    installments_after: number;
+    interest_before: number;
+    interest_after: number;
+    interest_saved: number;
+};
+
+// Minimal shape of a stored debt with the columns of supabase-loans.sql.
+export type LoanDebtRow = {
+    loan_system?: LoanSystem | string | null;
+    principal_balance?: number | string | null;
+    annual_rate?: number | string | null;
+    rate_kind?: DebtRateKind | string | null;
+    total_installments?: number | string | null;
+    remaining_installments?: number | string | null;
+    next_payment_date?: string | null;
+};
+
+export type LoanTerms = {
+    loan_system: LoanSystem;
+    principal: number;
+    annual_rate?: number | null;
+    rate_kind?: DebtRateKind | null;
+    total_installments: number;
+    // Installments already paid when the loan is loaded.
+    paid_installments?: number;
+    first_payment_date: string;
+};
+
+function toNumber(value: unknown) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : 0;
+}
+
+// Four decimals so UVA balances keep their precision; peso amounts are rounded when stored.
+function round(value: number) {
+    return Math.round(value * 10000) / 10000;
+}
+
+function roundMoney(value: number) {
+    return Math.round(value * 100) / 100;
+}
+
+export function isLoanSystem(value: unknown): value is LoanSystem {
+    return LOAN_SYSTEMS.includes(value as LoanSystem);
+}
+
+/** Installment that repays `balance` in `count` equal payments (French system). */
+export function frenchInstallment(balance: number, rate: number, count: number) {
+    if (count <= 0) return balance;
+    if (rate <= 0) return balance / count;
+    return (balance * rate) / (1 - Math.pow(1 + rate, -count));
+}
+
+function scheduledPrincipal(state: LoanState) {
+    if (state.balance <= 0) return 0;
+    const count = Math.max(state.remaining_installments, 1);
+    if (state.system === 'german') return Math.min(state.balance / count, state.balance);
+    return Math.min(frenchInstallment(state.balance, state.monthly_rate, count) - state.balance * state.monthly_rate, state.balance);
+}
+
+/** Installment due next, in loan units. */
+export function nextInstallment(state: LoanState) {
+    if (state.balance <= 0) return 0;
+    return round(scheduledPrincipal(state) + state.balance * state.monthly_rate);
+}
+
+/**
+ * Rows left of the loan from its current state. French and UVA loans pay a constant installment; German loans
+ * amortize the same capital every month, so the installment falls with the interest.
+ */
+export function buildAmortizationSchedule(state: LoanState): AmortizationRow[] {
+    const rows: AmortizationRow[] = [];
+    let current = state;
+
+    while (current.balance > 0.00005 && current.remaining_installments > 0) {
+        const interest = round(current.balance * current.monthly_rate);
+        const principal = current.remaining_installments === 1 ? round(current.balance) : round(scheduledPrincipal(current));
+        const balance = round(Math.max(current.balance - principal, 0));
+        rows.push({
+            number: current.next_number,
+            due_date: current.next_date,
+            installment: round(interest + principal),
+            interest,
+            principal,
+            balance,
+        });
+        current = {
+            ...current,
+            balance,
+            remaining_installments: current.remaining_installments - 1,
+            next_number: current.next_number + 1,
+            next_date: addMonthsIso(state.next_date, rows.length),
+        };
+    }
+
+    return rows;
+}
+
+export function scheduleTotals(rows: AmortizationRow[]) {
+    return {
+        installments: rows.length,
+        interest: round(rows.reduce((sum, row) => sum + row.interest, 0)),
+        paid: round(rows.reduce((sum, row) => sum + row.installment, 0)),
+    };
+}
+
+/**
+ * Installments left once the capital drops to `balance`. Reducing the installment keeps the term; reducing the
+ * term keeps the French installment (or the German amortization) and pays off sooner. The term is rounded up to
+ * whole months and the schedule recomputed over it, so a French installment can end up somewhat lower.
+ */
+function remainingAfter(state: LoanState, balance: number, mode: PrepaymentMode) {
+    if (balance <= 0.00005) return 0;
+    if (mode === 'reduce_installment') return Math.max(state.remaining_installments, 1);
+
+    if (state.system === 'german') {
+        const amortization = state.balance / Math.max(state.remaining_installments, 1);
+        return Math.max(Math.ceil(balance / amortization - 1e-9), 1);
+    }
+
+    const installment = frenchInstallment(state.balance, state.monthly_rate, Math.max(state.remaining_installments, 1));
+    if (state.monthly_rate <= 0) return Math.max(Math.ceil(balance / installment - 1e-9), 1);
+    const count = -Math.log(1 - (state.monthly_rate * balance) / installment) / Math.log(1 + state.monthly_rate);
+    return Math.max(Math.ceil(count - 1e-9), 1);
+}
+
+/**
+ * Splits a payment (in loan units) into the interest of the month and capital. A payment that completes the
+ * installment moves the loan to the next one, and what exceeds its scheduled capital is a prepayment handled by
+ * `mode`. A shorter payment goes toward the same installment, which stays due: the interest it does not reach is
+ * capitalized. `earlier` is what previous payments of this installment already imputed; the first of them paid or
+ * capitalized its interest, so none accrues again and they count toward the capital the installment scheduled.
+ */
+export function allocateLoanPayment(
+    state: LoanState,
+    payment: number,
+    mode: PrepaymentMode = 'reduce_term',
+    options: { earlier?: { interest: number; principal: number } } = {}
+): LoanPaymentAllocation {
+    const earlier = options.earlier ?? { interest: 0, principal: 0 };
+    const settled = earlier.interest > 0 || earlier.principal > 0;
+
+    // Capital the installment started from: an earlier payment short of the interest capitalized the rest of it.
+    let startBalance = state.balance + earlier.principal;
+    if (settled && earlier.interest < round(startBalance * state.monthly_rate) - 0.01) {
+        startBalance = (state.balance + earlier.principal + earlier.interest) / (1 + state.monthly_rate);
+    }
+
+    const accrued = settled ? 0 : round(state.balance * state.monthly_rate);
+    const interest = round(Math.min(Math.max(payment, 0), accrued));
+    const capitalized = round(accrued - interest);
+    const principal = round(Math.min(Math.max(payment - interest, 0), state.balance));
+    const regular = state.remaining_installments <= 1
+        ? state.balance + earlier.principal
+        : scheduledPrincipal({ ...state, balance: startBalance });
+    const due = Math.max(regular - earlier.principal, 0);
+    const balance = round(Math.max(state.balance - principal, 0) + capitalized);
+
+    // Sub-cent leftovers of rounding the payment neither leave the installment unpaid nor are a prepayment.
+    if (principal < due - 0.01) {
+        return {
+            interest,
+            principal,
+            prepayment: 0,
+            capitalized,
+            installment_due: round(due - principal),
+            next: { ...state, balance },
+        };
+    }
+
+    const excess = round(Math.max(principal - due, 0));
+    const prepayment = excess > 0.01 ? excess : 0;
+
+    // The month's installment is paid; a prepayment then reshapes what is left.
+    const afterInstallment: LoanState = {
+        ...state,
+        balance: round(state.balance - (principal - prepayment)),
+        remaining_installments: Math.max(state.remaining_installments - 1, 0),
+    };
+    const remaining = prepayment > 0
+        ? remainingAfter(afterInstallment, balance, mode)
+        : balance > 0.00005 ? Math.max(afterInstallment.remaining_installments, 1) : 0;
+    const next: LoanState = {
+        ...state,
+        balance,
+        remaining_installments: remaining,
+        next_number: state.next_number + 1,
+        next_date: addMonthsIso(state.next_date, 1),
+    };
+
+    return {
+        interest,
+        principal,
+        prepayment,
+        capitalized: 0,
+        installment_due: nextInstallment(next),
+        next,
+    };
+}
+
+/** Compares the rest of the loan with and without an extra capital payment made before the next installment. */
+export function simulatePrepayment(state: LoanState, amount: number, mode: PrepaymentMode): PrepaymentSimulation {
+    const before = buildAmortizationSchedule(state);
+    const balance = round(Math.max(state.balance - Math.max(amount, 0), 0));
+    const after = buildAmortizationSchedule({ ...state, balance, remaining_installments: remainingAfter(state, balance, mode) });
+    const totalsBefore = scheduleTotals(before);
+    const totalsAfter = scheduleTotals(after);
+
+    return {
+        installment_before: before[0]?.installment ?? 0,
+        installment_after: after[0]?.installment ?? 0,
+        installments_before: totalsBefore.installments,
+        installments_after: totalsAfter.installments,
+        interest_before: totalsBefore.interest,
+        interest_after: totalsAfter.interest,
+        interest_saved: round(totalsBefore.interest - totalsAfter.interest),
+    };
+}
+
+/**
+ * Why a UVA value cannot convert a payment made on `date`, or null when it can. `value` is the last one stored on
+ * or before that date.
+ */
+export function uvaValueError(value: { date: string; value: number } | null, date: string) {
+    if (!value || !(value.value > 0)) return 'Cargá la serie UVA en Índices para imputar el pago del préstamo.';
+    const days = Math.round((Date.parse(`${date}T00:00:00Z`) - Date.parse(`${value.date}T00:00:00Z`)) / 86_400_000);
+    return days > STALE_UVA_DAYS
+        ? `El último valor UVA cargado es del ${value.date}: actualizá la serie en Índices para imputar el pago.`
+        : null;
+}
+
+export function loanStateFromDebt(debt: LoanDebtRow): LoanState | null {
+    if (!isLoanSystem(debt.loan_system)) return null;
+    const total = Math.max(Math.trunc(toNumber(debt.total_installments)), 1);
+    const remaining = Math.max(Math.trunc(toNumber(debt.remaining_installments)), 0);
+    return {
+        system: debt.loan_system,
+        balance: Math.max(toNumber(debt.principal_balance), 0),
+        monthly_rate: monthlyRate(debt.annual_rate, debt.rate_kind),
+        remaining_installments: remaining,
+        next_number: Math.max(total - remaining + 1, 1),
+        next_date: String(debt.next_payment_date || ''),
+    };
+}
+
+/**
+ * Debt columns of a loan at `state`. `unitValue` converts loan units to pesos (the UVA value, 1 otherwise), so
+ * `total_amount` and `monthly_payment` keep meaning the same as for any other debt.
+ */
+export function loanDebtFields(state: LoanState, unitValue = 1) {
+    return {
+        principal_balance: round(state.balance),
+        remaining_installments: state.remaining_installments,
+        next_payment_date: state.next_date,
+        total_amount: roundMoney(state.balance * unitValue),
+        monthly_payment: roundMoney(nextInstallment(state) * unitValue),
+    };
+}
+
+/** State of a new loan after the installments already paid, following its original schedule. */
+export function loanStateFromTerms(terms: LoanTerms): LoanState {
+    const paid = Math.min(Math.max(Math.trunc(terms.paid_installments || 0), 0), terms.total_installments - 1);
+    const initial: LoanState = {
+        system: terms.loan_system,
+        balance: round(terms.principal),
+        monthly_rate: monthlyRate(terms.annual_rate, terms.rate_kind),
+        remaining_installments: terms.total_installments,
+        next_number: 1,
+        next_date: terms.first_payment_date,
+    };
+    if (paid === 0) return initial;
+
+    const row = buildAmortizationSchedule(initial)[paid - 1];
+    return {
+        ...initial,
+        balance: row.balance,
+        remaining_installments: terms.total_installments - paid,
+        next_number: paid + 1,
+        next_date: addMonthsIso(terms.first_payment_date, paid),
+    };
+}
+
+export function isMissingLoanColumnError(message?: string | null) {
+    if (!message) return false;
+    const value = message.toLowerCase();
+    return (value.includes('loan_system') || value.includes('principal_balance') || value.includes('loan_payments'))
+        && (value.includes('schema cache') || value.includes('does not exist') || value.includes('column'));
+}
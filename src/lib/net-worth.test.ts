@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import type { AccountWithBalance } from './accounts';
+import type { FxRateLookup } from './currency';
+import {
+    computeNetWorth,
+    netWorthChange,
+    netWorthChartRows,
+    previousMonthEnd,
+    snapshotInCurrency,
+    withAsOfRate,
+    type NetWorthSnapshot,
+} from './net-worth';
+
+function account(overrides: Partial<AccountWithBalance>): AccountWithBalance {
+    return {
+        id: 'acc',
+        name: 'Cuenta',
+        kind: 'bank',
+        currency: 'ARS',
+        opening_balance: 0,
+        balance: 0,
+        movements_count: 0,
+        missing_rates: 0,
+        ...overrides,
+    };
+}
+
+const lookup: FxRateLookup = (currency) => (currency === 'USD' ? 1000 : null);
+
+describe('computeNetWorth', () => {
+    it('should classify accounts, assets and debts and count linked accounts once', () => {
+        const breakdown = computeNetWorth({
+            accounts: [
+                account({ id: 'bank', balance: 500000 }),
+                account({ id: 'usd', currency: 'USD', balance: 200 }),
+                account({ id: 'broker', kind: 'brokerage', balance: 300000 }),
+                account({ id: 'card', kind: 'credit_card', balance: -80000 }),
+                account({ id: 'old', balance: 999, is_archived: true }),
+            ],
+            assets: [
+                { id: 'car', name: 'Auto', asset_class: 'vehicle', valuation_mode: 'manual', currency: 'USD', value: '9000' },
+                { id: 'fci', name: 'FCI', asset_class: 'investment', valuation_mode: 'account', currency: 'ARS', account_id: 'broker' },
+                { id: 'gone', name: 'Vendido', asset_class: 'property', valuation_mode: 'manual', currency: 'ARS', value: 1, is_archived: true },
+            ],
+            debts: [
+                { id: 'loan', name: 'Préstamo', total_amount: 1000000, remaining_installments: 10 },
+                { id: 'paid', name: 'Pagada', total_amount: 50000, remaining_installments: 0 },
+            ],
+            currency: 'ARS',
+            lookup,
+            asOf: '2026-03-31',
+        });
+
+        expect(breakdown.assets).toEqual({ cash: 500000, usd_savings: 200000, investment: 300000, property: 0, vehicle: 9000000, other: 0 });
+        expect(breakdown.liabilities).toEqual({ debts: 1000000, cards: 80000 });
+        expect(breakdown.total_assets).toBe(10000000);
+        expect(breakdown.net_worth).toBe(8920000);
+        expect(breakdown.items.filter((item) => item.id === 'broker')).toEqual([]);
+    });
+
+    it('should leave out amounts without an exchange rate and count them', () => {
+        const breakdown = computeNetWorth({
+            accounts: [account({ id: 'bank', balance: 1000 })],
+            assets: [{ id: 'usd', name: 'Dólares', asset_class: 'usd_savings', valuation_mode: 'manual', currency: 'USD', value: 100 }],
+            debts: [],
+            currency: 'ARS',
+            lookup: () => null,
+            asOf: '2026-03-31',
+        });
+
+        expect(breakdown.net_worth).toBe(1000);
+        expect(breakdown.missing_rates).toBe(1);
+    });
+});
+
+describe('withAsOfRate', () => {
+    it('should value USD balances at the stored quote even without USD movements', () => {
+        const breakdown = computeNetWorth({
+            accounts: [account({ id: 'usd', currency: 'USD', balance: 300 })],
+            assets: [],
+            debts: [],
+            currency: 'ARS',
+            lookup: withAsOfRate(() => null, '2026-03-31', 1100),
+            asOf: '2026-03-31',
+        });
+
+        expect(breakdown.net_worth).toBe(330000);
+        expect(breakdown.missing_rates).toBe(0);
+        expect(withAsOfRate(lookup, '2026-03-31', 1100)('USD', '2026-02-28')).toBe(1000);
+        expect(withAsOfRate(lookup, '2026-03-31', null)('USD', '2026-03-31')).toBe(1000);
+    });
+});
+
+describe('net worth snapshots', () => {
+    const snapshots: NetWorthSnapshot[] = [
+        {
+            month: '2026-02',
+            as_of: '2026-02-28',
+            currency: 'ARS',
+            total_assets: 2000000,
+            total_liabilities: 500000,
+            net_worth: 1500000,
+            assets: { cash: 1000000, property: 1000000 },
+            liabilities: { debts: 500000 },
+            usd_rate: 1000,
+        },
+        {
+            month: '2026-01',
+            as_of: '2026-01-31',
+            currency: 'ARS',
+            total_assets: 1000000,
+            total_liabilities: 0,
+            net_worth: 1000000,
+            assets: { cash: 1000000 },
+            liabilities: {},
+            usd_rate: null,
+        },
+    ];
+
+    it('should convert stored ARS snapshots with their own rate', () => {
+        expect(snapshotInCurrency(snapshots[0], 'USD')?.net_worth).toBe(1500);
+        expect(snapshotInCurrency(snapshots[1], 'USD')).toBeNull();
+    });
+
+    it('should chart liabilities below zero and append the live figure', () => {
+        const current = computeNetWorth({
+            accounts: [account({ id: 'bank', balance: 1800000 })],
+            assets: [],
+            debts: [],
+            currency: 'ARS',
+            asOf: '2026-03-15',
+        });
+        const rows = netWorthChartRows(snapshots, 'ARS', current);
+
+        expect(rows.map((row) => row.month)).toEqual(['2026-01', '2026-02', '2026-03']);
+        expect(rows[1]).toMatchObject({ cash: 1000000, property: 1000000, debts: -500000, net_worth: 1500000, is_current: false });
+        expect(rows[2]).toMatchObject({ cash: 1800000, is_current: true });
+        expect(netWorthChange(snapshots, current)).toEqual({ month: '2026-02', delta: 300000, percent: 20 });
+    });
+
+    it('should close the previous month', () => {
+        expect(previousMonthEnd('2026-03-01')).toBe('2026-02-28');
+        expect(previousMonthEnd('2026-01-01')).toBe('2025-12-31');
+    });
+});
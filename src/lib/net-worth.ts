@@ -0,0 +1,459 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+    computeAccountBalances,
+    convertAccountBalance,
+    loadAccountMovements,
+    type AccountKind,
+    type AccountRow,
+    type AccountWithBalance,
+} from '@/lib/accounts';
+import {
+    BASE_CURRENCY,
+    buildSnapshotRateLookup,
+    normalizeCurrency,
+    toReportingAmount,
+    type CurrencyCode,
+    type FxRateLookup,
+} from '@/lib/currency';
+import { createDolarApiProvider, createSupabaseFxRateStore, getExchangeRate } from '@/lib/exchange-rates';
+import { loadHoldingValuations, type HoldingValuation } from '@/lib/investments';
+
+export type AssetClass = 'cash' | 'usd_savings' | 'investment' | 'property' | 'vehicle' | 'other';
+export type LiabilityClass = 'debts' | 'cards';
+export type AssetValuationMode = 'manual' | 'account';
+export type NetWorthSnapshotTrigger = 'cron' | 'manual';
+
+export const ASSET_CLASSES: AssetClass[] = ['cash', 'usd_savings', 'investment', 'property', 'vehicle', 'other'];
+export const LIABILITY_CLASSES: LiabilityClass[] = ['debts', 'cards'];
+
+export const ASSET_CLASS_LABELS: Record<AssetClass, string> = {
+    cash: 'Liquidez',
+    usd_savings: 'Ahorro en USD',
+    investment: 'Inversiones',
+    property: 'Inmuebles',
+    vehicle: 'Vehículos',
+    other: 'Otros',
+};
+
+export const LIABILITY_CLASS_LABELS: Record<LiabilityClass, string> = {
+    debts: 'Deudas',
+    cards: 'Tarjetas',
+};
+
+export type AssetRow = {
+    id: string;
+    name: string;
+    asset_class: AssetClass;
+    valuation_mode: AssetValuationMode;
+    currency: string;
+    // Manual valuation in the asset currency; derived assets read the linked account balance instead.
+    value?: number | string | null;
+    account_id?: string | null;
+    valued_at?: string | null;
+    is_archived?: boolean | null;
+};
+
+export type NetWorthDebtRow = {
+    id: string;
+    name: string;
+    total_amount: number | string;
+    remaining_installments?: number | string | null;
+    currency?: string | null;
+    original_amount?: number | string | null;
+    fx_rate?: number | string | null;
+};
+
+export type NetWorthItem = {
+    source: 'account' | 'asset' | 'investment' | 'debt';
+    id: string;
+    name: string;
+    side: 'asset' | 'liability';
+    class: AssetClass | LiabilityClass;
+    currency: CurrencyCode;
+    // Amount in its own currency and converted; liabilities are positive amounts owed.
+    original: number;
+    amount: number;
+    missing_rate: boolean;
+};
+
+export type NetWorthBreakdown = {
+    as_of: string;
+    currency: CurrencyCode;
+    assets: Record<AssetClass, number>;
+    liabilities: Record<LiabilityClass, number>;
+    total_assets: number;
+    total_liabilities: number;
+    net_worth: number;
+    items: NetWorthItem[];
+    missing_rates: number;
+};
+
+export type NetWorthSnapshot = {
+    month: string;
+    as_of: string;
+    currency: CurrencyCode;
+    total_assets: number;
+    total_liabilities: number;
+    net_worth: number;
+    assets: Partial<Record<AssetClass, number>>;
+    liabilities: Partial<Record<LiabilityClass, number>>;
+    // ARS per USD on `as_of`, so stored ARS totals can be shown in USD.
+    usd_rate: number | null;
+    trigger?: NetWorthSnapshotTrigger;
+};
+
+export type NetWorthChartRow = Record<AssetClass | LiabilityClass, number> & {
+    month: string;
+    net_worth: number;
+    // The live figure appended after the stored snapshots.
+    is_current: boolean;
+};
+
+function toNumber(value: unknown) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function round(value: number) {
+    return Math.round(value * 100) / 100;
+}
+
+function emptyTotals<K extends string>(keys: K[]) {
+    return Object.fromEntries(keys.map((key) => [key, 0])) as Record<K, number>;
+}
+
+/**
+ * Class of an account that enters net worth on its own: brokers are investments and dollar accounts are USD
+ * savings. Credit cards owing money are handled as liabilities before this.
+ */
+export function accountAssetClass(account: { kind: AccountKind | string; currency: string }): AssetClass {
+    if (account.kind === 'brokerage') return 'investment';
+    return normalizeCurrency(account.currency) === 'USD' ? 'usd_savings' : 'cash';
+}
+
+export function isActiveDebt(debt: Pick<NetWorthDebtRow, 'total_amount' | 'remaining_installments'>) {
+    return toNumber(debt.total_amount) > 0
+        && (debt.remaining_installments == null || toNumber(debt.remaining_installments) > 0);
+}
+
+/**
+ * Net worth on `asOf` in `currency`: every open account with its balance (cards owing money as liabilities),
+ * the space assets, investment holdings at market value and the active debts. An account linked to a derived
+ * asset is counted once, through the asset and its class. Amounts without an exchange rate are left out and
+ * counted in `missing_rates`.
+ */
+export function computeNetWorth(input: {
+    accounts: AccountWithBalance[];
+    assets: AssetRow[];
+    debts: NetWorthDebtRow[];
+    investments?: HoldingValuation[];
+    currency: CurrencyCode;
+    lookup?: FxRateLookup | null;
+    asOf: string;
+}): NetWorthBreakdown {
+    const items: NetWorthItem[] = [];
+    const openAssets = input.assets.filter((asset) => !asset.is_archived);
+    const accountsById = new Map(input.accounts.map((account) => [account.id, account]));
+    const linkedAccountIds = new Set(
+        openAssets
+            .filter((asset) => asset.valuation_mode === 'account' && asset.account_id)
+            .map((asset) => asset.account_id as string)
+    );
+
+    const convert = (amount: number, currency: CurrencyCode) =>
+        convertAccountBalance(amount, currency, input.currency, input.lookup, input.asOf);
+
+    const pushItem = (item: Omit<NetWorthItem, 'amount' | 'missing_rate'>) => {
+        const converted = convert(item.original, item.currency);
+        items.push({ ...item, amount: round(converted ?? 0), missing_rate: converted == null });
+    };
+
+    input.accounts.forEach((account) => {
+        if (account.is_archived || linkedAccountIds.has(account.id)) return;
+        const currency = normalizeCurrency(account.currency);
+        const owesCard = account.kind === 'credit_card' && account.balance < 0;
+        pushItem({
+            source: 'account',
+            id: account.id,
+            name: account.name,
+            side: owesCard ? 'liability' : 'asset',
+            class: owesCard ? 'cards' : accountAssetClass(account),
+            currency,
+            original: owesCard ? -account.balance : account.balance,
+        });
+    });
+
+    openAssets.forEach((asset) => {
+        const account = asset.valuation_mode === 'account' && asset.account_id ? accountsById.get(asset.account_id) : null;
+        pushItem({
+            source: 'asset',
+            id: asset.id,
+            name: asset.name,
+            side: 'asset',
+            class: asset.asset_class,
+            currency: normalizeCurrency(account ? account.currency : asset.currency),
+            // A derived asset whose account was deleted is worth nothing until it is linked again.
+            original: account ? account.balance : asset.valuation_mode === 'account' ? 0 : toNumber(asset.value),
+        });
+    });
+
+    (input.investments || []).forEach((holding) => {
+        if (holding.market_value <= 0) return;
+        pushItem({
+            source: 'investment',
+            id: holding.id,
+            name: holding.name,
+            side: 'asset',
+            class: 'investment',
+            currency: holding.currency,
+            original: holding.market_value,
+        });
+    });
+
+    input.debts.filter(isActiveDebt).forEach((debt) => {
+        const converted = toReportingAmount(
+            { ...debt, amount: debt.total_amount, date: input.asOf },
+            input.currency,
+            input.lookup
+        );
+        items.push({
+            source: 'debt',
+            id: debt.id,
+            name: debt.name,
+            side: 'liability',
+            class: 'debts',
+            currency: normalizeCurrency(debt.currency),
+            original: normalizeCurrency(debt.currency) === BASE_CURRENCY || debt.original_amount == null
+                ? toNumber(debt.total_amount)
+                : toNumber(debt.original_amount),
+            amount: round(converted ?? 0),
+            missing_rate: converted == null,
+        });
+    });
+
+    const assets = emptyTotals(ASSET_CLASSES);
+    const liabilities = emptyTotals(LIABILITY_CLASSES);
+    items.forEach((item) => {
+        if (item.side === 'asset') assets[item.class as AssetClass] = round(assets[item.class as AssetClass] + item.amount);
+        else liabilities[item.class as LiabilityClass] = round(liabilities[item.class as LiabilityClass] + item.amount);
+    });
+
+    const totalAssets = round(ASSET_CLASSES.reduce((sum, key) => sum + assets[key], 0));
+    const totalLiabilities = round(LIABILITY_CLASSES.reduce((sum, key) => sum + liabilities[key], 0));
+
+    return {
+        as_of: input.asOf,
+        currency: input.currency,
+        assets,
+        liabilities,
+        total_assets: totalAssets,
+        total_liabilities: totalLiabilities,
+        net_worth: round(totalAssets - totalLiabilities),
+        items,
+        missing_rates: items.filter((item) => item.missing_rate).length,
+    };
+}
+
+/**
+ * Snapshot figures in `currency`. Snapshots are stored in ARS; USD uses the rate saved with each one and is
+ * null when the snapshot has none.
+ */
+export function snapshotInCurrency(snapshot: NetWorthSnapshot, currency: CurrencyCode) {
+    const stored = normalizeCurrency(snapshot.currency);
+    let factor = 1;
+    if (stored !== currency) {
+        const rate = toNumber(snapshot.usd_rate);
+        if (rate <= 0) return null;
+        factor = stored === BASE_CURRENCY ? 1 / rate : rate;
+    }
+
+    const assets = emptyTotals(ASSET_CLASSES);
+    const liabilities = emptyTotals(LIABILITY_CLASSES);
+    ASSET_CLASSES.forEach((key) => { assets[key] = round(toNumber(snapshot.assets?.[key]) * factor); });
+    LIABILITY_CLASSES.forEach((key) => { liabilities[key] = round(toNumber(snapshot.liabilities?.[key]) * factor); });
+
+    return {
+        assets,
+        liabilities,
+        total_assets: round(toNumber(snapshot.total_assets) * factor),
+        total_liabilities: round(toNumber(snapshot.total_liabilities) * factor),
+        net_worth: round(toNumber(snapshot.net_worth) * factor),
+    };
+}
+
+/**
+ * Rows for the net-worth-over-time chart, oldest first: assets by class as positive values and liabilities
+ * as negative ones. The live breakdown, when given, replaces the snapshot of its own month.
+ */
+export function netWorthChartRows(
+    snapshots: NetWorthSnapshot[],
+    currency: CurrencyCode,
+    current?: NetWorthBreakdown | null
+): NetWorthChartRow[] {
+    const currentMonth = current?.as_of.slice(0, 7);
+    const rows: NetWorthChartRow[] = [];
+
+    [...snapshots]
+        .filter((snapshot) => snapshot.month !== currentMonth)
+        .sort((a, b) => a.month.localeCompare(b.month))
+        .forEach((snapshot) => {
+            const figures = snapshotInCurrency(snapshot, currency);
+            if (!figures) return;
+            rows.push(chartRow(snapshot.month, figures, false));
+        });
+
+    if (current && currentMonth) rows.push(chartRow(currentMonth, current, true));
+    return rows;
+}
+
+function chartRow(
+    month: string,
+    figures: Pick<NetWorthBreakdown, 'assets' | 'liabilities' | 'net_worth'>,
+    isCurrent: boolean
+): NetWorthChartRow {
+    const row = { month, net_worth: figures.net_worth, is_current: isCurrent } as NetWorthChartRow;
+    ASSET_CLASSES.forEach((key) => { row[key] = figures.assets[key]; });
+    LIABILITY_CLASSES.forEach((key) => { row[key] = -figures.liabilities[key]; });
+    return row;
+}
+
+/**
+ * Change of the live net worth against the last snapshot of an earlier month; null without one.
+ */
+export function netWorthChange(snapshots: NetWorthSnapshot[], current: NetWorthBreakdown) {
+    const currentMonth = current.as_of.slice(0, 7);
+    const previous = [...snapshots]
+        .filter((snapshot) => snapshot.month < currentMonth)
+        .sort((a, b) => b.month.localeCompare(a.month))
+        .find((snapshot) => snapshotInCurrency(snapshot, current.currency));
+    const figures = previous ? snapshotInCurrency(previous, current.currency) : null;
+    if (!previous || !figures) return null;
+
+    const delta = round(current.net_worth - figures.net_worth);
+    return {
+        month: previous.month,
+        delta,
+        percent: figures.net_worth !== 0 ? (delta / Math.abs(figures.net_worth)) * 100 : null,
+    };
+}
+
+// Last day of the month before `date`: the monthly job closes the month that just ended.
+export function previousMonthEnd(date: string) {
+    const [year, month] = date.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, 0)).toISOString().slice(0, 10);
+}
+
+export function isMissingNetWorthTableError(message?: string | null) {
+    if (!message) return false;
+    const value = message.toLowerCase();
+    return (value.includes('assets') || value.includes('net_worth_snapshots'))
+        && (value.includes('schema cache') || value.includes('does not exist'));
+}
+
+/**
+ * Rate lookup where the quote stored for `asOf` wins on that day; other dates, or a day without a quote, fall back
+ * to the snapshots of the movements.
+ */
+export function withAsOfRate(lookup: FxRateLookup, asOf: string, usdRate: number | null): FxRateLookup {
+    if (!usdRate || usdRate <= 0) return lookup;
+    return (currency, date) => (currency === 'USD' && date === asOf ? usdRate : lookup(currency, date));
+}
+
+/**
+ * Loads what net worth is made of and computes it on `asOf`. Account balances, trades and quotes only count up
+ * to that date; assets and debts use their current values. Without `supabase-net-worth.sql` only accounts and debts
+ * are counted.
+ */
+export async function loadNetWorth(
+    supabase: SupabaseClient,
+    spaceId: string,
+    params: { asOf: string; currency: CurrencyCode }
+) {
+    const [accountsResult, movementsResult, assetsResult, debtsResult, investments] = await Promise.all([
+        supabase.from('accounts').select('*').eq('space_id', spaceId),
+        loadAccountMovements(supabase, spaceId, { until: params.asOf }),
+        supabase.from('assets').select('*').eq('space_id', spaceId).eq('is_archived', false),
+        supabase.from('debts').select('*').eq('space_id', spaceId),
+        loadHoldingValuations(supabase, spaceId, params.asOf),
+    ]);
+
+    if (movementsResult.error) throw new Error(movementsResult.error.message);
+    if (debtsResult.error) throw new Error(debtsResult.error.message);
+    if (assetsResult.error && !isMissingNetWorthTableError(assetsResult.error.message)) {
+        throw new Error(assetsResult.error.message);
+    }
+
+    const movements = (movementsResult.data || []) as any[];
+    const snapshotLookup = buildSnapshotRateLookup(movements);
+    // Without the accounts module there is nothing to add up on that side.
+    const accounts = accountsResult.error
+        ? []
+        : computeAccountBalances((accountsResult.data || []) as AccountRow[], movements, snapshotLookup);
+
+    // Balances are valued at the official quote of `asOf` (stored history first, today's from dolarapi).
+    const quote = await getExchangeRate({
+        store: createSupabaseFxRateStore(supabase, spaceId),
+        provider: createDolarApiProvider(),
+        request: { rateType: 'oficial', date: params.asOf },
+    });
+    const lookup = withAsOfRate(snapshotLookup, params.asOf, quote?.sell ?? null);
+
+    const breakdown = computeNetWorth({
+        accounts,
+        assets: (assetsResult.data || []) as AssetRow[],
+        debts: (debtsResult.data || []) as NetWorthDebtRow[],
+        investments,
+        currency: params.currency,
+        lookup,
+        asOf: params.asOf,
+    });
+
+    return {
+        breakdown,
+        usdRate: lookup('USD', params.asOf),
+        assetsAvailable: !assetsResult.error,
+    };
+}
+
+/**
+ * Computes the space net worth in ARS on `asOf` and stores it as the snapshot of that month, replacing an
+ * earlier one. Returns a warning instead when the snapshots table is missing.
+ */
+export async function saveNetWorthSnapshot(
+    supabase: SupabaseClient,
+    params: { spaceId: string; userId: string | null; trigger: NetWorthSnapshotTrigger; asOf: string }
+) {
+    const { breakdown, usdRate } = await loadNetWorth(supabase, params.spaceId, { asOf: params.asOf, currency: BASE_CURRENCY });
+    const snapshot: NetWorthSnapshot = {
+        month: params.asOf.slice(0, 7),
+        as_of: params.asOf,
+        currency: BASE_CURRENCY,
+        total_assets: breakdown.total_assets,
+        total_liabilities: breakdown.total_liabilities,
+        net_worth: breakdown.net_worth,
+        assets: breakdown.assets,
+        liabilities: breakdown.liabilities,
+        usd_rate: usdRate,
+        trigger: params.trigger,
+    };
+
+    const { data, error } = await supabase
+        .from('net_worth_snapshots')
+        .upsert({
+            ...snapshot,
+            space_id: params.spaceId,
+            created_by: params.userId,
+            updated_at: new Date().toISOString(),
+        }, { onConflict: 'space_id,month' })
+        .select()
+        .single();
+
+    if (error) {
+        if (isMissingNetWorthTableError(error.message)) {
+            return { snapshot: null, breakdown, warning: 'Ejecuta supabase-net-worth.sql en Supabase SQL Editor.' };
+        }
+        throw new Error(error.message);
+    }
+
+    return { snapshot: data as NetWorthSnapshot, breakdown };
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { isPastDue, lateCharges, obligationAmountDue, type LateChargeObligation } from './obligations';
+
+const obligation: LateChargeObligation = {
+    amount: 100000,
+    due_date: '2026-03-10',
+    status: 'overdue',
+    late_fee: 1500,
+    // 73% a year: 0.2% a day.
+    late_interest_rate: 73,
+};
+
+describe('isPastDue', () => {
+    it('should only flag unpaid obligations after their due date', () => {
+        expect(isPastDue(obligation, '2026-03-10')).toBe(false);
+        expect(isPastDue(obligation, '2026-03-11')).toBe(true);
+        expect(isPastDue({ ...obligation, status: 'paid' }, '2026-04-01')).toBe(false);
+    });
+});
+
+describe('lateCharges', () => {
+    it('should charge nothing up to the due date', () => {
+        expect(lateCharges(obligation, '2026-03-10')).toEqual({ days_overdue: 0, fee: 0, interest: 0, total: 0 });
+    });
+
+    it('should add the fixed fee and daily interest once past due', () => {
+        expect(lateCharges(obligation, '2026-03-20')).toEqual({ days_overdue: 10, fee: 1500, interest: 2000, total: 3500 });
+        expect(obligationAmountDue(obligation, '2026-03-20')).toBe(103500);
+    });
+
+    it('should restart interest without the fee after a partial payment folded the charges in', () => {
+        const partiallyPaid = { ...obligation, amount: 50000, late_interest_since: '2026-03-20' };
+
+        expect(lateCharges(partiallyPaid, '2026-03-25')).toEqual({ days_overdue: 15, fee: 0, interest: 500, total: 500 });
+    });
+
+    it('should leave obligations without late terms unchanged', () => {
+        const plain = { amount: '2500.50', due_date: '2026-03-10', status: 'pending' };
+
+        expect(lateCharges(plain, '2026-04-10').total).toBe(0);
+        expect(obligationAmountDue(plain, '2026-04-10')).toBe(2500.5);
+    });
+});
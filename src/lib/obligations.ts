@@ -0,0 +1,138 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { recordAuditEvent } from '@/lib/audit';
+import { logWarn } from '@/lib/observability';
+
+export type LateChargeObligation = {
+    amount: number | string | null;
+    due_date: string;
+    status: string;
+    // Fixed charge the first day past the due date.
+    late_fee?: number | string | null;
+    // Annual nominal rate in percent (punitorios), accrued daily on the amount.
+    late_interest_rate?: number | string | null;
+    // Set when a partial payment folds the charges into the amount; interest restarts there and the fee is not charged again.
+    late_interest_since?: string | null;
+};
+
+export type LateCharges = {
+    days_overdue: number;
+    fee: number;
+    interest: number;
+    total: number;
+};
+
+export type OverdueTransition = {
+    obligation_id: string;
+    title: string;
+    due_date: string;
+    amount_due: number;
+};
+
+const NO_CHARGES: LateCharges = { days_overdue: 0, fee: 0, interest: 0, total: 0 };
+
+function toNumber(value: unknown) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function round(value: number) {
+    return Math.round(value * 100) / 100;
+}
+
+function daysBetween(from: string, to: string) {
+    const start = Date.parse(`${from}T00:00:00.000Z`);
+    const end = Date.parse(`${to}T00:00:00.000Z`);
+    if (Number.isNaN(start) || Number.isNaN(end)) return 0;
+    return Math.round((end - start) / (1000 * 60 * 60 * 24));
+}
+
+export function isPastDue(obligation: Pick<LateChargeObligation, 'due_date' | 'status'>, today: string) {
+    return obligation.status !== 'paid' && obligation.due_date < today;
+}
+
+/** Fee and interest an unpaid obligation has accrued by `today`. */
+export function lateCharges(obligation: LateChargeObligation, today: string): LateCharges {
+    if (!isPastDue(obligation, today)) return NO_CHARGES;
+
+    const daysOverdue = daysBetween(obligation.due_date, today);
+    const since = obligation.late_interest_since || obligation.due_date;
+    const fee = obligation.late_interest_since ? 0 : Math.max(toNumber(obligation.late_fee), 0);
+    const rate = Math.max(toNumber(obligation.late_interest_rate), 0);
+    const interest = rate > 0
+        ? toNumber(obligation.amount) * (rate / 100) * (Math.max(daysBetween(since, today), 0) / 365)
+        : 0;
+
+    return {
+        days_overdue: daysOverdue,
+        fee: round(fee),
+        interest: round(interest),
+        total: round(fee + interest),
+    };
+}
+
+export function obligationAmountDue(obligation: LateChargeObligation, today: string) {
+    return round(toNumber(obligation.amount) + lateCharges(obligation, today).total);
+}
+
+export function isMissingLateFeeColumnError(message?: string | null) {
+    if (!message) return false;
+    const value = message.toLowerCase();
+    return (value.includes('late_fee') || value.includes('late_interest'))
+        && (value.includes('schema cache') || value.includes('does not exist'));
+}
+
+/**
+ * Moves the pending obligations of a space whose due date has passed to `overdue`, leaving an audit event per
+ * transition. The update only touches rows still pending, so concurrent sweeps never record the same transition twice.
+ */
+export async function markOverdueObligations(
+    supabase: SupabaseClient,
+    params: { spaceId: string; userId: string | null; today: string }
+): Promise<OverdueTransition[]> {
+    const { data, error } = await supabase
+        .from('obligations')
+        .update({ status: 'overdue' })
+        .eq('space_id', params.spaceId)
+        .eq('status', 'pending')
+        .lt('due_date', params.today)
+        .select('*');
+
+    if (error) throw new Error(error.message);
+
+    const transitions: OverdueTransition[] = [];
+    for (const obligation of (data || []) as Array<LateChargeObligation & { id: string; title: string; user_id?: string | null }>) {
+        const charges = lateCharges(obligation, params.today);
+        transitions.push({
+            obligation_id: obligation.id,
+            title: obligation.title,
+            due_date: obligation.due_date,
+            amount_due: round(toNumber(obligation.amount) + charges.total),
+        });
+
+        const actorId = params.userId || obligation.user_id || null;
+        if (!actorId) {
+            logWarn('obligation_overdue_audit_skipped', { spaceId: params.spaceId, obligationId: obligation.id });
+            continue;
+        }
+
+        await recordAuditEvent({
+            supabase,
+            userId: actorId,
+            spaceId: params.spaceId,
+            entityType: 'obligation',
+            entityId: obligation.id,
+            action: 'system',
+            beforeData: { ...obligation, status: 'pending' },
+            afterData: obligation,
+            metadata: {
+                event: 'obligation_overdue',
+                dueDate: obligation.due_date,
+                daysOverdue: charges.days_overdue,
+                lateCharges: charges.total,
+                trigger: params.userId ? 'request' : 'cron',
+            },
+        });
+    }
+
+    return transitions;
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+    buildPaymentHistory,
+    groupPaymentHistories,
+    paymentItemKey,
+    paymentRestore,
+    paymentSnapshot,
+    type PaymentRow,
+} from './payments';
+
+function payment(overrides: Partial<PaymentRow>): PaymentRow {
+    return {
+        id: 'p1',
+        obligation_id: 'o1',
+        debt_id: null,
+        transaction_id: 't1',
+        source: 'manual',
+        amount: 100,
+        payment_date: '2026-03-10',
+        balance_before: null,
+        balance_after: null,
+        undone_at: null,
+        created_at: '2026-03-10T12:00:00Z',
+        ...overrides,
+    };
+}
+
+describe('buildPaymentHistory', () => {
+    it('should accumulate payments in order and only let the latest be undone', () => {
+        const history = buildPaymentHistory([
+            payment({ id: 'p2', amount: '250.5', created_at: '2026-04-10T12:00:00Z', balance_after: 0 }),
+            payment({ id: 'p1', amount: 300, balance_after: 250.5 }),
+        ]);
+
+        expect(history.map((entry) => entry.id)).toEqual(['p1', 'p2']);
+        expect(history.map((entry) => entry.paid_to_date)).toEqual([300, 550.5]);
+        expect(history.map((entry) => entry.can_undo)).toEqual([false, true]);
+    });
+
+    it('should skip undone payments in the total and move undo to the previous one', () => {
+        const history = buildPaymentHistory([
+            payment({ id: 'p1', amount: 300 }),
+            payment({ id: 'p2', amount: 200, created_at: '2026-04-10T12:00:00Z', undone_at: '2026-04-11T09:00:00Z' }),
+        ]);
+
+        expect(history.map((entry) => entry.paid_to_date)).toEqual([300, 300]);
+        expect(history.map((entry) => entry.can_undo)).toEqual([true, false]);
+    });
+});
+
+describe('groupPaymentHistories', () => {
+    it('should keep obligations and debts apart', () => {
+        const histories = groupPaymentHistories([
+            payment({ id: 'p1' }),
+            payment({ id: 'p2', obligation_id: null, debt_id: 'd1' }),
+            payment({ id: 'p3', created_at: '2026-04-10T12:00:00Z' }),
+        ]);
+
+        expect(histories.get(paymentItemKey('obligation', 'o1'))?.map((entry) => entry.id)).toEqual(['p1', 'p3']);
+        expect(histories.get(paymentItemKey('debt', 'd1'))?.map((entry) => entry.can_undo)).toEqual([true]);
+    });
+});
+
+describe('paymentSnapshot / paymentRestore', () => {
+    it('should keep only the payment columns the item has', () => {
+        const snapshot = paymentSnapshot('debt', {
+            id: 'd1',
+            name: 'Auto',
+            total_amount: 1000,
+            monthly_payment: 100,
+            remaining_installments: 10,
+            next_payment_date: '2026-05-01',
+        });
+
+        expect(snapshot).toEqual({ total_amount: 1000, monthly_payment: 100, remaining_installments: 10, next_payment_date: '2026-05-01' });
+    });
+
+    it('should restore the item fields and the obligation a debt payment settled', () => {
+        const restore = paymentRestore('debt', {
+            total_amount: 1000,
+            remaining_installments: 10,
+            linked_obligation: { id: 'o1', status: 'pending' },
+        });
+
+        expect(restore.fields).toEqual({ total_amount: 1000, remaining_installments: 10 });
+        expect(restore.linkedObligation).toEqual({ id: 'o1', status: 'pending' });
+        expect(paymentRestore('obligation', { amount: 500, status: 'overdue', linked_obligation: 'x' })).toEqual({
+            fields: { amount: 500, status: 'overdue' },
+            linkedObligation: null,
+        });
+    });
+});
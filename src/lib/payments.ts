@@ -0,0 +1,163 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logWarn } from '@/lib/observability';
+
+export type PaymentItemKind = 'obligation' | 'debt';
+export type PaymentSource = 'manual' | 'copilot' | 'audit';
+
+// Columns a confirmed payment changes on each kind of item; undoing a payment writes them back.
+export const PAYMENT_ITEM_FIELDS: Record<PaymentItemKind, string[]> = {
+    obligation: ['amount', 'original_amount', 'status', 'late_interest_since'],
+    debt: ['total_amount', 'original_amount', 'monthly_payment', 'remaining_installments', 'next_payment_date', 'principal_balance'],
+};
+
+export type PaymentRow = {
+    id: string;
+    obligation_id: string | null;
+    debt_id: string | null;
+    transaction_id: string | null;
+    source: PaymentSource | string;
+    amount: number | string;
+    payment_date: string;
+    balance_before: number | string | null;
+    balance_after: number | string | null;
+    previous_state?: Record<string, unknown> | null;
+    undone_at: string | null;
+    created_at: string;
+};
+
+export type PaymentHistoryEntry = PaymentRow & {
+    // Sum of the payments still in effect up to this one.
+    paid_to_date: number;
+    can_undo: boolean;
+};
+
+export type RecordPaymentInput = {
+    spaceId: string;
+    userId: string;
+    kind: PaymentItemKind;
+    itemId: string;
+    transactionId: string | null;
+    source?: PaymentSource;
+    amount: number;
+    paymentDate: string;
+    balanceBefore: number | null;
+    balanceAfter: number | null;
+    // The item as it was before the payment.
+    before: Record<string, unknown>;
+    // Debt payments may also settle the matching obligation; undo reopens it.
+    linkedObligation?: { id: string; status: string } | null;
+};
+
+function toNumber(value: unknown) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function round(value: number) {
+    return Math.round(value * 100) / 100;
+}
+
+export function paymentItemKey(kind: PaymentItemKind, id: string) {
+    return `${kind}:${id}`;
+}
+
+export function paymentItem(row: Pick<PaymentRow, 'obligation_id' | 'debt_id'>): { kind: PaymentItemKind; id: string } | null {
+    if (row.obligation_id) return { kind: 'obligation', id: row.obligation_id };
+    if (row.debt_id) return { kind: 'debt', id: row.debt_id };
+    return null;
+}
+
+/** The payment-related columns of an item, only those the row actually has (loan columns are optional). */
+export function paymentSnapshot(kind: PaymentItemKind, row: Record<string, unknown>) {
+    return Object.fromEntries(PAYMENT_ITEM_FIELDS[kind].filter((field) => field in row).map((field) => [field, row[field] ?? null]));
+}
+
+/**
+ * Payments of one item in the order they were made. Undone payments stay in the list but do not add to what was
+ * paid; only the latest payment still in effect can be undone, since each one snapshots the state the previous
+ * one left.
+ */
+export function buildPaymentHistory(rows: PaymentRow[]): PaymentHistoryEntry[] {
+    const ordered = [...rows].sort((a, b) => a.created_at.localeCompare(b.created_at) || a.payment_date.localeCompare(b.payment_date));
+    const lastActive = [...ordered].reverse().find((row) => !row.undone_at);
+
+    let paid = 0;
+    return ordered.map((row) => {
+        if (!row.undone_at) paid += toNumber(row.amount);
+        return {
+            ...row,
+            paid_to_date: round(paid),
+            can_undo: row.id === lastActive?.id,
+        };
+    });
+}
+
+/** Histories keyed by `paymentItemKey`, for pages that list many items at once. */
+export function groupPaymentHistories(rows: PaymentRow[]) {
+    const byItem = new Map<string, PaymentRow[]>();
+    rows.forEach((row) => {
+        const item = paymentItem(row);
+        if (!item) return;
+        const key = paymentItemKey(item.kind, item.id);
+        byItem.set(key, [...(byItem.get(key) || []), row]);
+    });
+
+    return new Map(Array.from(byItem.entries()).map(([key, itemRows]) => [key, buildPaymentHistory(itemRows)]));
+}
+
+/** What undoing a payment writes back: the item columns it changed and, for debts, the obligation it settled. */
+export function paymentRestore(kind: PaymentItemKind, previousState?: Record<string, unknown> | null) {
+    const state = previousState || {};
+    const fields = Object.fromEntries(PAYMENT_ITEM_FIELDS[kind].filter((field) => field in state).map((field) => [field, state[field]]));
+    const linked = state.linked_obligation as { id?: unknown; status?: unknown } | undefined;
+    const linkedObligation = linked && typeof linked.id === 'string' && typeof linked.status === 'string'
+        ? { id: linked.id, status: linked.status }
+        : null;
+
+    return { fields, linkedObligation };
+}
+
+export function isMissingPaymentsTableError(message?: string | null) {
+    if (!message) return false;
+    const value = message.toLowerCase();
+    return value.includes('payments') && (value.includes('schema cache') || value.includes('does not exist'));
+}
+
+/**
+ * Stores a confirmed payment. The payment itself is already applied, so a failure (for instance before
+ * supabase-payments.sql) only leaves it out of the history and is logged.
+ */
+export async function recordPayment(supabase: SupabaseClient, input: RecordPaymentInput): Promise<PaymentRow | null> {
+    const { data, error } = await supabase
+        .from('payments')
+        .insert({
+            space_id: input.spaceId,
+            obligation_id: input.kind === 'obligation' ? input.itemId : null,
+            debt_id: input.kind === 'debt' ? input.itemId : null,
+            transaction_id: input.transactionId,
+            source: input.source || 'manual',
+            amount: round(input.amount),
+            payment_date: input.paymentDate,
+            balance_before: input.balanceBefore != null ? round(input.balanceBefore) : null,
+            balance_after: input.balanceAfter != null ? round(input.balanceAfter) : null,
+            previous_state: {
+                ...paymentSnapshot(input.kind, input.before),
+                ...(input.linkedObligation ? { linked_obligation: input.linkedObligation } : {}),
+            },
+            created_by: input.userId,
+        })
+        .select()
+        .single();
+
+    if (error) {
+        logWarn(isMissingPaymentsTableError(error.message) ? 'payments_table_missing' : 'payment_record_failed', {
+            spaceId: input.spaceId,
+            kind: input.kind,
+            itemId: input.itemId,
+            reason: error.message,
+        });
+        return null;
+    }
+
+    return data as PaymentRow;
+}
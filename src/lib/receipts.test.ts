@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import type { CategoryRule } from './category-rules';
+import { categorizeReceiptItems, receiptItemsFromExtraction, receiptRuleTags, receiptTotal } from './receipts';
+
+function rule(id: string, overrides: Partial<CategoryRule> = {}): CategoryRule {
+    return {
+        id,
+        name: id,
+        priority: 100,
+        is_active: true,
+        set_tags: [],
+        ...overrides,
+    };
+}
+
+describe('receiptItemsFromExtraction', () => {
+    it('should keep positive lines with a trimmed description and category', () => {
+        const items = receiptItemsFromExtraction({
+            items: [
+                { description: ' Leche ', amount: 1200.456, category: ' Supermercado ' },
+                { description: 'Descuento', amount: 0 },
+                { description: 'Pilas', amount: '800', category: '' },
+            ],
+        });
+
+        expect(items).toEqual([
+            { description: 'Leche', amount: 1200.46, category: 'Supermercado' },
+            { description: 'Pilas', amount: 800, category: null },
+        ]);
+        expect(receiptItemsFromExtraction({ items: null })).toEqual([]);
+    });
+});
+
+describe('categorizeReceiptItems', () => {
+    it('should let rules override the extracted guess and compare amounts in ARS', () => {
+        const rules = [
+            rule('pets', { priority: 10, description_pattern: 'perro', set_category: 'Mascotas' }),
+            rule('big', { amount_min: 10000, set_category: 'Compras' }),
+        ];
+
+        const lines = categorizeReceiptItems(rules, [
+            { description: 'Alimento perro 3kg', amount: 5000, category: 'Supermercado' },
+            { description: 'Yerba', amount: 20, category: 'Supermercado' },
+            { description: 'Auriculares', amount: 50, category: null },
+            { description: 'Bolsa', amount: 1 },
+        ], 250);
+
+        expect(lines.map((line) => line.category)).toEqual(['Mascotas', 'Supermercado', 'Compras', 'Varios']);
+    });
+});
+
+describe('receiptRuleTags', () => {
+    it('should collect tags from the merchant and every line once', () => {
+        const rules = [
+            rule('market', { description_pattern: 'coto', set_tags: ['super'] }),
+            rule('pets', { description_pattern: 'perro', set_tags: ['mascotas', 'super'] }),
+        ];
+
+        expect(receiptRuleTags(rules, 'COTO', [
+            { description: 'Alimento perro', amount: 100 },
+            { description: 'Pan', amount: 50 },
+        ])).toEqual(['super', 'mascotas']);
+    });
+});
+
+describe('receiptTotal', () => {
+    it('should add the lines rounding to cents', () => {
+        expect(receiptTotal([{ amount: 0.1 }, { amount: 0.2 }, { amount: 10 }])).toBe(10.3);
+    });
+});
@@ -0,0 +1,81 @@
+import { applyCategoryRules, type CategoryRule } from '@/lib/category-rules';
+
+export const RECEIPT_FALLBACK_CATEGORY = 'Varios';
+
+export type ReceiptItem = {
+    description: string;
+    amount: number;
+    category?: string | null;
+};
+
+export type ReceiptLine = {
+    description: string;
+    amount: number;
+    category: string;
+};
+
+function roundMoney(value: number) {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Line items of an extraction that can become split lines: positive amounts only (discounts and payments are
+ * already folded into the total by the extractor).
+ */
+export function receiptItemsFromExtraction(data: unknown): ReceiptItem[] {
+    const items = (data as { items?: unknown })?.items;
+    if (!Array.isArray(items)) return [];
+
+    return items
+        .map((item) => ({
+            description: typeof item?.description === 'string' ? item.description.trim().slice(0, 200) : '',
+            amount: roundMoney(Number(item?.amount) || 0),
+            category: typeof item?.category === 'string' && item.category.trim() ? item.category.trim() : null,
+        }))
+        .filter((item) => item.amount > 0);
+}
+
+/**
+ * Names a category for every item. The space's rules run on each line as an expense of its own, so a rule for
+ * "alimento para perro" beats the category guessed by the extractor; lines no rule matches keep that guess.
+ * `fxRate` converts foreign amounts, since rule amount ranges are in ARS.
+ */
+export function categorizeReceiptItems(rules: CategoryRule[], items: ReceiptItem[], fxRate = 1): ReceiptLine[] {
+    return items.map((item) => {
+        const outcome = applyCategoryRules(rules, {
+            type: 'expense',
+            amount: item.amount * fxRate,
+            description: item.description,
+            category: item.category ?? null,
+        });
+
+        return {
+            description: item.description,
+            amount: roundMoney(item.amount),
+            category: outcome.type === 'expense' && outcome.category ? outcome.category : item.category || RECEIPT_FALLBACK_CATEGORY,
+        };
+    });
+}
+
+/**
+ * Tags the rules add for the merchant and for any of its lines.
+ */
+export function receiptRuleTags(rules: CategoryRule[], merchant: string, lines: ReceiptItem[], fxRate = 1) {
+    const total = lines.reduce((accumulator, line) => accumulator + line.amount, 0);
+    const subjects = [
+        { description: merchant, amount: total * fxRate },
+        ...lines.map((line) => ({ description: line.description, amount: line.amount * fxRate })),
+    ];
+
+    const tags: string[] = [];
+    for (const subject of subjects) {
+        for (const tag of applyCategoryRules(rules, { type: 'expense', ...subject }).tags) {
+            if (!tags.includes(tag)) tags.push(tag);
+        }
+    }
+    return tags;
+}
+
+export function receiptTotal(lines: Array<Pick<ReceiptItem, 'amount'>>) {
+    return roundMoney(lines.reduce((accumulator, line) => accumulator + (Number(line.amount) || 0), 0));
+}
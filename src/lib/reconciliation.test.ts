@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+    accountMovementType,
+    buildReconciliationPlan,
+    matchStatementEntries,
+    statementEntriesFromExtraction,
+    statementPeriod,
+    type ReconciliationTransaction,
+} from './reconciliation';
+
+function movement(id: string, overrides: Partial<ReconciliationTransaction> = {}): ReconciliationTransaction {
+    return {
+        id,
+        date: '2026-03-10',
+        type: 'expense',
+        amount: 1000,
+        currency: 'ARS',
+        description: 'Movimiento',
+        account_id: 'bank',
+        transfer_account_id: null,
+        reconciliation_id: null,
+        ...overrides,
+    };
+}
+
+describe('statementEntriesFromExtraction', () => {
+    it('should keep dated movement lines and fall back to the closing date', () => {
+        const entries = statementEntriesFromExtraction({
+            closing_date: '2026-03-31',
+            entries: [
+                { label: ' Sueldo ', amount: 500000, kind: 'income', date: '2026-03-01' },
+                { label: 'Saldo anterior', amount: 120000, kind: 'balance' },
+                { label: 'Débito automático luz', amount: -15000.456, kind: 'expense', category: 'Servicios' },
+                { label: 'Plazo fijo', amount: 100000, kind: 'saving', currency: 'USD', date: '2026-03-15' },
+                { label: 'Comisión', amount: 0, kind: 'expense' },
+            ],
+        });
+
+        expect(entries).toEqual([
+            { index: 0, date: '2026-03-01', type: 'income', amount: 500000, currency: 'ARS', description: 'Sueldo', category: null },
+            { index: 2, date: '2026-03-31', type: 'expense', amount: 15000.46, currency: 'ARS', description: 'Débito automático luz', category: 'Servicios' },
+            { index: 3, date: '2026-03-15', type: 'expense', amount: 100000, currency: 'USD', description: 'Plazo fijo', category: null },
+        ]);
+        expect(statementEntriesFromExtraction({ entries: [{ label: 'Sin fecha', amount: 10, kind: 'expense' }] })).toEqual([]);
+    });
+
+    it('should prefer the declared closing date over the last line', () => {
+        const entries = statementEntriesFromExtraction({
+            entries: [
+                { label: 'A', amount: 1, kind: 'expense', date: '2026-03-20' },
+                { label: 'B', amount: 1, kind: 'expense', date: '2026-03-02' },
+            ],
+        });
+
+        expect(statementPeriod({}, entries)).toEqual({ period_start: '2026-03-02', closing_date: '2026-03-20' });
+        expect(statementPeriod({ closing_date: '2026-03-31' }, entries)).toEqual({ period_start: '2026-03-02', closing_date: '2026-03-31' });
+    });
+});
+
+describe('accountMovementType', () => {
+    it('should read transfers from the side of the reconciled account', () => {
+        const transfer = { type: 'transfer', account_id: 'bank', transfer_account_id: 'wallet' };
+
+        expect(accountMovementType(transfer, 'bank')).toBe('expense');
+        expect(accountMovementType(transfer, 'wallet')).toBe('income');
+        expect(accountMovementType(transfer, 'cash')).toBeNull();
+        expect(accountMovementType({ type: 'income', account_id: 'cash', transfer_account_id: null }, 'bank')).toBeNull();
+    });
+});
+
+describe('matchStatementEntries', () => {
+    it('should pair each line with one movement and skip reconciled ones', () => {
+        const entries = statementEntriesFromExtraction({
+            entries: [
+                { label: 'CAFE MARTINEZ', amount: 1000, kind: 'expense', date: '2026-03-10' },
+                { label: 'CAFE MARTINEZ', amount: 1000, kind: 'expense', date: '2026-03-10' },
+                { label: 'TRANSF A BILLETERA', amount: 20000, kind: 'expense', date: '2026-03-12' },
+            ],
+        });
+
+        const result = matchStatementEntries(entries, [
+            movement('coffee', { description: 'Café Martínez' }),
+            movement('old', { reconciliation_id: 'previous' }),
+            movement('transfer', { type: 'transfer', amount: 20000, date: '2026-03-11', transfer_account_id: 'wallet', description: 'A Mercado Pago' }),
+            movement('far', { date: '2026-02-01' }),
+        ], 'bank');
+
+        expect(result.matched.map((pair) => [pair.entry.index, pair.transaction.id])).toEqual([[0, 'coffee'], [2, 'transfer']]);
+        expect(result.unmatchedEntries.map((entry) => entry.index)).toEqual([1]);
+        expect(result.unmatchedTransactions.map((row) => row.id)).toEqual(['far']);
+    });
+});
+
+describe('buildReconciliationPlan', () => {
+    it('should compare lines in the account currency and report app-only movements inside the period', () => {
+        const plan = buildReconciliationPlan(
+            {
+                closing_date: '2026-03-31',
+                entries: [
+                    { label: 'Sueldo', amount: 500000, kind: 'income', date: '2026-03-01' },
+                    { label: 'Compra USD', amount: 100, kind: 'expense', currency: 'USD', date: '2026-03-05' },
+                    { label: 'Netflix', amount: 8000, kind: 'expense', date: '2026-03-08' },
+                ],
+            },
+            [
+                movement('salary', { type: 'income', amount: 500000, date: '2026-03-02', description: 'Sueldo marzo' }),
+                movement('pending', { amount: 3000, date: '2026-03-30', description: 'Farmacia' }),
+                movement('before', { amount: 3000, date: '2026-02-27', description: 'Kiosco' }),
+            ],
+            { id: 'bank', currency: 'ARS' }
+        );
+
+        expect(plan.period_start).toBe('2026-03-01');
+        expect(plan.closing_date).toBe('2026-03-31');
+        expect(plan.entries.map((entry) => entry.index)).toEqual([0, 2]);
+        expect(plan.matched.map((pair) => pair.transaction.id)).toEqual(['salary']);
+        expect(plan.missing_in_app.map((entry) => entry.description)).toEqual(['Netflix']);
+        expect(plan.missing_in_bank.map((row) => row.id)).toEqual(['pending']);
+    });
+});
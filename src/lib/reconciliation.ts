@@ -0,0 +1,294 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logWarn } from '@/lib/observability';
+import { normalizeCurrency, type CurrencyCode } from '@/lib/currency';
+import { scoreDuplicate, type DuplicateConfig } from '@/lib/duplicates';
+
+export type StatementEntry = {
+    index: number;
+    date: string;
+    type: 'income' | 'expense';
+    amount: number;
+    currency: CurrencyCode;
+    description: string;
+    category: string | null;
+};
+
+export type ReconciliationTransaction = {
+    id: string;
+    date: string;
+    type: string;
+    amount: number | string;
+    currency?: string | null;
+    original_amount?: number | string | null;
+    description: string;
+    category?: string | null;
+    account_id?: string | null;
+    transfer_account_id?: string | null;
+    reconciliation_id?: string | null;
+};
+
+export type ReconciliationPair = {
+    entry: StatementEntry;
+    transaction: ReconciliationTransaction;
+    score: number;
+};
+
+export type ReconciliationPlan = {
+    period_start: string | null;
+    closing_date: string | null;
+    entries: StatementEntry[];
+    matched: ReconciliationPair[];
+    missing_in_app: StatementEntry[];
+    missing_in_bank: ReconciliationTransaction[];
+};
+
+// A bank statement processed by the copilot, as listed by GET /api/reconciliations.
+export type BankStatementSummary = {
+    extraction_id: string;
+    document_id: string;
+    created_at: string;
+    issuer: string | null;
+    period_label: string | null;
+    closing_date: string | null;
+    entries_count: number;
+};
+
+export type ReconciliationRecord = {
+    id: string;
+    account_id: string;
+    extraction_id: string | null;
+    period_start: string | null;
+    closing_date: string;
+    statement_lines: number;
+    matched_count: number;
+    created_count: number;
+    missing_in_bank_count: number;
+    created_at: string;
+};
+
+export type ReconciliationAccount = {
+    id: string;
+    name: string;
+    currency: string;
+    reconciled_through: string | null;
+};
+
+// Response of POST /api/reconciliations: the plan for a dry run, the stored record once confirmed.
+export type ReconciliationResult =
+    | { dry_run: true; account: ReconciliationAccount; plan: ReconciliationPlan }
+    | { dry_run: false; account: ReconciliationAccount; reconciliation: ReconciliationRecord; matched: number; created: number };
+
+/**
+ * Bank and app dates drift by a few days (weekends, card settlement), and bank descriptions rarely look like
+ * the ones typed by hand, so the window is wider and the threshold lower than for duplicates: an exact amount
+ * one day apart matches even with unrelated descriptions.
+ */
+export const RECONCILIATION_CONFIG: DuplicateConfig = {
+    windowDays: 5,
+    amountTolerance: 0.005,
+    threshold: 0.4,
+};
+
+export const RECONCILIATION_SELECT = 'id, date, type, amount, currency, original_amount, description, category, account_id, transfer_account_id, reconciliation_id';
+
+const ENTRY_TYPES: Record<string, StatementEntry['type']> = {
+    income: 'income',
+    expense: 'expense',
+    saving: 'expense',
+    debt: 'expense',
+};
+
+function isIsoDate(value: unknown): value is string {
+    return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+function roundMoney(value: number) {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Statement lines of a `bank_statement` extraction. Summary lines (balances, subtotals) are skipped and
+ * lines without a date take the closing date.
+ */
+export function statementEntriesFromExtraction(raw: unknown): StatementEntry[] {
+    const data = (raw || {}) as { entries?: unknown; closing_date?: unknown };
+    const entries = Array.isArray(data.entries) ? data.entries : [];
+    const fallbackDate = isIsoDate(data.closing_date) ? data.closing_date : null;
+
+    return entries.flatMap((entry: any, index: number) => {
+        const type = ENTRY_TYPES[String(entry?.kind || '').toLowerCase()];
+        const amount = roundMoney(Math.abs(Number(entry?.amount) || 0));
+        const date = isIsoDate(entry?.date) ? entry.date : fallbackDate;
+        if (!type || !(amount > 0) || !date) return [];
+
+        return [{
+            index,
+            date,
+            type,
+            amount,
+            currency: normalizeCurrency(entry?.currency),
+            description: typeof entry?.label === 'string' && entry.label.trim() ? entry.label.trim().slice(0, 200) : 'Movimiento del extracto',
+            category: typeof entry?.category === 'string' && entry.category.trim() ? entry.category.trim().slice(0, 60) : null,
+        }];
+    });
+}
+
+/**
+ * First and last day covered by the statement: its declared closing date wins over the last line.
+ */
+export function statementPeriod(raw: unknown, entries: StatementEntry[]) {
+    const dates = entries.map((entry) => entry.date).sort();
+    const closingDate = (raw as { closing_date?: unknown })?.closing_date;
+
+    return {
+        period_start: dates[0] ?? null,
+        closing_date: isIsoDate(closingDate) ? closingDate : dates[dates.length - 1] ?? null,
+    };
+}
+
+/**
+ * Direction of a stored movement as the bank of `accountId` sees it; transfers are debits on the source
+ * account and credits on the destination.
+ */
+export function accountMovementType(row: Pick<ReconciliationTransaction, 'type' | 'account_id' | 'transfer_account_id'>, accountId: string) {
+    if (row.type === 'transfer') {
+        if (row.account_id === accountId) return 'expense';
+        if (row.transfer_account_id === accountId) return 'income';
+        return null;
+    }
+    if (row.account_id !== accountId) return null;
+    return row.type === 'income' || row.type === 'expense' ? row.type : null;
+}
+
+/**
+ * Pairs statement lines with movements of the account, best scores first, each side used at most once.
+ * Movements already reconciled against another statement are never candidates.
+ */
+export function matchStatementEntries(
+    entries: StatementEntry[],
+    transactions: ReconciliationTransaction[],
+    accountId: string,
+    config: DuplicateConfig = RECONCILIATION_CONFIG
+) {
+    const candidates = transactions.filter((row) => !row.reconciliation_id && accountMovementType(row, accountId));
+    const scored: Array<{ entry: StatementEntry; transaction: ReconciliationTransaction; score: number }> = [];
+
+    for (const entry of entries) {
+        for (const transaction of candidates) {
+            const score = scoreDuplicate(
+                { date: entry.date, type: entry.type, amount: entry.amount, currency: entry.currency, description: entry.description },
+                { ...transaction, type: accountMovementType(transaction, accountId) as string, account_id: null },
+                config
+            );
+            if (score != null && score >= config.threshold) scored.push({ entry, transaction, score });
+        }
+    }
+
+    const usedEntries = new Set<number>();
+    const usedTransactions = new Set<string>();
+    const matched: ReconciliationPair[] = [];
+
+    scored
+        .sort((a, b) => b.score - a.score || a.entry.index - b.entry.index)
+        .forEach((pair) => {
+            if (usedEntries.has(pair.entry.index) || usedTransactions.has(pair.transaction.id)) return;
+            usedEntries.add(pair.entry.index);
+            usedTransactions.add(pair.transaction.id);
+            matched.push(pair);
+        });
+
+    return {
+        matched: matched.sort((a, b) => a.entry.index - b.entry.index),
+        unmatchedEntries: entries.filter((entry) => !usedEntries.has(entry.index)),
+        unmatchedTransactions: candidates.filter((row) => !usedTransactions.has(row.id)),
+    };
+}
+
+/**
+ * Compares a statement with the account: lines in the account's currency only, and movements the bank does
+ * not show are reported only inside the statement period.
+ */
+export function buildReconciliationPlan(
+    raw: unknown,
+    transactions: ReconciliationTransaction[],
+    account: { id: string; currency?: string | null }
+): ReconciliationPlan {
+    const currency = normalizeCurrency(account.currency);
+    const entries = statementEntriesFromExtraction(raw).filter((entry) => entry.currency === currency);
+    const period = statementPeriod(raw, entries);
+    const { matched, unmatchedEntries, unmatchedTransactions } = matchStatementEntries(entries, transactions, account.id);
+
+    return {
+        ...period,
+        entries,
+        matched,
+        missing_in_app: unmatchedEntries,
+        missing_in_bank: unmatchedTransactions
+            .filter((row) => (!period.period_start || row.date >= period.period_start) && (!period.closing_date || row.date <= period.closing_date))
+            .sort((a, b) => a.date.localeCompare(b.date)),
+    };
+}
+
+export function isMissingReconciliationTableError(message?: string | null) {
+    if (!message) return false;
+    const value = message.toLowerCase();
+    return (value.includes('reconciliation') || value.includes('reconciled_through'))
+        && (value.includes('schema cache') || value.includes('does not exist'));
+}
+
+/**
+ * Movements of the account (either side of a transfer) between two dates, widened by the matching window.
+ * The error is returned so callers can tell a missing supabase-reconciliation.sql apart.
+ */
+export async function loadReconciliationWindow(
+    supabase: SupabaseClient,
+    spaceId: string,
+    accountId: string,
+    period: { period_start: string | null; closing_date: string | null }
+) {
+    if (!period.period_start || !period.closing_date) return { rows: [] as ReconciliationTransaction[], error: null };
+
+    const shift = (date: string, days: number) => {
+        const value = new Date(`${date}T00:00:00.000Z`);
+        value.setUTCDate(value.getUTCDate() + days);
+        return value.toISOString().slice(0, 10);
+    };
+
+    const { data, error } = await supabase
+        .from('transactions')
+        .select(RECONCILIATION_SELECT)
+        .eq('space_id', spaceId)
+        .or(`account_id.eq.${accountId},transfer_account_id.eq.${accountId}`)
+        .gte('date', shift(period.period_start, -RECONCILIATION_CONFIG.windowDays))
+        .lte('date', shift(period.closing_date, RECONCILIATION_CONFIG.windowDays))
+        .order('date', { ascending: true })
+        .limit(2000);
+
+    if (error) {
+        if (!isMissingReconciliationTableError(error.message)) {
+            logWarn('reconciliation_window_load_failed', { spaceId, accountId, reason: error.message });
+        }
+        return { rows: [] as ReconciliationTransaction[], error: error.message };
+    }
+
+    return { rows: (data || []) as ReconciliationTransaction[], error: null };
+}
+
+/**
+ * Loads a processed bank statement of the space; the extraction is only visible through its document.
+ */
+export async function loadBankStatement(supabase: SupabaseClient, spaceId: string, extractionId: string) {
+    const { data, error } = await supabase
+        .from('extractions')
+        .select('id, raw_json, documents!inner(id, space_id, type)')
+        .eq('id', extractionId)
+        .eq('documents.space_id', spaceId)
+        .maybeSingle();
+
+    if (error) {
+        logWarn('bank_statement_load_failed', { spaceId, extractionId, reason: error.message });
+        return null;
+    }
+
+    return data as { id: string; raw_json: unknown } | null;
+}
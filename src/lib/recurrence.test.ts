@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { buildIndexLookup } from './indexes';
+import {
+    describeRecurrence,
+    expandRecurrence,
+    legacyFrequency,
+    nextOccurrence,
+    recurrenceAmountAdjustment,
+    recurrenceAmountFactor,
+    resolveRecurrence,
+    rollToBusinessDay,
+    type RecurrenceSpec,
+} from './recurrence';
+
+function dates(spec: RecurrenceSpec, start: string, to: string, from?: string) {
+    return expandRecurrence(spec, start, { from, to }).map((occurrence) => occurrence.date);
+}
+
+describe('expandRecurrence', () => {
+    it('should keep month ends without drifting', () => {
+        expect(dates({ freq: 'monthly', interval: 1 }, '2026-01-31', '2026-05-31')).toEqual([
+            '2026-01-31', '2026-02-28', '2026-03-31', '2026-04-30', '2026-05-31',
+        ]);
+    });
+
+    it('should expand the last business day of each month', () => {
+        expect(dates({ freq: 'monthly', interval: 1, month_day: -1, business_day: 'previous' }, '2026-01-01', '2026-05-31')).toEqual([
+            '2026-01-30', '2026-02-27', '2026-03-31', '2026-04-30', '2026-05-29',
+        ]);
+    });
+
+    it('should move day 10 to the next business day and skip days before the start', () => {
+        expect(dates({ freq: 'monthly', interval: 1, month_day: 10, business_day: 'next' }, '2026-01-05', '2026-05-31')).toEqual([
+            '2026-01-12', '2026-02-10', '2026-03-10', '2026-04-10', '2026-05-11',
+        ]);
+        expect(dates({ freq: 'monthly', interval: 1, month_day: 10 }, '2026-01-15', '2026-03-31')).toEqual([
+            '2026-02-10', '2026-03-10',
+        ]);
+    });
+
+    it('should count a weekend rolled onto a business day only once', () => {
+        const daily = expandRecurrence({ freq: 'daily', interval: 1, business_day: 'next', count: 4 }, '2026-03-06', { to: '2026-12-31' });
+        expect(daily).toEqual([
+            { date: '2026-03-06', index: 0 },
+            { date: '2026-03-09', index: 1 },
+            { date: '2026-03-10', index: 2 },
+            { date: '2026-03-11', index: 3 },
+        ]);
+        expect(dates({ freq: 'daily', interval: 1, business_day: 'previous' }, '2026-03-05', '2026-03-10')).toEqual([
+            '2026-03-05', '2026-03-06', '2026-03-09', '2026-03-10',
+        ]);
+    });
+
+    it('should support intervals, yearly rules and leap days', () => {
+        expect(dates({ freq: 'monthly', interval: 2 }, '2026-01-15', '2026-08-01')).toEqual([
+            '2026-01-15', '2026-03-15', '2026-05-15', '2026-07-15',
+        ]);
+        expect(dates({ freq: 'yearly', interval: 1 }, '2028-02-29', '2030-12-31')).toEqual([
+            '2028-02-29', '2029-02-28', '2030-02-28',
+        ]);
+        expect(dates({ freq: 'weekly', interval: 2 }, '2026-03-02', '2026-04-01')).toEqual([
+            '2026-03-02', '2026-03-16', '2026-03-30',
+        ]);
+    });
+
+    it('should stop at the end date or the occurrence count', () => {
+        expect(dates({ freq: 'monthly', interval: 1, until: '2026-03-20' }, '2026-01-20', '2026-12-31')).toEqual([
+            '2026-01-20', '2026-02-20', '2026-03-20',
+        ]);
+
+        const counted = expandRecurrence({ freq: 'weekly', interval: 1, count: 3 }, '2026-03-02', { from: '2026-03-10', to: '2026-12-31' });
+        expect(counted).toEqual([{ date: '2026-03-16', index: 2 }]);
+        expect(nextOccurrence({ freq: 'weekly', interval: 1, count: 3 }, '2026-03-02', '2026-03-17')).toBeNull();
+    });
+});
+
+describe('rollToBusinessDay', () => {
+    it('should skip weekends and the given holidays', () => {
+        expect(rollToBusinessDay('2026-05-10', 'next')).toBe('2026-05-11');
+        expect(rollToBusinessDay('2026-05-10', 'previous')).toBe('2026-05-08');
+        expect(rollToBusinessDay('2026-05-10', 'none')).toBe('2026-05-10');
+        expect(rollToBusinessDay('2026-05-24', 'next', new Set(['2026-05-25']))).toBe('2026-05-26');
+    });
+});
+
+describe('recurrenceAmountFactor', () => {
+    it('should step the amount every N months since the start', () => {
+        const spec: RecurrenceSpec = { freq: 'monthly', interval: 1, adjustment: { every_months: 3, percent: 10 } };
+
+        expect(recurrenceAmountFactor(spec, '2026-01-31', '2026-03-31')).toBe(1);
+        expect(recurrenceAmountFactor(spec, '2026-01-31', '2026-04-30')).toBeCloseTo(1.1);
+        expect(recurrenceAmountFactor(spec, '2026-01-31', '2026-07-31')).toBeCloseTo(1.21);
+        expect(recurrenceAmountFactor({ freq: 'monthly', interval: 1 }, '2026-01-31', '2030-01-31')).toBe(1);
+    });
+
+    it('should follow an index series from the base date at each adjustment', () => {
+        const spec: RecurrenceSpec = { freq: 'monthly', interval: 1, adjustment: { every_months: 6, index: 'ICL', base_date: '2026-01-01' } };
+        const lookup = buildIndexLookup([
+            { series: 'ICL', date: '2026-01-01', value: 20 },
+            { series: 'ICL', date: '2026-05-20', value: 24 },
+            { series: 'ICL', date: '2026-07-01', value: 25 },
+            { series: 'ICL', date: '2026-08-01', value: 27 },
+        ]);
+
+        expect(recurrenceAmountFactor(spec, '2026-02-10', '2026-06-10', lookup)).toBe(1);
+        // Adjusted on 2026-07-01 and kept until the next adjustment, even if the index keeps moving.
+        expect(recurrenceAmountFactor(spec, '2026-02-10', '2026-07-10', lookup)).toBeCloseTo(1.25);
+        expect(recurrenceAmountFactor(spec, '2026-02-10', '2026-12-10', lookup)).toBeCloseTo(1.25);
+
+        const late = recurrenceAmountAdjustment(spec, '2026-02-10', '2027-01-10', lookup);
+        expect(late.factor).toBeCloseTo(1.35);
+        expect(late.index).toMatchObject({ adjusted_on: '2027-01-01', value_date: '2026-08-01', missing: true });
+
+        const empty = recurrenceAmountAdjustment(spec, '2026-02-10', '2026-07-10', buildIndexLookup([]));
+        expect(empty).toMatchObject({ factor: 1, index: { missing: true } });
+    });
+});
+
+describe('legacy frequencies', () => {
+    it('should map old rules and keep a readable frequency for new ones', () => {
+        expect(resolveRecurrence({ frequency: 'biweekly', recurrence: null })).toEqual({ freq: 'weekly', interval: 2 });
+        expect(legacyFrequency({ freq: 'monthly', interval: 1 })).toBe('monthly');
+        expect(legacyFrequency({ freq: 'monthly', interval: 1, month_day: -1, business_day: 'previous' })).toBe('custom');
+        expect(describeRecurrence({ freq: 'monthly', interval: 1, month_day: 10, business_day: 'next', count: 12 }))
+            .toBe('Mensual día 10 o siguiente hábil • 12 veces');
+    });
+});
@@ -0,0 +1,296 @@
+import type { IndexLookup } from '@/lib/indexes';
+
+export type RecurrenceFreq = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export type BusinessDayRule = 'none' | 'next' | 'previous';
+
+export type LegacyFrequency = 'weekly' | 'biweekly' | 'monthly' | 'yearly' | 'custom';
+
+/**
+ * Step change of the amount every `every_months` months since the start: by a fixed `percent`, or by the
+ * variation of the `index` series (ICL, IPC, CER...) since `base_date` (the start when empty).
+ */
+export type RecurrenceAdjustment = {
+    every_months: number;
+    percent?: number | null;
+    index?: string | null;
+    base_date?: string | null;
+};
+
+export type RecurrenceAmountAdjustment = {
+    factor: number;
+    // Set for index adjustments: values used and whether the series had them.
+    index: {
+        series: string;
+        base_date: string;
+        adjusted_on: string;
+        base_value: number | null;
+        value: number | null;
+        value_date: string | null;
+        missing: boolean;
+    } | null;
+};
+
+/**
+ * RRULE-like description of a recurring rule, stored in `recurring_transactions.recurrence`.
+ * `month_day` applies to monthly and yearly rules (-1 is the last day of the month, days past the end of a
+ * short month fall on its last day). `until` and `count` both end the series, whichever comes first.
+ */
+export type RecurrenceSpec = {
+    freq: RecurrenceFreq;
+    interval: number;
+    month_day?: number | null;
+    business_day?: BusinessDayRule;
+    until?: string | null;
+    count?: number | null;
+    adjustment?: RecurrenceAdjustment | null;
+};
+
+export type Occurrence = {
+    date: string;
+    // 0 for the first occurrence of the series; `count` limits are checked against it.
+    index: number;
+};
+
+// Guards the expansion of malformed specs; a daily rule needs more than a decade to reach it.
+const MAX_EXPANSION_STEPS = 5000;
+
+function parseIso(value: string) {
+    return new Date(`${value}T00:00:00.000Z`);
+}
+
+function toIso(date: Date) {
+    return date.toISOString().slice(0, 10);
+}
+
+function addDays(value: string, days: number) {
+    const date = parseIso(value);
+    date.setUTCDate(date.getUTCDate() + days);
+    return toIso(date);
+}
+
+function daysInMonth(year: number, monthIndex: number) {
+    return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
+
+// Day `day` of the month `offset` months after `start`, clamped so the 31st never spills into the next month.
+function monthDayDate(start: Date, offset: number, day: number) {
+    const year = start.getUTCFullYear() + Math.floor((start.getUTCMonth() + offset) / 12);
+    const monthIndex = (((start.getUTCMonth() + offset) % 12) + 12) % 12;
+    const lastDay = daysInMonth(year, monthIndex);
+    const resolvedDay = day === -1 ? lastDay : Math.min(day, lastDay);
+    return toIso(new Date(Date.UTC(year, monthIndex, resolvedDay)));
+}
+
+export function isBusinessDay(value: string, holidays: ReadonlySet<string> = new Set()) {
+    const weekday = parseIso(value).getUTCDay();
+    return weekday !== 0 && weekday !== 6 && !holidays.has(value);
+}
+
+/**
+ * Moves a date off weekends (and optional holidays): `next` to the following business day, `previous` to the
+ * one before, so "day -1, previous" is the last business day of the month.
+ */
+export function rollToBusinessDay(value: string, rule: BusinessDayRule = 'none', holidays?: ReadonlySet<string>) {
+    if (rule === 'none') return value;
+    let date = value;
+    for (let guard = 0; guard < 15 && !isBusinessDay(date, holidays); guard++) {
+        date = addDays(date, rule === 'next' ? 1 : -1);
+    }
+    return date;
+}
+
+export function legacyRecurrence(frequency?: string | null): RecurrenceSpec {
+    if (frequency === 'weekly') return { freq: 'weekly', interval: 1 };
+    if (frequency === 'biweekly') return { freq: 'weekly', interval: 2 };
+    if (frequency === 'yearly') return { freq: 'yearly', interval: 1 };
+    return { freq: 'monthly', interval: 1 };
+}
+
+// Rules created before `recurrence` existed only have `frequency`.
+export function resolveRecurrence(rule: { frequency?: string | null; recurrence?: RecurrenceSpec | null }): RecurrenceSpec {
+    return rule.recurrence && rule.recurrence.freq ? rule.recurrence : legacyRecurrence(rule.frequency);
+}
+
+// Value kept in the legacy `frequency` column so older screens still show something meaningful.
+export function legacyFrequency(spec: RecurrenceSpec): LegacyFrequency {
+    const plain = !spec.month_day && (spec.business_day ?? 'none') === 'none';
+    if (spec.freq === 'weekly' && spec.interval === 1) return 'weekly';
+    if (spec.freq === 'weekly' && spec.interval === 2) return 'biweekly';
+    if (spec.freq === 'monthly' && spec.interval === 1 && plain) return 'monthly';
+    if (spec.freq === 'yearly' && spec.interval === 1 && plain) return 'yearly';
+    return 'custom';
+}
+
+function nominalDate(spec: RecurrenceSpec, start: string, step: number) {
+    const interval = Math.max(1, Math.floor(spec.interval || 1));
+    if (spec.freq === 'daily') return addDays(start, step * interval);
+    if (spec.freq === 'weekly') return addDays(start, step * interval * 7);
+
+    const startDate = parseIso(start);
+    const day = spec.month_day || startDate.getUTCDate();
+    const months = spec.freq === 'yearly' ? step * interval * 12 : step * interval;
+    return monthDayDate(startDate, months, day);
+}
+
+/**
+ * Occurrences of a series that starts on `start`, in order, between `from` and `to` (both inclusive).
+ * Every date is derived from the start rather than from the previous one, so month ends never drift.
+ * Dates that the business day roll would move before `start`, or onto a date already in the series, are not part of it.
+ */
+export function expandRecurrence(
+    spec: RecurrenceSpec,
+    start: string,
+    options: { from?: string; to: string; limit?: number; holidays?: ReadonlySet<string> }
+): Occurrence[] {
+    const occurrences: Occurrence[] = [];
+    const from = options.from && options.from > start ? options.from : start;
+    const limit = options.limit ?? Number.POSITIVE_INFINITY;
+    let index = 0;
+    let previous: string | null = null;
+
+    for (let step = 0; step < MAX_EXPANSION_STEPS && occurrences.length < limit; step++) {
+        const date = rollToBusinessDay(nominalDate(spec, start, step), spec.business_day, options.holidays);
+        if (date < start) continue;
+        // Daily series roll a weekend onto a day they already have; that day counts once.
+        if (previous && date <= previous) continue;
+        if (spec.count != null && index >= spec.count) break;
+        if (spec.until && date > spec.until) break;
+        if (date > options.to) break;
+
+        if (date >= from) occurrences.push({ date, index });
+        previous = date;
+        index += 1;
+    }
+
+    return occurrences;
+}
+
+// First occurrence on or after `date`, or null once the series has ended.
+export function nextOccurrence(spec: RecurrenceSpec, start: string, date: string, holidays?: ReadonlySet<string>): Occurrence | null {
+    return expandRecurrence(spec, start, { from: date, to: '9999-12-31', limit: 1, holidays })[0] ?? null;
+}
+
+function monthsBetween(start: string, date: string) {
+    const from = parseIso(start);
+    const to = parseIso(date);
+    const months = (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + (to.getUTCMonth() - from.getUTCMonth());
+    // A series started on the 31st lands on the 30th in short months; that still counts as a full month.
+    const isMonthEnd = to.getUTCDate() === daysInMonth(to.getUTCFullYear(), to.getUTCMonth());
+    return to.getUTCDate() < from.getUTCDate() && !isMonthEnd ? months - 1 : months;
+}
+
+// An index value published this long before the adjustment date means the series was not updated.
+const STALE_INDEX_DAYS = 62;
+
+function daysBetween(from: string, to: string) {
+    return Math.round((parseIso(to).getTime() - parseIso(from).getTime()) / 86_400_000);
+}
+
+/**
+ * Adjustment that applies to the occurrence on `date`. With a percent, a rent of 100 that rises 10% every
+ * 3 months is 100 for the first three months, 110 for the next three and 121 after that. With an index the
+ * amount is the base amount times index(last adjustment date) / index(base date), using the last value
+ * published on or before each date; when the series lacks them the amount stays at the base and `missing`
+ * is set so callers can warn.
+ */
+export function recurrenceAmountAdjustment(
+    spec: RecurrenceSpec,
+    start: string,
+    date: string,
+    lookup?: IndexLookup
+): RecurrenceAmountAdjustment {
+    const adjustment = spec.adjustment;
+    if (!adjustment || !(adjustment.every_months > 0)) return { factor: 1, index: null };
+
+    const base = adjustment.index && adjustment.base_date ? adjustment.base_date : start;
+    const steps = Math.max(0, Math.floor(monthsBetween(base, date) / adjustment.every_months));
+
+    if (!adjustment.index) {
+        return { factor: adjustment.percent ? Math.pow(1 + adjustment.percent / 100, steps) : 1, index: null };
+    }
+
+    const adjustedOn = monthDayDate(parseIso(base), steps * adjustment.every_months, parseIso(base).getUTCDate());
+    const baseValue = lookup?.(adjustment.index, base) ?? null;
+    const current = steps > 0 ? lookup?.(adjustment.index, adjustedOn) ?? null : baseValue;
+    const missing = !baseValue || !current || daysBetween(current.date, adjustedOn) > STALE_INDEX_DAYS;
+
+    return {
+        factor: baseValue && current ? current.value / baseValue.value : 1,
+        index: {
+            series: adjustment.index,
+            base_date: base,
+            adjusted_on: adjustedOn,
+            base_value: baseValue?.value ?? null,
+            value: current?.value ?? null,
+            value_date: current?.date ?? null,
+            missing,
+        },
+    };
+}
+
+export function recurrenceAmountFactor(spec: RecurrenceSpec, start: string, date: string, lookup?: IndexLookup) {
+    return recurrenceAmountAdjustment(spec, start, date, lookup).factor;
+}
+
+// Index series referenced by a set of rules, to load their values in a single query.
+export function recurrenceIndexSeries(specs: RecurrenceSpec[]) {
+    return Array.from(new Set(specs.map((spec) => spec.adjustment?.index).filter((series): series is string => Boolean(series))));
+}
+
+export function isMissingRecurrenceColumnError(message?: string | null) {
+    if (!message) return false;
+    const value = message.toLowerCase();
+    return (value.includes('recurrence') && (value.includes('schema cache') || value.includes('does not exist')))
+        || value.includes('recurring_transactions_frequency_check');
+}
+
+/**
+ * Columns to store for a rule: `frequency` mirrors the spec and `next_run` is the first occurrence on or after
+ * `from`. Returns null when the series has no occurrence left.
+ */
+export function planRecurringSchedule(
+    input: { frequency?: string | null; recurrence?: RecurrenceSpec | null; start_date: string },
+    from: string = input.start_date
+) {
+    const spec = resolveRecurrence(input);
+    const first = nextOccurrence(spec, input.start_date, from > input.start_date ? from : input.start_date);
+    if (!first) return null;
+
+    return {
+        frequency: input.recurrence ? legacyFrequency(spec) : input.frequency,
+        next_run: first.date,
+    };
+}
+
+const FREQ_LABELS: Record<RecurrenceFreq, [string, string]> = {
+    daily: ['Diaria', 'días'],
+    weekly: ['Semanal', 'semanas'],
+    monthly: ['Mensual', 'meses'],
+    yearly: ['Anual', 'años'],
+};
+
+export function describeRecurrence(spec: RecurrenceSpec) {
+    const [single, plural] = FREQ_LABELS[spec.freq] ?? FREQ_LABELS.monthly;
+    const parts = [
+        spec.freq === 'weekly' && spec.interval === 2
+            ? 'Quincenal'
+            : spec.interval > 1 ? `Cada ${spec.interval} ${plural}` : single,
+    ];
+
+    if ((spec.freq === 'monthly' || spec.freq === 'yearly') && spec.month_day) {
+        parts.push(spec.month_day === -1 ? 'último día' : `día ${spec.month_day}`);
+    }
+    if (spec.business_day === 'next') parts.push('o siguiente hábil');
+    if (spec.business_day === 'previous') parts.push('o hábil anterior');
+
+    let label = parts.join(' ');
+    if (spec.count) label += ` • ${spec.count} veces`;
+    if (spec.until) label += ` • hasta ${spec.until}`;
+    if (spec.adjustment?.index) {
+        label += ` • ajuste por ${spec.adjustment.index} cada ${spec.adjustment.every_months} meses`;
+    } else if (spec.adjustment?.percent) {
+        label += ` • ${spec.adjustment.percent > 0 ? '+' : ''}${spec.adjustment.percent}% cada ${spec.adjustment.every_months} meses`;
+    }
+    return label;
+}
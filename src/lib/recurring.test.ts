@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { dueOccurrences, isMissingRecurringRunsError } from './recurring';
+
+describe('dueOccurrences', () => {
+    it('should catch up every missed date beyond the old 24 iteration cap', () => {
+        const { occurrences, nextRun } = dueOccurrences(
+            { start_date: '2025-09-01', next_run: '2025-09-01', frequency: 'weekly' },
+            '2026-03-02'
+        );
+
+        expect(occurrences).toHaveLength(27);
+        expect(occurrences[0]).toEqual({ date: '2025-09-01', index: 0 });
+        expect(occurrences[occurrences.length - 1]).toEqual({ date: '2026-03-02', index: 26 });
+        expect(nextRun).toBe('2026-03-09');
+    });
+
+    it('should leave the first pending date as next run when the limit is reached', () => {
+        const { occurrences, nextRun } = dueOccurrences(
+            { start_date: '2026-01-10', next_run: '2026-01-10', frequency: 'monthly' },
+            '2026-06-30',
+            2
+        );
+
+        expect(occurrences.map((occurrence) => occurrence.date)).toEqual(['2026-01-10', '2026-02-10']);
+        expect(nextRun).toBe('2026-03-10');
+    });
+
+    it('should resume from next run and return nothing for rules not yet due', () => {
+        const rule = { start_date: '2026-01-31', next_run: '2026-03-03', frequency: 'monthly' };
+
+        // A next_run drifted by the old month arithmetic realigns with the series.
+        expect(dueOccurrences(rule, '2026-03-31')).toEqual({
+            occurrences: [{ date: '2026-03-31', index: 2 }],
+            nextRun: '2026-04-30',
+        });
+        expect(dueOccurrences(rule, '2026-03-10')).toEqual({ occurrences: [], nextRun: '2026-03-31' });
+    });
+
+    it('should report no next run once the series ends', () => {
+        expect(dueOccurrences({
+            start_date: '2026-01-05',
+            next_run: '2026-02-05',
+            recurrence: { freq: 'monthly', interval: 1, count: 3 },
+        }, '2026-12-31')).toEqual({
+            occurrences: [{ date: '2026-02-05', index: 1 }, { date: '2026-03-05', index: 2 }],
+            nextRun: null,
+        });
+    });
+});
+
+describe('isMissingRecurringRunsError', () => {
+    it('should detect the missing occurrence key migration', () => {
+        expect(isMissingRecurringRunsError("Could not find the 'occurrence_date' column of 'transactions' in the schema cache")).toBe(true);
+        expect(isMissingRecurringRunsError('there is no unique or exclusion constraint matching the ON CONFLICT specification')).toBe(true);
+        expect(isMissingRecurringRunsError('duplicate key value violates unique constraint')).toBe(false);
+    });
+});
@@ -0,0 +1,298 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logInfo, logWarn } from '@/lib/observability';
+import { recordAuditEvent } from '@/lib/audit';
+import { resolveFxSnapshot } from '@/lib/currency';
+import { flagInsertedDuplicates, type StoredTransaction } from '@/lib/duplicates';
+import { loadCategoryRules, withCategoryRules } from '@/lib/category-rules';
+import { applyGoalRules } from '@/lib/goals';
+import { buildIndexLookup, loadIndexValues } from '@/lib/indexes';
+import {
+    expandRecurrence,
+    nextOccurrence,
+    recurrenceAmountAdjustment,
+    recurrenceIndexSeries,
+    resolveRecurrence,
+    type RecurrenceSpec,
+} from '@/lib/recurrence';
+
+export type RecurringRunTrigger = 'cron' | 'manual';
+
+export type RecurringRuleResult = {
+    rule_id: string;
+    description: string;
+    status: 'ok' | 'partial' | 'failed';
+    generated: number;
+    skipped: number;
+    next_run: string | null;
+    error?: string;
+    // Generated anyway, but something needs a look (e.g. index values not loaded yet).
+    warning?: string;
+};
+
+export type RecurringRunSummary = {
+    space_id: string;
+    run_date: string;
+    rules_processed: number;
+    generated: number;
+    skipped: number;
+    failed: number;
+    flagged_duplicates: number;
+    results: RecurringRuleResult[];
+    warning?: string;
+};
+
+/**
+ * Occurrences generated per rule and run. A rule further behind keeps its `next_run` at the first pending
+ * date and the next run continues from there, so nothing is dropped.
+ */
+export const RECURRING_CATCH_UP_LIMIT = 366;
+
+type DueRule = {
+    start_date: string;
+    next_run: string;
+    frequency?: string | null;
+    recurrence?: RecurrenceSpec | null;
+};
+
+/**
+ * Occurrences a rule owes from its `next_run` up to `today` (inclusive), and the `next_run` left once they are
+ * generated; null when the series ended (`until` or `count` reached).
+ */
+export function dueOccurrences(rule: DueRule, today: string, limit = RECURRING_CATCH_UP_LIMIT) {
+    const spec = resolveRecurrence(rule);
+    const occurrences = expandRecurrence(spec, rule.start_date, { from: rule.next_run, to: today, limit });
+    const last = occurrences[occurrences.length - 1];
+    const next = nextOccurrence(spec, rule.start_date, last ? addOneDay(last.date) : rule.next_run);
+
+    return { occurrences, nextRun: next?.date ?? null };
+}
+
+function addOneDay(value: string) {
+    const date = new Date(`${value}T00:00:00.000Z`);
+    date.setUTCDate(date.getUTCDate() + 1);
+    return date.toISOString().slice(0, 10);
+}
+
+export function isMissingRecurringTableError(message?: string | null) {
+    if (!message) return false;
+    const value = message.toLowerCase();
+    return value.includes('recurring_transactions') && value.includes('schema cache');
+}
+
+export function isMissingRecurringRunsError(message?: string | null) {
+    if (!message) return false;
+    const value = message.toLowerCase();
+    // The upsert fails this way when the columns exist but the occurrence index was not created.
+    if (value.includes('no unique or exclusion constraint')) return true;
+    return (value.includes('recurring_runs') || value.includes('recurring_id') || value.includes('occurrence_date'))
+        && (value.includes('schema cache') || value.includes('does not exist'));
+}
+
+/**
+ * Generates every due occurrence of the space's active rules. Each movement carries its
+ * (recurring_id, occurrence_date) key and conflicting inserts are ignored, so running twice for the same day,
+ * or again after a failed `next_run` update, never creates the same movement twice. The run is stored in
+ * `recurring_runs` with one result per rule.
+ *
+ * `userId` is the member who triggered the run; cron runs pass null and movements are attributed to the
+ * owner of each rule.
+ */
+export async function runRecurringForSpace(
+    supabase: SupabaseClient,
+    params: { spaceId: string; userId: string | null; trigger: RecurringRunTrigger; today: string }
+): Promise<RecurringRunSummary> {
+    const startedAt = new Date().toISOString();
+    const summary: RecurringRunSummary = {
+        space_id: params.spaceId,
+        run_date: params.today,
+        rules_processed: 0,
+        generated: 0,
+        skipped: 0,
+        failed: 0,
+        flagged_duplicates: 0,
+        results: [],
+    };
+
+    const { data: dueRules, error: dueError } = await supabase
+        .from('recurring_transactions')
+        .select('*')
+        .eq('space_id', params.spaceId)
+        .eq('is_active', true)
+        .lte('next_run', params.today)
+        .order('next_run', { ascending: true });
+
+    if (dueError) {
+        if (isMissingRecurringTableError(dueError.message)) {
+            return { ...summary, warning: 'Falta tabla recurring_transactions' };
+        }
+        throw new Error(dueError.message);
+    }
+    if (!dueRules || dueRules.length === 0) return summary;
+
+    const categoryRules = await loadCategoryRules(supabase, params.spaceId);
+    const indexLookup = buildIndexLookup(
+        await loadIndexValues(supabase, params.spaceId, recurrenceIndexSeries(dueRules.map((rule) => resolveRecurrence(rule))), {
+            until: params.today,
+        })
+    );
+    const generatedRows: StoredTransaction[] = [];
+
+    for (const rule of dueRules) {
+        const result: RecurringRuleResult = {
+            rule_id: rule.id,
+            description: rule.description,
+            status: 'ok',
+            generated: 0,
+            skipped: 0,
+            next_run: rule.next_run,
+        };
+        summary.rules_processed += 1;
+        summary.results.push(result);
+
+        const spec = resolveRecurrence(rule);
+        const { occurrences, nextRun } = dueOccurrences(rule, params.today);
+        const missingIndexDates: string[] = [];
+        let rows;
+        try {
+            rows = occurrences.map(({ date }) => {
+                // Generated movements reuse the rule snapshot so reports stay reproducible.
+                const { factor, index } = recurrenceAmountAdjustment(spec, rule.start_date, date, indexLookup);
+                if (index?.missing) missingIndexDates.push(index.adjusted_on);
+                return withCategoryRules(categoryRules, {
+                    user_id: params.userId || rule.user_id,
+                    space_id: params.spaceId,
+                    type: rule.type,
+                    ...resolveFxSnapshot({
+                        currency: rule.currency,
+                        amount: Number(rule.amount) * factor,
+                        original_amount: rule.original_amount != null ? Number(rule.original_amount) * factor : null,
+                        fx_rate: rule.fx_rate != null ? Number(rule.fx_rate) : null,
+                        fx_source: rule.fx_source,
+                    }),
+                    description: `${rule.description} (Recurrente)`,
+                    category: rule.category,
+                    date,
+                    recurring_id: rule.id,
+                    occurrence_date: date,
+                });
+            });
+        } catch (error) {
+            result.status = 'failed';
+            result.error = error instanceof Error ? error.message : String(error);
+            continue;
+        }
+
+        // A `next_run` that fell between two occurrences (older rules drifted on month ends) only moves forward.
+        const { data: insertedRows, error: insertError } = rows.length
+            ? await supabase
+                .from('transactions')
+                .upsert(rows, { onConflict: 'recurring_id,occurrence_date', ignoreDuplicates: true })
+                .select('*')
+            : { data: [], error: null };
+
+        if (insertError) {
+            if (isMissingRecurringRunsError(insertError.message)) {
+                // Without the occurrence key a rerun could duplicate movements, so nothing is generated.
+                summary.results.pop();
+                summary.rules_processed -= 1;
+                summary.warning = 'Ejecuta supabase-recurring-runs.sql en Supabase SQL Editor.';
+                break;
+            }
+            result.status = 'failed';
+            result.error = insertError.message;
+            continue;
+        }
+
+        const inserted = (insertedRows || []) as StoredTransaction[];
+        result.generated = inserted.length;
+        result.skipped = rows.length - inserted.length;
+        generatedRows.push(...inserted);
+
+        if (missingIndexDates.length && inserted.length) {
+            const dates = Array.from(new Set(missingIndexDates));
+            result.warning = `Faltan valores de ${spec.adjustment?.index} para ${dates.join(', ')}; se usó el último valor cargado.`;
+        }
+
+        // A finished series (until/count reached) is deactivated and keeps its last pending date.
+        const { error: updateError } = await supabase
+            .from('recurring_transactions')
+            .update({
+                ...(nextRun ? { next_run: nextRun } : { is_active: false }),
+                updated_at: new Date().toISOString(),
+            })
+            .eq('id', rule.id)
+            .eq('space_id', params.spaceId);
+
+        if (updateError) {
+            // The movements are keyed by occurrence, so the next run skips them and retries the update.
+            result.status = 'partial';
+            result.error = updateError.message;
+        } else {
+            result.next_run = nextRun;
+        }
+    }
+
+    summary.generated = summary.results.reduce((sum, result) => sum + result.generated, 0);
+    summary.skipped = summary.results.reduce((sum, result) => sum + result.skipped, 0);
+    summary.failed = summary.results.filter((result) => result.status !== 'ok').length;
+
+    const actorId = params.userId || dueRules[0].user_id;
+
+    // A movement the user already loaded by hand or from a document goes to the review queue, not silently twice.
+    summary.flagged_duplicates = await flagInsertedDuplicates(supabase, {
+        spaceId: params.spaceId,
+        userId: actorId,
+        source: 'recurring',
+        rows: generatedRows,
+    });
+    await applyGoalRules(supabase, { spaceId: params.spaceId, userId: actorId, transactions: generatedRows });
+
+    if (!summary.warning) {
+        const { error: runError } = await supabase.from('recurring_runs').insert({
+            space_id: params.spaceId,
+            user_id: params.userId,
+            trigger: params.trigger,
+            run_date: params.today,
+            rules_processed: summary.rules_processed,
+            generated: summary.generated,
+            skipped: summary.skipped,
+            failed: summary.failed,
+            results: summary.results,
+            started_at: startedAt,
+            finished_at: new Date().toISOString(),
+        });
+
+        if (runError) {
+            logWarn('recurring_run_log_failed', { spaceId: params.spaceId, trigger: params.trigger, reason: runError.message });
+        }
+    }
+
+    await recordAuditEvent({
+        supabase,
+        userId: actorId,
+        spaceId: params.spaceId,
+        entityType: 'recurring_runner',
+        entityId: params.spaceId,
+        action: 'system',
+        metadata: {
+            trigger: params.trigger,
+            generated: summary.generated,
+            skipped: summary.skipped,
+            failed: summary.failed,
+            updatedRules: summary.results.filter((result) => result.status === 'ok').length,
+            flaggedDuplicates: summary.flagged_duplicates,
+            runDate: params.today,
+        },
+    });
+
+    logInfo('recurring_space_run_completed', {
+        spaceId: params.spaceId,
+        trigger: params.trigger,
+        rulesProcessed: summary.rules_processed,
+        generated: summary.generated,
+        skipped: summary.skipped,
+        failed: summary.failed,
+    });
+
+    return summary;
+}
@@ -1,7 +1,29 @@
 import { z } from 'zod';
+import { isValidRulePattern } from '@/lib/category-rules';
+import { MAX_TAGS_PER_TRANSACTION, normalizeTagList } from '@/lib/tags';
+import { MAX_SPLIT_LINES } from '@/lib/splits';
+import { INDEX_SERIES_PATTERN, MAX_INDEX_VALUES_PER_UPLOAD } from '@/lib/indexes';
+import { MAX_PRICES_PER_UPLOAD } from '@/lib/investments';
 
-export const TransactionTypeSchema = z.enum(['income', 'expense']);
-export const RecurringFrequencySchema = z.enum(['weekly', 'biweekly', 'monthly']);
+export const TransactionTypeSchema = z.enum(['income', 'expense', 'transfer']);
+export const CashflowTypeSchema = z.enum(['income', 'expense']);
+// `yearly` and `custom` are only written by the server, derived from `recurrence`.
+export const RecurringFrequencySchema = z.enum(['weekly', 'biweekly', 'monthly', 'yearly', 'custom']);
+export const CurrencySchema = z.enum(['ARS', 'USD']);
+
+// FX snapshot stored next to every money row: `amount` stays in ARS, the rest records how it was converted.
+const FxSnapshotFields = {
+    currency: CurrencySchema.optional(),
+    original_amount: z.coerce.number().positive('El monto original debe ser positivo').optional().nullable(),
+    fx_rate: z.coerce.number().positive('El tipo de cambio debe ser positivo').optional().nullable(),
+    fx_source: z.string().max(60).optional().nullable(),
+};
+
+// Forms send tags as "a, b"; the API and the rules send arrays. Both end up normalized and unique.
+export const TagListSchema = z.preprocess(
+    (value) => (typeof value === 'string' || Array.isArray(value) ? normalizeTagList(value as string | string[]) : value),
+    z.array(z.string()).max(MAX_TAGS_PER_TRANSACTION, `Máximo ${MAX_TAGS_PER_TRANSACTION} etiquetas`)
+);
 
 export const TransactionSchema = z.object({
     id: z.string().uuid().optional(),
@@ -11,6 +33,12 @@ export const TransactionSchema = z.object({
     description: z.string().min(1, 'La descripción es requerida'),
     category: z.string().min(1, 'La categoría es requerida'),
     date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)'),
+    account_id: z.string().uuid('Cuenta inválida').optional().nullable(),
+    // Only for transfers: the account that receives the money.
+    transfer_account_id: z.string().uuid('Cuenta de destino inválida').optional().nullable(),
+    notes: z.string().trim().max(2000, 'La nota no puede superar 2000 caracteres').transform((value) => value || null).optional().nullable(),
+    tags: TagListSchema.optional(),
+    ...FxSnapshotFields,
     created_at: z.string().optional(),
 });
 
@@ -27,6 +55,18 @@ export const TransactionUpdateSchema = TransactionInputSchema.partial().refine(
     }
 );
 
+// Amounts are in the movement's own currency; the API checks that they add up to its total.
+export const TransactionSplitLineSchema = z.object({
+    category: z.string().trim().min(1, 'La categoría es requerida').max(60),
+    amount: z.coerce.number().positive('El monto debe ser positivo'),
+    description: z.string().trim().max(200).optional().nullable(),
+});
+
+// An empty list removes the split and leaves a single-category movement.
+export const TransactionSplitsSchema = z.object({
+    splits: z.array(TransactionSplitLineSchema).max(MAX_SPLIT_LINES, `Máximo ${MAX_SPLIT_LINES} líneas`),
+});
+
 export const ObligationSchema = z.object({
     id: z.string().uuid().optional(),
     user_id: z.string().uuid().optional(),
@@ -37,6 +77,10 @@ export const ObligationSchema = z.object({
     status: z.enum(['pending', 'paid', 'overdue']).default('pending'),
     category: z.string().optional().nullable(),
     minimum_payment: z.coerce.number().optional().nullable(),
+    // Charged once the due date passes: a fixed fee and/or annual interest in percent accrued daily (see lib/obligations).
+    late_fee: z.coerce.number().min(0, 'El recargo no puede ser negativo').optional().nullable(),
+    late_interest_rate: z.coerce.number().min(0, 'La tasa no puede ser negativa').max(10000, 'Tasa inválida').optional().nullable(),
+    ...FxSnapshotFields,
 });
 
 export const DebtSchema = z.object({
@@ -49,11 +93,39 @@ export const DebtSchema = z.object({
     total_installments: z.number().int().positive(),
     category: z.string(),
     next_payment_date: z.string(),
+    // Annual interest rate in percent, nominal (TNA/APR) or effective (TEA). Used by the payoff planner.
+    annual_rate: z.coerce.number().min(0, 'La tasa no puede ser negativa').max(10000, 'Tasa inválida').optional().nullable(),
+    rate_kind: z.enum(['tna', 'tea']).optional(),
+    // Loans (supabase-loans.sql): set on creation from LoanInputSchema, kept in sync by confirmed payments.
+    loan_system: z.enum(['french', 'german', 'uva']).optional().nullable(),
+    principal: z.coerce.number().optional().nullable(),
+    principal_balance: z.coerce.number().optional().nullable(),
+    ...FxSnapshotFields,
 });
 
 export const DebtInputSchema = DebtSchema.omit({
     id: true,
     user_id: true,
+    loan_system: true,
+    principal: true,
+    principal_balance: true,
+});
+
+// A loan is stored as a debt; its amounts, installment and dates come from the amortization schedule.
+export const LoanInputSchema = z.object({
+    name: z.string().min(1, 'El nombre es requerido'),
+    category: z.string().min(1, 'La categoría es requerida'),
+    loan_system: z.enum(['french', 'german', 'uva']),
+    // In pesos, or in UVAs for a UVA loan.
+    principal: z.coerce.number().positive('El capital debe ser positivo'),
+    annual_rate: z.coerce.number().min(0, 'La tasa no puede ser negativa').max(10000, 'Tasa inválida').default(0),
+    rate_kind: z.enum(['tna', 'tea']).default('tna'),
+    total_installments: z.coerce.number().int().positive('El plazo debe ser de al menos una cuota').max(600, 'Plazo inválido'),
+    paid_installments: z.coerce.number().int().min(0).default(0),
+    first_payment_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)'),
+}).refine((payload) => payload.paid_installments < payload.total_installments, {
+    message: 'Las cuotas pagadas deben ser menos que el plazo',
+    path: ['paid_installments'],
 });
 
 export const DebtUpdateSchema = DebtInputSchema.partial().refine(
@@ -88,6 +160,41 @@ export const SavingsGoalUpdateSchema = SavingsGoalInputSchema.partial().refine(
     }
 );
 
+export const GoalContributionInputSchema = z.object({
+    amount: z.coerce.number().refine((value) => value !== 0, 'El monto no puede ser cero'),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)'),
+    transaction_id: z.string().uuid().optional().nullable(),
+    from_account_id: z.string().uuid().optional().nullable(),
+    to_account_id: z.string().uuid().optional().nullable(),
+    notes: z.string().max(300).optional().nullable(),
+}).superRefine((payload, ctx) => {
+    if (payload.transaction_id) return;
+    if (!payload.from_account_id || !payload.to_account_id) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['transaction_id'], message: 'Vinculá un movimiento o indicá las cuentas de la transferencia' });
+    } else if (payload.amount < 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['amount'], message: 'Un retiro se vincula al movimiento que lo registró' });
+    }
+});
+
+export const GoalRuleSchema = z.object({
+    category: z.string().trim().max(80).optional().nullable(),
+    mode: z.enum(['percent', 'fixed']).default('percent'),
+    value: z.coerce.number().positive('El valor debe ser positivo'),
+    is_active: z.boolean().default(true),
+});
+
+export const GoalRuleInputSchema = GoalRuleSchema.refine(
+    (payload) => payload.mode !== 'percent' || payload.value <= 100,
+    { message: 'El porcentaje no puede superar 100', path: ['value'] }
+);
+
+export const GoalRuleUpdateSchema = GoalRuleSchema.partial().refine(
+    (payload) => Object.keys(payload).length > 0,
+    {
+        message: 'Debes enviar al menos un campo para actualizar',
+    }
+);
+
 export const BudgetSchema = z.object({
     id: z.string().uuid().optional(),
     user_id: z.string().uuid().optional(),
@@ -95,6 +202,7 @@ export const BudgetSchema = z.object({
     month: z.string().regex(/^\d{4}-\d{2}$/, 'Formato de mes inválido (YYYY-MM)'),
     limit_amount: z.coerce.number().positive('El límite debe ser mayor a 0'),
     alert_threshold: z.coerce.number().min(1).max(100).default(80),
+    currency: CurrencySchema.optional(),
 });
 
 export const BudgetInputSchema = BudgetSchema.omit({
@@ -109,17 +217,43 @@ export const BudgetUpdateSchema = BudgetInputSchema.partial().refine(
     }
 );
 
+export const RecurrenceSpecSchema = z.object({
+    freq: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
+    interval: z.coerce.number().int().min(1, 'El intervalo mínimo es 1').max(60).default(1),
+    // 1-31, or -1 for the last day of the month.
+    month_day: z.coerce.number().int().min(-1).max(31)
+        .refine((value) => value !== 0, 'Día del mes inválido')
+        .optional()
+        .nullable(),
+    business_day: z.enum(['none', 'next', 'previous']).default('none'),
+    until: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)').optional().nullable(),
+    count: z.coerce.number().int().min(1, 'La cantidad mínima es 1').max(1000).optional().nullable(),
+    // Either a fixed `percent` or an index series (see src/lib/indexes.ts) measured from `base_date`.
+    adjustment: z.object({
+        every_months: z.coerce.number().int().min(1).max(120),
+        percent: z.coerce.number().min(-100).max(1000).optional().nullable(),
+        index: z.string().regex(INDEX_SERIES_PATTERN, 'Serie de índice inválida').optional().nullable(),
+        base_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)').optional().nullable(),
+    }).refine(
+        (adjustment) => Boolean(adjustment.index) || Boolean(adjustment.percent),
+        'Indica un porcentaje o una serie de índice para el ajuste'
+    ).optional().nullable(),
+});
+
 export const RecurringTransactionSchema = z.object({
     id: z.string().uuid().optional(),
     user_id: z.string().uuid().optional(),
-    type: TransactionTypeSchema,
+    type: CashflowTypeSchema,
     amount: z.coerce.number().positive('El monto debe ser positivo'),
     description: z.string().min(1, 'La descripción es requerida'),
     category: z.string().min(1, 'La categoría es requerida'),
     frequency: RecurringFrequencySchema,
+    // When present it wins over `frequency`; see src/lib/recurrence.ts.
+    recurrence: RecurrenceSpecSchema.optional().nullable(),
     start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)'),
     next_run: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)').optional(),
     is_active: z.boolean().default(true),
+    ...FxSnapshotFields,
 });
 
 export const RecurringTransactionInputSchema = RecurringTransactionSchema.omit({
@@ -134,19 +268,369 @@ export const RecurringTransactionUpdateSchema = RecurringTransactionInputSchema.
     }
 );
 
+export const AccountKindSchema = z.enum(['cash', 'bank', 'credit_card', 'wallet', 'brokerage']);
+
+export const AccountSchema = z.object({
+    id: z.string().uuid().optional(),
+    user_id: z.string().uuid().optional(),
+    name: z.string().min(1, 'El nombre es requerido').max(80),
+    kind: AccountKindSchema,
+    currency: CurrencySchema.default('ARS'),
+    opening_balance: z.coerce.number().default(0),
+    opening_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)').optional().nullable(),
+    is_default: z.boolean().optional(),
+    is_archived: z.boolean().default(false),
+});
+
+export const AccountInputSchema = AccountSchema.omit({
+    id: true,
+    user_id: true,
+});
+
+export const AccountUpdateSchema = AccountInputSchema.partial().refine(
+    (payload) => Object.keys(payload).length > 0,
+    {
+        message: 'Debes enviar al menos un campo para actualizar',
+    }
+);
+
+const DayOfMonthSchema = z.coerce.number().int().min(1, 'El día debe estar entre 1 y 31').max(31, 'El día debe estar entre 1 y 31');
+
+export const CreditCardSchema = z.object({
+    id: z.string().uuid().optional(),
+    user_id: z.string().uuid().optional(),
+    name: z.string().min(1, 'El nombre es requerido').max(80),
+    issuer: z.string().max(80).optional().nullable(),
+    card_brand: z.string().max(40).optional().nullable(),
+    last4: z.string().regex(/^\d{4}$/, 'Ingresá los últimos 4 dígitos').optional().nullable(),
+    closing_day: DayOfMonthSchema,
+    due_day: DayOfMonthSchema,
+    account_id: z.string().uuid().optional().nullable(),
+    is_archived: z.boolean().default(false),
+});
+
+export const CreditCardInputSchema = CreditCardSchema.omit({
+    id: true,
+    user_id: true,
+});
+
+export const CreditCardUpdateSchema = CreditCardInputSchema.omit({ account_id: true }).partial().refine(
+    (payload) => Object.keys(payload).length > 0,
+    {
+        message: 'Debes enviar al menos un campo para actualizar',
+    }
+);
+
+export const CardStatementPaymentSchema = z.object({
+    payment_amount: z.coerce.number().positive('El monto debe ser positivo').optional().nullable(),
+    payment_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)').optional().nullable(),
+    from_account_id: z.string().uuid().optional().nullable(),
+    description: z.string().optional().nullable(),
+});
+
+export const InstallmentPlanInputSchema = z.object({
+    card_id: z.string().uuid().optional().nullable(),
+    description: z.string().min(1, 'La descripción es requerida').max(160),
+    merchant: z.string().max(80).optional().nullable(),
+    purchase_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)'),
+    first_charge_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)').optional().nullable(),
+    total_installments: z.coerce.number().int().min(1, 'Mínimo 1 cuota').max(120, 'Máximo 120 cuotas'),
+    installment_amount: z.coerce.number().positive('El monto de la cuota debe ser positivo'),
+    currency: CurrencySchema.default('ARS'),
+    paid_installments: z.coerce.number().int().min(0).default(0),
+}).refine((payload) => payload.paid_installments <= payload.total_installments, {
+    message: 'Las cuotas pagadas no pueden superar el total',
+    path: ['paid_installments'],
+});
+
+export const InstallmentPlanUpdateSchema = z.object({
+    description: z.string().min(1, 'La descripción es requerida').max(160).optional(),
+    merchant: z.string().max(80).optional().nullable(),
+    status: z.literal('cancelled').optional(),
+}).refine(
+    (payload) => Object.keys(payload).length > 0,
+    {
+        message: 'Debes enviar al menos un campo para actualizar',
+    }
+);
+
+const ImportColumnSchema = z.string().trim().max(80).optional().nullable();
+
+export const ImportMappingSchema = z.object({
+    delimiter: z.enum(['auto', ',', ';', '\t']).default('auto'),
+    skip_rows: z.coerce.number().int().min(0).max(50).default(0),
+    date_column: z.string().trim().min(1, 'Indicá la columna de fecha').max(80),
+    description_column: z.string().trim().min(1, 'Indicá la columna de descripción').max(80),
+    amount_column: ImportColumnSchema,
+    debit_column: ImportColumnSchema,
+    credit_column: ImportColumnSchema,
+    type_column: ImportColumnSchema,
+    category_column: ImportColumnSchema,
+    date_format: z.enum(['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD', 'DD-MM-YYYY']).default('DD/MM/YYYY'),
+    decimal_separator: z.enum([',', '.']).default(','),
+    sign_convention: z.enum(['negative_is_expense', 'positive_is_expense', 'split_columns', 'type_column']),
+}).superRefine((mapping, ctx) => {
+    if (mapping.sign_convention === 'split_columns') {
+        if (!mapping.debit_column) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['debit_column'], message: 'Indicá la columna de débitos' });
+        if (!mapping.credit_column) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['credit_column'], message: 'Indicá la columna de créditos' });
+        return;
+    }
+    if (!mapping.amount_column) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['amount_column'], message: 'Indicá la columna de monto' });
+    if (mapping.sign_convention === 'type_column' && !mapping.type_column) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['type_column'], message: 'Indicá la columna de tipo' });
+    }
+});
+
+export const ImportProfileInputSchema = z.object({
+    name: z.string().trim().min(1, 'El nombre es requerido').max(80),
+    bank: z.string().trim().max(40).optional().nullable(),
+    mapping: ImportMappingSchema,
+});
+
+export const ImportProfileUpdateSchema = z.object({
+    name: z.string().trim().min(1, 'El nombre es requerido').max(80).optional(),
+    bank: z.string().trim().max(40).optional().nullable(),
+    mapping: ImportMappingSchema.optional(),
+}).refine(
+    (payload) => Object.keys(payload).length > 0,
+    {
+        message: 'Debes enviar al menos un campo para actualizar',
+    }
+);
+
+export const CategoryKindSchema = z.enum(['income', 'expense']);
+
+export const CategoryInputSchema = z.object({
+    name: z.string().trim().min(1, 'El nombre es requerido').max(60),
+    kind: CategoryKindSchema.default('expense'),
+    parent_id: z.string().uuid('Categoría padre inválida').optional().nullable(),
+    icon: z.string().trim().max(16).optional().nullable(),
+    color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color inválido (#RRGGBB)').optional().nullable(),
+});
+
+export const CategoryUpdateSchema = CategoryInputSchema.extend({
+    is_archived: z.boolean(),
+}).partial().refine(
+    (payload) => Object.keys(payload).length > 0,
+    {
+        message: 'Debes enviar al menos un campo para actualizar',
+    }
+);
+
+const CategoryRuleFields = {
+    name: z.string().trim().min(1, 'El nombre es requerido').max(80),
+    priority: z.coerce.number().int().min(0).max(10000).default(100),
+    is_active: z.boolean().default(true),
+    description_pattern: z.string().trim().max(200).optional().nullable()
+        .refine((value) => isValidRulePattern(value), 'El patrón no es una expresión regular válida'),
+    amount_min: z.coerce.number().nonnegative('El monto mínimo no puede ser negativo').optional().nullable(),
+    amount_max: z.coerce.number().nonnegative('El monto máximo no puede ser negativo').optional().nullable(),
+    account_id: z.string().uuid('Cuenta inválida').optional().nullable(),
+    transaction_type: CashflowTypeSchema.optional().nullable(),
+    set_category: z.string().trim().min(1).max(60).optional().nullable(),
+    set_tags: z.array(z.string().trim().min(1).max(30)).max(10, 'Máximo 10 etiquetas').transform((tags) => normalizeTagList(tags)).default([]),
+    // Marks matching movements as transfers to or from this account.
+    transfer_account_id: z.string().uuid('Cuenta de destino inválida').optional().nullable(),
+};
+
+function hasRuleAction(payload: { set_category?: string | null; set_tags?: string[]; transfer_account_id?: string | null }) {
+    return Boolean(payload.set_category || payload.set_tags?.length || payload.transfer_account_id);
+}
+
+function hasValidAmountRange(payload: { amount_min?: number | null; amount_max?: number | null }) {
+    return payload.amount_min == null || payload.amount_max == null || payload.amount_min <= payload.amount_max;
+}
+
+export const CategoryRuleInputSchema = z.object(CategoryRuleFields)
+    .refine(hasRuleAction, { message: 'La regla necesita al menos una acción', path: ['set_category'] })
+    .refine(hasValidAmountRange, { message: 'El monto mínimo no puede superar al máximo', path: ['amount_max'] });
+
+export const CategoryRuleUpdateSchema = z.object(CategoryRuleFields).partial().refine(
+    (payload) => Object.keys(payload).length > 0,
+    {
+        message: 'Debes enviar al menos un campo para actualizar',
+    }
+).refine(hasValidAmountRange, { message: 'El monto mínimo no puede superar al máximo', path: ['amount_max'] });
+
+// Re-applying always starts as a dry run; confirming sends the ids shown in the preview.
+export const CategoryRuleApplySchema = z.object({
+    dry_run: z.boolean().default(true),
+    from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)').optional().nullable(),
+    transaction_ids: z.array(z.string().uuid()).max(500).optional(),
+});
+
+// Merging keeps one movement of the pair and deletes the other.
+export const DuplicateMergeSchema = z.object({
+    keep: z.enum(['original', 'duplicate']).default('original'),
+});
+
+// Like rule re-application: a dry run returns the plan, confirming sends the statement lines to accept or create.
+export const ReconciliationApplySchema = z.object({
+    extraction_id: z.string().uuid('Extracto inválido'),
+    account_id: z.string().uuid('Cuenta inválida'),
+    dry_run: z.boolean().default(true),
+    accept_entry_indexes: z.array(z.number().int().min(0)).max(500).default([]),
+    create_entry_indexes: z.array(z.number().int().min(0)).max(500).default([]),
+    fx_rate: z.coerce.number().positive('El tipo de cambio debe ser positivo').optional().nullable(),
+});
+
+export const FxRateInputSchema = z.object({
+    currency: z.literal('USD').default('USD'),
+    rate_type: z.enum(['oficial', 'tarjeta', 'mep', 'blue']),
+    rate_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)'),
+    buy: z.coerce.number().positive('La cotización de compra debe ser positiva').optional().nullable(),
+    sell: z.coerce.number().positive('La cotización de venta debe ser positiva'),
+});
+
+export const IndexValuesInputSchema = z.object({
+    series: z.string().trim().toUpperCase().regex(INDEX_SERIES_PATTERN, 'Código de serie inválido (2 a 20 letras, números o _)'),
+    source: z.enum(['manual', 'csv']).default('manual'),
+    values: z.array(z.object({
+        date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)'),
+        value: z.coerce.number().positive('El valor del índice debe ser positivo'),
+    })).min(1, 'Carga al menos un valor').max(MAX_INDEX_VALUES_PER_UPLOAD, `Máximo ${MAX_INDEX_VALUES_PER_UPLOAD} valores por carga`),
+});
+
+export const AssetSchema = z.object({
+    id: z.string().uuid().optional(),
+    user_id: z.string().uuid().optional(),
+    name: z.string().trim().min(1, 'El nombre es requerido').max(80),
+    asset_class: z.enum(['cash', 'usd_savings', 'investment', 'property', 'vehicle', 'other']).default('other'),
+    valuation_mode: z.enum(['manual', 'account']).default('manual'),
+    currency: CurrencySchema.default('ARS'),
+    value: z.coerce.number().min(0, 'El valor no puede ser negativo').optional().nullable(),
+    account_id: z.string().uuid().optional().nullable(),
+    valued_at: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)').optional().nullable(),
+    notes: z.string().max(500).optional().nullable(),
+    is_archived: z.boolean().default(false),
+});
+
+export const AssetInputSchema = AssetSchema.omit({
+    id: true,
+    user_id: true,
+}).superRefine((payload, ctx) => {
+    if (payload.valuation_mode === 'account' && !payload.account_id) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['account_id'], message: 'Elegí la cuenta de la que toma el valor' });
+    }
+    if (payload.valuation_mode === 'manual' && payload.value == null) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: 'El valor es requerido' });
+    }
+});
+
+export const AssetUpdateSchema = AssetSchema.omit({
+    id: true,
+    user_id: true,
+}).partial().refine(
+    (payload) => Object.keys(payload).length > 0,
+    {
+        message: 'Debes enviar al menos un campo para actualizar',
+    }
+);
+
+export const InvestmentHoldingSchema = z.object({
+    id: z.string().uuid().optional(),
+    user_id: z.string().uuid().optional(),
+    name: z.string().trim().min(1, 'El nombre es requerido').max(80),
+    kind: z.enum(['plazo_fijo', 'fci', 'cedear', 'stock', 'bond', 'crypto', 'other']).default('other'),
+    symbol: z.string().trim().toUpperCase().max(20).optional().nullable(),
+    currency: CurrencySchema.default('ARS'),
+    account_id: z.string().uuid().optional().nullable(),
+    principal: z.coerce.number().positive('El capital debe ser positivo').optional().nullable(),
+    tna: z.coerce.number().min(0, 'La TNA no puede ser negativa').max(1000).optional().nullable(),
+    start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)').optional().nullable(),
+    maturity_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)').optional().nullable(),
+    status: z.enum(['active', 'matured', 'closed']).default('active'),
+    notes: z.string().max(500).optional().nullable(),
+});
+
+export const InvestmentHoldingInputSchema = InvestmentHoldingSchema.omit({
+    id: true,
+    user_id: true,
+}).superRefine((payload, ctx) => {
+    if (payload.kind !== 'plazo_fijo') return;
+    if (payload.principal == null) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['principal'], message: 'Indicá el capital' });
+    if (payload.tna == null) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['tna'], message: 'Indicá la TNA' });
+    if (!payload.start_date) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['start_date'], message: 'Indicá la fecha de constitución' });
+    if (!payload.maturity_date || (payload.start_date && payload.maturity_date <= payload.start_date)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['maturity_date'], message: 'El vencimiento debe ser posterior a la constitución' });
+    }
+});
+
+export const InvestmentHoldingUpdateSchema = InvestmentHoldingSchema.omit({
+    id: true,
+    user_id: true,
+    kind: true,
+}).partial().refine(
+    (payload) => Object.keys(payload).length > 0,
+    {
+        message: 'Debes enviar al menos un campo para actualizar',
+    }
+);
+
+export const InvestmentTradeInputSchema = z.object({
+    side: z.enum(['buy', 'sell']),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)'),
+    quantity: z.coerce.number().positive('La cantidad debe ser positiva'),
+    price: z.coerce.number().min(0, 'El precio no puede ser negativo'),
+    fees: z.coerce.number().min(0, 'Las comisiones no pueden ser negativas').default(0),
+    notes: z.string().max(500).optional().nullable(),
+});
+
+export const InvestmentPricesInputSchema = z.object({
+    source: z.enum(['manual', 'csv']).default('manual'),
+    prices: z.array(z.object({
+        date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Formato de fecha inválido (YYYY-MM-DD)'),
+        price: z.coerce.number().positive('El precio debe ser positivo'),
+    })).min(1, 'Carga al menos un precio').max(MAX_PRICES_PER_UPLOAD, `Máximo ${MAX_PRICES_PER_UPLOAD} precios por carga`),
+});
+
 export type Transaction = z.infer<typeof TransactionSchema>;
 export type TransactionInput = z.infer<typeof TransactionInputSchema>;
 export type TransactionUpdate = z.infer<typeof TransactionUpdateSchema>;
+export type TransactionSplitLine = z.infer<typeof TransactionSplitLineSchema>;
+export type TransactionSplitsInput = z.infer<typeof TransactionSplitsSchema>;
 export type Obligation = z.infer<typeof ObligationSchema>;
 export type Debt = z.infer<typeof DebtSchema>;
 export type DebtInput = z.infer<typeof DebtInputSchema>;
 export type DebtUpdate = z.infer<typeof DebtUpdateSchema>;
+export type LoanInput = z.infer<typeof LoanInputSchema>;
 export type SavingsGoal = z.infer<typeof SavingsGoalSchema>;
 export type SavingsGoalInput = z.infer<typeof SavingsGoalInputSchema>;
 export type SavingsGoalUpdate = z.infer<typeof SavingsGoalUpdateSchema>;
+export type GoalContributionInput = z.infer<typeof GoalContributionInputSchema>;
+export type GoalRuleInput = z.infer<typeof GoalRuleInputSchema>;
+export type GoalRuleUpdate = z.infer<typeof GoalRuleUpdateSchema>;
 export type Budget = z.infer<typeof BudgetSchema>;
 export type BudgetInput = z.infer<typeof BudgetInputSchema>;
 export type BudgetUpdate = z.infer<typeof BudgetUpdateSchema>;
+export type RecurrenceSpecInput = z.infer<typeof RecurrenceSpecSchema>;
 export type RecurringTransaction = z.infer<typeof RecurringTransactionSchema>;
 export type RecurringTransactionInput = z.infer<typeof RecurringTransactionInputSchema>;
 export type RecurringTransactionUpdate = z.infer<typeof RecurringTransactionUpdateSchema>;
+export type Account = z.infer<typeof AccountSchema>;
+export type AccountInput = z.infer<typeof AccountInputSchema>;
+export type AccountUpdate = z.infer<typeof AccountUpdateSchema>;
+export type CreditCard = z.infer<typeof CreditCardSchema>;
+export type CreditCardInput = z.infer<typeof CreditCardInputSchema>;
+export type CreditCardUpdate = z.infer<typeof CreditCardUpdateSchema>;
+export type CardStatementPayment = z.infer<typeof CardStatementPaymentSchema>;
+export type InstallmentPlanInput = z.infer<typeof InstallmentPlanInputSchema>;
+export type InstallmentPlanUpdate = z.infer<typeof InstallmentPlanUpdateSchema>;
+export type ImportMappingInput = z.infer<typeof ImportMappingSchema>;
+export type ImportProfileInput = z.infer<typeof ImportProfileInputSchema>;
+export type ImportProfileUpdate = z.infer<typeof ImportProfileUpdateSchema>;
+export type CategoryInput = z.infer<typeof CategoryInputSchema>;
+export type CategoryUpdate = z.infer<typeof CategoryUpdateSchema>;
+export type CategoryRuleInput = z.infer<typeof CategoryRuleInputSchema>;
+export type CategoryRuleUpdate = z.infer<typeof CategoryRuleUpdateSchema>;
+export type CategoryRuleApply = z.infer<typeof CategoryRuleApplySchema>;
+export type DuplicateMerge = z.infer<typeof DuplicateMergeSchema>;
+export type ReconciliationApply = z.infer<typeof ReconciliationApplySchema>;
+export type FxRateInput = z.infer<typeof FxRateInputSchema>;
+export type IndexValuesInput = z.infer<typeof IndexValuesInputSchema>;
+export type AssetInput = z.infer<typeof AssetInputSchema>;
+export type AssetUpdate = z.infer<typeof AssetUpdateSchema>;
+export type InvestmentHoldingInput = z.infer<typeof InvestmentHoldingInputSchema>;
+export type InvestmentHoldingUpdate = z.infer<typeof InvestmentHoldingUpdateSchema>;
+export type InvestmentTradeInput = z.infer<typeof InvestmentTradeInputSchema>;
+export type InvestmentPricesInput = z.infer<typeof InvestmentPricesInputSchema>;
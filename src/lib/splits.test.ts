@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+    expandSplitRows,
+    primarySplitCategory,
+    rescaleSplitLines,
+    splitBaseAmount,
+    validateSplitLines,
+} from './splits';
+
+describe('validateSplitLines', () => {
+    it('should require at least two positive lines that add up to the total', () => {
+        expect(validateSplitLines(1000, [{ category: 'Supermercado', amount: 600 }, { category: 'Limpieza', amount: 400 }])).toBeNull();
+        expect(validateSplitLines(1000, [{ category: 'Supermercado', amount: 1000 }])).toMatch(/dos líneas/);
+        expect(validateSplitLines(1000, [{ category: 'Supermercado', amount: 600 }, { category: 'Limpieza', amount: 300 }])).toMatch(/suman 900.00/);
+        expect(validateSplitLines(1000, [{ category: '', amount: 600 }, { category: 'Limpieza', amount: 400 }])).toMatch(/categoría/);
+    });
+});
+
+describe('splitBaseAmount', () => {
+    it('should use the original amount for foreign currency movements', () => {
+        expect(splitBaseAmount({ amount: 120000, currency: 'USD', original_amount: 100 })).toBe(100);
+        expect(splitBaseAmount({ amount: 5000, currency: 'ARS', original_amount: 5000 })).toBe(5000);
+    });
+});
+
+describe('expandSplitRows', () => {
+    it('should share the ARS and original amounts out by line weight', () => {
+        const row = {
+            type: 'expense',
+            amount: 120000,
+            category: 'Supermercado',
+            currency: 'USD',
+            original_amount: 100,
+            splits: [
+                { category: 'Supermercado', amount: 75 },
+                { category: 'Farmacia', amount: 25 },
+            ],
+        };
+
+        const lines = expandSplitRows(row);
+
+        expect(lines.map((line) => [line.category, line.amount, line.original_amount])).toEqual([
+            ['Supermercado', 90000, 75],
+            ['Farmacia', 30000, 25],
+        ]);
+        expect(expandSplitRows({ type: 'expense', amount: 10, category: 'Kiosco' })).toHaveLength(1);
+    });
+});
+
+describe('rescaleSplitLines', () => {
+    it('should keep proportions and give the rounding difference to the last line', () => {
+        const lines = rescaleSplitLines([
+            { category: 'A', amount: 100 },
+            { category: 'B', amount: 100 },
+            { category: 'C', amount: 100 },
+        ], 100);
+
+        expect(lines.map((line) => line.amount)).toEqual([33.33, 33.33, 33.34]);
+        expect(primarySplitCategory(lines)).toBe('C');
+    });
+});
@@ -0,0 +1,223 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logWarn } from '@/lib/observability';
+import { normalizeCurrency } from '@/lib/currency';
+import type { Transaction } from '@/lib/schemas';
+
+export const MAX_SPLIT_LINES = 30;
+const SPLIT_SELECT = 'id, transaction_id, category, amount, description, position';
+
+export type TransactionSplit = {
+    id?: string;
+    transaction_id?: string;
+    category: string;
+    amount: number | string;
+    description?: string | null;
+    position?: number;
+};
+
+// Shape returned by GET /api/transactions.
+export type TransactionWithSplits = Transaction & {
+    splits?: TransactionSplit[] | null;
+};
+
+type SplittableRow = {
+    type: string;
+    amount: number | string;
+    category?: string | null;
+    currency?: string | null;
+    original_amount?: number | string | null;
+    splits?: TransactionSplit[] | null;
+};
+
+function roundMoney(value: number) {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * Split lines are entered in the movement's own currency: `original_amount` for foreign rows, `amount` otherwise.
+ */
+export function splitBaseAmount(row: Pick<SplittableRow, 'amount' | 'currency' | 'original_amount'>) {
+    const isForeign = normalizeCurrency(row.currency) !== 'ARS' && row.original_amount != null;
+    return Number(isForeign ? row.original_amount : row.amount) || 0;
+}
+
+/**
+ * Returns an error message when the lines cannot split `total`, or null when they add up.
+ */
+export function validateSplitLines(total: number, lines: Array<Pick<TransactionSplit, 'amount' | 'category'>>) {
+    if (lines.length < 2) return 'Una división necesita al menos dos líneas';
+    if (lines.some((line) => !(Number(line.amount) > 0))) return 'Cada línea debe tener un monto positivo';
+    if (lines.some((line) => !String(line.category || '').trim())) return 'Cada línea necesita una categoría';
+
+    const sum = roundMoney(lines.reduce((accumulator, line) => accumulator + Number(line.amount), 0));
+    if (Math.abs(sum - roundMoney(total)) > 0.01) {
+        return `Las líneas suman ${sum.toFixed(2)} y el movimiento es de ${roundMoney(total).toFixed(2)}`;
+    }
+
+    return null;
+}
+
+/**
+ * The line with the largest amount names the parent, so views that ignore splits still show a sensible category.
+ */
+export function primarySplitCategory(lines: Array<Pick<TransactionSplit, 'amount' | 'category'>>) {
+    return lines.reduce<Pick<TransactionSplit, 'amount' | 'category'> | null>(
+        (largest, line) => (!largest || Number(line.amount) > Number(largest.amount) ? line : largest),
+        null
+    )?.category ?? null;
+}
+
+/**
+ * Scales the lines to a new total keeping their proportions; the rounding difference goes to the last line.
+ */
+export function rescaleSplitLines<T extends Pick<TransactionSplit, 'amount'>>(lines: T[], newTotal: number): T[] {
+    const currentTotal = lines.reduce((accumulator, line) => accumulator + Number(line.amount), 0);
+    if (!lines.length || currentTotal <= 0) return lines;
+
+    let assigned = 0;
+    return lines.map((line, index) => {
+        const amount = index === lines.length - 1
+            ? roundMoney(newTotal - assigned)
+            : roundMoney((Number(line.amount) / currentTotal) * newTotal);
+        assigned += amount;
+        return { ...line, amount };
+    });
+}
+
+/**
+ * Replaces a split movement by one row per line, with `amount` (ARS) and `original_amount` shared out by each
+ * line's weight. Reports can then aggregate by category exactly as before; unsplit rows come back unchanged.
+ */
+export function expandSplitRows<T extends SplittableRow>(row: T): T[] {
+    const lines = row.splits || [];
+    if (row.type !== 'expense' || !lines.length) return [row];
+
+    const weightTotal = lines.reduce((accumulator, line) => accumulator + Number(line.amount), 0);
+    if (weightTotal <= 0) return [row];
+
+    const amount = Number(row.amount) || 0;
+    const originalAmount = row.original_amount == null ? null : Number(row.original_amount);
+
+    return lines.map((line) => {
+        const share = Number(line.amount) / weightTotal;
+        return {
+            ...row,
+            category: line.category,
+            amount: roundMoney(amount * share),
+            original_amount: originalAmount == null ? row.original_amount : roundMoney(originalAmount * share),
+            splits: null,
+        };
+    });
+}
+
+export function isMissingSplitsTableError(message?: string | null) {
+    if (!message) return false;
+    const value = message.toLowerCase();
+    return value.includes('transaction_splits')
+        && (value.includes('schema cache') || value.includes('does not exist'));
+}
+
+/**
+ * Split lines of the space grouped by movement, in line order. Pass `transactionIds` to limit the lookup;
+ * returns an empty map when the table is missing so reports keep working before supabase-splits.sql runs.
+ */
+export async function loadSplitsByTransaction(supabase: SupabaseClient, spaceId: string, transactionIds?: string[]) {
+    const byTransaction = new Map<string, TransactionSplit[]>();
+    const chunks: Array<string[] | null> = [];
+    if (!transactionIds) {
+        chunks.push(null);
+    } else {
+        for (let index = 0; index < transactionIds.length; index += 200) {
+            chunks.push(transactionIds.slice(index, index + 200));
+        }
+    }
+
+    for (const chunk of chunks) {
+        let query = supabase
+            .from('transaction_splits')
+            .select(SPLIT_SELECT)
+            .eq('space_id', spaceId);
+        if (chunk) query = query.in('transaction_id', chunk);
+
+        const { data, error } = await query
+            .order('position', { ascending: true });
+
+        if (error) {
+            if (!isMissingSplitsTableError(error.message)) {
+                logWarn('transaction_splits_load_failed', { spaceId, reason: error.message });
+            }
+            return byTransaction;
+        }
+
+        for (const split of (data || []) as TransactionSplit[]) {
+            const key = split.transaction_id as string;
+            byTransaction.set(key, [...(byTransaction.get(key) || []), split]);
+        }
+    }
+
+    return byTransaction;
+}
+
+export function attachSplits<T extends { id?: string | null }>(rows: T[], splitsByTransaction: Map<string, TransactionSplit[]>) {
+    if (!splitsByTransaction.size) return rows;
+    return rows.map((row) => {
+        const splits = row.id ? splitsByTransaction.get(row.id) : undefined;
+        return splits ? { ...row, splits } : row;
+    });
+}
+
+/**
+ * Replaces the split lines of a movement. With lines, the parent takes the category of the largest one; an empty
+ * list turns it back into a single-category movement. Callers validate the lines first.
+ */
+export async function replaceTransactionSplits(
+    supabase: SupabaseClient,
+    input: {
+        spaceId: string;
+        userId: string;
+        transaction: { id: string; category?: string | null };
+        lines: Array<Pick<TransactionSplit, 'category' | 'amount' | 'description'>>;
+    }
+): Promise<{ splits: TransactionSplit[]; category: string | null; error: string | null }> {
+    const { spaceId, userId, transaction, lines } = input;
+
+    const { error: deleteError } = await supabase
+        .from('transaction_splits')
+        .delete()
+        .eq('space_id', spaceId)
+        .eq('transaction_id', transaction.id);
+
+    if (deleteError) return { splits: [], category: transaction.category ?? null, error: deleteError.message };
+    if (!lines.length) return { splits: [], category: transaction.category ?? null, error: null };
+
+    const { data, error } = await supabase
+        .from('transaction_splits')
+        .insert(lines.map((line, index) => ({
+            space_id: spaceId,
+            transaction_id: transaction.id,
+            user_id: userId,
+            category: line.category.trim(),
+            amount: roundMoney(Number(line.amount)),
+            description: line.description || null,
+            position: index,
+        })))
+        .select(SPLIT_SELECT);
+
+    if (error) return { splits: [], category: transaction.category ?? null, error: error.message };
+
+    const category = primarySplitCategory(lines);
+    if (category && category !== transaction.category) {
+        const { error: categoryError } = await supabase
+            .from('transactions')
+            .update({ category })
+            .eq('id', transaction.id)
+            .eq('space_id', spaceId);
+        if (categoryError) logWarn('transaction_split_category_update_failed', { spaceId, transactionId: transaction.id, reason: categoryError.message });
+    }
+
+    return {
+        splits: ((data || []) as TransactionSplit[]).sort((a, b) => (a.position ?? 0) - (b.position ?? 0)),
+        category: category ?? transaction.category ?? null,
+        error: null,
+    };
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { collectTags, hasTag, normalizeTagList } from './tags';
+import { TransactionInputSchema } from './schemas';
+
+describe('normalizeTagList', () => {
+    it('should accept comma separated text or arrays and drop blanks and repeats', () => {
+        expect(normalizeTagList(' Vacaciones  2026, reintegrable,, vacaciones 2026 ')).toEqual(['vacaciones 2026', 'reintegrable']);
+        expect(normalizeTagList(['Hogar', 'hogar', ' '])).toEqual(['hogar']);
+        expect(normalizeTagList(null)).toEqual([]);
+    });
+
+    it('should be applied when a transaction is validated', () => {
+        const parsed = TransactionInputSchema.parse({
+            type: 'expense',
+            amount: 100,
+            description: 'Hotel',
+            category: 'Viajes',
+            date: '2026-01-10',
+            tags: 'Vacaciones 2026, Reintegrable',
+            notes: '   ',
+        });
+
+        expect(parsed.tags).toEqual(['vacaciones 2026', 'reintegrable']);
+        expect(parsed.notes).toBeNull();
+    });
+});
+
+describe('hasTag', () => {
+    it('should match ignoring case and treat an empty filter as no filter', () => {
+        expect(hasTag({ tags: ['vacaciones 2026'] }, 'Vacaciones 2026')).toBe(true);
+        expect(hasTag({ tags: [] }, 'reintegrable')).toBe(false);
+        expect(hasTag({ tags: null }, '')).toBe(true);
+    });
+});
+
+describe('collectTags', () => {
+    it('should count each tag once per movement, most used first', () => {
+        expect(collectTags([
+            { tags: ['reintegrable', 'Reintegrable'] },
+            { tags: ['vacaciones 2026', 'reintegrable'] },
+            { tags: null },
+        ])).toEqual([
+            { name: 'reintegrable', count: 2 },
+            { name: 'vacaciones 2026', count: 1 },
+        ]);
+    });
+});
@@ -0,0 +1,82 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logWarn } from '@/lib/observability';
+
+export const MAX_TAGS_PER_TRANSACTION = 20;
+export const MAX_TAG_LENGTH = 40;
+
+export type Tag = {
+    id: string;
+    name: string;
+    usage_count: number;
+};
+
+/**
+ * Tags are stored lowercase with single spaces, so "Vacaciones  2026" and "vacaciones 2026" are the same tag.
+ * Mirrors normalize_tag_name() in supabase-transaction-details.sql.
+ */
+export function normalizeTag(value?: string | null) {
+    return (value || '').trim().replace(/\s+/g, ' ').toLowerCase().slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * Accepts an array or a comma separated string (what the forms send) and returns unique, non-empty tags in order.
+ */
+export function normalizeTagList(value?: string | string[] | null) {
+    const items = Array.isArray(value) ? value : (value || '').split(',');
+    return Array.from(new Set(items.map((item) => normalizeTag(item)).filter(Boolean)));
+}
+
+export function formatTagList(tags?: string[] | null) {
+    return (tags || []).join(', ');
+}
+
+export function hasTag(row: { tags?: string[] | null }, tag?: string | null) {
+    const key = normalizeTag(tag);
+    if (!key) return true;
+    return (row.tags || []).some((item) => normalizeTag(item) === key);
+}
+
+/**
+ * Distinct tags of `rows` with how many rows carry each, most used first. Used when the tags catalog is not
+ * available yet.
+ */
+export function collectTags(rows: Array<{ tags?: string[] | null }>) {
+    const counts = new Map<string, number>();
+    for (const row of rows) {
+        for (const tag of normalizeTagList(row.tags)) {
+            counts.set(tag, (counts.get(tag) || 0) + 1);
+        }
+    }
+
+    return Array.from(counts.entries())
+        .map(([name, count]) => ({ name, count }))
+        .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name, 'es'));
+}
+
+export function isMissingTagsTableError(message?: string | null) {
+    if (!message) return false;
+    const value = message.toLowerCase();
+    return (value.includes('transaction_tags') || value.includes('public.tags') || value.includes('relation "tags"') || value.includes("table 'tags'"))
+        && (value.includes('schema cache') || value.includes('does not exist'));
+}
+
+export async function loadTags(supabase: SupabaseClient, spaceId: string): Promise<Tag[] | null> {
+    const { data, error } = await supabase
+        .from('tags')
+        .select('id, name, transaction_tags(count)')
+        .eq('space_id', spaceId)
+        .order('name', { ascending: true });
+
+    if (error) {
+        if (!isMissingTagsTableError(error.message)) {
+            logWarn('tags_load_failed', { spaceId, reason: error.message });
+        }
+        return null;
+    }
+
+    return (data || []).map((tag: any) => ({
+        id: tag.id,
+        name: tag.name,
+        usage_count: Number(tag.transaction_tags?.[0]?.count || 0),
+    }));
+}
@@ -0,0 +1,155 @@
+-- Cuentas / billeteras y transferencias
+-- Ejecutar DESPUES de:
+-- 1) supabase-schema.sql
+-- 2) supabase-copilot.sql
+-- 3) supabase-advanced.sql
+-- 4) supabase-spaces.sql
+-- 5) supabase-currency.sql
+--
+-- Cada movimiento pertenece a una cuenta (efectivo, banco, tarjeta, billetera virtual, broker).
+-- Las transferencias son una sola fila con type = 'transfer': salen de account_id y entran en
+-- transfer_account_id, sin contar como ingreso ni gasto.
+
+-- ============================================================
+-- accounts
+-- ============================================================
+
+create table if not exists accounts (
+  id uuid primary key default gen_random_uuid(),
+  space_id uuid not null references spaces(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 80),
+  kind text not null check (kind in ('cash', 'bank', 'credit_card', 'wallet', 'brokerage')),
+  currency text not null default 'ARS' check (currency in ('ARS', 'USD')),
+  opening_balance numeric(14,2) not null default 0,
+  opening_date date,
+  is_default boolean not null default false,
+  is_archived boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_accounts_space on accounts(space_id, is_archived);
+-- Una sola cuenta por defecto por espacio.
+create unique index if not exists idx_accounts_one_default_per_space on accounts(space_id) where is_default;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_trigger where tgname = 'update_accounts_modtime'
+  ) then
+    create trigger update_accounts_modtime
+    before update on accounts
+    for each row
+    execute function update_updated_at_column();
+  end if;
+end $$;
+
+alter table if exists accounts enable row level security;
+
+drop policy if exists "Members can view accounts" on accounts;
+create policy "Members can view accounts" on accounts
+  for select using (is_space_member(space_id));
+drop policy if exists "Members can insert accounts" on accounts;
+create policy "Members can insert accounts" on accounts
+  for insert with check (is_space_member(space_id));
+drop policy if exists "Members can update accounts" on accounts;
+create policy "Members can update accounts" on accounts
+  for update using (is_space_member(space_id)) with check (is_space_member(space_id));
+drop policy if exists "Members can delete accounts" on accounts;
+create policy "Members can delete accounts" on accounts
+  for delete using (is_space_member(space_id));
+
+-- ============================================================
+-- transactions: cuenta, cuenta destino y tipo 'transfer'
+-- ============================================================
+
+alter table if exists transactions add column if not exists account_id uuid references accounts(id) on delete restrict;
+alter table if exists transactions add column if not exists transfer_account_id uuid references accounts(id) on delete restrict;
+
+alter table if exists transactions drop constraint if exists transactions_type_check;
+alter table if exists transactions
+  add constraint transactions_type_check check (type in ('income', 'expense', 'transfer'));
+
+do $$
+begin
+  if not exists (
+    select 1 from information_schema.table_constraints
+    where table_name = 'transactions' and constraint_name = 'transactions_transfer_accounts_check'
+  ) then
+    alter table transactions
+      add constraint transactions_transfer_accounts_check
+      check (
+        (type = 'transfer' and transfer_account_id is not null and transfer_account_id <> account_id)
+        or (type <> 'transfer' and transfer_account_id is null)
+      );
+  end if;
+end $$;
+
+create index if not exists idx_transactions_account on transactions(account_id, date desc);
+create index if not exists idx_transactions_transfer_account on transactions(transfer_account_id) where transfer_account_id is not null;
+
+-- Movimientos sin cuenta (inserts del runner, copiloto, imports o SQL directo) van a la cuenta por defecto.
+create or replace function assign_default_account()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_account_id uuid;
+begin
+  if new.account_id is not null then
+    return new;
+  end if;
+
+  select id into v_account_id
+  from accounts
+  where space_id = new.space_id and is_default
+  limit 1;
+
+  if v_account_id is null then
+    insert into accounts (space_id, user_id, name, kind, is_default)
+    values (new.space_id, new.user_id, 'Cuenta principal', 'cash', true)
+    on conflict (space_id) where is_default do nothing
+    returning id into v_account_id;
+
+    if v_account_id is null then
+      select id into v_account_id from accounts where space_id = new.space_id and is_default limit 1;
+    end if;
+  end if;
+
+  new.account_id = v_account_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists assign_transactions_default_account on transactions;
+create trigger assign_transactions_default_account
+before insert on transactions
+for each row
+execute function assign_default_account();
+
+-- ============================================================
+-- Backfill: cuenta por defecto para cada espacio con movimientos
+-- ============================================================
+
+insert into accounts (space_id, user_id, name, kind, is_default)
+select s.id, coalesce(s.created_by, owner.user_id), 'Cuenta principal', 'cash', true
+from spaces s
+left join lateral (
+  select sm.user_id from space_members sm
+  where sm.space_id = s.id
+  order by (sm.role = 'owner') desc
+  limit 1
+) owner on true
+where coalesce(s.created_by, owner.user_id) is not null
+  and not exists (select 1 from accounts a where a.space_id = s.id and a.is_default)
+on conflict (space_id) where is_default do nothing;
+
+update transactions t
+set account_id = a.id
+from accounts a
+where t.account_id is null
+  and a.space_id = t.space_id
+  and a.is_default;
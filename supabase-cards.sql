@@ -0,0 +1,128 @@
+-- Tarjetas de crédito y resúmenes (ciclos de cierre / vencimiento)
+-- Ejecutar DESPUES de:
+-- 1) supabase-schema.sql
+-- 2) supabase-copilot.sql
+-- 3) supabase-advanced.sql
+-- 4) supabase-spaces.sql
+-- 5) supabase-currency.sql
+-- 6) supabase-accounts.sql
+--
+-- Cada tarjeta tiene su propia cuenta (kind = 'credit_card') y reglas de día de cierre y vencimiento.
+-- Los consumos cargados en esa cuenta se asignan al resumen según la fecha de compra
+-- (transactions.card_statement_id) y el total del resumen se calcula a partir de esas líneas.
+
+-- ============================================================
+-- credit_cards
+-- ============================================================
+
+create table if not exists credit_cards (
+  id uuid primary key default gen_random_uuid(),
+  space_id uuid not null references spaces(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  account_id uuid not null references accounts(id) on delete restrict,
+  name text not null check (char_length(name) between 1 and 80),
+  issuer text,
+  card_brand text,
+  last4 text check (last4 is null or last4 ~ '^[0-9]{4}$'),
+  closing_day smallint not null check (closing_day between 1 and 31),
+  due_day smallint not null check (due_day between 1 and 31),
+  is_archived boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_credit_cards_space on credit_cards(space_id, is_archived);
+-- Una tarjeta por cuenta.
+create unique index if not exists idx_credit_cards_account on credit_cards(account_id);
+create index if not exists idx_credit_cards_last4 on credit_cards(space_id, last4) where last4 is not null;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_trigger where tgname = 'update_credit_cards_modtime'
+  ) then
+    create trigger update_credit_cards_modtime
+    before update on credit_cards
+    for each row
+    execute function update_updated_at_column();
+  end if;
+end $$;
+
+alter table if exists credit_cards enable row level security;
+
+drop policy if exists "Members can view credit cards" on credit_cards;
+create policy "Members can view credit cards" on credit_cards
+  for select using (is_space_member(space_id));
+drop policy if exists "Members can insert credit cards" on credit_cards;
+create policy "Members can insert credit cards" on credit_cards
+  for insert with check (is_space_member(space_id));
+drop policy if exists "Members can update credit cards" on credit_cards;
+create policy "Members can update credit cards" on credit_cards
+  for update using (is_space_member(space_id)) with check (is_space_member(space_id));
+drop policy if exists "Members can delete credit cards" on credit_cards;
+create policy "Members can delete credit cards" on credit_cards
+  for delete using (is_space_member(space_id));
+
+-- ============================================================
+-- card_statements
+-- ============================================================
+
+create table if not exists card_statements (
+  id uuid primary key default gen_random_uuid(),
+  space_id uuid not null references spaces(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  card_id uuid not null references credit_cards(id) on delete cascade,
+  period_start date not null,
+  closing_date date not null,
+  due_date date not null,
+  -- Calculado desde las líneas (transactions.card_statement_id), en ARS.
+  total_amount numeric(14,2) not null default 0,
+  lines_count integer not null default 0,
+  -- Total informado por el resumen importado (copiloto); se usa mientras no haya líneas cargadas.
+  declared_total numeric(14,2),
+  minimum_payment numeric(14,2),
+  paid_amount numeric(14,2) not null default 0,
+  status text not null default 'pending' check (status in ('pending', 'partial', 'paid')),
+  obligation_id uuid references obligations(id) on delete set null,
+  extraction_id uuid references extractions(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (card_id, closing_date)
+);
+
+create index if not exists idx_card_statements_space on card_statements(space_id, due_date desc);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_trigger where tgname = 'update_card_statements_modtime'
+  ) then
+    create trigger update_card_statements_modtime
+    before update on card_statements
+    for each row
+    execute function update_updated_at_column();
+  end if;
+end $$;
+
+alter table if exists card_statements enable row level security;
+
+drop policy if exists "Members can view card statements" on card_statements;
+create policy "Members can view card statements" on card_statements
+  for select using (is_space_member(space_id));
+drop policy if exists "Members can insert card statements" on card_statements;
+create policy "Members can insert card statements" on card_statements
+  for insert with check (is_space_member(space_id));
+drop policy if exists "Members can update card statements" on card_statements;
+create policy "Members can update card statements" on card_statements
+  for update using (is_space_member(space_id)) with check (is_space_member(space_id));
+drop policy if exists "Members can delete card statements" on card_statements;
+create policy "Members can delete card statements" on card_statements
+  for delete using (is_space_member(space_id));
+
+-- ============================================================
+-- transactions: línea de resumen
+-- ============================================================
+
+alter table if exists transactions add column if not exists card_statement_id uuid references card_statements(id) on delete set null;
+
+create index if not exists idx_transactions_card_statement on transactions(card_statement_id) where card_statement_id is not null;
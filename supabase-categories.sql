@@ -0,0 +1,306 @@
+-- Categorias jerarquicas por espacio
+-- Ejecutar DESPUES de:
+-- 1) supabase-schema.sql
+-- 2) supabase-copilot.sql
+-- 3) supabase-advanced.sql
+-- 4) supabase-spaces.sql
+-- 5) supabase-currency.sql
+-- 6) supabase-accounts.sql
+-- 7) supabase-cards.sql
+-- 8) supabase-installments.sql
+-- 9) supabase-import-profiles.sql
+-- 10) supabase-duplicates.sql
+-- 11) supabase-category-rules.sql
+--
+-- Cada espacio tiene su arbol de categorias (padre / subcategoria) con icono, color y tipo
+-- (ingreso o gasto). Los movimientos, presupuestos, recurrencias y deudas siguen guardando el
+-- nombre en `category` y ademas apuntan a la categoria con `category_id`: un trigger resuelve el id
+-- a partir del nombre (sin distinguir mayusculas ni acentos) y crea la categoria si no existe.
+-- Los valores de texto existentes se migran al final de este archivo.
+-- Las categorias por defecto replican DEFAULT_CATEGORIES de src/lib/categories.ts.
+
+create table if not exists categories (
+  id uuid primary key default gen_random_uuid(),
+  space_id uuid not null references spaces(id) on delete cascade,
+  user_id uuid references auth.users(id) on delete set null,
+  name text not null check (char_length(name) between 1 and 60),
+  -- Dos niveles: una subcategoria cuelga de una categoria raiz (lo valida la API).
+  parent_id uuid references categories(id) on delete set null,
+  kind text not null default 'expense' check (kind in ('income', 'expense')),
+  icon text check (icon is null or char_length(icon) <= 16),
+  color text check (color is null or color ~ '^#[0-9a-fA-F]{6}$'),
+  is_archived boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (parent_id is null or parent_id <> id)
+);
+
+create or replace function normalize_category_name(p_name text)
+returns text
+language sql
+immutable
+as $$
+  select regexp_replace(
+    trim(translate(lower(coalesce(p_name, '')), 'áàäâãéèëêíìïîóòöôõúùüûñç', 'aaaaaeeeeiiiiooooouuuunc')),
+    '\s+', ' ', 'g'
+  );
+$$;
+
+create unique index if not exists idx_categories_space_name on categories(space_id, normalize_category_name(name));
+create index if not exists idx_categories_parent on categories(parent_id) where parent_id is not null;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_trigger where tgname = 'update_categories_modtime'
+  ) then
+    create trigger update_categories_modtime
+    before update on categories
+    for each row
+    execute function update_updated_at_column();
+  end if;
+end $$;
+
+alter table if exists categories enable row level security;
+
+drop policy if exists "Members can view categories" on categories;
+create policy "Members can view categories" on categories
+  for select using (is_space_member(space_id));
+drop policy if exists "Members can insert categories" on categories;
+create policy "Members can insert categories" on categories
+  for insert with check (is_space_member(space_id));
+drop policy if exists "Members can update categories" on categories;
+create policy "Members can update categories" on categories
+  for update using (is_space_member(space_id)) with check (is_space_member(space_id));
+drop policy if exists "Members can delete categories" on categories;
+create policy "Members can delete categories" on categories
+  for delete using (is_space_member(space_id));
+
+-- ============================================================
+-- Categorias por defecto
+-- ============================================================
+
+create or replace function seed_space_categories(p_space_id uuid, p_user_id uuid)
+returns void
+language plpgsql
+as $$
+begin
+  insert into categories (space_id, user_id, name, kind, icon, color)
+  select p_space_id, p_user_id, d.name, d.kind, d.icon, d.color
+  from (values
+    ('Vivienda', 'expense', '🏠', '#6366f1'),
+    ('Alimentación', 'expense', '🛒', '#22c55e'),
+    ('Transporte', 'expense', '🚗', '#f59e0b'),
+    ('Salud', 'expense', '💊', '#ef4444'),
+    ('Educación', 'expense', '🎓', '#0ea5e9'),
+    ('Ocio', 'expense', '🎬', '#a855f7'),
+    ('Compras', 'expense', '🛍️', '#ec4899'),
+    ('Finanzas', 'expense', '💳', '#64748b'),
+    ('Mascotas', 'expense', '🐾', '#84cc16'),
+    ('Otros gastos', 'expense', '📦', '#94a3b8'),
+    ('Salario', 'income', '💼', '#10b981'),
+    ('Freelance', 'income', '💻', '#14b8a6'),
+    ('Ventas', 'income', '🏷️', '#06b6d4'),
+    ('Inversiones', 'income', '📈', '#3b82f6'),
+    ('Ingresos', 'income', '💰', '#22c55e')
+  ) as d(name, kind, icon, color)
+  on conflict do nothing;
+
+  insert into categories (space_id, user_id, name, kind, parent_id)
+  select p_space_id, p_user_id, d.name, parent.kind, parent.id
+  from (values
+    ('Alquiler', 'Vivienda'),
+    ('Expensas', 'Vivienda'),
+    ('Servicios', 'Vivienda'),
+    ('Mantenimiento', 'Vivienda'),
+    ('Supermercado', 'Alimentación'),
+    ('Comida', 'Alimentación'),
+    ('Delivery', 'Alimentación'),
+    ('Combustible', 'Transporte'),
+    ('Transporte público', 'Transporte'),
+    ('Taxi y apps', 'Transporte'),
+    ('Estacionamiento', 'Transporte'),
+    ('Prepaga', 'Salud'),
+    ('Farmacia', 'Salud'),
+    ('Entretenimiento', 'Ocio'),
+    ('Suscripciones', 'Ocio'),
+    ('Salidas', 'Ocio'),
+    ('Viajes', 'Ocio'),
+    ('Ropa', 'Compras'),
+    ('Tecnología', 'Compras'),
+    ('Regalos', 'Compras'),
+    ('Tarjeta', 'Finanzas'),
+    ('Deudas', 'Finanzas'),
+    ('Impuestos', 'Finanzas'),
+    ('Comisiones', 'Finanzas'),
+    ('Ahorro', 'Finanzas'),
+    ('General', 'Otros gastos'),
+    ('Varios', 'Otros gastos'),
+    ('Gastos', 'Otros gastos')
+  ) as d(name, parent_name)
+  join categories parent
+    on parent.space_id = p_space_id
+   and normalize_category_name(parent.name) = normalize_category_name(d.parent_name)
+  on conflict do nothing;
+end;
+$$;
+
+-- ============================================================
+-- category_id en las tablas que usan categoria
+-- ============================================================
+
+alter table if exists transactions add column if not exists category_id uuid references categories(id) on delete set null;
+alter table if exists budgets add column if not exists category_id uuid references categories(id) on delete set null;
+alter table if exists recurring_transactions add column if not exists category_id uuid references categories(id) on delete set null;
+alter table if exists debts add column if not exists category_id uuid references categories(id) on delete set null;
+
+create index if not exists idx_transactions_category_id on transactions(category_id) where category_id is not null;
+create index if not exists idx_budgets_category_id on budgets(category_id) where category_id is not null;
+create index if not exists idx_recurring_category_id on recurring_transactions(category_id) where category_id is not null;
+create index if not exists idx_debts_category_id on debts(category_id) where category_id is not null;
+
+-- Busca la categoria por nombre normalizado; si no existe la crea como categoria raiz.
+create or replace function resolve_category_id(p_space_id uuid, p_name text, p_kind text, p_user_id uuid)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_id uuid;
+begin
+  if p_space_id is null or normalize_category_name(p_name) = '' then
+    return null;
+  end if;
+
+  select id into v_id
+  from categories
+  where space_id = p_space_id
+    and normalize_category_name(name) = normalize_category_name(p_name)
+  limit 1;
+
+  if v_id is null then
+    insert into categories (space_id, user_id, name, kind)
+    values (p_space_id, p_user_id, left(trim(p_name), 60), case when p_kind = 'income' then 'income' else 'expense' end)
+    on conflict do nothing
+    returning id into v_id;
+
+    if v_id is null then
+      select id into v_id
+      from categories
+      where space_id = p_space_id
+        and normalize_category_name(name) = normalize_category_name(p_name)
+      limit 1;
+    end if;
+  end if;
+
+  return v_id;
+end;
+$$;
+
+-- Si llega category_id (UI con selector) manda el id y se copia el nombre; si no, se resuelve desde el texto.
+-- Las transferencias no llevan categoria.
+create or replace function set_row_category_id()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_kind text;
+  v_name text;
+begin
+  if tg_table_name in ('transactions', 'recurring_transactions') then
+    v_kind := new.type;
+  else
+    v_kind := 'expense';
+  end if;
+
+  if v_kind = 'transfer' then
+    new.category_id = null;
+    return new;
+  end if;
+
+  if new.category_id is not null
+    and (tg_op = 'INSERT' or new.category_id is distinct from old.category_id) then
+    select name into v_name from categories where id = new.category_id and space_id = new.space_id;
+    if v_name is not null then
+      -- Solo se reescribe el texto si es otra categoria: 'comida' y 'Comida' quedan como estaban.
+      if normalize_category_name(new.category) <> normalize_category_name(v_name) then
+        new.category = v_name;
+      end if;
+      return new;
+    end if;
+  end if;
+
+  if tg_op = 'INSERT' or new.category is distinct from old.category or new.category_id is null then
+    new.category_id = resolve_category_id(new.space_id, new.category, v_kind, new.user_id);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists set_transactions_category_id on transactions;
+create trigger set_transactions_category_id
+before insert or update of category, category_id, type on transactions
+for each row
+execute function set_row_category_id();
+
+drop trigger if exists set_budgets_category_id on budgets;
+create trigger set_budgets_category_id
+before insert or update of category, category_id on budgets
+for each row
+execute function set_row_category_id();
+
+drop trigger if exists set_recurring_category_id on recurring_transactions;
+create trigger set_recurring_category_id
+before insert or update of category, category_id, type on recurring_transactions
+for each row
+execute function set_row_category_id();
+
+drop trigger if exists set_debts_category_id on debts;
+create trigger set_debts_category_id
+before insert or update of category, category_id on debts
+for each row
+execute function set_row_category_id();
+
+-- Renombrar una categoria actualiza el texto guardado en cada fila que la usa.
+create or replace function propagate_category_rename()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.name is distinct from old.name then
+    update transactions set category = new.name where category_id = new.id;
+    update budgets set category = new.name where category_id = new.id;
+    update recurring_transactions set category = new.name where category_id = new.id;
+    update debts set category = new.name where category_id = new.id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists propagate_categories_rename on categories;
+create trigger propagate_categories_rename
+after update of name on categories
+for each row
+execute function propagate_category_rename();
+
+-- ============================================================
+-- Migracion: categorias por defecto y texto libre existente
+-- ============================================================
+
+select seed_space_categories(s.id, s.created_by) from spaces s;
+
+update transactions
+set category_id = resolve_category_id(space_id, category, type, user_id)
+where category_id is null and type <> 'transfer';
+
+update budgets
+set category_id = resolve_category_id(space_id, category, 'expense', user_id)
+where category_id is null;
+
+update recurring_transactions
+set category_id = resolve_category_id(space_id, category, type, user_id)
+where category_id is null;
+
+update debts
+set category_id = resolve_category_id(space_id, category, 'expense', user_id)
+where category_id is null;
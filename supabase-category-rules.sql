@@ -0,0 +1,83 @@
+-- Reglas de categorizacion definidas por el usuario
+-- Ejecutar DESPUES de:
+-- 1) supabase-schema.sql
+-- 2) supabase-copilot.sql
+-- 3) supabase-advanced.sql
+-- 4) supabase-spaces.sql
+-- 5) supabase-currency.sql
+-- 6) supabase-accounts.sql
+-- 7) supabase-cards.sql
+-- 8) supabase-installments.sql
+-- 9) supabase-import-profiles.sql
+-- 10) supabase-duplicates.sql
+--
+-- Cada regla combina condiciones (patron sobre la descripcion, rango de monto en ARS, cuenta y tipo)
+-- con acciones (fijar categoria, agregar etiquetas o marcar como transferencia a otra cuenta).
+-- Se evaluan por prioridad ascendente al cargar, importar, registrar documentos y generar recurrencias;
+-- la primera regla que fija un campo gana y las etiquetas se acumulan. Ver src/lib/category-rules.ts.
+
+-- ============================================================
+-- transactions: etiquetas
+-- ============================================================
+
+alter table if exists transactions add column if not exists tags text[] not null default '{}';
+
+create index if not exists idx_transactions_tags on transactions using gin(tags);
+
+-- ============================================================
+-- category_rules
+-- ============================================================
+
+create table if not exists category_rules (
+  id uuid primary key default gen_random_uuid(),
+  space_id uuid not null references spaces(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 80),
+  -- Menor numero = se evalua antes.
+  priority integer not null default 100,
+  is_active boolean not null default true,
+  -- Condiciones: las vacias no filtran.
+  description_pattern text check (description_pattern is null or char_length(description_pattern) <= 200),
+  amount_min numeric(14,2) check (amount_min is null or amount_min >= 0),
+  amount_max numeric(14,2) check (amount_max is null or amount_max >= 0),
+  account_id uuid references accounts(id) on delete cascade,
+  transaction_type text check (transaction_type is null or transaction_type in ('income', 'expense')),
+  -- Acciones.
+  set_category text check (set_category is null or char_length(set_category) between 1 and 60),
+  set_tags text[] not null default '{}',
+  -- Contracuenta de la transferencia: el movimiento pasa a type = 'transfer'.
+  transfer_account_id uuid references accounts(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (amount_min is null or amount_max is null or amount_min <= amount_max),
+  check (set_category is not null or cardinality(set_tags) > 0 or transfer_account_id is not null)
+);
+
+create index if not exists idx_category_rules_space on category_rules(space_id, priority);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_trigger where tgname = 'update_category_rules_modtime'
+  ) then
+    create trigger update_category_rules_modtime
+    before update on category_rules
+    for each row
+    execute function update_updated_at_column();
+  end if;
+end $$;
+
+alter table if exists category_rules enable row level security;
+
+drop policy if exists "Members can view category rules" on category_rules;
+create policy "Members can view category rules" on category_rules
+  for select using (is_space_member(space_id));
+drop policy if exists "Members can insert category rules" on category_rules;
+create policy "Members can insert category rules" on category_rules
+  for insert with check (is_space_member(space_id));
+drop policy if exists "Members can update category rules" on category_rules;
+create policy "Members can update category rules" on category_rules
+  for update using (is_space_member(space_id)) with check (is_space_member(space_id));
+drop policy if exists "Members can delete category rules" on category_rules;
+create policy "Members can delete category rules" on category_rules
+  for delete using (is_space_member(space_id));
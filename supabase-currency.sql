@@ -0,0 +1,202 @@
+-- Multi-moneda (snapshots de tipo de cambio)
+-- Ejecutar DESPUES de:
+-- 1) supabase-schema.sql
+-- 2) supabase-copilot.sql
+-- 3) supabase-advanced.sql
+-- 4) supabase-spaces.sql
+--
+-- `amount` sigue guardándose en ARS (moneda base). Cada fila guarda además la moneda original,
+-- el monto original y el tipo de cambio usado al registrarla, para que los reportes conviertan
+-- con el snapshot histórico y no con la cotización del día.
+
+-- Filas en ARS: el snapshot es trivial (monto original = monto, tipo de cambio 1).
+-- El trigger lo mantiene así aunque la fila se inserte o actualice sin pasar por la API.
+create or replace function fill_base_fx_snapshot()
+returns trigger as $$
+begin
+  if new.currency = 'ARS' then
+    new.original_amount = new.amount;
+    new.fx_rate = 1;
+    new.fx_source = coalesce(new.fx_source, 'base');
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+-- ============================================================
+-- transactions
+-- ============================================================
+
+alter table if exists transactions add column if not exists currency text not null default 'ARS';
+alter table if exists transactions add column if not exists original_amount numeric(14,2);
+alter table if exists transactions add column if not exists fx_rate numeric(18,6);
+alter table if exists transactions add column if not exists fx_source text;
+
+update transactions
+set original_amount = amount, fx_rate = 1, fx_source = coalesce(fx_source, 'base')
+where currency = 'ARS' and (original_amount is null or fx_rate is null);
+
+do $$
+begin
+  if not exists (
+    select 1 from information_schema.table_constraints
+    where table_name = 'transactions' and constraint_name = 'transactions_currency_check'
+  ) then
+    alter table transactions
+      add constraint transactions_currency_check
+      check (currency in ('ARS', 'USD') and (fx_rate is null or fx_rate > 0));
+  end if;
+end $$;
+
+drop trigger if exists fill_transactions_fx_snapshot on transactions;
+create trigger fill_transactions_fx_snapshot
+before insert or update of amount, currency on transactions
+for each row
+execute function fill_base_fx_snapshot();
+
+create index if not exists idx_transactions_space_currency_date on transactions(space_id, currency, date desc);
+
+-- ============================================================
+-- debts
+-- ============================================================
+
+alter table if exists debts add column if not exists currency text not null default 'ARS';
+alter table if exists debts add column if not exists original_amount numeric(14,2);
+alter table if exists debts add column if not exists fx_rate numeric(18,6);
+alter table if exists debts add column if not exists fx_source text;
+
+update debts
+set original_amount = total_amount, fx_rate = 1, fx_source = coalesce(fx_source, 'base')
+where currency = 'ARS' and (original_amount is null or fx_rate is null);
+
+do $$
+begin
+  if not exists (
+    select 1 from information_schema.table_constraints
+    where table_name = 'debts' and constraint_name = 'debts_currency_check'
+  ) then
+    alter table debts
+      add constraint debts_currency_check
+      check (currency in ('ARS', 'USD') and (fx_rate is null or fx_rate > 0));
+  end if;
+end $$;
+
+-- ============================================================
+-- obligations
+-- ============================================================
+
+alter table if exists obligations add column if not exists currency text not null default 'ARS';
+alter table if exists obligations add column if not exists original_amount numeric(14,2);
+alter table if exists obligations add column if not exists fx_rate numeric(18,6);
+alter table if exists obligations add column if not exists fx_source text;
+
+update obligations
+set original_amount = amount, fx_rate = 1, fx_source = coalesce(fx_source, 'base')
+where currency = 'ARS' and (original_amount is null or fx_rate is null);
+
+do $$
+begin
+  if not exists (
+    select 1 from information_schema.table_constraints
+    where table_name = 'obligations' and constraint_name = 'obligations_currency_check'
+  ) then
+    alter table obligations
+      add constraint obligations_currency_check
+      check (currency in ('ARS', 'USD') and (fx_rate is null or fx_rate > 0));
+  end if;
+end $$;
+
+drop trigger if exists fill_obligations_fx_snapshot on obligations;
+create trigger fill_obligations_fx_snapshot
+before insert or update of amount, currency on obligations
+for each row
+execute function fill_base_fx_snapshot();
+
+-- ============================================================
+-- recurring_transactions
+-- ============================================================
+
+alter table if exists recurring_transactions add column if not exists currency text not null default 'ARS';
+alter table if exists recurring_transactions add column if not exists original_amount numeric(14,2);
+alter table if exists recurring_transactions add column if not exists fx_rate numeric(18,6);
+alter table if exists recurring_transactions add column if not exists fx_source text;
+
+update recurring_transactions
+set original_amount = amount, fx_rate = 1, fx_source = coalesce(fx_source, 'base')
+where currency = 'ARS' and (original_amount is null or fx_rate is null);
+
+do $$
+begin
+  if not exists (
+    select 1 from information_schema.table_constraints
+    where table_name = 'recurring_transactions' and constraint_name = 'recurring_transactions_currency_check'
+  ) then
+    alter table recurring_transactions
+      add constraint recurring_transactions_currency_check
+      check (currency in ('ARS', 'USD') and (fx_rate is null or fx_rate > 0));
+  end if;
+end $$;
+
+drop trigger if exists fill_recurring_transactions_fx_snapshot on recurring_transactions;
+create trigger fill_recurring_transactions_fx_snapshot
+before insert or update of amount, currency on recurring_transactions
+for each row
+execute function fill_base_fx_snapshot();
+
+-- ============================================================
+-- budgets: el límite se expresa en la moneda del presupuesto
+-- ============================================================
+
+alter table if exists budgets add column if not exists currency text not null default 'ARS';
+
+do $$
+begin
+  if not exists (
+    select 1 from information_schema.table_constraints
+    where table_name = 'budgets' and constraint_name = 'budgets_currency_check'
+  ) then
+    alter table budgets
+      add constraint budgets_currency_check
+      check (currency in ('ARS', 'USD'));
+  end if;
+end $$;
+
+-- ============================================================
+-- fx_rates: historial diario de cotizaciones por tipo de cambio
+-- ============================================================
+-- Una fila por espacio, moneda, tipo (oficial, tarjeta, mep, blue) y día. Las cotizaciones
+-- obtenidas de dolarapi o cargadas a mano quedan guardadas, así una conversión pasada
+-- siempre se puede reproducir con el mismo valor.
+
+create table if not exists fx_rates (
+  id uuid primary key default gen_random_uuid(),
+  space_id uuid not null references spaces(id) on delete cascade,
+  currency text not null default 'USD' check (currency in ('USD')),
+  rate_type text not null check (rate_type in ('oficial', 'tarjeta', 'mep', 'blue')),
+  rate_date date not null,
+  buy numeric(18,6) check (buy is null or buy > 0),
+  sell numeric(18,6) not null check (sell > 0),
+  source text not null default 'manual',
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists idx_fx_rates_unique_day
+  on fx_rates(space_id, currency, rate_type, rate_date);
+create index if not exists idx_fx_rates_space_date on fx_rates(space_id, rate_date desc);
+
+alter table if exists fx_rates enable row level security;
+
+drop policy if exists "Members can view fx rates" on fx_rates;
+create policy "Members can view fx rates" on fx_rates
+  for select using (is_space_member(space_id));
+drop policy if exists "Members can insert fx rates" on fx_rates;
+create policy "Members can insert fx rates" on fx_rates
+  for insert with check (is_space_member(space_id));
+drop policy if exists "Members can update fx rates" on fx_rates;
+create policy "Members can update fx rates" on fx_rates
+  for update using (is_space_member(space_id)) with check (is_space_member(space_id));
+drop policy if exists "Members can delete fx rates" on fx_rates;
+create policy "Members can delete fx rates" on fx_rates
+  for delete using (is_space_member(space_id));
@@ -0,0 +1,41 @@
+-- Deudas: tasa de interés anual para el planificador de cancelación
+-- Ejecutar DESPUES de:
+-- 1) supabase-schema.sql
+-- 2) supabase-copilot.sql
+-- 3) supabase-advanced.sql
+-- 4) supabase-spaces.sql
+-- 5) supabase-currency.sql
+-- 6) supabase-accounts.sql
+-- 7) supabase-cards.sql
+-- 8) supabase-installments.sql
+-- 9) supabase-import-profiles.sql
+-- 10) supabase-duplicates.sql
+-- 11) supabase-category-rules.sql
+-- 12) supabase-categories.sql
+-- 13) supabase-transaction-details.sql
+-- 14) supabase-splits.sql
+-- 15) supabase-reconciliation.sql
+-- 16) supabase-recurring-runs.sql
+-- 17) supabase-recurrence.sql
+-- 18) supabase-indexes.sql
+-- 19) supabase-net-worth.sql
+-- 20) supabase-investments.sql
+-- 21) supabase-goal-contributions.sql
+--
+-- annual_rate es la tasa anual en porcentaje; rate_kind indica si es nominal ('tna', equivalente a la APR) o
+-- efectiva ('tea'). Sin tasa la deuda se simula sin intereses.
+
+alter table if exists debts add column if not exists annual_rate numeric(8,3);
+alter table if exists debts add column if not exists rate_kind text not null default 'tna';
+
+do $$
+begin
+  if not exists (
+    select 1 from information_schema.table_constraints
+    where table_name = 'debts' and constraint_name = 'debts_annual_rate_check'
+  ) then
+    alter table debts
+      add constraint debts_annual_rate_check
+      check ((annual_rate is null or (annual_rate >= 0 and annual_rate <= 10000)) and rate_kind in ('tna', 'tea'));
+  end if;
+end $$;
@@ -0,0 +1,129 @@
+-- Deteccion de duplicados e importaciones idempotentes
+-- Ejecutar DESPUES de:
+-- 1) supabase-schema.sql
+-- 2) supabase-copilot.sql
+-- 3) supabase-advanced.sql
+-- 4) supabase-spaces.sql
+-- 5) supabase-currency.sql
+-- 6) supabase-accounts.sql
+-- 7) supabase-cards.sql
+-- 8) supabase-installments.sql
+-- 9) supabase-import-profiles.sql
+--
+-- Cada movimiento guarda una huella (fecha, tipo, moneda, monto original, cuenta y descripcion
+-- normalizada). Reimportar el mismo extracto no vuelve a insertar filas con la misma huella, y los
+-- parecidos (fechas o montos cercanos) quedan en una cola de revision para unir o descartar.
+-- La normalizacion replica normalizeDuplicateDescription() de src/lib/duplicates.ts.
+
+-- ============================================================
+-- transactions: huella e id externo del banco
+-- ============================================================
+
+alter table if exists transactions add column if not exists fingerprint text;
+-- FITID de OFX o numero de QIF: identifica el movimiento en el banco de origen.
+alter table if exists transactions add column if not exists external_id text;
+
+create or replace function normalize_transaction_description(p_description text)
+returns text
+language sql
+immutable
+as $$
+  select left(
+    trim(regexp_replace(
+      regexp_replace(
+        translate(lower(coalesce(p_description, '')), 'áàäâãéèëêíìïîóòöôõúùüûñç', 'aaaaaeeeeiiiiooooouuuunc'),
+        '\s*\(recurrente\)\s*$', ''
+      ),
+      '[^a-z0-9]+', ' ', 'g'
+    )),
+    80
+  );
+$$;
+
+create or replace function transaction_fingerprint(
+  p_date date,
+  p_type text,
+  p_currency text,
+  p_original_amount numeric,
+  p_amount numeric,
+  p_account_id uuid,
+  p_description text
+)
+returns text
+language sql
+immutable
+as $$
+  select concat_ws('|',
+    p_date::text,
+    p_type,
+    coalesce(p_currency, 'ARS'),
+    to_char(abs(coalesce(p_original_amount, p_amount)), 'FM999999999990.00'),
+    coalesce(p_account_id::text, ''),
+    normalize_transaction_description(p_description)
+  );
+$$;
+
+-- Corre despues de assign_transactions_default_account (orden alfabetico), asi la huella ya tiene cuenta.
+create or replace function set_transaction_fingerprint()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.fingerprint = transaction_fingerprint(
+    new.date, new.type, new.currency, new.original_amount, new.amount, new.account_id, new.description
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists set_transactions_fingerprint on transactions;
+create trigger set_transactions_fingerprint
+before insert or update of date, type, currency, original_amount, amount, account_id, description on transactions
+for each row
+execute function set_transaction_fingerprint();
+
+update transactions
+set fingerprint = transaction_fingerprint(date, type, currency, original_amount, amount, account_id, description)
+where fingerprint is null;
+
+create index if not exists idx_transactions_fingerprint on transactions(space_id, fingerprint);
+create index if not exists idx_transactions_external_id on transactions(space_id, external_id) where external_id is not null;
+
+-- ============================================================
+-- transaction_duplicates (cola de revision)
+-- ============================================================
+
+create table if not exists transaction_duplicates (
+  id uuid primary key default gen_random_uuid(),
+  space_id uuid not null references spaces(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  -- El movimiento sospechoso (el mas nuevo) y el que ya existia.
+  transaction_id uuid not null references transactions(id) on delete cascade,
+  duplicate_of_id uuid not null references transactions(id) on delete cascade,
+  score numeric(4,3) not null check (score between 0 and 1),
+  reason text not null check (reason in ('fingerprint', 'external_id', 'fuzzy')),
+  source text,
+  status text not null default 'pending' check (status in ('pending', 'dismissed')),
+  resolved_by uuid references auth.users(id) on delete set null,
+  resolved_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (transaction_id, duplicate_of_id),
+  check (transaction_id <> duplicate_of_id)
+);
+
+create index if not exists idx_transaction_duplicates_space on transaction_duplicates(space_id, status, created_at desc);
+
+alter table if exists transaction_duplicates enable row level security;
+
+drop policy if exists "Members can view transaction duplicates" on transaction_duplicates;
+create policy "Members can view transaction duplicates" on transaction_duplicates
+  for select using (is_space_member(space_id));
+drop policy if exists "Members can insert transaction duplicates" on transaction_duplicates;
+create policy "Members can insert transaction duplicates" on transaction_duplicates
+  for insert with check (is_space_member(space_id));
+drop policy if exists "Members can update transaction duplicates" on transaction_duplicates;
+create policy "Members can update transaction duplicates" on transaction_duplicates
+  for update using (is_space_member(space_id)) with check (is_space_member(space_id));
+drop policy if exists "Members can delete transaction duplicates" on transaction_duplicates;
+create policy "Members can delete transaction duplicates" on transaction_duplicates
+  for delete using (is_space_member(space_id));
@@ -0,0 +1,146 @@
+-- Metas de ahorro: aportes ligados a movimientos y reglas de ahorro automático
+-- Ejecutar DESPUES de:
+-- 1) supabase-schema.sql
+-- 2) supabase-copilot.sql
+-- 3) supabase-advanced.sql
+-- 4) supabase-spaces.sql
+-- 5) supabase-currency.sql
+-- 6) supabase-accounts.sql
+-- 7) supabase-cards.sql
+-- 8) supabase-installments.sql
+-- 9) supabase-import-profiles.sql
+-- 10) supabase-duplicates.sql
+-- 11) supabase-category-rules.sql
+-- 12) supabase-categories.sql
+-- 13) supabase-transaction-details.sql
+-- 14) supabase-splits.sql
+-- 15) supabase-reconciliation.sql
+-- 16) supabase-recurring-runs.sql
+-- 17) supabase-recurrence.sql
+-- 18) supabase-indexes.sql
+-- 19) supabase-net-worth.sql
+-- 20) supabase-investments.sql
+--
+-- savings_goals.current_amount pasa a ser la suma de goal_contributions (lo mantiene un trigger). Cada aporte
+-- apunta al movimiento que lo respalda (una transferencia, un gasto de ahorro o el ingreso de una regla); los
+-- ajustes sin movimiento ('adjustment') cubren el saldo que las metas ya tenían al correr esta migración.
+
+create table if not exists goal_rules (
+  id uuid primary key default gen_random_uuid(),
+  space_id uuid not null references spaces(id) on delete cascade,
+  goal_id uuid not null references savings_goals(id) on delete cascade,
+  -- null: cualquier ingreso.
+  category text,
+  mode text not null default 'percent' check (mode in ('percent', 'fixed')),
+  value numeric(12,2) not null check (value > 0),
+  is_active boolean not null default true,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint goal_rules_percent_check check (mode <> 'percent' or value <= 100)
+);
+
+create index if not exists idx_goal_rules_space on goal_rules(space_id) where is_active;
+
+create table if not exists goal_contributions (
+  id uuid primary key default gen_random_uuid(),
+  space_id uuid not null references spaces(id) on delete cascade,
+  goal_id uuid not null references savings_goals(id) on delete cascade,
+  amount numeric(12,2) not null check (amount <> 0),
+  date date not null,
+  source text not null check (source in ('transaction', 'rule', 'adjustment')),
+  -- Borrar el movimiento borra el aporte, y el trigger recalcula la meta.
+  transaction_id uuid references transactions(id) on delete cascade,
+  rule_id uuid references goal_rules(id) on delete set null,
+  notes text,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  constraint goal_contributions_transaction_check check (source = 'adjustment' or transaction_id is not null)
+);
+
+create index if not exists idx_goal_contributions_goal_date on goal_contributions(goal_id, date);
+-- Sin predicado para que el runner pueda usarlo en upsert (rule_id null no choca con nada).
+create unique index if not exists idx_goal_contributions_rule_transaction
+  on goal_contributions(rule_id, transaction_id);
+create unique index if not exists idx_goal_contributions_goal_transaction
+  on goal_contributions(goal_id, transaction_id) where source = 'transaction';
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_trigger where tgname = 'update_goal_rules_modtime'
+  ) then
+    create trigger update_goal_rules_modtime
+    before update on goal_rules
+    for each row
+    execute function update_updated_at_column();
+  end if;
+end $$;
+
+-- El saldo de la meta es la suma de sus aportes; al llegar al objetivo queda completada.
+create or replace function sync_goal_current_amount()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_goal_id uuid := coalesce(new.goal_id, old.goal_id);
+  v_total numeric(12,2);
+begin
+  select coalesce(sum(amount), 0) into v_total from goal_contributions where goal_id = v_goal_id;
+  update savings_goals
+  set current_amount = greatest(v_total, 0),
+      is_completed = v_total >= target_amount
+  where id = v_goal_id;
+  if tg_op = 'UPDATE' and new.goal_id is distinct from old.goal_id then
+    select coalesce(sum(amount), 0) into v_total from goal_contributions where goal_id = old.goal_id;
+    update savings_goals
+    set current_amount = greatest(v_total, 0),
+        is_completed = v_total >= target_amount
+    where id = old.goal_id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists sync_goal_contributions_amount on goal_contributions;
+create trigger sync_goal_contributions_amount
+after insert or update or delete on goal_contributions
+for each row
+execute function sync_goal_current_amount();
+
+-- Saldo previo de cada meta como ajuste inicial, para que la suma de aportes lo conserve.
+insert into goal_contributions (space_id, goal_id, amount, date, source, notes, created_by)
+select g.space_id, g.id, g.current_amount, coalesce(g.created_at::date, current_date), 'adjustment', 'Saldo inicial', g.user_id
+from savings_goals g
+where g.space_id is not null
+  and g.current_amount > 0
+  and not exists (select 1 from goal_contributions c where c.goal_id = g.id);
+
+alter table if exists goal_rules enable row level security;
+alter table if exists goal_contributions enable row level security;
+
+drop policy if exists "Members can view goal rules" on goal_rules;
+create policy "Members can view goal rules" on goal_rules
+  for select using (is_space_member(space_id));
+drop policy if exists "Members can insert goal rules" on goal_rules;
+create policy "Members can insert goal rules" on goal_rules
+  for insert with check (is_space_member(space_id));
+drop policy if exists "Members can update goal rules" on goal_rules;
+create policy "Members can update goal rules" on goal_rules
+  for update using (is_space_member(space_id)) with check (is_space_member(space_id));
+drop policy if exists "Members can delete goal rules" on goal_rules;
+create policy "Members can delete goal rules" on goal_rules
+  for delete using (is_space_member(space_id));
+
+drop policy if exists "Members can view goal contributions" on goal_contributions;
+create policy "Members can view goal contributions" on goal_contributions
+  for select using (is_space_member(space_id));
+drop policy if exists "Members can insert goal contributions" on goal_contributions;
+create policy "Members can insert goal contributions" on goal_contributions
+  for insert with check (is_space_member(space_id));
+drop policy if exists "Members can update goal contributions" on goal_contributions;
+create policy "Members can update goal contributions" on goal_contributions
+  for update using (is_space_member(space_id)) with check (is_space_member(space_id));
+drop policy if exists "Members can delete goal contributions" on goal_contributions;
+create policy "Members can delete goal contributions" on goal_contributions
+  for delete using (is_space_member(space_id));
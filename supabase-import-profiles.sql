@@ -0,0 +1,54 @@
+-- Perfiles de importación de extractos bancarios
+-- Ejecutar DESPUES de:
+-- 1) supabase-schema.sql
+-- 2) supabase-copilot.sql
+-- 3) supabase-advanced.sql
+-- 4) supabase-spaces.sql
+-- 5) supabase-currency.sql
+-- 6) supabase-accounts.sql
+-- 7) supabase-cards.sql
+-- 8) supabase-installments.sql
+--
+-- Cada perfil guarda cómo leer el CSV de un banco: columnas, formato de fecha, separador decimal
+-- y convención de signo. Los perfiles de Galicia, Santander, BBVA y Mercado Pago vienen incluidos en la app.
+
+create table if not exists import_profiles (
+  id uuid primary key default gen_random_uuid(),
+  space_id uuid not null references spaces(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 80),
+  bank text,
+  mapping jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (space_id, name)
+);
+
+create index if not exists idx_import_profiles_space on import_profiles(space_id);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_trigger where tgname = 'update_import_profiles_modtime'
+  ) then
+    create trigger update_import_profiles_modtime
+    before update on import_profiles
+    for each row
+    execute function update_updated_at_column();
+  end if;
+end $$;
+
+alter table if exists import_profiles enable row level security;
+
+drop policy if exists "Members can view import profiles" on import_profiles;
+create policy "Members can view import profiles" on import_profiles
+  for select using (is_space_member(space_id));
+drop policy if exists "Members can insert import profiles" on import_profiles;
+create policy "Members can insert import profiles" on import_profiles
+  for insert with check (is_space_member(space_id));
+drop policy if exists "Members can update import profiles" on import_profiles;
+create policy "Members can update import profiles" on import_profiles
+  for update using (is_space_member(space_id)) with check (is_space_member(space_id));
+drop policy if exists "Members can delete import profiles" on import_profiles;
+create policy "Members can delete import profiles" on import_profiles
+  for delete using (is_space_member(space_id));
@@ -0,0 +1,54 @@
+-- Indices de ajuste (ICL, IPC, CER o series propias) para alquileres y sueldos indexados
+-- Ejecutar DESPUES de:
+-- 1) supabase-schema.sql
+-- 2) supabase-copilot.sql
+-- 3) supabase-advanced.sql
+-- 4) supabase-spaces.sql
+-- 5) supabase-currency.sql
+-- 6) supabase-accounts.sql
+-- 7) supabase-cards.sql
+-- 8) supabase-installments.sql
+-- 9) supabase-import-profiles.sql
+-- 10) supabase-duplicates.sql
+-- 11) supabase-category-rules.sql
+-- 12) supabase-categories.sql
+-- 13) supabase-transaction-details.sql
+-- 14) supabase-splits.sql
+-- 15) supabase-reconciliation.sql
+-- 16) supabase-recurring-runs.sql
+-- 17) supabase-recurrence.sql
+--
+-- Una fila por espacio, serie y fecha. Los valores se cargan a mano o desde un CSV (fecha, valor); no se
+-- consultan fuentes externas. Una regla recurrente con recurrence.adjustment.index = 'ICL' ajusta su monto
+-- cada adjustment.every_months meses por el cociente entre el valor vigente en ese momento y el de
+-- adjustment.base_date (o la fecha inicial de la regla).
+
+create table if not exists index_values (
+  id uuid primary key default gen_random_uuid(),
+  space_id uuid not null references spaces(id) on delete cascade,
+  series text not null check (series ~ '^[A-Z0-9_]{2,20}$'),
+  date date not null,
+  value numeric(20,6) not null check (value > 0),
+  source text not null default 'manual' check (source in ('manual', 'csv')),
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists idx_index_values_unique_day
+  on index_values(space_id, series, date);
+
+alter table if exists index_values enable row level security;
+
+drop policy if exists "Members can view index values" on index_values;
+create policy "Members can view index values" on index_values
+  for select using (is_space_member(space_id));
+drop policy if exists "Members can insert index values" on index_values;
+create policy "Members can insert index values" on index_values
+  for insert with check (is_space_member(space_id));
+drop policy if exists "Members can update index values" on index_values;
+create policy "Members can update index values" on index_values
+  for update using (is_space_member(space_id)) with check (is_space_member(space_id));
+drop policy if exists "Members can delete index values" on index_values;
+create policy "Members can delete index values" on index_values
+  for delete using (is_space_member(space_id));
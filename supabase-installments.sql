@@ -0,0 +1,116 @@
+-- Compras en cuotas
+-- Ejecutar DESPUES de:
+-- 1) supabase-schema.sql
+-- 2) supabase-copilot.sql
+-- 3) supabase-advanced.sql
+-- 4) supabase-spaces.sql
+-- 5) supabase-currency.sql
+-- 6) supabase-accounts.sql
+-- 7) supabase-cards.sql
+--
+-- Cada compra en cuotas es un plan (opcionalmente asociado a una tarjeta) con una cuota programada por mes.
+-- Las cuotas pasan a 'billed' cuando aparecen en un resumen importado y alimentan la proyección
+-- de "ya comprometido" por mes.
+
+-- ============================================================
+-- installment_plans
+-- ============================================================
+
+create table if not exists installment_plans (
+  id uuid primary key default gen_random_uuid(),
+  space_id uuid not null references spaces(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  card_id uuid references credit_cards(id) on delete set null,
+  description text not null check (char_length(description) between 1 and 160),
+  merchant text,
+  purchase_date date not null,
+  first_charge_date date not null,
+  total_installments smallint not null check (total_installments between 1 and 120),
+  installment_amount numeric(14,2) not null check (installment_amount > 0),
+  currency text not null default 'ARS' check (currency in ('ARS', 'USD')),
+  status text not null default 'active' check (status in ('active', 'completed', 'cancelled')),
+  source text not null default 'manual' check (source in ('manual', 'assistant', 'document')),
+  extraction_id uuid references extractions(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_installment_plans_space on installment_plans(space_id, status);
+create index if not exists idx_installment_plans_card on installment_plans(card_id) where card_id is not null;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_trigger where tgname = 'update_installment_plans_modtime'
+  ) then
+    create trigger update_installment_plans_modtime
+    before update on installment_plans
+    for each row
+    execute function update_updated_at_column();
+  end if;
+end $$;
+
+alter table if exists installment_plans enable row level security;
+
+drop policy if exists "Members can view installment plans" on installment_plans;
+create policy "Members can view installment plans" on installment_plans
+  for select using (is_space_member(space_id));
+drop policy if exists "Members can insert installment plans" on installment_plans;
+create policy "Members can insert installment plans" on installment_plans
+  for insert with check (is_space_member(space_id));
+drop policy if exists "Members can update installment plans" on installment_plans;
+create policy "Members can update installment plans" on installment_plans
+  for update using (is_space_member(space_id)) with check (is_space_member(space_id));
+drop policy if exists "Members can delete installment plans" on installment_plans;
+create policy "Members can delete installment plans" on installment_plans
+  for delete using (is_space_member(space_id));
+
+-- ============================================================
+-- installment_charges
+-- ============================================================
+
+create table if not exists installment_charges (
+  id uuid primary key default gen_random_uuid(),
+  space_id uuid not null references spaces(id) on delete cascade,
+  plan_id uuid not null references installment_plans(id) on delete cascade,
+  installment_number smallint not null check (installment_number >= 1),
+  charge_date date not null,
+  -- Vencimiento del resumen en el que cae la cuota (o la misma fecha si no hay tarjeta).
+  due_date date not null,
+  amount numeric(14,2) not null check (amount > 0),
+  currency text not null default 'ARS' check (currency in ('ARS', 'USD')),
+  status text not null default 'scheduled' check (status in ('scheduled', 'billed', 'cancelled')),
+  card_statement_id uuid references card_statements(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (plan_id, installment_number)
+);
+
+create index if not exists idx_installment_charges_space_due on installment_charges(space_id, due_date) where status <> 'cancelled';
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_trigger where tgname = 'update_installment_charges_modtime'
+  ) then
+    create trigger update_installment_charges_modtime
+    before update on installment_charges
+    for each row
+    execute function update_updated_at_column();
+  end if;
+end $$;
+
+alter table if exists installment_charges enable row level security;
+
+drop policy if exists "Members can view installment charges" on installment_charges;
+create policy "Members can view installment charges" on installment_charges
+  for select using (is_space_member(space_id));
+drop policy if exists "Members can insert installment charges" on installment_charges;
+create policy "Members can insert installment charges" on installment_charges
+  for insert with check (is_space_member(space_id));
+drop policy if exists "Members can update installment charges" on installment_charges;
+create policy "Members can update installment charges" on installment_charges
+  for update using (is_space_member(space_id)) with check (is_space_member(space_id));
+drop policy if exists "Members can delete installment charges" on installment_charges;
+create policy "Members can delete installment charges" on installment_charges
+  for delete using (is_space_member(space_id));
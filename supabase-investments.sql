@@ -0,0 +1,128 @@
+-- Inversiones: tenencias (plazo fijo, FCI, CEDEARs, acciones, bonos, cripto) con compras/ventas y precios
+-- Ejecutar DESPUES de:
+-- 1) supabase-schema.sql
+-- 2) supabase-copilot.sql
+-- 3) supabase-advanced.sql
+-- 4) supabase-spaces.sql
+-- 5) supabase-currency.sql
+-- 6) supabase-accounts.sql
+-- 7) supabase-cards.sql
+-- 8) supabase-installments.sql
+-- 9) supabase-import-profiles.sql
+-- 10) supabase-duplicates.sql
+-- 11) supabase-category-rules.sql
+-- 12) supabase-categories.sql
+-- 13) supabase-transaction-details.sql
+-- 14) supabase-splits.sql
+-- 15) supabase-reconciliation.sql
+-- 16) supabase-recurring-runs.sql
+-- 17) supabase-recurrence.sql
+-- 18) supabase-indexes.sql
+-- 19) supabase-net-worth.sql
+--
+-- Cada compra es un lote; las ventas consumen lotes en orden (FIFO). Los precios se guardan por tenencia y
+-- fecha, en la moneda de la tenencia. Un plazo fijo guarda capital, TNA y vencimiento: al vencer el runner
+-- registra los intereses como ingreso en account_id y lo marca como 'matured' (interest_transaction_id).
+
+create table if not exists investment_holdings (
+  id uuid primary key default gen_random_uuid(),
+  space_id uuid not null references spaces(id) on delete cascade,
+  user_id uuid references auth.users(id) on delete set null,
+  name text not null,
+  kind text not null default 'other'
+    check (kind in ('plazo_fijo', 'fci', 'cedear', 'stock', 'bond', 'crypto', 'other')),
+  symbol text,
+  currency text not null default 'ARS' check (currency in ('ARS', 'USD')),
+  account_id uuid references accounts(id) on delete set null,
+  principal numeric(16,2),
+  tna numeric(8,4),
+  start_date date,
+  maturity_date date,
+  status text not null default 'active' check (status in ('active', 'matured', 'closed')),
+  interest_transaction_id uuid references transactions(id) on delete set null,
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint investment_holdings_deposit_check check (
+    kind <> 'plazo_fijo'
+    or (principal > 0 and tna >= 0 and start_date is not null and maturity_date > start_date)
+  )
+);
+
+create index if not exists idx_investment_holdings_space on investment_holdings(space_id);
+create index if not exists idx_investment_holdings_maturity
+  on investment_holdings(maturity_date) where kind = 'plazo_fijo' and status = 'active';
+
+create table if not exists investment_trades (
+  id uuid primary key default gen_random_uuid(),
+  space_id uuid not null references spaces(id) on delete cascade,
+  holding_id uuid not null references investment_holdings(id) on delete cascade,
+  side text not null check (side in ('buy', 'sell')),
+  date date not null,
+  quantity numeric(24,8) not null check (quantity > 0),
+  price numeric(20,8) not null check (price >= 0),
+  fees numeric(16,2) not null default 0 check (fees >= 0),
+  notes text,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_investment_trades_holding on investment_trades(holding_id, date);
+
+create table if not exists investment_prices (
+  id uuid primary key default gen_random_uuid(),
+  space_id uuid not null references spaces(id) on delete cascade,
+  holding_id uuid not null references investment_holdings(id) on delete cascade,
+  date date not null,
+  price numeric(20,8) not null check (price > 0),
+  source text not null default 'manual' check (source in ('manual', 'csv')),
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists idx_investment_prices_unique_day
+  on investment_prices(holding_id, date);
+
+alter table if exists investment_holdings enable row level security;
+alter table if exists investment_trades enable row level security;
+alter table if exists investment_prices enable row level security;
+
+drop policy if exists "Members can view investment holdings" on investment_holdings;
+create policy "Members can view investment holdings" on investment_holdings
+  for select using (is_space_member(space_id));
+drop policy if exists "Members can insert investment holdings" on investment_holdings;
+create policy "Members can insert investment holdings" on investment_holdings
+  for insert with check (is_space_member(space_id));
+drop policy if exists "Members can update investment holdings" on investment_holdings;
+create policy "Members can update investment holdings" on investment_holdings
+  for update using (is_space_member(space_id)) with check (is_space_member(space_id));
+drop policy if exists "Members can delete investment holdings" on investment_holdings;
+create policy "Members can delete investment holdings" on investment_holdings
+  for delete using (is_space_member(space_id));
+
+drop policy if exists "Members can view investment trades" on investment_trades;
+create policy "Members can view investment trades" on investment_trades
+  for select using (is_space_member(space_id));
+drop policy if exists "Members can insert investment trades" on investment_trades;
+create policy "Members can insert investment trades" on investment_trades
+  for insert with check (is_space_member(space_id));
+drop policy if exists "Members can update investment trades" on investment_trades;
+create policy "Members can update investment trades" on investment_trades
+  for update using (is_space_member(space_id)) with check (is_space_member(space_id));
+drop policy if exists "Members can delete investment trades" on investment_trades;
+create policy "Members can delete investment trades" on investment_trades
+  for delete using (is_space_member(space_id));
+
+drop policy if exists "Members can view investment prices" on investment_prices;
+create policy "Members can view investment prices" on investment_prices
+  for select using (is_space_member(space_id));
+drop policy if exists "Members can insert investment prices" on investment_prices;
+create policy "Members can insert investment prices" on investment_prices
+  for insert with check (is_space_member(space_id));
+drop policy if exists "Members can update investment prices" on investment_prices;
+create policy "Members can update investment prices" on investment_prices
+  for update using (is_space_member(space_id)) with check (is_space_member(space_id));
+drop policy if exists "Members can delete investment prices" on investment_prices;
+create policy "Members can delete investment prices" on investment_prices
+  for delete using (is_space_member(space_id));
@@ -0,0 +1,55 @@
+-- Obligaciones: recargos por mora (cargo fijo y punitorios) y vencimiento automático
+-- Ejecutar DESPUES de:
+-- 1) supabase-schema.sql
+-- 2) supabase-copilot.sql
+-- 3) supabase-advanced.sql
+-- 4) supabase-spaces.sql
+-- 5) supabase-currency.sql
+-- 6) supabase-accounts.sql
+-- 7) supabase-cards.sql
+-- 8) supabase-installments.sql
+-- 9) supabase-import-profiles.sql
+-- 10) supabase-duplicates.sql
+-- 11) supabase-category-rules.sql
+-- 12) supabase-categories.sql
+-- 13) supabase-transaction-details.sql
+-- 14) supabase-splits.sql
+-- 15) supabase-reconciliation.sql
+-- 16) supabase-recurring-runs.sql
+-- 17) supabase-recurrence.sql
+-- 18) supabase-indexes.sql
+-- 19) supabase-net-worth.sql
+-- 20) supabase-investments.sql
+-- 21) supabase-goal-contributions.sql
+-- 22) supabase-debt-rates.sql
+-- 23) supabase-loans.sql
+-- 24) supabase-payments.sql
+--
+-- late_fee es un cargo fijo que se suma el primer día de atraso; late_interest_rate es la tasa anual nominal (en
+-- porcentaje) de los punitorios, que corren por día sobre el monto desde el vencimiento. Cuando un pago parcial
+-- incorpora los recargos al monto, late_interest_since guarda desde cuándo vuelven a correr (y el cargo fijo no se
+-- repite). El monto adeudado se calcula al consultar: amount no cambia por el solo paso del tiempo.
+--
+-- El paso de pending a overdue lo hace el cron diario (/api/cron/recurring) y también la carga de obligaciones;
+-- cada cambio queda en audit_events con action = 'system'.
+
+alter table if exists obligations add column if not exists late_fee numeric(14,2);
+alter table if exists obligations add column if not exists late_interest_rate numeric(8,3);
+alter table if exists obligations add column if not exists late_interest_since date;
+
+do $$
+begin
+  if not exists (
+    select 1 from information_schema.table_constraints
+    where table_name = 'obligations' and constraint_name = 'obligations_late_fee_check'
+  ) then
+    alter table obligations
+      add constraint obligations_late_fee_check
+      check (
+        (late_fee is null or late_fee >= 0)
+        and (late_interest_rate is null or (late_interest_rate >= 0 and late_interest_rate <= 10000))
+      );
+  end if;
+end $$;
+
+create index if not exists idx_obligations_pending_due on obligations(due_date) where status = 'pending';
@@ -0,0 +1,83 @@
+-- Préstamos: sistemas francés, alemán y UVA con tabla de amortización
+-- Ejecutar DESPUES de:
+-- 1) supabase-schema.sql
+-- 2) supabase-copilot.sql
+-- 3) supabase-advanced.sql
+-- 4) supabase-spaces.sql
+-- 5) supabase-currency.sql
+-- 6) supabase-accounts.sql
+-- 7) supabase-cards.sql
+-- 8) supabase-installments.sql
+-- 9) supabase-import-profiles.sql
+-- 10) supabase-duplicates.sql
+-- 11) supabase-category-rules.sql
+-- 12) supabase-categories.sql
+-- 13) supabase-transaction-details.sql
+-- 14) supabase-splits.sql
+-- 15) supabase-reconciliation.sql
+-- 16) supabase-recurring-runs.sql
+-- 17) supabase-recurrence.sql
+-- 18) supabase-indexes.sql
+-- 19) supabase-net-worth.sql
+-- 20) supabase-investments.sql
+-- 21) supabase-goal-contributions.sql
+-- 22) supabase-debt-rates.sql
+--
+-- Un préstamo es una deuda con loan_system: 'french' (cuota constante), 'german' (amortización constante) o
+-- 'uva' (francés en UVAs, la cuota en pesos sigue la serie UVA de index_values). principal y principal_balance
+-- están en unidades del préstamo (pesos o UVAs); total_amount y monthly_payment siguen en pesos. loan_payments
+-- guarda cómo se imputó cada pago entre intereses y capital.
+
+alter table if exists debts add column if not exists loan_system text;
+alter table if exists debts add column if not exists principal numeric(16,4);
+alter table if exists debts add column if not exists principal_balance numeric(16,4);
+
+do $$
+begin
+  if not exists (
+    select 1 from information_schema.table_constraints
+    where table_name = 'debts' and constraint_name = 'debts_loan_system_check'
+  ) then
+    alter table debts
+      add constraint debts_loan_system_check
+      check (loan_system is null or (loan_system in ('french', 'german', 'uva') and principal > 0 and principal_balance >= 0));
+  end if;
+end $$;
+
+create table if not exists loan_payments (
+  id uuid primary key default gen_random_uuid(),
+  space_id uuid not null references spaces(id) on delete cascade,
+  debt_id uuid not null references debts(id) on delete cascade,
+  transaction_id uuid references transactions(id) on delete set null,
+  installment_number integer not null check (installment_number > 0),
+  payment_date date not null,
+  -- Importes en pesos; para UVA se convierten con unit_value (valor UVA del día del pago).
+  amount numeric(14,2) not null check (amount > 0),
+  interest numeric(14,2) not null default 0 check (interest >= 0),
+  principal numeric(14,2) not null default 0 check (principal >= 0),
+  -- Parte del capital que excede la cuota: un adelanto, imputado según prepayment_mode.
+  prepayment numeric(14,2) not null default 0 check (prepayment >= 0),
+  prepayment_mode text check (prepayment_mode in ('reduce_installment', 'reduce_term')),
+  unit_value numeric(14,4),
+  -- Capital pendiente después del pago, en unidades del préstamo.
+  balance_after numeric(16,4) not null check (balance_after >= 0),
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_loan_payments_debt on loan_payments(debt_id, installment_number);
+
+alter table if exists loan_payments enable row level security;
+
+drop policy if exists "Members can view loan payments" on loan_payments;
+create policy "Members can view loan payments" on loan_payments
+  for select using (is_space_member(space_id));
+drop policy if exists "Members can insert loan payments" on loan_payments;
+create policy "Members can insert loan payments" on loan_payments
+  for insert with check (is_space_member(space_id));
+drop policy if exists "Members can update loan payments" on loan_payments;
+create policy "Members can update loan payments" on loan_payments
+  for update using (is_space_member(space_id)) with check (is_space_member(space_id));
+drop policy if exists "Members can delete loan payments" on loan_payments;
+create policy "Members can delete loan payments" on loan_payments
+  for delete using (is_space_member(space_id));
@@ -0,0 +1,98 @@
+-- Patrimonio: bienes (inmuebles, vehiculos, inversiones, ahorro en USD) y fotos mensuales del patrimonio neto
+-- Ejecutar DESPUES de:
+-- 1) supabase-schema.sql
+-- 2) supabase-copilot.sql
+-- 3) supabase-advanced.sql
+-- 4) supabase-spaces.sql
+-- 5) supabase-currency.sql
+-- 6) supabase-accounts.sql
+-- 7) supabase-cards.sql
+-- 8) supabase-installments.sql
+-- 9) supabase-import-profiles.sql
+-- 10) supabase-duplicates.sql
+-- 11) supabase-category-rules.sql
+-- 12) supabase-categories.sql
+-- 13) supabase-transaction-details.sql
+-- 14) supabase-splits.sql
+-- 15) supabase-reconciliation.sql
+-- 16) supabase-recurring-runs.sql
+-- 17) supabase-recurrence.sql
+-- 18) supabase-indexes.sql
+--
+-- Las cuentas entran solas al patrimonio con su saldo (las tarjetas con saldo negativo como pasivo) y las
+-- deudas activas como pasivo. Un bien manual guarda su valor en su moneda; un bien derivado toma el saldo de
+-- una cuenta (valuation_mode = 'account') y esa cuenta deja de contarse por separado.
+-- net_worth_snapshots guarda una foto por espacio y mes, en ARS, con el tipo de cambio USD de esa fecha.
+
+create table if not exists assets (
+  id uuid primary key default gen_random_uuid(),
+  space_id uuid not null references spaces(id) on delete cascade,
+  user_id uuid references auth.users(id) on delete set null,
+  name text not null,
+  asset_class text not null default 'other'
+    check (asset_class in ('cash', 'usd_savings', 'investment', 'property', 'vehicle', 'other')),
+  valuation_mode text not null default 'manual' check (valuation_mode in ('manual', 'account')),
+  currency text not null default 'ARS' check (currency in ('ARS', 'USD')),
+  value numeric(16,2) check (value is null or value >= 0),
+  account_id uuid references accounts(id) on delete set null,
+  valued_at date,
+  notes text,
+  is_archived boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint assets_manual_value_check check (valuation_mode = 'account' or value is not null)
+);
+
+create index if not exists idx_assets_space on assets(space_id) where is_archived = false;
+
+alter table if exists assets enable row level security;
+
+drop policy if exists "Members can view assets" on assets;
+create policy "Members can view assets" on assets
+  for select using (is_space_member(space_id));
+drop policy if exists "Members can insert assets" on assets;
+create policy "Members can insert assets" on assets
+  for insert with check (is_space_member(space_id));
+drop policy if exists "Members can update assets" on assets;
+create policy "Members can update assets" on assets
+  for update using (is_space_member(space_id)) with check (is_space_member(space_id));
+drop policy if exists "Members can delete assets" on assets;
+create policy "Members can delete assets" on assets
+  for delete using (is_space_member(space_id));
+
+create table if not exists net_worth_snapshots (
+  id uuid primary key default gen_random_uuid(),
+  space_id uuid not null references spaces(id) on delete cascade,
+  month text not null check (month ~ '^\d{4}-\d{2}$'),
+  as_of date not null,
+  currency text not null default 'ARS' check (currency in ('ARS', 'USD')),
+  total_assets numeric(16,2) not null default 0,
+  total_liabilities numeric(16,2) not null default 0,
+  net_worth numeric(16,2) not null default 0,
+  assets jsonb not null default '{}'::jsonb,
+  liabilities jsonb not null default '{}'::jsonb,
+  usd_rate numeric(18,6),
+  trigger text not null default 'cron' check (trigger in ('cron', 'manual')),
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Una foto por mes: volver a tomarla la reemplaza.
+create unique index if not exists idx_net_worth_snapshots_month
+  on net_worth_snapshots(space_id, month);
+
+alter table if exists net_worth_snapshots enable row level security;
+
+drop policy if exists "Members can view net worth snapshots" on net_worth_snapshots;
+create policy "Members can view net worth snapshots" on net_worth_snapshots
+  for select using (is_space_member(space_id));
+drop policy if exists "Members can insert net worth snapshots" on net_worth_snapshots;
+create policy "Members can insert net worth snapshots" on net_worth_snapshots
+  for insert with check (is_space_member(space_id));
+drop policy if exists "Members can update net worth snapshots" on net_worth_snapshots;
+create policy "Members can update net worth snapshots" on net_worth_snapshots
+  for update using (is_space_member(space_id)) with check (is_space_member(space_id));
+drop policy if exists "Members can delete net worth snapshots" on net_worth_snapshots;
+create policy "Members can delete net worth snapshots" on net_worth_snapshots
+  for delete using (is_space_member(space_id));
@@ -0,0 +1,140 @@
+-- Pagos: historial de pagos de obligaciones y deudas, con opción de deshacer
+-- Ejecutar DESPUES de:
+-- 1) supabase-schema.sql
+-- 2) supabase-copilot.sql
+-- 3) supabase-advanced.sql
+-- 4) supabase-spaces.sql
+-- 5) supabase-currency.sql
+-- 6) supabase-accounts.sql
+-- 7) supabase-cards.sql
+-- 8) supabase-installments.sql
+-- 9) supabase-import-profiles.sql
+-- 10) supabase-duplicates.sql
+-- 11) supabase-category-rules.sql
+-- 12) supabase-categories.sql
+-- 13) supabase-transaction-details.sql
+-- 14) supabase-splits.sql
+-- 15) supabase-reconciliation.sql
+-- 16) supabase-recurring-runs.sql
+-- 17) supabase-recurrence.sql
+-- 18) supabase-indexes.sql
+-- 19) supabase-net-worth.sql
+-- 20) supabase-investments.sql
+-- 21) supabase-goal-contributions.sql
+-- 22) supabase-debt-rates.sql
+-- 23) supabase-loans.sql
+--
+-- Cada pago confirmado de una obligación o una deuda queda en payments, con el movimiento que generó, el saldo
+-- antes y después y el estado previo del ítem (previous_state) para poder deshacerlo. Deshacer no borra la fila:
+-- la marca con undone_at. Los pagos anteriores a esta migración se reconstruyen desde audit_events (los nuevos
+-- llevan paymentId en la metadata del evento, así que correr el script otra vez no los duplica).
+
+create table if not exists payments (
+  id uuid primary key default gen_random_uuid(),
+  space_id uuid not null references spaces(id) on delete cascade,
+  obligation_id uuid references obligations(id) on delete cascade,
+  debt_id uuid references debts(id) on delete cascade,
+  transaction_id uuid references transactions(id) on delete set null,
+  source text not null default 'manual' check (source in ('manual', 'copilot', 'audit')),
+  amount numeric(14,2) not null check (amount > 0),
+  payment_date date not null,
+  balance_before numeric(14,2),
+  balance_after numeric(14,2),
+  previous_state jsonb not null default '{}'::jsonb,
+  undone_at timestamptz,
+  undone_by uuid references auth.users(id) on delete set null,
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  constraint payments_item_check check (num_nonnulls(obligation_id, debt_id) = 1)
+);
+
+create index if not exists idx_payments_obligation on payments(obligation_id, created_at) where obligation_id is not null;
+create index if not exists idx_payments_debt on payments(debt_id, created_at) where debt_id is not null;
+create index if not exists idx_payments_space_created on payments(space_id, created_at desc);
+
+alter table if exists loan_payments add column if not exists payment_id uuid references payments(id) on delete cascade;
+
+-- Pagos de obligaciones registrados antes de esta migración (confirmación manual o desde el copiloto).
+insert into payments (
+  space_id, obligation_id, transaction_id, source, amount, payment_date,
+  balance_before, balance_after, previous_state, created_by, created_at
+)
+select
+  o.space_id,
+  o.id,
+  t.id,
+  'audit',
+  (a.metadata->>'paymentAmount')::numeric,
+  coalesce((a.metadata->>'paymentDate')::date, a.created_at::date),
+  (a.before_data->>'amount')::numeric,
+  case when a.after_data->>'status' = 'paid' then 0 else (a.after_data->>'amount')::numeric end,
+  jsonb_build_object('amount', a.before_data->'amount', 'status', a.before_data->'status'),
+  a.user_id,
+  a.created_at
+from audit_events a
+join obligations o on o.id::text = a.entity_id
+left join transactions t on t.id::text = a.metadata->>'transactionId'
+where a.entity_type = 'obligation'
+  and a.action = 'update'
+  and (a.metadata->>'paymentAmount')::numeric > 0
+  and a.metadata->>'paymentId' is null
+  and not exists (
+    select 1 from payments p where p.obligation_id = o.id and p.created_at = a.created_at
+  );
+
+-- Pagos de deudas: el movimiento se busca en el evento de auditoría que lo creó junto con el pago.
+insert into payments (
+  space_id, debt_id, transaction_id, source, amount, payment_date,
+  balance_before, balance_after, previous_state, created_by, created_at
+)
+select
+  d.space_id,
+  d.id,
+  tx.id,
+  'audit',
+  (a.metadata->>'paymentAmount')::numeric,
+  coalesce((a.metadata->>'paymentDate')::date, a.created_at::date),
+  (a.before_data->>'total_amount')::numeric,
+  (a.after_data->>'total_amount')::numeric,
+  jsonb_build_object(
+    'total_amount', a.before_data->'total_amount',
+    'remaining_installments', a.before_data->'remaining_installments',
+    'next_payment_date', a.before_data->'next_payment_date'
+  ),
+  a.user_id,
+  a.created_at
+from audit_events a
+join debts d on d.id::text = a.entity_id
+left join lateral (
+  select t.id
+  from audit_events ta
+  join transactions t on t.id::text = ta.entity_id
+  where ta.entity_type = 'transaction'
+    and ta.metadata->>'source' = 'debt_confirm_payment'
+    and ta.metadata->>'debtId' = a.entity_id
+    and ta.created_at between a.created_at and a.created_at + interval '1 minute'
+  order by ta.created_at
+  limit 1
+) tx on true
+where a.entity_type = 'debt'
+  and a.action = 'update'
+  and (a.metadata->>'paymentAmount')::numeric > 0
+  and a.metadata->>'paymentId' is null
+  and not exists (
+    select 1 from payments p where p.debt_id = d.id and p.created_at = a.created_at
+  );
+
+alter table if exists payments enable row level security;
+
+drop policy if exists "Members can view payments" on payments;
+create policy "Members can view payments" on payments
+  for select using (is_space_member(space_id));
+drop policy if exists "Members can insert payments" on payments;
+create policy "Members can insert payments" on payments
+  for insert with check (is_space_member(space_id));
+drop policy if exists "Members can update payments" on payments;
+create policy "Members can update payments" on payments
+  for update using (is_space_member(space_id)) with check (is_space_member(space_id));
+drop policy if exists "Members can delete payments" on payments;
+create policy "Members can delete payments" on payments
+  for delete using (is_space_member(space_id));
@@ -0,0 +1,64 @@
+-- Conciliacion bancaria contra extractos procesados
+-- Ejecutar DESPUES de:
+-- 1) supabase-schema.sql
+-- 2) supabase-copilot.sql
+-- 3) supabase-advanced.sql
+-- 4) supabase-spaces.sql
+-- 5) supabase-currency.sql
+-- 6) supabase-accounts.sql
+-- 7) supabase-cards.sql
+-- 8) supabase-installments.sql
+-- 9) supabase-import-profiles.sql
+-- 10) supabase-duplicates.sql
+-- 11) supabase-category-rules.sql
+-- 12) supabase-categories.sql
+-- 13) supabase-transaction-details.sql
+-- 14) supabase-splits.sql
+--
+-- Un extracto bancario procesado (extraction de tipo bank_statement) se compara con los movimientos de
+-- una cuenta. Al confirmar, los movimientos aceptados quedan marcados como conciliados, los que faltaban
+-- se crean, y la cuenta queda conciliada hasta la fecha de cierre del extracto.
+
+create table if not exists reconciliations (
+  id uuid primary key default gen_random_uuid(),
+  space_id uuid not null references spaces(id) on delete cascade,
+  account_id uuid not null references accounts(id) on delete cascade,
+  extraction_id uuid references extractions(id) on delete set null,
+  user_id uuid references auth.users(id) on delete set null,
+  period_start date,
+  closing_date date not null,
+  -- Lineas del extracto y como se resolvieron.
+  statement_lines integer not null default 0 check (statement_lines >= 0),
+  matched_count integer not null default 0 check (matched_count >= 0),
+  created_count integer not null default 0 check (created_count >= 0),
+  missing_in_bank_count integer not null default 0 check (missing_in_bank_count >= 0),
+  created_at timestamptz not null default now(),
+  check (period_start is null or period_start <= closing_date)
+);
+
+create index if not exists idx_reconciliations_space_account on reconciliations(space_id, account_id, closing_date desc);
+
+alter table if exists reconciliations enable row level security;
+
+drop policy if exists "Members can view reconciliations" on reconciliations;
+create policy "Members can view reconciliations" on reconciliations
+  for select using (is_space_member(space_id));
+drop policy if exists "Members can insert reconciliations" on reconciliations;
+create policy "Members can insert reconciliations" on reconciliations
+  for insert with check (is_space_member(space_id));
+drop policy if exists "Members can update reconciliations" on reconciliations;
+create policy "Members can update reconciliations" on reconciliations
+  for update using (is_space_member(space_id)) with check (is_space_member(space_id));
+drop policy if exists "Members can delete reconciliations" on reconciliations;
+create policy "Members can delete reconciliations" on reconciliations
+  for delete using (is_space_member(space_id));
+
+-- ============================================================
+-- accounts y transactions: hasta donde se concilio
+-- ============================================================
+
+alter table if exists accounts add column if not exists reconciled_through date;
+
+-- Movimiento confirmado contra una linea del extracto (o creado desde ella).
+alter table if exists transactions add column if not exists reconciliation_id uuid references reconciliations(id) on delete set null;
+create index if not exists idx_transactions_reconciliation on transactions(reconciliation_id) where reconciliation_id is not null;
@@ -0,0 +1,31 @@
+-- Reglas de recurrencia extendidas (estilo RRULE)
+-- Ejecutar DESPUES de:
+-- 1) supabase-schema.sql
+-- 2) supabase-copilot.sql
+-- 3) supabase-advanced.sql
+-- 4) supabase-spaces.sql
+-- 5) supabase-currency.sql
+-- 6) supabase-accounts.sql
+-- 7) supabase-cards.sql
+-- 8) supabase-installments.sql
+-- 9) supabase-import-profiles.sql
+-- 10) supabase-duplicates.sql
+-- 11) supabase-category-rules.sql
+-- 12) supabase-categories.sql
+-- 13) supabase-transaction-details.sql
+-- 14) supabase-splits.sql
+-- 15) supabase-reconciliation.sql
+-- 16) supabase-recurring-runs.sql
+--
+-- recurrence guarda la regla completa:
+--   { freq: daily|weekly|monthly|yearly, interval, month_day (1-31 o -1 = ultimo dia),
+--     business_day: none|next|previous, until, count, adjustment: { every_months, percent } }
+-- Si es null se usa frequency como antes. frequency se sigue completando (custom cuando no hay equivalente)
+-- para las pantallas que solo la muestran.
+
+alter table if exists recurring_transactions add column if not exists recurrence jsonb;
+
+alter table if exists recurring_transactions drop constraint if exists recurring_transactions_frequency_check;
+alter table if exists recurring_transactions
+  add constraint recurring_transactions_frequency_check
+  check (frequency in ('weekly', 'biweekly', 'monthly', 'yearly', 'custom'));
@@ -0,0 +1,56 @@
+-- Ejecucion programada de recurrencias, idempotente y con registro por corrida
+-- Ejecutar DESPUES de:
+-- 1) supabase-schema.sql
+-- 2) supabase-copilot.sql
+-- 3) supabase-advanced.sql
+-- 4) supabase-spaces.sql
+-- 5) supabase-currency.sql
+-- 6) supabase-accounts.sql
+-- 7) supabase-cards.sql
+-- 8) supabase-installments.sql
+-- 9) supabase-import-profiles.sql
+-- 10) supabase-duplicates.sql
+-- 11) supabase-category-rules.sql
+-- 12) supabase-categories.sql
+-- 13) supabase-transaction-details.sql
+-- 14) supabase-splits.sql
+-- 15) supabase-reconciliation.sql
+--
+-- Cada movimiento generado por una recurrencia guarda la regla y la fecha de la ocurrencia. El indice unico
+-- (recurring_id, occurrence_date) hace que volver a correr el runner (por ejemplo si fallo la actualizacion
+-- de next_run) no duplique movimientos. El cron (/api/cron/recurring) recorre todos los espacios con el
+-- service role; cada corrida por espacio queda en recurring_runs con el resultado de cada regla.
+
+alter table if exists transactions add column if not exists recurring_id uuid references recurring_transactions(id) on delete set null;
+alter table if exists transactions add column if not exists occurrence_date date;
+
+-- Los movimientos cargados a mano tienen recurring_id null y no chocan entre si.
+create unique index if not exists idx_transactions_recurring_occurrence on transactions(recurring_id, occurrence_date);
+
+create table if not exists recurring_runs (
+  id uuid primary key default gen_random_uuid(),
+  space_id uuid not null references spaces(id) on delete cascade,
+  -- Usuario que disparo la corrida; null cuando la corre el cron.
+  user_id uuid references auth.users(id) on delete set null,
+  trigger text not null check (trigger in ('cron', 'manual')),
+  run_date date not null,
+  rules_processed integer not null default 0 check (rules_processed >= 0),
+  generated integer not null default 0 check (generated >= 0),
+  skipped integer not null default 0 check (skipped >= 0),
+  failed integer not null default 0 check (failed >= 0),
+  -- [{ rule_id, description, status, generated, skipped, next_run, error }]
+  results jsonb not null default '[]'::jsonb,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+
+create index if not exists idx_recurring_runs_space_started on recurring_runs(space_id, started_at desc);
+
+alter table if exists recurring_runs enable row level security;
+
+drop policy if exists "Members can view recurring runs" on recurring_runs;
+create policy "Members can view recurring runs" on recurring_runs
+  for select using (is_space_member(space_id));
+drop policy if exists "Members can insert recurring runs" on recurring_runs;
+create policy "Members can insert recurring runs" on recurring_runs
+  for insert with check (is_space_member(space_id));
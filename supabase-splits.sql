@@ -0,0 +1,75 @@
+-- Division de movimientos en varias categorias
+-- Ejecutar DESPUES de:
+-- 1) supabase-schema.sql
+-- 2) supabase-copilot.sql
+-- 3) supabase-advanced.sql
+-- 4) supabase-spaces.sql
+-- 5) supabase-currency.sql
+-- 6) supabase-accounts.sql
+-- 7) supabase-cards.sql
+-- 8) supabase-installments.sql
+-- 9) supabase-import-profiles.sql
+-- 10) supabase-duplicates.sql
+-- 11) supabase-category-rules.sql
+-- 12) supabase-categories.sql
+-- 13) supabase-transaction-details.sql
+--
+-- Un gasto puede dividirse en lineas, cada una con su categoria y monto. Los montos de las lineas estan en
+-- la moneda en que se cargo el movimiento (original_amount si es USD) y suman el total del movimiento
+-- (lo valida la API). Presupuestos, graficos y el asistente reparten el gasto segun estas lineas.
+
+create table if not exists transaction_splits (
+  id uuid primary key default gen_random_uuid(),
+  space_id uuid not null references spaces(id) on delete cascade,
+  transaction_id uuid not null references transactions(id) on delete cascade,
+  user_id uuid references auth.users(id) on delete set null,
+  category text not null check (char_length(category) between 1 and 60),
+  category_id uuid references categories(id) on delete set null,
+  amount numeric(14,2) not null check (amount > 0),
+  description text check (description is null or char_length(description) <= 200),
+  position integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_transaction_splits_transaction on transaction_splits(transaction_id, position);
+create index if not exists idx_transaction_splits_space on transaction_splits(space_id);
+create index if not exists idx_transaction_splits_category_id on transaction_splits(category_id) where category_id is not null;
+
+alter table if exists transaction_splits enable row level security;
+
+drop policy if exists "Members can view transaction splits" on transaction_splits;
+create policy "Members can view transaction splits" on transaction_splits
+  for select using (is_space_member(space_id));
+drop policy if exists "Members can insert transaction splits" on transaction_splits;
+create policy "Members can insert transaction splits" on transaction_splits
+  for insert with check (is_space_member(space_id));
+drop policy if exists "Members can update transaction splits" on transaction_splits;
+create policy "Members can update transaction splits" on transaction_splits
+  for update using (is_space_member(space_id)) with check (is_space_member(space_id));
+drop policy if exists "Members can delete transaction splits" on transaction_splits;
+create policy "Members can delete transaction splits" on transaction_splits
+  for delete using (is_space_member(space_id));
+
+-- Las lineas usan el mismo resolvedor de categorias que el resto de las tablas (supabase-categories.sql).
+drop trigger if exists set_transaction_splits_category_id on transaction_splits;
+create trigger set_transaction_splits_category_id
+before insert or update of category, category_id on transaction_splits
+for each row
+execute function set_row_category_id();
+
+-- Renombrar una categoria tambien actualiza las lineas.
+create or replace function propagate_category_rename()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.name is distinct from old.name then
+    update transactions set category = new.name where category_id = new.id;
+    update budgets set category = new.name where category_id = new.id;
+    update recurring_transactions set category = new.name where category_id = new.id;
+    update debts set category = new.name where category_id = new.id;
+    update transaction_splits set category = new.name where category_id = new.id;
+  end if;
+  return new;
+end;
+$$;
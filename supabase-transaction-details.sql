@@ -0,0 +1,200 @@
+-- Etiquetas, notas y adjuntos de movimientos
+-- Ejecutar DESPUES de:
+-- 1) supabase-schema.sql
+-- 2) supabase-copilot.sql
+-- 3) supabase-advanced.sql
+-- 4) supabase-spaces.sql
+-- 5) supabase-currency.sql
+-- 6) supabase-accounts.sql
+-- 7) supabase-cards.sql
+-- 8) supabase-installments.sql
+-- 9) supabase-import-profiles.sql
+-- 10) supabase-duplicates.sql
+-- 11) supabase-category-rules.sql
+-- 12) supabase-categories.sql
+--
+-- Las etiquetas se escriben en `transactions.tags` (la API, las reglas y las importaciones ya lo usan) y un
+-- trigger las refleja en el catalogo `tags` y en la tabla de union `transaction_tags` (muchos a muchos).
+-- Los adjuntos (tickets, facturas) se guardan en el bucket `documents` bajo <user_id>/transactions/<id>/.
+
+alter table if exists transactions add column if not exists notes text;
+alter table if exists transactions add column if not exists tags text[] not null default '{}';
+
+do $$
+begin
+  if not exists (
+    select 1 from information_schema.table_constraints
+    where table_name = 'transactions' and constraint_name = 'transactions_notes_length_check'
+  ) then
+    alter table transactions
+      add constraint transactions_notes_length_check check (notes is null or char_length(notes) <= 2000);
+  end if;
+end $$;
+
+-- ============================================================
+-- Etiquetas (muchos a muchos)
+-- ============================================================
+
+create or replace function normalize_tag_name(p_name text)
+returns text
+language sql
+immutable
+as $$
+  select left(regexp_replace(lower(trim(coalesce(p_name, ''))), '\s+', ' ', 'g'), 40);
+$$;
+
+create table if not exists tags (
+  id uuid primary key default gen_random_uuid(),
+  space_id uuid not null references spaces(id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 40),
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists idx_tags_space_name on tags(space_id, normalize_tag_name(name));
+
+create table if not exists transaction_tags (
+  transaction_id uuid not null references transactions(id) on delete cascade,
+  tag_id uuid not null references tags(id) on delete cascade,
+  space_id uuid not null references spaces(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (transaction_id, tag_id)
+);
+
+create index if not exists idx_transaction_tags_tag on transaction_tags(tag_id);
+create index if not exists idx_transaction_tags_space on transaction_tags(space_id);
+
+alter table if exists tags enable row level security;
+alter table if exists transaction_tags enable row level security;
+
+drop policy if exists "Members can view tags" on tags;
+create policy "Members can view tags" on tags
+  for select using (is_space_member(space_id));
+drop policy if exists "Members can insert tags" on tags;
+create policy "Members can insert tags" on tags
+  for insert with check (is_space_member(space_id));
+drop policy if exists "Members can update tags" on tags;
+create policy "Members can update tags" on tags
+  for update using (is_space_member(space_id)) with check (is_space_member(space_id));
+drop policy if exists "Members can delete tags" on tags;
+create policy "Members can delete tags" on tags
+  for delete using (is_space_member(space_id));
+
+drop policy if exists "Members can view transaction tags" on transaction_tags;
+create policy "Members can view transaction tags" on transaction_tags
+  for select using (is_space_member(space_id));
+drop policy if exists "Members can insert transaction tags" on transaction_tags;
+create policy "Members can insert transaction tags" on transaction_tags
+  for insert with check (is_space_member(space_id));
+drop policy if exists "Members can delete transaction tags" on transaction_tags;
+create policy "Members can delete transaction tags" on transaction_tags
+  for delete using (is_space_member(space_id));
+
+-- Mantiene transaction_tags igual al arreglo `tags` del movimiento, creando las etiquetas que falten.
+create or replace function sync_transaction_tags()
+returns trigger
+language plpgsql
+as $$
+begin
+  insert into tags (space_id, name)
+  select distinct on (normalize_tag_name(t.name)) new.space_id, normalize_tag_name(t.name)
+  from unnest(coalesce(new.tags, '{}')) as t(name)
+  where normalize_tag_name(t.name) <> ''
+  on conflict do nothing;
+
+  delete from transaction_tags tt
+  using tags tg
+  where tt.transaction_id = new.id
+    and tg.id = tt.tag_id
+    and normalize_tag_name(tg.name) <> all (
+      select normalize_tag_name(t.name) from unnest(coalesce(new.tags, '{}')) as t(name)
+    );
+
+  insert into transaction_tags (transaction_id, tag_id, space_id)
+  select new.id, tg.id, new.space_id
+  from tags tg
+  where tg.space_id = new.space_id
+    and normalize_tag_name(tg.name) in (
+      select normalize_tag_name(t.name) from unnest(coalesce(new.tags, '{}')) as t(name)
+    )
+  on conflict do nothing;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists sync_transactions_tags on transactions;
+create trigger sync_transactions_tags
+after insert or update of tags on transactions
+for each row
+execute function sync_transaction_tags();
+
+-- Migracion: etiquetas ya guardadas por las reglas de categorizacion.
+insert into tags (space_id, name)
+select distinct on (tx.space_id, normalize_tag_name(t.name)) tx.space_id, normalize_tag_name(t.name)
+from transactions tx, unnest(tx.tags) as t(name)
+where normalize_tag_name(t.name) <> ''
+on conflict do nothing;
+
+insert into transaction_tags (transaction_id, tag_id, space_id)
+select distinct tx.id, tg.id, tx.space_id
+from transactions tx
+cross join lateral unnest(tx.tags) as t(name)
+join tags tg
+  on tg.space_id = tx.space_id
+ and normalize_tag_name(tg.name) = normalize_tag_name(t.name)
+on conflict do nothing;
+
+-- ============================================================
+-- Adjuntos
+-- ============================================================
+
+create table if not exists transaction_attachments (
+  id uuid primary key default gen_random_uuid(),
+  space_id uuid not null references spaces(id) on delete cascade,
+  transaction_id uuid not null references transactions(id) on delete cascade,
+  user_id uuid references auth.users(id) on delete set null,
+  storage_path text not null unique,
+  file_name text not null check (char_length(file_name) between 1 and 255),
+  mime_type text not null check (mime_type in ('application/pdf', 'image/jpeg', 'image/jpg', 'image/png', 'image/webp')),
+  size_bytes integer not null check (size_bytes > 0 and size_bytes <= 10485760),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_transaction_attachments_transaction on transaction_attachments(transaction_id);
+create index if not exists idx_transaction_attachments_space on transaction_attachments(space_id);
+
+alter table if exists transaction_attachments enable row level security;
+
+drop policy if exists "Members can view transaction attachments" on transaction_attachments;
+create policy "Members can view transaction attachments" on transaction_attachments
+  for select using (is_space_member(space_id));
+drop policy if exists "Members can insert transaction attachments" on transaction_attachments;
+create policy "Members can insert transaction attachments" on transaction_attachments
+  for insert with check (is_space_member(space_id));
+drop policy if exists "Members can delete transaction attachments" on transaction_attachments;
+create policy "Members can delete transaction attachments" on transaction_attachments
+  for delete using (is_space_member(space_id));
+
+-- Los archivos se suben en la carpeta de quien los adjunta (politicas de supabase-advanced.sql);
+-- estas politicas permiten que el resto del espacio los vea y los borre.
+drop policy if exists "Members can view transaction attachment files" on storage.objects;
+create policy "Members can view transaction attachment files" on storage.objects
+  for select using (
+    bucket_id = 'documents'
+    and exists (
+      select 1 from public.transaction_attachments a
+      where a.storage_path = storage.objects.name
+        and is_space_member(a.space_id)
+    )
+  );
+
+drop policy if exists "Members can delete transaction attachment files" on storage.objects;
+create policy "Members can delete transaction attachment files" on storage.objects
+  for delete using (
+    bucket_id = 'documents'
+    and exists (
+      select 1 from public.transaction_attachments a
+      where a.storage_path = storage.objects.name
+        and is_space_member(a.space_id)
+    )
+  );